@@ -0,0 +1,42 @@
+/**
+ * Link jobs saved before the cross-job entity store existed (see server/entityStore.ts)
+ *
+ *   pnpm backfill-entities          # every job with saved firms, oldest first
+ *   pnpm backfill-entities --job 1050002
+ *
+ * Oldest first so canonical fields end up with each entity's newest values. Safe to re-run.
+ */
+
+import "dotenv/config";
+import { asc } from "drizzle-orm";
+import { enrichedFirms } from "./drizzle/schema";
+import { getDb } from "./server/db";
+import { linkJobEntities } from "./server/entityStore";
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const jobOption = option(process.argv.slice(2), "--job");
+  const jobIds = jobOption
+    ? [Number(jobOption)]
+    : (await db.selectDistinct({ jobId: enrichedFirms.jobId }).from(enrichedFirms)
+        .orderBy(asc(enrichedFirms.jobId))).map((j) => j.jobId);
+
+  for (const jobId of jobIds) {
+    const totals = await linkJobEntities(jobId);
+    console.log(`Job ${jobId}: ${totals.firms} firms linked (${totals.unlinkedFirms} without a website), ${totals.peopleCreated} new people, ${totals.peopleLinked} matched`);
+  }
+  console.log(`✓ Backfilled ${jobIds.length} jobs`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("✗", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -8,7 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Loader2, ChevronLeft, ChevronRight, Search, Sparkles, Download } from "lucide-react";
 import { toast } from "sonner";
 import { trpc } from "@/lib/trpc";
-import { getTemplate, type TemplateField } from "@/lib/templates";
+import { getTemplate, type TemplateField } from "@shared/templates";
 
 // Sheet keys that map to the backend query tab type
 type QueryTab = "firms" | "team" | "portfolio";
@@ -150,6 +150,7 @@ function AgentJobSheet({ jobId, open, onClose, sectionsJson }: {
                 const success = logs.filter((l: any) => l.status === "success").length;
                 const partial = logs.filter((l: any) => l.status === "partial").length;
                 const failed = logs.filter((l: any) => l.status === "failed").length;
+                const skipped = logs.filter((l: any) => l.status === "skipped").length;
 
                 // Per-field fill rate across all profile logs
                 const fieldStats: Record<string, { filled: number; total: number }> = {};
@@ -167,12 +168,13 @@ function AgentJobSheet({ jobId, open, onClose, sectionsJson }: {
                 return (
                   <div className="space-y-6">
                     {/* Summary row */}
-                    <div className="grid grid-cols-4 gap-3">
+                    <div className="grid grid-cols-5 gap-3">
                       {[
                         { label: "Total URLs", value: total, color: "text-foreground" },
                         { label: "Success", value: success, color: "text-green-600" },
                         { label: "Partial", value: partial, color: "text-amber-600" },
                         { label: "Failed", value: failed, color: "text-red-500" },
+                        { label: "Skipped", value: skipped, color: "text-muted-foreground" },
                       ].map((s) => (
                         <div key={s.label} className="rounded-lg border p-4 text-center">
                           <p className={`text-2xl font-bold ${s.color}`}>{s.value}</p>
@@ -225,7 +227,7 @@ function AgentJobSheet({ jobId, open, onClose, sectionsJson }: {
                               <TableRow key={log.id}>
                                 <TableCell className="max-w-[200px] truncate text-xs">{log.companyName || log.url || "—"}</TableCell>
                                 <TableCell>
-                                  <span className={`text-xs font-medium ${log.status === "success" ? "text-green-600" : log.status === "partial" ? "text-amber-600" : "text-red-500"}`}>
+                                  <span className={`text-xs font-medium ${log.status === "success" ? "text-green-600" : log.status === "partial" ? "text-amber-600" : log.status === "skipped" ? "text-muted-foreground" : "text-red-500"}`}>
                                     {log.status}
                                   </span>
                                 </TableCell>
@@ -10,18 +10,20 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
 import { getLoginUrl } from "@/const";
 import {
   Bot, Download, Upload, Clock, CheckCircle, XCircle, Loader2, LogOut,
   FileSpreadsheet, Table2, DollarSign, TrendingUp, Building2, Users,
   HeartPulse, ShoppingCart, Home, MapPin, Info, Sparkles, X, Plus, List, Search,
+  KeyRound, Copy, Trash2, PauseCircle, Wallet, ShieldBan, Send, Layers, Link2,
 } from "lucide-react";
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { toast } from "sonner";
 import { Link } from "wouter";
 import ResultsSheet from "@/components/ResultsSheet";
-import { ALL_TEMPLATES, getTemplate, TEMPLATE_SECTIONS, TEMPLATE_SYSTEM_PROMPTS, type AgentSection as TemplateAgentSection } from "@/lib/templates";
+import { ALL_TEMPLATES, getTemplate, TEMPLATE_SECTIONS, TEMPLATE_SYSTEM_PROMPTS, type AgentSection as TemplateAgentSection, type SectionType } from "@shared/templates";
 
 // ---------------------------------------------------------------------------
 // Icon map for templates
@@ -84,6 +86,13 @@ interface PreviewData {
     perFirmCost: number;
     estimatedDuration: string;
   };
+  // Firms with fresh results from earlier jobs, per team coverage (VC template only)
+  reuse?: {
+    freshnessDays: number;
+    reusableFirms: Record<"tier1" | "tier1-2" | "all", number>;
+  };
+  // Row checks from uploadAndPreview (server/inputPreflight.ts)
+  preflight?: PreflightReport;
   preview: Array<{
     companyName: string;
     websiteUrl: string;
@@ -95,6 +104,20 @@ interface AgentSection {
   key: string;
   label: string;
   desc: string;
+  type?: SectionType;
+  unit?: string;
+  options?: string[];
+}
+
+type PreflightIssueKind = "normalized_url" | "duplicate_domain" | "social_link" | "malformed_url" | "email_in_url" | "missing_url";
+type PreflightFixes = { normalizeUrls?: boolean; mergeDuplicates?: boolean; clearInvalidUrls?: boolean; resolveMissingWebsites?: boolean };
+interface PreflightReport {
+  totalRows: number;
+  readyRows: number;
+  counts: Record<PreflightIssueKind, number>;
+  issues: { row: number; kind: PreflightIssueKind; companyName: string; value: string; message: string; fix?: string }[];
+  duplicateGroups: { domain: string; rows: number[] }[];
+  fixable: boolean;
 }
 
 type WizardStep = "idle" | "configure" | "review";
@@ -123,8 +146,8 @@ function JobLogFeed({ jobId }: { jobId: number }) {
     <div className="mt-3 space-y-1">
       {recent.map((log: any) => (
         <div key={log.id} className="flex items-center gap-2 text-xs">
-          <span className={log.status === "success" ? "text-green-600 font-bold" : log.status === "partial" ? "text-amber-600 font-bold" : "text-red-500 font-bold"}>
-            {log.status === "success" ? "✓" : log.status === "partial" ? "~" : "✗"}
+          <span className={log.status === "success" ? "text-green-600 font-bold" : log.status === "partial" ? "text-amber-600 font-bold" : log.status === "skipped" ? "text-muted-foreground font-bold" : "text-red-500 font-bold"}>
+            {log.status === "success" ? "✓" : log.status === "partial" ? "~" : log.status === "skipped" ? "–" : "✗"}
           </span>
           <span className="text-muted-foreground truncate max-w-[180px]">{log.companyName || log.url}</span>
           {log.fieldsFilled != null && log.fieldsTotal != null && log.fieldsTotal > 0 && (
@@ -139,6 +162,129 @@ function JobLogFeed({ jobId }: { jobId: number }) {
   );
 }
 
+// ---------------------------------------------------------------------------
+// PreflightCard — row issues found before the job starts, with fixes to accept
+// ---------------------------------------------------------------------------
+const PREFLIGHT_LABELS: Record<PreflightIssueKind, string> = {
+  normalized_url: "URLs to canonicalise",
+  duplicate_domain: "Duplicate domains",
+  social_link: "Social / directory links",
+  malformed_url: "Malformed URLs",
+  email_in_url: "Emails in website column",
+  missing_url: "Missing websites",
+};
+
+function PreflightCard({ report, applying, onApply }: { report: PreflightReport; applying: boolean; onApply: (fixes: PreflightFixes) => void }) {
+  const { counts } = report;
+  const [fixes, setFixes] = useState<PreflightFixes>({
+    normalizeUrls: counts.normalized_url + counts.email_in_url > 0,
+    mergeDuplicates: counts.duplicate_domain > 0,
+    clearInvalidUrls: counts.social_link + counts.malformed_url > 0,
+    resolveMissingWebsites: false,
+  });
+  const issueCount = Object.values(counts).reduce((sum, n) => sum + n, 0);
+  if (issueCount === 0) return null;
+
+  const options: { key: keyof PreflightFixes; label: string; count: number }[] = [
+    { key: "normalizeUrls", label: "Canonicalise URLs (and use the company domain of emails)", count: counts.normalized_url + counts.email_in_url },
+    { key: "mergeDuplicates", label: "Merge rows with the same domain", count: counts.duplicate_domain },
+    { key: "clearInvalidUrls", label: "Clear social / directory links and malformed URLs", count: counts.social_link + counts.malformed_url },
+    { key: "resolveMissingWebsites", label: "Look up missing websites from company names", count: counts.missing_url + (fixes.clearInvalidUrls ? counts.social_link + counts.malformed_url : 0) },
+  ];
+
+  return (
+    <div className="mb-5 p-3 rounded-lg border border-amber-300 bg-amber-50/50 space-y-3">
+      <div>
+        <p className="text-sm font-semibold">Pre-flight check · {report.readyRows} of {report.totalRows} rows ready</p>
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {(Object.keys(counts) as PreflightIssueKind[]).filter((k) => counts[k] > 0).map((k) => (
+            <Badge key={k} variant="outline" className="text-xs">{PREFLIGHT_LABELS[k]}: {counts[k]}</Badge>
+          ))}
+        </div>
+      </div>
+      <div className="max-h-40 overflow-y-auto space-y-1">
+        {report.issues.slice(0, 50).map((issue, i) => (
+          <p key={i} className="text-xs text-muted-foreground">
+            <span className="font-mono">Row {issue.row}</span> · {issue.companyName || issue.value || "—"} · {issue.message}
+            {issue.fix && <span className="text-foreground"> → {issue.fix}</span>}
+          </p>
+        ))}
+      </div>
+      {report.fixable ? (
+        <div className="space-y-2">
+          {options.filter((o) => o.count > 0).map((o) => (
+            <label key={o.key} className="flex items-center gap-2 text-sm">
+              <Switch checked={!!fixes[o.key]} onCheckedChange={(v) => setFixes({ ...fixes, [o.key]: v })} />
+              {o.label} ({o.count})
+            </label>
+          ))}
+          <Button size="sm" variant="outline" disabled={applying || !Object.values(fixes).some(Boolean)} onClick={() => onApply(fixes)}>
+            {applying ? <><Loader2 className="h-4 w-4 mr-2 animate-spin" />Applying...</> : "Apply fixes"}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Map the website column to apply fixes.</p>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// WebsiteResolutionCard — progress of the website lookups a pre-flight fix runs in the background
+// ---------------------------------------------------------------------------
+type ResolutionOutcome = "completed" | "failed" | "cancelled";
+
+function WebsiteResolutionCard({ jobId, onFinished }: { jobId: number; onFinished: (outcome: ResolutionOutcome, errorMessage: string | null) => void }) {
+  const { data: job, refetch } = trpc.enrichment.getJob.useQuery({ jobId }, { refetchInterval: 2000 });
+  const cancelMutation = trpc.enrichment.cancelJob.useMutation({
+    onError: (error) => toast.error(`Failed to cancel the lookup: ${error.message}`),
+  });
+
+  useEffect(() => {
+    if (job?.status === "completed" || job?.status === "failed" || job?.status === "cancelled") {
+      onFinished(job.status, job.errorMessage);
+    }
+  }, [job?.status]);
+
+  const done = job?.processedCount ?? 0;
+  const total = job?.firmCount ?? 0;
+  return (
+    <Card className="mb-6 border-2 border-primary/30">
+      <CardContent className="pt-6 space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-2 font-medium">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Looking up websites{total > 0 && ` · ${done} / ${total}`}
+          </span>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-muted-foreground">${Number(job?.totalCostUSD ?? 0).toFixed(2)} spent</span>
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-red-600 border-red-300 hover:bg-red-50"
+              onClick={() => cancelMutation.mutate({ jobId })}
+              disabled={cancelMutation.isPending}
+            >
+              <XCircle className="h-4 w-4 mr-2" />Cancel
+            </Button>
+          </div>
+        </div>
+        <Progress value={total > 0 ? Math.round((done / total) * 100) : 0} className="h-2" />
+        {job?.currentFirmName && <p className="text-xs text-muted-foreground truncate">{job.currentFirmName}</p>}
+        {job?.status === "paused" && (
+          <PausedJobPanel
+            jobId={jobId}
+            pausedReason={job.pausedReason}
+            totalCostUSD={job.totalCostUSD}
+            budgetUSD={job.budgetUSD}
+            onResumed={refetch}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main component
 // ---------------------------------------------------------------------------
@@ -171,6 +317,7 @@ export default function Dashboard() {
   // Template mode state
   const [selectedTemplate, setSelectedTemplate] = useState<string>("vc");
   const [tierFilter, setTierFilter] = useState<"tier1" | "tier1-2" | "all">("all");
+  const [forceRefresh, setForceRefresh] = useState(false);
   const [templateSections, setTemplateSections] = useState<TemplateAgentSection[]>([]);
 
   const [viewResultsJob, setViewResultsJob] = useState<{ id: number; template: string; sectionsJson?: string } | null>(null);
@@ -179,10 +326,20 @@ export default function Dashboard() {
   const isManualMappingRef = useRef(false);
 
   // Upload mode: file upload, paste URLs, or crawl a directory
-  const [uploadMode, setUploadMode] = useState<"file" | "paste" | "crawl">("file");
+  const [uploadMode, setUploadMode] = useState<"file" | "paste" | "crawl" | "sheet">("file");
   const [manualUrls, setManualUrls] = useState("");
   const [crawlUrl, setCrawlUrl] = useState("");
   const [crawlMaxPages, setCrawlMaxPages] = useState(5);
+  // Shared spreadsheet input: the link, and whether results can go back to it as a new tab
+  const [sheetUrl, setSheetUrl] = useState("");
+  const [sheetSource, setSheetSource] = useState<{ url: string; writeBack: { available: boolean; reason?: string } } | null>(null);
+  const [sheetWriteBack, setSheetWriteBack] = useState(false);
+
+  // Website lookups running in the background, and the mapping to continue with once they finish
+  const [resolution, setResolution] = useState<{
+    jobId: number;
+    columnMapping?: { companyNameColumn?: string; websiteUrlColumn: string; descriptionColumn?: string };
+  } | null>(null);
 
   const { data: jobs, isLoading: jobsLoading, refetch } = trpc.enrichment.listJobs.useQuery(undefined, {
     enabled: !!user,
@@ -197,11 +354,13 @@ export default function Dashboard() {
   });
 
   const uploadMutation = trpc.enrichment.uploadAndPreview.useMutation({
-    onSuccess: (data) => {
+    onSuccess: (data, variables) => {
       // Always store headers + file references for column mapping
       if (data.headers) setFileHeaders(data.headers);
       setPendingFileUrl(data.fileUrl);
       setPendingFileKey(data.fileKey);
+      setSheetSource(data.sheet ?? null);
+      if (!data.sheet?.writeBack.available) setSheetWriteBack(false);
 
       // Only auto-fill roles on first upload, not after user re-submits with their manual mapping
       if (!isManualMappingRef.current) {
@@ -226,7 +385,17 @@ export default function Dashboard() {
         return;
       }
 
+      if (data.status === "resolving") {
+        // Website lookups run as a background job — WebsiteResolutionCard continues once it finishes
+        setResolution({ jobId: data.resolutionJobId, columnMapping: variables.columnMapping });
+        return;
+      }
+
       // status === "ready"
+      if (data.fixesApplied) {
+        const f = data.fixesApplied;
+        toast.success(`Fixes applied: ${f.normalized} canonicalised, ${f.merged} merged, ${f.cleared} cleared, ${f.resolved} websites found` + (f.unresolved ? ` (${f.unresolved} not found)` : ""));
+      }
       const avgLen = data.preview.length > 0
         ? data.preview.reduce((s: number, f: any) => s + f.descriptionPreview.length, 0) / data.preview.length * 3
         : 200;
@@ -242,8 +411,16 @@ export default function Dashboard() {
           perFirmCost: data.costEstimate.perFirmCost,
           estimatedDuration: data.costEstimate.estimatedDuration,
         },
+        reuse: data.reuse,
+        preflight: data.preflight,
         preview: data.preview,
       });
+      // Fixes keep the wizard where it was (websites found for a name-only file continue to Configure)
+      if (data.fixesApplied && wizardStep !== "idle") {
+        setUploading(false);
+        return;
+      }
+      setForceRefresh(false);
       setShowColumnMapping(false);
       setWizardStep("configure");
       setWizardSections([]);
@@ -295,6 +472,16 @@ export default function Dashboard() {
     },
   });
 
+  const pauseJobMutation = trpc.enrichment.pauseJob.useMutation({
+    onSuccess: () => {
+      toast.success("Job paused — finished entries are kept.");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to pause job: ${error.message}`);
+    },
+  });
+
   const cancelJobMutation = trpc.enrichment.cancelJob.useMutation({
     onSuccess: () => {
       toast.success("Job cancelled.");
@@ -327,10 +514,16 @@ export default function Dashboard() {
     reader.readAsDataURL(file);
   };
 
+  const isAgentMode = wizardMode === "ai" && wizardSections.length > 0;
+  const isTemplateAgentMode = wizardMode === "template" && selectedTemplate !== "vc";
+  // Only VC enrichment reuses fresh results from earlier jobs
+  const reusableFirmCount = previewData?.reuse && !isAgentMode && !isTemplateAgentMode
+    ? previewData.reuse.reusableFirms[tierFilter]
+    : 0;
+  const reusedFirmCount = forceRefresh ? 0 : reusableFirmCount;
+
   const handleConfirmEnrichment = () => {
     if (!previewData) return;
-    const isAgentMode = wizardMode === "ai" && wizardSections.length > 0;
-    const isTemplateAgentMode = wizardMode === "template" && selectedTemplate !== "vc";
 
     const extraFields = isAgentMode
       ? { sectionsJson: JSON.stringify(wizardSections), systemPrompt: wizardSystemPrompt, objective: wizardObjective }
@@ -359,7 +552,11 @@ export default function Dashboard() {
       tierFilter: selectedTemplate === "vc" ? tierFilter : "all",
       template: selectedTemplate,
       avgDescriptionLength: previewData.avgDescriptionLength,
+      forceRefresh: reusableFirmCount > 0 && forceRefresh,
+      reusedFirmCount,
       columnMapping,
+      sourceSheetUrl: sheetSource?.url,
+      sheetWriteBack: !!sheetSource?.writeBack.available && sheetWriteBack,
       ...extraFields,
     });
   };
@@ -376,6 +573,7 @@ export default function Dashboard() {
     uploadMutation.mutate({
       fileUrl: pendingFileUrl,
       fileKey: pendingFileKey,
+      sheetUrl: sheetSource?.url,
       columnMapping: {
         companyNameColumn: companyCol || undefined,
         websiteUrlColumn: websiteCol,
@@ -386,7 +584,74 @@ export default function Dashboard() {
     setUploading(true);
   };
 
+  // Name-only file: look up each company's website into a new column, then continue as usual
+  const handleFindWebsites = () => {
+    if (!fileHeaders) return;
+    const companyCol = Object.entries(columnRoles).find(([, r]) => r === "companyName")?.[0];
+    const descCol = Object.entries(columnRoles).find(([, r]) => r === "description")?.[0];
+    if (!companyCol) {
+      toast.error("Please assign a Company Name column");
+      return;
+    }
+    let websiteCol = "Website";
+    for (let n = 2; fileHeaders.columns.includes(websiteCol); n++) websiteCol = `Website ${n}`;
+    setColumnRoles({ ...columnRoles, [websiteCol]: "websiteUrl" });
+    isManualMappingRef.current = true;
+    uploadMutation.mutate({
+      fileUrl: pendingFileUrl,
+      fileKey: pendingFileKey,
+      sheetUrl: sheetSource?.url,
+      columnMapping: {
+        companyNameColumn: companyCol,
+        websiteUrlColumn: websiteCol,
+        descriptionColumn: descCol || undefined,
+      },
+      fixes: { resolveMissingWebsites: true },
+    });
+    setShowColumnMapping(false);
+    setUploading(true);
+  };
+
+  // Continue with the cleaned file once the lookups are done; otherwise back to where they started
+  const handleResolutionFinished = (outcome: ResolutionOutcome, errorMessage: string | null) => {
+    if (!resolution) return;
+    const { jobId, columnMapping } = resolution;
+    setResolution(null);
+    if (outcome === "completed") {
+      isManualMappingRef.current = true;
+      uploadMutation.mutate({ resolutionJobId: jobId, sheetUrl: sheetSource?.url, columnMapping });
+      return;
+    }
+    if (outcome === "failed") toast.error(`Website lookup failed${errorMessage ? `: ${errorMessage}` : ""}`);
+    else toast.info("Website lookup cancelled");
+    setUploading(false);
+    if (wizardStep === "idle") setShowColumnMapping(true);
+  };
+
+  const handleApplyPreflightFixes = (fixes: PreflightFixes) => {
+    if (!previewData) return;
+    const companyCol = Object.entries(columnRoles).find(([, r]) => r === "companyName")?.[0];
+    const websiteCol = Object.entries(columnRoles).find(([, r]) => r === "websiteUrl")?.[0];
+    const descCol = Object.entries(columnRoles).find(([, r]) => r === "description")?.[0];
+    isManualMappingRef.current = true;
+    uploadMutation.mutate({
+      fileUrl: previewData.fileUrl,
+      fileKey: previewData.fileKey,
+      sheetUrl: sheetSource?.url,
+      columnMapping: websiteCol ? {
+        companyNameColumn: companyCol || undefined,
+        websiteUrlColumn: websiteCol,
+        descriptionColumn: descCol || undefined,
+      } : undefined,
+      fixes,
+    });
+  };
+
   const handleCancelWizard = () => {
+    if (resolution) {
+      cancelJobMutation.mutate({ jobId: resolution.jobId });
+      setResolution(null);
+    }
     setWizardStep("idle");
     setPreviewData(null);
     setWizardSections([]);
@@ -399,6 +664,8 @@ export default function Dashboard() {
     if (fileInputRef.current) fileInputRef.current.value = "";
     setCrawlUrl("");
     setCrawlMaxPages(5);
+    setSheetSource(null);
+    setSheetWriteBack(false);
   };
 
   const handleUrlSubmit = () => {
@@ -418,8 +685,15 @@ export default function Dashboard() {
     uploadMutation.mutate({ fileData: base64, fileName: "manual-urls.csv" });
   };
 
+  const handleSheetSubmit = () => {
+    if (!/^https?:\/\//.test(sheetUrl.trim())) { toast.error("Paste the spreadsheet's http(s) link"); return; }
+    setUploading(true);
+    uploadMutation.mutate({ sheetUrl: sheetUrl.trim() });
+  };
+
   const discoverMutation = trpc.enrichment.discoverFromUrl.useMutation({
     onSuccess: (data: DiscoverResult) => {
+      setSheetSource(null);
       setPendingFileUrl(data.fileUrl);
       setPendingFileKey(data.fileKey);
       setColumnRoles({ "Company Name": "companyName", "Website URL": "websiteUrl" });
@@ -442,6 +716,17 @@ export default function Dashboard() {
     },
   });
 
+  // Review step estimate for the chosen template, team coverage and force refresh
+  const { data: reviewEstimate } = trpc.enrichment.estimateCost.useQuery(
+    {
+      firmCount: previewData?.firmCount ?? 0,
+      avgDescriptionLength: previewData?.avgDescriptionLength,
+      reusedFirmCount,
+    },
+    { enabled: wizardStep === "review" && !!previewData },
+  );
+  const costEstimate = (wizardStep === "review" && reviewEstimate) || previewData?.costEstimate;
+
   // -------------------------------------------------------------------------
   // Auth states
   // -------------------------------------------------------------------------
@@ -471,7 +756,7 @@ export default function Dashboard() {
     );
   }
 
-  const displayedJobs: any[] = isAdmin && jobsTab === "all" ? (allJobs ?? []) : (jobs ?? []);
+  const displayedJobs = (isAdmin && jobsTab === "all" ? allJobs : jobs) ?? [];
   const hasJobs = displayedJobs.length > 0;
 
   return (
@@ -537,8 +822,40 @@ export default function Dashboard() {
                 <Search className="h-4 w-4 mr-2" />
                 Crawl Directory
               </Button>
+              <Button
+                variant={uploadMode === "sheet" ? "default" : "outline"}
+                size="sm"
+                disabled={uploading || wizardStep !== "idle"}
+                onClick={() => setUploadMode("sheet")}
+              >
+                <Link2 className="h-4 w-4 mr-2" />
+                Sheet URL
+              </Button>
             </div>
 
+            {uploadMode === "sheet" && (
+              <div className="space-y-3">
+                <Input
+                  placeholder="https://docs.google.com/spreadsheets/d/…/edit#gid=0"
+                  value={sheetUrl}
+                  onChange={(e: { target: HTMLInputElement }) => setSheetUrl(e.target.value)}
+                  disabled={uploading || wizardStep !== "idle"}
+                  className="font-mono text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  A Google Sheet shared as "Anyone with the link can view", or a link to an .xlsx / .csv file.
+                  The rows are copied when you continue, so later edits to the sheet don't change this job.
+                </p>
+                <Button disabled={uploading || wizardStep !== "idle" || !sheetUrl.trim()} onClick={handleSheetSubmit}>
+                  {uploading ? (
+                    <><Loader2 className="h-4 w-4 mr-2 animate-spin" />Reading sheet...</>
+                  ) : (
+                    <>Import Sheet &#8594;</>
+                  )}
+                </Button>
+              </div>
+            )}
+
             {uploadMode === "paste" && (
               <div className="space-y-3">
                 <Textarea
@@ -653,7 +970,7 @@ export default function Dashboard() {
                 </Button>
               </div>
               <CardDescription>
-                Use the dropdowns above each column to assign: <strong>Website URL</strong> (required), and optionally <strong>Company Name</strong> and <strong>Description</strong>.
+                Use the dropdowns above each column to assign: <strong>Website URL</strong> (required — a list with only company names can have its websites looked up), and optionally <strong>Company Name</strong> and <strong>Description</strong>.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -753,24 +1070,40 @@ export default function Dashboard() {
                     return <span className="text-amber-600 font-medium">Missing: Website URL</span>;
                   })()}
                 </p>
-                <Button
-                  onClick={handleColumnMappingSubmit}
-                  disabled={
-                    !Object.values(columnRoles).includes("websiteUrl") ||
-                    uploadMutation.isPending
-                  }
-                >
-                  {uploadMutation.isPending ? (
-                    <><Loader2 className="h-4 w-4 mr-2 animate-spin" />Processing...</>
-                  ) : (
-                    "Confirm & Continue"
+                <div className="flex gap-2">
+                  {!Object.values(columnRoles).includes("websiteUrl") && Object.values(columnRoles).includes("companyName") && (
+                    <Button
+                      variant="outline"
+                      onClick={handleFindWebsites}
+                      disabled={uploadMutation.isPending || resolution !== null}
+                      title="Search for each company's official website and add it as a new column"
+                    >
+                      <Search className="h-4 w-4 mr-2" />Find Websites from Names
+                    </Button>
                   )}
-                </Button>
+                  <Button
+                    onClick={handleColumnMappingSubmit}
+                    disabled={
+                      !Object.values(columnRoles).includes("websiteUrl") ||
+                      uploadMutation.isPending
+                    }
+                  >
+                    {uploadMutation.isPending ? (
+                      <><Loader2 className="h-4 w-4 mr-2 animate-spin" />Processing...</>
+                    ) : (
+                      "Confirm & Continue"
+                    )}
+                  </Button>
+                </div>
               </div>
             </CardContent>
           </Card>
         )}
 
+        {resolution && (
+          <WebsiteResolutionCard key={resolution.jobId} jobId={resolution.jobId} onFinished={handleResolutionFinished} />
+        )}
+
         {/* ── Step 2: Configure ── */}
         {wizardStep === "configure" && previewData && (
           <Card className="mb-6 border-2 border-primary/30">
@@ -794,6 +1127,14 @@ export default function Dashboard() {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {previewData.preflight && (
+                <PreflightCard
+                  key={previewData.fileKey}
+                  report={previewData.preflight}
+                  applying={uploadMutation.isPending || resolution !== null}
+                  onApply={handleApplyPreflightFixes}
+                />
+              )}
               <Tabs value={wizardMode} onValueChange={(v) => setWizardMode(v as WizardMode)}>
                 <TabsList className="mb-4">
                   <TabsTrigger value="ai">
@@ -904,6 +1245,10 @@ export default function Dashboard() {
                               <p className="font-medium text-sm">{section.label}</p>
                               <p className="text-xs text-muted-foreground mt-0.5 leading-snug">{section.desc}</p>
                             </div>
+                            <SectionTypeSelect
+                              section={section}
+                              onChange={(updated) => setWizardSections(wizardSections.map((s, j) => (j === i ? updated : s)))}
+                            />
                             <button
                               onClick={() => setWizardSections(wizardSections.filter((_, j) => j !== i))}
                               className="text-muted-foreground hover:text-destructive mt-0.5 shrink-0"
@@ -1007,6 +1352,10 @@ export default function Dashboard() {
                               <p className="font-medium text-sm">{s.label}</p>
                               <p className="text-xs text-muted-foreground mt-0.5 leading-snug">{s.desc}</p>
                             </div>
+                            <SectionTypeSelect
+                              section={s}
+                              onChange={(updated) => setTemplateSections(templateSections.map((t, j) => (j === i ? updated : t)))}
+                            />
                             <button
                               onClick={() => setTemplateSections(templateSections.filter((_, j) => j !== i))}
                               className="text-muted-foreground hover:text-destructive mt-0.5 shrink-0"
@@ -1072,23 +1421,65 @@ export default function Dashboard() {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Estimated Cost</p>
-                  {previewData.costEstimate.totalCostLow != null && previewData.costEstimate.totalCostHigh != null ? (
+                  {costEstimate?.totalCostLow != null && costEstimate.totalCostHigh != null ? (
                     <>
                       <p className="text-xl font-bold text-green-700">
-                        ${previewData.costEstimate.totalCostLow.toFixed(2)} – ${previewData.costEstimate.totalCostHigh.toFixed(2)}
+                        ${costEstimate.totalCostLow.toFixed(2)} – ${costEstimate.totalCostHigh.toFixed(2)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        ${costEstimate.perFirmCost.toFixed(4)}/site{reusedFirmCount > 0 && ` · ${reusedFirmCount} reused free`}
                       </p>
-                      <p className="text-xs text-muted-foreground">${previewData.costEstimate.perFirmCost.toFixed(4)}/site</p>
                     </>
                   ) : (
-                    <p className="text-2xl font-bold">${previewData.costEstimate.totalCost.toFixed(2)}</p>
+                    <p className="text-2xl font-bold">${costEstimate?.totalCost.toFixed(2)}</p>
                   )}
                 </div>
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Est. Duration</p>
-                  <p className="text-2xl font-bold">{previewData.costEstimate.estimatedDuration}</p>
+                  <p className="text-2xl font-bold">{costEstimate?.estimatedDuration}</p>
                 </div>
               </div>
 
+              {/* Fresh results from earlier jobs */}
+              {reusableFirmCount > 0 && (
+                <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {forceRefresh
+                        ? `Re-enriching all ${previewData.firmCount} firms`
+                        : `Reusing ${reusableFirmCount} of ${previewData.firmCount} firms`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {reusableFirmCount} firms were enriched by another job in the last {previewData.reuse?.freshnessDays} days and can be copied instead of scraped and billed again
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Label htmlFor="force-refresh" className="text-sm">Force refresh</Label>
+                    <Switch id="force-refresh" checked={forceRefresh} onCheckedChange={setForceRefresh} />
+                  </div>
+                </div>
+              )}
+
+              {/* Results back to the source sheet */}
+              {sheetSource && (
+                <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div>
+                    <p className="text-sm font-medium">Write results back to the sheet</p>
+                    <p className="text-xs text-muted-foreground">
+                      {sheetSource.writeBack.available
+                        ? "Adds the results as a new tab of the source sheet when the job completes"
+                        : sheetSource.writeBack.reason}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={sheetWriteBack}
+                    onCheckedChange={setSheetWriteBack}
+                    disabled={!sheetSource.writeBack.available}
+                    className="shrink-0"
+                  />
+                </div>
+              )}
+
               {/* Extraction configuration summary */}
               {wizardMode === "ai" && wizardSections.length > 0 ? (
                 <div>
@@ -1195,7 +1586,7 @@ export default function Dashboard() {
                   const jobTemplate = (job as any).template || "vc";
                   const tpl = getTemplate(jobTemplate);
                   const colors = TEMPLATE_COLORS[jobTemplate] ?? TEMPLATE_COLORS.vc;
-                  const isAgentJob = !!(job as any).sectionsJson;
+                  const isAgentJob = !!job.sectionsJson;
 
                   return (
                     <Card key={job.id} className="border-2">
@@ -1208,6 +1599,7 @@ export default function Dashboard() {
                               {job.status === "cancelled"  && <XCircle className="h-5 w-5 text-gray-400" />}
                               {job.status === "processing" && <Loader2 className="h-5 w-5 animate-spin text-blue-600" />}
                               {job.status === "pending"    && <Clock className="h-5 w-5 text-gray-600" />}
+                              {job.status === "paused"     && <PauseCircle className="h-5 w-5 text-amber-600" />}
                               <span className="font-semibold capitalize">{job.status}</span>
                               {isAgentJob ? (
                                 <Badge variant="outline" className="text-xs text-violet-700">
@@ -1259,12 +1651,15 @@ export default function Dashboard() {
                                 <Button
                                   size="sm"
                                   variant="outline"
-                                  onClick={() => setViewResultsJob({ id: job.id, template: jobTemplate, sectionsJson: (job as any).sectionsJson ?? undefined })}
+                                  onClick={() => setViewResultsJob({ id: job.id, template: jobTemplate, sectionsJson: job.sectionsJson ?? undefined })}
                                 >
                                   <Table2 className="h-4 w-4 mr-2" />
                                   View Results
                                 </Button>
                                 <DownloadResultsButton jobId={job.id} outputFileUrl={job.outputFileUrl} />
+                                <DownloadResultsButton jobId={job.id} layout="inPlace" />
+                                <DownloadCsvZipButton jobId={job.id} />
+                                {!job.sectionsJson && <PushToCrmControl jobId={job.id} />}
                               </>
                             )}
                             {job.status === "failed" && (
@@ -1283,6 +1678,17 @@ export default function Dashboard() {
                               </Button>
                             )}
                             {(job.status === "processing" || job.status === "pending") && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => pauseJobMutation.mutate({ jobId: job.id })}
+                                disabled={pauseJobMutation.isPending}
+                              >
+                                <PauseCircle className="h-4 w-4 mr-2" />
+                                Pause
+                              </Button>
+                            )}
+                            {(job.status === "processing" || job.status === "pending" || job.status === "paused") && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -1329,9 +1735,24 @@ export default function Dashboard() {
                           <JobLogFeed jobId={job.id} />
                         )}
 
+                        {job.sheetWriteBackStatus && (
+                          <p className={`text-xs mt-2 ${job.sheetWriteBackStatus.startsWith("Failed") ? "text-red-600" : "text-muted-foreground"}`}>
+                            Sheet write-back: {job.sheetWriteBackStatus}
+                          </p>
+                        )}
                         {job.status === "failed" && job.errorMessage && (
                           <p className="text-sm text-red-600 mt-2">{job.errorMessage}</p>
                         )}
+
+                        {job.status === "paused" && (
+                          <PausedJobPanel
+                            jobId={job.id}
+                            pausedReason={job.pausedReason}
+                            totalCostUSD={job.totalCostUSD}
+                            budgetUSD={job.budgetUSD}
+                            onResumed={refetch}
+                          />
+                        )}
                       </CardContent>
                     </Card>
                   );
@@ -1386,6 +1807,21 @@ export default function Dashboard() {
             )}
           </CardContent>
         </Card>
+
+        {/* Monthly spend cap */}
+        <BudgetCard />
+
+        {/* Crawl opt-outs */}
+        <CrawlBlocklistCard isAdmin={isAdmin} />
+
+        {/* REST API keys */}
+        <ApiKeysCard />
+
+        {/* CRM push targets */}
+        <CrmConnectionsCard />
+
+        {/* Decision-maker tier rules */}
+        <TierRulesCard />
       </main>
 
       {/* Results Sheet */}
@@ -1448,7 +1884,834 @@ function AddSectionRow({ onAdd }: { onAdd: (s: AgentSection) => void }) {
   );
 }
 
-function DownloadResultsButton({ jobId }: { jobId: number; outputFileUrl?: string | null }) {
+const SECTION_TYPE_LABELS: Record<SectionType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  enum: "One of…",
+  list: "List",
+  url: "URL",
+  email: "Email",
+  boolean: "Yes / No",
+};
+
+/** Per-section value type picker; enum is only offered when the plan supplied options */
+function SectionTypeSelect({ section, onChange }: { section: AgentSection; onChange: (s: AgentSection) => void }) {
+  const types = (Object.keys(SECTION_TYPE_LABELS) as SectionType[]).filter(
+    (t) => t !== "enum" || (section.options?.length ?? 0) > 0,
+  );
+  const title = section.type === "enum"
+    ? section.options?.join(", ")
+    : section.type === "number" && section.unit ? `Unit: ${section.unit}` : undefined;
+
+  return (
+    <Select
+      value={section.type ?? "text"}
+      onValueChange={(v: string) => onChange({ ...section, type: v as SectionType })}
+    >
+      <SelectTrigger className="h-7 w-28 text-xs shrink-0" title={title}><SelectValue /></SelectTrigger>
+      <SelectContent>
+        {types.map((t) => (
+          <SelectItem key={t} value={t} className="text-xs">{SECTION_TYPE_LABELS[t]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/** Create / revoke keys for the REST API; a new key is shown once, right after creation */
+const parseBudget = (value: string): number | null => {
+  const n = Number(value);
+  return value.trim() && Number.isFinite(n) && n > 0 ? n : null;
+};
+
+function PausedJobPanel({ jobId, pausedReason, totalCostUSD, budgetUSD, onResumed }: {
+  jobId: number;
+  pausedReason: string | null;
+  totalCostUSD: string | null;
+  budgetUSD: string | null;
+  onResumed: () => void;
+}) {
+  const utils = trpc.useUtils();
+  const { data: budget } = trpc.budget.get.useQuery();
+  const spent = Number(totalCostUSD ?? 0);
+  // Suggest 50% headroom over what the job has spent so far
+  const [jobCap, setJobCap] = useState(budgetUSD ? (Math.max(Number(budgetUSD), spent) * 1.5).toFixed(2) : "");
+  const [monthlyCap, setMonthlyCap] = useState<string | null>(null);
+
+  const resumeMutation = trpc.enrichment.resumePausedJob.useMutation({
+    onSuccess: () => {
+      toast.success("Job resumed — the worker will pick it up within a few seconds.");
+      utils.budget.get.invalidate();
+      onResumed();
+    },
+    onError: (error) => toast.error(`Failed to resume job: ${error.message}`),
+  });
+
+  const monthlyValue = monthlyCap ?? (budget?.monthlyBudgetUSD != null ? String(budget.monthlyBudgetUSD) : "");
+  const resume = () => resumeMutation.mutate({
+    jobId,
+    budgetUSD: parseBudget(jobCap),
+    ...(monthlyCap !== null && { monthlyBudgetUSD: parseBudget(monthlyCap) }),
+  });
+
+  return (
+    <div className="mt-3 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm space-y-3">
+      <p className="font-medium text-amber-800">{pausedReason ?? "Paused"}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Job cap (USD, empty = no cap)</Label>
+          <Input type="number" min="0" step="0.01" value={jobCap} onChange={(e) => setJobCap(e.target.value)} className="h-8 text-sm" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">
+            Monthly cap (USD, empty = no cap){budget && ` · $${budget.monthSpendUSD.toFixed(2)} spent`}
+          </Label>
+          <Input type="number" min="0" step="0.01" value={monthlyValue} onChange={(e) => setMonthlyCap(e.target.value)} className="h-8 text-sm" />
+        </div>
+      </div>
+      <Button size="sm" onClick={resume} disabled={resumeMutation.isPending}>
+        {resumeMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Clock className="h-4 w-4 mr-2" />}
+        Resume
+      </Button>
+    </div>
+  );
+}
+
+function BudgetCard() {
+  const utils = trpc.useUtils();
+  const { data: budget, isLoading } = trpc.budget.get.useQuery();
+  const [cap, setCap] = useState<string | null>(null);
+
+  const setMutation = trpc.budget.setMonthly.useMutation({
+    onSuccess: () => {
+      toast.success("Monthly budget saved");
+      setCap(null);
+      utils.budget.get.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to save budget: ${error.message}`),
+  });
+
+  const value = cap ?? (budget?.monthlyBudgetUSD != null ? String(budget.monthlyBudgetUSD) : "");
+  const used = budget?.monthlyBudgetUSD ? Math.min(100, (budget.monthSpendUSD / budget.monthlyBudgetUSD) * 100) : null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Wallet className="h-5 w-5" />Monthly Budget</CardTitle>
+        <CardDescription>
+          Jobs are paused when this month's LLM and scraping spend reaches the cap
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : budget && (
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Spent since {new Date(budget.monthStart).toLocaleDateString()}</span>
+              <span className="font-mono font-medium">
+                ${budget.monthSpendUSD.toFixed(2)}
+                {budget.monthlyBudgetUSD != null && <span className="text-muted-foreground"> / ${budget.monthlyBudgetUSD.toFixed(2)}</span>}
+              </span>
+            </div>
+            {used !== null && <Progress value={used} className="h-2" />}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            value={value}
+            onChange={(e) => setCap(e.target.value)}
+            placeholder="No cap"
+            className="text-sm"
+          />
+          <Button
+            size="sm"
+            onClick={() => setMutation.mutate({ monthlyBudgetUSD: parseBudget(value) })}
+            disabled={cap === null || setMutation.isPending}
+          >
+            {setMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CrawlBlocklistCard({ isAdmin }: { isAdmin: boolean }) {
+  const utils = trpc.useUtils();
+  const [domain, setDomain] = useState("");
+  const [reason, setReason] = useState("");
+  const { data: entries, isLoading } = trpc.crawlBlocklist.list.useQuery();
+
+  const addMutation = trpc.crawlBlocklist.add.useMutation({
+    onSuccess: (data) => {
+      toast.success(`${data.domain} will no longer be crawled`);
+      setDomain("");
+      setReason("");
+      utils.crawlBlocklist.list.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to block domain: ${error.message}`),
+  });
+  const removeMutation = trpc.crawlBlocklist.remove.useMutation({
+    onSuccess: () => {
+      toast.success("Domain removed from the blocklist");
+      utils.crawlBlocklist.list.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to remove domain: ${error.message}`),
+  });
+
+  const add = () => {
+    if (domain.trim()) addMutation.mutate({ domain, reason: reason || undefined });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><ShieldBan className="h-5 w-5" />Crawl Blocklist</CardTitle>
+        <CardDescription>
+          Domains (and their subdomains) no job will fetch. robots.txt rules are always honoured as well;
+          skipped URLs show up in job logs as <code>crawl_disallowed</code>.
+          {!isAdmin && " Only admins can change the list."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAdmin && (
+          <div className="flex gap-2">
+            <Input
+              value={domain}
+              onChange={(e) => setDomain(e.target.value)}
+              placeholder="example.com"
+              className="text-sm"
+              onKeyDown={(e) => { if (e.key === "Enter") add(); }}
+            />
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (e.g. opt-out request)"
+              className="text-sm"
+              onKeyDown={(e) => { if (e.key === "Enter") add(); }}
+            />
+            <Button size="sm" onClick={add} disabled={!domain.trim() || addMutation.isPending}>
+              {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-1" />Block</>}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : entries && entries.length > 0 ? (
+          <div className="divide-y rounded-md border text-sm">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <span className="font-medium">{entry.domain}</span>
+                  <p className="text-xs text-muted-foreground">
+                    Added {new Date(entry.createdAt).toLocaleDateString()}
+                    {entry.reason ? ` · ${entry.reason}` : ""}
+                  </p>
+                </div>
+                {isAdmin && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMutation.mutate({ id: entry.id })}
+                    disabled={removeMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />Remove
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No blocked domains.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ApiKeysCard() {
+  const utils = trpc.useUtils();
+  const [name, setName] = useState("");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const { data: keys, isLoading } = trpc.apiKeys.list.useQuery();
+
+  const createMutation = trpc.apiKeys.create.useMutation({
+    onSuccess: (data) => {
+      setNewKey(data.key);
+      setName("");
+      utils.apiKeys.list.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to create API key: ${error.message}`),
+  });
+  const revokeMutation = trpc.apiKeys.revoke.useMutation({
+    onSuccess: () => {
+      toast.success("API key revoked");
+      utils.apiKeys.list.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to revoke API key: ${error.message}`),
+  });
+
+  const copyKey = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    toast.success("API key copied");
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><KeyRound className="h-5 w-5" />API Keys</CardTitle>
+        <CardDescription>
+          Submit jobs and fetch results from scripts via <code>/api/v1</code> with <code>Authorization: Bearer &lt;key&gt;</code>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Key name (e.g. CRM sync script)"
+            className="text-sm"
+            onKeyDown={(e) => { if (e.key === "Enter" && name.trim()) createMutation.mutate({ name }); }}
+          />
+          <Button
+            size="sm"
+            onClick={() => createMutation.mutate({ name })}
+            disabled={!name.trim() || createMutation.isPending}
+          >
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-1" />Create</>}
+          </Button>
+        </div>
+
+        {newKey && (
+          <div className="rounded-md border border-amber-400 bg-amber-50 p-3 text-sm space-y-2">
+            <p className="font-medium">Copy this key now — it won't be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-background px-2 py-1 text-xs">{newKey}</code>
+              <Button variant="outline" size="sm" onClick={copyKey}><Copy className="h-4 w-4" /></Button>
+              <Button variant="ghost" size="sm" onClick={() => setNewKey(null)}><X className="h-4 w-4" /></Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : keys && keys.length > 0 ? (
+          <div className="divide-y rounded-md border text-sm">
+            {keys.map((k) => (
+              <div key={k.id} className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <span className="font-medium">{k.name}</span>
+                  <code className="ml-2 text-xs text-muted-foreground">{k.keyPrefix}…</code>
+                  <p className="text-xs text-muted-foreground">
+                    Created {new Date(k.createdAt).toLocaleDateString()}
+                    {k.lastUsedAt ? ` · last used ${new Date(k.lastUsedAt).toLocaleString()}` : " · never used"}
+                  </p>
+                </div>
+                {k.revokedAt ? (
+                  <Badge variant="secondary">Revoked</Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate({ id: k.id })}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No API keys yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CrmConnectionsCard() {
+  const utils = trpc.useUtils();
+  const [name, setName] = useState("");
+  const [provider, setProvider] = useState<"hubspot" | "salesforce">("hubspot");
+  const [baseUrl, setBaseUrl] = useState("https://api.hubapi.com");
+  const [accessToken, setAccessToken] = useState("");
+  const { data: connections, isLoading } = trpc.crm.list.useQuery();
+
+  const createMutation = trpc.crm.create.useMutation({
+    onSuccess: () => {
+      toast.success("CRM connection added");
+      setName("");
+      setAccessToken("");
+      utils.crm.list.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to add CRM connection: ${error.message}`),
+  });
+  const deleteMutation = trpc.crm.delete.useMutation({
+    onSuccess: () => {
+      toast.success("CRM connection removed");
+      utils.crm.list.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to remove CRM connection: ${error.message}`),
+  });
+
+  const canCreate = name.trim() && baseUrl.trim() && accessToken.trim();
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Send className="h-5 w-5" />CRM Connections</CardTitle>
+        <CardDescription>
+          Push a completed job's firms as companies and team members as contacts. Companies are matched on
+          website domain, contacts on LinkedIn URL or email, so re-pushing updates instead of duplicating.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (e.g. Sales HubSpot)" className="text-sm flex-1 min-w-40" />
+          <Select
+            value={provider}
+            onValueChange={(v) => {
+              setProvider(v as "hubspot" | "salesforce");
+              setBaseUrl(v === "hubspot" ? "https://api.hubapi.com" : "https://yourorg.my.salesforce.com");
+            }}
+          >
+            <SelectTrigger className="w-36 text-sm"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hubspot">HubSpot</SelectItem>
+              <SelectItem value="salesforce">Salesforce</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} placeholder="API base URL" className="text-sm flex-1 min-w-56" />
+          <Input value={accessToken} onChange={(e) => setAccessToken(e.target.value)} placeholder="Access token" type="password" className="text-sm flex-1 min-w-40" />
+          <Button
+            size="sm"
+            onClick={() => createMutation.mutate({ name, provider, baseUrl, accessToken })}
+            disabled={!canCreate || createMutation.isPending}
+          >
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-1" />Add</>}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : connections && connections.length > 0 ? (
+          <div className="divide-y rounded-md border text-sm">
+            {connections.map((c) => (
+              <div key={c.id} className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <span className="font-medium">{c.name}</span>
+                  <Badge variant="secondary" className="ml-2">{c.provider === "salesforce" ? "Salesforce" : "HubSpot"}</Badge>
+                  <p className="text-xs text-muted-foreground">
+                    {c.baseUrl}
+                    {c.lastPushedAt ? ` · last push ${new Date(c.lastPushedAt).toLocaleString()}` : " · never pushed"}
+                    {c.fieldMappings ? " · custom field mapping" : ""}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate({ connectionId: c.id })}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />Remove
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No CRM connections yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type DecisionMakerTier = "Tier 1" | "Tier 2" | "Tier 3" | "Exclude";
+const DECISION_MAKER_TIERS: DecisionMakerTier[] = ["Tier 1", "Tier 2", "Tier 3", "Exclude"];
+
+interface TierRulesForm {
+  tierDescriptions: Record<DecisionMakerTier, string>;
+  emptyTitleTier: DecisionMakerTier;
+  departments: { pattern: string; tier: DecisionMakerTier }[];
+  exclusions: string[];
+  patterns: { pattern: string; tier: DecisionMakerTier }[];
+  fallbackKeywords: string[];
+  keywordTier: DecisionMakerTier;
+  defaultTier: DecisionMakerTier;
+  llmFallback: boolean;
+}
+
+// Ordered patterns are edited one per line as "pattern: Tier 1"
+const formatTierPatterns = (patterns: TierRulesForm["patterns"]) => patterns.map((p) => `${p.pattern}: ${p.tier}`).join("\n");
+
+const parseTierPatterns = (text: string): TierRulesForm["patterns"] => {
+  const patterns: TierRulesForm["patterns"] = [];
+  for (const line of text.split("\n").map((l) => l.trim()).filter(Boolean)) {
+    const colon = line.lastIndexOf(":");
+    const tierText = colon === -1 ? "" : line.slice(colon + 1).trim().toLowerCase();
+    const tier = DECISION_MAKER_TIERS.find((t) => t.toLowerCase() === tierText || t.toLowerCase() === `tier ${tierText}`);
+    if (!tier || !line.slice(0, colon).trim()) throw new Error(`"${line}" needs the form "pattern: Tier 1" (or Tier 2, Tier 3, Exclude)`);
+    patterns.push({ pattern: line.slice(0, colon).trim(), tier });
+  }
+  return patterns;
+};
+
+const parseLines = (text: string) => text.split("\n").map((l) => l.trim()).filter(Boolean);
+
+function TierSelect({ value, onChange }: { value: DecisionMakerTier; onChange: (tier: DecisionMakerTier) => void }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as DecisionMakerTier)}>
+      <SelectTrigger className="w-28 h-8 text-xs"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        {DECISION_MAKER_TIERS.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// User rule sets for classifying team members into decision-maker tiers, each the default for some templates
+function TierRulesCard() {
+  const utils = trpc.useUtils();
+  const { data: ruleSets, isLoading } = trpc.tierRules.list.useQuery();
+  const [baseTemplate, setBaseTemplate] = useState("vc");
+  // null = not editing; 0 = new rule set
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [defaultTemplates, setDefaultTemplates] = useState<string[]>([]);
+  const [rules, setRules] = useState<TierRulesForm | null>(null);
+  const [patternsText, setPatternsText] = useState("");
+  const [departmentsText, setDepartmentsText] = useState("");
+  const [exclusionsText, setExclusionsText] = useState("");
+  const [keywordsText, setKeywordsText] = useState("");
+  const [sampleTitles, setSampleTitles] = useState("Managing Partner\nHead of Platform\nExecutive Assistant");
+  const [previewWithLlm, setPreviewWithLlm] = useState(false);
+
+  const edit = (id: number, ruleSetName: string, templates: string[], loaded: TierRulesForm) => {
+    setEditingId(id);
+    setName(ruleSetName);
+    setDefaultTemplates(templates);
+    setRules(loaded);
+    setPatternsText(formatTierPatterns(loaded.patterns));
+    setDepartmentsText(formatTierPatterns(loaded.departments));
+    setExclusionsText(loaded.exclusions.join("\n"));
+    setKeywordsText(loaded.fallbackKeywords.join("\n"));
+    previewMutation.reset();
+  };
+
+  const startNew = async () => {
+    try {
+      const builtIn = await utils.tierRules.builtIn.fetch({ template: baseTemplate });
+      edit(0, `${getTemplate(baseTemplate).name} tiers`, [], builtIn);
+    } catch (error: any) {
+      toast.error(`Failed to load built-in rules: ${error.message}`);
+    }
+  };
+
+  // Rules from the form; throws with a readable message on a malformed pattern line
+  const formRules = (): TierRulesForm => ({
+    ...rules!,
+    patterns: parseTierPatterns(patternsText),
+    departments: parseTierPatterns(departmentsText),
+    exclusions: parseLines(exclusionsText),
+    fallbackKeywords: parseLines(keywordsText),
+  });
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    setEditingId(null);
+    utils.tierRules.list.invalidate();
+  };
+  const createMutation = trpc.tierRules.create.useMutation({
+    onSuccess: () => onSaved("Tier rules saved"),
+    onError: (error) => toast.error(`Failed to save tier rules: ${error.message}`),
+  });
+  const updateMutation = trpc.tierRules.update.useMutation({
+    onSuccess: () => onSaved("Tier rules updated"),
+    onError: (error) => toast.error(`Failed to update tier rules: ${error.message}`),
+  });
+  const deleteMutation = trpc.tierRules.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Tier rules removed");
+      utils.tierRules.list.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to remove tier rules: ${error.message}`),
+  });
+  const previewMutation = trpc.tierRules.preview.useMutation({
+    onError: (error) => toast.error(`Failed to test tier rules: ${error.message}`),
+  });
+
+  const save = () => {
+    let parsed: TierRulesForm;
+    try {
+      parsed = formRules();
+    } catch (error: any) {
+      toast.error(error.message);
+      return;
+    }
+    if (editingId) updateMutation.mutate({ ruleSetId: editingId, name, rules: parsed, defaultTemplates });
+    else createMutation.mutate({ name, rules: parsed, defaultTemplates });
+  };
+
+  const preview = () => {
+    const titles = parseLines(sampleTitles).slice(0, 50);
+    if (titles.length === 0) return;
+    try {
+      previewMutation.mutate({ rules: formRules(), titles, template: defaultTemplates[0], useLlm: previewWithLlm });
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const toggleTemplate = (id: string) =>
+    setDefaultTemplates((current) => (current.includes(id) ? current.filter((t) => t !== id) : [...current, id]));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Layers className="h-5 w-5" />Decision-Maker Tiers</CardTitle>
+        <CardDescription>
+          How team members' titles are sorted into Tier 1-3 or excluded. A rule set applies to new jobs with the
+          templates it is the default for; other templates use the built-in rules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">New rule set from the built-in rules for</span>
+          <Select value={baseTemplate} onValueChange={setBaseTemplate}>
+            <SelectTrigger className="w-44 text-sm"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {ALL_TEMPLATES.map((t) => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={startNew}><Plus className="h-4 w-4 mr-1" />New</Button>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : ruleSets && ruleSets.length > 0 ? (
+          <div className="divide-y rounded-md border text-sm">
+            {ruleSets.map((r) => (
+              <div key={r.id} className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <span className="font-medium">{r.name}</span>
+                  {r.defaultTemplates.map((t) => <Badge key={t} variant="secondary" className="ml-2">{getTemplate(t).name}</Badge>)}
+                  <p className="text-xs text-muted-foreground">
+                    {r.rules.patterns.length} patterns · {r.rules.exclusions.length} exclusions
+                    {r.rules.llmFallback ? " · LLM for unmatched titles" : ` · unmatched titles → ${r.rules.defaultTier}`}
+                    {r.defaultTemplates.length === 0 ? " · not a default for any template" : ""}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => edit(r.id, r.name, r.defaultTemplates, r.rules)}>Edit</Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate({ ruleSetId: r.id })}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No custom tier rules — every template uses its built-in rules.</p>
+        )}
+
+        {editingId !== null && rules && (
+          <div className="space-y-3 rounded-md border p-3">
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Rule set name" className="text-sm" />
+            <div className="space-y-1">
+              <Label className="text-xs">Default for templates</Label>
+              <div className="flex flex-wrap gap-1">
+                {ALL_TEMPLATES.map((t) => (
+                  <Badge
+                    key={t.id}
+                    variant={defaultTemplates.includes(t.id) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => toggleTemplate(t.id)}
+                  >
+                    {t.name}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Title patterns, first match wins ("pattern: Tier 1")</Label>
+                <Textarea value={patternsText} onChange={(e) => setPatternsText(e.target.value)} rows={10} className="font-mono text-xs" />
+              </div>
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Exclusions, checked before patterns (one per line)</Label>
+                  <Textarea value={exclusionsText} onChange={(e) => setExclusionsText(e.target.value)} rows={3} className="font-mono text-xs" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Departments, checked first ("investment team: Tier 1")</Label>
+                  <Textarea value={departmentsText} onChange={(e) => setDepartmentsText(e.target.value)} rows={3} className="font-mono text-xs" />
+                </div>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              <span>Empty title</span>
+              <TierSelect value={rules.emptyTitleTier} onChange={(tier) => setRules({ ...rules, emptyTitleTier: tier })} />
+              <span>Unmatched with a keyword</span>
+              <TierSelect value={rules.keywordTier} onChange={(tier) => setRules({ ...rules, keywordTier: tier })} />
+              <span>Other unmatched</span>
+              <TierSelect value={rules.defaultTier} onChange={(tier) => setRules({ ...rules, defaultTier: tier })} />
+              <span className="flex items-center gap-2">
+                <Switch checked={rules.llmFallback} onCheckedChange={(checked) => setRules({ ...rules, llmFallback: checked })} />
+                Ask the LLM about unmatched titles
+              </span>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Unmatched-title keywords (one per line)</Label>
+              <Textarea value={keywordsText} onChange={(e) => setKeywordsText(e.target.value)} rows={2} className="font-mono text-xs" />
+            </div>
+
+            <div className="space-y-2 rounded-md bg-muted/40 p-2">
+              <Label className="text-xs">Test against sample titles (one per line)</Label>
+              <Textarea value={sampleTitles} onChange={(e) => setSampleTitles(e.target.value)} rows={3} className="text-xs" />
+              <div className="flex items-center gap-3">
+                <Button size="sm" variant="outline" onClick={preview} disabled={previewMutation.isPending}>
+                  {previewMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Test rules"}
+                </Button>
+                {rules.llmFallback && (
+                  <span className="flex items-center gap-2 text-xs">
+                    <Switch checked={previewWithLlm} onCheckedChange={setPreviewWithLlm} />
+                    Use the LLM for unmatched titles
+                  </span>
+                )}
+              </div>
+              {previewMutation.data && (
+                <div className="divide-y rounded-md border bg-background text-xs">
+                  {previewMutation.data.map((row, i) => (
+                    <div key={i} className="flex items-center gap-2 px-2 py-1">
+                      <Badge variant={row.tier === "Exclude" ? "outline" : "secondary"} className="w-16 justify-center">{row.tier}</Badge>
+                      <span className="font-medium">{row.title || "(empty)"}</span>
+                      <span className="text-muted-foreground truncate">{row.matched ? `${row.matchedBy}: "${row.matched}"` : row.matchedBy}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+              <Button size="sm" onClick={save} disabled={!name.trim() || createMutation.isPending || updateMutation.isPending}>
+                {createMutation.isPending || updateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Dry run first (creates vs updates), then push for real
+function PushToCrmControl({ jobId }: { jobId: number }) {
+  const { data: connections } = trpc.crm.list.useQuery();
+  const [connectionId, setConnectionId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+
+  const summarize = (data: { companies: { create: number; update: number; skip: number; error: number }; contacts: { create: number; update: number; skip: number; error: number } }) =>
+    `Companies: ${data.companies.create} new, ${data.companies.update} updated` +
+    (data.companies.skip + data.companies.error ? `, ${data.companies.skip} skipped, ${data.companies.error} failed` : "") +
+    ` · Contacts: ${data.contacts.create} new, ${data.contacts.update} updated` +
+    (data.contacts.skip + data.contacts.error ? `, ${data.contacts.skip} skipped, ${data.contacts.error} failed` : "");
+
+  const pushMutation = trpc.crm.push.useMutation({
+    onSuccess: (data) => {
+      if (data.dryRun) {
+        setPreview(summarize(data));
+      } else {
+        setPreview(null);
+        toast.success(`Pushed to CRM. ${summarize(data)}`);
+      }
+    },
+    onError: (error) => toast.error(`CRM push failed: ${error.message}`),
+  });
+
+  if (!connections || connections.length === 0) return null;
+  const selected = connectionId ?? connections[0].id;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex gap-2">
+        {connections.length > 1 && (
+          <Select value={String(selected)} onValueChange={(v) => { setConnectionId(Number(v)); setPreview(null); }}>
+            <SelectTrigger className="h-8 w-40 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {connections.map((c) => <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => pushMutation.mutate({ connectionId: selected, jobId, dryRun: preview === null })}
+          disabled={pushMutation.isPending}
+        >
+          {pushMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Send className="h-4 w-4 mr-2" />
+          )}
+          {preview === null ? "Preview CRM Push" : "Push to CRM"}
+        </Button>
+      </div>
+      {preview && <p className="text-xs text-muted-foreground">{preview}</p>}
+    </div>
+  );
+}
+
+// One CSV per entity in a ZIP; with a BOM so Excel opens accented names correctly
+function DownloadCsvZipButton({ jobId }: { jobId: number }) {
+  const exportMutation = trpc.enrichment.exportCSV.useMutation({
+    onSuccess: (data) => {
+      const byteCharacters = atob(data.fileData);
+      const bytes = new Uint8Array(byteCharacters.length);
+      for (let i = 0; i < byteCharacters.length; i++) bytes[i] = byteCharacters.charCodeAt(i);
+      const url = window.URL.createObjectURL(new Blob([bytes], { type: "application/zip" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = data.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    },
+    onError: (error) => toast.error(`Failed to export CSV: ${error.message}`),
+  });
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => exportMutation.mutate({ jobId, bom: true, zip: true })}
+      disabled={exportMutation.isPending}
+    >
+      {exportMutation.isPending ? (
+        <><Loader2 className="h-4 w-4 mr-2 animate-spin" />Exporting...</>
+      ) : (
+        <><Download className="h-4 w-4 mr-2" />CSV (ZIP)</>
+      )}
+    </Button>
+  );
+}
+
+// layout "inPlace": the uploaded file with the enriched columns and a status column appended
+function DownloadResultsButton({ jobId, layout = "standard" }: { jobId: number; outputFileUrl?: string | null; layout?: "standard" | "inPlace" }) {
   const [isGenerating, setIsGenerating] = useState(false);
   const generateMutation = trpc.enrichment.generateResults.useMutation({
     onSuccess: (data) => {
@@ -1480,13 +2743,14 @@ function DownloadResultsButton({ jobId }: { jobId: number; outputFileUrl?: strin
   return (
     <Button
       size="sm"
-      onClick={() => { setIsGenerating(true); generateMutation.mutate({ jobId }); }}
+      variant={layout === "inPlace" ? "outline" : "default"}
+      onClick={() => { setIsGenerating(true); generateMutation.mutate({ jobId, layout }); }}
       disabled={isGenerating || generateMutation.isPending}
     >
       {isGenerating || generateMutation.isPending ? (
         <><Loader2 className="h-4 w-4 mr-2 animate-spin" />Generating...</>
       ) : (
-        <><Download className="h-4 w-4 mr-2" />Download Results</>
+        <><Download className="h-4 w-4 mr-2" />{layout === "inPlace" ? "Original Layout" : "Download Results"}</>
       )}
     </Button>
   );
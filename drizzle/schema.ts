@@ -1,4 +1,4 @@
-import { boolean, decimal, int, mysqlEnum, mysqlTable, text, timestamp, unique, varchar, index } from "drizzle-orm/mysql-core";
+import { boolean, decimal, int, longtext, mysqlEnum, mysqlTable, text, timestamp, unique, varchar, index } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -20,6 +20,8 @@ export const users = mysqlTable("users", {
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
+  /** Cap on the user's spend across jobs created in the current month (null = no cap) */
+  monthlyBudgetUSD: decimal("monthlyBudgetUSD", { precision: 10, scale: 2 }),
 });
 
 export type User = typeof users.$inferSelect;
@@ -31,7 +33,9 @@ export type InsertUser = typeof users.$inferInsert;
 export const enrichmentJobs = mysqlTable("enrichmentJobs", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
-  status: mysqlEnum("status", ["pending", "processing", "completed", "failed", "cancelled"]).default("pending").notNull(),
+  status: mysqlEnum("status", ["pending", "processing", "completed", "failed", "cancelled", "paused"]).default("pending").notNull(),
+  // website_resolution: looks up missing websites of an input file before it is enriched (see websiteResolutionJob.ts)
+  kind: mysqlEnum("kind", ["enrichment", "website_resolution"]).default("enrichment").notNull(),
   inputFileUrl: text("inputFileUrl").notNull(),
   inputFileKey: text("inputFileKey").notNull(),
   outputFileUrl: text("outputFileUrl"),
@@ -50,11 +54,26 @@ export const enrichmentJobs = mysqlTable("enrichmentJobs", {
   totalCostUSD: decimal("totalCostUSD", { precision: 10, scale: 4 }).default("0"),
   totalInputTokens: int("totalInputTokens").default(0),
   totalOutputTokens: int("totalOutputTokens").default(0),
+  // Spend cap for this job (null = no cap) and why it was paused (see budgets.ts)
+  budgetUSD: decimal("budgetUSD", { precision: 10, scale: 4 }),
+  pausedReason: text("pausedReason"),
+  // Enrich every firm even if another job enriched it recently (see resultReuse.ts)
+  forceRefresh: boolean("forceRefresh").default(false).notNull(),
+  // Decision-maker tier rules resolved when the job was created, JSON {rules, ruleSetId, name} (see tierRules.ts)
+  tierRulesJson: text("tierRulesJson"),
   // Agentic extraction (custom sections mode)
   sectionsJson: text("sectionsJson"),   // JSON: [{key, label, desc}]
   systemPrompt: text("systemPrompt"),   // LLM research prompt
   objective:    text("objective"),      // Plain-text user objective
   columnMappingJson: text("columnMappingJson"), // JSON: {companyNameColumn, websiteUrlColumn, descriptionColumn?}
+  preflightJson: text("preflightJson"), // Website resolution jobs — JSON: {fixes, summary?} (see inputPreflight.ts)
+  // Shared spreadsheet the input was snapshotted from, and writing results to a new tab of it (see sheetSource.ts)
+  sourceSheetUrl: text("sourceSheetUrl"),
+  sheetWriteBack: boolean("sheetWriteBack").default(false).notNull(),
+  sheetWriteBackStatus: text("sheetWriteBackStatus"), // Outcome of the write-back, e.g. 'Wrote 12 rows to tab "…"' or "Failed: …"
+  // Recurring runs: the schedule that created this job and the completed run it is diffed against
+  scheduleId: int("scheduleId"),
+  previousJobId: int("previousJobId"),
   errorMessage: text("errorMessage"),
   // Worker tracking fields
   workerPid: int("workerPid"), // Process ID of worker processing this job
@@ -67,6 +86,24 @@ export const enrichmentJobs = mysqlTable("enrichmentJobs", {
 
 export type EnrichmentJob = typeof enrichmentJobs.$inferSelect;
 export type InsertEnrichmentJob = typeof enrichmentJobs.$inferInsert;
+
+/**
+ * Usage ledger - one row per usage flush of a job, so spend is counted in the month it happened
+ * (monthly budgets, see budgets.ts) rather than the month the job was created
+ */
+export const usageRecords = mysqlTable("usageRecords", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  jobId: int("jobId"), // null: usage outside any job (e.g. the tier rules preview)
+  costUSD: decimal("costUSD", { precision: 10, scale: 4 }).notNull(),
+  inputTokens: int("inputTokens").default(0).notNull(),
+  outputTokens: int("outputTokens").default(0).notNull(),
+  recordedAt: timestamp("recordedAt").defaultNow().notNull(),
+}, (table) => ({
+  userRecordedAtIdx: index("usageRecords_userId_recordedAt_idx").on(table.userId, table.recordedAt),
+}));
+
+export type UsageRecord = typeof usageRecords.$inferSelect;
 /**
  * Enriched VC firm data - stores processed results
  */
@@ -94,6 +131,8 @@ export const enrichedFirms = mysqlTable("enrichedFirms", {
   geographicFocus: text("geographicFocus"), // Geographic preferences (JSON array as string)
   foundedYear: text("foundedYear"), // Year founded
   headquarters: text("headquarters"), // HQ location
+  firmEntityId: int("firmEntityId"), // Cross-job canonical firm (firmEntities.id), null when the firm has no website domain
+  reusedFromFirmId: int("reusedFromFirmId"), // enrichedFirms.id this row was copied from instead of re-enriching (resultReuse.ts)
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -114,6 +153,9 @@ export const teamMembers = mysqlTable("teamMembers", {
   specialization: text("specialization"),
   linkedinUrl: text("linkedinUrl"),
   email: text("email"),
+  emailPattern: varchar("emailPattern", { length: 20 }), // Firm pattern the email follows (first.last, flast, ...)
+  emailConfidence: int("emailConfidence"), // 0-100
+  emailVerification: varchar("emailVerification", { length: 20 }), // valid, invalid, catch_all, unknown, no_mx, unverified
   portfolioCompanies: text("portfolioCompanies"), // Comma-separated list of portfolio companies associated with this team member
   // Individual investment mandate fields
   investmentFocus: text("investmentFocus"), // Specific sectors/areas they invest in
@@ -128,6 +170,7 @@ export const teamMembers = mysqlTable("teamMembers", {
   confidenceScore: int("confidenceScore"),
   decisionMakerTier: varchar("decisionMakerTier", { length: 20 }),
   tierPriority: int("tierPriority"),
+  personEntityId: int("personEntityId"), // Cross-job canonical person (personEntities.id)
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 // Note: Unique constraint removed - deduplication handled in-memory before insert
@@ -194,14 +237,20 @@ export const processedFirms = mysqlTable("processedFirms", {
   jobId: int("jobId").notNull(),
   firmName: text("firmName").notNull(),
   firmUrl: text("firmUrl"),
-  status: mysqlEnum("status", ["processing", "completed", "failed"]).default("processing").notNull(),
+  status: mysqlEnum("status", ["pending", "processing", "completed", "failed"]).default("processing").notNull(),
   teamMembersFound: int("teamMembersFound").default(0),
   errorMessage: text("errorMessage"),
+  // Firm-level work items (see server/firmLeasing.ts): row index in the input file + lease held by a worker
+  firmIndex: int("firmIndex"),
+  leaseOwner: varchar("leaseOwner", { length: 100 }),
+  leaseExpiresAt: timestamp("leaseExpiresAt"),
+  attempts: int("attempts").default(0).notNull(),
   processedAt: timestamp("processedAt").defaultNow().notNull(),
   completedAt: timestamp("completedAt"),
 }, (table) => ({
   jobIdIdx: index("jobId_idx").on(table.jobId),
   jobIdFirmNameIdx: index("jobId_firmName_idx").on(table.jobId, table.firmName),
+  jobIdStatusIdx: index("processedFirms_jobId_status_idx").on(table.jobId, table.status),
 }));
 
 export type ProcessedFirm = typeof processedFirms.$inferSelect;
@@ -216,12 +265,14 @@ export const jobLogs = mysqlTable("jobLogs", {
   jobId:        int("jobId").notNull(),
   url:          text("url"),
   companyName:  text("companyName"),
-  status:       varchar("status", { length: 20 }).notNull(), // "success" | "partial" | "failed"
+  status:       varchar("status", { length: 20 }).notNull(), // "success" | "partial" | "failed" | "skipped"
   fieldsTotal:  int("fieldsTotal"),
   fieldsFilled: int("fieldsFilled"),
   emptyFields:  text("emptyFields"),   // JSON: string[]
-  errorReason:  text("errorReason"),   // "http_error" | "scraper_blocked" | "no_content" | "llm_empty" | "unknown"
+  errorReason:  text("errorReason"),   // "http_error" | "scraper_blocked" | "no_content" | "llm_empty" | "invalid_values" | "crawl_disallowed" | "unknown"
   errorDetail:  text("errorDetail"),
+  invalidFields: text("invalidFields"), // JSON: [{key, value, error}] — typed sections that failed validation
+  sourcesJson:  text("sourcesJson"),   // JSON: {[sectionKey]: [{url, snippet}]}
   durationMs:   int("durationMs"),
   createdAt:    timestamp("createdAt").defaultNow().notNull(),
 }, (table) => ({
@@ -230,3 +281,307 @@ export const jobLogs = mysqlTable("jobLogs", {
 
 export type JobLog = typeof jobLogs.$inferSelect;
 export type InsertJobLog = typeof jobLogs.$inferInsert;
+
+/**
+ * Agent job results, persisted per URL as it completes so a paused, cancelled or crashed
+ * job resumes without re-scraping and the output workbook can be rebuilt from the rows
+ */
+export const agentResults = mysqlTable("agentResults", {
+  id:          int("id").autoincrement().primaryKey(),
+  jobId:       int("jobId").notNull(),
+  urlHash:     varchar("urlHash", { length: 64 }).notNull(), // sha256 hex of url
+  url:         text("url").notNull(),
+  companyName: text("companyName"),
+  kind:        mysqlEnum("kind", ["profile", "directory", "failed"]).notNull(),
+  rowJson:     text("rowJson"),     // profile / failed: output row (column → value)
+  sourcesJson: text("sourcesJson"), // profile: {[sectionKey]: [{url, snippet}]}
+  entriesJson: text("entriesJson"), // directory: discovered entries
+  createdAt:   timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  jobIdUrlHashUnique: unique("agentResults_jobId_urlHash_unique").on(table.jobId, table.urlHash),
+}));
+
+export type AgentResult = typeof agentResults.$inferSelect;
+export type InsertAgentResult = typeof agentResults.$inferInsert;
+
+/**
+ * PageCache table - persistent store behind scraper/CacheLayer
+ * Shared by the web server and worker.ts so re-runs and resumed jobs reuse fetched pages.
+ * Rows are keyed by a SHA-256 hash of the cache key and evicted least-recently-used.
+ */
+export const pageCache = mysqlTable("pageCache", {
+  id:             int("id").autoincrement().primaryKey(),
+  cacheKey:       varchar("cacheKey", { length: 64 }).notNull().unique(), // sha256 hex of the logical key
+  url:            text("url"),
+  data:           longtext("data").notNull(),   // JSON-serialized cached value
+  sizeBytes:      int("sizeBytes").notNull(),
+  expiresAt:      timestamp("expiresAt").notNull(),
+  lastAccessedAt: timestamp("lastAccessedAt").defaultNow().notNull(),
+  createdAt:      timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  lastAccessedIdx: index("pageCache_lastAccessedAt_idx").on(table.lastAccessedAt),
+  expiresIdx: index("pageCache_expiresAt_idx").on(table.expiresAt),
+}));
+
+export type PageCacheEntry = typeof pageCache.$inferSelect;
+export type InsertPageCacheEntry = typeof pageCache.$inferInsert;
+
+/**
+ * JobSchedules table - recurring re-enrichment of a saved input file
+ * Copies the job configuration (input file, template / sections) from the job it was created from;
+ * worker.ts enqueues a new enrichmentJobs row whenever nextRunAt passes.
+ */
+export const jobSchedules = mysqlTable("jobSchedules", {
+  id:                int("id").autoincrement().primaryKey(),
+  userId:            int("userId").notNull(),
+  name:              varchar("name", { length: 255 }).notNull(),
+  cronExpression:    varchar("cronExpression", { length: 100 }).notNull(), // 5-field cron, evaluated in UTC
+  enabled:           boolean("enabled").default(true).notNull(),
+  // Job configuration copied into every run
+  inputFileUrl:      text("inputFileUrl").notNull(),
+  inputFileKey:      text("inputFileKey").notNull(),
+  firmCount:         int("firmCount").default(0),
+  columnMappingJson: text("columnMappingJson"),
+  sourceSheetUrl:    text("sourceSheetUrl"),     // Runs re-snapshot this sheet instead of reusing inputFileUrl
+  sheetWriteBack:    boolean("sheetWriteBack").default(false).notNull(),
+  template:          varchar("template", { length: 50 }).default("vc"),
+  tierFilter:        mysqlEnum("tierFilter", ["tier1", "tier1-2", "all"]).default("all").notNull(),
+  deepTeamProfileScraping: boolean("deepTeamProfileScraping").default(false).notNull(),
+  maxTeamProfiles:   int("maxTeamProfiles").default(200).notNull(),
+  estimatedCostUSD:  decimal("estimatedCostUSD", { precision: 10, scale: 4 }),
+  sectionsJson:      text("sectionsJson"),
+  systemPrompt:      text("systemPrompt"),
+  objective:         text("objective"),
+  // Run tracking
+  lastJobId:         int("lastJobId"),       // Most recently enqueued run
+  baselineJobId:     int("baselineJobId"),   // Most recent completed run — next run is diffed against it
+  lastRunAt:         timestamp("lastRunAt"),
+  nextRunAt:         timestamp("nextRunAt"),
+  createdAt:         timestamp("createdAt").defaultNow().notNull(),
+  updatedAt:         timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  nextRunAtIdx: index("jobSchedules_nextRunAt_idx").on(table.nextRunAt),
+}));
+
+export type JobSchedule = typeof jobSchedules.$inferSelect;
+export type InsertJobSchedule = typeof jobSchedules.$inferInsert;
+
+/**
+ * JobChanges table - differences between a scheduled run and the previous completed run
+ * One row per change: firm added/removed, team member added/departed, portfolio company
+ * added/removed, or a tracked field (AUM, HQ, custom section...) whose value changed.
+ */
+export const jobChanges = mysqlTable("jobChanges", {
+  id:            int("id").autoincrement().primaryKey(),
+  jobId:         int("jobId").notNull(),
+  previousJobId: int("previousJobId").notNull(),
+  companyName:   text("companyName"),
+  websiteUrl:    text("websiteUrl"),
+  changeType:    varchar("changeType", { length: 40 }).notNull(), // see ChangeType in server/changeDetection.ts
+  entity:        text("entity"),      // Team member / portfolio company name, when applicable
+  field:         varchar("field", { length: 100 }),
+  oldValue:      text("oldValue"),
+  newValue:      text("newValue"),
+  createdAt:     timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  jobIdIdx: index("jobChanges_jobId_idx").on(table.jobId),
+}));
+
+export type JobChange = typeof jobChanges.$inferSelect;
+export type InsertJobChange = typeof jobChanges.$inferInsert;
+
+/**
+ * WebhookEndpoints table - per-user URLs notified of job lifecycle events
+ * Payloads are signed with the endpoint secret (HMAC-SHA256, see server/webhooks.ts).
+ */
+export const webhookEndpoints = mysqlTable("webhookEndpoints", {
+  id:          int("id").autoincrement().primaryKey(),
+  userId:      int("userId").notNull(),
+  url:         text("url").notNull(),
+  secret:      varchar("secret", { length: 100 }).notNull(),
+  events:      text("events"),       // JSON: WebhookEvent[] — null means every event
+  description: varchar("description", { length: 255 }),
+  enabled:     boolean("enabled").default(true).notNull(),
+  createdAt:   timestamp("createdAt").defaultNow().notNull(),
+  updatedAt:   timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("webhookEndpoints_userId_idx").on(table.userId),
+}));
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = typeof webhookEndpoints.$inferInsert;
+
+/**
+ * WebhookDeliveries table - delivery log + retry queue
+ * Failed deliveries are retried with backoff by worker.ts until they succeed or run out of attempts.
+ */
+export const webhookDeliveries = mysqlTable("webhookDeliveries", {
+  id:             int("id").autoincrement().primaryKey(),
+  deliveryId:     varchar("deliveryId", { length: 32 }).notNull().unique(), // Sent as X-Webhook-Delivery
+  endpointId:     int("endpointId").notNull(),
+  jobId:          int("jobId"),
+  event:          varchar("event", { length: 50 }).notNull(),
+  payload:        text("payload").notNull(),
+  status:         varchar("status", { length: 20 }).default("pending").notNull(), // "pending" | "success" | "failed"
+  attempts:       int("attempts").default(0).notNull(),
+  responseStatus: int("responseStatus"),
+  lastError:      text("lastError"),
+  nextAttemptAt:  timestamp("nextAttemptAt"),
+  deliveredAt:    timestamp("deliveredAt"),
+  createdAt:      timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  endpointIdIdx: index("webhookDeliveries_endpointId_idx").on(table.endpointId),
+  retryIdx: index("webhookDeliveries_status_nextAttemptAt_idx").on(table.status, table.nextAttemptAt),
+}));
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+/**
+ * ApiKeys table - personal keys for the REST API (/api/v1, see server/restApi.ts)
+ * Only the SHA-256 hash is stored; the plaintext key is shown once at creation.
+ */
+export const apiKeys = mysqlTable("apiKeys", {
+  id:         int("id").autoincrement().primaryKey(),
+  userId:     int("userId").notNull(),
+  name:       varchar("name", { length: 100 }).notNull(),
+  keyPrefix:  varchar("keyPrefix", { length: 20 }).notNull(), // First characters of the key, for display
+  keyHash:    varchar("keyHash", { length: 64 }).notNull().unique(),
+  lastUsedAt: timestamp("lastUsedAt"),
+  revokedAt:  timestamp("revokedAt"),
+  createdAt:  timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("apiKeys_userId_idx").on(table.userId),
+}));
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+
+/**
+ * Domains that are never crawled (site owners' opt-out requests). Applies to every job;
+ * subdomains of an entry are blocked too. See server/crawlPolicy.ts.
+ */
+export const crawlBlocklist = mysqlTable("crawlBlocklist", {
+  id:        int("id").autoincrement().primaryKey(),
+  domain:    varchar("domain", { length: 255 }).notNull().unique(), // normalised: lower-case, no "www."
+  reason:    text("reason"),
+  createdBy: int("createdBy").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type CrawlBlocklistEntry = typeof crawlBlocklist.$inferSelect;
+export type InsertCrawlBlocklistEntry = typeof crawlBlocklist.$inferInsert;
+
+/**
+ * CrmConnections table - per-user HubSpot / Salesforce targets for pushing job results
+ * Firms are upserted as companies and team members as contacts (see server/crmPush.ts).
+ */
+export const crmConnections = mysqlTable("crmConnections", {
+  id:            int("id").autoincrement().primaryKey(),
+  userId:        int("userId").notNull(),
+  name:          varchar("name", { length: 100 }).notNull(),
+  provider:      varchar("provider", { length: 20 }).notNull(), // "hubspot" | "salesforce"
+  baseUrl:       text("baseUrl").notNull(),      // API root, e.g. https://api.hubapi.com or a local mock CRM
+  accessToken:   text("accessToken").notNull(),  // Sent as a Bearer token
+  fieldMappings: text("fieldMappings"),          // JSON: Record<templateId, CrmFieldMapping> — null means the provider defaults
+  lastPushedAt:  timestamp("lastPushedAt"),
+  createdAt:     timestamp("createdAt").defaultNow().notNull(),
+  updatedAt:     timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("crmConnections_userId_idx").on(table.userId),
+}));
+
+export type CrmConnection = typeof crmConnections.$inferSelect;
+export type InsertCrmConnection = typeof crmConnections.$inferInsert;
+
+/**
+ * TierRuleSets table - per-user decision-maker tier rules (see server/tierRules.ts)
+ * A set can be the user's default for one or more templates; other templates use the built-in rules.
+ */
+export const tierRuleSets = mysqlTable("tierRuleSets", {
+  id:               int("id").autoincrement().primaryKey(),
+  userId:           int("userId").notNull(),
+  name:             varchar("name", { length: 100 }).notNull(),
+  rules:            text("rules").notNull(),  // JSON: TierRules
+  defaultTemplates: text("defaultTemplates"), // JSON: templateId[] this set is the default for
+  createdAt:        timestamp("createdAt").defaultNow().notNull(),
+  updatedAt:        timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("tierRuleSets_userId_idx").on(table.userId),
+}));
+
+export type TierRuleSet = typeof tierRuleSets.$inferSelect;
+export type InsertTierRuleSet = typeof tierRuleSets.$inferInsert;
+
+/**
+ * FirmEntities table - one canonical firm per normalised website domain, across all jobs
+ * enrichedFirms rows link to it via firmEntityId (see server/entityStore.ts).
+ */
+export const firmEntities = mysqlTable("firmEntities", {
+  id:               int("id").autoincrement().primaryKey(),
+  domain:           varchar("domain", { length: 255 }).notNull().unique(), // normalised: lower-case, no "www."
+  name:             text("name").notNull(),
+  websiteUrl:       text("websiteUrl"),
+  investorType:     text("investorType"),
+  investmentStages: text("investmentStages"),
+  investmentNiches: text("investmentNiches"),
+  aum:              text("aum"),
+  headquarters:     text("headquarters"),
+  foundedYear:      text("foundedYear"),
+  firstSeenJobId:   int("firstSeenJobId").notNull(),
+  lastSeenJobId:    int("lastSeenJobId").notNull(),
+  jobCount:         int("jobCount").default(1).notNull(),
+  createdAt:        timestamp("createdAt").defaultNow().notNull(),
+  updatedAt:        timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type FirmEntity = typeof firmEntities.$inferSelect;
+export type InsertFirmEntity = typeof firmEntities.$inferInsert;
+
+/**
+ * PersonEntities table - one canonical person, matched on LinkedIn URL or normalised name at the same firm
+ * teamMembers rows link to it via personEntityId (see server/entityStore.ts).
+ */
+export const personEntities = mysqlTable("personEntities", {
+  id:                int("id").autoincrement().primaryKey(),
+  firmEntityId:      int("firmEntityId").notNull(), // Firm the person was last seen at
+  name:              varchar("name", { length: 255 }).notNull(),
+  normalizedName:    varchar("normalizedName", { length: 255 }).notNull(), // normalizeName(name)
+  title:             text("title"),
+  email:             varchar("email", { length: 320 }),
+  linkedinUrl:       varchar("linkedinUrl", { length: 255 }), // canonical https://www.linkedin.com/in/<slug>
+  decisionMakerTier: varchar("decisionMakerTier", { length: 20 }),
+  firstSeenJobId:    int("firstSeenJobId").notNull(),
+  lastSeenJobId:     int("lastSeenJobId").notNull(),
+  jobCount:          int("jobCount").default(1).notNull(),
+  createdAt:         timestamp("createdAt").defaultNow().notNull(),
+  updatedAt:         timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  firmNameIdx: index("personEntities_firmEntityId_normalizedName_idx").on(table.firmEntityId, table.normalizedName),
+  linkedinIdx: index("personEntities_linkedinUrl_idx").on(table.linkedinUrl),
+}));
+
+export type PersonEntity = typeof personEntities.$inferSelect;
+export type InsertPersonEntity = typeof personEntities.$inferInsert;
+
+/**
+ * EntityMergeHistory table - how each canonical firm / person was built up from job rows:
+ * creation, each job row linked into it, and every field value it changed
+ */
+export const entityMergeHistory = mysqlTable("entityMergeHistory", {
+  id:          int("id").autoincrement().primaryKey(),
+  entityType:  varchar("entityType", { length: 10 }).notNull(), // "firm" | "person"
+  entityId:    int("entityId").notNull(),
+  jobId:       int("jobId").notNull(),
+  sourceRowId: int("sourceRowId").notNull(), // enrichedFirms.id / teamMembers.id
+  action:      varchar("action", { length: 20 }).notNull(), // see MergeAction in server/entityStore.ts
+  field:       varchar("field", { length: 100 }),
+  oldValue:    text("oldValue"),
+  newValue:    text("newValue"),
+  createdAt:   timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  entityIdx: index("entityMergeHistory_entityType_entityId_idx").on(table.entityType, table.entityId),
+}));
+
+export type EntityMergeHistoryEntry = typeof entityMergeHistory.$inferSelect;
+export type InsertEntityMergeHistoryEntry = typeof entityMergeHistory.$inferInsert;
@@ -0,0 +1,58 @@
+/**
+ * Score extraction quality against a labelled ground-truth set (see server/extractionEval.ts)
+ *
+ *   pnpm eval evals/vc-ground-truth.json
+ *   pnpm eval evals/vc-ground-truth.json --template vc --out reports/after.json --baseline reports/before.json
+ *
+ * --template  only run the cases of this template
+ * --out       save the report as JSON, to pass as --baseline after the next change
+ * --baseline  show each field's / template's F1 change against an earlier report
+ *
+ * Runs the pipelines live (LLM and Jina keys from .env), one case at a time.
+ */
+
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { formatReport, runEvaluation, type EvalReport, type GroundTruthSet } from "./server/extractionEval";
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args[0];
+  if (!file || file.startsWith("--")) {
+    throw new Error("Usage: pnpm eval <ground-truth.json> [--template <id>] [--out <report.json>] [--baseline <report.json>]");
+  }
+
+  const set: GroundTruthSet = JSON.parse(fs.readFileSync(file, "utf8"));
+  const template = option(args, "--template");
+  if (template) set.cases = set.cases.filter((c) => c.template === template);
+  if (set.cases.length === 0) throw new Error(`No cases to run in ${file}${template ? ` for template ${template}` : ""}`);
+
+  const baselineFile = option(args, "--baseline");
+  const baseline: EvalReport | undefined = baselineFile ? JSON.parse(fs.readFileSync(baselineFile, "utf8")) : undefined;
+
+  console.log(`Evaluating ${set.cases.length} cases from ${file}...`);
+  const report = await runEvaluation(set, (result, index) => {
+    console.log(`[${index + 1}/${set.cases.length}] ${result.id}${result.error ? ` ✗ ${result.error}` : " ✓"}`);
+  });
+
+  console.log(`\n${formatReport(report, baseline)}`);
+
+  const out = option(args, "--out");
+  if (out) {
+    fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+    fs.writeFileSync(out, JSON.stringify(report, null, 2) + "\n");
+    console.log(`\n✓ Report saved to ${out}`);
+  }
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("✗", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
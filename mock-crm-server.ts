@@ -0,0 +1,44 @@
+/**
+ * Run the in-memory mock CRM (server/crmMockServer.ts) to try CRM pushes locally
+ *
+ *   pnpm mock-crm                  # http://localhost:4010, token "mock-token"
+ *   pnpm mock-crm --port 5000 --token secret
+ *
+ * Add a CRM connection (either provider) with that base URL and token, push a job, and the
+ * records it creates / updates are printed here. Ctrl+C to stop; nothing is persisted.
+ */
+
+import { startMockCrmServer } from "./server/crmMockServer";
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const port = Number(option(args, "--port") ?? 4010);
+  const token = option(args, "--token") ?? "mock-token";
+
+  const crm = await startMockCrmServer({ port, token });
+  console.log(`✓ Mock CRM listening on http://localhost:${port} (token "${token}")`);
+
+  let logged = 0;
+  setInterval(() => {
+    for (const request of crm.requests.slice(logged)) console.log(`  ${request}`);
+    if (crm.requests.length > logged) {
+      console.log(`  → ${crm.companies.size} companies, ${crm.contacts.size} contacts`);
+      logged = crm.requests.length;
+    }
+  }, 1000);
+
+  process.on("SIGINT", async () => {
+    await crm.close();
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  console.error("✗", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
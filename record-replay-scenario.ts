@@ -0,0 +1,62 @@
+/**
+ * Record a replay scenario for the offline pipeline regression tests (see server/replayScenarios.ts)
+ *
+ *   npx tsx record-replay-scenario.ts <name> scrapeUrl <url> "<objective>" '<sections JSON>' ["<system prompt>"]
+ *   npx tsx record-replay-scenario.ts <name> enrichVCFirm "<firm name>" <url> "<description>"
+ *   npx tsx record-replay-scenario.ts <name>
+ *
+ * The last form re-records an existing scenario with its saved input. Runs live: needs the
+ * LLM and Jina keys from .env. Writes server/__fixtures__/replay/<name>.json.
+ */
+
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { loadScenario, recordScenario, saveScenario, type ScenarioInput } from "./server/replayScenarios";
+
+const SCENARIO_DIR = path.resolve("server/__fixtures__/replay");
+
+function parseInput(name: string, args: string[]): ScenarioInput {
+  const [pipeline, ...rest] = args;
+  if (pipeline === "scrapeUrl" && rest.length >= 3) {
+    const [url, objective, sectionsJson, systemPrompt] = rest;
+    return {
+      pipeline,
+      url,
+      objective,
+      sections: JSON.parse(sectionsJson),
+      systemPrompt: systemPrompt ?? `Extract information about this entity. Objective: ${objective}`,
+    };
+  }
+  if (pipeline === "enrichVCFirm" && rest.length >= 3) {
+    const [companyName, websiteUrl, description] = rest;
+    return { pipeline, companyName, websiteUrl, description };
+  }
+  if (!pipeline) {
+    const file = path.join(SCENARIO_DIR, `${name}.json`);
+    if (fs.existsSync(file)) return loadScenario(file).input;
+    throw new Error(`No scenario ${file} to re-record`);
+  }
+  throw new Error(`Usage: see the header of record-replay-scenario.ts`);
+}
+
+async function main() {
+  const [name, ...args] = process.argv.slice(2);
+  if (!name) throw new Error("Usage: npx tsx record-replay-scenario.ts <name> [scrapeUrl|enrichVCFirm ...]");
+
+  const input = parseInput(name, args);
+  console.log(`Recording ${name} (${input.pipeline})...`);
+  const scenario = await recordScenario(name, input);
+
+  fs.mkdirSync(SCENARIO_DIR, { recursive: true });
+  const file = path.join(SCENARIO_DIR, `${name}.json`);
+  saveScenario(file, scenario);
+  console.log(`✓ ${scenario.llm.length} LLM calls, ${scenario.fetches.length} fetches → ${file}`);
+  console.log(JSON.stringify(scenario.golden, null, 2));
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("✗", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
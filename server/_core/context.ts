@@ -19,6 +19,7 @@ const DEV_USER: User = {
   createdAt: new Date(),
   updatedAt: new Date(),
   lastSignedIn: new Date(),
+  monthlyBudgetUSD: null,
 };
 
 export async function createContext(
@@ -3,11 +3,14 @@
  *
  * Ensures at most 1 concurrent request per domain with a minimum gap
  * between requests to avoid triggering bot detection or rate limits.
+ * The gap is raised to the site's robots.txt Crawl-delay when that is longer.
  *
  * Usage:
  *   const result = await withDomainRateLimit(url, () => fetchSomething(url));
  */
 
+import { getCrawlDelayMs } from "../crawlPolicy";
+
 const domainQueues = new Map<string, Promise<void>>();
 
 /**
@@ -31,7 +34,8 @@ function getDomain(url: string): string {
  *
  * @param url         Target URL (used to extract domain)
  * @param fn          Async function to execute
- * @param minGapMs    Minimum delay between consecutive requests to the same domain (default 1500ms)
+ * @param minGapMs    Minimum delay between consecutive requests to the same domain (default 1500ms,
+ *                    or the robots.txt Crawl-delay if longer)
  */
 export async function withDomainRateLimit<T>(
   url: string,
@@ -39,6 +43,7 @@ export async function withDomainRateLimit<T>(
   minGapMs = 1500,
 ): Promise<T> {
   const domain = getDomain(url);
+  const gapMs = Math.max(minGapMs, await getCrawlDelayMs(url));
 
   const prev = domainQueues.get(domain) ?? Promise.resolve();
   let resolveGate!: () => void;
@@ -46,7 +51,7 @@ export async function withDomainRateLimit<T>(
 
   // Chain: wait for previous request + gap, then release gate
   const next = prev
-    .then(() => new Promise<void>(r => setTimeout(r, minGapMs)))
+    .then(() => new Promise<void>(r => setTimeout(r, gapMs)))
     .then(() => resolveGate());
 
   domainQueues.set(domain, next.then(() => gate).catch(() => {}));
@@ -1,4 +1,6 @@
 import { ENV } from "./env";
+import type { LLMTask } from "./llmRouting";
+import { replayLLMCall } from "./replay";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
 
@@ -67,6 +69,8 @@ export type InvokeParams = {
   output_schema?: OutputSchema;
   responseFormat?: ResponseFormat;
   response_format?: ResponseFormat;
+  /** Routes the call to the model configured for this kind of work (see llmRouting.ts) */
+  task?: LLMTask;
 };
 
 export type ToolCall = {
@@ -137,7 +141,7 @@ const normalizeContentPart = (
   throw new Error("Unsupported message content part");
 };
 
-const normalizeMessage = (message: Message) => {
+export const normalizeMessage = (message: Message) => {
   const { role, name, tool_call_id } = message;
 
   if (role === "tool" || role === "function") {
@@ -171,7 +175,7 @@ const normalizeMessage = (message: Message) => {
   };
 };
 
-const normalizeToolChoice = (
+export const normalizeToolChoice = (
   toolChoice: ToolChoice | undefined,
   tools: Tool[] | undefined
 ): "none" | "auto" | ToolChoiceExplicit | undefined => {
@@ -221,7 +225,7 @@ const assertApiKey = () => {
   }
 };
 
-const normalizeResponseFormat = ({
+export const normalizeResponseFormat = ({
   responseFormat,
   response_format,
   outputSchema,
@@ -266,14 +270,18 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams, retries = 3): Promise<InvokeResult> {
-  assertApiKey();
-
+/**
+ * Chat Completions request body shared by every OpenAI-compatible provider (see llmProviders.ts)
+ */
+export function buildChatCompletionPayload(model: string, params: InvokeParams): Record<string, unknown> {
   const {
     messages,
     tools,
     toolChoice,
     tool_choice,
+    maxTokens,
+    max_tokens,
+    temperature,
     outputSchema,
     output_schema,
     responseFormat,
@@ -281,7 +289,7 @@ export async function invokeLLM(params: InvokeParams, retries = 3): Promise<Invo
   } = params;
 
   const payload: Record<string, unknown> = {
-    model: "gemini-2.5-flash",
+    model,
     messages: messages.map(normalizeMessage),
   };
 
@@ -297,9 +305,13 @@ export async function invokeLLM(params: InvokeParams, retries = 3): Promise<Invo
     payload.tool_choice = normalizedToolChoice;
   }
 
-  payload.max_tokens = 32768
-  payload.thinking = {
-    "budget_tokens": 128
+  const tokenLimit = maxTokens ?? max_tokens;
+  if (tokenLimit !== undefined) {
+    payload.max_tokens = tokenLimit;
+  }
+
+  if (temperature !== undefined) {
+    payload.temperature = temperature;
   }
 
   const normalizedResponseFormat = normalizeResponseFormat({
@@ -313,6 +325,22 @@ export async function invokeLLM(params: InvokeParams, retries = 3): Promise<Invo
     payload.response_format = normalizedResponseFormat;
   }
 
+  return payload;
+}
+
+export async function invokeLLM(params: InvokeParams, retries = 3): Promise<InvokeResult> {
+  return replayLLMCall(params, () => invokeForgeLLM(params, retries));
+}
+
+async function invokeForgeLLM(params: InvokeParams, retries: number): Promise<InvokeResult> {
+  assertApiKey();
+
+  const payload = buildChatCompletionPayload("gemini-2.5-flash", params);
+  payload.max_tokens = 32768
+  payload.thinking = {
+    "budget_tokens": 128
+  }
+
   // Retry logic with exponential backoff
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
@@ -0,0 +1,314 @@
+/**
+ * LLM Provider Registry
+ *
+ * One entry per backend, each turning InvokeParams into a request and the response back
+ * into the Chat Completions shape (InvokeResult) the rest of the code reads:
+ *   - openai    — OPENAI_API_KEY, default model OPENAI_MODEL (gpt-4o-mini)
+ *   - gemini    — GEMINI_API_KEY, Google's OpenAI-compatible endpoint, default GEMINI_MODEL (gemini-2.5-flash)
+ *   - anthropic — ANTHROPIC_API_KEY, Messages API, default ANTHROPIC_MODEL (claude-3-5-haiku-latest)
+ *   - local     — any OpenAI-compatible server (Ollama, vLLM, LM Studio) at LOCAL_LLM_BASE_URL,
+ *                 default LOCAL_LLM_MODEL (llama3.1); LOCAL_LLM_API_KEY if the server wants one
+ *
+ * Which provider and model a call uses is decided by llmRouting.ts. Prices live here so the
+ * cost estimator and the per-job cost accounting read the same numbers.
+ */
+
+import { buildChatCompletionPayload, type InvokeParams, type InvokeResult, type Message, type ToolCall } from "./llm";
+import { ENV } from "./env";
+
+export const LLM_PROVIDER_IDS = ["openai", "gemini", "anthropic", "local"] as const;
+export type LLMProviderId = typeof LLM_PROVIDER_IDS[number];
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  defaultModel: () => string;
+  isConfigured: () => boolean;
+  invoke: (model: string, params: InvokeParams) => Promise<InvokeResult>;
+}
+
+export interface ModelPricing {
+  inputPer1M: number;
+  outputPer1M: number;
+}
+
+/**
+ * USD per 1M tokens. Versioned model names ("gpt-4o-mini-2024-07-18") use the longest
+ * matching prefix; unknown models are priced at the provider's most expensive entry (with a
+ * warning), so budgets err on the safe side until the model is added here or to LLM_PRICING.
+ * Override or extend with LLM_PRICING='{"openai:gpt-4o":{"input":2.5,"output":10}}'.
+ */
+const MODEL_PRICING: Record<LLMProviderId, Record<string, ModelPricing>> = {
+  openai: {
+    "gpt-4o-mini":  { inputPer1M: 0.15,  outputPer1M: 0.60 },
+    "gpt-4o":       { inputPer1M: 2.50,  outputPer1M: 10.00 },
+    "gpt-4.1-nano": { inputPer1M: 0.10,  outputPer1M: 0.40 },
+    "gpt-4.1-mini": { inputPer1M: 0.40,  outputPer1M: 1.60 },
+    "gpt-4.1":      { inputPer1M: 2.00,  outputPer1M: 8.00 },
+    "gpt-5-nano":   { inputPer1M: 0.05,  outputPer1M: 0.40 },
+    "gpt-5-mini":   { inputPer1M: 0.25,  outputPer1M: 2.00 },
+    "gpt-5":        { inputPer1M: 1.25,  outputPer1M: 10.00 },
+  },
+  gemini: {
+    "gemini-2.5-flash":      { inputPer1M: 0.30,  outputPer1M: 2.50 },
+    "gemini-2.5-flash-lite": { inputPer1M: 0.10,  outputPer1M: 0.40 },
+    "gemini-2.5-pro":        { inputPer1M: 1.25,  outputPer1M: 10.00 },
+  },
+  anthropic: {
+    "claude-3-5-haiku": { inputPer1M: 0.80, outputPer1M: 4.00 },
+    "claude-haiku-4-5": { inputPer1M: 1.00, outputPer1M: 5.00 },
+    "claude-sonnet-4":  { inputPer1M: 3.00, outputPer1M: 15.00 },
+    "claude-opus-4":    { inputPer1M: 15.00, outputPer1M: 75.00 },
+  },
+  local: {
+    "": { inputPer1M: 0, outputPer1M: 0 }, // self-hosted — no per-token price
+  },
+};
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+let pricingOverrides: Record<string, ModelPricing> | null = null;
+/** Unknown models already warned about, "provider:model" */
+const unpricedModels = new Set<string>();
+
+/**
+ * LLM_PRICING entries keyed "provider:model"
+ */
+export function parsePricingOverrides(json: string | undefined): Record<string, ModelPricing> {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json) as Record<string, { input?: number; output?: number }>;
+    const overrides: Record<string, ModelPricing> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      if (typeof value?.input === "number" && typeof value?.output === "number") {
+        overrides[key] = { inputPer1M: value.input, outputPer1M: value.output };
+      }
+    }
+    return overrides;
+  } catch {
+    console.warn("[LLM] Ignoring LLM_PRICING — not valid JSON");
+    return {};
+  }
+}
+
+export function getModelPricing(provider: LLMProviderId, model: string): ModelPricing {
+  pricingOverrides ??= parsePricingOverrides(process.env.LLM_PRICING);
+  const override = pricingOverrides[`${provider}:${model}`];
+  if (override) return override;
+
+  const table = MODEL_PRICING[provider];
+  let match: string | null = null;
+  for (const prefix of Object.keys(table)) {
+    if (model.startsWith(prefix) && (match === null || prefix.length > match.length)) match = prefix;
+  }
+  if (match !== null) return table[match];
+
+  const fallback = Object.values(table).reduce((a, b) => (b.inputPer1M + b.outputPer1M > a.inputPer1M + a.outputPer1M ? b : a));
+  if (!unpricedModels.has(`${provider}:${model}`)) {
+    unpricedModels.add(`${provider}:${model}`);
+    console.warn(`[LLM] No price for ${provider}:${model} — using the most expensive ${provider} price. Add it to LLM_PRICING.`);
+  }
+  return fallback;
+}
+
+export function calculateLLMCost(provider: LLMProviderId, model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = getModelPricing(provider, model);
+  return (inputTokens * pricing.inputPer1M + outputTokens * pricing.outputPer1M) / 1_000_000;
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible providers (OpenAI, Gemini, local servers)
+// ---------------------------------------------------------------------------
+
+async function invokeChatCompletions(
+  label: string,
+  url: string,
+  apiKey: string,
+  model: string,
+  params: InvokeParams,
+): Promise<InvokeResult> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(buildChatCompletionPayload(model, params)),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`${label} API error (${response.status}): ${error}`);
+  }
+
+  const data = await response.json();
+  return {
+    id: data.id,
+    created: data.created,
+    model: data.model ?? model,
+    choices: data.choices.map((choice: any) => ({
+      index: choice.index,
+      message: {
+        role: choice.message.role,
+        content: choice.message.content,
+        tool_calls: choice.message.tool_calls,
+      },
+      finish_reason: choice.finish_reason,
+    })),
+    usage: data.usage,
+  };
+}
+
+const localBaseUrl = () => (process.env.LOCAL_LLM_BASE_URL ?? "").replace(/\/$/, "");
+
+// ---------------------------------------------------------------------------
+// Anthropic (Messages API)
+// ---------------------------------------------------------------------------
+
+const messageText = (message: Message): string =>
+  (Array.isArray(message.content) ? message.content : [message.content])
+    .map((part) => (typeof part === "string" ? part : part.type === "text" ? part.text : JSON.stringify(part)))
+    .join("\n");
+
+/**
+ * Chat Completions-style params → Messages API request body. Anthropic has no response_format,
+ * so a requested JSON shape is spelled out in the system prompt instead.
+ */
+export function buildAnthropicPayload(model: string, params: InvokeParams): Record<string, unknown> {
+  const system: string[] = [];
+  const messages: Array<{ role: "user" | "assistant"; content: string }> = [];
+
+  for (const message of params.messages) {
+    if (message.role === "system") {
+      system.push(messageText(message));
+      continue;
+    }
+    const role = message.role === "assistant" ? "assistant" : "user";
+    const text = messageText(message);
+    const previous = messages[messages.length - 1];
+    // The API wants user and assistant turns to alternate
+    if (previous?.role === role) previous.content += `\n\n${text}`;
+    else messages.push({ role, content: text });
+  }
+
+  const format = params.responseFormat ?? params.response_format;
+  const schema = format?.type === "json_schema" ? format.json_schema : (params.outputSchema ?? params.output_schema);
+  if (schema) {
+    system.push(`Respond with a single JSON object matching this JSON schema, and nothing else:\n${JSON.stringify(schema.schema)}`);
+  } else if (format?.type === "json_object") {
+    system.push("Respond with a single JSON object and nothing else.");
+  }
+
+  const payload: Record<string, unknown> = {
+    model,
+    max_tokens: params.maxTokens ?? params.max_tokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+    messages,
+  };
+  if (system.length > 0) payload.system = system.join("\n\n");
+  if (params.temperature !== undefined) payload.temperature = params.temperature;
+  if (params.tools && params.tools.length > 0) {
+    payload.tools = params.tools.map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters ?? { type: "object", properties: {} },
+    }));
+  }
+  return payload;
+}
+
+const ANTHROPIC_STOP_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+};
+
+export function parseAnthropicResponse(data: any, model: string): InvokeResult {
+  const blocks: any[] = data.content ?? [];
+  const toolCalls: ToolCall[] = blocks
+    .filter((block) => block.type === "tool_use")
+    .map((block) => ({ id: block.id, type: "function", function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) } }));
+  const inputTokens = data.usage?.input_tokens ?? 0;
+  const outputTokens = data.usage?.output_tokens ?? 0;
+
+  return {
+    id: data.id,
+    created: Math.floor(Date.now() / 1000),
+    model: data.model ?? model,
+    choices: [{
+      index: 0,
+      message: {
+        role: "assistant",
+        content: blocks.filter((block) => block.type === "text").map((block) => block.text).join(""),
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      },
+      finish_reason: ANTHROPIC_STOP_REASONS[data.stop_reason] ?? data.stop_reason ?? null,
+    }],
+    usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens },
+  };
+}
+
+async function invokeAnthropic(model: string, params: InvokeParams): Promise<InvokeResult> {
+  const response = await fetch("https://api.anthropic.com/v1/messages", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": process.env.ANTHROPIC_API_KEY ?? "",
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify(buildAnthropicPayload(model, params)),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Anthropic API error (${response.status}): ${error}`);
+  }
+  return parseAnthropicResponse(await response.json(), model);
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  openai: {
+    id: "openai",
+    label: "OpenAI",
+    defaultModel: () => process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+    isConfigured: () => !!ENV.openAiApiKey,
+    invoke: (model, params) =>
+      invokeChatCompletions("OpenAI", "https://api.openai.com/v1/chat/completions", ENV.openAiApiKey, model, params),
+  },
+  gemini: {
+    id: "gemini",
+    label: "Gemini",
+    defaultModel: () => process.env.GEMINI_MODEL ?? "gemini-2.5-flash",
+    isConfigured: () => !!ENV.geminiApiKey,
+    invoke: (model, params) =>
+      invokeChatCompletions("Gemini", "https://generativelanguage.googleapis.com/v1beta/openai/chat/completions", ENV.geminiApiKey, model, params),
+  },
+  anthropic: {
+    id: "anthropic",
+    label: "Anthropic",
+    defaultModel: () => process.env.ANTHROPIC_MODEL ?? "claude-3-5-haiku-latest",
+    isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+    invoke: invokeAnthropic,
+  },
+  local: {
+    id: "local",
+    label: "Local (OpenAI-compatible)",
+    defaultModel: () => process.env.LOCAL_LLM_MODEL ?? "llama3.1",
+    isConfigured: () => !!localBaseUrl(),
+    invoke: (model, params) =>
+      invokeChatCompletions("Local LLM", `${localBaseUrl()}/chat/completions`, process.env.LOCAL_LLM_API_KEY ?? "", model, params),
+  },
+};
+
+export function getLLMProvider(id: LLMProviderId): LLMProvider {
+  return PROVIDERS[id];
+}
+
+export function isLLMProviderId(value: string): value is LLMProviderId {
+  return (LLM_PROVIDER_IDS as readonly string[]).includes(value);
+}
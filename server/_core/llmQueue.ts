@@ -6,9 +6,13 @@
  */
 
 import { invokeLLM, type InvokeParams, type InvokeResult } from './openaiLLM';
+import { isJobCancelled } from './jobCancellation';
+import { currentUsageJobId, runWithJobContext } from './usageContext';
 
 interface QueuedRequest {
   params: InvokeParams;
+  /** Job the request is made for — the queue runs requests outside their caller's async context */
+  jobId: number | null;
   resolve: (result: InvokeResult) => void;
   reject: (error: Error) => void;
   priority: number;
@@ -44,6 +48,7 @@ export class LLMRequestQueue {
     return new Promise((resolve, reject) => {
       const request: QueuedRequest = {
         params,
+        jobId: currentUsageJobId(),
         resolve,
         reject,
         priority,
@@ -97,6 +102,12 @@ export class LLMRequestQueue {
       // Get next request
       const request = this.queue.shift();
       if (!request) break;
+
+      // Drop requests of stopped jobs without spending a rate-limit slot
+      if (request.jobId !== null && isJobCancelled(request.jobId)) {
+        request.reject(new Error('JOB_CANCELLED'));
+        continue;
+      }
       
       const waitTime = Date.now() - request.enqueuedAt;
       this.totalWaitTime += waitTime;
@@ -111,7 +122,7 @@ export class LLMRequestQueue {
       this.requestsThisMinute++;
       
       try {
-        const result = await invokeLLM(request.params);
+        const result = await runWithJobContext(request.jobId, () => invokeLLM(request.params));
         this.totalProcessed++;
         request.resolve(result);
       } catch (error) {
@@ -0,0 +1,120 @@
+/**
+ * LLM Task Routing
+ *
+ * Callers tag calls with the kind of work they do (InvokeParams.task); this table maps each
+ * kind to a provider + model from llmProviders.ts, so cheap models can take the high-volume
+ * classification calls while extraction runs on a stronger model.
+ *
+ * Configuration (env):
+ *   LLM_DEFAULT_MODEL  "provider:model" or "provider" (its default model) for untagged calls and
+ *                      tasks without a route. Unset → Gemini when GEMINI_API_KEY is set, else OpenAI.
+ *   LLM_ROUTES         JSON task → spec, e.g.
+ *                      {"page_classification":"gemini:gemini-2.5-flash-lite","team_extraction":"anthropic"}
+ *
+ * A route whose provider has no credentials falls back to the default route (logged once).
+ */
+
+import { getLLMProvider, isLLMProviderId, calculateLLMCost, type LLMProviderId } from "./llmProviders";
+
+export const LLM_TASKS = [
+  "page_classification",  // what kind of page is this / which links to follow
+  "directory_extraction", // entries of a listing page
+  "profile_extraction",   // user-defined sections and firm attributes of a profile
+  "team_extraction",      // team members, titles, specialisations
+  "default",
+] as const;
+export type LLMTask = typeof LLM_TASKS[number];
+
+export interface LLMRoute {
+  provider: LLMProviderId;
+  model: string;
+}
+
+export type LLMRoutingTable = Partial<Record<LLMTask, LLMRoute>>;
+
+let routingTable: LLMRoutingTable | null = null;
+const warnedFallbacks = new Set<LLMTask>();
+
+/**
+ * "gemini:gemini-2.5-flash" → that model; "gemini" → the provider's default model
+ */
+export function parseRouteSpec(spec: string): LLMRoute | null {
+  const trimmed = spec.trim();
+  const colon = trimmed.indexOf(":");
+  const provider = (colon === -1 ? trimmed : trimmed.slice(0, colon)).toLowerCase();
+  if (!isLLMProviderId(provider)) return null;
+  const model = colon === -1 ? "" : trimmed.slice(colon + 1).trim();
+  return { provider, model: model || getLLMProvider(provider).defaultModel() };
+}
+
+export function parseRoutingTable(json: string | undefined): LLMRoutingTable {
+  if (!json) return {};
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    console.warn("[LLM] Ignoring LLM_ROUTES — not valid JSON");
+    return {};
+  }
+
+  const table: LLMRoutingTable = {};
+  for (const [task, spec] of Object.entries(parsed)) {
+    const route = typeof spec === "string" ? parseRouteSpec(spec) : null;
+    if ((LLM_TASKS as readonly string[]).includes(task) && route) {
+      table[task as LLMTask] = route;
+    } else {
+      console.warn(`[LLM] Ignoring LLM_ROUTES entry ${task}: ${JSON.stringify(spec)}`);
+    }
+  }
+  return table;
+}
+
+function getRoutingTable(): LLMRoutingTable {
+  if (!routingTable) {
+    routingTable = parseRoutingTable(process.env.LLM_ROUTES);
+    const defaultSpec = process.env.LLM_DEFAULT_MODEL && parseRouteSpec(process.env.LLM_DEFAULT_MODEL);
+    if (process.env.LLM_DEFAULT_MODEL && !defaultSpec) {
+      console.warn(`[LLM] Ignoring LLM_DEFAULT_MODEL=${process.env.LLM_DEFAULT_MODEL} — unknown provider`);
+    }
+    if (defaultSpec) routingTable.default ??= defaultSpec;
+  }
+  return routingTable;
+}
+
+function defaultRoute(): LLMRoute {
+  const configured = getRoutingTable().default;
+  if (configured) return configured;
+  const provider = getLLMProvider("gemini").isConfigured() ? "gemini" : "openai";
+  return { provider, model: getLLMProvider(provider).defaultModel() };
+}
+
+/**
+ * Provider + model for a task
+ */
+export function resolveLLMRoute(task: LLMTask = "default"): LLMRoute {
+  const route = getRoutingTable()[task];
+  if (!route) return defaultRoute();
+  if (getLLMProvider(route.provider).isConfigured()) return route;
+
+  const fallback = defaultRoute();
+  if (!warnedFallbacks.has(task)) {
+    warnedFallbacks.add(task);
+    console.warn(`[LLM] ${route.provider} is not configured — ${task} uses ${fallback.provider}:${fallback.model} instead`);
+  }
+  return fallback;
+}
+
+/**
+ * Expected cost of a call of this task, at the price of the model it is routed to
+ */
+export function estimateLLMCost(task: LLMTask, inputTokens: number, outputTokens: number): number {
+  const route = resolveLLMRoute(task);
+  return calculateLLMCost(route.provider, route.model, inputTokens, outputTokens);
+}
+
+/**
+ * The resolved route of every task (logged when the worker starts)
+ */
+export function describeLLMRoutes(): Array<{ task: LLMTask } & LLMRoute> {
+  return LLM_TASKS.map((task) => ({ task, ...resolveLLMRoute(task) }));
+}
@@ -1,30 +1,19 @@
 /**
- * LLM Implementation — OpenAI or Gemini (OpenAI-compatible)
+ * LLM Entry Point — routed to the provider and model configured for the call's task
  *
- * Provider is selected at runtime:
- *   - If GEMINI_API_KEY is set → uses Gemini 2.5 Flash (50% cheaper, faster)
- *   - Otherwise → uses OpenAI (model via OPENAI_MODEL env var, default: gpt-4o-mini)
+ * The provider (OpenAI, Gemini, Anthropic or a local OpenAI-compatible server) and model
+ * come from llmRouting.ts: InvokeParams.task picks the route, untagged calls use the default
+ * route. Without any routing config this is Gemini 2.5 Flash when GEMINI_API_KEY is set and
+ * OpenAI (OPENAI_MODEL, default gpt-4o-mini) otherwise.
  *
- * Gemini 2.5 Flash uses Google's OpenAI-compatible endpoint so the code change is minimal.
- * To switch providers in Railway: add/remove the GEMINI_API_KEY env var.
+ * Cost is priced per provider and model (llmProviders.ts) and attributed to the running job.
  */
 
 import { type InvokeParams, type InvokeResult } from "./llm";
-import { ENV } from "./env";
-
-const USE_GEMINI = !!process.env.GEMINI_API_KEY;
-const LLM_BASE_URL = USE_GEMINI
-  ? "https://generativelanguage.googleapis.com/v1beta/openai/chat/completions"
-  : "https://api.openai.com/v1/chat/completions";
-const LLM_MODEL = USE_GEMINI
-  ? (process.env.GEMINI_MODEL ?? "gemini-2.5-flash")
-  : (process.env.OPENAI_MODEL ?? "gpt-4o-mini");
-const LLM_API_KEY = USE_GEMINI
-  ? (process.env.GEMINI_API_KEY ?? "")
-  : ENV.openAiApiKey;
-// Pricing per 1M tokens for cost tracking
-const INPUT_COST_PER_1M  = USE_GEMINI ? 0.075 : 0.15;
-const OUTPUT_COST_PER_1M = USE_GEMINI ? 0.30  : 0.60;
+import { calculateLLMCost, getLLMProvider } from "./llmProviders";
+import { resolveLLMRoute } from "./llmRouting";
+import { replayLLMCall } from "./replay";
+import { assertJobActive, recordLLMUsage } from "./usageContext";
 
 // Statistics
 let totalCalls = 0;
@@ -34,80 +23,35 @@ let totalInputTokens = 0;
 let totalOutputTokens = 0;
 
 /**
- * Invoke OpenAI API directly
+ * Invoke the LLM routed for params.task
  */
 export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  if (!LLM_API_KEY) {
-    throw new Error(USE_GEMINI ? "Gemini API key not configured" : "OpenAI API key not configured");
-  }
-
-  const { messages, tools, response_format, temperature } = params;
-
-  // Build request payload
-  const payload: Record<string, unknown> = {
-    model: LLM_MODEL,
-    messages: messages.map(msg => ({
-      role: msg.role,
-      content: typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content),
-    })),
-  };
-
-  if (temperature !== undefined) {
-    payload.temperature = temperature;
-  }
-
-  if (tools && tools.length > 0) {
-    payload.tools = tools;
-  }
+  assertJobActive();
+  return replayLLMCall(params, () => invokeRoutedLLM(params));
+}
 
-  if (response_format) {
-    payload.response_format = response_format;
+async function invokeRoutedLLM(params: InvokeParams): Promise<InvokeResult> {
+  const route = resolveLLMRoute(params.task);
+  const provider = getLLMProvider(route.provider);
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.label} API key not configured`);
   }
 
   try {
-    // Call LLM API (OpenAI or Gemini OpenAI-compatible endpoint)
-    const response = await fetch(LLM_BASE_URL, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LLM_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`LLM API error (${response.status}): ${error}`);
-    }
-
-    const data = await response.json();
+    const result = await provider.invoke(route.model, params);
 
-    // Track cost using active provider pricing
-    const inputTokens = data.usage?.prompt_tokens || 0;
-    const outputTokens = data.usage?.completion_tokens || 0;
-    const cost = (inputTokens * INPUT_COST_PER_1M + outputTokens * OUTPUT_COST_PER_1M) / 1_000_000;
+    // Track cost using the routed model's pricing
+    const inputTokens = result.usage?.prompt_tokens || 0;
+    const outputTokens = result.usage?.completion_tokens || 0;
+    const cost = calculateLLMCost(route.provider, route.model, inputTokens, outputTokens);
 
     totalCalls++;
     totalCost += cost;
     totalInputTokens += inputTokens;
     totalOutputTokens += outputTokens;
+    recordLLMUsage(inputTokens, outputTokens, cost);
 
-    // Return in standard format
-    return {
-      id: data.id,
-      created: data.created,
-      model: data.model,
-      choices: data.choices.map((choice: any) => ({
-        index: choice.index,
-        message: {
-          role: choice.message.role,
-          content: choice.message.content,
-          tool_calls: choice.message.tool_calls,
-        },
-        finish_reason: choice.finish_reason,
-      })),
-      usage: data.usage,
-    };
+    return result;
   } catch (error) {
     totalErrors++;
     throw error;
@@ -115,7 +59,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
 }
 
 /**
- * Get OpenAI LLM statistics
+ * Get LLM call statistics (all providers)
  */
 export function getOpenAIStats() {
   return {
@@ -0,0 +1,251 @@
+/**
+ * Record / Replay of LLM Calls and Page Fetches
+ *
+ * Lets the scraping pipelines (agentScraper.scrapeUrl, VCEnrichmentService.enrichVCFirm) run
+ * offline against a fixture:
+ *   record  calls go out live and are captured. Calls the fixture already has are served from
+ *           it, so deleting one entry re-records just that call.
+ *   replay  every call is served from the fixture. A call without a recording fails and is
+ *           listed in session.misses, and any other HTTP request is refused.
+ *
+ * Hooked in: invokeLLM (openaiLLM.ts and llm.ts — keyed by a hash of the call's params),
+ * fetchWebsiteContentHybrid, fetchViaJina, scrapeWebsite, getRobotsPolicy and plain axios
+ * requests (keyed by URL), structured-data fetches (structuredData.ts) and email verification
+ * (emailInference.ts — keyed by domain and mailboxes). Only the outermost fetch is recorded:
+ * the Jina call inside a hybrid fetch is replayed as part of it. Replayed calls are not billed
+ * to the job.
+ *
+ * One session at a time per process. Scenario files and the golden-output diff are in
+ * server/replayScenarios.ts.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import axios, { AxiosError, type AxiosAdapter, type AxiosResponse, type InternalAxiosRequestConfig } from "axios";
+import type { InvokeParams, InvokeResult } from "./llm";
+
+export type ReplayMode = "record" | "replay";
+export type ReplayFetchKind = "hybrid" | "jina" | "scrape" | "robots" | "http" | "email" | "structured";
+
+export interface RecordedLLMCall {
+  key: string;
+  task: string;
+  params: InvokeParams;
+  response: InvokeResult;
+}
+
+export interface RecordedFetch {
+  key: string;
+  kind: ReplayFetchKind;
+  url: string;
+  result?: unknown;
+  /** The live call threw — replayed as an Error with this message */
+  error?: string;
+}
+
+export interface ReplayFixture {
+  llm: RecordedLLMCall[];
+  fetches: RecordedFetch[];
+}
+
+export interface ReplaySession {
+  mode: ReplayMode;
+  llm: Map<string, RecordedLLMCall>;
+  fetches: Map<string, RecordedFetch>;
+  /** Keys replay mode had no recording for, including refused HTTP requests */
+  misses: string[];
+  hits: number;
+}
+
+export class ReplayMissError extends Error {
+  constructor(public readonly key: string) {
+    super(`No recorded response for ${key}`);
+    this.name = "ReplayMissError";
+  }
+}
+
+let session: ReplaySession | null = null;
+let restoreNetwork: (() => void) | null = null;
+
+// Set while a recorded fetch runs live, so the fetches it makes itself aren't recorded again
+const insideRecordedFetch = new AsyncLocalStorage<boolean>();
+
+/**
+ * JSON with object keys sorted, so equal params always serialise the same
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => {
+    if (!v || typeof v !== "object" || Array.isArray(v)) return v;
+    return Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]));
+  });
+}
+
+export function llmCallKey(params: InvokeParams): string {
+  const hash = createHash("sha256").update(canonicalJson(params)).digest("hex").slice(0, 24);
+  return `llm ${params.task ?? "default"} ${hash}`;
+}
+
+export function fetchKey(kind: ReplayFetchKind, url: string): string {
+  return `${kind} ${url}`;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function miss(active: ReplaySession, key: string): ReplayMissError {
+  active.misses.push(key);
+  console.warn(`[Replay] Miss: ${key}`);
+  return new ReplayMissError(key);
+}
+
+export function getReplaySession(): ReplaySession | null {
+  return session;
+}
+
+export function startReplaySession(mode: ReplayMode, fixture: ReplayFixture = { llm: [], fetches: [] }): ReplaySession {
+  if (session) throw new Error("A replay session is already running");
+  session = {
+    mode,
+    llm: new Map(fixture.llm.map((call) => [call.key, call])),
+    fetches: new Map(fixture.fetches.map((fetch) => [fetch.key, fetch])),
+    misses: [],
+    hits: 0,
+  };
+  restoreNetwork = interceptNetwork(mode);
+  console.log(`[Replay] ${mode} session started (${fixture.llm.length} LLM calls, ${fixture.fetches.length} fetches)`);
+  return session;
+}
+
+/**
+ * End the session and return everything it holds (recordings included), sorted by key
+ */
+export function stopReplaySession(): ReplayFixture | null {
+  const ended = session;
+  if (!ended) return null;
+  session = null;
+  restoreNetwork?.();
+  restoreNetwork = null;
+
+  const byKey = (a: { key: string }, b: { key: string }) => a.key.localeCompare(b.key);
+  return {
+    llm: Array.from(ended.llm.values()).sort(byKey),
+    fetches: Array.from(ended.fetches.values()).sort(byKey),
+  };
+}
+
+/**
+ * Serve an LLM call from the session, or run it live (and record it in record mode)
+ */
+export async function replayLLMCall(
+  params: InvokeParams,
+  live: () => Promise<InvokeResult>,
+): Promise<InvokeResult> {
+  const active = session;
+  if (!active) return live();
+
+  const key = llmCallKey(params);
+  const recorded = active.llm.get(key);
+  if (recorded) {
+    active.hits++;
+    return clone(recorded.response);
+  }
+  if (active.mode === "replay") throw miss(active, key);
+
+  const response = await live();
+  active.llm.set(key, { key, task: params.task ?? "default", params: clone(params), response: clone(response) });
+  return response;
+}
+
+/**
+ * Serve a page fetch from the session, or run it live (and record it in record mode)
+ */
+export async function replayFetch<T>(kind: ReplayFetchKind, url: string, live: () => Promise<T>): Promise<T> {
+  const active = session;
+  if (!active || insideRecordedFetch.getStore()) return live();
+
+  const key = fetchKey(kind, url);
+  const recorded = active.fetches.get(key);
+  if (recorded) {
+    active.hits++;
+    if (recorded.error !== undefined) throw new Error(recorded.error);
+    return clone(recorded.result) as T;
+  }
+  if (active.mode === "replay") throw miss(active, key);
+
+  try {
+    const result = await insideRecordedFetch.run(true, live);
+    active.fetches.set(key, { key, kind, url, result: clone(result) });
+    return result;
+  } catch (error) {
+    active.fetches.set(key, { key, kind, url, error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Network interception
+// ---------------------------------------------------------------------------
+
+interface RecordedHttpResponse {
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  data: unknown;
+}
+
+/**
+ * Route axios through the session and, in replay mode, refuse fetch() calls.
+ * Returns the function that undoes both.
+ */
+function interceptNetwork(mode: ReplayMode): () => void {
+  const originalAdapter = axios.defaults.adapter;
+  const liveAdapter = axios.getAdapter(originalAdapter);
+
+  const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const method = (config.method ?? "get").toUpperCase();
+    const recorded = await replayFetch<RecordedHttpResponse>("http", `${method} ${axios.getUri(config)}`, async () => {
+      const response = await liveAdapter({ ...config, validateStatus: () => true });
+      const data = Buffer.isBuffer(response.data) ? response.data.toString("utf8") : response.data;
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        contentType: response.headers["content-type"] ? String(response.headers["content-type"]) : null,
+        data,
+      };
+    });
+
+    const response: AxiosResponse = {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.contentType ? { "content-type": recorded.contentType } : {},
+      data: recorded.data,
+      config,
+      request: null,
+    };
+    if (config.validateStatus && !config.validateStatus(recorded.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${recorded.status}`,
+        recorded.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        null,
+        response,
+      );
+    }
+    return response;
+  };
+  axios.defaults.adapter = adapter;
+
+  const originalFetch = globalThis.fetch;
+  if (mode === "replay") {
+    globalThis.fetch = (async (input: Parameters<typeof fetch>[0]) => {
+      const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+      throw session ? miss(session, fetchKey("http", `fetch ${url}`)) : new ReplayMissError(url);
+    }) as typeof fetch;
+  }
+
+  return () => {
+    axios.defaults.adapter = originalAdapter;
+    globalThis.fetch = originalFetch;
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Job Usage Attribution
+ *
+ * LLM and scraping calls happen deep inside the enrichment services, which don't know
+ * which job they are working for. Job processors run inside runWithJobContext(); the
+ * LLM and fetch layers call recordUsage(), which attributes the usage to the job of the
+ * current async context (see budgets.ts for accounting and enforcement).
+ *
+ * assertJobActive() refuses calls for a job that was stopped (cancelled, or paused over
+ * budget) so in-flight work stops spending instead of finishing its current firm.
+ *
+ * The few interactive calls that run outside any job (the tier rules preview) use
+ * runWithUserContext() instead: their usage goes straight to the user's monthly spend.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { isJobCancelled } from "./jobCancellation";
+import { bufferJobUsage, recordUserUsage, type JobUsage } from "../budgets";
+
+// Jina Reader bills per output token — roughly 4 characters each
+const JINA_COST_PER_1M_TOKENS = Number(process.env.JINA_COST_PER_1M_TOKENS ?? "0.02");
+
+const storage = new AsyncLocalStorage<{ jobId: number } | { userId: number }>();
+
+/**
+ * Run fn with all usage attributed to jobId (null: attributed to no job)
+ */
+export function runWithJobContext<T>(jobId: number | null, fn: () => T): T {
+  return jobId === null ? storage.exit(fn) : storage.run({ jobId }, fn);
+}
+
+/**
+ * Run fn with all usage charged to userId directly, for calls that belong to no job
+ */
+export function runWithUserContext<T>(userId: number, fn: () => T): T {
+  return storage.run({ userId }, fn);
+}
+
+export function currentUsageJobId(): number | null {
+  const store = storage.getStore();
+  return store && "jobId" in store ? store.jobId : null;
+}
+
+/**
+ * Throw JOB_CANCELLED if the current job has been stopped
+ */
+export function assertJobActive(): void {
+  const jobId = currentUsageJobId();
+  if (jobId !== null && isJobCancelled(jobId)) {
+    throw new Error("JOB_CANCELLED");
+  }
+}
+
+export function recordUsage(usage: JobUsage): void {
+  const store = storage.getStore();
+  if (!store) return;
+  if ("jobId" in store) bufferJobUsage(store.jobId, usage);
+  else recordUserUsage(store.userId, usage);
+}
+
+export function recordLLMUsage(inputTokens: number, outputTokens: number, costUSD: number): void {
+  recordUsage({ costUSD, inputTokens, outputTokens });
+}
+
+/**
+ * Scraping cost of a Jina Reader response
+ */
+export function recordJinaUsage(contentChars: number): void {
+  recordUsage({ costUSD: (contentChars / 4) * JINA_COST_PER_1M_TOKENS / 1_000_000, inputTokens: 0, outputTokens: 0 });
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import type { AgentResult } from "../drizzle/schema";
+import { buildAgentOutput, directoryQueueItems, planAgentQueue } from "./agentResults";
+
+let nextId = 1;
+const row = (r: Partial<AgentResult> & Pick<AgentResult, "url" | "kind">): AgentResult => ({
+  id: nextId++,
+  jobId: 1,
+  urlHash: "",
+  companyName: null,
+  rowJson: null,
+  sourcesJson: null,
+  entriesJson: null,
+  createdAt: new Date(),
+  ...r,
+});
+
+const firm = (websiteUrl: string) => ({ companyName: websiteUrl, websiteUrl, description: "" });
+
+describe("planAgentQueue", () => {
+  it("should queue everything on a fresh job", () => {
+    const plan = planAgentQueue([firm("https://a.com"), firm("https://b.com")], []);
+    expect(plan.queue.map((f) => f.websiteUrl)).toEqual(["https://a.com", "https://b.com"]);
+    expect(plan.finishedCount).toBe(0);
+  });
+
+  it("should skip finished URLs, retry failed ones and re-queue unscraped directory entries", () => {
+    const entries = [
+      { name: "Acme", directoryUrl: "https://dir.com/acme", nativeUrl: "https://acme.com", objective: "Find CEO" },
+      { name: "Beta", directoryUrl: "https://dir.com/beta", objective: "Find CEO" },
+      { name: "Self", directoryUrl: "https://dir.com", objective: "Find CEO" },
+    ];
+    const plan = planAgentQueue(
+      [firm("https://dir.com"), firm("https://a.com"), firm("https://b.com"), firm("https://a.com")],
+      [
+        row({ url: "https://dir.com", kind: "directory", entriesJson: JSON.stringify(entries) }),
+        row({ url: "https://a.com", kind: "profile" }),
+        row({ url: "https://b.com", kind: "failed" }),
+        row({ url: "https://acme.com", kind: "profile" }),
+      ],
+    );
+    expect(plan.queue).toEqual([
+      firm("https://b.com"),
+      { companyName: "Beta", websiteUrl: "https://dir.com/beta", description: "Find CEO" },
+    ]);
+    expect(plan.finishedCount).toBe(3);
+    expect(plan.known.has("https://dir.com/beta")).toBe(true);
+  });
+
+  it("should not queue directory entries that link back to the directory page", () => {
+    expect(directoryQueueItems("https://dir.com", [{ name: "", directoryUrl: "https://dir.com", objective: "" }])).toEqual([]);
+  });
+});
+
+describe("buildAgentOutput", () => {
+  it("should rebuild rows, sources and collected URLs from stored results", () => {
+    const output = buildAgentOutput([
+      row({ url: "https://dir.com", kind: "directory", entriesJson: JSON.stringify([{ name: "Acme", directoryUrl: "https://dir.com/acme", objective: "x" }]) }),
+      row({ url: "https://a.com", kind: "profile", rowJson: JSON.stringify({ "Company Name": "A", ceo: "Ann" }), sourcesJson: JSON.stringify({ ceo: [{ url: "https://a.com/team", snippet: "Ann, CEO" }] }) }),
+      row({ url: "https://b.com", kind: "failed", rowJson: JSON.stringify({ "Company Name": "B", ceo: "" }) }),
+    ]);
+    expect(output.profileResults).toEqual([{ "Company Name": "A", ceo: "Ann" }, { "Company Name": "B", ceo: "" }]);
+    expect(output.profileSources).toEqual([{ ceo: [{ url: "https://a.com/team", snippet: "Ann, CEO" }] }, {}]);
+    expect(output.collectedUrls).toEqual([{ name: "Acme", directoryUrl: "https://dir.com/acme", nativeUrl: undefined }]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Agent Job Results
+ *
+ * processAgentJob stores every URL here as soon as it finishes — a profile row, a directory
+ * listing, or a failure — so nothing is lost when the job is paused, cancelled or the worker
+ * dies. Resuming replays the stored rows:
+ * - URLs with a profile or directory row are skipped (failed URLs are tried again)
+ * - entries of stored directory pages are queued again unless already scraped
+ * - the output workbook is rebuilt from the rows instead of in-memory results
+ *
+ * Rows are keyed by URL, so a job produces at most one row per URL.
+ */
+
+import { createHash } from "crypto";
+import { asc, eq } from "drizzle-orm";
+import { agentResults, type AgentResult } from "../drizzle/schema";
+import { getDb } from "./db";
+import type { DirectoryEntry, FieldSources } from "./agentScraper";
+import type { VCFirmInput } from "./excelProcessor";
+
+/** A discovered directory entry plus the objective its profile is scraped with */
+export interface QueuedDirectoryEntry extends DirectoryEntry {
+  objective: string;
+}
+
+export type AgentResultInput =
+  | { kind: "profile"; url: string; companyName: string; row: Record<string, string>; sources: FieldSources }
+  | { kind: "directory"; url: string; companyName: string; entries: QueuedDirectoryEntry[] }
+  | { kind: "failed"; url: string; companyName: string; row: Record<string, string> };
+
+export interface AgentQueuePlan {
+  queue: VCFirmInput[];
+  /** URLs already finished or queued — directory entries pointing at these aren't queued again */
+  known: Set<string>;
+  /** URLs finished by earlier runs */
+  finishedCount: number;
+}
+
+export interface AgentOutput {
+  profileResults: Array<Record<string, string>>;
+  profileSources: FieldSources[]; // index-aligned with profileResults
+  collectedUrls: DirectoryEntry[];
+}
+
+function hashUrl(url: string): string {
+  return createHash("sha256").update(url).digest("hex");
+}
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Queue items for the entries found on a directory page (entries linking back to the page are dropped)
+ */
+export function directoryQueueItems(directoryUrl: string, entries: QueuedDirectoryEntry[]): VCFirmInput[] {
+  const items: VCFirmInput[] = [];
+  for (const entry of entries) {
+    const target = entry.nativeUrl || entry.directoryUrl;
+    if (target && target !== directoryUrl) {
+      items.push({ companyName: entry.name || target, websiteUrl: target, description: entry.objective });
+    }
+  }
+  return items;
+}
+
+/**
+ * The work left for a job: input rows and directory entries that have no finished row yet
+ */
+export function planAgentQueue(firms: VCFirmInput[], rows: AgentResult[]): AgentQueuePlan {
+  const finished = rows.filter((r) => r.kind !== "failed");
+  const known = new Set(finished.map((r) => r.url));
+  const queue: VCFirmInput[] = [];
+
+  const add = (item: VCFirmInput) => {
+    if (known.has(item.websiteUrl)) return;
+    known.add(item.websiteUrl);
+    queue.push(item);
+  };
+
+  firms.forEach(add);
+  for (const row of finished) {
+    if (row.kind === "directory") {
+      directoryQueueItems(row.url, parseJson<QueuedDirectoryEntry[]>(row.entriesJson, [])).forEach(add);
+    }
+  }
+  return { queue, known, finishedCount: finished.length };
+}
+
+/**
+ * Rebuild the output workbook's inputs from stored rows (in completion order)
+ */
+export function buildAgentOutput(rows: AgentResult[]): AgentOutput {
+  const output: AgentOutput = { profileResults: [], profileSources: [], collectedUrls: [] };
+  for (const row of rows) {
+    if (row.kind === "directory") {
+      for (const { name, directoryUrl, nativeUrl } of parseJson<QueuedDirectoryEntry[]>(row.entriesJson, [])) {
+        output.collectedUrls.push({ name, directoryUrl, nativeUrl });
+      }
+    } else {
+      output.profileResults.push(parseJson<Record<string, string>>(row.rowJson, {}));
+      output.profileSources.push(parseJson<FieldSources>(row.sourcesJson, {}));
+    }
+  }
+  return output;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/**
+ * Store (or replace) the result for one URL of a job
+ */
+export async function saveAgentResult(jobId: number, result: AgentResultInput): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const values = {
+    companyName: result.companyName,
+    kind: result.kind,
+    rowJson: result.kind === "directory" ? null : JSON.stringify(result.row),
+    sourcesJson: result.kind === "profile" ? JSON.stringify(result.sources) : null,
+    entriesJson: result.kind === "directory" ? JSON.stringify(result.entries) : null,
+  };
+  await db.insert(agentResults)
+    .values({ jobId, url: result.url, urlHash: hashUrl(result.url), ...values })
+    .onDuplicateKeyUpdate({ set: values });
+}
+
+export async function getAgentResults(jobId: number): Promise<AgentResult[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(agentResults).where(eq(agentResults.jobId, jobId)).orderBy(asc(agentResults.id));
+}
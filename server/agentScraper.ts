@@ -7,11 +7,18 @@
  *   - PROFILE: input URL is an entity's own website → extracts user-defined fields + follows sub-links
  *
  * Builds on existing primitives: directoryExtractor, jinaFetcher, queuedLLMCall.
+ * Sections that declare a structured-data value (AgentSection.structured) are filled from the
+ * page's JSON-LD / microdata / OpenGraph when it has one, and never sent to the LLM (structuredData.ts).
  */
 
 import { fetchViaJina, fetchWebsiteContentHybrid } from "./jinaFetcher";
 import { extractDirectory, type DirectoryEntry as DirEntry } from "./directoryExtractor";
 import { queuedLLMCall } from "./_core/llmQueue";
+import { sectionValueSchema, stringifyFieldValue, type SectionType } from "./sectionTypes";
+import { extractStructuredData, fetchStructuredData, looksLikeHtml, prefillSections, type StructuredField } from "./structuredData";
+
+/** Pages are reused from the persistent page cache for a week (resumes + re-runs) */
+const PAGE_CACHE_TTL = 7 * 24 * 60 * 60;
 
 // ---------------------------------------------------------------------------
 // Types
@@ -21,6 +28,14 @@ export interface AgentSection {
   key: string;
   label: string;
   desc: string;
+  /** Value type used for the LLM schema and output validation (default "text") */
+  type?: SectionType;
+  /** Unit for number sections, e.g. "USD" or "employees" */
+  unit?: string;
+  /** Allowed values for enum sections */
+  options?: string[];
+  /** Structured-data value that answers this section, if any (see structuredData.ts prefillSections) */
+  structured?: StructuredField;
 }
 
 export interface DirectoryEntry {
@@ -35,9 +50,23 @@ export interface ScrapeStats {
   emptyFields: string[];
 }
 
+/** Where a field value came from: the page URL + the verbatim text it was read from */
+export interface FieldSource {
+  url: string;
+  snippet: string;
+}
+
+/** Section key → every page that contributed to that field's value */
+export type FieldSources = Record<string, FieldSource[]>;
+
 export type AgentScrapeResult =
   | { type: "directory"; entries: DirectoryEntry[] }
-  | { type: "profile"; data: Record<string, string>; stats: ScrapeStats };
+  | { type: "profile"; data: Record<string, string>; sources: FieldSources; stats: ScrapeStats };
+
+interface ProfileExtraction {
+  data: Record<string, string>;
+  sources: FieldSources;
+}
 
 type PageClass = "directory" | "directory-entry" | "profile";
 
@@ -83,6 +112,7 @@ Return ONLY valid JSON:
 
   try {
     const response = await queuedLLMCall({
+      task: "page_classification",
       messages: [{ role: "user", content: prompt }],
       temperature: 0,
       response_format: {
@@ -160,6 +190,7 @@ Return ONLY valid JSON: {"nativeUrl":"string or null"}`;
 
   try {
     const response = await queuedLLMCall({
+      task: "directory_extraction",
       messages: [{ role: "user", content: prompt }],
       temperature: 0,
       response_format: {
@@ -189,24 +220,58 @@ Return ONLY valid JSON: {"nativeUrl":"string or null"}`;
 // 3. Profile field extraction
 // ---------------------------------------------------------------------------
 
+const MAX_SNIPPET_LENGTH = 300;
+
+/**
+ * Return the snippet if it genuinely appears on the page (whitespace/case-insensitive),
+ * otherwise "" — paraphrased "evidence" is worse than none for an audit trail.
+ */
+export function verifySnippet(snippet: string, content: string): string {
+  const normalize = (t: string) => t.replace(/\s+/g, " ").trim().toLowerCase();
+  const needle = normalize(snippet);
+  if (!needle) return "";
+  if (!normalize(content).includes(needle)) return "";
+  const clean = snippet.replace(/\s+/g, " ").trim();
+  return clean.length > MAX_SNIPPET_LENGTH ? clean.slice(0, MAX_SNIPPET_LENGTH - 1) + "…" : clean;
+}
+
+function emptyExtraction(sections: AgentSection[]): ProfileExtraction {
+  const data: Record<string, string> = {};
+  for (const s of sections) data[s.key] = "";
+  return { data, sources: {} };
+}
+
 async function extractProfileFields(
   content: string,
   sections: AgentSection[],
   systemPrompt: string,
-): Promise<Record<string, string>> {
-  // Build per-section schema properties
-  const props: Record<string, { type: string; description: string }> = {};
+  pageUrl: string,
+): Promise<ProfileExtraction> {
+  // Build per-section schema properties: each field carries its value + verbatim evidence
+  const props: Record<string, unknown> = {};
   for (const s of sections) {
-    props[s.key] = { type: "string", description: `${s.label}: ${s.desc}` };
+    props[s.key] = {
+      type: "object",
+      description: `${s.label}: ${s.desc}`,
+      properties: {
+        value: sectionValueSchema(s),
+        evidence: { type: "string", description: "Exact sentence or phrase copied from the page that supports the value" },
+      },
+      required: ["value", "evidence"],
+      additionalProperties: false,
+    };
   }
 
   // Build a brief example from the first 2 sections so the LLM sees expected format
-  const exampleObj: Record<string, string> = {};
+  const exampleObj: Record<string, { value: string; evidence: string }> = {};
   for (const s of sections.slice(0, 2)) {
-    exampleObj[s.key] = `[extracted ${s.label.toLowerCase()} from page]`;
+    exampleObj[s.key] = {
+      value: `[extracted ${s.label.toLowerCase()} from page]`,
+      evidence: "[exact text copied from the page]",
+    };
   }
   for (const s of sections.slice(2)) {
-    exampleObj[s.key] = "";
+    exampleObj[s.key] = { value: "", evidence: "" };
   }
   const exampleJson = JSON.stringify(exampleObj, null, 2);
 
@@ -218,7 +283,9 @@ ${content.substring(0, 25000)}
 Extract each field about THIS company only (the entity being profiled on this page).
 Ignore client testimonials, reviewer names, case study client companies, partner logos, and any third-party content.
 Be specific and concrete — use actual data from the page, not summaries.
-If a field cannot be determined from the content, return an empty string "".
+For every value, set "evidence" to the exact text copied verbatim from the page content that supports it (max ~40 words).
+If a field cannot be determined from the content, return an empty value ("", or null/[] for number, yes/no and list fields) and an empty string "" for evidence.
+Typed fields must follow their schema: plain numbers without symbols or words, ISO dates, one of the allowed options, one list item per entry.
 
 Example output format:
 ${exampleJson}
@@ -227,6 +294,7 @@ Return ONLY valid JSON with these keys: ${sections.map((s) => s.key).join(", ")}
 
   try {
     const response = await queuedLLMCall({
+      task: "profile_extraction",
       messages: [{ role: "user", content: userMsg }],
       temperature: 0,
       response_format: {
@@ -247,20 +315,57 @@ Return ONLY valid JSON with these keys: ${sections.map((s) => s.key).join(", ")}
     const raw = response.choices[0]?.message?.content ?? "{}";
     const parsed = JSON.parse(typeof raw === "string" ? raw : "{}");
 
-    // Ensure all section keys are present
-    const result: Record<string, string> = {};
+    // Ensure all section keys are present; tolerate models that return bare strings
+    const result = emptyExtraction(sections);
     for (const s of sections) {
-      result[s.key] = String(parsed[s.key] ?? "");
+      const field = parsed[s.key];
+      const isWrapped = typeof field === "object" && field !== null && !Array.isArray(field);
+      result.data[s.key] = stringifyFieldValue(isWrapped ? field.value : field);
+      if (!result.data[s.key].trim()) continue;
+
+      const evidence = isWrapped ? String(field.evidence ?? "") : "";
+      result.sources[s.key] = [{ url: pageUrl, snippet: verifySnippet(evidence, content) }];
     }
     return result;
   } catch (err) {
     console.error("[agentScraper] extractProfileFields error:", err);
-    const empty: Record<string, string> = {};
-    for (const s of sections) empty[s.key] = "";
-    return empty;
+    return emptyExtraction(sections);
   }
 }
 
+/**
+ * Sections answered by the page's structured data, plus LLM extraction of the rest. Returns the
+ * merged extraction and the sections still left to the LLM (for sub-pages).
+ */
+async function extractWithStructuredData(
+  content: string,
+  format: "markdown" | "html",
+  sections: AgentSection[],
+  systemPrompt: string,
+  pageUrl: string,
+): Promise<{ extraction: ProfileExtraction; llmSections: AgentSection[] }> {
+  // Jina markdown has no <script>/<meta> tags — read the raw HTML for those, unless no section
+  // takes a structured value
+  const structured = !sections.some(s => s.structured)
+    ? null
+    : format === "html" || looksLikeHtml(content)
+      ? extractStructuredData(content, pageUrl)
+      : await fetchStructuredData(pageUrl);
+
+  const prefilled = structured ? prefillSections(sections, structured) : null;
+  const llmSections = sections.filter(s => !prefilled?.filled.has(s.key));
+  const base = emptyExtraction(sections);
+  const extraction = prefilled
+    ? { data: { ...base.data, ...prefilled.data }, sources: prefilled.sources }
+    : base;
+  if (prefilled?.filled.size) {
+    console.log(`[agentScraper] Structured data filled ${prefilled.filled.size}/${sections.length} field(s): ${Array.from(prefilled.filled).join(", ")}`);
+  }
+  if (llmSections.length === 0) return { extraction, llmSections };
+
+  return { extraction: mergeResults(extraction, await extractProfileFields(content, llmSections, systemPrompt, pageUrl)), llmSections };
+}
+
 // ---------------------------------------------------------------------------
 // 4. Link decision — which sub-links to follow
 // ---------------------------------------------------------------------------
@@ -315,6 +420,7 @@ Return ONLY valid JSON: {"shouldStop":boolean,"linksToFollow":["url1","url2"]}`;
 
   try {
     const response = await queuedLLMCall({
+      task: "page_classification",
       messages: [{ role: "user", content: prompt }],
       temperature: 0,
       response_format: {
@@ -353,16 +459,27 @@ Return ONLY valid JSON: {"shouldStop":boolean,"linksToFollow":["url1","url2"]}`;
 // ---------------------------------------------------------------------------
 
 function mergeResults(
-  base: Record<string, string>,
-  incoming: Record<string, string>,
-): Record<string, string> {
-  const merged = { ...base };
-  for (const [key, val] of Object.entries(incoming)) {
+  base: ProfileExtraction,
+  incoming: ProfileExtraction,
+): ProfileExtraction {
+  const merged = { ...base.data };
+  const sources: FieldSources = { ...base.sources };
+
+  // Record the incoming page as a source whenever it changed the field's value
+  const cite = (key: string) => {
+    const existing = sources[key] ?? [];
+    const additions = (incoming.sources[key] ?? []).filter(
+      src => !existing.some(e => e.url === src.url && e.snippet === src.snippet),
+    );
+    sources[key] = [...existing, ...additions];
+  };
+
+  for (const [key, val] of Object.entries(incoming.data)) {
     const incomingTrimmed = val?.trim() ?? "";
     const existingTrimmed = merged[key]?.trim() ?? "";
 
     if (!incomingTrimmed) continue; // incoming empty — keep existing
-    if (!existingTrimmed) { merged[key] = incomingTrimmed; continue; } // existing empty — use incoming
+    if (!existingTrimmed) { merged[key] = incomingTrimmed; cite(key); continue; } // existing empty — use incoming
 
     // Both have content — deduplicate before appending
     const existingLower = existingTrimmed.toLowerCase();
@@ -371,7 +488,7 @@ function mergeResults(
     // If incoming is a substring of existing, skip (already captured)
     if (existingLower.includes(incomingLower)) continue;
     // If existing is a substring of incoming, replace (incoming is more complete)
-    if (incomingLower.includes(existingLower)) { merged[key] = incomingTrimmed; continue; }
+    if (incomingLower.includes(existingLower)) { merged[key] = incomingTrimmed; cite(key); continue; }
 
     // Check individual semicolon-separated segments for duplicates
     const existingSegments = existingTrimmed.split(";").map(s => s.trim().toLowerCase());
@@ -381,9 +498,10 @@ function mergeResults(
 
     if (newSegments.length > 0) {
       merged[key] = `${existingTrimmed}; ${newSegments.join("; ")}`;
+      cite(key);
     }
   }
-  return merged;
+  return { data: merged, sources };
 }
 
 // ---------------------------------------------------------------------------
@@ -411,12 +529,12 @@ export async function scrapeUrl(
   let jinaResult = await fetchWebsiteContentHybrid(url, async () => {
     try {
       const { scrapeWebsite } = await import("./scraper");
-      const result = await scrapeWebsite({ url, cache: true, cacheTTL: 7 * 24 * 60 * 60, timeout: 45000 });
+      const result = await scrapeWebsite({ url, cache: true, cacheTTL: PAGE_CACHE_TTL, timeout: 45000 });
       return result.success ? result.text || result.html || null : null;
     } catch {
       return null;
     }
-  });
+  }, { cacheTTL: PAGE_CACHE_TTL });
 
   for (let attempt = 1; attempt < 3 && (!jinaResult.success || !jinaResult.content); attempt++) {
     const delay = 2000 * Math.pow(2, attempt - 1); // 2s, 4s
@@ -434,9 +552,8 @@ export async function scrapeUrl(
   if (!jinaResult.success || !jinaResult.content) {
     console.error(`[agentScraper] ❌ Both Jina and Puppeteer failed for: ${url}`);
     if (sections.length === 0) return { type: "directory", entries: [] };
-    const empty: Record<string, string> = {};
-    for (const s of sections) empty[s.key] = "";
-    return { type: "profile", data: empty, stats: { fieldsTotal: sections.length, fieldsFilled: 0, emptyFields: sections.map(s => s.key) } };
+    const empty = emptyExtraction(sections);
+    return { type: "profile", ...empty, stats: { fieldsTotal: sections.length, fieldsFilled: 0, emptyFields: sections.map(s => s.key) } };
   }
 
   if (jinaResult.source === "puppeteer") {
@@ -480,10 +597,11 @@ export async function scrapeUrl(
     }
 
     // Fallback: no native URL found — still return profile data (don't discard it)
-    let data: Record<string, string> = {};
+    let extraction: ProfileExtraction = { data: {}, sources: {} };
     if (sections.length > 0) {
-      data = await extractProfileFields(content, sections, systemPrompt);
+      ({ extraction } = await extractWithStructuredData(content, jinaResult.format, sections, systemPrompt, url));
     }
+    const { data, sources } = extraction;
     const emptyFields = sections.map(s => s.key).filter(k => !data[k] || data[k].trim() === "");
     const stats: ScrapeStats = {
       fieldsTotal: sections.length,
@@ -491,26 +609,26 @@ export async function scrapeUrl(
       emptyFields,
     };
     console.log(`[agentScraper] No native URL found, extracting directly (${stats.fieldsFilled}/${stats.fieldsTotal} fields)`);
-    return { type: "profile", data, stats };
+    return { type: "profile", data, sources, stats };
   }
 
   // ── PROFILE ────────────────────────────────────────────────────────────────
   if (sections.length === 0) {
-    return { type: "profile", data: {}, stats: { fieldsTotal: 0, fieldsFilled: 0, emptyFields: [] } };
+    return { type: "profile", data: {}, sources: {}, stats: { fieldsTotal: 0, fieldsFilled: 0, emptyFields: [] } };
   }
 
   const visitedUrls = new Set<string>([url]);
 
   if (isCancelled?.()) throw new Error('JOB_CANCELLED');
 
-  // Initial extraction from the homepage
-  let data = await extractProfileFields(content, sections, systemPrompt);
+  // Initial extraction from the homepage — structured data first, the LLM for the rest
+  let { extraction, llmSections } = await extractWithStructuredData(content, jinaResult.format, sections, systemPrompt, url);
   let currentContent = content;
 
   for (let hop = 0; hop < maxHops; hop++) {
     if (isCancelled?.()) throw new Error('JOB_CANCELLED');
     const decision = await decideNextLinks(
-      data,
+      extraction.data,
       sections,
       currentContent,
       objective,
@@ -532,18 +650,20 @@ export async function scrapeUrl(
       const subResult = await fetchWebsiteContentHybrid(link, async () => {
         try {
           const { scrapeWebsite } = await import("./scraper");
-          const r = await scrapeWebsite({ url: link, cache: true, cacheTTL: 7 * 24 * 60 * 60, timeout: 30000 });
+          const r = await scrapeWebsite({ url: link, cache: true, cacheTTL: PAGE_CACHE_TTL, timeout: 30000 });
           return r.success ? r.text || r.html || null : null;
         } catch { return null; }
-      });
+      }, { cacheTTL: PAGE_CACHE_TTL });
       if (!subResult?.success || !subResult.content) continue;
 
       currentContent = subResult.content; // use last fetched page for next link decision
-      const subData = await extractProfileFields(subResult.content, sections, systemPrompt);
-      data = mergeResults(data, subData);
+      if (llmSections.length === 0) continue;
+      const subExtraction = await extractProfileFields(subResult.content, llmSections, systemPrompt, link);
+      extraction = mergeResults(extraction, subExtraction);
     }
   }
 
+  const { data, sources } = extraction;
   const emptyFields = sections.map(s => s.key).filter(k => !data[k] || data[k].trim() === "");
   const stats: ScrapeStats = {
     fieldsTotal: sections.length,
@@ -551,5 +671,5 @@ export async function scrapeUrl(
     emptyFields,
   };
   console.log(`[agentScraper] Profile extracted (${visitedUrls.size} pages visited, ${stats.fieldsFilled}/${stats.fieldsTotal} fields filled)`);
-  return { type: "profile", data, stats };
+  return { type: "profile", data, sources, stats };
 }
@@ -0,0 +1,97 @@
+/**
+ * Tests for per-field source citations in the agentic scraper
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./_core/llmQueue", () => ({
+  queuedLLMCall: vi.fn(),
+}));
+
+vi.mock("./jinaFetcher", () => ({
+  fetchViaJina: vi.fn(),
+  fetchWebsiteContentHybrid: vi.fn(),
+}));
+
+import { scrapeUrl, verifySnippet, type AgentSection } from "./agentScraper";
+import { queuedLLMCall } from "./_core/llmQueue";
+import { fetchWebsiteContentHybrid } from "./jinaFetcher";
+import { createAgentOutputExcel } from "./excelProcessor";
+import * as XLSX from "xlsx";
+
+const mockLLM = vi.mocked(queuedLLMCall);
+const mockFetch = vi.mocked(fetchWebsiteContentHybrid);
+
+const llmReply = (payload: unknown) => ({
+  id: "x",
+  created: 0,
+  model: "test",
+  choices: [{ index: 0, message: { role: "assistant" as const, content: JSON.stringify(payload) }, finish_reason: "stop" }],
+});
+
+const PAGE = `Acme Capital is a seed-stage venture firm.
+We were founded in   2012 and are headquartered in Austin, Texas.
+Our team backs developer tools and fintech companies.`;
+
+const sections: AgentSection[] = [
+  { key: "founded", label: "Founded", desc: "Year founded" },
+  { key: "hq", label: "Headquarters", desc: "HQ city" },
+];
+
+describe("verifySnippet", () => {
+  it("should keep snippets that appear verbatim (ignoring whitespace and case)", () => {
+    expect(verifySnippet("founded in 2012", PAGE)).toBe("founded in 2012");
+    expect(verifySnippet("HEADQUARTERED IN AUSTIN", PAGE)).toBe("HEADQUARTERED IN AUSTIN");
+  });
+
+  it("should drop paraphrased evidence", () => {
+    expect(verifySnippet("established in 2012", PAGE)).toBe("");
+    expect(verifySnippet("", PAGE)).toBe("");
+  });
+});
+
+describe("scrapeUrl source citations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should attach the page URL and evidence snippet to each filled field", async () => {
+    mockFetch.mockResolvedValue({ success: true, content: PAGE, format: "markdown", source: "jina", duration: 1 });
+    mockLLM
+      .mockResolvedValueOnce(llmReply({ type: "profile", entityLabel: "VC firms", reasoning: "own site" }))
+      .mockResolvedValueOnce(llmReply({
+        founded: { value: "2012", evidence: "founded in 2012" },
+        hq: { value: "Austin, TX", evidence: "based in Austin" },
+      }));
+
+    const result = await scrapeUrl("https://acme.vc", "Find firm facts", sections, "Extract fields");
+
+    expect(result.type).toBe("profile");
+    if (result.type !== "profile") return;
+    expect(result.data).toEqual({ founded: "2012", hq: "Austin, TX" });
+    expect(result.sources.founded).toEqual([{ url: "https://acme.vc", snippet: "founded in 2012" }]);
+    // Evidence not found on the page is discarded but the source URL is kept
+    expect(result.sources.hq).toEqual([{ url: "https://acme.vc", snippet: "" }]);
+  });
+
+  it("should write a Sources sheet from the collected citations", () => {
+    const buffer = createAgentOutputExcel(
+      sections,
+      [{ "Company Name": "Acme", "Website": "https://acme.vc", founded: "2012", hq: "" }],
+      [],
+      [{ founded: [{ url: "https://acme.vc/about", snippet: "founded in 2012" }] }],
+    );
+
+    const workbook = XLSX.read(buffer, { type: "buffer" });
+    expect(workbook.SheetNames).toContain("Sources");
+    const rows = XLSX.utils.sheet_to_json<Record<string, string>>(workbook.Sheets["Sources"]);
+    expect(rows).toEqual([{
+      "Company Name": "Acme",
+      "Website": "https://acme.vc",
+      "Field": "Founded",
+      "Value": "2012",
+      "Source URL": "https://acme.vc/about",
+      "Evidence": "founded in 2012",
+    }]);
+  });
+});
@@ -0,0 +1,333 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import type { EnrichedFirm, PortfolioCompany } from "../drizzle/schema";
+import {
+  agentResultsTable,
+  buildAgentAnalyticsDataset,
+  createAnalyticsExport,
+  firmRow,
+  portfolioCompanyRow,
+  splitList,
+  toIsoDate,
+  toJsonLines,
+  VC_TABLES,
+} from "./analyticsExport";
+import { createAgentOutputExcel } from "./excelProcessor";
+import { writeParquet } from "./parquetWriter";
+
+function unzip(buffer: Buffer): Record<string, Buffer> {
+  const archive = XLSX.CFB.read(buffer, { type: "buffer" });
+  const files: Record<string, Buffer> = {};
+  archive.FileIndex.forEach((entry: { name: string; type: number; content: Uint8Array }) => {
+    if (entry.type === 2 && /\.(jsonl|parquet|json)$/.test(entry.name)) files[entry.name] = Buffer.from(entry.content);
+  });
+  return files;
+}
+
+// ---------------------------------------------------------------------------
+// Parquet reader for the tests — decodes what parquetWriter.ts emits (Thrift compact footer,
+// uncompressed PLAIN data pages with RLE levels) independently of the writer's code
+// ---------------------------------------------------------------------------
+
+type ThriftFields = Record<number, any>;
+
+class CompactReader {
+  constructor(private buf: Buffer, public pos = 0) {}
+
+  varint(): number {
+    let result = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.buf[this.pos++];
+      result += (byte & 0x7f) * scale;
+      if (byte < 0x80) return result;
+      scale *= 0x80;
+    }
+  }
+
+  zigzag(): number {
+    const n = this.varint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  }
+
+  struct(): ThriftFields {
+    const fields: ThriftFields = {};
+    let lastId = 0;
+    for (;;) {
+      const header = this.buf[this.pos++];
+      if (header === 0) return fields;
+      const delta = header >> 4;
+      const id = delta ? lastId + delta : this.zigzag();
+      fields[id] = this.value(header & 0x0f);
+      lastId = id;
+    }
+  }
+
+  private value(type: number): any {
+    switch (type) {
+      case 1: return true;
+      case 2: return false;
+      case 5:
+      case 6: return this.zigzag();
+      case 8: {
+        const length = this.varint();
+        const text = this.buf.toString("utf-8", this.pos, this.pos + length);
+        this.pos += length;
+        return text;
+      }
+      case 9: {
+        const header = this.buf[this.pos++];
+        const size = header >> 4 === 15 ? this.varint() : header >> 4;
+        return Array.from({ length: size }, () => this.value(header & 0x0f));
+      }
+      case 12: return this.struct();
+      default: throw new Error(`Unexpected Thrift compact type ${type}`);
+    }
+  }
+}
+
+/** Levels of a data page v1: 4-byte length, then RLE runs (bit-packed runs aren't written) */
+function readLevels(buf: Buffer, pos: number, count: number, bitWidth: number): { levels: number[]; end: number } {
+  const end = pos + 4 + buf.readUInt32LE(pos);
+  const reader = new CompactReader(buf, pos + 4);
+  const levels: number[] = [];
+  while (levels.length < count) {
+    const header = reader.varint();
+    if (header & 1) throw new Error("Bit-packed levels not expected");
+    const valueBytes = Math.ceil(bitWidth / 8);
+    const value = buf.readUIntLE(reader.pos, valueBytes);
+    reader.pos += valueBytes;
+    for (let i = 0; i < header >> 1; i++) levels.push(value);
+  }
+  expect(reader.pos).toBe(end);
+  return { levels, end };
+}
+
+function readPlain(buf: Buffer, pos: number, physicalType: number, count: number): unknown[] {
+  const values: unknown[] = [];
+  for (let i = 0; i < count; i++) {
+    switch (physicalType) {
+      case 0: values.push(((buf[pos + (i >> 3)] >> (i & 7)) & 1) === 1); break;
+      case 1: values.push(buf.readInt32LE(pos)); pos += 4; break;
+      case 2: values.push(Number(buf.readBigInt64LE(pos))); pos += 8; break;
+      case 5: values.push(buf.readDoubleLE(pos)); pos += 8; break;
+      default: {
+        const length = buf.readUInt32LE(pos);
+        values.push(buf.toString("utf-8", pos + 4, pos + 4 + length));
+        pos += 4 + length;
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * File metadata plus the rows, one object per row keyed by top-level column name
+ */
+function readParquet(file: Buffer): { metadata: ThriftFields; rows: Record<string, unknown>[] } {
+  expect(file.subarray(0, 4).toString()).toBe("PAR1");
+  expect(file.subarray(-4).toString()).toBe("PAR1");
+  const footerLength = file.readUInt32LE(file.length - 8);
+  const metadata = new CompactReader(file, file.length - 8 - footerLength).struct();
+
+  const numRows: number = metadata[3];
+  const rows: Record<string, unknown>[] = Array.from({ length: numRows }, () => ({}));
+  for (const chunk of metadata[4][0][1] as ThriftFields[]) {
+    const meta = chunk[3];
+    const path: string[] = meta[3];
+    const isList = path.length === 3;
+    const reader = new CompactReader(file, meta[9]);
+    const page = reader.struct();
+    expect(page[1]).toBe(0); // DATA_PAGE
+    const count: number = page[5][1];
+    expect(count).toBe(meta[5]);
+
+    let pos = reader.pos;
+    let repetition: number[] = [];
+    if (isList) ({ levels: repetition, end: pos } = readLevels(file, pos, count, 1));
+    const { levels: definition, end } = readLevels(file, pos, count, isList ? 2 : 1);
+    const maxDefinition = isList ? 2 : 1;
+    const values = readPlain(file, end, meta[1], definition.filter((d) => d === maxDefinition).length);
+
+    let row = -1;
+    let next = 0;
+    definition.forEach((d, i) => {
+      if (!isList || repetition[i] === 0) row++;
+      const value = d === maxDefinition ? values[next++] : null;
+      if (!isList) rows[row][path[0]] = value;
+      else if (d === 0) rows[row][path[0]] = null;
+      else if (repetition[i] === 0) rows[row][path[0]] = d === 1 ? [] : [value];
+      else (rows[row][path[0]] as unknown[]).push(value);
+    });
+    expect(row).toBe(numRows - 1);
+  }
+  return { metadata, rows };
+}
+
+const firm: EnrichedFirm = {
+  id: 11,
+  jobId: 3,
+  companyName: "Acme Ventures",
+  websiteUrl: "https://acme.vc",
+  description: null,
+  websiteVerified: "Yes",
+  verificationMessage: "",
+  investorType: "Venture Capital, Corporate VC",
+  investorTypeConfidence: 90,
+  investorTypeSourceUrl: null,
+  investmentStages: "Seed, Series A",
+  investmentStagesConfidence: 60,
+  investmentStagesSourceUrl: null,
+  investmentNiches: "Not specified",
+  nichesConfidence: 30,
+  nichesSourceUrl: null,
+  investmentThesis: null,
+  aum: "$1.2B",
+  sectorFocus: '["Fintech","Climate, Energy"]',
+  geographicFocus: null,
+  foundedYear: "Founded in 2009",
+  headquarters: "Boston, MA",
+  firmEntityId: null,
+  reusedFromFirmId: null,
+  createdAt: new Date("2025-01-31T09:30:00Z"),
+};
+
+describe("row mapping", () => {
+  it("should type firm columns: arrays, ints, booleans and UTC timestamps", () => {
+    const row = firmRow(firm);
+    expect(row).toMatchObject({
+      firm_id: 11,
+      website_verified: true,
+      verification_message: null,
+      investor_types: ["Venture Capital", "Corporate VC"],
+      investment_stages_confidence: 60,
+      investment_niches: null,
+      sector_focus: ["Fintech", "Climate, Energy"],
+      founded_year: 2009,
+      created_at: "2025-01-31T09:30:00.000Z",
+    });
+    expect(Object.keys(row)).toEqual(VC_TABLES.firms.columns.map((c) => c.name));
+  });
+
+  it("should turn partial dates and High/Medium/Low confidence into typed values", () => {
+    expect(toIsoDate("March 2021")).toBe("2021-03-01");
+    expect(toIsoDate("2019")).toBe("2019-01-01");
+    expect(toIsoDate("Unknown")).toBeNull();
+    expect(splitList("A (Partner, Fund I); B (Principal)", ";")).toEqual(["A (Partner, Fund I)", "B (Principal)"]);
+
+    const row = portfolioCompanyRow({
+      id: 5, jobId: 3, firmId: 11, vcFirm: "Acme Ventures", portfolioCompany: "Globex",
+      investmentDate: "2023-06", websiteUrl: null, investmentNiche: "SaaS, AI", dataSourceUrl: null,
+      confidenceScore: "High", recencyScore: 80, recencyCategory: "Recent", createdAt: new Date(0),
+    } satisfies PortfolioCompany);
+    expect(row).toMatchObject({ investment_date: "2023-06-01", investment_niches: ["SaaS", "AI"], confidence_score: 90 });
+    expect(toJsonLines(VC_TABLES.portfolio_companies, [row]).split("\n")[0]).toMatch(/^\{"job_id":3,"portfolio_company_id":5,/);
+  });
+});
+
+describe("agent results", () => {
+  it("should type section columns from the section types", () => {
+    const sections = [
+      { key: "fundSize", label: "Fund Size", desc: "Latest fund", type: "number" as const, unit: "USD" },
+      { key: "sectors", label: "Sectors", desc: "", type: "list" as const },
+      { key: "hiring", label: "Hiring", desc: "", type: "boolean" as const },
+      { key: "notes", label: "Notes", desc: "" },
+    ];
+    expect(agentResultsTable(sections).columns.map((c) => `${c.name}:${c.type}`)).toEqual([
+      "job_id:int", "company_name:string", "website:string",
+      "fund_size:double", "sectors:string[]", "hiring:boolean", "notes:string",
+    ]);
+
+    const workbook = XLSX.read(createAgentOutputExcel(sections, [
+      { "Company Name": "Acme", "Website": "https://acme.com", fundSize: "50000000", sectors: "Fintech; Health", hiring: "Yes", notes: "" },
+    ], []), { type: "buffer" });
+    const { tables } = buildAgentAnalyticsDataset(workbook, sections, 9);
+    expect(tables[0].rows).toEqual([
+      { job_id: 9, company_name: "Acme", website: "https://acme.com", fund_size: 50000000, sectors: ["Fintech", "Health"], hiring: true, notes: null },
+    ]);
+  });
+});
+
+describe("createAnalyticsExport", () => {
+  it("should zip one file per table with schema.json listing every table", () => {
+    const dataset = { tables: [
+      { table: VC_TABLES.firms, rows: [firmRow(firm)] },
+      { table: VC_TABLES.team_members, rows: [] },
+    ] };
+
+    const jsonl = unzip(createAnalyticsExport(dataset, "jsonl", "vc-enrichment-export-3").buffer);
+    // An empty JSON Lines file is zero bytes, which the ZIP writer leaves out
+    expect(Object.keys(jsonl).sort()).toEqual(["firms.jsonl", "schema.json"]);
+    expect(JSON.parse(jsonl["firms.jsonl"].toString("utf-8").trim()).investor_types).toEqual(["Venture Capital", "Corporate VC"]);
+    const schema = JSON.parse(jsonl["schema.json"].toString("utf-8"));
+    expect(schema.schemaVersion).toBe(1);
+    expect(schema.tables.map((t: { name: string; rowCount: number }) => `${t.name}:${t.rowCount}`)).toEqual(["firms:1", "team_members:0"]);
+
+    const { buffer, filename } = createAnalyticsExport(dataset, "parquet", "vc-enrichment-export-3");
+    expect(filename).toBe("vc-enrichment-export-3-parquet.zip");
+    const files = unzip(buffer);
+    expect(Object.keys(files).sort()).toEqual(["firms.parquet", "schema.json", "team_members.parquet"]);
+    const parquet = files["firms.parquet"];
+    expect(parquet.subarray(0, 4).toString()).toBe("PAR1");
+    expect(parquet.subarray(-4).toString()).toBe("PAR1");
+  });
+
+  it("should write the Parquet footer with every column and the key-value metadata", () => {
+    const file = writeParquet([{ name: "name", type: "string" }, { name: "tags", type: "string[]" }], [
+      { name: "a", tags: ["x", "y"] },
+      { name: null, tags: null },
+    ], { "analytics.table": "t" });
+    const footerLength = file.readUInt32LE(file.length - 8);
+    const footer = file.subarray(file.length - 8 - footerLength, file.length - 8).toString("latin1");
+    expect(footer).toContain("name");
+    expect(footer).toContain("element");
+    expect(footer).toContain("analytics.table");
+    // Data pages hold the PLAIN-encoded strings
+    expect(file.subarray(4, file.length - 8 - footerLength).toString("latin1")).toMatch(/a[\s\S]*x[\s\S]*y/);
+  });
+
+  it("should decode back to the schema, row count and values that were written", () => {
+    const file = writeParquet([
+      { name: "name", type: "string" },
+      { name: "count", type: "int" },
+      { name: "score", type: "double" },
+      { name: "active", type: "boolean" },
+      { name: "seen_at", type: "timestamp" },
+      { name: "founded", type: "date" },
+      { name: "tags", type: "string[]" },
+    ], [
+      { name: "Acme Ventures", count: 12, score: 0.75, active: true, seen_at: new Date("2024-03-01T12:00:00Z"), founded: "2012-05-04", tags: ["fintech", "ai"] },
+      { name: null, count: "n/a", score: null, active: false, seen_at: "not a date", founded: null, tags: [] },
+      { name: "Ünïcode Capital", count: -3, score: 1e9, active: undefined, seen_at: null, founded: new Date("1970-01-02T00:00:00Z"), tags: null },
+    ], { "analytics.table": "firms" });
+
+    const { metadata, rows } = readParquet(file);
+    expect(metadata[1]).toBe(1); // format version
+    expect(metadata[3]).toBe(3);
+    expect(metadata[4]).toHaveLength(1);
+    expect(metadata[4][0][3]).toBe(3);
+    expect(metadata[5]).toEqual([{ 1: "analytics.table", 2: "firms" }]);
+    expect(metadata[6]).toMatch(/parquetWriter/);
+
+    // Schema: name, physical type, repetition, converted type
+    expect((metadata[2] as ThriftFields[]).map((e) => [e[4], e[1], e[3], e[6]])).toEqual([
+      ["schema", undefined, undefined, undefined],
+      ["name", 6, 1, 0],
+      ["count", 1, 1, undefined],
+      ["score", 5, 1, undefined],
+      ["active", 0, 1, undefined],
+      ["seen_at", 2, 1, 9],
+      ["founded", 1, 1, 6],
+      ["tags", undefined, 1, 3],
+      ["list", undefined, 2, undefined],
+      ["element", 6, 0, 0],
+    ]);
+    expect(metadata[2][0][5]).toBe(7);
+
+    expect(rows).toEqual([
+      { name: "Acme Ventures", count: 12, score: 0.75, active: true, seen_at: Date.parse("2024-03-01T12:00:00Z"), founded: 15464, tags: ["fintech", "ai"] },
+      { name: null, count: null, score: null, active: false, seen_at: null, founded: null, tags: [] },
+      { name: "Ünïcode Capital", count: -3, score: 1e9, active: null, seen_at: null, founded: 1, tags: null },
+    ]);
+  });
+});
@@ -0,0 +1,485 @@
+/**
+ * Analytics Export (JSON Lines / Parquet)
+ *
+ * Results in a stable, typed shape for loading into a warehouse, as a ZIP with one file per
+ * table plus schema.json:
+ * - VC jobs: firms, team_members, portfolio_companies, investment_thesis
+ * - Agent jobs: agent_results, one column per section typed from the section's value type
+ *
+ * Unlike the XLSX / CSV exports, columns are snake_case and typed: confidence scores are ints,
+ * dates are ISO dates, timestamps are UTC, lists are arrays instead of comma-joined strings and
+ * "Not specified" placeholders are null. The schema is documented in ANALYTICS_EXPORT.md; bump
+ * ANALYTICS_SCHEMA_VERSION on any breaking change to it.
+ */
+
+import * as XLSX from "xlsx";
+import type { EnrichedFirm, InvestmentThesis, PortfolioCompany, TeamMember } from "../drizzle/schema";
+import { createZipArchive } from "./csvExporter";
+import { writeParquet, type ParquetColumnType, type ParquetValue } from "./parquetWriter";
+import { normalizeSectionValue, sectionColumnLabel } from "./sectionTypes";
+import type { AgentSection } from "./agentScraper";
+
+export const ANALYTICS_SCHEMA_VERSION = 1;
+
+export type AnalyticsFormat = "jsonl" | "parquet";
+
+export interface AnalyticsColumn {
+  name: string;
+  type: ParquetColumnType;
+  description: string;
+}
+
+export interface AnalyticsTable {
+  name: string;
+  description: string;
+  columns: AnalyticsColumn[];
+}
+
+/** Typed row: timestamps as ISO strings, dates as "YYYY-MM-DD", empty values as null */
+export type AnalyticsRow = Record<string, string | number | boolean | string[] | null>;
+
+export interface AnalyticsDataset {
+  tables: Array<{ table: AnalyticsTable; rows: AnalyticsRow[] }>;
+}
+
+function column(name: string, type: ParquetColumnType, description: string): AnalyticsColumn {
+  return { name, type, description };
+}
+
+const JOB_ID = column("job_id", "int", "Enrichment job the row was produced by");
+const FIRM_ID = column("firm_id", "int", "firms.firm_id of the firm the row belongs to");
+const CREATED_AT = column("created_at", "timestamp", "When the row was saved (UTC)");
+
+export const VC_TABLES = {
+  firms: {
+    name: "firms",
+    description: "One row per input firm",
+    columns: [
+      JOB_ID,
+      column("firm_id", "int", "Firm id, unique across jobs"),
+      column("firm_entity_id", "int", "Canonical firm across jobs (same website domain); null without a website"),
+      column("company_name", "string", "Firm name as given in the input file"),
+      column("website_url", "string", "Firm website"),
+      column("description", "string", "Description from the input file"),
+      column("website_verified", "boolean", "Whether the website was reachable and matched the firm"),
+      column("verification_message", "string", "Why the website was (not) verified"),
+      column("investor_types", "string[]", "Investor types, e.g. [\"Venture Capital\", \"Corporate VC\"]"),
+      column("investor_type_confidence", "int", "Confidence in investor_types: 90 high, 60 medium, 30 low"),
+      column("investor_type_source_url", "string", "Page investor_types was taken from"),
+      column("investment_stages", "string[]", "Investment stages, e.g. [\"Seed\", \"Series A\"]"),
+      column("investment_stages_confidence", "int", "Confidence in investment_stages: 90 high, 60 medium, 30 low"),
+      column("investment_stages_source_url", "string", "Page investment_stages was taken from"),
+      column("investment_niches", "string[]", "Investment niches, e.g. [\"Fintech\", \"Healthcare\"]"),
+      column("niches_confidence", "int", "Confidence in investment_niches: 90 high, 60 medium, 30 low"),
+      column("niches_source_url", "string", "Page investment_niches was taken from"),
+      column("investment_thesis", "string", "Investment philosophy / mandate"),
+      column("aum", "string", "Assets under management as stated, e.g. \"$90B\""),
+      column("sector_focus", "string[]", "Detailed sector list"),
+      column("geographic_focus", "string[]", "Geographic preferences"),
+      column("founded_year", "int", "Year the firm was founded"),
+      column("headquarters", "string", "Headquarters location"),
+      CREATED_AT,
+    ],
+  },
+  team_members: {
+    name: "team_members",
+    description: "One row per person found on a firm's website",
+    columns: [
+      JOB_ID,
+      column("team_member_id", "int", "Team member id, unique across jobs"),
+      FIRM_ID,
+      column("person_entity_id", "int", "Canonical person across jobs; null when the firm has no website"),
+      column("vc_firm", "string", "Firm name"),
+      column("name", "string", "Full name"),
+      column("title", "string", "Job title"),
+      column("job_function", "string", "Job function category"),
+      column("specialization", "string", "Specialization"),
+      column("linkedin_url", "string", "LinkedIn profile URL"),
+      column("email", "string", "Email address"),
+      column("email_pattern", "string", "Firm email pattern the address follows (first.last, flast, ...)"),
+      column("email_confidence", "int", "Email confidence, 0-100"),
+      column("email_verification", "string", "valid, invalid, catch_all, unknown, no_mx or unverified"),
+      column("portfolio_companies", "string[]", "Portfolio companies associated with the person"),
+      column("investment_focus", "string", "Sectors / areas the person invests in"),
+      column("stage_preference", "string", "Preferred investment stages"),
+      column("check_size_range", "string", "Typical check size as stated, e.g. \"$500K-$5M\""),
+      column("geographic_focus", "string", "Geographic preferences"),
+      column("investment_thesis", "string", "Personal investment philosophy"),
+      column("notable_investments", "string[]", "Key investments / board seats"),
+      column("years_experience", "string", "Years in VC / investing as stated"),
+      column("background", "string", "Professional background before VC"),
+      column("data_source_url", "string", "Page the person was found on"),
+      column("confidence_score", "int", "Extraction confidence, 0-100"),
+      column("decision_maker_tier", "string", "\"Tier 1\", \"Tier 2\" or \"Tier 3\""),
+      column("tier_priority", "int", "Sort priority of the tier, 1 = highest"),
+      CREATED_AT,
+    ],
+  },
+  portfolio_companies: {
+    name: "portfolio_companies",
+    description: "One row per portfolio company found on a firm's website",
+    columns: [
+      JOB_ID,
+      column("portfolio_company_id", "int", "Portfolio company id, unique across jobs"),
+      FIRM_ID,
+      column("vc_firm", "string", "Firm name"),
+      column("portfolio_company", "string", "Company name"),
+      column("investment_date", "date", "Investment date; a year or month alone is stored as its first day"),
+      column("website_url", "string", "Company website"),
+      column("investment_niches", "string[]", "Niches of the company"),
+      column("data_source_url", "string", "Page the company was found on"),
+      column("confidence_score", "int", "Extraction confidence: 90 high, 60 medium, 30 low"),
+      column("recency_score", "int", "How recent the investment is, 0-100"),
+      column("recency_category", "string", "\"Very Recent\", \"Recent\", \"Moderate\" or \"Old\""),
+      CREATED_AT,
+    ],
+  },
+  investment_thesis: {
+    name: "investment_thesis",
+    description: "One generated investment thesis summary per firm",
+    columns: [
+      JOB_ID,
+      FIRM_ID,
+      column("vc_firm", "string", "Firm name"),
+      column("website_url", "string", "Firm website"),
+      column("investor_types", "string[]", "Investor types"),
+      column("primary_focus_areas", "string[]", "Top investment niches"),
+      column("emerging_interests", "string[]", "Niches of recent investments"),
+      column("preferred_stages", "string[]", "Preferred investment stages"),
+      column("average_check_size", "string", "Estimated average check size"),
+      column("recent_investment_pace", "string", "Estimated investment pace"),
+      column("key_decision_makers", "string[]", "Tier 1 people as \"Name (Title)\""),
+      column("total_team_size", "int", "Number of team members found"),
+      column("tier1_count", "int", "Number of Tier 1 team members"),
+      column("tier2_count", "int", "Number of Tier 2 team members"),
+      column("portfolio_size", "int", "Number of portfolio companies found"),
+      column("recent_portfolio_count", "int", "Portfolio companies invested in over the last six months"),
+      column("talking_points", "string[]", "Outreach talking points"),
+      CREATED_AT,
+    ],
+  },
+} satisfies Record<string, AnalyticsTable>;
+
+// ---------------------------------------------------------------------------
+// Value conversion
+// ---------------------------------------------------------------------------
+
+const PLACEHOLDERS = new Set(["", "not specified", "not identified", "unknown", "n/a", "none"]);
+
+function text(value: string | null | undefined): string | null {
+  const trimmed = (value ?? "").trim();
+  return PLACEHOLDERS.has(trimmed.toLowerCase()) ? null : trimmed;
+}
+
+/**
+ * Stored list → array. Accepts JSON arrays ("[\"a\",\"b\"]") and joined strings; splits on
+ * semicolons when there are any (entries may contain commas), commas otherwise.
+ */
+export function splitList(value: string | null | undefined, separator?: string | RegExp): string[] | null {
+  const raw = (value ?? "").trim();
+  if (text(raw) === null) return null;
+  if (raw.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) return parsed.map((v) => String(v).trim()).filter((v) => text(v) !== null);
+    } catch {
+      // Not JSON after all — split it as text
+    }
+  }
+  const parts = raw.split(separator ?? (raw.includes(";") ? ";" : ","));
+  return parts.map((p) => p.trim()).filter((p) => text(p) !== null);
+}
+
+/**
+ * "2021", "March 2021", "2021-03-15" → "2021-01-01", "2021-03-01", "2021-03-15"
+ */
+export function toIsoDate(value: string | null | undefined): string | null {
+  const raw = text(value);
+  if (!raw) return null;
+  const normalized = normalizeSectionValue({ key: "date", label: "Date", desc: "", type: "date" }, raw);
+  if (normalized.error) return null;
+  const [year, month = "01", day = "01"] = normalized.value.split("-");
+  return `${year}-${month}-${day}`;
+}
+
+function toTimestamp(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function toYear(value: string | null | undefined): number | null {
+  const match = (value ?? "").match(/\b(1[6-9]\d\d|20\d\d)\b/);
+  return match ? Number(match[1]) : null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const raw = String(value ?? "").trim();
+  if (!raw) return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  const raw = String(value ?? "").trim().toLowerCase();
+  if (["yes", "true", "1"].includes(raw)) return true;
+  if (["no", "false", "0"].includes(raw)) return false;
+  return null;
+}
+
+/** "High" / "Medium" / "Low" → 90 / 60 / 30, the scale enrichedFirms uses */
+function toConfidence(value: string | number | null | undefined): number | null {
+  if (typeof value === "number") return value;
+  const raw = (value ?? "").trim().toLowerCase();
+  if (raw === "high") return 90;
+  if (raw === "medium") return 60;
+  if (raw === "low") return 30;
+  const n = toNumber(raw);
+  return n === null ? null : Math.round(n);
+}
+
+// ---------------------------------------------------------------------------
+// Row mapping
+// ---------------------------------------------------------------------------
+
+export function firmRow(firm: EnrichedFirm): AnalyticsRow {
+  return {
+    job_id: firm.jobId,
+    firm_id: firm.id,
+    firm_entity_id: firm.firmEntityId,
+    company_name: firm.companyName,
+    website_url: text(firm.websiteUrl),
+    description: text(firm.description),
+    website_verified: toBoolean(firm.websiteVerified),
+    verification_message: text(firm.verificationMessage),
+    investor_types: splitList(firm.investorType),
+    investor_type_confidence: firm.investorTypeConfidence,
+    investor_type_source_url: text(firm.investorTypeSourceUrl),
+    investment_stages: splitList(firm.investmentStages),
+    investment_stages_confidence: firm.investmentStagesConfidence,
+    investment_stages_source_url: text(firm.investmentStagesSourceUrl),
+    investment_niches: splitList(firm.investmentNiches),
+    niches_confidence: firm.nichesConfidence,
+    niches_source_url: text(firm.nichesSourceUrl),
+    investment_thesis: text(firm.investmentThesis),
+    aum: text(firm.aum),
+    sector_focus: splitList(firm.sectorFocus),
+    geographic_focus: splitList(firm.geographicFocus),
+    founded_year: toYear(firm.foundedYear),
+    headquarters: text(firm.headquarters),
+    created_at: toTimestamp(firm.createdAt),
+  };
+}
+
+export function teamMemberRow(member: TeamMember): AnalyticsRow {
+  return {
+    job_id: member.jobId,
+    team_member_id: member.id,
+    firm_id: member.firmId,
+    person_entity_id: member.personEntityId,
+    vc_firm: member.vcFirm,
+    name: member.name,
+    title: text(member.title),
+    job_function: text(member.jobFunction),
+    specialization: text(member.specialization),
+    linkedin_url: text(member.linkedinUrl),
+    email: text(member.email),
+    email_pattern: text(member.emailPattern),
+    email_confidence: member.emailConfidence,
+    email_verification: text(member.emailVerification),
+    portfolio_companies: splitList(member.portfolioCompanies),
+    investment_focus: text(member.investmentFocus),
+    stage_preference: text(member.stagePreference),
+    check_size_range: text(member.checkSizeRange),
+    geographic_focus: text(member.geographicFocus),
+    investment_thesis: text(member.investmentThesis),
+    notable_investments: splitList(member.notableInvestments),
+    years_experience: text(member.yearsExperience),
+    background: text(member.background),
+    data_source_url: text(member.dataSourceUrl),
+    confidence_score: member.confidenceScore,
+    decision_maker_tier: text(member.decisionMakerTier),
+    tier_priority: member.tierPriority,
+    created_at: toTimestamp(member.createdAt),
+  };
+}
+
+export function portfolioCompanyRow(company: PortfolioCompany): AnalyticsRow {
+  return {
+    job_id: company.jobId,
+    portfolio_company_id: company.id,
+    firm_id: company.firmId,
+    vc_firm: company.vcFirm,
+    portfolio_company: company.portfolioCompany,
+    investment_date: toIsoDate(company.investmentDate),
+    website_url: text(company.websiteUrl),
+    investment_niches: splitList(company.investmentNiche),
+    data_source_url: text(company.dataSourceUrl),
+    confidence_score: toConfidence(company.confidenceScore),
+    recency_score: company.recencyScore,
+    recency_category: text(company.recencyCategory),
+    created_at: toTimestamp(company.createdAt),
+  };
+}
+
+export function investmentThesisRow(thesis: InvestmentThesis): AnalyticsRow {
+  return {
+    job_id: thesis.jobId,
+    firm_id: thesis.firmId,
+    vc_firm: thesis.vcFirm,
+    website_url: text(thesis.websiteUrl),
+    investor_types: splitList(thesis.investorType),
+    primary_focus_areas: splitList(thesis.primaryFocusAreas),
+    emerging_interests: splitList(thesis.emergingInterests),
+    preferred_stages: splitList(thesis.preferredStages),
+    average_check_size: text(thesis.averageCheckSize),
+    recent_investment_pace: text(thesis.recentInvestmentPace),
+    // "Name (Title); Name (Title)" — titles contain commas
+    key_decision_makers: splitList(thesis.keyDecisionMakers, ";"),
+    total_team_size: thesis.totalTeamSize,
+    tier1_count: thesis.tier1Count,
+    tier2_count: thesis.tier2Count,
+    portfolio_size: thesis.portfolioSize,
+    recent_portfolio_count: thesis.recentPortfolioCount,
+    talking_points: splitList(thesis.talkingPoints, ";"),
+    created_at: toTimestamp(thesis.createdAt),
+  };
+}
+
+export function buildVcAnalyticsDataset(data: {
+  firms: EnrichedFirm[];
+  teamMembers: TeamMember[];
+  portfolioCompanies: PortfolioCompany[];
+  investmentThesis: InvestmentThesis[];
+}): AnalyticsDataset {
+  return {
+    tables: [
+      { table: VC_TABLES.firms, rows: data.firms.map(firmRow) },
+      { table: VC_TABLES.team_members, rows: data.teamMembers.map(teamMemberRow) },
+      { table: VC_TABLES.portfolio_companies, rows: data.portfolioCompanies.map(portfolioCompanyRow) },
+      { table: VC_TABLES.investment_thesis, rows: data.investmentThesis.map(investmentThesisRow) },
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Agent jobs
+// ---------------------------------------------------------------------------
+
+const SECTION_COLUMN_TYPES: Record<string, ParquetColumnType> = {
+  number: "double",
+  date: "date",
+  list: "string[]",
+  boolean: "boolean",
+};
+
+/** "Fund Size (USD)" / "fundSize" → "fund_size" */
+export function analyticsColumnName(key: string): string {
+  const name = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+  return /^[a-z_]/.test(name) ? name : `section_${name}`;
+}
+
+/**
+ * agent_results columns for a job's sections, typed from each section's value type
+ */
+export function agentResultsTable(sections: AgentSection[]): AnalyticsTable {
+  const columns = [
+    JOB_ID,
+    column("company_name", "string", "Company name"),
+    column("website", "string", "Company website"),
+  ];
+  const taken = new Set(columns.map((c) => c.name));
+  for (const section of sections) {
+    let name = analyticsColumnName(section.key);
+    if (taken.has(name)) name = `section_${name}`;
+    taken.add(name);
+    const unit = section.type === "number" && section.unit ? ` (${section.unit})` : "";
+    columns.push(column(name, SECTION_COLUMN_TYPES[section.type ?? "text"] ?? "string", `${section.label}${unit}: ${section.desc}`.trim()));
+  }
+  return { name: "agent_results", description: "One row per extracted profile", columns };
+}
+
+/**
+ * Typed agent_results rows from the "Results" sheet of an agent job's output workbook
+ */
+export function buildAgentAnalyticsDataset(workbook: XLSX.WorkBook, sections: AgentSection[], jobId: number): AnalyticsDataset {
+  const table = agentResultsTable(sections);
+  const sheet = workbook.Sheets["Results"];
+  const sheetRows = sheet ? XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "" }) : [];
+
+  const rows = sheetRows
+    .filter((r) => !("No profile results found" in r))
+    .map((r): AnalyticsRow => {
+      const row: AnalyticsRow = {
+        job_id: jobId,
+        company_name: text(String(r["Company Name"] ?? "")),
+        website: text(String(r["Website"] ?? "")),
+      };
+      sections.forEach((section, i) => {
+        const { name, type } = table.columns[i + 3];
+        const cell = r[sectionColumnLabel(section)];
+        const raw = cell === undefined || cell === null ? "" : String(cell);
+        row[name] =
+          type === "double" ? toNumber(cell)
+            : type === "boolean" ? toBoolean(cell)
+              : type === "date" ? toIsoDate(raw)
+                : type === "string[]" ? splitList(raw, ";")
+                  : text(raw);
+      });
+      return row;
+    });
+
+  return { tables: [{ table, rows }] };
+}
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+/**
+ * One JSON object per line, keys in schema order
+ */
+export function toJsonLines(table: AnalyticsTable, rows: AnalyticsRow[]): string {
+  return rows
+    .map((row) => JSON.stringify(Object.fromEntries(table.columns.map((c) => [c.name, row[c.name] ?? null]))) + "\n")
+    .join("");
+}
+
+export function toParquet(table: AnalyticsTable, rows: AnalyticsRow[]): Buffer {
+  return writeParquet(table.columns, rows as Record<string, ParquetValue>[], {
+    "analytics.schema_version": String(ANALYTICS_SCHEMA_VERSION),
+    "analytics.table": table.name,
+  });
+}
+
+/**
+ * schema.json shipped with every export
+ */
+export function describeSchema(dataset: AnalyticsDataset): Record<string, unknown> {
+  return {
+    schemaVersion: ANALYTICS_SCHEMA_VERSION,
+    tables: dataset.tables.map(({ table, rows }) => ({ ...table, rowCount: rows.length })),
+  };
+}
+
+/**
+ * ZIP with one <table>.jsonl / <table>.parquet per table plus schema.json
+ */
+export function createAnalyticsExport(
+  dataset: AnalyticsDataset,
+  format: AnalyticsFormat,
+  baseName: string,
+): { buffer: Buffer; filename: string } {
+  const files = dataset.tables.map(({ table, rows }) => ({
+    name: `${table.name}.${format}`,
+    content: format === "jsonl" ? toJsonLines(table, rows) : toParquet(table, rows),
+  }));
+  files.push({ name: "schema.json", content: JSON.stringify(describeSchema(dataset), null, 2) + "\n" });
+  return { buffer: createZipArchive(files), filename: `${baseName}-${format}.zip` };
+}
@@ -0,0 +1,116 @@
+/**
+ * API Keys for the REST API
+ *
+ * Keys look like "sk_live_<48 hex chars>". Only a SHA-256 hash is stored, so a key
+ * can be shown once at creation and never again; the first characters (keyPrefix)
+ * are kept so users can tell their keys apart in the Dashboard.
+ *
+ * Requests authenticate with `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { apiKeys, users, type ApiKey, type User } from "../drizzle/schema";
+import { getDb } from "./db";
+
+const API_KEY_PREFIX = "sk_live_";
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+/** lastUsedAt is only written once per interval — it's informational, not an audit log */
+const LAST_USED_UPDATE_INTERVAL_MS = 60_000;
+
+export type ApiKeySummary = Omit<ApiKey, "keyHash">;
+
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Pull the key from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+export function extractApiKey(headers: Record<string, string | string[] | undefined>): string | null {
+  const header = (name: string) => {
+    const value = headers[name];
+    return (Array.isArray(value) ? value[0] : value)?.trim() || null;
+  };
+
+  const authorization = header("authorization");
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+    if (match) return match[1];
+  }
+  return header("x-api-key");
+}
+
+/**
+ * Create a key for a user. The plaintext key is only ever returned here.
+ */
+export async function createApiKey(userId: number, name: string): Promise<{ id: number; key: string; keyPrefix: string }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const key = generateApiKey();
+  const keyPrefix = key.slice(0, DISPLAY_PREFIX_LENGTH);
+  const result = await db.insert(apiKeys).values({
+    userId,
+    name: name.trim(),
+    keyPrefix,
+    keyHash: hashApiKey(key),
+  });
+  return { id: Number(result[0].insertId), key, keyPrefix };
+}
+
+export async function getUserApiKeys(userId: number): Promise<ApiKeySummary[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select({
+    id: apiKeys.id,
+    userId: apiKeys.userId,
+    name: apiKeys.name,
+    keyPrefix: apiKeys.keyPrefix,
+    lastUsedAt: apiKeys.lastUsedAt,
+    revokedAt: apiKeys.revokedAt,
+    createdAt: apiKeys.createdAt,
+  }).from(apiKeys).where(eq(apiKeys.userId, userId)).orderBy(desc(apiKeys.createdAt));
+}
+
+/**
+ * Revoke one of the user's keys. Returns false if no active key matched.
+ */
+export async function revokeApiKey(userId: number, id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+  return ((result as any)[0]?.affectedRows ?? 0) > 0;
+}
+
+/**
+ * Resolve a plaintext key to its owner. Returns null for unknown or revoked keys.
+ */
+export async function authenticateApiKey(key: string): Promise<User | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select({ key: apiKeys, user: users })
+    .from(apiKeys)
+    .innerJoin(users, eq(users.id, apiKeys.userId))
+    .where(and(eq(apiKeys.keyHash, hashApiKey(key)), isNull(apiKeys.revokedAt)))
+    .limit(1);
+  if (!row) return null;
+
+  const lastUsed = row.key.lastUsedAt?.getTime() ?? 0;
+  if (Date.now() - lastUsed > LAST_USED_UPDATE_INTERVAL_MS) {
+    db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, row.key.id)).catch(() => {});
+  }
+  return row.user;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("./enrichmentDb", () => ({
+  addJobUsage: vi.fn(),
+  addUserUsage: vi.fn().mockResolvedValue(undefined),
+  getEnrichmentJob: vi.fn(),
+}));
+
+import { evaluateBudget, jobWorkerStopped, startOfMonthUTC, type BudgetState } from "./budgets";
+import { addUserUsage } from "./enrichmentDb";
+import { assertJobActive, currentUsageJobId, recordLLMUsage, runWithJobContext, runWithUserContext } from "./_core/usageContext";
+import { clearJobCancelled, markJobCancelled } from "./_core/jobCancellation";
+
+const state = (s: Partial<BudgetState>): BudgetState => ({
+  jobSpendUSD: 0, jobBudgetUSD: null, monthSpendUSD: 0, monthlyBudgetUSD: null, ...s,
+});
+
+describe("evaluateBudget", () => {
+  it("should allow spend without caps or below them", () => {
+    expect(evaluateBudget(state({ jobSpendUSD: 500, monthSpendUSD: 5000 }))).toBeNull();
+    expect(evaluateBudget(state({ jobSpendUSD: 4.99, jobBudgetUSD: 5, monthSpendUSD: 90, monthlyBudgetUSD: 100 }))).toBeNull();
+  });
+
+  it("should stop once the job cap is reached", () => {
+    expect(evaluateBudget(state({ jobSpendUSD: 5, jobBudgetUSD: 5 }))).toBe("Job budget of $5.00 reached ($5.00 spent)");
+  });
+
+  it("should stop once the monthly cap is reached", () => {
+    expect(evaluateBudget(state({ jobSpendUSD: 1, jobBudgetUSD: 10, monthSpendUSD: 100.4, monthlyBudgetUSD: 100 })))
+      .toBe("Monthly budget of $100.00 reached ($100.40 spent this month)");
+  });
+
+  it("should count months in UTC", () => {
+    expect(startOfMonthUTC(new Date("2026-03-31T23:30:00-05:00")).toISOString()).toBe("2026-04-01T00:00:00.000Z");
+    expect(startOfMonthUTC(new Date("2026-03-15T12:00:00Z")).toISOString()).toBe("2026-03-01T00:00:00.000Z");
+  });
+});
+
+describe("jobWorkerStopped", () => {
+  const now = new Date("2026-05-01T12:00:00Z");
+
+  it("should wait for the pausing worker to release the job", () => {
+    expect(jobWorkerStopped({ workerPid: 4242, heartbeatAt: new Date("2026-05-01T11:59:40Z") }, now)).toBe(false);
+    expect(jobWorkerStopped({ workerPid: null, heartbeatAt: null }, now)).toBe(true);
+  });
+
+  it("should treat a worker without a recent heartbeat as gone", () => {
+    expect(jobWorkerStopped({ workerPid: 4242, heartbeatAt: new Date("2026-05-01T11:54:00Z") }, now)).toBe(true);
+    expect(jobWorkerStopped({ workerPid: 4242, heartbeatAt: null }, now)).toBe(true);
+  });
+});
+
+describe("usage attribution", () => {
+  it("should follow the job context across awaits", async () => {
+    expect(currentUsageJobId()).toBeNull();
+    await runWithJobContext(7, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      expect(currentUsageJobId()).toBe(7);
+      runWithJobContext(null, () => expect(currentUsageJobId()).toBeNull());
+      await runWithJobContext(8, async () => expect(currentUsageJobId()).toBe(8));
+      expect(currentUsageJobId()).toBe(7);
+    });
+  });
+
+  it("should charge usage outside any job to the user", async () => {
+    await runWithUserContext(3, async () => {
+      expect(currentUsageJobId()).toBeNull();
+      recordLLMUsage(120, 30, 0.002);
+    });
+    recordLLMUsage(1, 1, 1);
+    expect(vi.mocked(addUserUsage).mock.calls).toEqual([[3, { costUSD: 0.002, inputTokens: 120, outputTokens: 30 }]]);
+  });
+
+  it("should refuse calls for a stopped job", () => {
+    markJobCancelled(9);
+    try {
+      expect(() => runWithJobContext(9, assertJobActive)).toThrow("JOB_CANCELLED");
+      expect(() => runWithJobContext(10, assertJobActive)).not.toThrow();
+      expect(() => assertJobActive()).not.toThrow();
+    } finally {
+      clearJobCancelled(9);
+    }
+  });
+});
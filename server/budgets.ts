@@ -0,0 +1,270 @@
+/**
+ * Spend Budgets
+ *
+ * Two caps, either may be unset (no limit):
+ * - enrichmentJobs.budgetUSD — total spend of one job
+ * - users.monthlyBudgetUSD  — the user's spend this calendar month (UTC), by when the usage
+ *   happened (usageRecords), so a job started last month still counts against this month's cap
+ *
+ * LLM and scraping usage is attributed to jobs by _core/usageContext.ts and buffered here
+ * per job, then added to the job's totals every USAGE_FLUSH_INTERVAL_MS (one UPDATE per job
+ * instead of one per call). Usage outside any job (recordUserUsage) is written to the ledger
+ * right away, with no job. After each flush the job's caps are checked: a job over either
+ * cap is paused (status "paused" + pausedReason) and stopped in this process; other workers
+ * on the job see the status on their next cancellation check.
+ *
+ * A paused job is resumed with resumePausedJob() once a cap has been raised — and only once the
+ * worker that was running it has let go of it (workerPid cleared, or its heartbeat stale), so
+ * two workers never run the same job.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { and, eq, gte, isNull, lt, or, sql } from "drizzle-orm";
+import { enrichmentJobs, usageRecords, users, type EnrichmentJob } from "../drizzle/schema";
+import { getDb } from "./db";
+import { addJobUsage, addUserUsage, getEnrichmentJob } from "./enrichmentDb";
+import { markJobCancelled } from "./_core/jobCancellation";
+import { emitJobEvent } from "./webhooks";
+
+const USAGE_FLUSH_INTERVAL_MS = 5_000;
+// A worker without a heartbeat for this long is gone (worker.ts STALE_THRESHOLD)
+const STOPPED_WORKER_MS = 5 * 60 * 1000;
+
+export interface JobUsage {
+  costUSD: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface BudgetState {
+  jobSpendUSD: number;
+  jobBudgetUSD: number | null;
+  monthSpendUSD: number;
+  monthlyBudgetUSD: number | null;
+}
+
+export interface UserBudget {
+  monthlyBudgetUSD: number | null;
+  monthSpendUSD: number;
+  monthStart: Date;
+}
+
+/** Usage recorded in this process and not yet added to the job rows */
+const pendingUsage = new Map<number, JobUsage>();
+let flushTimer: NodeJS.Timeout | null = null;
+
+const usd = (value: number) => `$${value.toFixed(2)}`;
+const toNumber = (value: string | null | undefined) => (value == null ? null : Number(value));
+
+/**
+ * Why the job has to stop, or null while it is within both caps
+ */
+export function evaluateBudget(state: BudgetState): string | null {
+  if (state.jobBudgetUSD !== null && state.jobSpendUSD >= state.jobBudgetUSD) {
+    return `Job budget of ${usd(state.jobBudgetUSD)} reached (${usd(state.jobSpendUSD)} spent)`;
+  }
+  if (state.monthlyBudgetUSD !== null && state.monthSpendUSD >= state.monthlyBudgetUSD) {
+    return `Monthly budget of ${usd(state.monthlyBudgetUSD)} reached (${usd(state.monthSpendUSD)} spent this month)`;
+  }
+  return null;
+}
+
+export function startOfMonthUTC(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+// ---------------------------------------------------------------------------
+// Usage accounting
+// ---------------------------------------------------------------------------
+
+export function bufferJobUsage(jobId: number, usage: JobUsage): void {
+  const pending = pendingUsage.get(jobId) ?? { costUSD: 0, inputTokens: 0, outputTokens: 0 };
+  pending.costUSD += usage.costUSD;
+  pending.inputTokens += usage.inputTokens;
+  pending.outputTokens += usage.outputTokens;
+  pendingUsage.set(jobId, pending);
+
+  if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      flushAndEnforce().catch((error) => console.error("[budgets] Usage flush failed:", error));
+    }, USAGE_FLUSH_INTERVAL_MS);
+    flushTimer.unref?.();
+  }
+}
+
+/**
+ * Charge usage that belongs to no job to the user's monthly spend
+ */
+export function recordUserUsage(userId: number, usage: JobUsage): void {
+  if (usage.costUSD <= 0 && usage.inputTokens <= 0 && usage.outputTokens <= 0) return;
+  addUserUsage(userId, usage).catch((error) => {
+    console.error(`[budgets] Failed to record usage for user ${userId}:`, error);
+  });
+}
+
+/**
+ * Add buffered usage to the job rows (all jobs, or just one). Returns the jobs written.
+ * Processors call this before reading totalCostUSD for their completion event.
+ */
+export async function flushJobUsage(jobId?: number): Promise<number[]> {
+  const jobIds = jobId === undefined ? Array.from(pendingUsage.keys()) : [jobId];
+  const flushed: number[] = [];
+  for (const id of jobIds) {
+    const usage = pendingUsage.get(id);
+    if (!usage) continue;
+    pendingUsage.delete(id);
+    try {
+      await addJobUsage(id, usage);
+      flushed.push(id);
+    } catch (error) {
+      console.error(`[budgets] Failed to record usage for job ${id}:`, error);
+      bufferJobUsage(id, usage);
+    }
+  }
+  return flushed;
+}
+
+async function flushAndEnforce(): Promise<void> {
+  for (const jobId of await flushJobUsage()) {
+    await enforceJobBudget(jobId).catch((error) => {
+      console.error(`[budgets] Budget check failed for job ${jobId}:`, error);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Enforcement
+// ---------------------------------------------------------------------------
+
+export async function getMonthlySpend(userId: number, now = new Date()): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select({ total: sql<string>`COALESCE(SUM(${usageRecords.costUSD}), 0)` })
+    .from(usageRecords)
+    .where(and(eq(usageRecords.userId, userId), gte(usageRecords.recordedAt, startOfMonthUTC(now))));
+  return Number(row?.total ?? 0);
+}
+
+export async function getUserBudget(userId: number): Promise<UserBudget> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [user] = await db.select({ monthlyBudgetUSD: users.monthlyBudgetUSD }).from(users).where(eq(users.id, userId)).limit(1);
+  return {
+    monthlyBudgetUSD: toNumber(user?.monthlyBudgetUSD),
+    monthSpendUSD: await getMonthlySpend(userId),
+    monthStart: startOfMonthUTC(),
+  };
+}
+
+export async function setUserMonthlyBudget(userId: number, monthlyBudgetUSD: number | null): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(users)
+    .set({ monthlyBudgetUSD: monthlyBudgetUSD === null ? null : monthlyBudgetUSD.toFixed(2) })
+    .where(eq(users.id, userId));
+}
+
+async function getBudgetState(job: EnrichmentJob): Promise<BudgetState> {
+  const { monthlyBudgetUSD, monthSpendUSD } = await getUserBudget(job.userId);
+  return {
+    jobSpendUSD: Number(job.totalCostUSD ?? 0),
+    jobBudgetUSD: toNumber(job.budgetUSD),
+    monthSpendUSD,
+    monthlyBudgetUSD,
+  };
+}
+
+/**
+ * Pause a processing job that is over budget. Returns the pause reason, or null if it may continue.
+ */
+export async function enforceJobBudget(jobId: number): Promise<string | null> {
+  const job = await getEnrichmentJob(jobId);
+  if (!job || job.status !== "processing") return null;
+
+  const reason = evaluateBudget(await getBudgetState(job));
+  if (!reason) return null;
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // workerPid / heartbeatAt stay set: the worker clears them once it has stopped (see resumePausedJob)
+  const result = await db.update(enrichmentJobs)
+    .set({ status: "paused", pausedReason: reason })
+    .where(and(eq(enrichmentJobs.id, jobId), eq(enrichmentJobs.status, "processing")));
+  markJobCancelled(jobId);
+
+  if (((result as any)[0]?.affectedRows ?? 0) > 0) {
+    console.log(`[budgets] Job ${jobId} paused: ${reason}`);
+    emitJobEvent(job, "job.paused", { reason, totalCostUSD: job.totalCostUSD, budgetUSD: job.budgetUSD });
+  }
+  return reason;
+}
+
+/**
+ * Whether no worker is still running the job: it released its claim, or stopped sending heartbeats
+ */
+export function jobWorkerStopped(job: Pick<EnrichmentJob, "workerPid" | "heartbeatAt">, now = new Date()): boolean {
+  if (job.workerPid === null) return true;
+  return !job.heartbeatAt || now.getTime() - new Date(job.heartbeatAt).getTime() > STOPPED_WORKER_MS;
+}
+
+/**
+ * Resume a paused job, optionally raising its caps first. Fails while it would still be over budget,
+ * or while the worker that was running it hasn't stopped yet.
+ * Caps left undefined are unchanged; null removes the cap.
+ */
+export async function resumePausedJob(
+  job: EnrichmentJob,
+  caps: { budgetUSD?: number | null; monthlyBudgetUSD?: number | null },
+): Promise<void> {
+  if (job.status !== "paused") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Job is not paused" });
+  }
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  if (caps.budgetUSD !== undefined) {
+    await db.update(enrichmentJobs)
+      .set({ budgetUSD: caps.budgetUSD === null ? null : caps.budgetUSD.toFixed(4) })
+      .where(eq(enrichmentJobs.id, job.id));
+  }
+  if (caps.monthlyBudgetUSD !== undefined) {
+    await setUserMonthlyBudget(job.userId, caps.monthlyBudgetUSD);
+  }
+
+  const updated = await getEnrichmentJob(job.id);
+  if (!updated) throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+  const reason = evaluateBudget(await getBudgetState(updated));
+  if (reason) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${reason} — raise the cap to resume` });
+  }
+
+  const stillStopping = () => new TRPCError({
+    code: "CONFLICT",
+    message: "The job is still stopping after the pause — try resuming again in a few seconds",
+  });
+  if (!jobWorkerStopped(updated)) throw stillStopping();
+
+  // Compare-and-set on the same conditions, so a worker can't pick the job up twice
+  const result = await db.update(enrichmentJobs)
+    .set({ status: "pending", pausedReason: null, workerPid: null, heartbeatAt: null })
+    .where(and(
+      eq(enrichmentJobs.id, job.id),
+      eq(enrichmentJobs.status, "paused"),
+      or(
+        isNull(enrichmentJobs.workerPid),
+        isNull(enrichmentJobs.heartbeatAt),
+        lt(enrichmentJobs.heartbeatAt, new Date(Date.now() - STOPPED_WORKER_MS)),
+      ),
+    ));
+  if (((result as any)[0]?.affectedRows ?? 0) === 0) {
+    const current = await getEnrichmentJob(job.id);
+    if (current?.status === "paused") throw stillStopping();
+    throw new TRPCError({ code: "CONFLICT", message: "Job is no longer paused" });
+  }
+}
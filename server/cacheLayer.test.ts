@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { CacheLayer } from "./scraper/CacheLayer";
+import type { CacheEntry, PersistentCacheStore } from "./scraper/types";
+
+/** In-memory stand-in for the MySQL page cache */
+class FakeStore implements PersistentCacheStore {
+  rows = new Map<string, { entry: CacheEntry<unknown>; url?: string }>();
+
+  async get(hashedKey: string) {
+    return this.rows.get(hashedKey)?.entry ?? null;
+  }
+  async set(hashedKey: string, entry: CacheEntry<unknown>, url?: string) {
+    this.rows.set(hashedKey, { entry, url });
+  }
+  async delete(hashedKey: string) {
+    this.rows.delete(hashedKey);
+  }
+  async evict() {
+    return 0;
+  }
+}
+
+describe("CacheLayer", () => {
+  let cache: CacheLayer | null = null;
+
+  afterEach(() => {
+    cache?.destroy();
+    cache = null;
+  });
+
+  it("should write through to the persistent store under a hashed key", async () => {
+    const store = new FakeStore();
+    cache = new CacheLayer(store);
+
+    await cache.set("scrape:https://a16z.com/team", { html: "<p>team</p>" }, 60, "https://a16z.com/team");
+
+    const hashed = CacheLayer.hashKey("scrape:https://a16z.com/team");
+    expect(hashed).toMatch(/^[0-9a-f]{64}$/);
+    expect(store.rows.get(hashed)?.url).toBe("https://a16z.com/team");
+  });
+
+  it("should serve entries written by another process from the persistent store", async () => {
+    const store = new FakeStore();
+    const writer = new CacheLayer(store);
+    await writer.set("hybrid:https://sequoia.com", { content: "page" }, 60);
+    writer.destroy();
+
+    cache = new CacheLayer(store);
+    expect(await cache.get("hybrid:https://sequoia.com")).toEqual({ content: "page" });
+    expect(cache.getStats().persistentHits).toBe(1);
+
+    // Second read comes from memory
+    await cache.get("hybrid:https://sequoia.com");
+    expect(cache.getStats().memoryHits).toBe(1);
+  });
+
+  it("should treat expired persistent entries as misses", async () => {
+    const store = new FakeStore();
+    await store.set(CacheLayer.hashKey("old"), { key: "old", data: "stale", timestamp: Date.now() - 10_000, ttl: 1 });
+
+    cache = new CacheLayer(store);
+    expect(await cache.get("old")).toBeNull();
+    expect(cache.getStats().misses).toBe(1);
+  });
+
+  it("should evict least recently used entries from memory", async () => {
+    cache = new CacheLayer(null, { maxMemoryEntries: 2 });
+
+    await cache.set("a", 1, 60);
+    await cache.set("b", 2, 60);
+    await cache.get("a"); // a is now most recent
+    await cache.set("c", 3, 60);
+
+    expect(await cache.get("b")).toBeNull();
+    expect(await cache.get("a")).toBe(1);
+    expect(await cache.get("c")).toBe(3);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { agentRowsToSnapshots, diffSnapshots, entityKey, type EntitySnapshot } from "./changeDetection";
+import { createAgentOutputExcel } from "./excelProcessor";
+import type { AgentSection } from "./agentScraper";
+
+const firm = (overrides: Partial<EntitySnapshot> = {}): EntitySnapshot => ({
+  key: "acme",
+  companyName: "Acme Ventures",
+  websiteUrl: "https://acme.vc",
+  fields: { "AUM": "$500M", "Headquarters": "Austin" },
+  teamMembers: [{ name: "Jane Doe", title: "Partner" }, { name: "John Roe", title: "Principal" }],
+  portfolio: ["Widgets Inc", "Gadgets Co"],
+  ...overrides,
+});
+
+describe("diffSnapshots", () => {
+  it("should report team, portfolio and field changes for a firm in both runs", () => {
+    const current = firm({
+      fields: { "AUM": "$750M", "Headquarters": "austin " },
+      teamMembers: [{ name: "Jane Doe", title: "Managing Partner" }, { name: "Ann Lee", title: "Associate" }],
+      portfolio: ["Widgets Inc", "Gadgets Co", "Sprockets AI"],
+    });
+
+    const changes = diffSnapshots([firm()], [current]);
+    const summary = changes.map((c) => [c.changeType, c.entity ?? c.field, c.oldValue ?? "", c.newValue ?? ""]);
+
+    expect(summary).toEqual([
+      ["field_changed", "AUM", "$500M", "$750M"],
+      ["team_member_added", "Ann Lee", "", "Associate"],
+      ["team_member_departed", "John Roe", "Principal", ""],
+      ["field_changed", "Jane Doe", "Partner", "Managing Partner"],
+      ["portfolio_company_added", "Sprockets AI", "", ""],
+    ]);
+  });
+
+  it("should report added and removed firms once, without per-member noise", () => {
+    const other = firm({ key: "beta", companyName: "Beta Capital" });
+    const changes = diffSnapshots([firm()], [other]);
+    expect(changes.map((c) => [c.changeType, c.companyName])).toEqual([
+      ["firm_added", "Beta Capital"],
+      ["firm_removed", "Acme Ventures"],
+    ]);
+  });
+
+  it("should not treat an empty team or portfolio as everyone leaving", () => {
+    expect(diffSnapshots([firm()], [firm({ teamMembers: [], portfolio: [] })])).toEqual([]);
+  });
+});
+
+describe("agent run changes", () => {
+  const sections: AgentSection[] = [{ key: "aum", label: "AUM", desc: "", type: "number", unit: "USD" }];
+
+  it("should match agent rows by normalized website", () => {
+    expect(entityKey("Acme", "https://www.acme.vc/")).toBe(entityKey("ACME Ventures", "http://acme.vc"));
+
+    const previous = agentRowsToSnapshots(sections, [{ "Company Name": "Acme", "Website": "https://www.acme.vc/", aum: "500000000" }]);
+    const current = agentRowsToSnapshots(sections, [{ "Company Name": "Acme", "Website": "https://acme.vc", aum: "750000000" }]);
+    expect(diffSnapshots(previous, current)).toEqual([{
+      companyName: "Acme",
+      websiteUrl: "https://acme.vc",
+      changeType: "field_changed",
+      field: "AUM",
+      oldValue: "500000000",
+      newValue: "750000000",
+    }]);
+  });
+
+  it("should write a Changes sheet when changes are given", () => {
+    const buffer = createAgentOutputExcel(sections, [{ "Company Name": "Acme", "Website": "https://acme.vc", aum: "1" }], [], undefined, [
+      { companyName: "Acme", websiteUrl: "https://acme.vc", changeType: "team_member_departed", entity: "John Roe", oldValue: "Principal" },
+    ]);
+    const rows = XLSX.utils.sheet_to_json<Record<string, string>>(XLSX.read(buffer, { type: "buffer" }).Sheets["Changes"]);
+    expect(rows).toEqual([{
+      "Company Name": "Acme",
+      "Website": "https://acme.vc",
+      "Change": "Departed team member",
+      "Item": "John Roe",
+      "Field": "",
+      "Previous Value": "Principal",
+      "New Value": "",
+    }]);
+  });
+});
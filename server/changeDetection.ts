@@ -0,0 +1,286 @@
+/**
+ * Change Detection for Scheduled Runs
+ *
+ * Compares a run with the previous completed run of the same schedule and records
+ * what changed — new firms, new or departed team members, new portfolio companies,
+ * and changed field values (AUM, HQ, custom agent sections...).
+ *
+ * Both job kinds are reduced to EntitySnapshot so one diff covers them:
+ * - VC jobs:    loaded from enrichedFirms / teamMembers / portfolioCompanies
+ * - Agent jobs: the in-memory result rows vs the previous run's "Results" sheet
+ */
+
+import * as XLSX from "xlsx";
+import { eq } from "drizzle-orm";
+import { enrichedFirms, jobChanges, portfolioCompanies, teamMembers, type EnrichmentJob, type InsertJobChange, type JobChange } from "../drizzle/schema";
+import { getDb } from "./db";
+import { storageGet } from "./storage";
+import { sectionColumnLabel } from "./sectionTypes";
+import type { AgentSection } from "./agentScraper";
+
+export type ChangeType =
+  | "firm_added"
+  | "firm_removed"
+  | "team_member_added"
+  | "team_member_departed"
+  | "portfolio_company_added"
+  | "portfolio_company_removed"
+  | "field_changed";
+
+export const CHANGE_TYPE_LABELS: Record<ChangeType, string> = {
+  firm_added: "New firm",
+  firm_removed: "Firm no longer in results",
+  team_member_added: "New team member",
+  team_member_departed: "Departed team member",
+  portfolio_company_added: "New portfolio company",
+  portfolio_company_removed: "Removed portfolio company",
+  field_changed: "Value changed",
+};
+
+export interface ChangeRecord {
+  companyName: string;
+  websiteUrl: string;
+  changeType: ChangeType;
+  entity?: string;
+  field?: string;
+  oldValue?: string;
+  newValue?: string;
+}
+
+export interface EntitySnapshot {
+  /** Stable identity across runs (see entityKey) */
+  key: string;
+  companyName: string;
+  websiteUrl: string;
+  /** Tracked values by display name, e.g. { "AUM": "$2B" } */
+  fields: Record<string, string>;
+  teamMembers?: Array<{ name: string; title: string }>;
+  portfolio?: string[];
+}
+
+/** Firm-level VC fields worth alerting on; list-style LLM fields (niches) are too noisy */
+const VC_TRACKED_FIELDS = {
+  aum: "AUM",
+  headquarters: "Headquarters",
+  foundedYear: "Founded Year",
+  investorType: "Investor Type",
+  investmentStages: "Investment Stages",
+} as const;
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+const normalizeText = (s: string | null | undefined) => (s ?? "").replace(/\s+/g, " ").trim().toLowerCase();
+
+/**
+ * Identity for a firm: its website (scheme/www/trailing slash stripped), else its name
+ */
+export function entityKey(companyName: string, websiteUrl: string): string {
+  const site = normalizeText(websiteUrl).replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/+$/, "");
+  return site || normalizeText(companyName);
+}
+
+function diffNamedList<T>(
+  prev: T[],
+  curr: T[],
+  name: (item: T) => string,
+): { added: T[]; removed: T[]; common: Array<[T, T]> } {
+  const prevByName = new Map(prev.map((p) => [normalizeText(name(p)), p]));
+  const currByName = new Map(curr.map((c) => [normalizeText(name(c)), c]));
+  const added = curr.filter((c) => !prevByName.has(normalizeText(name(c))));
+  const removed = prev.filter((p) => !currByName.has(normalizeText(name(p))));
+  const common: Array<[T, T]> = [];
+  currByName.forEach((c, key) => {
+    const p = prevByName.get(key);
+    if (p) common.push([p, c]);
+  });
+  return { added, removed, common };
+}
+
+/**
+ * Diff two runs. Firms that appear/disappear produce a single firm-level change;
+ * everything else is compared per firm.
+ */
+export function diffSnapshots(previous: EntitySnapshot[], current: EntitySnapshot[]): ChangeRecord[] {
+  const changes: ChangeRecord[] = [];
+  const prevByKey = new Map(previous.map((p) => [p.key, p]));
+  const currKeys = new Set(current.map((c) => c.key));
+
+  for (const curr of current) {
+    const base = { companyName: curr.companyName, websiteUrl: curr.websiteUrl };
+    const prev = prevByKey.get(curr.key);
+    if (!prev) {
+      changes.push({ ...base, changeType: "firm_added" });
+      continue;
+    }
+
+    for (const [field, value] of Object.entries(curr.fields)) {
+      const oldValue = prev.fields[field] ?? "";
+      if (normalizeText(oldValue) !== normalizeText(value)) {
+        changes.push({ ...base, changeType: "field_changed", field, oldValue, newValue: value });
+      }
+    }
+
+    // An empty list after a non-empty one is almost always a failed fetch, not a firm
+    // that lost everyone — reporting it would bury the real changes.
+    if (prev.teamMembers && curr.teamMembers && curr.teamMembers.length > 0) {
+      const team = diffNamedList(prev.teamMembers, curr.teamMembers, (m) => m.name);
+      for (const m of team.added) changes.push({ ...base, changeType: "team_member_added", entity: m.name, newValue: m.title });
+      for (const m of team.removed) changes.push({ ...base, changeType: "team_member_departed", entity: m.name, oldValue: m.title });
+      for (const [p, c] of team.common) {
+        if (normalizeText(p.title) !== normalizeText(c.title)) {
+          changes.push({ ...base, changeType: "field_changed", entity: c.name, field: "Title", oldValue: p.title, newValue: c.title });
+        }
+      }
+    }
+
+    if (prev.portfolio && curr.portfolio && curr.portfolio.length > 0) {
+      const portfolio = diffNamedList(prev.portfolio, curr.portfolio, (name) => name);
+      for (const name of portfolio.added) changes.push({ ...base, changeType: "portfolio_company_added", entity: name });
+      for (const name of portfolio.removed) changes.push({ ...base, changeType: "portfolio_company_removed", entity: name });
+    }
+  }
+
+  for (const prev of previous) {
+    if (!currKeys.has(prev.key)) {
+      changes.push({ companyName: prev.companyName, websiteUrl: prev.websiteUrl, changeType: "firm_removed" });
+    }
+  }
+
+  return changes;
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot loaders
+// ---------------------------------------------------------------------------
+
+/**
+ * Snapshot of a VC enrichment job from its saved firms, team members and portfolio companies
+ */
+export async function loadVcSnapshots(jobId: number): Promise<EntitySnapshot[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const firms = await db.select().from(enrichedFirms).where(eq(enrichedFirms.jobId, jobId));
+  const members = await db.select({ firmId: teamMembers.firmId, name: teamMembers.name, title: teamMembers.title })
+    .from(teamMembers).where(eq(teamMembers.jobId, jobId));
+  const companies = await db.select({ firmId: portfolioCompanies.firmId, name: portfolioCompanies.portfolioCompany })
+    .from(portfolioCompanies).where(eq(portfolioCompanies.jobId, jobId));
+
+  return firms.map((firm) => {
+    const fields: Record<string, string> = {};
+    for (const [column, label] of Object.entries(VC_TRACKED_FIELDS)) {
+      fields[label] = String(firm[column as keyof typeof VC_TRACKED_FIELDS] ?? "");
+    }
+    return {
+      // VC runs re-read the same input file, so the input firm name is the stable identity
+      key: normalizeText(firm.companyName),
+      companyName: firm.companyName,
+      websiteUrl: firm.websiteUrl ?? "",
+      fields,
+      teamMembers: members.filter((m) => m.firmId === firm.id).map((m) => ({ name: m.name, title: m.title ?? "" })),
+      portfolio: companies.filter((c) => c.firmId === firm.id).map((c) => c.name),
+    };
+  });
+}
+
+/**
+ * Snapshot of agent result rows ({"Company Name", "Website", [section.key]: value})
+ */
+export function agentRowsToSnapshots(sections: AgentSection[], rows: Array<Record<string, string>>): EntitySnapshot[] {
+  return rows.map((row) => {
+    const fields: Record<string, string> = {};
+    for (const s of sections) fields[s.label] = row[s.key] ?? "";
+    const companyName = row["Company Name"] ?? "";
+    const websiteUrl = row["Website"] ?? "";
+    return { key: entityKey(companyName, websiteUrl), companyName, websiteUrl, fields };
+  });
+}
+
+/**
+ * Read a finished agent job's "Results" sheet back into result rows keyed by section key
+ */
+export async function loadAgentResultRows(job: EnrichmentJob, sections: AgentSection[]): Promise<Array<Record<string, string>>> {
+  if (!job.outputFileKey) return [];
+
+  const { url } = await storageGet(job.outputFileKey);
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Previous results file not available (HTTP ${response.status})`);
+
+  const workbook = XLSX.read(Buffer.from(await response.arrayBuffer()), { type: "buffer" });
+  const sheet = workbook.Sheets["Results"];
+  if (!sheet) return [];
+
+  return XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "" }).map((r) => {
+    const row: Record<string, string> = {
+      "Company Name": String(r["Company Name"] ?? ""),
+      "Website": String(r["Website"] ?? ""),
+    };
+    for (const s of sections) row[s.key] = String(r[sectionColumnLabel(s)] ?? r[s.label] ?? "");
+    return row;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+export async function saveJobChanges(jobId: number, previousJobId: number, changes: ChangeRecord[]): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(jobChanges).where(eq(jobChanges.jobId, jobId)); // re-runs after resume replace, not duplicate
+  const rows: InsertJobChange[] = changes.map((c) => ({ jobId, previousJobId, ...c }));
+  for (let i = 0; i < rows.length; i += 500) {
+    await db.insert(jobChanges).values(rows.slice(i, i + 500));
+  }
+}
+
+export async function getJobChanges(jobId: number): Promise<JobChange[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(jobChanges).where(eq(jobChanges.jobId, jobId)).orderBy(jobChanges.id);
+}
+
+/**
+ * Diff a finished VC job against the previous run and store the changes
+ */
+export async function detectVcJobChanges(jobId: number, previousJobId: number): Promise<ChangeRecord[]> {
+  const [previous, current] = await Promise.all([loadVcSnapshots(previousJobId), loadVcSnapshots(jobId)]);
+  const changes = diffSnapshots(previous, current);
+  await saveJobChanges(jobId, previousJobId, changes);
+  console.log(`[changeDetection] Job ${jobId} vs ${previousJobId}: ${changes.length} changes`);
+  return changes;
+}
+
+/**
+ * Diff an agent job's result rows against the previous run's output file and store the changes
+ */
+export async function detectAgentJobChanges(
+  jobId: number,
+  previousJob: EnrichmentJob,
+  sections: AgentSection[],
+  rows: Array<Record<string, string>>,
+): Promise<ChangeRecord[]> {
+  const previousRows = await loadAgentResultRows(previousJob, sections);
+  const changes = diffSnapshots(agentRowsToSnapshots(sections, previousRows), agentRowsToSnapshots(sections, rows));
+  await saveJobChanges(jobId, previousJob.id, changes);
+  console.log(`[changeDetection] Job ${jobId} vs ${previousJob.id}: ${changes.length} changes`);
+  return changes;
+}
+
+/**
+ * Rows for a "Changes" sheet
+ */
+export function changeSheetRows(changes: Array<ChangeRecord | JobChange>): Array<Record<string, string>> {
+  return changes.map((c) => ({
+    "Company Name": c.companyName ?? "",
+    "Website": c.websiteUrl ?? "",
+    "Change": CHANGE_TYPE_LABELS[c.changeType as ChangeType] ?? c.changeType,
+    "Item": c.entity ?? "",
+    "Field": c.field ?? "",
+    "Previous Value": c.oldValue ?? "",
+    "New Value": c.newValue ?? "",
+  }));
+}
@@ -120,6 +120,7 @@ Example format:
 
   try {
     const response = await queuedLLMCall({
+      task: "team_extraction",
       messages: [{ role: "user", content: prompt }],
       response_format: {
         type: "json_schema",
@@ -3,11 +3,14 @@
  * Calculates estimated API costs based on firm count and enrichment depth
  */
 
+import { estimateLLMCost, type LLMTask } from "./_core/llmRouting";
+
 export interface CostEstimate {
   totalCost: number;
   totalCostLow: number;   // low end of range (lean sites)
   totalCostHigh: number;  // high end of range (data-rich sites)
   perFirmCost: number;
+  reusedFirmCount: number; // firms copied from earlier jobs (resultReuse.ts) — not billed
   breakdown: {
     websiteVerification: number;
     investorTypeExtraction: number;
@@ -39,23 +42,24 @@ const TOKEN_ESTIMATES = {
 };
 
 /**
- * Pricing — dynamic based on active provider.
- * Gemini 2.5 Flash (when GEMINI_API_KEY is set): $0.075 input / $0.30 output per 1M tokens
- * gpt-4o-mini (default):                         $0.15  input / $0.60 output per 1M tokens
+ * LLM task each operation is routed as — priced at the routed provider/model (_core/llmRouting.ts),
+ * the same prices the job's actual cost is recorded with
  */
-const USE_GEMINI = !!process.env.GEMINI_API_KEY;
-const PRICING = {
-  inputPer1M:  USE_GEMINI ? 0.075 : 0.15,
-  outputPer1M: USE_GEMINI ? 0.30  : 0.60,
+const OPERATION_TASKS: Record<keyof typeof TOKEN_ESTIMATES, LLMTask> = {
+  websiteVerification: "default",
+  investorType: "profile_extraction",
+  investmentStages: "profile_extraction",
+  niches: "profile_extraction",
+  teamMembers: "team_extraction",
+  portfolioCompanies: "default",
+  waterfallRetry: "team_extraction",
 };
 
 /**
  * Calculate cost for a single operation
  */
-function calculateOperationCost(inputTokens: number, outputTokens: number): number {
-  const inputCost = (inputTokens / 1_000_000) * PRICING.inputPer1M;
-  const outputCost = (outputTokens / 1_000_000) * PRICING.outputPer1M;
-  return inputCost + outputCost;
+function calculateOperationCost(operation: keyof typeof TOKEN_ESTIMATES, inputTokens: number, outputTokens: number): number {
+  return estimateLLMCost(OPERATION_TASKS[operation], inputTokens, outputTokens);
 }
 
 /**
@@ -65,11 +69,17 @@ function calculateOperationCost(inputTokens: number, outputTokens: number): numb
  * @param avgDescriptionLength - Average character length of descriptions in the uploaded file.
  *   Longer descriptions signal content-rich sites (more pages, more team members, more portfolio data)
  *   and so predict higher actual token usage. Defaults to 200 chars (neutral baseline).
+ * @param reusedFirmCount - Firms whose fresh results from earlier jobs will be copied instead of
+ *   enriched. They cost nothing and take no scraping time.
  */
 export function estimateEnrichmentCost(
   firmCount: number,
   avgDescriptionLength = 200,
+  reusedFirmCount = 0,
 ): CostEstimate {
+  const reused = Math.min(Math.max(0, reusedFirmCount), firmCount);
+  const billableFirmCount = firmCount - reused;
+
   // Content scale: richer descriptions → more scraped content → more tokens.
   // Clamped to [0.7, 2.5] so we don't over-penalise bare-bones or extremely long descriptions.
   const contentScale = Math.min(2.5, Math.max(0.7, avgDescriptionLength / 200));
@@ -82,30 +92,35 @@ export function estimateEnrichmentCost(
 
   // Base operations (always performed, not content-scaled)
   const verificationCost = calculateOperationCost(
+    "websiteVerification",
     TOKEN_ESTIMATES.websiteVerification.input,
     TOKEN_ESTIMATES.websiteVerification.output,
   );
 
   const investorTypeCost = calculateOperationCost(
+    "investorType",
     TOKEN_ESTIMATES.investorType.input,
     TOKEN_ESTIMATES.investorType.output,
   );
 
   const investmentStagesCost = calculateOperationCost(
+    "investmentStages",
     TOKEN_ESTIMATES.investmentStages.input,
     TOKEN_ESTIMATES.investmentStages.output,
   );
 
   const nichesCost = calculateOperationCost(
+    "niches",
     TOKEN_ESTIMATES.niches.input,
     TOKEN_ESTIMATES.niches.output,
   );
 
-  const teamMembersCost  = calculateOperationCost(scaledTeamInput, scaledTeamOutput);
-  const portfolioCost    = calculateOperationCost(scaledPortfolioInput, scaledPortfolioOutput);
+  const teamMembersCost  = calculateOperationCost("teamMembers", scaledTeamInput, scaledTeamOutput);
+  const portfolioCost    = calculateOperationCost("portfolioCompanies", scaledPortfolioInput, scaledPortfolioOutput);
 
   // Waterfall enrichment (assume 30% of firms need it, with 2 retries average)
   const waterfallCost = calculateOperationCost(
+    "waterfallRetry",
     TOKEN_ESTIMATES.waterfallRetry.input,
     TOKEN_ESTIMATES.waterfallRetry.output,
   ) * 2 * 0.3; // 2 retries * 30% of firms
@@ -121,7 +136,7 @@ export function estimateEnrichmentCost(
     waterfallCost;
 
   // Total cost (midpoint)
-  const totalCost = perFirmCost * firmCount;
+  const totalCost = perFirmCost * billableFirmCount;
 
   // Cost range — team + portfolio are the most variable operations (±45%)
   const varianceMultiplier = 0.45;
@@ -151,8 +166,8 @@ export function estimateEnrichmentCost(
   // LLM bottleneck: (firmCount × 6 calls) / (1000 RPM / 60) seconds
   // Scraping bottleneck: ceil(firmCount / 50) × 25s per batch
   // Wall-clock = max of the two (they run in parallel)
-  const llmSeconds      = (firmCount * 6) / (1000 / 60);
-  const scrapingSeconds = Math.ceil(firmCount / 50) * 25;
+  const llmSeconds      = (billableFirmCount * 6) / (1000 / 60);
+  const scrapingSeconds = Math.ceil(billableFirmCount / 50) * 25;
   const totalSeconds    = Math.max(llmSeconds, scrapingSeconds);
   const hours = Math.floor(totalSeconds / 3600);
   const minutes = Math.floor((totalSeconds % 3600) / 60);
@@ -167,18 +182,19 @@ export function estimateEnrichmentCost(
     totalCostLow,
     totalCostHigh,
     perFirmCost:   Math.round(perFirmCost * 10000) / 10000,
+    reusedFirmCount: reused,
     breakdown: {
-      websiteVerification:         Math.round(verificationCost    * firmCount * 100) / 100,
-      investorTypeExtraction:      Math.round(investorTypeCost    * firmCount * 100) / 100,
-      investmentStagesExtraction:  Math.round(investmentStagesCost* firmCount * 100) / 100,
-      nichesExtraction:            Math.round(nichesCost          * firmCount * 100) / 100,
-      teamMemberExtraction:        Math.round(teamMembersCost     * firmCount * 100) / 100,
-      portfolioExtraction:         Math.round(portfolioCost       * firmCount * 100) / 100,
-      waterfallEnrichment:         Math.round(waterfallCost       * firmCount * 100) / 100,
+      websiteVerification:         Math.round(verificationCost    * billableFirmCount * 100) / 100,
+      investorTypeExtraction:      Math.round(investorTypeCost    * billableFirmCount * 100) / 100,
+      investmentStagesExtraction:  Math.round(investmentStagesCost* billableFirmCount * 100) / 100,
+      nichesExtraction:            Math.round(nichesCost          * billableFirmCount * 100) / 100,
+      teamMemberExtraction:        Math.round(teamMembersCost     * billableFirmCount * 100) / 100,
+      portfolioExtraction:         Math.round(portfolioCost       * billableFirmCount * 100) / 100,
+      waterfallEnrichment:         Math.round(waterfallCost       * billableFirmCount * 100) / 100,
     },
     estimatedTokens: {
-      input:  Math.round(inputTokensPerFirm  * firmCount),
-      output: Math.round(outputTokensPerFirm * firmCount),
+      input:  Math.round(inputTokensPerFirm  * billableFirmCount),
+      output: Math.round(outputTokensPerFirm * billableFirmCount),
     },
     estimatedDuration,
   };
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { findBlockedDomain, isPathAllowed, normalizeDomain, parseRobotsTxt } from "./crawlPolicy";
+
+const ROBOTS = `
+# Example
+User-agent: *
+Disallow: /private
+Allow: /private/press
+Crawl-delay: 2
+
+User-agent: SmartScraperBot
+User-agent: OtherBot/2.1
+Disallow: /team$
+Disallow: /*.pdf
+Crawl-delay: 5
+
+User-agent: smartscraperbot
+Disallow: /search?
+`;
+
+describe("parseRobotsTxt", () => {
+  it("should use the groups naming our agent, merged, instead of the * group", () => {
+    const policy = parseRobotsTxt(ROBOTS, "SmartScraperBot");
+    expect(policy.rules).toEqual([
+      { allow: false, pattern: "/team$" },
+      { allow: false, pattern: "/*.pdf" },
+      { allow: false, pattern: "/search?" },
+    ]);
+    expect(policy.crawlDelaySeconds).toBe(5);
+  });
+
+  it("should fall back to the * group for other agents", () => {
+    const policy = parseRobotsTxt(ROBOTS, "SomeoneElse");
+    expect(policy.rules).toHaveLength(2);
+    expect(policy.crawlDelaySeconds).toBe(2);
+  });
+
+  it("should allow everything without a matching group or with an empty Disallow", () => {
+    expect(parseRobotsTxt("User-agent: OtherBot\nDisallow: /", "SmartScraperBot").rules).toEqual([]);
+    expect(parseRobotsTxt("User-agent: *\nDisallow:", "SmartScraperBot").rules).toEqual([]);
+  });
+});
+
+describe("isPathAllowed", () => {
+  it("should let the longest matching rule win, Allow on a tie", () => {
+    const policy = parseRobotsTxt(ROBOTS, "SomeoneElse");
+    expect(isPathAllowed(policy, "/private/board")).toBe(false);
+    expect(isPathAllowed(policy, "/private/press/2024")).toBe(true);
+    expect(isPathAllowed(policy, "/about")).toBe(true);
+    expect(isPathAllowed({ rules: [{ allow: false, pattern: "/a" }, { allow: true, pattern: "/a" }], crawlDelaySeconds: null }, "/a")).toBe(true);
+  });
+
+  it("should support * wildcards and $ anchors", () => {
+    const policy = parseRobotsTxt(ROBOTS, "SmartScraperBot");
+    expect(isPathAllowed(policy, "/team")).toBe(false);
+    expect(isPathAllowed(policy, "/team/jane")).toBe(true);
+    expect(isPathAllowed(policy, "/files/deck.pdf")).toBe(false);
+    expect(isPathAllowed(policy, "/search?q=vc")).toBe(false);
+    expect(isPathAllowed(policy, "/search")).toBe(true);
+  });
+
+  it("should always allow robots.txt itself", () => {
+    expect(isPathAllowed({ rules: [{ allow: false, pattern: "/" }], crawlDelaySeconds: null }, "/robots.txt")).toBe(true);
+  });
+});
+
+describe("domain blocklist", () => {
+  it("should normalise URLs and hostnames to a bare domain", () => {
+    expect(normalizeDomain("https://www.Example.com/about?x=1")).toBe("example.com");
+    expect(normalizeDomain("sub.example.co.uk")).toBe("sub.example.co.uk");
+    expect(normalizeDomain("not a domain")).toBeNull();
+    expect(normalizeDomain("localhost")).toBeNull();
+  });
+
+  it("should block the domain and its subdomains only", () => {
+    const domains = ["example.com"];
+    expect(findBlockedDomain("example.com", domains)).toBe("example.com");
+    expect(findBlockedDomain("www.example.com", domains)).toBe("example.com");
+    expect(findBlockedDomain("notexample.com", domains)).toBeNull();
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Crawl Policy — robots.txt, Crawl-delay and the domain blocklist
+ *
+ * Every fetch path (Jina, the Jina/Puppeteer race, ComprehensiveScraper, the directory
+ * extractor, withDomainRateLimit) asks this module before requesting a page:
+ * - domains on the blocklist (crawlBlocklist table, managed by admins in the Dashboard) are never
+ *   fetched, subdomains included — this is how site owners' opt-out requests are honoured
+ * - robots.txt is fetched once per origin and kept in the page cache (shared by web server +
+ *   worker). The Allow / Disallow rules of the group naming CRAWLER_USER_AGENT, or of the "*"
+ *   group if none does, decide; the longest matching rule wins, Allow on a tie
+ * - Crawl-delay spaces requests to the origin. Sites asking for more than
+ *   MAX_CRAWL_DELAY_SECONDS between requests are not crawled at all.
+ *
+ * robots.txt responses are handled like the major search engines do: 4xx means no
+ * restrictions, 5xx disallows the whole site until the entry expires (ROBOTS_RETRY_TTL_SECONDS).
+ * Network errors allow — the page fetch itself will fail the same way.
+ *
+ * URLs skipped inside a job (see _core/usageContext.ts) are logged to the job's jobLogs once,
+ * with status "skipped" and errorReason "crawl_disallowed".
+ */
+
+import axios from "axios";
+import { asc, eq } from "drizzle-orm";
+import { crawlBlocklist, type CrawlBlocklistEntry } from "../drizzle/schema";
+import { getDb } from "./db";
+import { insertJobLog } from "./enrichmentDb";
+import { getCacheLayer } from "./scraper/CacheLayer";
+import { currentUsageJobId } from "./_core/usageContext";
+import { replayFetch } from "./_core/replay";
+
+/** Product token matched against robots.txt User-agent lines and sent when fetching robots.txt */
+export const CRAWLER_USER_AGENT = process.env.CRAWLER_USER_AGENT || "SmartScraperBot";
+export const CRAWL_DISALLOWED_REASON = "crawl_disallowed";
+
+const ROBOTS_TTL_SECONDS = 24 * 60 * 60;
+const ROBOTS_RETRY_TTL_SECONDS = 60 * 60;
+const ROBOTS_MAX_BYTES = 512 * 1024;
+const MAX_CRAWL_DELAY_SECONDS = 60;
+const BLOCKLIST_REFRESH_MS = 60_000;
+const MAX_RECORDED_SKIPS = 10_000;
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+}
+
+export type CrawlDecision =
+  | { allowed: true; crawlDelayMs: number }
+  | { allowed: false; reason: "blocklist" | "robots"; detail: string };
+
+/** Thrown by callers that treat a disallowed URL as the end of a unit of work */
+export class CrawlDisallowedError extends Error {
+  constructor(public readonly url: string, detail: string) {
+    super(detail);
+    this.name = "CrawlDisallowedError";
+  }
+}
+
+const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelaySeconds: null };
+const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: "/" }], crawlDelaySeconds: null };
+
+const robotsInFlight = new Map<string, Promise<RobotsPolicy>>();
+/** Earliest start of the next request per origin, for Crawl-delay */
+const nextCrawlSlot = new Map<string, number>();
+/** "<jobId> <url>" pairs already written to jobLogs */
+const recordedSkips = new Set<string>();
+let blocklistCache: { domains: string[]; loadedAt: number } | null = null;
+
+// ---------------------------------------------------------------------------
+// robots.txt
+// ---------------------------------------------------------------------------
+
+/**
+ * The rules robots.txt sets for userAgent. Groups naming the agent replace the "*" group;
+ * several groups for the same agent are merged.
+ */
+export function parseRobotsTxt(text: string, userAgent = CRAWLER_USER_AGENT): RobotsPolicy {
+  const token = userAgent.toLowerCase();
+  const groups: Array<{ agents: string[]; policy: RobotsPolicy }> = [];
+  let current: { agents: string[]; policy: RobotsPolicy } | null = null;
+  let inAgentLines = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const field = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (field === "user-agent") {
+      if (!current || !inAgentLines) {
+        current = { agents: [], policy: { rules: [], crawlDelaySeconds: null } };
+        groups.push(current);
+      }
+      current.agents.push(value.split("/")[0].trim().toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+    inAgentLines = false;
+    if (!current) continue;
+
+    if (field === "allow" || field === "disallow") {
+      // An empty Disallow allows everything — nothing to match
+      if (value) current.policy.rules.push({ allow: field === "allow", pattern: value });
+    } else if (field === "crawl-delay") {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.policy.crawlDelaySeconds = seconds;
+    }
+  }
+
+  const named = groups.filter((g) => g.agents.includes(token));
+  const selected = named.length > 0 ? named : groups.filter((g) => g.agents.includes("*"));
+  const policy: RobotsPolicy = { rules: [], crawlDelaySeconds: null };
+  for (const group of selected) {
+    policy.rules.push(...group.policy.rules);
+    if (group.policy.crawlDelaySeconds !== null) {
+      policy.crawlDelaySeconds = Math.max(policy.crawlDelaySeconds ?? 0, group.policy.crawlDelaySeconds);
+    }
+  }
+  return policy;
+}
+
+function ruleMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`).test(path);
+}
+
+/**
+ * Whether robots rules allow a path (path + query, e.g. "/team?page=2")
+ */
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  if (path === "/robots.txt") return true;
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!ruleMatches(rule.pattern, path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+async function fetchRobotsPolicy(origin: string): Promise<{ policy: RobotsPolicy; ttl: number }> {
+  try {
+    const response = await axios.get(`${origin}/robots.txt`, {
+      timeout: 10000,
+      headers: { "User-Agent": `${CRAWLER_USER_AGENT}/1.0` },
+      responseType: "text",
+      maxContentLength: ROBOTS_MAX_BYTES,
+      validateStatus: () => true,
+    });
+    if (response.status >= 500) {
+      console.log(`[crawlPolicy] robots.txt for ${origin} returned ${response.status} — not crawling for now`);
+      return { policy: DISALLOW_ALL, ttl: ROBOTS_RETRY_TTL_SECONDS };
+    }
+    if (response.status >= 400) return { policy: ALLOW_ALL, ttl: ROBOTS_TTL_SECONDS };
+    return { policy: parseRobotsTxt(String(response.data ?? "")), ttl: ROBOTS_TTL_SECONDS };
+  } catch (error) {
+    console.log(`[crawlPolicy] robots.txt for ${origin} unreachable: ${error instanceof Error ? error.message : error}`);
+    return { policy: ALLOW_ALL, ttl: ROBOTS_RETRY_TTL_SECONDS };
+  }
+}
+
+export async function getRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+  return replayFetch("robots", origin, () => loadRobotsPolicy(origin));
+}
+
+async function loadRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+  const cacheKey = `robots:${origin}`;
+  const cached = await getCacheLayer().get<RobotsPolicy>(cacheKey);
+  if (cached) return cached;
+
+  // Concurrent fetches for the same site share one robots.txt request
+  let inFlight = robotsInFlight.get(origin);
+  if (!inFlight) {
+    inFlight = fetchRobotsPolicy(origin)
+      .then(async ({ policy, ttl }) => {
+        await getCacheLayer().set(cacheKey, policy, ttl, `${origin}/robots.txt`);
+        return policy;
+      })
+      .finally(() => robotsInFlight.delete(origin));
+    robotsInFlight.set(origin, inFlight);
+  }
+  return inFlight;
+}
+
+// ---------------------------------------------------------------------------
+// Blocklist
+// ---------------------------------------------------------------------------
+
+/**
+ * "https://www.Example.com/about" / "example.com" → "example.com". Null if it isn't a domain.
+ */
+export function normalizeDomain(input: string): string | null {
+  let host = input.trim().toLowerCase();
+  if (!host) return null;
+  try {
+    host = new URL(host.includes("://") ? host : `http://${host}`).hostname;
+  } catch {
+    return null;
+  }
+  host = host.replace(/^www\./, "").replace(/\.$/, "");
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : null;
+}
+
+/**
+ * The blocklist entry covering hostname (the domain itself or any subdomain), or null
+ */
+export function findBlockedDomain(hostname: string, domains: string[]): string | null {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  return domains.find((d) => host === d || host.endsWith(`.${d}`)) ?? null;
+}
+
+async function getBlockedDomains(): Promise<string[]> {
+  if (blocklistCache && Date.now() - blocklistCache.loadedAt < BLOCKLIST_REFRESH_MS) {
+    return blocklistCache.domains;
+  }
+  const db = await getDb();
+  if (!db) return blocklistCache?.domains ?? [];
+  try {
+    const rows = await db.select({ domain: crawlBlocklist.domain }).from(crawlBlocklist);
+    blocklistCache = { domains: rows.map((r) => r.domain), loadedAt: Date.now() };
+  } catch (error) {
+    console.error("[crawlPolicy] Failed to load the domain blocklist:", error);
+    if (!blocklistCache) return [];
+  }
+  return blocklistCache?.domains ?? [];
+}
+
+export async function getCrawlBlocklist(): Promise<CrawlBlocklistEntry[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(crawlBlocklist).orderBy(asc(crawlBlocklist.domain));
+}
+
+/**
+ * Block a domain (normalised — callers validate it with normalizeDomain first).
+ * Adding a domain twice updates its reason.
+ */
+export async function addBlockedDomain(userId: number, domain: string, reason: string | null): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(crawlBlocklist)
+    .values({ domain, reason, createdBy: userId })
+    .onDuplicateKeyUpdate({ set: { reason } });
+  blocklistCache = null;
+}
+
+export async function removeBlockedDomain(id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.delete(crawlBlocklist).where(eq(crawlBlocklist.id, id));
+  blocklistCache = null;
+  return ((result as any)[0]?.affectedRows ?? 0) > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Decisions
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a URL may be fetched, and the gap to keep between requests to its origin
+ */
+export async function checkCrawlPolicy(url: string): Promise<CrawlDecision> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { allowed: true, crawlDelayMs: 0 }; // not a URL — the fetch fails on its own
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return { allowed: true, crawlDelayMs: 0 };
+
+  const blocked = findBlockedDomain(parsed.hostname, await getBlockedDomains());
+  if (blocked) return { allowed: false, reason: "blocklist", detail: `${blocked} is on the crawl blocklist` };
+
+  const policy = await getRobotsPolicy(parsed.origin);
+  if (!isPathAllowed(policy, `${parsed.pathname}${parsed.search}`)) {
+    return { allowed: false, reason: "robots", detail: `Disallowed by ${parsed.origin}/robots.txt` };
+  }
+  const delay = policy.crawlDelaySeconds ?? 0;
+  if (delay > MAX_CRAWL_DELAY_SECONDS) {
+    return { allowed: false, reason: "robots", detail: `${parsed.origin}/robots.txt asks for a ${delay}s Crawl-delay` };
+  }
+  return { allowed: true, crawlDelayMs: delay * 1000 };
+}
+
+/**
+ * The origin's Crawl-delay in ms (0 if none) — withDomainRateLimit keeps at least this gap
+ */
+export async function getCrawlDelayMs(url: string): Promise<number> {
+  const decision = await checkCrawlPolicy(url);
+  return decision.allowed ? decision.crawlDelayMs : 0;
+}
+
+function skipUrl(url: string, detail: string): void {
+  console.log(`[crawlPolicy] Skipping ${url}: ${detail}`);
+  const jobId = currentUsageJobId();
+  if (jobId === null) return;
+  const key = `${jobId} ${url}`;
+  if (recordedSkips.has(key)) return;
+  if (recordedSkips.size >= MAX_RECORDED_SKIPS) recordedSkips.clear();
+  recordedSkips.add(key);
+  insertJobLog({ jobId, url, status: "skipped", errorReason: CRAWL_DISALLOWED_REASON, errorDetail: detail }).catch(() => {});
+}
+
+/**
+ * Check a URL before fetching it. Disallowed URLs are logged (and recorded for the current job).
+ */
+export async function isCrawlAllowed(url: string): Promise<boolean> {
+  const decision = await checkCrawlPolicy(url);
+  if (!decision.allowed) skipUrl(url, decision.detail);
+  return decision.allowed;
+}
+
+/**
+ * isCrawlAllowed, then wait for the origin's next Crawl-delay slot. Call right before a request.
+ */
+export async function acquireCrawlPermit(url: string): Promise<boolean> {
+  const decision = await checkCrawlPolicy(url);
+  if (!decision.allowed) {
+    skipUrl(url, decision.detail);
+    return false;
+  }
+  if (decision.crawlDelayMs === 0) return true;
+
+  const origin = new URL(url).origin;
+  const now = Date.now();
+  const slot = Math.max(now, nextCrawlSlot.get(origin) ?? 0);
+  nextCrawlSlot.set(origin, slot + decision.crawlDelayMs);
+  if (slot > now) await new Promise((resolve) => setTimeout(resolve, slot - now));
+  return true;
+}
@@ -0,0 +1,143 @@
+/**
+ * Mock CRM Server
+ *
+ * In-memory stand-in for the parts of the HubSpot and Salesforce APIs crmPush.ts uses, for tests
+ * and for trying a push locally (`pnpm mock-crm`, then a connection with base URL
+ * http://localhost:4010 and token "mock-token" — the server needs OUTBOUND_ALLOW_PRIVATE_HOSTS=true):
+ *
+ *   HubSpot     POST  /crm/v3/objects/{companies|contacts}/search   EQ filters only
+ *               POST  /crm/v3/objects/{companies|contacts}
+ *               PATCH /crm/v3/objects/{companies|contacts}/:id
+ *               PUT   /crm/v4/objects/contacts/:id/associations/default/companies/:companyId
+ *   Salesforce  GET   /services/data/:version/query?q=SELECT Id FROM {Account|Contact} WHERE Field = '...'
+ *               POST  /services/data/:version/sobjects/{Account|Contact}
+ *               PATCH /services/data/:version/sobjects/{Account|Contact}/:id
+ *
+ * Companies and contacts are shared between both APIs (Account = company, Contact = contact).
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+
+export interface MockCrmRecord {
+  id: string;
+  properties: Record<string, string>;
+  /** Company the contact is linked to */
+  companyId?: string;
+}
+
+export interface MockCrm {
+  url: string;
+  companies: Map<string, MockCrmRecord>;
+  contacts: Map<string, MockCrmRecord>;
+  /** "METHOD /path" of every request received */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+export interface MockCrmOptions {
+  port?: number;
+  /** Bearer token required on every request (default "mock-token") */
+  token?: string;
+}
+
+export async function startMockCrmServer(options: MockCrmOptions = {}): Promise<MockCrm> {
+  const token = options.token ?? "mock-token";
+  const companies = new Map<string, MockCrmRecord>();
+  const contacts = new Map<string, MockCrmRecord>();
+  const requests: string[] = [];
+  let nextId = 1;
+
+  const store = (type: string) => (/^(companies|Account)$/.test(type) ? companies : contacts);
+
+  const find = (records: Map<string, MockCrmRecord>, property: string, value: string) =>
+    Array.from(records.values()).find((r) => (r.properties[property] ?? "").toLowerCase() === value.toLowerCase());
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => { raw += chunk; });
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const method = req.method ?? "GET";
+      requests.push(`${method} ${url.pathname}`);
+
+      const send = (status: number, body?: unknown) => {
+        res.writeHead(status, body === undefined ? {} : { "Content-Type": "application/json" });
+        res.end(body === undefined ? undefined : JSON.stringify(body));
+      };
+
+      if (req.headers.authorization !== `Bearer ${token}`) return send(401, { message: "Authentication credentials not found" });
+
+      let body: any = {};
+      try {
+        body = raw ? JSON.parse(raw) : {};
+      } catch {
+        return send(400, { message: "Invalid JSON" });
+      }
+
+      let match: RegExpMatchArray | null;
+
+      // --- HubSpot ---
+      if (method === "POST" && (match = url.pathname.match(/^\/crm\/v3\/objects\/(companies|contacts)\/search$/))) {
+        const filter = body.filterGroups?.[0]?.filters?.[0];
+        const record = filter ? find(store(match[1]), filter.propertyName, String(filter.value)) : undefined;
+        return send(200, { total: record ? 1 : 0, results: record ? [{ id: record.id, properties: record.properties }] : [] });
+      }
+      if (method === "POST" && (match = url.pathname.match(/^\/crm\/v3\/objects\/(companies|contacts)$/))) {
+        const record: MockCrmRecord = { id: String(nextId++), properties: { ...body.properties } };
+        const companyId = body.associations?.[0]?.to?.id;
+        if (companyId) record.companyId = String(companyId);
+        store(match[1]).set(record.id, record);
+        return send(201, { id: record.id, properties: record.properties });
+      }
+      if (method === "PATCH" && (match = url.pathname.match(/^\/crm\/v3\/objects\/(companies|contacts)\/(\w+)$/))) {
+        const record = store(match[1]).get(match[2]);
+        if (!record) return send(404, { message: "Object not found" });
+        Object.assign(record.properties, body.properties);
+        return send(200, { id: record.id, properties: record.properties });
+      }
+      if (method === "PUT" && (match = url.pathname.match(/^\/crm\/v4\/objects\/contacts\/(\w+)\/associations\/default\/companies\/(\w+)$/))) {
+        const record = contacts.get(match[1]);
+        if (!record || !companies.has(match[2])) return send(404, { message: "Object not found" });
+        record.companyId = match[2];
+        return send(200, { status: "COMPLETE" });
+      }
+
+      // --- Salesforce ---
+      if (method === "GET" && /^\/services\/data\/v[\d.]+\/query$/.test(url.pathname)) {
+        const soql = (url.searchParams.get("q") ?? "").match(/^SELECT Id FROM (Account|Contact) WHERE (\w+) = '((?:[^'\\]|\\.)*)'/);
+        if (!soql) return send(400, [{ errorCode: "MALFORMED_QUERY", message: "Unsupported query" }]);
+        const record = find(store(soql[1]), soql[2], soql[3].replace(/\\(.)/g, "$1"));
+        return send(200, { totalSize: record ? 1 : 0, done: true, records: record ? [{ Id: record.id }] : [] });
+      }
+      if (method === "POST" && (match = url.pathname.match(/^\/services\/data\/v[\d.]+\/sobjects\/(Account|Contact)$/))) {
+        const { AccountId, ...properties } = body;
+        const record: MockCrmRecord = { id: String(nextId++), properties };
+        if (AccountId) record.companyId = String(AccountId);
+        store(match[1]).set(record.id, record);
+        return send(201, { id: record.id, success: true, errors: [] });
+      }
+      if (method === "PATCH" && (match = url.pathname.match(/^\/services\/data\/v[\d.]+\/sobjects\/(Account|Contact)\/(\w+)$/))) {
+        const record = store(match[1]).get(match[2]);
+        if (!record) return send(404, [{ errorCode: "NOT_FOUND", message: "The requested resource does not exist" }]);
+        const { AccountId, ...properties } = body;
+        Object.assign(record.properties, properties);
+        if (AccountId) record.companyId = String(AccountId);
+        return send(204);
+      }
+
+      return send(404, { message: `No mock route for ${method} ${url.pathname}` });
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    companies,
+    contacts,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { EnrichedFirm, TeamMember } from "../drizzle/schema";
+import {
+  createCrmClient,
+  CrmApiError,
+  mapProperties,
+  resolveFieldMapping,
+  runCrmPush,
+  validateFieldMapping,
+  type CrmProvider,
+} from "./crmPush";
+import { startMockCrmServer, type MockCrm } from "./crmMockServer";
+import { canonicalLinkedInUrl } from "./entityStore";
+import { NonPublicHostError } from "./publicHost";
+
+function firm(id: number, companyName: string, websiteUrl: string | null): EnrichedFirm {
+  return {
+    id, jobId: 1, companyName, websiteUrl, description: `${companyName} invests early`,
+    websiteVerified: "Yes", verificationMessage: null, investorType: "Venture Capital", investorTypeConfidence: 90,
+    investorTypeSourceUrl: null, investmentStages: "Seed", investmentStagesConfidence: 90, investmentStagesSourceUrl: null,
+    investmentNiches: null, nichesConfidence: null, nichesSourceUrl: null, investmentThesis: null, aum: "$500M",
+    sectorFocus: null, geographicFocus: null, foundedYear: null, headquarters: null, firmEntityId: null, reusedFromFirmId: null, createdAt: new Date(),
+  };
+}
+
+function member(id: number, firmId: number, name: string, extra: Partial<TeamMember> = {}): TeamMember {
+  return {
+    id, jobId: 1, firmId, vcFirm: "Acme Ventures", name, title: "Partner", jobFunction: null, specialization: null,
+    linkedinUrl: null, email: null, emailPattern: null, emailConfidence: null, emailVerification: null,
+    portfolioCompanies: null, investmentFocus: null, stagePreference: null,
+    checkSizeRange: null, geographicFocus: null, investmentThesis: null, notableInvestments: null, yearsExperience: null,
+    background: null, dataSourceUrl: null, confidenceScore: 90, decisionMakerTier: "Tier 1", tierPriority: 1,
+    personEntityId: null, createdAt: new Date(), ...extra,
+  };
+}
+
+describe("field mapping", () => {
+  it("should merge per-template overrides over the provider defaults", () => {
+    const overrides = JSON.stringify({ vc: { companies: { aum_c: "aum", description: "" } } });
+    const vc = resolveFieldMapping("hubspot", overrides, "vc");
+    expect(vc.companies).toEqual({ name: "companyName", domain: "domain", website: "websiteUrl", aum_c: "aum" });
+    expect(resolveFieldMapping("hubspot", overrides, "b2b").companies.description).toBe("description");
+
+    const noKey = resolveFieldMapping("salesforce", JSON.stringify({ vc: { contacts: { Email: "", LinkedIn_URL__c: "" } } }), "vc");
+    expect(validateFieldMapping(noKey)).toMatch(/linkedinUrl.*email/);
+  });
+
+  it("should leave empty values out and canonicalize LinkedIn URLs", () => {
+    expect(mapProperties({ a: "x", b: "y", c: "z" }, { x: "1", y: "", z: null })).toEqual({ a: "1" });
+    expect(canonicalLinkedInUrl("linkedin.com/in/Jane-Doe/?trk=abc")).toBe("https://www.linkedin.com/in/jane-doe");
+    expect(canonicalLinkedInUrl("https://www.linkedin.com/company/acme")).toBeNull();
+  });
+});
+
+describe.each<CrmProvider>(["hubspot", "salesforce"])("runCrmPush against the mock %s API", (provider) => {
+  let crm: MockCrm;
+
+  beforeEach(async () => {
+    // The mock listens on 127.0.0.1
+    vi.stubEnv("OUTBOUND_ALLOW_PRIVATE_HOSTS", "true");
+    crm = await startMockCrmServer();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await crm.close();
+  });
+
+  const firms = [firm(1, "Acme Ventures", "https://www.acme.vc/team"), firm(2, "Acme (dup)", "acme.vc"), firm(3, "No Site", null)];
+  const members = [
+    member(10, 1, "Jane Doe", { linkedinUrl: "https://linkedin.com/in/jane-doe/", email: "Jane@acme.vc" }),
+    member(11, 1, "John Roe", { email: "john@acme.vc" }),
+    member(12, 1, "Anonymous"),
+    member(13, 1, "Jane Doe", { email: "jane@acme.vc" }),
+  ];
+
+  it("should report creates vs updates in a dry run without writing", async () => {
+    const client = createCrmClient({ provider, baseUrl: crm.url, accessToken: "mock-token" });
+    const mapping = resolveFieldMapping(provider, null, "vc");
+    const domainProperty = provider === "hubspot" ? "domain" : "Domain__c";
+    const emailProperty = provider === "hubspot" ? "email" : "Email";
+    crm.companies.set("c1", { id: "c1", properties: { [domainProperty]: "acme.vc" } });
+    crm.contacts.set("p1", { id: "p1", properties: { [emailProperty]: "john@acme.vc" } });
+
+    const report = await runCrmPush(client, mapping, firms, members, true);
+    expect(report.companies).toEqual({ create: 0, update: 1, skip: 2, error: 0 });
+    expect(report.contacts).toEqual({ create: 1, update: 1, skip: 2, error: 0 });
+    expect(report.actions.find((a) => a.name === "John Roe")).toMatchObject({ action: "update", crmId: "p1" });
+    expect(crm.companies.size).toBe(1);
+    expect(crm.contacts.size).toBe(1);
+    expect(crm.requests.every((r) => /search|query/.test(r))).toBe(true);
+  });
+
+  it("should upsert companies and contacts, linking contacts to their company, and update on re-push", async () => {
+    const client = createCrmClient({ provider, baseUrl: crm.url, accessToken: "mock-token" });
+    const mapping = resolveFieldMapping(provider, null, "vc");
+
+    const first = await runCrmPush(client, mapping, firms, members, false);
+    expect(first.companies.create).toBe(1);
+    expect(first.contacts.create).toBe(2);
+    const [company] = Array.from(crm.companies.values());
+    expect(Object.values(company.properties)).toContain("acme.vc");
+    const jane = Array.from(crm.contacts.values()).find((c) => Object.values(c.properties).includes("Jane"))!;
+    expect(Object.values(jane.properties)).toEqual(expect.arrayContaining(["Doe", "jane@acme.vc", "https://www.linkedin.com/in/jane-doe"]));
+    expect(jane.companyId).toBe(company.id);
+
+    const second = await runCrmPush(client, mapping, firms, members, false);
+    expect(second.companies).toMatchObject({ create: 0, update: 1 });
+    expect(second.contacts).toMatchObject({ create: 0, update: 2 });
+    expect(crm.contacts.size).toBe(2);
+  });
+
+  it("should abort on authentication failures", async () => {
+    const client = createCrmClient({ provider, baseUrl: crm.url, accessToken: "wrong" });
+    await expect(runCrmPush(client, resolveFieldMapping(provider, null, "vc"), firms, members, true)).rejects.toBeInstanceOf(CrmApiError);
+  });
+
+  it("should refuse a base URL on a private host before sending anything", async () => {
+    vi.stubEnv("OUTBOUND_ALLOW_PRIVATE_HOSTS", "");
+    const client = createCrmClient({ provider, baseUrl: crm.url, accessToken: "mock-token" });
+    await expect(runCrmPush(client, resolveFieldMapping(provider, null, "vc"), firms, members, false)).rejects.toBeInstanceOf(NonPublicHostError);
+    expect(crm.requests).toEqual([]);
+  });
+});
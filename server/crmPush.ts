@@ -0,0 +1,519 @@
+/**
+ * CRM Push
+ *
+ * Upserts a job's results into a HubSpot- or Salesforce-compatible CRM:
+ * - enrichedFirms → companies (HubSpot) / Accounts (Salesforce), matched on website domain
+ * - teamMembers   → contacts / Contacts, matched on LinkedIn URL, then email, and linked to their firm
+ *
+ * Which CRM property gets which result column is a field mapping per template (provider
+ * defaults, overridden per connection). Dry runs look every record up but write nothing,
+ * reporting what would be created vs updated.
+ *
+ * Connections live in crmConnections. Base URLs must be public hosts (publicHost.ts), checked
+ * when the connection is saved and before every request. For local testing point one at the
+ * mock CRM (crmMockServer.ts, `pnpm mock-crm`) with OUTBOUND_ALLOW_PRIVATE_HOSTS=true.
+ */
+
+import { eq } from "drizzle-orm";
+import {
+  crmConnections,
+  enrichedFirms,
+  teamMembers,
+  type CrmConnection,
+  type EnrichedFirm,
+  type EnrichmentJob,
+  type TeamMember,
+} from "../drizzle/schema";
+import { getDb } from "./db";
+import { normalizeDomain } from "./crawlPolicy";
+import { canonicalLinkedInUrl } from "./entityStore";
+import { assertPublicUrl, NonPublicHostError } from "./publicHost";
+
+export const CRM_PROVIDERS = ["hubspot", "salesforce"] as const;
+export type CrmProvider = (typeof CRM_PROVIDERS)[number];
+export type CrmObject = "company" | "contact";
+
+/** CRM property → result column (or one of the derived columns below) */
+export interface CrmFieldMapping {
+  companies: Record<string, string>;
+  contacts: Record<string, string>;
+}
+
+/**
+ * Result columns available to mappings besides the enrichedFirms / teamMembers columns:
+ * firms get `domain`; team members get `firstName`, `lastName`, `companyName`, `companyDomain`
+ * and a canonical `linkedinUrl` (https://www.linkedin.com/in/<slug>).
+ */
+export const DEFAULT_FIELD_MAPPINGS: Record<CrmProvider, CrmFieldMapping> = {
+  hubspot: {
+    companies: { name: "companyName", domain: "domain", website: "websiteUrl", description: "description" },
+    // linkedin_url is a custom single-line text contact property — create it or remap
+    contacts: { firstname: "firstName", lastname: "lastName", email: "email", jobtitle: "title", linkedin_url: "linkedinUrl" },
+  },
+  salesforce: {
+    // Domain__c / LinkedIn_URL__c are custom text fields — create them or remap
+    companies: { Name: "companyName", Domain__c: "domain", Website: "websiteUrl", Description: "description" },
+    contacts: { FirstName: "firstName", LastName: "lastName", Email: "email", Title: "title", LinkedIn_URL__c: "linkedinUrl" },
+  },
+};
+
+export interface CrmPushAction {
+  object: CrmObject;
+  action: "create" | "update" | "skip" | "error";
+  /** Match key, e.g. "domain=acme.vc" or "linkedinUrl=https://www.linkedin.com/in/jane" */
+  key: string | null;
+  name: string;
+  crmId?: string;
+  properties?: Record<string, string>;
+  reason?: string;
+}
+
+export interface CrmPushCounts {
+  create: number;
+  update: number;
+  skip: number;
+  error: number;
+}
+
+export interface CrmPushReport {
+  dryRun: boolean;
+  companies: CrmPushCounts;
+  contacts: CrmPushCounts;
+  actions: CrmPushAction[];
+}
+
+export class CrmApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = "CrmApiError";
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 15_000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// ---------------------------------------------------------------------------
+// Field mapping
+// ---------------------------------------------------------------------------
+
+/**
+ * Provider defaults with the connection's overrides for the template merged on top.
+ * Mapping a property to "" removes a default.
+ */
+export function resolveFieldMapping(
+  provider: CrmProvider,
+  overridesJson: string | null,
+  templateId: string,
+): CrmFieldMapping {
+  const defaults = DEFAULT_FIELD_MAPPINGS[provider];
+  let overrides: Partial<CrmFieldMapping> = {};
+  if (overridesJson) {
+    try {
+      overrides = (JSON.parse(overridesJson) as Record<string, Partial<CrmFieldMapping>>)[templateId] ?? {};
+    } catch {
+      overrides = {};
+    }
+  }
+  const merge = (base: Record<string, string>, extra: Record<string, string> = {}) =>
+    Object.fromEntries(Object.entries({ ...base, ...extra }).filter(([, source]) => source));
+  return {
+    companies: merge(defaults.companies, overrides.companies),
+    contacts: merge(defaults.contacts, overrides.contacts),
+  };
+}
+
+/**
+ * The CRM property a result column is mapped to (records are matched on it)
+ */
+export function keyProperty(mapping: Record<string, string>, source: string): string | null {
+  return Object.keys(mapping).find((property) => mapping[property] === source) ?? null;
+}
+
+/**
+ * Why a mapping can't be used for upserts, or null if it can
+ */
+export function validateFieldMapping(mapping: CrmFieldMapping): string | null {
+  if (!keyProperty(mapping.companies, "domain")) {
+    return "The company mapping must map a property to \"domain\" — companies are matched on it";
+  }
+  if (!keyProperty(mapping.contacts, "linkedinUrl") && !keyProperty(mapping.contacts, "email")) {
+    return "The contact mapping must map a property to \"linkedinUrl\" or \"email\" — contacts are matched on them";
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Records
+// ---------------------------------------------------------------------------
+
+function splitPersonName(name: string): { firstName: string; lastName: string } {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) return { firstName: "", lastName: parts[0] };
+  return { firstName: parts[0], lastName: parts.slice(1).join(" ") };
+}
+
+export function companyRecord(firm: EnrichedFirm): Record<string, unknown> {
+  return { ...firm, domain: firm.websiteUrl ? normalizeDomain(firm.websiteUrl) : null };
+}
+
+export function contactRecord(member: TeamMember, firm?: EnrichedFirm): Record<string, unknown> {
+  return {
+    ...member,
+    ...splitPersonName(member.name),
+    email: member.email?.trim().toLowerCase() || null,
+    linkedinUrl: canonicalLinkedInUrl(member.linkedinUrl),
+    companyName: member.vcFirm,
+    companyDomain: firm?.websiteUrl ? normalizeDomain(firm.websiteUrl) : null,
+  };
+}
+
+/**
+ * CRM properties for a record; empty values are left out so they never blank CRM data
+ */
+export function mapProperties(mapping: Record<string, string>, record: Record<string, unknown>): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const [property, source] of Object.entries(mapping)) {
+    const value = record[source];
+    if (value === null || value === undefined) continue;
+    const text = (value instanceof Date ? value.toISOString() : String(value)).trim();
+    if (text) properties[property] = text;
+  }
+  return properties;
+}
+
+// ---------------------------------------------------------------------------
+// CRM clients
+// ---------------------------------------------------------------------------
+
+export interface CrmClient {
+  /** Id of the first record whose property equals value, or null */
+  findRecord(object: CrmObject, property: string, value: string): Promise<string | null>;
+  /** Create a record; contacts are linked to companyId when given */
+  createRecord(object: CrmObject, properties: Record<string, string>, companyId?: string | null): Promise<string>;
+  updateRecord(object: CrmObject, id: string, properties: Record<string, string>, companyId?: string | null): Promise<void>;
+}
+
+type FetchFn = typeof fetch;
+
+/**
+ * JSON request with a Bearer token. 429s are retried after Retry-After; other non-2xx
+ * responses (redirects included) throw CrmApiError, a non-public host NonPublicHostError.
+ */
+async function crmRequest<T>(
+  fetchFn: FetchFn,
+  token: string,
+  method: string,
+  url: string,
+  body?: unknown,
+): Promise<T | null> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let response: Response;
+    try {
+      // Checked on every request: the host may have been re-pointed since the URL was saved
+      await assertPublicUrl(url);
+      response = await fetchFn(url, {
+        method,
+        headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json", "Accept": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+        redirect: "manual",
+      });
+    } catch (err) {
+      if (err instanceof NonPublicHostError) throw err;
+      throw new CrmApiError(0, controller.signal.aborted ? `Timed out after ${REQUEST_TIMEOUT_MS}ms` : err instanceof Error ? err.message : String(err));
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+      const retryAfter = Number(response.headers.get("retry-after"));
+      await new Promise((resolve) => setTimeout(resolve, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : 1000 * 2 ** attempt));
+      continue;
+    }
+    const text = await response.text();
+    if (!response.ok) {
+      throw new CrmApiError(response.status, `${method} ${new URL(url).pathname} failed with HTTP ${response.status}: ${text.slice(0, 300)}`);
+    }
+    return text ? (JSON.parse(text) as T) : null;
+  }
+}
+
+/**
+ * HubSpot CRM v3 objects API (search / create / update) with v4 default associations
+ */
+export class HubSpotClient implements CrmClient {
+  constructor(private baseUrl: string, private token: string, private fetchFn: FetchFn = fetch) {}
+
+  private objectType(object: CrmObject): string {
+    return object === "company" ? "companies" : "contacts";
+  }
+
+  private url(path: string): string {
+    return `${this.baseUrl.replace(/\/+$/, "")}${path}`;
+  }
+
+  async findRecord(object: CrmObject, property: string, value: string): Promise<string | null> {
+    const result = await crmRequest<{ results?: Array<{ id: string }> }>(
+      this.fetchFn, this.token, "POST", this.url(`/crm/v3/objects/${this.objectType(object)}/search`),
+      { filterGroups: [{ filters: [{ propertyName: property, operator: "EQ", value }] }], properties: [property], limit: 1 },
+    );
+    return result?.results?.[0]?.id ?? null;
+  }
+
+  async createRecord(object: CrmObject, properties: Record<string, string>, companyId?: string | null): Promise<string> {
+    const associations = object === "contact" && companyId
+      ? [{ to: { id: companyId }, types: [{ associationCategory: "HUBSPOT_DEFINED", associationTypeId: 1 }] }]
+      : undefined;
+    const result = await crmRequest<{ id: string }>(
+      this.fetchFn, this.token, "POST", this.url(`/crm/v3/objects/${this.objectType(object)}`),
+      { properties, ...(associations && { associations }) },
+    );
+    if (!result?.id) throw new CrmApiError(500, `Create ${object} returned no id`);
+    return result.id;
+  }
+
+  async updateRecord(object: CrmObject, id: string, properties: Record<string, string>, companyId?: string | null): Promise<void> {
+    await crmRequest(this.fetchFn, this.token, "PATCH", this.url(`/crm/v3/objects/${this.objectType(object)}/${id}`), { properties });
+    if (object === "contact" && companyId) {
+      await crmRequest(this.fetchFn, this.token, "PUT", this.url(`/crm/v4/objects/contacts/${id}/associations/default/companies/${companyId}`));
+    }
+  }
+}
+
+/**
+ * Salesforce REST API (SOQL query / sObject create / update); contacts link via AccountId
+ */
+export class SalesforceClient implements CrmClient {
+  static readonly API_VERSION = "v59.0";
+
+  constructor(private baseUrl: string, private token: string, private fetchFn: FetchFn = fetch) {}
+
+  private sObject(object: CrmObject): string {
+    return object === "company" ? "Account" : "Contact";
+  }
+
+  private url(path: string): string {
+    return `${this.baseUrl.replace(/\/+$/, "")}/services/data/${SalesforceClient.API_VERSION}${path}`;
+  }
+
+  private withAccount(object: CrmObject, properties: Record<string, string>, companyId?: string | null) {
+    return object === "contact" && companyId ? { ...properties, AccountId: companyId } : properties;
+  }
+
+  async findRecord(object: CrmObject, property: string, value: string): Promise<string | null> {
+    if (!/^\w+$/.test(property)) throw new CrmApiError(400, `Invalid Salesforce field name: ${property}`);
+    const literal = value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+    const soql = `SELECT Id FROM ${this.sObject(object)} WHERE ${property} = '${literal}' LIMIT 1`;
+    const result = await crmRequest<{ records?: Array<{ Id: string }> }>(
+      this.fetchFn, this.token, "GET", this.url(`/query?q=${encodeURIComponent(soql)}`),
+    );
+    return result?.records?.[0]?.Id ?? null;
+  }
+
+  async createRecord(object: CrmObject, properties: Record<string, string>, companyId?: string | null): Promise<string> {
+    const result = await crmRequest<{ id: string }>(
+      this.fetchFn, this.token, "POST", this.url(`/sobjects/${this.sObject(object)}`),
+      this.withAccount(object, properties, companyId),
+    );
+    if (!result?.id) throw new CrmApiError(500, `Create ${object} returned no id`);
+    return result.id;
+  }
+
+  async updateRecord(object: CrmObject, id: string, properties: Record<string, string>, companyId?: string | null): Promise<void> {
+    await crmRequest(
+      this.fetchFn, this.token, "PATCH", this.url(`/sobjects/${this.sObject(object)}/${id}`),
+      this.withAccount(object, properties, companyId),
+    );
+  }
+}
+
+export function createCrmClient(connection: Pick<CrmConnection, "provider" | "baseUrl" | "accessToken">, fetchFn: FetchFn = fetch): CrmClient {
+  return connection.provider === "salesforce"
+    ? new SalesforceClient(connection.baseUrl, connection.accessToken, fetchFn)
+    : new HubSpotClient(connection.baseUrl, connection.accessToken, fetchFn);
+}
+
+// ---------------------------------------------------------------------------
+// Push
+// ---------------------------------------------------------------------------
+
+function emptyCounts(): CrmPushCounts {
+  return { create: 0, update: 0, skip: 0, error: 0 };
+}
+
+/** Auth / permission failures and a non-public host apply to every record — stop instead of logging one error per row */
+function isFatal(err: unknown): boolean {
+  return (err instanceof CrmApiError && (err.status === 401 || err.status === 403)) || err instanceof NonPublicHostError;
+}
+
+/**
+ * Upsert firms as companies, then team members as contacts linked to them.
+ * A record that fails is reported and skipped; auth failures abort the push.
+ */
+export async function runCrmPush(
+  client: CrmClient,
+  mapping: CrmFieldMapping,
+  firms: EnrichedFirm[],
+  members: TeamMember[],
+  dryRun: boolean,
+): Promise<CrmPushReport> {
+  const mappingError = validateFieldMapping(mapping);
+  if (mappingError) throw new Error(mappingError);
+
+  const report: CrmPushReport = { dryRun, companies: emptyCounts(), contacts: emptyCounts(), actions: [] };
+  const record = (action: CrmPushAction) => {
+    report.actions.push(action);
+    report[action.object === "company" ? "companies" : "contacts"][action.action]++;
+  };
+
+  // Firm id → CRM company id (null in dry runs for companies that would be created)
+  const companyIds = new Map<number, string | null>();
+  const companiesByDomain = new Map<string, string | null>();
+  const domainProperty = keyProperty(mapping.companies, "domain")!;
+
+  for (const firm of firms) {
+    const properties = mapProperties(mapping.companies, companyRecord(firm));
+    const domain = properties[domainProperty];
+    if (!domain) {
+      record({ object: "company", action: "skip", key: null, name: firm.companyName, reason: "No website domain to match on" });
+      continue;
+    }
+    const key = `domain=${domain}`;
+    if (companiesByDomain.has(domain)) {
+      companyIds.set(firm.id, companiesByDomain.get(domain)!);
+      record({ object: "company", action: "skip", key, name: firm.companyName, reason: "Same domain as an earlier firm in this job" });
+      continue;
+    }
+
+    try {
+      const existingId = await client.findRecord("company", domainProperty, domain);
+      let crmId = existingId;
+      if (!dryRun) {
+        if (existingId) await client.updateRecord("company", existingId, properties);
+        else crmId = await client.createRecord("company", properties);
+      }
+      companyIds.set(firm.id, crmId);
+      companiesByDomain.set(domain, crmId);
+      record({ object: "company", action: existingId ? "update" : "create", key, name: firm.companyName, crmId: crmId ?? undefined, properties });
+    } catch (err) {
+      if (isFatal(err)) throw err;
+      record({ object: "company", action: "error", key, name: firm.companyName, reason: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  const firmsById = new Map(firms.map((f) => [f.id, f] as const));
+  const keyProperties = (["linkedinUrl", "email"] as const)
+    .map((source) => ({ source, property: keyProperty(mapping.contacts, source) }))
+    .filter((k): k is { source: "linkedinUrl" | "email"; property: string } => k.property !== null);
+  const seenContacts = new Set<string>();
+
+  for (const member of members) {
+    const properties = mapProperties(mapping.contacts, contactRecord(member, firmsById.get(member.firmId)));
+    const keys = keyProperties.filter((k) => properties[k.property]);
+    if (keys.length === 0) {
+      record({ object: "contact", action: "skip", key: null, name: member.name, reason: "No LinkedIn URL or email to match on" });
+      continue;
+    }
+    const key = `${keys[0].source}=${properties[keys[0].property]}`;
+    if (keys.some((k) => seenContacts.has(`${k.source}=${properties[k.property]}`))) {
+      record({ object: "contact", action: "skip", key, name: member.name, reason: "Same person as an earlier team member in this job" });
+      continue;
+    }
+    keys.forEach((k) => seenContacts.add(`${k.source}=${properties[k.property]}`));
+
+    try {
+      let existingId: string | null = null;
+      for (const k of keys) {
+        existingId = await client.findRecord("contact", k.property, properties[k.property]);
+        if (existingId) break;
+      }
+      const companyId = companyIds.get(member.firmId) ?? null;
+      let crmId = existingId;
+      if (!dryRun) {
+        if (existingId) await client.updateRecord("contact", existingId, properties, companyId);
+        else crmId = await client.createRecord("contact", properties, companyId);
+      }
+      record({ object: "contact", action: existingId ? "update" : "create", key, name: member.name, crmId: crmId ?? undefined, properties });
+    } catch (err) {
+      if (isFatal(err)) throw err;
+      record({ object: "contact", action: "error", key, name: member.name, reason: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Push a VC-pipeline job's firms and team members through a connection
+ */
+export async function pushJobToCrm(
+  connection: CrmConnection,
+  job: EnrichmentJob,
+  options: { dryRun?: boolean } = {},
+): Promise<CrmPushReport> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const firms = await db.select().from(enrichedFirms).where(eq(enrichedFirms.jobId, job.id));
+  const members = await db.select().from(teamMembers).where(eq(teamMembers.jobId, job.id));
+  const mapping = resolveFieldMapping(connection.provider as CrmProvider, connection.fieldMappings, job.template ?? "vc");
+
+  const report = await runCrmPush(createCrmClient(connection), mapping, firms, members, options.dryRun ?? false);
+  if (!report.dryRun) {
+    await db.update(crmConnections).set({ lastPushedAt: new Date() }).where(eq(crmConnections.id, connection.id));
+  }
+  return report;
+}
+
+// ---------------------------------------------------------------------------
+// Connection CRUD
+// ---------------------------------------------------------------------------
+
+export async function createCrmConnection(
+  userId: number,
+  values: { name: string; provider: CrmProvider; baseUrl: string; accessToken: string; fieldMappings?: Record<string, Partial<CrmFieldMapping>> },
+): Promise<CrmConnection> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(crmConnections).values({
+    userId,
+    name: values.name,
+    provider: values.provider,
+    baseUrl: values.baseUrl,
+    accessToken: values.accessToken,
+    fieldMappings: values.fieldMappings ? JSON.stringify(values.fieldMappings) : null,
+  });
+  return (await getCrmConnection(Number(result[0].insertId)))!;
+}
+
+export async function getCrmConnection(id: number): Promise<CrmConnection | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(crmConnections).where(eq(crmConnections.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getUserCrmConnections(userId: number): Promise<CrmConnection[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(crmConnections).where(eq(crmConnections.userId, userId)).orderBy(crmConnections.createdAt);
+}
+
+export async function updateCrmConnection(connection: CrmConnection, updates: Partial<CrmConnection>): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(crmConnections).set(updates).where(eq(crmConnections.id, connection.id));
+}
+
+export async function deleteCrmConnection(connection: CrmConnection): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(crmConnections).where(eq(crmConnections.id, connection.id));
+}
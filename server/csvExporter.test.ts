@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { createAgentCSVExport, createCSVExport, createIndividualCSVs, resolveColumns, toCSV } from "./csvExporter";
+
+function unzip(buffer: Buffer): Record<string, string> {
+  const archive = XLSX.CFB.read(buffer, { type: "buffer" });
+  const files: Record<string, string> = {};
+  archive.FileIndex.forEach((entry: { name: string; type: number; content: Uint8Array }, i: number) => {
+    if (entry.type === 2 && archive.FullPaths[i].endsWith(".csv")) {
+      files[entry.name] = Buffer.from(entry.content).toString("utf-8");
+    }
+  });
+  return files;
+}
+
+describe("CSV columns", () => {
+  it("should put template fields first with their labels, then other columns, without internal ids", () => {
+    const rows = [{ id: 1, jobId: 7, extra: "x", name: "Jane", vcFirm: "Acme" }];
+    expect(resolveColumns(rows, [{ key: "vcFirm", label: "Firm" }, { key: "name", label: "Name" }])).toEqual([
+      { key: "vcFirm", label: "Firm" },
+      { key: "name", label: "Name" },
+      { key: "extra", label: "extra" },
+    ]);
+  });
+
+  it("should quote commas, quotes and line breaks", () => {
+    const csv = toCSV([{ key: "a", label: "A" }, { key: "b", label: "B" }], [{ a: 'Say "hi", ok', b: "line1\nline2" }, { a: null }]);
+    expect(csv).toBe('A,B\r\n"Say ""hi"", ok","line1\nline2"\r\n,\r\n');
+  });
+});
+
+describe("createCSVExport", () => {
+  it("should zip one CSV per template sheet, named after it", () => {
+    const files = createIndividualCSVs({
+      firms: [{ id: 1, jobId: 2, companyName: "Acme Ventures", websiteUrl: "https://acme.vc" }],
+      teamMembers: [{ id: 5, jobId: 2, name: "José Núñez", vcFirm: "Acme Ventures", title: "Partner" }],
+      portfolioCompanies: [],
+      investmentThesis: [{ id: 1, jobId: 2, vcFirm: "Acme Ventures", primaryFocus: "Fintech" }],
+    }, "vc");
+    expect(files.map((f) => f.name)).toEqual(["vc-firms.csv", "partners-team.csv", "investment-thesis.csv"]);
+    expect(files[1].content.split("\r\n")[0]).toMatch(/^Firm,Name,Title,Tier,/);
+    expect(files[1].content.split("\r\n")[1]).toMatch(/^Acme Ventures,José Núñez,Partner,/);
+
+    const { buffer, filename } = createCSVExport({ firms: [{ companyName: "Acme" }], teamMembers: [], portfolioCompanies: [] }, "b2b", "export-2", { bom: true, zip: true });
+    expect(filename).toBe("export-2.zip");
+    const zipped = unzip(buffer);
+    expect(Object.keys(zipped)).toEqual(["organizations.csv"]);
+    expect(zipped["organizations.csv"].startsWith("\uFEFFCompany Name,")).toBe(true);
+  });
+
+  it("should export only the firms CSV without the zip option", () => {
+    const { buffer, filename } = createCSVExport({
+      firms: [{ companyName: "Acme Ventures" }],
+      teamMembers: [{ name: "Jane Doe", vcFirm: "Acme Ventures" }],
+      portfolioCompanies: [],
+    }, "vc", "export-4");
+    expect(filename).toBe("export-4.csv");
+    expect(buffer.toString("utf-8")).toMatch(/^Firm Name,[^\r]*\r\nAcme Ventures,/);
+  });
+
+  it("should export every sheet of an agent workbook and keep headers when there are no results", () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["No profile results found"]]), "Results");
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([{ "Company Name": "Acme", "Directory URL": "https://dir.example/acme", "Native URL": "" }]), "Collected URLs");
+
+    const zipped = unzip(createAgentCSVExport(workbook, [{ key: "aum", label: "AUM", desc: "", type: "number", unit: "USD" }], "agent-results-3", { zip: true }).buffer);
+    expect(zipped["results.csv"]).toBe("Company Name,Website,AUM (USD)\r\n");
+    expect(zipped["collected-urls.csv"]).toBe("Company Name,Directory URL,Native URL\r\nAcme,https://dir.example/acme,\r\n");
+  });
+});
@@ -1,133 +1,195 @@
 /**
  * CSV Export Utility
- * Provides unlimited-row CSV export as an alternative to Excel
+ * Provides unlimited-row CSV export as an alternative to Excel: the main entity (firms / agent
+ * results) as one clean CSV, or with the zip option a ZIP with one CSV per entity (a single
+ * header row each), which spreadsheets and import tools open directly.
+ *
+ * - VC jobs: firms / team / portfolio (+ investment thesis), columns ordered and labelled by the
+ *   job's template (shared/templates.ts), other columns after them
+ * - Agent jobs: one CSV per sheet of the output workbook (results, collected URLs, sources, changes)
  */
 
-import type { EnrichedVCData, TeamMemberData, PortfolioCompanyData } from "./excelProcessor";
-import type { InvestmentThesisSummary } from "./investmentThesisAnalyzer";
+import * as XLSX from "xlsx";
+import { getTemplate, type TemplateField } from "../shared/templates";
+import { sectionColumnLabel } from "./sectionTypes";
+import type { AgentSection } from "./agentScraper";
+
+export interface CsvExportOptions {
+  /** Start each file with a UTF-8 byte order mark so Excel shows accented characters correctly */
+  bom?: boolean;
+  /** Export every entity as a ZIP of CSVs; otherwise only the first (firms / results) as one CSV */
+  zip?: boolean;
+}
+
+export interface CsvFile {
+  name: string;
+  content: string;
+}
+
+export interface ZipEntry {
+  name: string;
+  content: string | Buffer;
+}
+
+export interface VcExportData {
+  firms: Record<string, unknown>[];
+  teamMembers: Record<string, unknown>[];
+  portfolioCompanies: Record<string, unknown>[];
+  investmentThesis?: Record<string, unknown>[];
+}
+
+// Row bookkeeping columns left out of exports
+const INTERNAL_COLUMNS = new Set(["id", "jobId"]);
+
+const UTF8_BOM = "\uFEFF";
 
 /**
  * Escape CSV field value
  */
-function escapeCSV(value: any): string {
+function escapeCSV(value: unknown): string {
   if (value === null || value === undefined) {
     return "";
   }
-  
-  const str = String(value);
-  
+
+  const str = value instanceof Date ? value.toISOString() : String(value);
+
   // If the value contains comma, quote, or newline, wrap in quotes and escape quotes
-  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+  if (/[",\r\n]/.test(str)) {
     return `"${str.replace(/"/g, '""')}"`;
   }
-  
+
   return str;
 }
 
 /**
- * Convert array of objects to CSV string
+ * Template fields first, in template order and with their labels, then the rows' other columns
+ * in the order they appear
  */
-function arrayToCSV<T extends Record<string, any>>(data: T[]): string {
-  if (data.length === 0) {
-    return "";
+export function resolveColumns(rows: Record<string, unknown>[], templateFields: TemplateField[] = []): TemplateField[] {
+  const columns = templateFields.filter((f) => !INTERNAL_COLUMNS.has(f.key));
+  const seen = new Set(columns.map((c) => c.key));
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (seen.has(key) || INTERNAL_COLUMNS.has(key)) continue;
+      seen.add(key);
+      columns.push({ key, label: key });
+    }
   }
-  
-  // Get headers from first object
-  const headers = Object.keys(data[0]);
-  
-  // Create header row
-  const headerRow = headers.map(escapeCSV).join(",");
-  
-  // Create data rows
-  const dataRows = data.map(row => 
-    headers.map(header => escapeCSV(row[header])).join(",")
-  );
-  
-  return [headerRow, ...dataRows].join("\n");
+  return columns;
 }
 
 /**
- * Create a multi-sheet CSV export (as a ZIP file with multiple CSV files)
- * Returns a Buffer containing the ZIP file
+ * Header row + one line per row (RFC 4180, CRLF line endings)
  */
-export async function createCSVExport(
-  firms: EnrichedVCData[],
-  teamMembers: TeamMemberData[],
-  portfolioCompanies: PortfolioCompanyData[],
-  investmentThesisSummaries?: InvestmentThesisSummary[],
-): Promise<{ buffer: Buffer; filename: string }> {
-  // For simplicity, we'll create a single CSV with all data combined
-  // In a production environment, you might want to use a ZIP library to create multiple CSVs
-  
-  // Create separate CSV strings
-  const firmsCSV = arrayToCSV(firms);
-  const teamMembersCSV = arrayToCSV(teamMembers);
-  const portfolioCSV = arrayToCSV(portfolioCompanies);
-  const summaryCSV = investmentThesisSummaries ? arrayToCSV(investmentThesisSummaries) : "";
-  
-  // Combine all CSVs with section headers
-  const combinedCSV = [
-    "=== VC FIRMS ===",
-    firmsCSV,
-    "",
-    "=== TEAM MEMBERS ===",
-    teamMembersCSV,
-    "",
-    "=== PORTFOLIO COMPANIES ===",
-    portfolioCSV,
-  ];
-  
-  if (summaryCSV) {
-    combinedCSV.push("", "=== INVESTMENT THESIS SUMMARY ===", summaryCSV);
+export function toCSV(columns: TemplateField[], rows: Record<string, unknown>[]): string {
+  const lines = [columns.map((c) => escapeCSV(c.label)).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((c) => escapeCSV(row[c.key])).join(","));
   }
-  
-  const csvContent = combinedCSV.join("\n");
-  const buffer = Buffer.from(csvContent, "utf-8");
-  
-  return {
-    buffer,
-    filename: "vc-enrichment-export.csv",
-  };
+  return lines.join("\r\n") + "\r\n";
 }
 
 /**
- * Create individual CSV files for each sheet
+ * Rows of cells (header row first) as CSV, for tables that aren't lists of records
  */
-export function createIndividualCSVs(
-  firms: EnrichedVCData[],
-  teamMembers: TeamMemberData[],
-  portfolioCompanies: PortfolioCompanyData[],
-  investmentThesisSummaries?: InvestmentThesisSummary[],
-): { name: string; buffer: Buffer }[] {
-  const files: { name: string; buffer: Buffer }[] = [];
-  
-  if (firms.length > 0) {
-    files.push({
-      name: "vc-firms.csv",
-      buffer: Buffer.from(arrayToCSV(firms), "utf-8"),
-    });
-  }
-  
-  if (teamMembers.length > 0) {
-    files.push({
-      name: "team-members.csv",
-      buffer: Buffer.from(arrayToCSV(teamMembers), "utf-8"),
-    });
+export function rowsToCSV(rows: unknown[][]): string {
+  return rows.map((row) => row.map(escapeCSV).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * "Partners & Team" → "partners-team.csv"
+ */
+export function csvFileName(label: string): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "sheet"}.csv`;
+}
+
+/**
+ * ZIP archive of the given files (text is written as UTF-8, with the BOM option if set)
+ */
+export function createZipArchive(files: ZipEntry[], options: CsvExportOptions = {}): Buffer {
+  const zip = XLSX.CFB.utils.cfb_new();
+  for (const file of files) {
+    const content = typeof file.content === "string"
+      ? Buffer.from((options.bom ? UTF8_BOM : "") + file.content, "utf-8")
+      : file.content;
+    XLSX.CFB.utils.cfb_add(zip, file.name, content);
   }
-  
-  if (portfolioCompanies.length > 0) {
-    files.push({
-      name: "portfolio-companies.csv",
-      buffer: Buffer.from(arrayToCSV(portfolioCompanies), "utf-8"),
-    });
+  return Buffer.from(XLSX.CFB.write(zip, { fileType: "zip", type: "buffer", compression: true }));
+}
+
+/**
+ * Create individual CSV files for each sheet of a VC-pipeline job, named and ordered after the
+ * template's sheets (e.g. vc-firms.csv, partners-team.csv, portfolio-companies.csv)
+ */
+export function createIndividualCSVs(data: VcExportData, templateId = "vc"): CsvFile[] {
+  const template = getTemplate(templateId);
+  const sheetRows: Record<string, Record<string, unknown>[]> = {
+    firms: data.firms,
+    team: data.teamMembers,
+    portfolio: data.portfolioCompanies,
+  };
+
+  const files: CsvFile[] = [];
+  for (const sheet of template.sheets) {
+    const rows = sheetRows[sheet.key] ?? [];
+    if (rows.length === 0 && sheet.key !== "firms") continue;
+    files.push({ name: csvFileName(sheet.label), content: toCSV(resolveColumns(rows, sheet.fields), rows) });
   }
-  
-  if (investmentThesisSummaries && investmentThesisSummaries.length > 0) {
+
+  if (data.investmentThesis && data.investmentThesis.length > 0) {
     files.push({
       name: "investment-thesis.csv",
-      buffer: Buffer.from(arrayToCSV(investmentThesisSummaries), "utf-8"),
+      content: toCSV(resolveColumns(data.investmentThesis), data.investmentThesis),
     });
   }
-  
+
   return files;
 }
+
+/**
+ * The files as a ZIP (zip option), else the first one alone as <baseName>.csv
+ */
+function packageCSVs(files: CsvFile[], baseName: string, options: CsvExportOptions): { buffer: Buffer; filename: string } {
+  if (options.zip) return { buffer: createZipArchive(files, options), filename: `${baseName}.zip` };
+  const content = files[0]?.content ?? "";
+  return { buffer: Buffer.from((options.bom ? UTF8_BOM : "") + content, "utf-8"), filename: `${baseName}.csv` };
+}
+
+/**
+ * Firms CSV of a VC-pipeline job, or with the zip option a ZIP of per-entity CSVs
+ */
+export function createCSVExport(
+  data: VcExportData,
+  templateId: string,
+  baseName: string,
+  options: CsvExportOptions = {},
+): { buffer: Buffer; filename: string } {
+  return packageCSVs(createIndividualCSVs(data, templateId), baseName, options);
+}
+
+/**
+ * Results CSV of an agent job's output workbook (see createAgentOutputExcel), or with the zip
+ * option a ZIP with one CSV per sheet. The "no results" placeholder becomes a header-only results file.
+ */
+export function createAgentCSVExport(
+  workbook: XLSX.WorkBook,
+  sections: AgentSection[],
+  baseName: string,
+  options: CsvExportOptions = {},
+): { buffer: Buffer; filename: string } {
+  const files: CsvFile[] = workbook.SheetNames.map((sheetName) => {
+    const [header = [], ...body] = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, defval: "" });
+    let labels = header.map(String);
+    let rows = body;
+    if (sheetName === "Results" && labels[0] === "No profile results found") {
+      labels = ["Company Name", "Website", ...sections.map(sectionColumnLabel)];
+      rows = [];
+    }
+    const columns = labels.map((label, i) => ({ key: String(i), label }));
+    const records = rows.map((row) => Object.fromEntries(row.map((value, i) => [String(i), value])));
+    return { name: csvFileName(sheetName), content: toCSV(columns, records) };
+  });
+
+  return packageCSVs(files, baseName, options);
+}
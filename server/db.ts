@@ -123,6 +123,249 @@ export async function runMigrations(): Promise<void> {
       createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
       INDEX jobLogs_jobId_idx (jobId)
     )` },
+    { name: "jobLogs.sourcesJson", sql: "ALTER TABLE jobLogs ADD COLUMN sourcesJson TEXT" },
+    { name: "jobLogs.invalidFields", sql: "ALTER TABLE jobLogs ADD COLUMN invalidFields TEXT" },
+    // Persistent page cache shared by web server + worker
+    { name: "pageCache_table", sql: `CREATE TABLE IF NOT EXISTS pageCache (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      cacheKey VARCHAR(64) NOT NULL UNIQUE,
+      url TEXT,
+      data LONGTEXT NOT NULL,
+      sizeBytes INT NOT NULL,
+      expiresAt TIMESTAMP NOT NULL,
+      lastAccessedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      INDEX pageCache_lastAccessedAt_idx (lastAccessedAt),
+      INDEX pageCache_expiresAt_idx (expiresAt)
+    )` },
+    // Recurring re-enrichment + change detection
+    { name: "scheduleId",    sql: "ALTER TABLE enrichmentJobs ADD COLUMN scheduleId INT" },
+    { name: "previousJobId", sql: "ALTER TABLE enrichmentJobs ADD COLUMN previousJobId INT" },
+    { name: "jobSchedules_table", sql: `CREATE TABLE IF NOT EXISTS jobSchedules (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      userId INT NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      cronExpression VARCHAR(100) NOT NULL,
+      enabled BOOLEAN DEFAULT TRUE NOT NULL,
+      inputFileUrl TEXT NOT NULL,
+      inputFileKey TEXT NOT NULL,
+      firmCount INT DEFAULT 0,
+      columnMappingJson TEXT,
+      template VARCHAR(50) DEFAULT 'vc',
+      tierFilter ENUM('tier1','tier1-2','all') DEFAULT 'all' NOT NULL,
+      deepTeamProfileScraping BOOLEAN DEFAULT FALSE NOT NULL,
+      maxTeamProfiles INT DEFAULT 200 NOT NULL,
+      estimatedCostUSD DECIMAL(10,4),
+      sectionsJson TEXT,
+      systemPrompt TEXT,
+      objective TEXT,
+      lastJobId INT,
+      baselineJobId INT,
+      lastRunAt TIMESTAMP NULL,
+      nextRunAt TIMESTAMP NULL,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+      INDEX jobSchedules_nextRunAt_idx (nextRunAt)
+    )` },
+    { name: "jobChanges_table", sql: `CREATE TABLE IF NOT EXISTS jobChanges (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      jobId INT NOT NULL,
+      previousJobId INT NOT NULL,
+      companyName TEXT,
+      websiteUrl TEXT,
+      changeType VARCHAR(40) NOT NULL,
+      entity TEXT,
+      field VARCHAR(100),
+      oldValue TEXT,
+      newValue TEXT,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      INDEX jobChanges_jobId_idx (jobId)
+    )` },
+    // Outbound webhooks
+    { name: "webhookEndpoints_table", sql: `CREATE TABLE IF NOT EXISTS webhookEndpoints (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      userId INT NOT NULL,
+      url TEXT NOT NULL,
+      secret VARCHAR(100) NOT NULL,
+      events TEXT,
+      description VARCHAR(255),
+      enabled BOOLEAN DEFAULT TRUE NOT NULL,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+      INDEX webhookEndpoints_userId_idx (userId)
+    )` },
+    { name: "webhookDeliveries_table", sql: `CREATE TABLE IF NOT EXISTS webhookDeliveries (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      deliveryId VARCHAR(32) NOT NULL UNIQUE,
+      endpointId INT NOT NULL,
+      jobId INT,
+      event VARCHAR(50) NOT NULL,
+      payload TEXT NOT NULL,
+      status VARCHAR(20) DEFAULT 'pending' NOT NULL,
+      attempts INT DEFAULT 0 NOT NULL,
+      responseStatus INT,
+      lastError TEXT,
+      nextAttemptAt TIMESTAMP NULL,
+      deliveredAt TIMESTAMP NULL,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      INDEX webhookDeliveries_endpointId_idx (endpointId),
+      INDEX webhookDeliveries_status_nextAttemptAt_idx (status, nextAttemptAt)
+    )` },
+    // Firm-level work items leased by workers
+    { name: "processedFirms_status_pending", sql: "ALTER TABLE processedFirms MODIFY COLUMN status ENUM('pending','processing','completed','failed') NOT NULL DEFAULT 'processing'" },
+    { name: "processedFirms_firmIndex",      sql: "ALTER TABLE processedFirms ADD COLUMN firmIndex INT" },
+    { name: "processedFirms_leaseOwner",     sql: "ALTER TABLE processedFirms ADD COLUMN leaseOwner VARCHAR(100)" },
+    { name: "processedFirms_leaseExpiresAt", sql: "ALTER TABLE processedFirms ADD COLUMN leaseExpiresAt TIMESTAMP NULL" },
+    { name: "processedFirms_attempts",       sql: "ALTER TABLE processedFirms ADD COLUMN attempts INT NOT NULL DEFAULT 0" },
+    { name: "processedFirms_jobId_status_idx", sql: "ALTER TABLE processedFirms ADD INDEX processedFirms_jobId_status_idx (jobId, status)" },
+    // REST API keys
+    { name: "apiKeys_table", sql: `CREATE TABLE IF NOT EXISTS apiKeys (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      userId INT NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      keyPrefix VARCHAR(20) NOT NULL,
+      keyHash VARCHAR(64) NOT NULL UNIQUE,
+      lastUsedAt TIMESTAMP NULL,
+      revokedAt TIMESTAMP NULL,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      INDEX apiKeys_userId_idx (userId)
+    )` },
+    // Spend budgets
+    { name: "enrichmentJobs_status_paused", sql: "ALTER TABLE enrichmentJobs MODIFY COLUMN status ENUM('pending','processing','completed','failed','cancelled','paused') NOT NULL DEFAULT 'pending'" },
+    { name: "budgetUSD",        sql: "ALTER TABLE enrichmentJobs ADD COLUMN budgetUSD DECIMAL(10,4)" },
+    { name: "pausedReason",     sql: "ALTER TABLE enrichmentJobs ADD COLUMN pausedReason TEXT" },
+    { name: "monthlyBudgetUSD", sql: "ALTER TABLE users ADD COLUMN monthlyBudgetUSD DECIMAL(10,2)" },
+    // Usage ledger for monthly spend (budgets.ts); jobs from before it count once, at their last update
+    { name: "usageRecords_table", sql: `CREATE TABLE IF NOT EXISTS usageRecords (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      userId INT NOT NULL,
+      jobId INT NOT NULL,
+      costUSD DECIMAL(10,4) NOT NULL,
+      inputTokens INT NOT NULL DEFAULT 0,
+      outputTokens INT NOT NULL DEFAULT 0,
+      recordedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      INDEX usageRecords_userId_recordedAt_idx (userId, recordedAt)
+    )` },
+    { name: "usageRecords_backfill", sql: `INSERT INTO usageRecords (userId, jobId, costUSD, inputTokens, outputTokens, recordedAt)
+      SELECT j.userId, j.id, j.totalCostUSD, COALESCE(j.totalInputTokens, 0), COALESCE(j.totalOutputTokens, 0), j.updatedAt
+      FROM enrichmentJobs j
+      WHERE j.totalCostUSD > 0 AND NOT EXISTS (SELECT 1 FROM usageRecords u WHERE u.jobId = j.id)` },
+    // Usage outside any job (tier rules preview) is recorded without one
+    { name: "usageRecords_jobId_nullable", sql: "ALTER TABLE usageRecords MODIFY jobId INT NULL" },
+    // Agent job rows persisted per URL (pause / resume)
+    { name: "agentResults_table", sql: `CREATE TABLE IF NOT EXISTS agentResults (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      jobId INT NOT NULL,
+      urlHash VARCHAR(64) NOT NULL,
+      url TEXT NOT NULL,
+      companyName TEXT,
+      kind ENUM('profile','directory','failed') NOT NULL,
+      rowJson TEXT,
+      sourcesJson TEXT,
+      entriesJson TEXT,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      UNIQUE KEY agentResults_jobId_urlHash_unique (jobId, urlHash)
+    )` },
+    // Crawl opt-out blocklist (crawlPolicy.ts)
+    { name: "crawlBlocklist_table", sql: `CREATE TABLE IF NOT EXISTS crawlBlocklist (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      domain VARCHAR(255) NOT NULL UNIQUE,
+      reason TEXT,
+      createdBy INT NOT NULL,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+    )` },
+    // CRM push targets (crmPush.ts)
+    { name: "crmConnections_table", sql: `CREATE TABLE IF NOT EXISTS crmConnections (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      userId INT NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      provider VARCHAR(20) NOT NULL,
+      baseUrl TEXT NOT NULL,
+      accessToken TEXT NOT NULL,
+      fieldMappings TEXT,
+      lastPushedAt TIMESTAMP NULL,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+      INDEX crmConnections_userId_idx (userId)
+    )` },
+    // Cross-job entity store (entityStore.ts)
+    { name: "firmEntities_table", sql: `CREATE TABLE IF NOT EXISTS firmEntities (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      domain VARCHAR(255) NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      websiteUrl TEXT,
+      investorType TEXT,
+      investmentStages TEXT,
+      investmentNiches TEXT,
+      aum TEXT,
+      headquarters TEXT,
+      foundedYear TEXT,
+      firstSeenJobId INT NOT NULL,
+      lastSeenJobId INT NOT NULL,
+      jobCount INT NOT NULL DEFAULT 1,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL
+    )` },
+    { name: "personEntities_table", sql: `CREATE TABLE IF NOT EXISTS personEntities (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      firmEntityId INT NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      normalizedName VARCHAR(255) NOT NULL,
+      title TEXT,
+      email VARCHAR(320),
+      linkedinUrl VARCHAR(255),
+      decisionMakerTier VARCHAR(20),
+      firstSeenJobId INT NOT NULL,
+      lastSeenJobId INT NOT NULL,
+      jobCount INT NOT NULL DEFAULT 1,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+      INDEX personEntities_firmEntityId_normalizedName_idx (firmEntityId, normalizedName),
+      INDEX personEntities_linkedinUrl_idx (linkedinUrl)
+    )` },
+    { name: "entityMergeHistory_table", sql: `CREATE TABLE IF NOT EXISTS entityMergeHistory (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      entityType VARCHAR(10) NOT NULL,
+      entityId INT NOT NULL,
+      jobId INT NOT NULL,
+      sourceRowId INT NOT NULL,
+      action VARCHAR(20) NOT NULL,
+      field VARCHAR(100),
+      oldValue TEXT,
+      newValue TEXT,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      INDEX entityMergeHistory_entityType_entityId_idx (entityType, entityId)
+    )` },
+    { name: "enrichedFirms.firmEntityId",    sql: "ALTER TABLE enrichedFirms ADD COLUMN firmEntityId INT" },
+    { name: "teamMembers.personEntityId",    sql: "ALTER TABLE teamMembers ADD COLUMN personEntityId INT" },
+    // Result reuse across jobs (resultReuse.ts)
+    { name: "forceRefresh",                  sql: "ALTER TABLE enrichmentJobs ADD COLUMN forceRefresh BOOLEAN DEFAULT FALSE NOT NULL" },
+    { name: "enrichedFirms.reusedFromFirmId", sql: "ALTER TABLE enrichedFirms ADD COLUMN reusedFromFirmId INT" },
+    // Inferred team member emails (emailInference.ts)
+    { name: "teamMembers.emailPattern",      sql: "ALTER TABLE teamMembers ADD COLUMN emailPattern VARCHAR(20)" },
+    { name: "teamMembers.emailConfidence",   sql: "ALTER TABLE teamMembers ADD COLUMN emailConfidence INT" },
+    { name: "teamMembers.emailVerification", sql: "ALTER TABLE teamMembers ADD COLUMN emailVerification VARCHAR(20)" },
+    // Decision-maker tier rule sets (tierRules.ts)
+    { name: "tierRuleSets_table", sql: `CREATE TABLE IF NOT EXISTS tierRuleSets (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      userId INT NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      rules TEXT NOT NULL,
+      defaultTemplates TEXT,
+      createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+      updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+      INDEX tierRuleSets_userId_idx (userId)
+    )` },
+    { name: "tierRulesJson",                 sql: "ALTER TABLE enrichmentJobs ADD COLUMN tierRulesJson TEXT" },
+    // Shared spreadsheet input and write-back (sheetSource.ts, sheetWriteBack.ts)
+    { name: "sourceSheetUrl",                sql: "ALTER TABLE enrichmentJobs ADD COLUMN sourceSheetUrl TEXT" },
+    { name: "sheetWriteBack",                sql: "ALTER TABLE enrichmentJobs ADD COLUMN sheetWriteBack BOOLEAN DEFAULT FALSE NOT NULL" },
+    { name: "sheetWriteBackStatus",          sql: "ALTER TABLE enrichmentJobs ADD COLUMN sheetWriteBackStatus TEXT" },
+    { name: "jobSchedules.sourceSheetUrl",   sql: "ALTER TABLE jobSchedules ADD COLUMN sourceSheetUrl TEXT" },
+    { name: "jobSchedules.sheetWriteBack",   sql: "ALTER TABLE jobSchedules ADD COLUMN sheetWriteBack BOOLEAN DEFAULT FALSE NOT NULL" },
+    // Background website resolution for pre-flight fixes (websiteResolutionJob.ts)
+    { name: "kind",                          sql: "ALTER TABLE enrichmentJobs ADD COLUMN kind ENUM('enrichment', 'website_resolution') DEFAULT 'enrichment' NOT NULL" },
+    { name: "preflightJson",                 sql: "ALTER TABLE enrichmentJobs ADD COLUMN preflightJson TEXT" },
   ];
 
   for (const migration of migrations) {
@@ -130,8 +373,8 @@ export async function runMigrations(): Promise<void> {
       await db.execute(sql.raw(migration.sql));
       console.log(`[Migration] Applied: ${migration.name}`);
     } catch (e: any) {
-      if (e.message?.includes("Duplicate column name")) {
-        // Column already exists — skip silently
+      if (e.message?.includes("Duplicate column name") || e.message?.includes("Duplicate key name")) {
+        // Column / index already exists — skip silently
       } else {
         console.error(`[Migration] Failed (${migration.name}):`, e.message);
       }
@@ -1,21 +1,62 @@
 /**
- * Decision Maker Tier Classification for VC Deal Sourcing Roles
- * 
- * Focus: Identify people involved in DEAL SOURCING (finding and evaluating investments)
- * Exclude: LPs, Operating Partners (post-investment), support staff
- * 
+ * Decision Maker Tier Classification
+ *
+ * Titles are classified by a rule set (TierRules): ordered patterns, exclusions, department
+ * mappings and a fallback for titles nothing matches. The built-in VC rules below target
+ * DEAL SOURCING roles (finding and evaluating investments):
+ *
  * Tier 1: Senior Partners - Make final investment decisions
- * Tier 2: Mid-level Deal Team - Lead due diligence and deal execution  
+ * Tier 2: Mid-level Deal Team - Lead due diligence and deal execution
  * Tier 3: Junior Deal Team - Source deals, conduct initial evaluations
  * Exclude: Non-deal sourcing roles (LPs, ops, support)
+ *
+ * Other templates' built-in rules, user-defined rule sets and the LLM fallback for unmatched
+ * titles are in tierRules.ts.
  */
 
 export type DecisionMakerTier = "Tier 1" | "Tier 2" | "Tier 3" | "Exclude";
 
+export const DECISION_MAKER_TIERS: DecisionMakerTier[] = ["Tier 1", "Tier 2", "Tier 3", "Exclude"];
+
+export const TIER_PRIORITY: Record<DecisionMakerTier, number> = { "Tier 1": 1, "Tier 2": 2, "Tier 3": 3, Exclude: 999 };
+
+/** What decided a title's tier */
+export type TierMatch = "empty" | "department" | "exclusion" | "pattern" | "keyword" | "default" | "llm";
+
 export interface TierClassification {
   tier: DecisionMakerTier;
   priority: number;
   description: string;
+  matchedBy: TierMatch;
+  /** The department / exclusion / pattern / keyword that matched */
+  matched?: string;
+}
+
+export interface TierPattern {
+  pattern: string;
+  tier: DecisionMakerTier;
+}
+
+/**
+ * A rule set, applied in this order:
+ * 1. Empty title → emptyTitleTier
+ * 2. departments: title contains a department name (sites that list people by department)
+ * 3. exclusions: whole-word match → Exclude (checked before patterns, e.g. "operating partner")
+ * 4. patterns: first whole-word match decides
+ * 5. Unmatched: title contains a fallback keyword → keywordTier, else defaultTier.
+ *    With llmFallback on, the LLM decides first (tierRules.ts).
+ */
+export interface TierRules {
+  /** What each tier means — shown in classifications and given to the LLM fallback */
+  tierDescriptions: Record<DecisionMakerTier, string>;
+  emptyTitleTier: DecisionMakerTier;
+  departments: TierPattern[];
+  exclusions: string[];
+  patterns: TierPattern[];
+  fallbackKeywords: string[];
+  keywordTier: DecisionMakerTier;
+  defaultTier: DecisionMakerTier;
+  llmFallback: boolean;
 }
 
 /**
@@ -202,13 +243,15 @@ const EXCLUDE_PATTERNS = [
 ];
 
 /**
- * Check if title matches any pattern in a list (case-insensitive, whole-word matching)
+ * Check if title matches any pattern in a list (case-insensitive, whole-word matching).
+ * Returns the pattern that matched.
  */
-function matchesPattern(title: string, patterns: string[]): boolean {
+function matchPattern(title: string, patterns: string[]): string | undefined {
   const titleLower = title.toLowerCase().trim();
   
-  return patterns.some(pattern => {
-    const patternLower = pattern.toLowerCase();
+  return patterns.find(pattern => {
+    const patternLower = pattern.toLowerCase().trim();
+    if (!patternLower) return false;
     
     // Exact match
     if (titleLower === patternLower) return true;
@@ -220,152 +263,106 @@ function matchesPattern(title: string, patterns: string[]): boolean {
 }
 
 /**
- * Check if title contains investment-related keywords
+ * Departments many VC sites list people under instead of titles (Sequoia-style)
  */
-function hasInvestmentKeywords(title: string): boolean {
-  const titleLower = title.toLowerCase();
-  const keywords = [
-    "invest",
-    "venture",
-    "vc",
-    "capital",
-    "fund",
-    "portfolio",
-    "deal",
-    "partner",
-    "principal",
-    "associate",
-    "analyst",
-  ];
-  
-  return keywords.some(keyword => titleLower.includes(keyword));
+const INVESTING_DEPARTMENTS = [
+  "investing",
+  "investment team",
+  "investments",
+  "deal team",
+  // Sequoia-specific patterns
+  "seed/early",
+  "seed",
+  "early stage",
+  "growth",
+  "growth stage",
+];
+
+// Checked before the generic "partner" pattern
+const EXCLUDED_PARTNER_TYPES = ["operating partner", "venture partner", "limited partner", "strategic partner", "executive partner"];
+
+// Unknown titles with one of these are treated as junior deal team rather than excluded
+const INVESTMENT_KEYWORDS = [
+  "invest",
+  "venture",
+  "vc",
+  "capital",
+  "fund",
+  "portfolio",
+  "deal",
+  "partner",
+  "principal",
+  "associate",
+  "analyst",
+];
+
+const tierPatterns = (patterns: string[], tier: DecisionMakerTier): TierPattern[] => patterns.map(pattern => ({ pattern, tier }));
+
+/**
+ * Built-in rules for the VC template
+ */
+export const VC_TIER_RULES: TierRules = {
+  tierDescriptions: {
+    "Tier 1": "Senior Partner - Makes final investment decisions",
+    "Tier 2": "Senior Deal Team - Leads due diligence and deal execution",
+    "Tier 3": "Junior Deal Team - Sources deals and conducts initial evaluations",
+    Exclude: "Non-deal sourcing role",
+  },
+  // Empty titles are common on VC websites where people are listed by name without explicit
+  // titles — users can filter in Excel if they want to exclude these
+  emptyTitleTier: "Tier 3",
+  // If only a department is listed, they're on the deal team
+  departments: tierPatterns(INVESTING_DEPARTMENTS, "Tier 1"),
+  exclusions: EXCLUDED_PARTNER_TYPES,
+  patterns: [
+    ...tierPatterns(TIER1_PATTERNS, "Tier 1"),
+    ...tierPatterns(TIER2_PATTERNS, "Tier 2"),
+    ...tierPatterns(TIER3_PATTERNS, "Tier 3"),
+    ...tierPatterns(EXCLUDE_PATTERNS, "Exclude"),
+  ],
+  fallbackKeywords: INVESTMENT_KEYWORDS,
+  keywordTier: "Tier 3",
+  // No investment keywords - likely support role
+  defaultTier: "Exclude",
+  llmFallback: false,
+};
+
+function classification(rules: TierRules, tier: DecisionMakerTier, matchedBy: TierMatch, matched?: string, detail?: string): TierClassification {
+  const description = detail ?? rules.tierDescriptions[tier] ?? tier;
+  return { tier, priority: TIER_PRIORITY[tier], description: matched ? `${description} (${matchedBy}: "${matched}")` : description, matchedBy, matched };
 }
 
 /**
- * Classify a job title into a decision maker tier
+ * Classify a job title with a rule set (no LLM — unmatched titles get the keyword / default tier)
  */
-export function classifyDecisionMakerTier(title: string): TierClassification {
+export function classifyTitle(title: string, rules: TierRules): TierClassification {
   if (!title || title.trim().length === 0) {
-    // Changed from "Exclude" to "Tier 3" - empty titles are common on VC websites
-    // where people are listed by name without explicit titles
-    // Users can filter in Excel if they want to exclude these
-    return {
-      tier: "Tier 3",
-      priority: 3,
-      description: "Unknown role (empty title) - Defaulting to junior deal team",
-    };
+    return classification(rules, rules.emptyTitleTier, "empty", undefined, "Unknown role (empty title)");
   }
 
   const titleLower = title.toLowerCase().trim();
 
-  // Priority order: Check exclusions first for specific partner types, then tiers
-  
-  // Check for department-based classification FIRST (common on VC websites)
-  // Many VC sites list people by department rather than explicit titles
-  const investingDepartments = [
-    "investing",
-    "investment team",
-    "investments",
-    "deal team",
-    // Sequoia-specific patterns
-    "seed/early",
-    "seed",
-    "early stage",
-    "growth",
-    "growth stage",
-  ];
-  
-  if (investingDepartments.some(dept => titleLower === dept || titleLower.includes(dept))) {
-    // If only department is listed, assume Tier 1 (they're on the deal team)
-    console.log(`[Tier Classifier] Department-based classification: "${title}" → Tier 1`);
-    return {
-      tier: "Tier 1",
-      priority: 1,
-      description: "Investment team member (department-based classification)",
-    };
-  }
-  
-  // Check for excluded partner types BEFORE generic "partner" pattern
-  const excludedPartnerTypes = ["operating partner", "venture partner", "limited partner", "strategic partner", "executive partner"];
-  if (matchesPattern(title, excludedPartnerTypes)) {
-    return {
-      tier: "Exclude",
-      priority: 999,
-      description: "Non-deal sourcing partner role",
-    };
-  }
-  
-  // TIER 1: Senior Partners
-  if (matchesPattern(titleLower, TIER1_PATTERNS)) {
-    // Special check: "Partner" alone could be Operating/Venture Partner
-    if (titleLower === "partner") {
-      // If it's just "partner", check for exclusion keywords
-      if (matchesPattern(titleLower, EXCLUDE_PATTERNS)) {
-        return {
-          tier: "Exclude",
-          priority: 999,
-          description: "Non-deal sourcing partner role",
-        };
-      }
-      // Assume investment partner if no exclusion
-      return {
-        tier: "Tier 1",
-        priority: 1,
-        description: "Senior Partner - Makes final investment decisions",
-      };
-    }
-    
-    return {
-      tier: "Tier 1",
-      priority: 1,
-      description: "Senior Partner - Makes final investment decisions",
-    };
-  }
+  const department = rules.departments.find(d => d.pattern.trim() && titleLower.includes(d.pattern.toLowerCase().trim()));
+  if (department) return classification(rules, department.tier, "department", department.pattern);
 
-  // TIER 2: Senior Deal Team
-  if (matchesPattern(titleLower, TIER2_PATTERNS)) {
-    return {
-      tier: "Tier 2",
-      priority: 2,
-      description: "Senior Deal Team - Leads due diligence and deal execution",
-    };
-  }
+  const exclusion = matchPattern(titleLower, rules.exclusions);
+  if (exclusion) return classification(rules, "Exclude", "exclusion", exclusion);
 
-  // TIER 3: Junior Deal Team
-  if (matchesPattern(titleLower, TIER3_PATTERNS)) {
-    return {
-      tier: "Tier 3",
-      priority: 3,
-      description: "Junior Deal Team - Sources deals and conducts initial evaluations",
-    };
+  for (const rule of rules.patterns) {
+    if (matchPattern(titleLower, [rule.pattern])) return classification(rules, rule.tier, "pattern", rule.pattern);
   }
 
-  // EXCLUDE: Non-deal sourcing roles
-  if (matchesPattern(titleLower, EXCLUDE_PATTERNS)) {
-    return {
-      tier: "Exclude",
-      priority: 999,
-      description: "Non-deal sourcing role",
-    };
-  }
+  const keyword = rules.fallbackKeywords.find(k => k.trim() && titleLower.includes(k.toLowerCase().trim()));
+  if (keyword) return classification(rules, rules.keywordTier, "keyword", keyword);
 
-  // UNKNOWN: Default based on investment keywords
-  if (hasInvestmentKeywords(titleLower)) {
-    console.log(`[Tier Classifier] Unknown investment-related title defaulting to Tier 3: "${title}"`);
-    return {
-      tier: "Tier 3",
-      priority: 3,
-      description: "Unknown investment role - Defaulting to junior deal team",
-    };
-  }
+  return classification(rules, rules.defaultTier, "default");
+}
 
-  // No investment keywords - likely support role
-  console.log(`[Tier Classifier] Excluding non-investment title: "${title}"`);
-  return {
-    tier: "Exclude",
-    priority: 999,
-    description: "Non-investment role",
-  };
+/**
+ * Classify a job title into a decision maker tier with the built-in VC rules
+ */
+export function classifyDecisionMakerTier(title: string): TierClassification {
+  return classifyTitle(title, VC_TIER_RULES);
 }
 
 /**
@@ -374,9 +371,10 @@ export function classifyDecisionMakerTier(title: string): TierClassification {
 export function filterDecisionMakers<T extends { title: string }>(
   teamMembers: T[],
   includeTiers: DecisionMakerTier[] = ["Tier 1", "Tier 2", "Tier 3"],
+  rules: TierRules = VC_TIER_RULES,
 ): T[] {
   return teamMembers.filter((member) => {
-    const classification = classifyDecisionMakerTier(member.title);
+    const classification = classifyTitle(member.title, rules);
     return includeTiers.includes(classification.tier);
   });
 }
@@ -386,10 +384,11 @@ export function filterDecisionMakers<T extends { title: string }>(
  */
 export function sortByDecisionMakingPriority<T extends { title: string }>(
   teamMembers: T[],
+  rules: TierRules = VC_TIER_RULES,
 ): T[] {
   return [...teamMembers].sort((a, b) => {
-    const tierA = classifyDecisionMakerTier(a.title);
-    const tierB = classifyDecisionMakerTier(b.title);
+    const tierA = classifyTitle(a.title, rules);
+    const tierB = classifyTitle(b.title, rules);
     return tierA.priority - tierB.priority;
   });
 }
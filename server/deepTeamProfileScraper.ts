@@ -5,6 +5,7 @@
 
 import * as cheerio from 'cheerio';
 import { URL } from 'url';
+import { findPersonByName } from './nameNormalization';
 
 export interface TeamMemberProfileLink {
   name: string;
@@ -312,12 +313,15 @@ export async function deepScrapeTeamMembers(
     maxProfiles?: number;
     delayBetweenProfiles?: number;
     enabled?: boolean;
+    /** People already complete (e.g. from the site's structured data) — their profiles aren't fetched */
+    skipPeople?: Array<{ name: string }>;
   } = {}
 ): Promise<DeepProfileScrapingResult> {
   const {
     maxProfiles = 200,
     delayBetweenProfiles = 1500,
     enabled = true,
+    skipPeople = [],
   } = options;
   
   if (!enabled) {
@@ -339,7 +343,8 @@ export async function deepScrapeTeamMembers(
   console.log(`[Deep Profile] Delay between profiles: ${delayBetweenProfiles}ms`);
   
   // Step 1: Detect profile links
-  const profileLinks = detectTeamMemberProfileLinks(teamListingHtml, baseUrl, { maxProfiles });
+  const profileLinks = detectTeamMemberProfileLinks(teamListingHtml, baseUrl, { maxProfiles })
+    .filter(link => !findPersonByName(skipPeople, link.name));
   
   if (profileLinks.length === 0) {
     console.log(`[Deep Profile] No individual profile links detected, skipping deep scraping`);
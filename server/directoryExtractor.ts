@@ -18,12 +18,15 @@
  *  1. rel="next" link in content
  *  2. ?page=N / /page/N URL increment
  *  3. LLM fallback
+ *
+ * Pages the crawl policy disallows (robots.txt, blocklist) end the crawl — see crawlPolicy.ts.
  */
 
 import * as cheerio from "cheerio";
 import { fetchViaJina } from "./jinaFetcher";
 import { queuedLLMCall } from "./_core/llmQueue";
 import { withDomainRateLimit } from "./_core/domainRateLimiter";
+import { isCrawlAllowed } from "./crawlPolicy";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -335,6 +338,7 @@ Return a JSON object with:
 
   try {
     const response = await queuedLLMCall({
+      task: "directory_extraction",
       messages: [{ role: "user", content: prompt }],
       response_format: {
         type: "json_schema",
@@ -417,6 +421,11 @@ export async function extractDirectory(
     const pageNum = pagesVisited + 1;
     console.log(`[directoryExtractor] Fetching page ${pageNum}: ${currentUrl}`);
 
+    if (!(await isCrawlAllowed(currentUrl))) {
+      errors.push(`Disallowed by crawl policy: ${currentUrl}`);
+      break;
+    }
+
     // ── Fetch via Jina ──────────────────────────────────────────────────────
     let jinaText: string | null = null;
     try {
@@ -0,0 +1,96 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { applyEmailPattern, emailNameParts, extractEmails, inferTeamEmails, learnEmailPattern, verifyDomainEmails } from "./emailInference";
+import { startSmtpStubServer, type SmtpStub } from "./smtpStubServer";
+
+describe("applyEmailPattern", () => {
+  it("should build local parts from cleaned-up names", () => {
+    expect(emailNameParts("Dr. Mary-Jane O'Neil, PhD")).toEqual({ first: "maryjane", last: "oneil" });
+    expect(emailNameParts("Doe, Jane")).toEqual({ first: "jane", last: "doe" });
+    expect(applyEmailPattern("first.last", "José García")).toBe("jose.garcia");
+    expect(applyEmailPattern("flast", "Jane Doe")).toBe("jdoe");
+    expect(applyEmailPattern("lastf", "Jane Doe")).toBe("doej");
+    expect(applyEmailPattern("first", "Cher")).toBe("cher");
+    expect(applyEmailPattern("flast", "Cher")).toBeNull();
+  });
+});
+
+describe("extractEmails", () => {
+  it("should find addresses and skip image names", () => {
+    const html = '<a href="mailto:Jane.Doe@Acme.vc">Jane</a> info@acme.vc. <img src="logo@2x.png">';
+    expect(extractEmails(html)).toEqual(["jane.doe@acme.vc", "info@acme.vc"]);
+  });
+});
+
+describe("learnEmailPattern", () => {
+  const names = ["Jane Doe", "John Roe", "Sam Poe", "Ann Lee"];
+
+  it("should pick the pattern most addresses follow", () => {
+    const learned = learnEmailPattern(["jane.doe@acme.vc", "john.roe@acme.vc", "spoe@acme.vc", "info@acme.vc"], names);
+    expect(learned).toMatchObject({ pattern: "first.last", domain: "acme.vc", examples: ["jane.doe@acme.vc", "john.roe@acme.vc"] });
+    // 2 agreeing out of 3 matched addresses
+    expect(learned!.confidence).toBe(57);
+  });
+
+  it("should be confident with several agreeing addresses and none without matches", () => {
+    expect(learnEmailPattern(["jdoe@acme.vc", "jroe@acme.vc", "spoe@acme.vc"], names)).toMatchObject({ pattern: "flast", confidence: 95 });
+    expect(learnEmailPattern(["info@acme.vc", "press@acme.vc"], names)).toBeNull();
+  });
+});
+
+describe("verification against an SMTP stub", () => {
+  let stub: SmtpStub | null = null;
+  afterEach(async () => {
+    await stub?.close();
+    stub = null;
+  });
+
+  const verifier = (port: number) => ({
+    mode: "smtp" as const,
+    smtpPort: port,
+    resolveMx: async () => [{ exchange: "127.0.0.1", priority: 10 }],
+    timeoutMs: 2000,
+  });
+
+  it("should mark accepted and rejected mailboxes in one session", async () => {
+    stub = await startSmtpStubServer({ mailboxes: ["jane.doe@acme.vc"] });
+    const statuses = await verifyDomainEmails("acme.vc", ["jane.doe@acme.vc", "ghost@acme.vc"], verifier(stub.port));
+    expect(Object.fromEntries(statuses)).toEqual({ "jane.doe@acme.vc": "valid", "ghost@acme.vc": "invalid" });
+    expect(stub.transcript[0]).toBe("EHLO localhost");
+    expect(stub.transcript.filter((line) => line.startsWith("RCPT"))).toHaveLength(3);
+    expect(stub.transcript).not.toContain("DATA");
+  });
+
+  it("should detect catch-all servers and domains without MX", async () => {
+    stub = await startSmtpStubServer({ mailboxes: [], catchAll: true });
+    const catchAll = await verifyDomainEmails("acme.vc", ["anyone@acme.vc"], verifier(stub.port));
+    expect(catchAll.get("anyone@acme.vc")).toBe("catch_all");
+
+    const noMx = await verifyDomainEmails("nomail.vc", ["jane@nomail.vc"], {
+      resolveMx: async () => { throw Object.assign(new Error("queryMx ENODATA"), { code: "ENODATA" }); },
+    });
+    expect(noMx.get("jane@nomail.vc")).toBe("no_mx");
+  });
+
+  it("should generate verified emails for the team from the learned pattern", async () => {
+    stub = await startSmtpStubServer({ mailboxes: ["jane.doe@acme.vc", "john.roe@acme.vc", "sam.poe@acme.vc"] });
+    const members = [
+      { name: "Jane Doe", email: "jane.doe@acme.vc" },
+      { name: "John Roe", email: "" },
+      { name: "Sam Poe" },
+      { name: "Ann Lee" },
+    ];
+    const inferred = await inferTeamEmails(members, "https://www.acme.vc", ["john.roe@acme.vc", "info@acme.vc"], verifier(stub.port));
+
+    expect(inferred.get(0)).toEqual({ email: "jane.doe@acme.vc", pattern: "first.last", confidence: 95, verification: "valid" });
+    expect(inferred.get(1)).toEqual({ email: "john.roe@acme.vc", pattern: "first.last", confidence: 90, verification: "valid" });
+    expect(inferred.get(2)).toMatchObject({ email: "sam.poe@acme.vc", verification: "valid" });
+    // The server rejected ann.lee@ — dropped rather than guessed
+    expect(inferred.has(3)).toBe(false);
+  });
+
+  it("should only keep server-confirmed guesses when no pattern could be learned", async () => {
+    stub = await startSmtpStubServer({ mailboxes: ["jdoe@acme.vc"] });
+    const inferred = await inferTeamEmails([{ name: "Jane Doe" }, { name: "John Roe" }], "acme.vc", [], verifier(stub.port));
+    expect(Array.from(inferred)).toEqual([[0, { email: "jdoe@acme.vc", pattern: "flast", confidence: 80, verification: "valid" }]]);
+  });
+});
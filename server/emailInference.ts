@@ -0,0 +1,401 @@
+/**
+ * Email Pattern Inference + Verification
+ *
+ * Most firms print few or no addresses, but they all use one local-part pattern. From any
+ * addresses seen across the crawl (and on team members) this module:
+ * 1. Learns the firm's pattern: each address is matched against the team's names under every
+ *    known pattern (first.last@, flast@, ...) and the best supported pattern + domain wins
+ * 2. Generates a candidate for every team member without an address — from the learned pattern,
+ *    or (nothing learned) from the most common patterns, keeping only one the mail server accepts
+ * 3. Verifies: MX lookup, then one SMTP session per domain (EHLO / MAIL FROM / RCPT TO, never
+ *    DATA) that also probes a random mailbox to detect catch-all servers
+ *
+ * EMAIL_VERIFICATION=mx (default, MX lookup only) | smtp | off. The SMTP check connects to the
+ * firm's mail servers from this host, so it is opt-in: set EMAIL_VERIFICATION=smtp (and
+ * EMAIL_VERIFY_HELO to a host name you control) on a server allowed outbound port 25. Where port
+ * 25 is blocked a failed connection just leaves addresses "unknown". Verification goes through the
+ * replay harness (_core/replay.ts) like page fetches.
+ */
+
+import dns from "dns";
+import net from "net";
+import { randomBytes } from "crypto";
+import { normalizeDomain } from "./crawlPolicy";
+import { normalizeName } from "./nameNormalization";
+import { replayFetch } from "./_core/replay";
+
+// Ordered by how common they are — ties between equally supported patterns go to the earlier one
+export const EMAIL_PATTERNS = [
+  "first.last", "flast", "first", "firstlast", "f.last", "firstl", "first_last", "first-last", "last", "lastf", "last.first",
+] as const;
+
+export type EmailPattern = (typeof EMAIL_PATTERNS)[number];
+
+/**
+ * valid / invalid: the mail server accepted / rejected the mailbox; catch_all: it accepts any
+ * mailbox, so nothing can be verified; unknown: no SMTP answer; no_mx: the domain takes no mail;
+ * unverified: verification is off
+ */
+export type EmailVerification = "valid" | "invalid" | "catch_all" | "unknown" | "no_mx" | "unverified";
+
+export type EmailVerificationMode = "smtp" | "mx" | "off";
+
+const PATTERN_BUILDERS: Record<EmailPattern, (first: string, last: string) => string> = {
+  "first.last": (f, l) => `${f}.${l}`,
+  flast: (f, l) => `${f[0]}${l}`,
+  first: (f) => f,
+  firstlast: (f, l) => `${f}${l}`,
+  "f.last": (f, l) => `${f[0]}.${l}`,
+  firstl: (f, l) => `${f}${l[0]}`,
+  first_last: (f, l) => `${f}_${l}`,
+  "first-last": (f, l) => `${f}-${l}`,
+  last: (_f, l) => l,
+  lastf: (f, l) => `${l}${f[0]}`,
+  "last.first": (f, l) => `${l}.${f}`,
+};
+
+/** Patterns tried (and SMTP-verified) when the crawl taught us nothing */
+const FALLBACK_PATTERN_COUNT = 3;
+
+const NAME_AFFIXES = new Set(["dr", "mr", "mrs", "ms", "prof", "sir", "jr", "sr", "ii", "iii", "iv", "phd", "md", "mba", "cfa", "cpa", "esq"]);
+
+const EMAIL_REGEX = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+// Image names like logo@2x.png look like addresses
+const NOT_AN_EMAIL = /\.(png|jpe?g|gif|svg|webp)$/i;
+
+// ---------------------------------------------------------------------------
+// Patterns
+// ---------------------------------------------------------------------------
+
+/**
+ * First and last name as they'd appear in an address ("Dr. Mary-Jane O'Neil, PhD" → maryjane / oneil).
+ * "Last, First" is flipped. Null if the name has no letters.
+ */
+export function emailNameParts(name: string): { first: string; last: string } | null {
+  let raw = name;
+  const comma = raw.split(",");
+  if (comma.length === 2) {
+    const after = normalizeName(comma[1]).split(" ").filter((t) => t && !NAME_AFFIXES.has(t));
+    if (after.length > 0) raw = `${comma[1]} ${comma[0]}`;
+  }
+  const tokens = normalizeName(raw)
+    .split(" ")
+    .filter((t) => t && !NAME_AFFIXES.has(t))
+    .map((t) => t.replace(/[^a-z]/g, ""))
+    .filter(Boolean);
+  if (tokens.length === 0) return null;
+  return { first: tokens[0], last: tokens.length > 1 ? tokens[tokens.length - 1] : "" };
+}
+
+/**
+ * Local part for a name under a pattern. Null when the pattern needs a last name the person lacks.
+ */
+export function applyEmailPattern(pattern: EmailPattern, name: string): string | null {
+  const parts = emailNameParts(name);
+  if (!parts) return null;
+  if (!parts.last && pattern !== "first") return null;
+  return PATTERN_BUILDERS[pattern](parts.first, parts.last);
+}
+
+/**
+ * Lower-cased, de-duplicated addresses in a page's HTML or text
+ */
+export function extractEmails(content: string): string[] {
+  const found = new Set<string>();
+  for (const match of content.match(EMAIL_REGEX) ?? []) {
+    const email = match.toLowerCase().replace(/^mailto:/, "").replace(/\.+$/, "");
+    if (!NOT_AN_EMAIL.test(email)) found.add(email);
+  }
+  return Array.from(found);
+}
+
+export interface LearnedPattern {
+  pattern: EmailPattern;
+  domain: string;
+  /** 0-100: how many addresses support the pattern, minus disagreement */
+  confidence: number;
+  /** Addresses that follow the pattern */
+  examples: string[];
+}
+
+/**
+ * The pattern (and domain) the firm's addresses follow, learned from addresses that match a team
+ * member's name. Null if none do.
+ */
+export function learnEmailPattern(emails: string[], names: string[]): LearnedPattern | null {
+  // domain → pattern → supporting addresses
+  const votes = new Map<string, Map<EmailPattern, Set<string>>>();
+  const matchedByDomain = new Map<string, Set<string>>();
+
+  const people = names.map(emailNameParts).filter((p): p is { first: string; last: string } => p !== null);
+  for (const email of Array.from(new Set(emails.map((e) => e.toLowerCase())))) {
+    const [local, domain] = email.split("@");
+    if (!local || !domain) continue;
+    for (const person of people) {
+      for (const pattern of EMAIL_PATTERNS) {
+        if (!person.last && pattern !== "first") continue;
+        if (PATTERN_BUILDERS[pattern](person.first, person.last) !== local) continue;
+        if (!votes.has(domain)) votes.set(domain, new Map());
+        const byPattern = votes.get(domain)!;
+        if (!byPattern.has(pattern)) byPattern.set(pattern, new Set());
+        byPattern.get(pattern)!.add(email);
+        if (!matchedByDomain.has(domain)) matchedByDomain.set(domain, new Set());
+        matchedByDomain.get(domain)!.add(email);
+      }
+    }
+  }
+
+  let best: { pattern: EmailPattern; domain: string; support: Set<string> } | null = null;
+  votes.forEach((byPattern, domain) => {
+    for (const pattern of EMAIL_PATTERNS) {
+      const support = byPattern.get(pattern);
+      if (support && (!best || support.size > best.support.size)) best = { pattern, domain, support };
+    }
+  });
+  if (!best) return null;
+
+  const { pattern, domain, support } = best as { pattern: EmailPattern; domain: string; support: Set<string> };
+  const agreeing = support.size;
+  const base = agreeing >= 3 ? 95 : agreeing === 2 ? 85 : 70;
+  return {
+    pattern,
+    domain,
+    confidence: Math.round((base * agreeing) / matchedByDomain.get(domain)!.size),
+    examples: Array.from(support).sort(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+export interface MxRecord {
+  exchange: string;
+  priority: number;
+}
+
+export interface EmailVerifierOptions {
+  mode?: EmailVerificationMode;
+  /** Defaults to dns.promises.resolveMx */
+  resolveMx?: (domain: string) => Promise<MxRecord[]>;
+  /** SMTP port of the mail servers (default 25) */
+  smtpPort?: number;
+  /** EHLO name and MAIL FROM domain (default EMAIL_VERIFY_HELO or "localhost") */
+  heloHost?: string;
+  /** Per SMTP reply (default 10s) */
+  timeoutMs?: number;
+}
+
+const DEFAULT_VERIFICATION_MODE = (process.env.EMAIL_VERIFICATION ?? "mx") as EmailVerificationMode;
+
+/** Recipients per SMTP session — servers start refusing well before 100 */
+const MAX_RECIPIENTS_PER_SESSION = 25;
+
+/**
+ * One SMTP conversation: greeting, EHLO, MAIL FROM, then RCPT TO for each recipient. Returns each
+ * recipient's reply code. Throws if the server can't be reached or refuses the session.
+ */
+export async function smtpProbe(
+  host: string,
+  port: number,
+  recipients: string[],
+  options: { heloHost: string; timeoutMs: number },
+): Promise<number[]> {
+  const socket = net.connect({ host, port });
+  socket.setEncoding("utf8");
+
+  const replies: number[] = [];
+  const waiting: Array<{ resolve: (code: number) => void; reject: (error: Error) => void }> = [];
+  let failure: Error | null = null;
+  let buffer = "";
+
+  const fail = (error: Error) => {
+    if (failure) return;
+    failure = error;
+    for (const w of waiting.splice(0)) w.reject(error);
+    socket.destroy();
+  };
+  socket.setTimeout(options.timeoutMs, () => fail(new Error(`SMTP timeout after ${options.timeoutMs}ms (${host}:${port})`)));
+  socket.on("error", fail);
+  socket.on("close", () => fail(new Error(`SMTP connection to ${host}:${port} closed`)));
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+      // Multi-line replies continue with "250-"; the last line is "250 "
+      const match = line.match(/^(\d{3})(?: |$)/);
+      if (!match) continue;
+      const code = Number(match[1]);
+      const next = waiting.shift();
+      if (next) next.resolve(code);
+      else replies.push(code);
+    }
+  });
+
+  const read = () => new Promise<number>((resolve, reject) => {
+    if (replies.length > 0) return resolve(replies.shift()!);
+    if (failure) return reject(failure);
+    waiting.push({ resolve, reject });
+  });
+  const command = (line: string) => {
+    socket.write(`${line}\r\n`);
+    return read();
+  };
+
+  try {
+    if ((await read()) !== 220) throw new Error(`SMTP server ${host} refused the connection`);
+    if ((await command(`EHLO ${options.heloHost}`)) !== 250 && (await command(`HELO ${options.heloHost}`)) !== 250) {
+      throw new Error(`SMTP server ${host} refused EHLO`);
+    }
+    if ((await command(`MAIL FROM:<verify@${options.heloHost}>`)) !== 250) throw new Error(`SMTP server ${host} refused MAIL FROM`);
+
+    const codes: number[] = [];
+    for (const recipient of recipients) codes.push(await command(`RCPT TO:<${recipient}>`));
+    socket.end("QUIT\r\n");
+    return codes;
+  } finally {
+    // Let the server close the connection; the timeout still destroys it if it doesn't
+    socket.removeAllListeners("close");
+    if (!socket.destroyed) socket.end();
+  }
+}
+
+function rcptVerification(code: number): EmailVerification {
+  if (code === 250 || code === 251) return "valid";
+  if (code >= 500) return "invalid";
+  return "unknown";
+}
+
+async function verifyDomainLive(domain: string, emails: string[], options: EmailVerifierOptions): Promise<Record<string, EmailVerification>> {
+  const mode = options.mode ?? DEFAULT_VERIFICATION_MODE;
+  const all = (status: EmailVerification) => Object.fromEntries(emails.map((e) => [e, status]));
+  if (mode === "off") return all("unverified");
+
+  let records: MxRecord[];
+  try {
+    records = await (options.resolveMx ?? dns.promises.resolveMx)(domain);
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    // No such domain / no MX record — anything else (DNS timeouts) says nothing about the domain
+    return all(code === "ENOTFOUND" || code === "ENODATA" ? "no_mx" : "unknown");
+  }
+  const mx = records.filter((r) => r.exchange).sort((a, b) => a.priority - b.priority)[0];
+  if (!mx) return all("no_mx");
+  if (mode === "mx") return all("unknown");
+
+  const probeOptions = { heloHost: options.heloHost ?? process.env.EMAIL_VERIFY_HELO ?? "localhost", timeoutMs: options.timeoutMs ?? 10_000 };
+  const port = options.smtpPort ?? 25;
+  const result: Record<string, EmailVerification> = all("unknown");
+  try {
+    // A mailbox that can't exist: accepted means the server accepts everything
+    const probe = `${randomBytes(8).toString("hex")}@${domain}`;
+    for (let i = 0; i < emails.length; i += MAX_RECIPIENTS_PER_SESSION) {
+      const batch = emails.slice(i, i + MAX_RECIPIENTS_PER_SESSION);
+      const codes = await smtpProbe(mx.exchange, port, i === 0 ? [probe, ...batch] : batch, probeOptions);
+      if (i === 0 && rcptVerification(codes.shift()!) === "valid") return all("catch_all");
+      batch.forEach((email, j) => { result[email] = rcptVerification(codes[j]); });
+    }
+  } catch (error) {
+    console.warn(`[emailInference] SMTP check for ${domain} failed: ${error instanceof Error ? error.message : error}`);
+  }
+  return result;
+}
+
+/**
+ * Verify addresses at one domain (one MX lookup, one SMTP session per 25 addresses)
+ */
+export async function verifyDomainEmails(
+  domain: string,
+  emails: string[],
+  options: EmailVerifierOptions = {},
+): Promise<Map<string, EmailVerification>> {
+  const unique = Array.from(new Set(emails.map((e) => e.toLowerCase()))).sort();
+  if (unique.length === 0) return new Map();
+  const key = `smtp://${domain}/?rcpt=${unique.map((e) => e.split("@")[0]).join(",")}`;
+  const statuses = await replayFetch("email", key, () => verifyDomainLive(domain, unique, options));
+  return new Map(Object.entries(statuses));
+}
+
+// ---------------------------------------------------------------------------
+// Team members
+// ---------------------------------------------------------------------------
+
+export interface InferredEmail {
+  email: string;
+  /** Pattern the address follows, null for a page address that follows none */
+  pattern: EmailPattern | null;
+  /** 0-100 */
+  confidence: number;
+  verification: EmailVerification;
+}
+
+const PAGE_EMAIL_CONFIDENCE = 95;
+const FALLBACK_VERIFIED_CONFIDENCE = 80;
+
+/**
+ * Addresses for a firm's team: verified page addresses as found, and pattern-generated ones for
+ * members without. Keyed by member index; members we found nothing usable for are left out.
+ */
+export async function inferTeamEmails(
+  members: Array<{ name: string; email?: string | null }>,
+  websiteUrl: string,
+  crawlEmails: string[],
+  options: EmailVerifierOptions = {},
+): Promise<Map<number, InferredEmail>> {
+  const pageEmails = members.map((m) => (m.email?.trim().toLowerCase().match(/^[^@\s]+@[^@\s]+\.[a-z]{2,}$/) ? m.email.trim().toLowerCase() : null));
+  const learned = learnEmailPattern([...crawlEmails, ...pageEmails.filter((e): e is string => !!e)], members.map((m) => m.name));
+  const domain = learned?.domain ?? normalizeDomain(websiteUrl);
+
+  // Candidates per member, best first
+  const candidates = members.map((member, index): Array<{ email: string; pattern: EmailPattern | null }> => {
+    const pageEmail = pageEmails[index];
+    if (pageEmail) {
+      const [local, emailDomain] = pageEmail.split("@");
+      const pattern = emailDomain === learned?.domain
+        ? EMAIL_PATTERNS.find((p) => applyEmailPattern(p, member.name) === local) ?? null
+        : null;
+      return [{ email: pageEmail, pattern }];
+    }
+    if (!domain) return [];
+    const patterns = learned ? [learned.pattern] : EMAIL_PATTERNS.slice(0, FALLBACK_PATTERN_COUNT);
+    return patterns
+      .map((pattern) => ({ local: applyEmailPattern(pattern, member.name), pattern }))
+      .filter((c): c is { local: string; pattern: EmailPattern } => !!c.local)
+      .map((c) => ({ email: `${c.local}@${domain}`, pattern: c.pattern }));
+  });
+
+  // Verify everything, grouped by domain
+  const byDomain = new Map<string, string[]>();
+  for (const c of candidates.flat()) {
+    const emailDomain = c.email.split("@")[1];
+    byDomain.set(emailDomain, [...(byDomain.get(emailDomain) ?? []), c.email]);
+  }
+  const verification = new Map<string, EmailVerification>();
+  for (const [emailDomain, emails] of Array.from(byDomain)) {
+    (await verifyDomainEmails(emailDomain, emails, options)).forEach((status, email) => verification.set(email, status));
+  }
+
+  const inferred = new Map<number, InferredEmail>();
+  candidates.forEach((list, index) => {
+    if (list.length === 0) return;
+    if (pageEmails[index]) {
+      const status = verification.get(list[0].email) ?? "unknown";
+      inferred.set(index, { ...list[0], confidence: status === "invalid" ? 40 : PAGE_EMAIL_CONFIDENCE, verification: status });
+      return;
+    }
+    if (learned) {
+      const status = verification.get(list[0].email) ?? "unknown";
+      if (status === "invalid" || status === "no_mx") return;
+      const confidence = status === "valid" ? Math.max(learned.confidence, 90) : learned.confidence;
+      inferred.set(index, { ...list[0], confidence, verification: status });
+      return;
+    }
+    // Nothing learned: only a guess the mail server confirms is worth keeping
+    const confirmed = list.find((c) => verification.get(c.email) === "valid");
+    if (confirmed) inferred.set(index, { ...confirmed, confidence: FALLBACK_VERIFIED_CONFIDENCE, verification: "valid" });
+  });
+  return inferred;
+}
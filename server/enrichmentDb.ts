@@ -1,5 +1,5 @@
-import { eq, sql } from "drizzle-orm";
-import { enrichmentJobs, jobLogs, type InsertEnrichmentJob, type EnrichmentJob, type InsertJobLog, type JobLog } from "../drizzle/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { enrichmentJobs, jobLogs, usageRecords, type InsertEnrichmentJob, type EnrichmentJob, type InsertJobLog, type JobLog } from "../drizzle/schema";
 import { getDb } from "./db";
 
 export async function createEnrichmentJob(job: InsertEnrichmentJob): Promise<number> {
@@ -22,7 +22,9 @@ export async function getUserEnrichmentJobs(userId: number): Promise<EnrichmentJ
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  return await db.select().from(enrichmentJobs).where(eq(enrichmentJobs.userId, userId)).orderBy(enrichmentJobs.createdAt);
+  return await db.select().from(enrichmentJobs)
+    .where(and(eq(enrichmentJobs.userId, userId), eq(enrichmentJobs.kind, "enrichment")))
+    .orderBy(enrichmentJobs.createdAt);
 }
 
 export async function incrementJobProcessedCount(jobId: number): Promise<void> {
@@ -36,7 +38,7 @@ export async function incrementJobProcessedCount(jobId: number): Promise<void> {
 export async function getAllEnrichmentJobs(): Promise<EnrichmentJob[]> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  return await db.select().from(enrichmentJobs).orderBy(enrichmentJobs.createdAt);
+  return await db.select().from(enrichmentJobs).where(eq(enrichmentJobs.kind, "enrichment")).orderBy(enrichmentJobs.createdAt);
 }
 
 export async function updateEnrichmentJob(id: number, updates: Partial<EnrichmentJob>): Promise<void> {
@@ -60,3 +62,52 @@ export async function getJobLogs(jobId: number, limit = 500): Promise<JobLog[]>
     .orderBy(jobLogs.createdAt)
     .limit(limit);
 }
+
+/**
+ * Add LLM usage to a job's totals and record it in the usage ledger. Increments rather than
+ * absolute writes, because several worker processes can contribute to the same job (see firmLeasing.ts).
+ */
+export async function addJobUsage(
+  jobId: number,
+  usage: { costUSD: number; inputTokens: number; outputTokens: number },
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(enrichmentJobs)
+    .set({
+      totalCostUSD: sql`COALESCE(${enrichmentJobs.totalCostUSD}, 0) + ${usage.costUSD.toFixed(4)}`,
+      totalInputTokens: sql`COALESCE(${enrichmentJobs.totalInputTokens}, 0) + ${usage.inputTokens}`,
+      totalOutputTokens: sql`COALESCE(${enrichmentJobs.totalOutputTokens}, 0) + ${usage.outputTokens}`,
+    })
+    .where(eq(enrichmentJobs.id, jobId));
+
+  // Ledger row for monthly spend, timestamped now
+  const [job] = await db.select({ userId: enrichmentJobs.userId }).from(enrichmentJobs).where(eq(enrichmentJobs.id, jobId)).limit(1);
+  if (job) {
+    await db.insert(usageRecords).values({
+      userId: job.userId,
+      jobId,
+      costUSD: usage.costUSD.toFixed(4),
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+    });
+  }
+}
+
+/**
+ * Ledger row for usage that belongs to no job (counts towards the monthly spend only)
+ */
+export async function addUserUsage(
+  userId: number,
+  usage: { costUSD: number; inputTokens: number; outputTokens: number },
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.insert(usageRecords).values({
+    userId,
+    jobId: null,
+    costUSD: usage.costUSD.toFixed(4),
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+  });
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { FIRM_ENTITY_FIELDS, PERSON_ENTITY_FIELDS, canonicalLinkedInUrl, matchPersonEntity, mergeFields } from "./entityStore";
+
+describe("canonicalLinkedInUrl", () => {
+  it("should reduce profile URLs to one canonical form", () => {
+    expect(canonicalLinkedInUrl("linkedin.com/in/Jane-Doe/?trk=abc")).toBe("https://www.linkedin.com/in/jane-doe");
+    expect(canonicalLinkedInUrl("https://uk.linkedin.com/in/jane-doe#about")).toBe("https://www.linkedin.com/in/jane-doe");
+    expect(canonicalLinkedInUrl("https://www.linkedin.com/company/acme")).toBeNull();
+    expect(canonicalLinkedInUrl(null)).toBeNull();
+  });
+});
+
+describe("mergeFields", () => {
+  const entity = { name: "Acme Ventures", aum: "$500M", headquarters: null, investorType: "Venture Capital" };
+
+  it("should take newer non-empty values and never blank a field", () => {
+    const changes = mergeFields(entity, { name: "Acme Ventures", aum: "$750M", headquarters: "Boston, MA", investorType: "" }, FIRM_ENTITY_FIELDS);
+    expect(changes).toEqual([
+      { field: "aum", oldValue: "$500M", newValue: "$750M" },
+      { field: "headquarters", oldValue: null, newValue: "Boston, MA" },
+    ]);
+  });
+
+  it("should only fill gaps from older rows", () => {
+    const changes = mergeFields(entity, { name: "Acme", aum: "$100M", headquarters: "NYC", investorType: null }, FIRM_ENTITY_FIELDS, false);
+    expect(changes).toEqual([{ field: "headquarters", oldValue: null, newValue: "NYC" }]);
+  });
+
+  it("should compare person fields", () => {
+    const changes = mergeFields(
+      { name: "Jane Doe", title: "Principal", email: null, linkedinUrl: null, decisionMakerTier: "Tier 2" },
+      { name: "Jane Doe", title: "Partner", email: "jane@acme.vc", linkedinUrl: null, decisionMakerTier: "Tier 1" },
+      PERSON_ENTITY_FIELDS,
+    );
+    expect(changes.map((c) => c.field)).toEqual(["title", "email", "decisionMakerTier"]);
+  });
+});
+
+describe("matchPersonEntity", () => {
+  const people = [
+    { id: 1, firmEntityId: 10, name: "Jane Doe", linkedinUrl: "https://www.linkedin.com/in/jane-doe" },
+    { id: 2, firmEntityId: 10, name: "John Roe", linkedinUrl: null },
+    { id: 3, firmEntityId: 20, name: "Sam Poe", linkedinUrl: "https://www.linkedin.com/in/sam-poe" },
+  ];
+
+  it("should match on LinkedIn URL across firms", () => {
+    expect(matchPersonEntity(people, { name: "Samuel Poe", linkedinUrl: "https://www.linkedin.com/in/sam-poe" }, 10)?.id).toBe(3);
+  });
+
+  it("should match on name at the same firm only", () => {
+    expect(matchPersonEntity(people, { name: "Roe, John", linkedinUrl: null }, 10)?.id).toBe(2);
+    expect(matchPersonEntity(people, { name: "John Roe", linkedinUrl: null }, 20)).toBeNull();
+  });
+
+  it("should not merge same-name people with different LinkedIn profiles", () => {
+    expect(matchPersonEntity(people, { name: "Jane Doe", linkedinUrl: "https://www.linkedin.com/in/jane-doe-2" }, 10)).toBeNull();
+    expect(matchPersonEntity(people, { name: "Jane Doe", linkedinUrl: null }, 10)?.id).toBe(1);
+  });
+});
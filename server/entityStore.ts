@@ -0,0 +1,376 @@
+/**
+ * Cross-Job Entity Store
+ *
+ * enrichedFirms / teamMembers rows belong to one job, so the same partner shows up once per job
+ * that touched their firm. This layer keeps one canonical record per real-world entity and
+ * links every job row to it:
+ * - firmEntities:   one per normalised website domain (firms without a website stay unlinked)
+ * - personEntities: matched on canonical LinkedIn URL at any firm (people move), else on
+ *                   normalizeName() at the same firm — unless both sides have different LinkedIn URLs
+ *
+ * Canonical fields take the newest non-empty value (rows from older jobs, e.g. during a backfill,
+ * only fill gaps). entityMergeHistory records every creation, link, field change and firm move.
+ *
+ * Firms are linked as they are saved (incrementalSave.ts); `linkJobEntities` backfills older jobs.
+ *
+ * Entities span every user's jobs, so browsing them (the `entities` router) is admin-only.
+ */
+
+import { and, desc, eq, inArray, like, or } from "drizzle-orm";
+import {
+  enrichedFirms,
+  entityMergeHistory,
+  firmEntities,
+  personEntities,
+  teamMembers,
+  type EnrichedFirm,
+  type EntityMergeHistoryEntry,
+  type FirmEntity,
+  type InsertEntityMergeHistoryEntry,
+  type PersonEntity,
+  type TeamMember,
+} from "../drizzle/schema";
+import { getDb } from "./db";
+import { normalizeDomain } from "./crawlPolicy";
+import { isSamePerson, normalizeName } from "./nameNormalization";
+
+export type EntityType = "firm" | "person";
+
+/**
+ * created: first row seen for the entity; linked: a later job row joined it;
+ * updated: a canonical field changed; moved: a person turned up at another firm
+ */
+export type MergeAction = "created" | "linked" | "updated" | "moved";
+
+export const FIRM_ENTITY_FIELDS = [
+  "name", "websiteUrl", "investorType", "investmentStages", "investmentNiches", "aum", "headquarters", "foundedYear",
+] as const;
+export const PERSON_ENTITY_FIELDS = ["name", "title", "email", "linkedinUrl", "decisionMakerTier"] as const;
+
+type FirmEntityValues = Record<(typeof FIRM_ENTITY_FIELDS)[number], string | null>;
+type PersonEntityValues = Record<(typeof PERSON_ENTITY_FIELDS)[number], string | null>;
+
+export interface FieldChange {
+  field: string;
+  oldValue: string | null;
+  newValue: string;
+}
+
+export interface LinkResult {
+  firmEntityId: number | null;
+  peopleCreated: number;
+  peopleLinked: number;
+}
+
+// ---------------------------------------------------------------------------
+// Matching + merging
+// ---------------------------------------------------------------------------
+
+/**
+ * "linkedin.com/in/Jane-Doe/?trk=x" → "https://www.linkedin.com/in/jane-doe". Null if not a profile URL.
+ */
+export function canonicalLinkedInUrl(url: string | null | undefined): string | null {
+  const match = (url ?? "").match(/linkedin\.com\/in\/([^/?#\s]+)/i);
+  if (!match) return null;
+  let slug = match[1];
+  try {
+    slug = decodeURIComponent(slug);
+  } catch {
+    // Keep the raw slug
+  }
+  return `https://www.linkedin.com/in/${slug.toLowerCase()}`;
+}
+
+export function firmEntityValues(firm: EnrichedFirm): FirmEntityValues {
+  return {
+    name: firm.companyName,
+    websiteUrl: firm.websiteUrl,
+    investorType: firm.investorType,
+    investmentStages: firm.investmentStages,
+    investmentNiches: firm.investmentNiches,
+    aum: firm.aum,
+    headquarters: firm.headquarters,
+    foundedYear: firm.foundedYear,
+  };
+}
+
+export function personEntityValues(member: TeamMember): PersonEntityValues {
+  return {
+    name: member.name,
+    title: member.title,
+    email: member.email?.trim().toLowerCase() || null,
+    linkedinUrl: canonicalLinkedInUrl(member.linkedinUrl),
+    decisionMakerTier: member.decisionMakerTier,
+  };
+}
+
+/**
+ * Canonical field changes an incoming row brings. Empty values never blank a field; with
+ * overwrite false (the row is older than what the entity was built from) only empty fields fill.
+ */
+export function mergeFields(
+  current: Record<string, unknown>,
+  incoming: Record<string, string | null>,
+  fields: readonly string[],
+  overwrite = true,
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const newValue = incoming[field]?.trim();
+    if (!newValue) continue;
+    const oldValue = current[field] === null || current[field] === undefined ? null : String(current[field]);
+    if (oldValue === newValue || (oldValue && !overwrite)) continue;
+    changes.push({ field, oldValue, newValue });
+  }
+  return changes;
+}
+
+/**
+ * The existing person an incoming team member is, if any
+ */
+export function matchPersonEntity<T extends Pick<PersonEntity, "firmEntityId" | "name" | "linkedinUrl">>(
+  candidates: T[],
+  incoming: { name: string; linkedinUrl: string | null },
+  firmEntityId: number,
+): T | null {
+  if (incoming.linkedinUrl) {
+    const byLinkedIn = candidates.find((c) => c.linkedinUrl === incoming.linkedinUrl);
+    if (byLinkedIn) return byLinkedIn;
+  }
+  return candidates.find((c) =>
+    c.firmEntityId === firmEntityId
+    && isSamePerson(c.name, incoming.name)
+    && !(c.linkedinUrl && incoming.linkedinUrl && c.linkedinUrl !== incoming.linkedinUrl),
+  ) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Linking
+// ---------------------------------------------------------------------------
+
+function historyEntries(
+  entityType: EntityType,
+  entityId: number,
+  jobId: number,
+  sourceRowId: number,
+  action: "created" | "linked",
+  changes: FieldChange[],
+): InsertEntityMergeHistoryEntry[] {
+  const base = { entityType, entityId, jobId, sourceRowId };
+  return [
+    { ...base, action },
+    ...changes.map((c) => ({ ...base, action: "updated", field: c.field, oldValue: c.oldValue, newValue: c.newValue })),
+  ];
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  const e = error as { code?: string; cause?: { code?: string } };
+  return e?.code === "ER_DUP_ENTRY" || e?.cause?.code === "ER_DUP_ENTRY";
+}
+
+/**
+ * Link one saved enrichedFirms row and its team members into the entity store. Idempotent:
+ * relinking a row only applies values that changed since.
+ */
+export async function linkFirmEntities(firmRowId: number): Promise<LinkResult> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [firm] = await db.select().from(enrichedFirms).where(eq(enrichedFirms.id, firmRowId)).limit(1);
+  const domain = firm?.websiteUrl ? normalizeDomain(firm.websiteUrl) : null;
+  if (!firm || !domain) return { firmEntityId: null, peopleCreated: 0, peopleLinked: 0 };
+
+  const jobId = firm.jobId;
+  const history: InsertEntityMergeHistoryEntry[] = [];
+  const values = firmEntityValues(firm);
+
+  // --- Firm ---
+  let [entity] = await db.select().from(firmEntities).where(eq(firmEntities.domain, domain)).limit(1);
+  if (!entity) {
+    try {
+      const result = await db.insert(firmEntities).values({
+        domain,
+        ...values,
+        name: values.name ?? domain,
+        firstSeenJobId: jobId,
+        lastSeenJobId: jobId,
+      });
+      [entity] = await db.select().from(firmEntities).where(eq(firmEntities.id, Number(result[0].insertId))).limit(1);
+      history.push(...historyEntries("firm", entity.id, jobId, firm.id, "created", []));
+    } catch (error) {
+      // Another worker created it first
+      if (!isDuplicateKeyError(error)) throw error;
+      [entity] = await db.select().from(firmEntities).where(eq(firmEntities.domain, domain)).limit(1);
+    }
+  }
+
+  if (history.length === 0) {
+    const changes = mergeFields(entity, values, FIRM_ENTITY_FIELDS, jobId >= entity.lastSeenJobId);
+    const [sameJobRow] = await db.select({ id: enrichedFirms.id }).from(enrichedFirms)
+      .where(and(eq(enrichedFirms.jobId, jobId), eq(enrichedFirms.firmEntityId, entity.id)))
+      .limit(1);
+    const newJob = !sameJobRow;
+    if (changes.length > 0 || newJob) {
+      const updates: Partial<FirmEntity> = Object.fromEntries(changes.map((c) => [c.field, c.newValue]));
+      if (newJob) {
+        updates.jobCount = entity.jobCount + 1;
+        updates.firstSeenJobId = Math.min(entity.firstSeenJobId, jobId);
+        updates.lastSeenJobId = Math.max(entity.lastSeenJobId, jobId);
+      }
+      await db.update(firmEntities).set(updates).where(eq(firmEntities.id, entity.id));
+      history.push(...historyEntries("firm", entity.id, jobId, firm.id, "linked", changes).slice(newJob ? 0 : 1));
+    }
+  }
+  if (firm.firmEntityId !== entity.id) {
+    await db.update(enrichedFirms).set({ firmEntityId: entity.id }).where(eq(enrichedFirms.id, firm.id));
+  }
+
+  // --- People ---
+  const members = await db.select().from(teamMembers).where(eq(teamMembers.firmId, firm.id));
+  const memberValues = members.map(personEntityValues);
+  const linkedinUrls = Array.from(new Set(memberValues.map((v) => v.linkedinUrl).filter((u): u is string => !!u)));
+  const candidates = await db.select().from(personEntities).where(
+    linkedinUrls.length > 0
+      ? or(eq(personEntities.firmEntityId, entity.id), inArray(personEntities.linkedinUrl, linkedinUrls))
+      : eq(personEntities.firmEntityId, entity.id),
+  );
+
+  let peopleCreated = 0;
+  let peopleLinked = 0;
+  for (let i = 0; i < members.length; i++) {
+    const member = members[i];
+    const incoming = memberValues[i];
+    let person = matchPersonEntity(candidates, { name: member.name, linkedinUrl: incoming.linkedinUrl }, entity.id);
+
+    if (!person) {
+      const result = await db.insert(personEntities).values({
+        firmEntityId: entity.id,
+        ...incoming,
+        name: member.name,
+        normalizedName: normalizeName(member.name),
+        firstSeenJobId: jobId,
+        lastSeenJobId: jobId,
+      });
+      [person] = await db.select().from(personEntities).where(eq(personEntities.id, Number(result[0].insertId))).limit(1);
+      candidates.push(person);
+      history.push(...historyEntries("person", person.id, jobId, member.id, "created", []));
+      peopleCreated++;
+    } else {
+      const newer = jobId >= person.lastSeenJobId;
+      const changes = mergeFields(person, incoming, PERSON_ENTITY_FIELDS, newer);
+      const moved = newer && person.firmEntityId !== entity.id;
+      const [sameJobRow] = await db.select({ id: teamMembers.id }).from(teamMembers)
+        .where(and(eq(teamMembers.jobId, jobId), eq(teamMembers.personEntityId, person.id)))
+        .limit(1);
+      const newJob = !sameJobRow;
+      if (changes.length > 0 || moved || newJob) {
+        const updates: Partial<PersonEntity> = Object.fromEntries(changes.map((c) => [c.field, c.newValue]));
+        if (updates.name) updates.normalizedName = normalizeName(updates.name);
+        if (moved) updates.firmEntityId = entity.id;
+        if (newJob) {
+          updates.jobCount = person.jobCount + 1;
+          updates.firstSeenJobId = Math.min(person.firstSeenJobId, jobId);
+          updates.lastSeenJobId = Math.max(person.lastSeenJobId, jobId);
+        }
+        await db.update(personEntities).set(updates).where(eq(personEntities.id, person.id));
+        history.push(...historyEntries("person", person.id, jobId, member.id, "linked", changes).slice(newJob ? 0 : 1));
+        if (moved) {
+          history.push({
+            entityType: "person", entityId: person.id, jobId, sourceRowId: member.id, action: "moved",
+            field: "firmEntityId", oldValue: String(person.firmEntityId), newValue: String(entity.id),
+          });
+        }
+        Object.assign(person, updates);
+      }
+      peopleLinked++;
+    }
+
+    if (member.personEntityId !== person.id) {
+      await db.update(teamMembers).set({ personEntityId: person.id }).where(eq(teamMembers.id, member.id));
+    }
+  }
+
+  if (history.length > 0) await db.insert(entityMergeHistory).values(history);
+  return { firmEntityId: entity.id, peopleCreated, peopleLinked };
+}
+
+/**
+ * Link every firm of a job (backfill for jobs saved before the entity store existed)
+ */
+export async function linkJobEntities(jobId: number): Promise<{ firms: number; unlinkedFirms: number; peopleCreated: number; peopleLinked: number }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const firms = await db.select({ id: enrichedFirms.id }).from(enrichedFirms).where(eq(enrichedFirms.jobId, jobId)).orderBy(enrichedFirms.id);
+  const totals = { firms: 0, unlinkedFirms: 0, peopleCreated: 0, peopleLinked: 0 };
+  for (const { id } of firms) {
+    const result = await linkFirmEntities(id);
+    if (result.firmEntityId === null) totals.unlinkedFirms++;
+    else totals.firms++;
+    totals.peopleCreated += result.peopleCreated;
+    totals.peopleLinked += result.peopleLinked;
+  }
+  return totals;
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Canonical firms whose domain or name contains the search term, most recently seen first
+ */
+export async function searchFirmEntities(search: string, limit = 50): Promise<FirmEntity[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const term = `%${search.trim()}%`;
+  return await db.select().from(firmEntities)
+    .where(or(like(firmEntities.domain, term), like(firmEntities.name, term)))
+    .orderBy(desc(firmEntities.lastSeenJobId))
+    .limit(limit);
+}
+
+export async function getFirmEntity(idOrDomain: number | string): Promise<FirmEntity | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const where = typeof idOrDomain === "number"
+    ? eq(firmEntities.id, idOrDomain)
+    : eq(firmEntities.domain, normalizeDomain(idOrDomain) ?? idOrDomain);
+  const [entity] = await db.select().from(firmEntities).where(where).limit(1);
+  return entity;
+}
+
+/**
+ * Everyone known at a firm across all jobs, with the jobs each person appeared in
+ */
+export async function getFirmEntityPeople(firmEntityId: number): Promise<Array<PersonEntity & { jobIds: number[] }>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const people = await db.select().from(personEntities)
+    .where(eq(personEntities.firmEntityId, firmEntityId))
+    .orderBy(personEntities.name);
+  if (people.length === 0) return [];
+
+  const appearances = await db.selectDistinct({ personEntityId: teamMembers.personEntityId, jobId: teamMembers.jobId })
+    .from(teamMembers)
+    .where(inArray(teamMembers.personEntityId, people.map((p) => p.id)));
+  const jobsByPerson = new Map<number, number[]>();
+  for (const a of appearances) {
+    if (a.personEntityId === null) continue;
+    jobsByPerson.set(a.personEntityId, [...(jobsByPerson.get(a.personEntityId) ?? []), a.jobId]);
+  }
+  return people.map((p) => ({ ...p, jobIds: (jobsByPerson.get(p.id) ?? []).sort((a, b) => a - b) }));
+}
+
+export async function getEntityHistory(entityType: EntityType, entityId: number, limit = 200): Promise<EntityMergeHistoryEntry[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(entityMergeHistory)
+    .where(and(eq(entityMergeHistory.entityType, entityType), eq(entityMergeHistory.entityId, entityId)))
+    .orderBy(desc(entityMergeHistory.id))
+    .limit(limit);
+}
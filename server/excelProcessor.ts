@@ -1,6 +1,7 @@
 import * as XLSX from "xlsx";
 import axios from "axios";
 import { parse as csvParse } from "csv-parse/sync";
+import { fetchSheet, isSheetSourceUrl } from "./sheetSource";
 
 export interface VCFirmInput {
   companyName: string;
@@ -59,6 +60,9 @@ export interface TeamMemberData {
   specialization: string;
   linkedinUrl: string;
   email: string;
+  emailPattern: string;
+  emailConfidence: string;
+  emailVerification: string;
   portfolioCompanies: string; // Comma-separated list of portfolio companies associated with this team member
   // Individual investment mandate fields
   investmentFocus: string;
@@ -92,6 +96,12 @@ export interface PortfolioCompanyData {
 // ---------------------------------------------------------------------------
 
 async function readFileToRows(fileUrl: string): Promise<any[]> {
+  // Shared spreadsheet links (Google Sheets, file://) — see sheetSource.ts
+  if (isSheetSourceUrl(fileUrl)) {
+    const { buffer, format } = await fetchSheet(fileUrl);
+    return bufferToRows(buffer, format === "csv");
+  }
+
   let buffer: Buffer;
 
   if (fileUrl.startsWith('/') || fileUrl.startsWith('./')) {
@@ -103,7 +113,10 @@ async function readFileToRows(fileUrl: string): Promise<any[]> {
   }
 
   const isCsv = fileUrl.toLowerCase().endsWith('.csv');
+  return bufferToRows(buffer, isCsv);
+}
 
+function bufferToRows(buffer: Buffer, isCsv: boolean): any[] {
   if (isCsv) {
     const text = buffer.toString('utf-8');
     return csvParse(text, {
@@ -243,45 +256,13 @@ export async function parseInputExcel(fileUrl: string, columnMapping?: ColumnMap
     const row = data[i];
     if (!row) continue;
 
-    let companyName: string | undefined;
-    let websiteUrl: string | undefined;
-    let description: string | undefined;
-
-    if (columnMapping) {
-      // Use explicit column mapping
-      if (columnMapping.companyNameColumn) {
-        companyName = row[columnMapping.companyNameColumn] != null ? String(row[columnMapping.companyNameColumn]) : undefined;
-      }
-      websiteUrl = row[columnMapping.websiteUrlColumn] != null ? String(row[columnMapping.websiteUrlColumn]) : undefined;
-      description = columnMapping.descriptionColumn ? String(row[columnMapping.descriptionColumn] ?? "") : "";
-    } else {
-      // Auto-detect using variant matching
-      companyName = findColumnValue(row, COMPANY_NAME_VARIANTS);
-      websiteUrl = findColumnValue(row, WEBSITE_URL_VARIANTS);
-      description = findColumnValue(row, DESCRIPTION_VARIANTS);
-    }
-
-    // Reject email addresses that ended up in the websiteUrl field
-    if (websiteUrl && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(websiteUrl.trim()) && !websiteUrl.includes("://")) {
-      console.log(`[Excel Parser] Skipping row ${i + 2}: websiteUrl is an email address (${websiteUrl})`);
+    const result = rowToFirmInput(row, columnMapping);
+    if (!result.firm) {
+      console.log(`[Excel Parser] Skipping row ${i + 2}: ${result.skipReason}`);
       skippedRows.push(i + 2);
       continue;
     }
-
-    if (!websiteUrl) {
-      console.log(`[Excel Parser] Skipping row ${i + 2}: missing required websiteUrl`);
-      skippedRows.push(i + 2);
-      continue;
-    }
-
-    // Company name is optional — fall back to URL as identifier
-    if (!companyName) companyName = websiteUrl;
-
-    firms.push({
-      companyName,
-      websiteUrl,
-      description: description || '',
-    });
+    firms.push(result.firm);
   }
 
   console.log(`[Excel Parser] Successfully parsed ${firms.length} firms, skipped ${skippedRows.length} rows`);
@@ -299,8 +280,74 @@ export async function parseInputExcel(fileUrl: string, columnMapping?: ColumnMap
   return firms;
 }
 
+/**
+ * The firm a row of the input file becomes (explicit column mapping, else auto-detected
+ * columns), or why the row is skipped
+ */
+export function rowToFirmInput(row: any, columnMapping?: ColumnMapping): { firm?: VCFirmInput; skipReason?: string } {
+  let companyName: string | undefined;
+  let websiteUrl: string | undefined;
+  let description: string | undefined;
+
+  if (columnMapping) {
+    // Use explicit column mapping
+    if (columnMapping.companyNameColumn) {
+      companyName = row[columnMapping.companyNameColumn] != null ? String(row[columnMapping.companyNameColumn]) : undefined;
+    }
+    websiteUrl = row[columnMapping.websiteUrlColumn] != null ? String(row[columnMapping.websiteUrlColumn]) : undefined;
+    description = columnMapping.descriptionColumn ? String(row[columnMapping.descriptionColumn] ?? "") : "";
+  } else {
+    // Auto-detect using variant matching
+    companyName = findColumnValue(row, COMPANY_NAME_VARIANTS);
+    websiteUrl = findColumnValue(row, WEBSITE_URL_VARIANTS);
+    description = findColumnValue(row, DESCRIPTION_VARIANTS);
+  }
+
+  // Reject email addresses that ended up in the websiteUrl field
+  if (websiteUrl && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(websiteUrl.trim()) && !websiteUrl.includes("://")) {
+    return { skipReason: `websiteUrl is an email address (${websiteUrl})` };
+  }
+
+  if (!websiteUrl) {
+    return { skipReason: "missing required websiteUrl" };
+  }
+
+  // Company name is optional — fall back to URL as identifier
+  if (!companyName) companyName = websiteUrl;
+
+  return { firm: { companyName, websiteUrl, description: description || '' } };
+}
+
+// ---------------------------------------------------------------------------
+// Input file as a table (enrich-in-place output keeps every row and column)
+// ---------------------------------------------------------------------------
+
+export interface InputTable {
+  /** Header row of the first sheet, in file order */
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+export async function readInputTable(fileUrl: string): Promise<InputTable> {
+  const data = await readFileToRows(fileUrl);
+  const columns: string[] = [];
+  for (const row of data) {
+    for (const key of Object.keys(row ?? {})) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  const rows = data.map((row) => {
+    const clean: Record<string, string> = {};
+    for (const col of columns) clean[col] = row?.[col] == null ? "" : String(row[col]);
+    return clean;
+  });
+  return { columns, rows };
+}
+
 import type { InvestmentThesisSummary } from "./investmentThesisAnalyzer";
-import type { AgentSection, DirectoryEntry } from "./agentScraper";
+import type { AgentSection, DirectoryEntry, FieldSources } from "./agentScraper";
+import { sectionColumnLabel } from "./sectionTypes";
+import { changeSheetRows, type ChangeRecord } from "./changeDetection";
 
 export interface ProcessingSummaryData {
   firmName: string;
@@ -393,12 +440,18 @@ export function createOutputExcel(
 /**
  * Create output Excel for agentic extraction jobs.
  * - "Results" sheet: one row per profile entity, one column per custom section
+ *   (number sections carry their unit in the header, e.g. "AUM (USD)")
  * - "Collected URLs" sheet: entries gathered from directory pages
+ * - "Sources" sheet: one row per (entity, field, source page) with the evidence snippet,
+ *   when profileSources is given (index-aligned with profileResults)
+ * - "Changes" sheet: differences from the previous scheduled run, when changes is given
  */
 export function createAgentOutputExcel(
   sections: AgentSection[],
   profileResults: Array<Record<string, string>>,
   collectedUrls: DirectoryEntry[],
+  profileSources?: FieldSources[],
+  changes?: ChangeRecord[],
 ): Buffer {
   const workbook = XLSX.utils.book_new();
 
@@ -410,7 +463,7 @@ export function createAgentOutputExcel(
         "Website": r["Website"] ?? "",
       };
       for (const s of sections) {
-        row[s.label] = r[s.key] ?? "";
+        row[sectionColumnLabel(s)] = r[s.key] ?? "";
       }
       return row;
     });
@@ -435,6 +488,38 @@ export function createAgentOutputExcel(
     XLSX.utils.book_append_sheet(workbook, urlSheet, "Collected URLs");
   }
 
+  // Sheet 3: Sources (per-field citations for auditing)
+  if (profileSources && profileSources.length > 0) {
+    const sourceRows: Array<Record<string, string>> = [];
+    profileResults.forEach((r, i) => {
+      const fieldSources = profileSources[i] ?? {};
+      for (const s of sections) {
+        for (const src of fieldSources[s.key] ?? []) {
+          sourceRows.push({
+            "Company Name": r["Company Name"] ?? "",
+            "Website": r["Website"] ?? "",
+            "Field": s.label,
+            "Value": r[s.key] ?? "",
+            "Source URL": src.url,
+            "Evidence": src.snippet,
+          });
+        }
+      }
+    });
+    if (sourceRows.length > 0) {
+      const sourcesSheet = XLSX.utils.json_to_sheet(sanitizeForExcel(sourceRows));
+      XLSX.utils.book_append_sheet(workbook, sourcesSheet, "Sources");
+    }
+  }
+
+  // Sheet 4: Changes since the previous scheduled run
+  if (changes) {
+    const changesSheet = changes.length > 0
+      ? XLSX.utils.json_to_sheet(sanitizeForExcel(changeSheetRows(changes)))
+      : XLSX.utils.aoa_to_sheet([["No changes since the previous run"]]);
+    XLSX.utils.book_append_sheet(workbook, changesSheet, "Changes");
+  }
+
   return XLSX.write(workbook, {
     type: "buffer",
     bookType: "xlsx",
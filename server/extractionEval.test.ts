@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import { fileURLToPath } from "url";
+import { buildReport, formatReport, normalizeCompanyName, scoreCase, scoreFieldValue, toMetrics, type GroundTruthSet } from "./extractionEval";
+import type { AgentSection } from "./agentScraper";
+
+describe("scoreFieldValue", () => {
+  it("should score list fields per item, matching items that contain each other", () => {
+    expect(scoreFieldValue(["Venture Capital", "Seed"], ["Venture Capital (VC)", "Series A"])).toEqual({ tp: 1, fp: 1, fn: 1 });
+    expect(scoreFieldValue(["Seed", "Series A"], "Seed; Series A")).toEqual({ tp: 2, fp: 0, fn: 0 });
+  });
+
+  it("should accept a single value that contains the expected one", () => {
+    expect(scoreFieldValue("Austin", "Austin, Texas")).toEqual({ tp: 1, fp: 0, fn: 0 });
+    expect(scoreFieldValue("Austin, Texas", "Austin")).toEqual({ tp: 0, fp: 1, fn: 1 });
+    expect(scoreFieldValue("2015", "")).toEqual({ tp: 0, fp: 0, fn: 1 });
+    expect(scoreFieldValue("", "something")).toEqual({ tp: 0, fp: 1, fn: 0 });
+  });
+});
+
+describe("scoreCase", () => {
+  it("should match team members by name and score titles of the matched ones", () => {
+    const scores = scoreCase(
+      {
+        teamMembers: [
+          { name: "José Pacheco", title: "Investment Committee" },
+          { name: "Liam Donohue", title: "Managing Partner" },
+          "Kevin Wang",
+        ],
+      },
+      {
+        fields: {},
+        teamMembers: [
+          { name: "Jose Pacheco", title: "Investment Committee, Independent Member" },
+          { name: "Donohue Liam", title: "Founder" },
+          { name: "Some Founder", title: "CEO at PortfolioCo" },
+        ],
+        portfolioCompanies: [],
+      },
+    );
+    expect(scores.teamMembers).toEqual({ tp: 2, fp: 1, fn: 1 });
+    expect(scores["teamMembers.title"]).toEqual({ tp: 1, fp: 1, fn: 1 });
+  });
+
+  it("should match portfolio companies ignoring legal suffixes and only score labelled fields", () => {
+    expect(normalizeCompanyName("Acme, Inc.")).toBe("acme");
+    const scores = scoreCase(
+      { portfolioCompanies: ["Acme Inc", "Globex"] },
+      { fields: { aum: "$1B" }, teamMembers: [], portfolioCompanies: ["ACME", "Initech"] },
+    );
+    expect(scores).toEqual({ portfolioCompanies: { tp: 1, fp: 1, fn: 1 } });
+  });
+});
+
+describe("buildReport", () => {
+  it("should sum counts per field and per template", () => {
+    const report = buildReport([
+      { id: "a", template: "vc", scores: { teamMembers: { tp: 8, fp: 2, fn: 0 } } },
+      { id: "b", template: "vc", scores: { teamMembers: { tp: 2, fp: 0, fn: 2 } } },
+      { id: "c", template: "realestate", scores: { phone: { tp: 1, fp: 0, fn: 0 } } },
+    ]);
+    expect(report.byField.teamMembers).toEqual(toMetrics({ tp: 10, fp: 2, fn: 2 }));
+    expect(report.byField.teamMembers.precision).toBeCloseTo(10 / 12);
+    expect(report.byTemplate.realestate.f1).toBe(1);
+    expect(report.overall).toMatchObject({ tp: 11, fp: 2, fn: 2 });
+  });
+
+  it("should show F1 changes against a baseline report", () => {
+    const before = buildReport([{ id: "a", template: "vc", scores: { teamMembers: { tp: 1, fp: 1, fn: 1 } } }]);
+    const after = buildReport([{ id: "a", template: "vc", scores: { teamMembers: { tp: 2, fp: 0, fn: 0 } } }]);
+    expect(formatReport(after, before)).toMatch(/teamMembers .*100\.0%\s+\+50\.0/);
+  });
+});
+
+describe("ground truth set", () => {
+  const set: GroundTruthSet = JSON.parse(fs.readFileSync(fileURLToPath(new URL("../evals/vc-ground-truth.json", import.meta.url)), "utf8"));
+
+  it("should cover other templates and the agent pipeline, not only VC firms", () => {
+    expect(new Set(set.cases.map((c) => c.template)).size).toBeGreaterThan(1);
+    const agentCases = set.cases.filter((c) => c.input.pipeline === "agent");
+    expect(agentCases.length).toBeGreaterThan(0);
+    for (const c of agentCases) {
+      if (c.input.pipeline !== "agent") continue;
+      const keys = (JSON.parse(c.input.sectionsJson) as AgentSection[]).map((s) => s.key);
+      expect(keys, c.id).toEqual(expect.arrayContaining(Object.keys(c.expected.fields ?? {})));
+    }
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Extraction Quality Evaluation
+ *
+ * Runs a labelled set of firms (ground truth JSON, see evals/) through the VC pipeline or an
+ * agent sectionsJson and scores what came back:
+ *   teamMembers         people matched by name (isSamePerson)
+ *   teamMembers.title   titles of the matched people, where the ground truth has one
+ *   portfolioCompanies  companies matched by normalised name
+ *   <field>             firm fields / agent sections. A list field is scored per item; a single
+ *                       value is correct when the extraction contains the expected value.
+ *
+ * Only the fields a case labels are scored, but a labelled list (teamMembers, portfolioCompanies,
+ * list fields) is taken as complete: every extracted item that matches no label counts as a false
+ * positive, so label the whole team or leave it out. Counts are summed over cases (micro-averaged)
+ * into precision / recall / F1 per field, per template and overall, and a report can be compared
+ * with an earlier one to see whether a prompt change helped. Entry point: evaluate-extraction.ts.
+ */
+
+import { scrapeUrl, type AgentSection } from "./agentScraper";
+import { VCEnrichmentService, type EnrichmentResult } from "./vcEnrichment";
+import { getProfileForTemplate } from "./scrapeProfile";
+import { sanitizeSectionType, normalizeSectionValues } from "./sectionTypes";
+import { isSamePerson } from "./nameNormalization";
+
+export type EvalCaseInput =
+  | { pipeline: "vc"; companyName: string; websiteUrl: string; description?: string }
+  | { pipeline: "agent"; url: string; objective: string; sectionsJson: string; systemPrompt?: string };
+
+export interface ExpectedExtraction {
+  /** Firm fields / section keys → expected value ("" = should be empty) or list of items */
+  fields?: Record<string, string | string[]>;
+  /** Names, or { name, title } to also score titles */
+  teamMembers?: Array<string | { name: string; title?: string }>;
+  portfolioCompanies?: string[];
+}
+
+export interface GroundTruthCase {
+  id: string;
+  /** Template id (vc, b2b, realestate, ...) — picks the VC pipeline's profile and groups the report */
+  template: string;
+  input: EvalCaseInput;
+  expected: ExpectedExtraction;
+}
+
+export interface GroundTruthSet {
+  name?: string;
+  cases: GroundTruthCase[];
+}
+
+/** What a pipeline extracted, in the shape the scorer compares */
+export interface ExtractionSnapshot {
+  fields: Record<string, string | string[]>;
+  teamMembers: Array<{ name: string; title?: string }>;
+  portfolioCompanies: string[];
+}
+
+export interface FieldCounts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+export interface FieldMetrics extends FieldCounts {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface CaseResult {
+  id: string;
+  template: string;
+  scores: Record<string, FieldCounts>;
+  error?: string;
+}
+
+export interface EvalReport {
+  name?: string;
+  generatedAt: string;
+  cases: CaseResult[];
+  byField: Record<string, FieldMetrics>;
+  byTemplate: Record<string, FieldMetrics>;
+  overall: FieldMetrics;
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+export function normalizeEvalValue(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const COMPANY_SUFFIX = /\s+(inc|llc|ltd|limited|corp|corporation|co|gmbh|plc|sa)$/;
+
+export function normalizeCompanyName(name: string): string {
+  return normalizeEvalValue(name).replace(COMPANY_SUFFIX, "").trim();
+}
+
+function contains(outer: string, inner: string): boolean {
+  return inner.length > 0 && ` ${outer} `.includes(` ${inner} `);
+}
+
+/** Same item when one normalised value contains the other as whole words */
+function sameItem(a: string, b: string): boolean {
+  const na = normalizeEvalValue(a);
+  const nb = normalizeEvalValue(b);
+  return na === nb || contains(na, nb) || contains(nb, na);
+}
+
+/**
+ * One-to-one matching of expected against extracted items
+ */
+export function matchItems<E, A>(
+  expected: E[],
+  actual: A[],
+  same: (e: E, a: A) => boolean,
+): { counts: FieldCounts; pairs: Array<[E, A]> } {
+  const used = new Set<number>();
+  const pairs: Array<[E, A]> = [];
+  for (const e of expected) {
+    const index = actual.findIndex((a, i) => !used.has(i) && same(e, a));
+    if (index === -1) continue;
+    used.add(index);
+    pairs.push([e, actual[index]]);
+  }
+  return {
+    counts: { tp: pairs.length, fp: actual.length - pairs.length, fn: expected.length - pairs.length },
+    pairs,
+  };
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  const items = Array.isArray(value) ? value : value.split(/[;\n]/);
+  return items.map((v) => v.trim()).filter(Boolean);
+}
+
+export function scoreFieldValue(expected: string | string[], actual: string | string[] | undefined): FieldCounts {
+  if (Array.isArray(expected)) {
+    return matchItems(toList(expected), toList(actual), sameItem).counts;
+  }
+
+  const want = normalizeEvalValue(expected);
+  const got = normalizeEvalValue(Array.isArray(actual) ? actual.join(" ") : actual ?? "");
+  if (!want) return { tp: 0, fp: got ? 1 : 0, fn: 0 };
+  if (got === want || contains(got, want)) return { tp: 1, fp: 0, fn: 0 };
+  return { tp: 0, fp: got ? 1 : 0, fn: 1 };
+}
+
+export function scoreCase(expected: ExpectedExtraction, actual: ExtractionSnapshot): Record<string, FieldCounts> {
+  const scores: Record<string, FieldCounts> = {};
+
+  for (const [key, value] of Object.entries(expected.fields ?? {})) {
+    scores[key] = scoreFieldValue(value, actual.fields[key]);
+  }
+
+  if (expected.teamMembers) {
+    const people = expected.teamMembers.map((p) => (typeof p === "string" ? { name: p } : p));
+    const { counts, pairs } = matchItems(people, actual.teamMembers, (e, a) => isSamePerson(e.name, a.name));
+    scores.teamMembers = counts;
+
+    const titled = people.filter((p) => p.title);
+    if (titled.length > 0) {
+      const title: FieldCounts = { tp: 0, fp: 0, fn: titled.length };
+      for (const [e, a] of pairs) {
+        if (!e.title) continue;
+        if (a.title && sameItem(e.title, a.title)) {
+          title.tp++;
+          title.fn--;
+        } else if (a.title) {
+          title.fp++;
+        }
+      }
+      scores["teamMembers.title"] = title;
+    }
+  }
+
+  if (expected.portfolioCompanies) {
+    scores.portfolioCompanies = matchItems(
+      expected.portfolioCompanies,
+      actual.portfolioCompanies,
+      (e, a) => normalizeCompanyName(e) === normalizeCompanyName(a),
+    ).counts;
+  }
+
+  return scores;
+}
+
+export function toMetrics(counts: FieldCounts): FieldMetrics {
+  const { tp, fp, fn } = counts;
+  const precision = tp + fp > 0 ? tp / (tp + fp) : fn > 0 ? 0 : 1;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : fp > 0 ? 0 : 1;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { tp, fp, fn, precision, recall, f1 };
+}
+
+function addCounts(into: FieldCounts, counts: FieldCounts): void {
+  into.tp += counts.tp;
+  into.fp += counts.fp;
+  into.fn += counts.fn;
+}
+
+export function buildReport(cases: CaseResult[], name?: string): EvalReport {
+  const byField: Record<string, FieldCounts> = {};
+  const byTemplate: Record<string, FieldCounts> = {};
+  const overall: FieldCounts = { tp: 0, fp: 0, fn: 0 };
+
+  for (const c of cases) {
+    for (const [field, counts] of Object.entries(c.scores)) {
+      addCounts((byField[field] ??= { tp: 0, fp: 0, fn: 0 }), counts);
+      addCounts((byTemplate[c.template] ??= { tp: 0, fp: 0, fn: 0 }), counts);
+      addCounts(overall, counts);
+    }
+  }
+
+  const metrics = (table: Record<string, FieldCounts>) =>
+    Object.fromEntries(Object.keys(table).sort().map((k) => [k, toMetrics(table[k])]));
+
+  return {
+    name,
+    generatedAt: new Date().toISOString(),
+    cases,
+    byField: metrics(byField),
+    byTemplate: metrics(byTemplate),
+    overall: toMetrics(overall),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Running the pipelines
+// ---------------------------------------------------------------------------
+
+export function snapshotFromEnrichment(result: EnrichmentResult): ExtractionSnapshot {
+  const firm = result.firmData ?? {};
+  const fields: Record<string, string | string[]> = {
+    companyName: result.companyName,
+    websiteVerified: result.websiteVerified ? "Yes" : "No",
+    investorType: result.investorType,
+    investmentStages: result.investmentStages,
+    investmentNiches: result.investmentNiches,
+  };
+  if (firm.aum) fields.aum = firm.aum;
+  if (firm.foundedYear) fields.foundedYear = firm.foundedYear;
+  if (firm.headquarters) fields.headquarters = firm.headquarters;
+  if (firm.investmentThesis) fields.investmentThesis = firm.investmentThesis;
+  if (firm.sectorFocus) fields.sectorFocus = firm.sectorFocus;
+  if (firm.geographicFocus) fields.geographicFocus = firm.geographicFocus;
+
+  return {
+    fields,
+    teamMembers: result.teamMembers.map((m) => ({ name: m.name, title: m.title })),
+    portfolioCompanies: result.portfolioCompanies.map((p) => p.companyName),
+  };
+}
+
+export async function runEvalCase(c: GroundTruthCase): Promise<ExtractionSnapshot> {
+  const input = c.input;
+  if (input.pipeline === "vc") {
+    const service = new VCEnrichmentService(getProfileForTemplate(c.template));
+    return snapshotFromEnrichment(await service.enrichVCFirm(input.companyName, input.websiteUrl, input.description ?? ""));
+  }
+
+  const sections: AgentSection[] = (JSON.parse(input.sectionsJson) as AgentSection[]).map(sanitizeSectionType);
+  const result = await scrapeUrl(input.url, input.objective, sections, input.systemPrompt ?? "");
+  if (result.type !== "profile") {
+    return { fields: {}, teamMembers: [], portfolioCompanies: [] };
+  }
+  return { fields: normalizeSectionValues(sections, result.data).data, teamMembers: [], portfolioCompanies: [] };
+}
+
+/**
+ * Run every case (one at a time) and score it. A case whose pipeline throws scores as all
+ * misses rather than stopping the run.
+ */
+export async function runEvaluation(
+  set: GroundTruthSet,
+  onCase?: (result: CaseResult, index: number) => void,
+): Promise<EvalReport> {
+  const results: CaseResult[] = [];
+  for (const c of set.cases) {
+    let result: CaseResult;
+    try {
+      result = { id: c.id, template: c.template, scores: scoreCase(c.expected, await runEvalCase(c)) };
+    } catch (error) {
+      const empty: ExtractionSnapshot = { fields: {}, teamMembers: [], portfolioCompanies: [] };
+      result = {
+        id: c.id,
+        template: c.template,
+        scores: scoreCase(c.expected, empty),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    results.push(result);
+    onCase?.(result, results.length - 1);
+  }
+  return buildReport(results, set.name);
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`.padStart(7);
+
+function formatRows(title: string, rows: Record<string, FieldMetrics>, baseline?: Record<string, FieldMetrics>): string[] {
+  const width = Math.max(title.length, ...Object.keys(rows).map((k) => k.length));
+  const lines = [
+    `${title.padEnd(width)}     TP     FP     FN  Precision  Recall      F1${baseline ? "     ΔF1" : ""}`,
+  ];
+  for (const [key, m] of Object.entries(rows)) {
+    let line = `${key.padEnd(width)} ${String(m.tp).padStart(6)} ${String(m.fp).padStart(6)} ${String(m.fn).padStart(6)}    ${pct(m.precision)} ${pct(m.recall)} ${pct(m.f1)}`;
+    if (baseline) {
+      const before = baseline[key];
+      const delta = before ? (m.f1 - before.f1) * 100 : null;
+      line += delta === null ? "     new" : ` ${`${delta >= 0 ? "+" : ""}${delta.toFixed(1)}`.padStart(7)}`;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Plain-text tables per field and per template, with F1 deltas when a baseline report is given
+ */
+export function formatReport(report: EvalReport, baseline?: EvalReport): string {
+  const failed = report.cases.filter((c) => c.error);
+  return [
+    `Evaluation${report.name ? ` of ${report.name}` : ""}: ${report.cases.length} cases${failed.length ? `, ${failed.length} failed` : ""}`,
+    "",
+    ...formatRows("Field", report.byField, baseline?.byField),
+    "",
+    ...formatRows("Template", { ...report.byTemplate, overall: report.overall }, baseline && { ...baseline.byTemplate, overall: baseline.overall }),
+    ...failed.map((c) => `  ✗ ${c.id}: ${c.error}`),
+  ].join("\n");
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { nextCoordinatorStep, WORKER_ID, type FirmWorkSummary } from "./firmLeasing";
+
+const summary = (s: Partial<FirmWorkSummary>): FirmWorkSummary => ({
+  pending: 0, leased: 0, expired: 0, completed: 0, failed: 0, ...s,
+});
+
+describe("nextCoordinatorStep", () => {
+  it("should keep leasing while firms are pending or their lease expired", () => {
+    expect(nextCoordinatorStep(summary({ pending: 3, leased: 2 }))).toBe("lease");
+    expect(nextCoordinatorStep(summary({ expired: 1, completed: 10 }))).toBe("lease");
+  });
+
+  it("should wait while other workers hold live leases", () => {
+    expect(nextCoordinatorStep(summary({ leased: 4, completed: 96 }))).toBe("wait");
+  });
+
+  it("should finalize once every firm is completed or failed", () => {
+    expect(nextCoordinatorStep(summary({ completed: 98, failed: 2 }))).toBe("finalize");
+    expect(nextCoordinatorStep(summary({}))).toBe("finalize");
+  });
+});
+
+describe("WORKER_ID", () => {
+  it("should identify the host and process", () => {
+    expect(WORKER_ID).toMatch(new RegExp(`:${process.pid}$`));
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Firm-level Work Leasing
+ *
+ * VC enrichment jobs are split into one processedFirms row per input firm (firmIndex =
+ * row in the input file). Workers lease rows one at a time with an expiring lease,
+ * so several worker.ts processes can cooperate on one job:
+ *
+ * - The worker that claims the job (the coordinator) seeds the rows, leases like
+ *   everyone else, then waits for outstanding leases and writes the job-level results.
+ * - Other workers with nothing pending to claim help out on processing jobs
+ *   (see findJobNeedingHelp) — they only lease, enrich and save firms.
+ * - Leases are renewed every LEASE_RENEW_INTERVAL_MS while a firm is in flight. A crashed
+ *   worker stops renewing; its firms become leasable again once the lease expires.
+ * - A firm whose lease expired MAX_LEASE_ATTEMPTS times (it keeps killing workers) is failed.
+ *
+ * Agent jobs grow their URL queue while running (directory expansion, see agentResults.ts),
+ * so they still run on a single worker.
+ */
+
+import { and, count, eq, gte, inArray, isNotNull, isNull, lt, or, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { hostname } from "os";
+import { enrichmentJobs, processedFirms, type EnrichmentJob, type ProcessedFirm } from "../drizzle/schema";
+import { getDb } from "./db";
+import type { VCFirmInput } from "./excelProcessor";
+
+export const LEASE_TTL_MS = 2 * 60 * 1000;
+const LEASE_RENEW_INTERVAL_MS = 30 * 1000;
+const MAX_LEASE_ATTEMPTS = 3;
+
+/** Identifies this process in leaseOwner ("host:pid/<lease id>") */
+export const WORKER_ID = `${hostname()}:${process.pid}`;
+
+/** Leases held by this process — renewed on a timer, released on shutdown */
+const activeLeases = new Set<string>();
+let renewTimer: NodeJS.Timeout | null = null;
+
+export interface FirmWorkSummary {
+  pending: number;
+  /** Leased and not yet expired — some worker is on it */
+  leased: number;
+  /** Leased but expired — the worker died; leasable again */
+  expired: number;
+  completed: number;
+  failed: number;
+}
+
+export type CoordinatorStep = "lease" | "wait" | "finalize";
+
+/**
+ * What the coordinator should do next: keep leasing while anything is leasable,
+ * wait while other workers hold live leases, finalize once every firm is done.
+ */
+export function nextCoordinatorStep(summary: FirmWorkSummary): CoordinatorStep {
+  if (summary.pending > 0 || summary.expired > 0) return "lease";
+  if (summary.leased > 0) return "wait";
+  return "finalize";
+}
+
+const leasable = (now: Date) => or(
+  eq(processedFirms.status, "pending"),
+  and(eq(processedFirms.status, "processing"), lt(processedFirms.leaseExpiresAt, now)),
+);
+
+// ---------------------------------------------------------------------------
+// Seeding
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the work items for a job (idempotent — only the first call inserts).
+ * Firms completed before leasing existed (rows without firmIndex) are skipped by name.
+ * On later calls (resume / coordinator recovery) failed firms are queued again.
+ */
+export async function seedFirmWorkItems(jobId: number, firms: VCFirmInput[]): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [{ total }] = await db.select({ total: count() }).from(processedFirms)
+    .where(and(eq(processedFirms.jobId, jobId), isNotNull(processedFirms.firmIndex)));
+
+  if (total > 0) {
+    await db.update(processedFirms)
+      .set({ status: "pending", attempts: 0, leaseOwner: null, leaseExpiresAt: null, errorMessage: null })
+      .where(and(eq(processedFirms.jobId, jobId), isNotNull(processedFirms.firmIndex), eq(processedFirms.status, "failed")));
+    return;
+  }
+
+  const legacyCompleted = await db.select({ firmName: processedFirms.firmName }).from(processedFirms)
+    .where(and(eq(processedFirms.jobId, jobId), isNull(processedFirms.firmIndex), eq(processedFirms.status, "completed")));
+  const done = new Set(legacyCompleted.map((r) => r.firmName));
+
+  const rows = firms
+    .map((firm, firmIndex) => ({ firm, firmIndex }))
+    .filter(({ firm }) => !done.has(firm.companyName))
+    .map(({ firm, firmIndex }) => ({
+      jobId,
+      firmIndex,
+      firmName: firm.companyName,
+      firmUrl: firm.websiteUrl,
+      status: "pending" as const,
+    }));
+  for (let i = 0; i < rows.length; i += 500) {
+    await db.insert(processedFirms).values(rows.slice(i, i + 500));
+  }
+  console.log(`[firmLeasing] Job ${jobId}: seeded ${rows.length} work items (${done.size} already completed)`);
+}
+
+// ---------------------------------------------------------------------------
+// Leasing
+// ---------------------------------------------------------------------------
+
+/**
+ * Lease the next available firm of a job. Returns null when nothing is leasable.
+ */
+export async function leaseNextFirm(jobId: number): Promise<{ item: ProcessedFirm; leaseId: string } | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const now = new Date();
+
+  // Firms that repeatedly outlived their lease are crashing workers — stop handing them out
+  await db.update(processedFirms)
+    .set({ status: "failed", errorMessage: `Lease expired ${MAX_LEASE_ATTEMPTS} times`, leaseOwner: null, leaseExpiresAt: null })
+    .where(and(
+      eq(processedFirms.jobId, jobId),
+      eq(processedFirms.status, "processing"),
+      lt(processedFirms.leaseExpiresAt, now),
+      gte(processedFirms.attempts, MAX_LEASE_ATTEMPTS),
+    ));
+
+  const leaseId = `${WORKER_ID}/${nanoid(10)}`;
+  const result = await db.update(processedFirms)
+    .set({
+      status: "processing",
+      leaseOwner: leaseId,
+      leaseExpiresAt: new Date(now.getTime() + LEASE_TTL_MS),
+      attempts: sql`${processedFirms.attempts} + 1`,
+      processedAt: now,
+    })
+    .where(and(eq(processedFirms.jobId, jobId), isNotNull(processedFirms.firmIndex), leasable(now)))
+    .orderBy(processedFirms.firmIndex)
+    .limit(1);
+  if (((result as any)[0]?.affectedRows ?? 0) === 0) return null;
+
+  const [item] = await db.select().from(processedFirms).where(eq(processedFirms.leaseOwner, leaseId)).limit(1);
+  if (!item) return null;
+
+  activeLeases.add(leaseId);
+  startLeaseRenewal();
+  return { item, leaseId };
+}
+
+/**
+ * Mark a leased firm done. Returns false if the lease had already been lost to another worker.
+ */
+export async function finishFirmLease(
+  leaseId: string,
+  outcome: { status: "completed"; teamMembersFound: number } | { status: "failed"; errorMessage: string },
+): Promise<boolean> {
+  activeLeases.delete(leaseId);
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.update(processedFirms)
+    .set({
+      ...outcome,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      completedAt: outcome.status === "completed" ? new Date() : null,
+    })
+    .where(eq(processedFirms.leaseOwner, leaseId));
+  return ((result as any)[0]?.affectedRows ?? 0) > 0;
+}
+
+function startLeaseRenewal() {
+  if (renewTimer) return;
+  renewTimer = setInterval(() => {
+    if (activeLeases.size === 0) {
+      clearInterval(renewTimer!);
+      renewTimer = null;
+      return;
+    }
+    renewActiveLeases().catch((error) => {
+      console.error("[firmLeasing] Failed to renew leases:", error);
+    });
+  }, LEASE_RENEW_INTERVAL_MS);
+}
+
+async function renewActiveLeases(): Promise<void> {
+  const db = await getDb();
+  if (!db || activeLeases.size === 0) return;
+
+  await db.update(processedFirms)
+    .set({ leaseExpiresAt: new Date(Date.now() + LEASE_TTL_MS) })
+    .where(and(inArray(processedFirms.leaseOwner, Array.from(activeLeases)), eq(processedFirms.status, "processing")));
+}
+
+/**
+ * Hand this process's in-flight firms back (graceful shutdown) so other workers
+ * pick them up immediately instead of waiting for the leases to expire.
+ */
+export async function releaseActiveFirmLeases(): Promise<number> {
+  if (activeLeases.size === 0) return 0;
+  const leaseIds = Array.from(activeLeases);
+  activeLeases.clear();
+  return releaseLeases(leaseIds);
+}
+
+/**
+ * Hand one firm back unfinished (its job was stopped mid-firm) — it is enriched again on resume
+ */
+export async function releaseFirmLease(leaseId: string): Promise<boolean> {
+  activeLeases.delete(leaseId);
+  return (await releaseLeases([leaseId])) > 0;
+}
+
+async function releaseLeases(leaseIds: string[]): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const result = await db.update(processedFirms)
+    .set({ status: "pending", leaseOwner: null, leaseExpiresAt: null, attempts: sql`GREATEST(${processedFirms.attempts} - 1, 0)` })
+    .where(and(inArray(processedFirms.leaseOwner, leaseIds), eq(processedFirms.status, "processing")));
+  return (result as any)[0]?.affectedRows ?? 0;
+}
+
+// ---------------------------------------------------------------------------
+// Job-level queries
+// ---------------------------------------------------------------------------
+
+export async function getFirmWorkSummary(jobId: number): Promise<FirmWorkSummary> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const now = new Date();
+  const live = sql`${processedFirms.leaseExpiresAt} >= ${now}`;
+  const [row] = await db.select({
+    pending:   sql<string>`SUM(${processedFirms.status} = 'pending')`,
+    leased:    sql<string>`SUM(${processedFirms.status} = 'processing' AND ${live})`,
+    expired:   sql<string>`SUM(${processedFirms.status} = 'processing' AND NOT ${live})`,
+    completed: sql<string>`SUM(${processedFirms.status} = 'completed')`,
+    failed:    sql<string>`SUM(${processedFirms.status} = 'failed')`,
+  })
+    .from(processedFirms)
+    .where(and(eq(processedFirms.jobId, jobId), isNotNull(processedFirms.firmIndex)));
+
+  return {
+    pending: Number(row?.pending ?? 0),
+    leased: Number(row?.leased ?? 0),
+    expired: Number(row?.expired ?? 0),
+    completed: Number(row?.completed ?? 0),
+    failed: Number(row?.failed ?? 0),
+  };
+}
+
+/**
+ * A VC job another worker is coordinating (fresh heartbeat) that still has leasable firms
+ */
+export async function findJobNeedingHelp(staleThresholdMs: number): Promise<EnrichmentJob | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const now = new Date();
+  const [row] = await db.select({ job: enrichmentJobs })
+    .from(enrichmentJobs)
+    .innerJoin(processedFirms, eq(processedFirms.jobId, enrichmentJobs.id))
+    .where(and(
+      eq(enrichmentJobs.status, "processing"),
+      isNull(enrichmentJobs.sectionsJson),
+      gte(enrichmentJobs.heartbeatAt, new Date(now.getTime() - staleThresholdMs)),
+      isNotNull(processedFirms.firmIndex),
+      leasable(now),
+    ))
+    .orderBy(enrichmentJobs.createdAt)
+    .limit(1);
+  return row?.job ?? null;
+}
@@ -7,6 +7,7 @@ import { getDb } from "./db";
 import { enrichmentJobs, enrichedFirms, teamMembers, portfolioCompanies, investmentThesis } from "../drizzle/schema";
 import { eq } from "drizzle-orm";
 import ExcelJS from "exceljs";
+import { changeSheetRows, getJobChanges } from "./changeDetection";
 
 interface GenerateResultsOptions {
   jobId: number;
@@ -119,7 +120,7 @@ export async function generateResultsFile(
     });
   });
 
-  // ===== SHEET 2: Team Members (20 columns) =====
+  // ===== SHEET 2: Team Members (23 columns) =====
   const membersSheet = workbook.addWorksheet("Team Members");
   membersSheet.columns = [
     { header: "vcFirm", key: "vcFirm", width: 30 },
@@ -129,6 +130,9 @@ export async function generateResultsFile(
     { header: "specialization", key: "specialization", width: 40 },
     { header: "linkedinUrl", key: "linkedinUrl", width: 40 },
     { header: "email", key: "email", width: 35 },
+    { header: "emailPattern", key: "emailPattern", width: 15 },
+    { header: "emailConfidence", key: "emailConfidence", width: 15 },
+    { header: "emailVerification", key: "emailVerification", width: 18 },
     { header: "portfolioCompanies", key: "portfolioCompanies", width: 50 },
     // Individual investment mandate columns
     { header: "investmentFocus", key: "investmentFocus", width: 40 },
@@ -154,6 +158,9 @@ export async function generateResultsFile(
       specialization: member.specialization,
       linkedinUrl: member.linkedinUrl,
       email: member.email || "",
+      emailPattern: member.emailPattern || "",
+      emailConfidence: member.emailConfidence ?? "",
+      emailVerification: member.emailVerification || "",
       portfolioCompanies: member.portfolioCompanies || "",
       investmentFocus: member.investmentFocus || "",
       stagePreference: member.stagePreference || "",
@@ -405,6 +412,26 @@ export async function generateResultsFile(
     extractionNotes: `${firms.length} firms processed`,
   });
 
+  // ===== SHEET 7: Changes (scheduled runs only — diff against the previous run) =====
+  if (job.previousJobId) {
+    const changes = await getJobChanges(jobId);
+    const changesSheet = workbook.addWorksheet("Changes");
+    changesSheet.columns = [
+      { header: "Company Name", key: "Company Name", width: 30 },
+      { header: "Website", key: "Website", width: 40 },
+      { header: "Change", key: "Change", width: 25 },
+      { header: "Item", key: "Item", width: 30 },
+      { header: "Field", key: "Field", width: 20 },
+      { header: "Previous Value", key: "Previous Value", width: 40 },
+      { header: "New Value", key: "New Value", width: 40 },
+    ];
+    if (changes.length > 0) {
+      changeSheetRows(changes).forEach((row) => changesSheet.addRow(row));
+    } else {
+      changesSheet.addRow({ "Company Name": "No changes since the previous run" });
+    }
+  }
+
   // Generate Excel buffer
   console.log(`[generateResults] Generating Excel file...`);
   const buffer = await workbook.xlsx.writeBuffer();
@@ -0,0 +1,66 @@
+/**
+ * Tests for the hybrid LLM's overflow decision (no network — both backends are mocked)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("./_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+vi.mock("./_core/openaiLLM", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+import { invokeHybridLLM, getHybridLLMStats, resetHybridLLMStats } from "./_core/hybridLLM";
+import { invokeLLM as invokeManusLLM } from "./_core/llm";
+import { invokeLLM as invokeRoutedLLM } from "./_core/openaiLLM";
+import { llmQueue } from "./_core/llmQueue";
+import { ENV } from "./_core/env";
+
+const mockManus = vi.mocked(invokeManusLLM);
+const mockRouted = vi.mocked(invokeRoutedLLM);
+
+const reply = {
+  id: "x",
+  created: 0,
+  model: "test",
+  choices: [{ index: 0, message: { role: "assistant" as const, content: "ok" }, finish_reason: "stop" }],
+  usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+};
+
+const savedEnv = { ...ENV };
+
+describe("Hybrid LLM overflow", () => {
+  beforeEach(() => {
+    resetHybridLLMStats();
+    mockManus.mockReset().mockResolvedValue(reply);
+    mockRouted.mockReset().mockResolvedValue(reply);
+    // Forge configured, Manus queue backed up
+    Object.assign(ENV, { forgeApiUrl: "https://forge.example", forgeApiKey: "forge-key", openAiApiKey: "", geminiApiKey: "" });
+    vi.spyOn(llmQueue, "getStatistics").mockReturnValue({ ...llmQueue.getStatistics(), queueDepth: 60 });
+  });
+
+  afterEach(() => {
+    Object.assign(ENV, savedEnv);
+    vi.restoreAllMocks();
+  });
+
+  it("should stay on Manus when the routed provider has no API key", async () => {
+    await invokeHybridLLM({ messages: [{ role: "user", content: "hi" }] });
+
+    expect(mockManus).toHaveBeenCalledTimes(1);
+    expect(mockRouted).not.toHaveBeenCalled();
+    expect(getHybridLLMStats().openaiCallCount).toBe(0);
+  });
+
+  it("should overflow to the routed provider when it is configured", async () => {
+    ENV.openAiApiKey = "sk-test";
+
+    await invokeHybridLLM({ messages: [{ role: "user", content: "hi" }] });
+
+    expect(mockRouted).toHaveBeenCalledTimes(1);
+    expect(mockManus).not.toHaveBeenCalled();
+    expect(getHybridLLMStats().openaiCallCount).toBe(1);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for the enrich-in-place output (input file layout with results appended)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { addRowResult, emptyRowResults, mergeInPlace, rowUrlKey, STATUS_COLUMN } from "./inPlaceExport";
+import { readInputTable, type InputTable } from "./excelProcessor";
+import { rowsToCSV } from "./csvExporter";
+
+const input: InputTable = {
+  columns: ["Owner", "Firm", "URL", "Deal Stage", "AUM"],
+  rows: [
+    { Owner: "Dana", Firm: "Acme Ventures", URL: "https://www.acme.vc/", "Deal Stage": "Intro", AUM: "n/a" },
+    { Owner: "Lee", Firm: "Northwind", URL: "northwind.vc", "Deal Stage": "Diligence", AUM: "" },
+    { Owner: "Sam", Firm: "No Site Capital", URL: "", "Deal Stage": "Lost", AUM: "" },
+    { Owner: "Kim", Firm: "Globex", URL: "https://globex.com", "Deal Stage": "Intro", AUM: "" },
+  ],
+};
+const mapping = { companyNameColumn: "Firm", websiteUrlColumn: "URL" };
+
+describe("mergeInPlace", () => {
+  it("should keep every input row and column and append results with a status", () => {
+    const results = emptyRowResults(["Investor Type", "AUM"]);
+    addRowResult(results, "https://acme.vc", "Acme Ventures", { status: "Enriched", values: { "Investor Type": "VC", AUM: "$1B" } });
+    addRowResult(results, "https://northwind.vc", "Northwind", { status: "Failed: timeout", values: {} });
+
+    const { rows, enrichedCount } = mergeInPlace(input, mapping, results);
+
+    expect(rows[0]).toEqual(["Owner", "Firm", "URL", "Deal Stage", "AUM", "Investor Type", "AUM (enriched)", STATUS_COLUMN]);
+    expect(rows.slice(1)).toEqual([
+      ["Dana", "Acme Ventures", "https://www.acme.vc/", "Intro", "n/a", "VC", "$1B", "Enriched"],
+      ["Lee", "Northwind", "northwind.vc", "Diligence", "", "", "", "Failed: timeout"],
+      ["Sam", "No Site Capital", "", "Lost", "", "", "", "Skipped: missing required websiteUrl"],
+      ["Kim", "Globex", "https://globex.com", "Intro", "", "", "", "Not processed"],
+    ]);
+    expect(enrichedCount).toBe(1);
+  });
+
+  it("should fall back to the company name and never let a failure hide an enriched row", () => {
+    const results = emptyRowResults(["Investor Type"]);
+    addRowResult(results, "https://globex.io", "Globex", { status: "Enriched", values: { "Investor Type": "CVC" } });
+    addRowResult(results, "https://globex.io", "Globex", { status: "Failed: retry", values: {} });
+
+    const { rows } = mergeInPlace(input, mapping, results);
+    expect(rows[4].slice(-2)).toEqual(["CVC", "Enriched"]);
+  });
+
+  it("should normalise URLs for the join", () => {
+    expect(rowUrlKey(" HTTPS://www.Acme.vc// ")).toBe("acme.vc");
+    expect(rowUrlKey("acme.vc/team")).toBe("acme.vc/team");
+  });
+});
+
+describe("input file as a table", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "in-place-"));
+    vi.stubEnv("SHEET_ALLOW_LOCAL_FILES", "true");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should read every column in file order and write it back out as CSV", async () => {
+    const file = path.join(dir, "firms.csv");
+    await writeFile(file, "Notes,Company Name,Website\n\"Met at, SaaStr\",Acme,https://acme.vc\n,Northwind,\n");
+
+    const table = await readInputTable(pathToFileURL(file).href);
+    expect(table.columns).toEqual(["Notes", "Company Name", "Website"]);
+
+    const { rows } = mergeInPlace(table, undefined, emptyRowResults([]));
+    expect(rowsToCSV(rows)).toBe(
+      `Notes,Company Name,Website,${STATUS_COLUMN}\r\n` +
+      "\"Met at, SaaStr\",Acme,https://acme.vc,Not processed\r\n" +
+      ",Northwind,,Skipped: missing required websiteUrl\r\n",
+    );
+  });
+});
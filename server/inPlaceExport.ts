@@ -0,0 +1,213 @@
+/**
+ * Enrich-in-Place Output
+ *
+ * The user's input file as uploaded — every row and column of its first sheet, in the original
+ * order — with the job's results appended to the right:
+ * - VC-pipeline jobs: the template's firm fields (Investor Type, AUM, …) and the team size found
+ * - Agent jobs: one column per custom section
+ * - "Enrichment Status": Enriched / Failed: … / Skipped: … / Not processed, so rows that didn't
+ *   enrich stay in the file instead of silently disappearing
+ *
+ * Input rows are joined to results on their website URL (then company name), read through the
+ * job's columnMappingJson exactly as parseInputExcel read them when the job ran.
+ */
+
+import { asc, eq } from "drizzle-orm";
+import { enrichedFirms, jobLogs, processedFirms, type EnrichmentJob } from "../drizzle/schema";
+import { getTemplate } from "../shared/templates";
+import { getDb } from "./db";
+import { getAgentResults } from "./agentResults";
+import { readInputTable, rowToFirmInput, type ColumnMapping, type InputTable, type VCFirmInput } from "./excelProcessor";
+import { sanitizeSectionType, sectionColumnLabel } from "./sectionTypes";
+import { storageGet } from "./storage";
+import type { AgentSection } from "./agentScraper";
+
+export const STATUS_COLUMN = "Enrichment Status";
+
+/** Input columns the firm already carries — not repeated among the appended columns */
+const INPUT_FIELDS = new Set(["companyName", "websiteUrl", "description"]);
+
+export interface RowResult {
+  status: string;
+  /** Appended column label → value */
+  values: Record<string, string>;
+}
+
+export interface JobRowResults {
+  /** Appended columns, in order */
+  columns: string[];
+  byUrl: Map<string, RowResult>;
+  byName: Map<string, RowResult>;
+}
+
+export interface InPlaceTable {
+  /** Header row first */
+  rows: string[][];
+  enrichedCount: number;
+}
+
+/**
+ * "https://www.Acme.vc/" → "acme.vc" — scheme, "www." and trailing slashes don't matter for the join
+ */
+export function rowUrlKey(url: string): string {
+  return url.trim().toLowerCase().replace(/^[a-z]+:\/\//, "").replace(/^www\./, "").replace(/\/+$/, "");
+}
+
+function rowNameKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function emptyRowResults(columns: string[]): JobRowResults {
+  return { columns, byUrl: new Map(), byName: new Map() };
+}
+
+/**
+ * Register a result under its URL and company name. An enriched result is never replaced by a
+ * failed one for the same key.
+ */
+export function addRowResult(results: JobRowResults, url: string | null | undefined, name: string | null | undefined, result: RowResult): void {
+  const put = (map: Map<string, RowResult>, key: string) => {
+    if (!key) return;
+    const existing = map.get(key);
+    if (existing?.status.startsWith("Enriched") && !result.status.startsWith("Enriched")) return;
+    map.set(key, result);
+  };
+  if (url) put(results.byUrl, rowUrlKey(url));
+  if (name) put(results.byName, rowNameKey(name));
+}
+
+function findRowResult(results: JobRowResults, firm: VCFirmInput): RowResult | undefined {
+  return results.byUrl.get(rowUrlKey(firm.websiteUrl)) ?? results.byName.get(rowNameKey(firm.companyName));
+}
+
+/**
+ * `label`, or `label (enriched)`, `label (enriched 2)`… when the input already has that column
+ */
+function uniqueColumn(label: string, taken: Set<string>): string {
+  let candidate = label;
+  for (let n = 1; taken.has(candidate.toLowerCase()); n++) {
+    candidate = n === 1 ? `${label} (enriched)` : `${label} (enriched ${n})`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * The input table with the result columns and the status column appended to every row
+ */
+export function mergeInPlace(input: InputTable, columnMapping: ColumnMapping | undefined, results: JobRowResults): InPlaceTable {
+  const taken = new Set(input.columns.map((c) => c.toLowerCase()));
+  const appended = results.columns.map((c) => uniqueColumn(c, taken));
+  const header = [...input.columns, ...appended, uniqueColumn(STATUS_COLUMN, taken)];
+
+  let enrichedCount = 0;
+  const rows = input.rows.map((row) => {
+    const cells = input.columns.map((c) => row[c] ?? "");
+    const { firm, skipReason } = rowToFirmInput(row, columnMapping);
+    const result = firm ? findRowResult(results, firm) : undefined;
+    if (result?.status.startsWith("Enriched")) enrichedCount++;
+
+    const status = !firm ? `Skipped: ${skipReason}` : result?.status ?? "Not processed";
+    return [...cells, ...results.columns.map((c) => result?.values[c] ?? ""), status];
+  });
+
+  return { rows: [header, ...rows], enrichedCount };
+}
+
+function cellValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// ---------------------------------------------------------------------------
+// Results per job type
+// ---------------------------------------------------------------------------
+
+/**
+ * VC-pipeline jobs: enrichedFirms for the values, processedFirms for failures and team sizes
+ */
+async function vcRowResults(job: EnrichmentJob): Promise<JobRowResults> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const firmSheet = getTemplate(job.template ?? "vc").sheets.find((s) => s.key === "firms");
+  const fields = (firmSheet?.fields ?? []).filter((f) => !INPUT_FIELDS.has(f.key));
+  const teamColumn = "Team Members Found";
+  const results = emptyRowResults([...fields.map((f) => f.label), teamColumn]);
+
+  const [firms, processed] = await Promise.all([
+    db.select().from(enrichedFirms).where(eq(enrichedFirms.jobId, job.id)),
+    db.select().from(processedFirms).where(eq(processedFirms.jobId, job.id)),
+  ]);
+
+  const teamSizes = new Map<string, number>();
+  for (const item of processed) {
+    if (item.status === "completed") {
+      teamSizes.set(rowNameKey(item.firmName), item.teamMembersFound ?? 0);
+    } else if (item.status === "failed") {
+      addRowResult(results, item.firmUrl, item.firmName, { status: `Failed: ${item.errorMessage || "unknown error"}`, values: {} });
+    }
+  }
+
+  for (const firm of firms) {
+    const values: Record<string, string> = {};
+    for (const field of fields) values[field.label] = cellValue((firm as Record<string, unknown>)[field.key]);
+    values[teamColumn] = cellValue(teamSizes.get(rowNameKey(firm.companyName)));
+    const status = firm.reusedFromFirmId ? "Enriched (reused from an earlier job)" : "Enriched";
+    addRowResult(results, firm.websiteUrl, firm.companyName, { status, values });
+  }
+
+  return results;
+}
+
+/**
+ * Agent jobs: the stored per-URL rows (agentResults.ts), with failure details from jobLogs
+ */
+async function agentRowResults(job: EnrichmentJob): Promise<JobRowResults> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const sections = (JSON.parse(job.sectionsJson ?? "[]") as AgentSection[]).map(sanitizeSectionType);
+  const results = emptyRowResults(sections.map(sectionColumnLabel));
+
+  const [stored, logs] = await Promise.all([
+    getAgentResults(job.id),
+    db.select().from(jobLogs).where(eq(jobLogs.jobId, job.id)).orderBy(asc(jobLogs.id)),
+  ]);
+  // Latest log per URL
+  const lastLog = new Map(logs.map((log) => [log.url ?? "", log]));
+
+  for (const item of stored) {
+    if (item.kind === "directory") {
+      const entries = item.entriesJson ? (JSON.parse(item.entriesJson) as unknown[]).length : 0;
+      addRowResult(results, item.url, null, { status: `Directory page: ${entries} entries, enriched in the standard results`, values: {} });
+      continue;
+    }
+    if (item.kind === "failed") {
+      const log = lastLog.get(item.url);
+      const detail = log?.errorDetail || log?.errorReason || "unknown error";
+      addRowResult(results, item.url, null, { status: `${log?.status === "skipped" ? "Skipped" : "Failed"}: ${detail}`, values: {} });
+      continue;
+    }
+    const row = item.rowJson ? JSON.parse(item.rowJson) as Record<string, string> : {};
+    const values: Record<string, string> = {};
+    sections.forEach((s, i) => { values[results.columns[i]] = row[s.key] ?? ""; });
+    addRowResult(results, item.url, null, { status: "Enriched", values });
+  }
+
+  return results;
+}
+
+/**
+ * The job's input file with its results appended (see the module comment)
+ */
+export async function createInPlaceTable(job: EnrichmentJob): Promise<InPlaceTable> {
+  const columnMapping: ColumnMapping | undefined = job.columnMappingJson ? JSON.parse(job.columnMappingJson) : undefined;
+  // The stored URL is presigned and expires; sign a fresh one from the key
+  const [input, results] = await Promise.all([
+    storageGet(job.inputFileKey).then(({ url }) => readInputTable(url)),
+    job.sectionsJson ? agentRowResults(job) : vcRowResults(job),
+  ]);
+  if (input.rows.length === 0) throw new Error("The job's input file has no data rows");
+  return mergeInPlace(input, columnMapping, results);
+}
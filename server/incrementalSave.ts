@@ -6,18 +6,27 @@
 import { getDb } from "./db";
 import { enrichedFirms, teamMembers, portfolioCompanies, processedFirms } from "../drizzle/schema";
 import { eq, and } from "drizzle-orm";
-import { classifyDecisionMakerTier } from './decisionMakerTiers';
+import { getJobTierClassifier } from './tierRules';
 import { calculateRecencyScore } from './portfolioIntelligence';
+import { finishFirmLease } from "./firmLeasing";
+import { linkFirmEntities } from "./entityStore";
 import type { EnrichmentResult } from "./vcEnrichment";
+import type { EnrichedVCData, PortfolioCompanyData, TeamMemberData } from "./excelProcessor";
 
 /**
  * Save a single firm's enrichment results immediately to the database
  * Returns the firm ID for reference
+ *
+ * With a leaseId the firm is a leased work item (see firmLeasing.ts): its existing
+ * processedFirms row is completed/failed through the lease instead of inserting one.
+ * reusedFromFirmId marks a result copied from another job's row (resultReuse.ts).
  */
 export async function saveFirmImmediately(
   jobId: number,
   result: EnrichmentResult,
-  tierFilter: string = "all"
+  tierFilter: string = "all",
+  leaseId?: string,
+  reusedFromFirmId?: number
 ): Promise<number | null> {
   const db = await getDb();
   if (!db) {
@@ -27,13 +36,15 @@ export async function saveFirmImmediately(
 
   try {
     // Mark firm as processing in processedFirms table
-    await db.insert(processedFirms).values({
-      jobId,
-      firmName: result.companyName,
-      firmUrl: result.websiteUrl,
-      status: "processing",
-      teamMembersFound: result.teamMembers.length,
-    });
+    if (!leaseId) {
+      await db.insert(processedFirms).values({
+        jobId,
+        firmName: result.companyName,
+        firmUrl: result.websiteUrl,
+        status: "processing",
+        teamMembersFound: result.teamMembers.length,
+      });
+    }
 
     // Check if firm already exists in database
     const existing = await db.select({ id: enrichedFirms.id })
@@ -80,6 +91,7 @@ export async function saveFirmImmediately(
         geographicFocus: result.firmData?.geographicFocus ? JSON.stringify(result.firmData.geographicFocus) : null,
         foundedYear: result.firmData?.foundedYear || null,
         headquarters: result.firmData?.headquarters || null,
+        reusedFromFirmId: reusedFromFirmId ?? null,
       });
 
       // Get the inserted firm ID
@@ -96,10 +108,11 @@ export async function saveFirmImmediately(
       console.log(`[incrementalSave] ✓ Saved firm "${result.companyName}" (ID: ${firmId})`);
     }
 
-    // Save team members with tier filtering
+    // Save team members with tier filtering (the job's tier rules, see tierRules.ts)
+    const classifyTier = await getJobTierClassifier(jobId);
     let savedMemberCount = 0;
     for (const member of result.teamMembers) {
-      const tierClassification = classifyDecisionMakerTier(member.title);
+      const tierClassification = await classifyTier(member.title);
       
       // Apply tier filter
       let includeMember = false;
@@ -122,6 +135,9 @@ export async function saveFirmImmediately(
           specialization: member.specialization || null,
           linkedinUrl: member.linkedinUrl || null,
           email: member.email || null,
+          emailPattern: member.emailPattern ?? null,
+          emailConfidence: member.emailConfidence ?? null,
+          emailVerification: member.emailVerification ?? null,
           portfolioCompanies: member.portfolioCompanies || null,
           investmentFocus: member.investmentFocus || null,
           stagePreference: member.stagePreference || null,
@@ -154,40 +170,53 @@ export async function saveFirmImmediately(
         websiteUrl: company.websiteUrl || null,
         investmentNiche: company.investmentNiche.join(", ") || null,
         dataSourceUrl: company.dataSourceUrl || null,
-        confidenceScore: typeof company.confidenceScore === 'number' ? company.confidenceScore : null,
+        confidenceScore: typeof company.confidenceScore === 'number' ? String(company.confidenceScore) : null,
         recencyScore: score,
         recencyCategory: category,
       });
     }
     console.log(`[incrementalSave] ✓ Saved ${result.portfolioCompanies.length} portfolio companies for "${result.companyName}"`);
 
-    // Mark firm as completed in processedFirms table
-    await db.update(processedFirms)
-      .set({
-        status: "completed",
-        completedAt: new Date(),
-        teamMembersFound: savedMemberCount,
-      })
-      .where(and(
-        eq(processedFirms.jobId, jobId),
-        eq(processedFirms.firmName, result.companyName)
-      ));
-
-    return firmId;
-  } catch (error) {
-    console.error(`[incrementalSave] Error saving firm "${result.companyName}":`, error);
-    
-    // Mark firm as failed in processedFirms table
+    // Link into the cross-job entity store; a failure here must not fail the save
     try {
+      await linkFirmEntities(firmId);
+    } catch (error) {
+      console.error(`[incrementalSave] Entity linking failed for "${result.companyName}":`, error);
+    }
+
+    // Mark firm as completed in processedFirms table
+    if (leaseId) {
+      await finishFirmLease(leaseId, { status: "completed", teamMembersFound: savedMemberCount });
+    } else {
       await db.update(processedFirms)
         .set({
-          status: "failed",
-          errorMessage: error instanceof Error ? error.message : String(error),
+          status: "completed",
+          completedAt: new Date(),
+          teamMembersFound: savedMemberCount,
         })
         .where(and(
           eq(processedFirms.jobId, jobId),
           eq(processedFirms.firmName, result.companyName)
         ));
+    }
+
+    return firmId;
+  } catch (error) {
+    console.error(`[incrementalSave] Error saving firm "${result.companyName}":`, error);
+    
+    // Mark firm as failed in processedFirms table
+    try {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (leaseId) {
+        await finishFirmLease(leaseId, { status: "failed", errorMessage });
+      } else {
+        await db.update(processedFirms)
+          .set({ status: "failed", errorMessage })
+          .where(and(
+            eq(processedFirms.jobId, jobId),
+            eq(processedFirms.firmName, result.companyName)
+          ));
+      }
     } catch (updateError) {
       console.error(`[incrementalSave] Failed to update processedFirms status:`, updateError);
     }
@@ -231,3 +260,78 @@ export async function getProcessedFirms(jobId: number): Promise<string[]> {
 
   return result.map(r => r.firmName);
 }
+
+const confidenceLabel = (score: number | null) =>
+  score === null ? "" : score >= 90 ? "High" : score >= 60 ? "Medium" : "Low";
+
+/**
+ * Load everything saved for a job back into the in-memory shapes used by
+ * generateInvestmentThesisSummaries — covers firms saved by every worker and by earlier runs
+ */
+export async function loadSavedFirmData(jobId: number): Promise<{
+  firms: EnrichedVCData[];
+  teamMembers: TeamMemberData[];
+  portfolioCompanies: PortfolioCompanyData[];
+}> {
+  const db = await getDb();
+  if (!db) throw new Error("Database connection failed");
+
+  const firms = await db.select().from(enrichedFirms).where(eq(enrichedFirms.jobId, jobId));
+  const members = await db.select().from(teamMembers).where(eq(teamMembers.jobId, jobId));
+  const companies = await db.select().from(portfolioCompanies).where(eq(portfolioCompanies.jobId, jobId));
+
+  return {
+    firms: firms.map((f) => ({
+      companyName: f.companyName,
+      websiteUrl: f.websiteUrl ?? "",
+      description: f.description ?? "",
+      websiteVerified: f.websiteVerified ?? "",
+      verificationMessage: f.verificationMessage ?? "",
+      investorType: f.investorType ?? "",
+      investorTypeConfidence: confidenceLabel(f.investorTypeConfidence),
+      investorTypeSourceUrl: f.investorTypeSourceUrl ?? "",
+      investmentStages: f.investmentStages ?? "",
+      investmentStagesConfidence: confidenceLabel(f.investmentStagesConfidence),
+      investmentStagesSourceUrl: f.investmentStagesSourceUrl ?? "",
+      investmentNiches: f.investmentNiches ?? "",
+      nichesConfidence: confidenceLabel(f.nichesConfidence),
+      nichesSourceUrl: f.nichesSourceUrl ?? "",
+    })),
+    teamMembers: members.map((m) => ({
+      vcFirm: m.vcFirm,
+      name: m.name,
+      title: m.title ?? "",
+      jobFunction: m.jobFunction ?? "",
+      specialization: m.specialization ?? "",
+      linkedinUrl: m.linkedinUrl ?? "",
+      email: m.email ?? "",
+      emailPattern: m.emailPattern ?? "",
+      emailConfidence: m.emailConfidence === null ? "" : String(m.emailConfidence),
+      emailVerification: m.emailVerification ?? "",
+      portfolioCompanies: m.portfolioCompanies ?? "",
+      investmentFocus: m.investmentFocus ?? "",
+      stagePreference: m.stagePreference ?? "",
+      checkSizeRange: m.checkSizeRange ?? "",
+      geographicFocus: m.geographicFocus ?? "",
+      investmentThesis: m.investmentThesis ?? "",
+      notableInvestments: m.notableInvestments ?? "",
+      yearsExperience: m.yearsExperience ?? "",
+      background: m.background ?? "",
+      dataSourceUrl: m.dataSourceUrl ?? "",
+      confidenceScore: m.confidenceScore === null ? "" : String(m.confidenceScore),
+      decisionMakerTier: m.decisionMakerTier ?? "",
+      tierPriority: m.tierPriority ?? 0,
+    })),
+    portfolioCompanies: companies.map((c) => ({
+      vcFirm: c.vcFirm,
+      portfolioCompany: c.portfolioCompany,
+      investmentDate: c.investmentDate ?? "",
+      websiteUrl: c.websiteUrl ?? "",
+      investmentNiche: c.investmentNiche ?? "",
+      dataSourceUrl: c.dataSourceUrl ?? "",
+      confidenceScore: c.confidenceScore === null ? "" : String(c.confidenceScore),
+      recencyScore: c.recencyScore ?? 0,
+      recencyCategory: c.recencyCategory ?? "",
+    })),
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for input pre-flight checks and fixes
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  analyzeInput,
+  applyPreflightFixes,
+  canonicalizeWebsite,
+  effectiveColumnMapping,
+  inputTableToCsv,
+  socialOrDirectoryDomain,
+  websiteFromEmail,
+} from "./inputPreflight";
+import type { InputTable } from "./excelProcessor";
+
+const mapping = { companyNameColumn: "Firm", websiteUrlColumn: "Site" };
+
+const table: InputTable = {
+  columns: ["Firm", "Site", "Owner"],
+  rows: [
+    { Firm: "Acme Ventures", Site: "https://acme.vc", Owner: "" },          // row 2
+    { Firm: "Acme", Site: "WWW.ACME.VC/?utm_source=list", Owner: "Dana" },  // row 3: same domain
+    { Firm: "Northwind", Site: "https://www.linkedin.com/company/northwind", Owner: "" },
+    { Firm: "Globex", Site: "jane@globex.com", Owner: "" },
+    { Firm: "Initech", Site: "not a url", Owner: "" },
+    { Firm: "Hooli", Site: "", Owner: "" },
+    { Firm: "Umbrella", Site: "umbrella.io", Owner: "" },
+  ],
+};
+
+describe("URL checks", () => {
+  it("should canonicalise website URLs", () => {
+    expect(canonicalizeWebsite(" Acme.VC/?utm_source=x&id=4#team ")).toBe("https://acme.vc?id=4");
+    expect(canonicalizeWebsite("http://www.Acme.vc/portfolio/")).toBe("http://www.acme.vc/portfolio");
+    expect(canonicalizeWebsite("acme")).toBeNull();
+    expect(canonicalizeWebsite("ftp://acme.vc")).toBeNull();
+    expect(canonicalizeWebsite("jane@acme.vc")).toBeNull();
+  });
+
+  it("should recognise social / directory links and company email domains", () => {
+    expect(socialOrDirectoryDomain("https://uk.linkedin.com/company/acme")).toBe("linkedin.com");
+    expect(socialOrDirectoryDomain("https://www.crunchbase.com/organization/acme")).toBe("crunchbase.com");
+    expect(socialOrDirectoryDomain("https://acme.vc")).toBeNull();
+    expect(websiteFromEmail("Jane@Globex.com")).toBe("https://globex.com");
+    expect(websiteFromEmail("jane@gmail.com")).toBeNull();
+  });
+});
+
+describe("analyzeInput", () => {
+  it("should report every kind of issue with its row number", () => {
+    const report = analyzeInput(table, mapping);
+
+    expect(report.totalRows).toBe(7);
+    expect(report.readyRows).toBe(5); // the email row and the empty row are skipped by the parser
+    expect(report.counts).toEqual({
+      normalized_url: 2, duplicate_domain: 1, social_link: 1, malformed_url: 1, email_in_url: 1, missing_url: 1,
+    });
+    expect(report.duplicateGroups).toEqual([{ domain: "acme.vc", rows: [2, 3] }]);
+    expect(report.issues.map((i) => [i.row, i.kind, i.fix])).toEqual([
+      [3, "normalized_url", "https://www.acme.vc"],
+      [3, "duplicate_domain", undefined],
+      [4, "social_link", ""],
+      [5, "email_in_url", "https://globex.com"],
+      [6, "malformed_url", ""],
+      [7, "missing_url", undefined],
+      [8, "normalized_url", "https://umbrella.io"],
+    ]);
+    expect(report.fixable).toBe(true);
+  });
+
+  it("should use the auto-detected columns when there is no explicit mapping", () => {
+    expect(effectiveColumnMapping(undefined, { companyName: "Firm", websiteUrl: "Site" })).toEqual({
+      companyNameColumn: "Firm", websiteUrlColumn: "Site", descriptionColumn: undefined,
+    });
+    expect(effectiveColumnMapping(undefined, {})).toBeUndefined();
+    expect(analyzeInput(table, undefined).fixable).toBe(false);
+  });
+});
+
+describe("applyPreflightFixes", () => {
+  it("should apply only the accepted fixes and keep every column", async () => {
+    const resolver = vi.fn(async (name: string) => (name === "Hooli" ? "hooli.xyz" : null));
+    const { table: fixed, summary } = await applyPreflightFixes(
+      table,
+      mapping,
+      { normalizeUrls: true, mergeDuplicates: true, clearInvalidUrls: true, resolveMissingWebsites: true },
+      resolver,
+    );
+
+    expect(summary).toEqual({ normalized: 3, merged: 1, cleared: 2, resolved: 1, unresolved: 2 });
+    expect(resolver.mock.calls.map((c) => c[0]).sort()).toEqual(["Hooli", "Initech", "Northwind"]);
+    expect(fixed.columns).toEqual(table.columns);
+    expect(fixed.rows).toEqual([
+      { Firm: "Acme Ventures", Site: "https://acme.vc", Owner: "Dana" }, // blank Owner filled from the merged duplicate
+      { Firm: "Northwind", Site: "", Owner: "" },
+      { Firm: "Globex", Site: "https://globex.com", Owner: "" },
+      { Firm: "Initech", Site: "", Owner: "" },
+      { Firm: "Hooli", Site: "https://hooli.xyz", Owner: "" },
+      { Firm: "Umbrella", Site: "https://umbrella.io", Owner: "" },
+    ]);
+    // The input table itself is untouched
+    expect(table.rows[1].Site).toBe("WWW.ACME.VC/?utm_source=list");
+  });
+
+  it("should look up every row without a website and report each lookup", async () => {
+    const names = Array.from({ length: 60 }, (_, i) => `Firm ${i + 1}`);
+    const nameOnly = { columns: ["Firm"], rows: names.map((Firm) => ({ Firm })) };
+    const resolver = vi.fn(async (name: string) => (name === "Firm 60" ? "firm60.com" : null));
+    const onLookup = vi.fn();
+
+    const { summary } = await applyPreflightFixes(nameOnly, { companyNameColumn: "Firm", websiteUrlColumn: "Website" }, { resolveMissingWebsites: true }, resolver, onLookup);
+
+    expect(resolver).toHaveBeenCalledTimes(60);
+    expect(summary).toMatchObject({ resolved: 1, unresolved: 59 });
+    expect(onLookup).toHaveBeenCalledTimes(60);
+    expect(onLookup).toHaveBeenLastCalledWith(expect.objectContaining({ done: 60, total: 60 }));
+  });
+
+  it("should leave rows alone when no fix is accepted", async () => {
+    const resolver = vi.fn();
+    const { table: fixed } = await applyPreflightFixes(table, mapping, {}, resolver);
+    expect(fixed.rows).toEqual(table.rows);
+    expect(resolver).not.toHaveBeenCalled();
+  });
+
+  it("should write the cleaned table as CSV", () => {
+    expect(inputTableToCsv({ columns: ["Firm", "Site"], rows: [{ Firm: "Acme, Inc", Site: "https://acme.vc" }] }).toString())
+      .toBe("Firm,Site\r\n\"Acme, Inc\",https://acme.vc\r\n");
+  });
+});
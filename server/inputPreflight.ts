@@ -0,0 +1,348 @@
+/**
+ * Input Pre-flight
+ *
+ * Checks the rows of an uploaded file before any paid work starts, and cleans them up when the
+ * user accepts the proposed fixes:
+ * - website URLs are canonicalised (scheme added, host lower-cased, tracking parameters dropped)
+ * - rows sharing a website domain are merged into the first of them
+ * - social / directory links (LinkedIn, Crunchbase, …), malformed URLs and email addresses in the
+ *   website column are flagged — an email's company domain is proposed as the website
+ * - rows without a website can be resolved from the company name (websiteResolver.ts) — for a
+ *   name-only file, map the website to a new column and it's added to the cleaned copy
+ *
+ * uploadAndPreview returns the report; re-submitting it with `fixes` stores a cleaned copy of the
+ * file (same columns, same column mapping) that confirmAndStart then runs on. Fixes that look up
+ * websites run as a background job instead (websiteResolutionJob.ts).
+ */
+
+import { normalizeDomain } from "./crawlPolicy";
+import { rowsToCSV } from "./csvExporter";
+import { rowToFirmInput, type ColumnMapping, type InputTable } from "./excelProcessor";
+
+export type PreflightIssueKind =
+  | "normalized_url"
+  | "duplicate_domain"
+  | "social_link"
+  | "malformed_url"
+  | "email_in_url"
+  | "missing_url";
+
+export interface PreflightIssue {
+  /** Spreadsheet row number (header = 1) */
+  row: number;
+  kind: PreflightIssueKind;
+  companyName: string;
+  value: string;
+  message: string;
+  /** The website the fix would write; "" when the fix clears the cell */
+  fix?: string;
+}
+
+export interface DuplicateGroup {
+  domain: string;
+  /** Spreadsheet row numbers; the first is kept and the others are merged into it */
+  rows: number[];
+}
+
+export interface PreflightFixes {
+  /** Write canonical URLs (and the company domain of emails in the website column) */
+  normalizeUrls?: boolean;
+  /** Keep the first row of each duplicate domain, filling its blank cells from the others */
+  mergeDuplicates?: boolean;
+  /** Clear social / directory links and malformed URLs so they aren't enriched (or get resolved) */
+  clearInvalidUrls?: boolean;
+  /** Look up a website for rows without one, from the company name */
+  resolveMissingWebsites?: boolean;
+}
+
+export interface PreflightReport {
+  totalRows: number;
+  /** Rows that would be enriched as the file stands */
+  readyRows: number;
+  counts: Record<PreflightIssueKind, number>;
+  /** The first MAX_REPORTED_ISSUES issues, in row order */
+  issues: PreflightIssue[];
+  duplicateGroups: DuplicateGroup[];
+  /** False when the website column isn't known, so fixes can't be written back to the file */
+  fixable: boolean;
+}
+
+export interface PreflightFixSummary {
+  normalized: number;
+  merged: number;
+  cleared: number;
+  resolved: number;
+  /** Rows a website was looked up for but not found */
+  unresolved: number;
+}
+
+/** Looks up a company's website from its name (and the rest of its row); null when not found */
+export type WebsiteResolver = (companyName: string, row: Record<string, string>) => Promise<string | null>;
+
+/** Called after each website lookup, with the company just looked up */
+export type LookupProgress = (progress: { done: number; total: number; companyName: string }) => void;
+
+export const MAX_REPORTED_ISSUES = 200;
+const MAX_REPORTED_GROUPS = 50;
+const LOOKUP_CONCURRENCY = 5;
+
+/** Profiles, listings and link hubs that aren't a company's own website */
+const SOCIAL_AND_DIRECTORY_DOMAINS = [
+  "linkedin.com", "facebook.com", "twitter.com", "x.com", "instagram.com", "youtube.com", "tiktok.com",
+  "medium.com", "github.com", "linktr.ee",
+  "crunchbase.com", "pitchbook.com", "angel.co", "wellfound.com", "cbinsights.com", "dealroom.co",
+  "tracxn.com", "signal.nfx.com", "zoominfo.com", "bloomberg.com", "glassdoor.com", "yelp.com",
+  "wikipedia.org", "google.com",
+];
+
+/** Free mail providers — an address there says nothing about the company's website */
+const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com", "googlemail.com", "yahoo.com", "outlook.com", "hotmail.com", "live.com", "icloud.com",
+  "me.com", "aol.com", "proton.me", "protonmail.com", "gmx.com", "mail.com",
+]);
+
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|mc_cid|mc_eid|ref|source)$/i;
+
+const EMAIL_PATTERN = /^[^\s@]+@([^\s@]+\.[^\s@]+)$/;
+
+/**
+ * " Acme.VC/?utm_source=x " → "https://acme.vc". Null when it can't be a website URL.
+ */
+export function canonicalizeWebsite(raw: string): string | null {
+  const value = raw.trim();
+  if (!value || /\s/.test(value) || value.includes("@")) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  if (!normalizeDomain(url.hostname)) return null;
+
+  for (const key of Array.from(url.searchParams.keys())) {
+    if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key);
+  }
+  url.hash = "";
+  const path = url.pathname.replace(/\/+$/, "");
+  return `${url.protocol}//${url.host.toLowerCase()}${path}${url.search}`;
+}
+
+/**
+ * The social network / directory a URL belongs to, or null for anything else
+ */
+export function socialOrDirectoryDomain(url: string): string | null {
+  const host = normalizeDomain(url);
+  if (!host) return null;
+  return SOCIAL_AND_DIRECTORY_DOMAINS.find((d) => host === d || host.endsWith(`.${d}`)) ?? null;
+}
+
+/**
+ * The website of an email address's company domain ("jane@acme.vc" → "https://acme.vc"), unless
+ * it's a free mail provider
+ */
+export function websiteFromEmail(value: string): string | null {
+  const match = value.trim().toLowerCase().match(EMAIL_PATTERN);
+  if (!match) return null;
+  const domain = normalizeDomain(match[1]);
+  return domain && !FREE_MAIL_DOMAINS.has(domain) ? `https://${domain}` : null;
+}
+
+/**
+ * The column mapping fixes are written through: the explicit mapping, else the auto-detected columns
+ */
+export function effectiveColumnMapping(
+  columnMapping: ColumnMapping | undefined,
+  autoDetected: { companyName?: string; websiteUrl?: string; description?: string },
+): ColumnMapping | undefined {
+  if (columnMapping) return columnMapping;
+  if (!autoDetected.websiteUrl) return undefined;
+  return {
+    companyNameColumn: autoDetected.companyName,
+    websiteUrlColumn: autoDetected.websiteUrl,
+    descriptionColumn: autoDetected.description,
+  };
+}
+
+interface RowCheck {
+  row: number;
+  companyName: string;
+  value: string;
+  /** Canonical URL, when the value is a usable website */
+  canonical?: string;
+  issue?: Omit<PreflightIssue, "row" | "companyName" | "value">;
+}
+
+function companyNameOf(row: Record<string, string>, columnMapping: ColumnMapping | undefined): string {
+  if (columnMapping?.companyNameColumn) return (row[columnMapping.companyNameColumn] ?? "").trim();
+  return rowToFirmInput(row).firm?.companyName ?? "";
+}
+
+function websiteOf(row: Record<string, string>, columnMapping: ColumnMapping | undefined): string {
+  if (columnMapping) return (row[columnMapping.websiteUrlColumn] ?? "").trim();
+  return rowToFirmInput(row).firm?.websiteUrl.trim() ?? "";
+}
+
+function checkRow(row: Record<string, string>, index: number, columnMapping: ColumnMapping | undefined): RowCheck {
+  const value = websiteOf(row, columnMapping);
+  const base = { row: index + 2, companyName: companyNameOf(row, columnMapping), value };
+
+  if (!value) {
+    return { ...base, issue: { kind: "missing_url", message: "No website" } };
+  }
+  if (EMAIL_PATTERN.test(value) && !value.includes("://")) {
+    const fix = websiteFromEmail(value);
+    return {
+      ...base,
+      issue: fix
+        ? { kind: "email_in_url", message: "Email address in the website column — its company domain can be used", fix }
+        : { kind: "email_in_url", message: "Email address at a free mail provider in the website column", fix: "" },
+    };
+  }
+
+  const canonical = canonicalizeWebsite(value);
+  if (!canonical) {
+    return { ...base, issue: { kind: "malformed_url", message: "Not a valid website URL", fix: "" } };
+  }
+  const social = socialOrDirectoryDomain(canonical);
+  if (social) {
+    return { ...base, issue: { kind: "social_link", message: `${social} link, not the company's own website`, fix: "" } };
+  }
+  if (canonical !== value) {
+    return { ...base, canonical, issue: { kind: "normalized_url", message: "URL can be canonicalised", fix: canonical } };
+  }
+  return { ...base, canonical };
+}
+
+function duplicateGroups(checks: RowCheck[]): DuplicateGroup[] {
+  const byDomain = new Map<string, number[]>();
+  for (const check of checks) {
+    const domain = check.canonical ? normalizeDomain(check.canonical) : null;
+    if (!domain) continue;
+    const rows = byDomain.get(domain) ?? [];
+    rows.push(check.row);
+    byDomain.set(domain, rows);
+  }
+  return Array.from(byDomain.entries())
+    .filter(([, rows]) => rows.length > 1)
+    .map(([domain, rows]) => ({ domain, rows }));
+}
+
+/**
+ * Check every row of the input (see the module comment)
+ */
+export function analyzeInput(table: InputTable, columnMapping: ColumnMapping | undefined): PreflightReport {
+  const checks = table.rows.map((row, i) => checkRow(row, i, columnMapping));
+  const groups = duplicateGroups(checks);
+
+  const issues: PreflightIssue[] = checks
+    .filter((c) => c.issue)
+    .map((c) => ({ row: c.row, companyName: c.companyName, value: c.value, ...c.issue! }));
+  for (const group of groups) {
+    for (const row of group.rows.slice(1)) {
+      const check = checks[row - 2];
+      issues.push({
+        row,
+        kind: "duplicate_domain",
+        companyName: check.companyName,
+        value: check.value,
+        message: `Same domain as row ${group.rows[0]} (${group.domain})`,
+      });
+    }
+  }
+  issues.sort((a, b) => a.row - b.row);
+
+  const counts: Record<PreflightIssueKind, number> = {
+    normalized_url: 0, duplicate_domain: 0, social_link: 0, malformed_url: 0, email_in_url: 0, missing_url: 0,
+  };
+  for (const issue of issues) counts[issue.kind]++;
+
+  return {
+    totalRows: table.rows.length,
+    readyRows: table.rows.filter((row) => rowToFirmInput(row, columnMapping).firm).length,
+    counts,
+    issues: issues.slice(0, MAX_REPORTED_ISSUES),
+    duplicateGroups: groups.slice(0, MAX_REPORTED_GROUPS),
+    fixable: !!columnMapping,
+  };
+}
+
+/**
+ * The input with the accepted fixes applied. Needs the website column, so a mapping is required;
+ * a website column the file doesn't have yet is appended.
+ */
+export async function applyPreflightFixes(
+  table: InputTable,
+  columnMapping: ColumnMapping,
+  fixes: PreflightFixes,
+  resolveWebsite: WebsiteResolver,
+  onLookup?: LookupProgress,
+): Promise<{ table: InputTable; summary: PreflightFixSummary }> {
+  const websiteColumn = columnMapping.websiteUrlColumn;
+  const summary: PreflightFixSummary = { normalized: 0, merged: 0, cleared: 0, resolved: 0, unresolved: 0 };
+  const rows = table.rows.map((row) => ({ ...row }));
+  const columns = table.columns.includes(websiteColumn) ? table.columns : [...table.columns, websiteColumn];
+
+  // Per-row URL fixes first, so duplicates are found on the canonical URLs
+  rows.forEach((row, i) => {
+    const { issue } = checkRow(row, i, columnMapping);
+    if (!issue || issue.fix === undefined) return;
+    if (issue.fix === "" ? fixes.clearInvalidUrls : fixes.normalizeUrls) {
+      row[websiteColumn] = issue.fix;
+      if (issue.fix === "") summary.cleared++;
+      else summary.normalized++;
+    }
+  });
+
+  if (fixes.resolveMissingWebsites) {
+    const queue = rows.filter((row) => !(row[websiteColumn] ?? "").trim() && companyNameOf(row, columnMapping));
+    const total = queue.length;
+    let done = 0;
+    const worker = async () => {
+      for (let row = queue.shift(); row; row = queue.shift()) {
+        const companyName = companyNameOf(row, columnMapping);
+        const website = await resolveWebsite(companyName, row).catch(() => null);
+        const canonical = website ? canonicalizeWebsite(website) : null;
+        if (canonical) {
+          row[websiteColumn] = canonical;
+          summary.resolved++;
+        } else {
+          summary.unresolved++;
+        }
+        onLookup?.({ done: ++done, total, companyName });
+      }
+    };
+    await Promise.all(Array.from({ length: LOOKUP_CONCURRENCY }, worker));
+  }
+
+  let kept = rows;
+  if (fixes.mergeDuplicates) {
+    const firstByDomain = new Map<string, Record<string, string>>();
+    kept = [];
+    for (const row of rows) {
+      const canonical = canonicalizeWebsite(row[websiteColumn] ?? "");
+      const domain = canonical ? normalizeDomain(canonical) : null;
+      const first = domain ? firstByDomain.get(domain) : undefined;
+      if (!first) {
+        if (domain) firstByDomain.set(domain, row);
+        kept.push(row);
+        continue;
+      }
+      for (const column of columns) {
+        if (!(first[column] ?? "").trim() && (row[column] ?? "").trim()) first[column] = row[column];
+      }
+      summary.merged++;
+    }
+  }
+
+  return { table: { columns, rows: kept }, summary };
+}
+
+/**
+ * The table as a CSV file (header row first), for storing the cleaned input
+ */
+export function inputTableToCsv(table: InputTable): Buffer {
+  const rows = [table.columns, ...table.rows.map((row) => table.columns.map((c) => row[c] ?? ""))];
+  return Buffer.from(rowsToCSV(rows), "utf-8");
+}
@@ -1,7 +1,19 @@
 /**
  * Tests for Iterative LLM-Guided Extraction System
+ *
+ * The LLM and the page fetcher are mocked; an empty replay session refuses anything else
+ * (robots.txt, stray HTTP) so the suite never touches the network.
  */
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { startReplaySession, stopReplaySession } from './_core/replay';
+
+beforeEach(() => {
+  startReplaySession('replay');
+});
+
+afterEach(() => {
+  stopReplaySession();
+});
 
 describe('Iterative Extraction System', () => {
   beforeEach(() => {
@@ -28,6 +40,7 @@ describe('Iterative Extraction System', () => {
     );
     
     expect(result).toBeInstanceOf(Promise);
+    await result;
   });
 
   it('should return extraction state with correct structure', async () => {
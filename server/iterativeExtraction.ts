@@ -223,6 +223,7 @@ async function extractDataFromContent(
     
     try {
       const response = await invokeLLM({
+        task: "profile_extraction",
         messages: [
           { role: "system", content: "You are a VC data extraction specialist." },
           { role: "user", content: investorTypePrompt }
@@ -243,6 +244,7 @@ async function extractDataFromContent(
   
   try {
     const response = await invokeLLM({
+      task: "team_extraction",
       messages: [
         { role: "system", content: "You are a team member extraction specialist. Extract all team members with their names, titles, and LinkedIn URLs if available." },
         { role: "user", content: teamMemberPrompt }
@@ -288,9 +290,13 @@ export async function runIterativeExtraction(
   options: {
     maxIterations?: number;
     onProgress?: (message: string) => void;
+    /** Page fetcher to use instead of the Jina / Puppeteer hybrid, e.g. VCEnrichmentService's collecting fetch */
+    fetchPage?: (url: string, useBrowser?: boolean) => Promise<string | null>;
+    /** Team members already known (the site's structured data); the LLM only looks for the rest */
+    knownTeamMembers?: ExtractionState["teamMembers"];
   } = {}
 ): Promise<ExtractionState> {
-  const { maxIterations = 5, onProgress } = options;
+  const { maxIterations = 5, onProgress, fetchPage, knownTeamMembers = [] } = options;
   console.log(`[Iterative Extraction] Starting for ${companyName}`);
   onProgress?.(`Starting iterative extraction for ${companyName}`);
   
@@ -299,7 +305,7 @@ export async function runIterativeExtraction(
     investorType: [],
     investmentStages: [],
     investmentNiches: [],
-    teamMembers: [],
+    teamMembers: [...knownTeamMembers],
     portfolioCompanies: [],
     scrapedUrls: [],
     iteration: 0,
@@ -341,16 +347,18 @@ export async function runIterativeExtraction(
       }
       
       console.log(`[Iterative Extraction] Scraping: ${urlToScrape}`);
-      const scrapeResult = await fetchWebsiteContentHybrid(
-        urlToScrape,
-        async () => {
-          // Puppeteer fallback
-          const { ComprehensiveScraper } = await import('./scraper/ComprehensiveScraper');
-          const scraper = new ComprehensiveScraper();
-          const result = await scraper.scrape({ url: urlToScrape });
-          return result.success ? result.html || null : null;
-        }
-      );
+      const scrapeResult = fetchPage
+        ? await fetchPage(urlToScrape).then((content) => ({ success: !!content, content }))
+        : await fetchWebsiteContentHybrid(
+          urlToScrape,
+          async () => {
+            // Puppeteer fallback
+            const { ComprehensiveScraper } = await import('./scraper/ComprehensiveScraper');
+            const scraper = new ComprehensiveScraper();
+            const result = await scraper.scrape({ url: urlToScrape });
+            return result.success ? result.html || null : null;
+          }
+        );
       
       if (!scrapeResult.success || !scrapeResult.content) {
         console.warn(`[Iterative Extraction] Failed to scrape ${urlToScrape}`);
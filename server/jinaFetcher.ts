@@ -4,6 +4,10 @@
  */
 
 import axios from 'axios';
+import { getCacheLayer } from './scraper/CacheLayer';
+import { recordJinaUsage } from './_core/usageContext';
+import { acquireCrawlPermit, isCrawlAllowed } from './crawlPolicy';
+import { replayFetch } from './_core/replay';
 
 interface JinaFetchResult {
   success: boolean;
@@ -19,6 +23,10 @@ interface JinaFetchResult {
  * Returns clean markdown content
  */
 export async function fetchViaJina(url: string): Promise<JinaFetchResult | null> {
+  return replayFetch('jina', url, () => fetchViaJinaLive(url));
+}
+
+async function fetchViaJinaLive(url: string): Promise<JinaFetchResult | null> {
   const startTime = Date.now();
   const apiKey = process.env.JINA_API_KEY;
 
@@ -27,6 +35,8 @@ export async function fetchViaJina(url: string): Promise<JinaFetchResult | null>
     return null;
   }
 
+  if (!(await acquireCrawlPermit(url))) return null;
+
   try {
     console.log(`[Jina] Fetching ${url}`);
 
@@ -44,6 +54,7 @@ export async function fetchViaJina(url: string): Promise<JinaFetchResult | null>
     if (response.status === 200 && response.data) {
       const duration = Date.now() - startTime;
       console.log(`[Jina] ✅ Success (${duration}ms): ${url}`);
+      recordJinaUsage(String(response.data).length);
 
       return {
         success: true,
@@ -88,17 +99,54 @@ function isCloudflareChallenge(content: string): boolean {
   );
 }
 
+export interface HybridFetchOptions {
+  /** When set, serve from / store into the persistent page cache for this many seconds */
+  cacheTTL?: number;
+}
+
 /**
  * Fetch website content with Jina + Puppeteer running in parallel.
  * Puppeteer starts after a 4-second delay — fast Jina pages resolve before
  * Puppeteer ever launches. For Cloudflare-protected or JS-heavy pages, Puppeteer
  * wins the race after the delay.
+ *
+ * Pass `cacheTTL` to reuse pages fetched by earlier runs (any process) via the page cache.
+ * URLs the crawl policy disallows fail without fetching (crawlPolicy.ts).
  */
 export async function fetchWebsiteContentHybrid(
   url: string,
-  puppeteerFallback: () => Promise<string | null>
+  puppeteerFallback: () => Promise<string | null>,
+  options: HybridFetchOptions = {},
+): Promise<JinaFetchResult> {
+  return replayFetch('hybrid', url, () => fetchHybridLive(url, puppeteerFallback, options));
+}
+
+async function fetchHybridLive(
+  url: string,
+  puppeteerFallback: () => Promise<string | null>,
+  options: HybridFetchOptions,
 ): Promise<JinaFetchResult> {
   const startTime = Date.now();
+  const cacheKey = `hybrid:${url}`;
+
+  if (!(await isCrawlAllowed(url))) {
+    return {
+      success: false,
+      content: null,
+      format: 'html',
+      source: 'jina',
+      error: 'Disallowed by crawl policy',
+      duration: Date.now() - startTime,
+    };
+  }
+
+  if (options.cacheTTL) {
+    const cached = await getCacheLayer().get<JinaFetchResult>(cacheKey);
+    if (cached?.success && cached.content) {
+      console.log(`[Hybrid] Cache hit for ${url}`);
+      return { ...cached, duration: Date.now() - startTime };
+    }
+  }
 
   const validateJina = (r: JinaFetchResult | null): JinaFetchResult | null => {
     if (!r?.success || !r.content) return null;
@@ -149,6 +197,9 @@ export async function fetchWebsiteContentHybrid(
     if (result.source === 'jina') {
       console.log(`[Hybrid] ✅ Jina won race (${duration}ms): ${url}`);
     }
+    if (options.cacheTTL) {
+      await getCacheLayer().set(cacheKey, result, options.cacheTTL, url);
+    }
     return { ...result, duration };
   }
 
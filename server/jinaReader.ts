@@ -3,6 +3,9 @@
  * Converts web pages to clean, structured markdown for LLM processing
  */
 
+import { recordJinaUsage } from './_core/usageContext';
+import { acquireCrawlPermit } from './crawlPolicy';
+
 const JINA_API_KEY = process.env.JINA_API_KEY;
 
 export interface JinaReaderResult {
@@ -23,6 +26,8 @@ export async function convertUrlToMarkdown(url: string): Promise<JinaReaderResul
     return null;
   }
 
+  if (!(await acquireCrawlPermit(url))) return null;
+
   try {
     console.log(`[JinaReader] Converting URL to markdown: ${url}`);
     
@@ -41,6 +46,7 @@ export async function convertUrlToMarkdown(url: string): Promise<JinaReaderResul
     }
 
     const markdown = await response.text();
+    recordJinaUsage(markdown.length);
     
     // Extract links from markdown (format: [text](url))
     const linkRegex = /\[([^\]]+)\]\(([^)]+)\)/g;
@@ -0,0 +1,231 @@
+/**
+ * Job Results Access
+ *
+ * Shared by the tRPC procedures (in-app table + downloads) and the REST API:
+ * - getVcResultsPage(): paginated firms / team / portfolio rows of a VC job
+ * - getAgentResultsPage(): paginated result rows of an agent job
+ * - buildResultsFile(): full results as XLSX, CSV (one file, or a ZIP of per-entity CSVs), JSONL or Parquet
+ * - buildInPlaceResultsFile(): the user's input file with the results appended (inPlaceExport.ts)
+ *
+ * VC job results live in enrichedFirms / teamMembers / portfolioCompanies;
+ * agent job results only exist as the output workbook in S3.
+ */
+
+import { TRPCError } from "@trpc/server";
+import * as XLSX from "xlsx";
+import { and, count, eq, like } from "drizzle-orm";
+import { enrichedFirms, investmentThesis, portfolioCompanies, teamMembers, type EnrichmentJob } from "../drizzle/schema";
+import { getDb } from "./db";
+import { storageGet } from "./storage";
+import { generateResultsFile } from "./generateResultsService";
+import { createAgentCSVExport, createCSVExport, rowsToCSV, type CsvExportOptions } from "./csvExporter";
+import { createInPlaceTable } from "./inPlaceExport";
+import { buildAgentAnalyticsDataset, buildVcAnalyticsDataset, createAnalyticsExport } from "./analyticsExport";
+import { sanitizeSectionType } from "./sectionTypes";
+import type { AgentSection } from "./agentScraper";
+
+export const RESULTS_PAGE_SIZE = 50;
+
+export type ResultsTab = "firms" | "team" | "portfolio";
+export type ResultsFormat = "xlsx" | "csv" | "jsonl" | "parquet";
+/** "standard": workbooks / ZIPs built from the results; "inPlace": the input file's layout with results appended */
+export type ResultsLayout = "standard" | "inPlace";
+
+export interface ResultsPage {
+  rows: Record<string, unknown>[];
+  total: number;
+  pages: number;
+}
+
+export interface ResultsFile {
+  buffer: Buffer;
+  fileName: string;
+  contentType: string;
+  firmCount: number;
+  teamMemberCount: number;
+}
+
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+const ZIP_CONTENT_TYPE = "application/zip";
+const CSV_CONTENT_TYPE = "text/csv; charset=utf-8";
+
+/**
+ * Download an agent job's output workbook from storage
+ */
+async function fetchAgentWorkbook(job: EnrichmentJob): Promise<Buffer> {
+  if (!job.outputFileKey) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Job has no results file yet" });
+  }
+  const { url } = await storageGet(job.outputFileKey);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Results file not available in storage" });
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+function agentResultsSheet(buffer: Buffer): XLSX.WorkSheet | undefined {
+  return XLSX.read(buffer, { type: "buffer" }).Sheets["Results"];
+}
+
+/**
+ * One page of a VC job's firms, team members or portfolio companies
+ */
+export async function getVcResultsPage(jobId: number, tab: ResultsTab, page: number, search?: string) {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database connection failed" });
+
+  const offset = (page - 1) * RESULTS_PAGE_SIZE;
+  const searchTerm = search ? `%${search}%` : null;
+
+  if (tab === "firms") {
+    const whereClause = searchTerm
+      ? and(eq(enrichedFirms.jobId, jobId), like(enrichedFirms.companyName, searchTerm))
+      : eq(enrichedFirms.jobId, jobId);
+    const [rows, totalRows] = await Promise.all([
+      db.select().from(enrichedFirms).where(whereClause).limit(RESULTS_PAGE_SIZE).offset(offset),
+      db.select({ total: count() }).from(enrichedFirms).where(whereClause),
+    ]);
+    return { rows, total: totalRows[0]?.total ?? 0, pages: Math.ceil((totalRows[0]?.total ?? 0) / RESULTS_PAGE_SIZE) };
+  }
+
+  if (tab === "team") {
+    const whereClause = searchTerm
+      ? and(eq(teamMembers.jobId, jobId), like(teamMembers.name, searchTerm))
+      : eq(teamMembers.jobId, jobId);
+    const [rows, totalRows] = await Promise.all([
+      db.select().from(teamMembers).where(whereClause).limit(RESULTS_PAGE_SIZE).offset(offset),
+      db.select({ total: count() }).from(teamMembers).where(whereClause),
+    ]);
+    return { rows, total: totalRows[0]?.total ?? 0, pages: Math.ceil((totalRows[0]?.total ?? 0) / RESULTS_PAGE_SIZE) };
+  }
+
+  // portfolio tab
+  const whereClause = searchTerm
+    ? and(eq(portfolioCompanies.jobId, jobId), like(portfolioCompanies.portfolioCompany, searchTerm))
+    : eq(portfolioCompanies.jobId, jobId);
+  const [rows, totalRows] = await Promise.all([
+    db.select().from(portfolioCompanies).where(whereClause).limit(RESULTS_PAGE_SIZE).offset(offset),
+    db.select({ total: count() }).from(portfolioCompanies).where(whereClause),
+  ]);
+  return { rows, total: totalRows[0]?.total ?? 0, pages: Math.ceil((totalRows[0]?.total ?? 0) / RESULTS_PAGE_SIZE) };
+}
+
+/**
+ * One page of an agent job's "Results" sheet (column label → value). Empty until the job has written its output.
+ */
+export async function getAgentResultsPage(job: EnrichmentJob, page: number, search?: string): Promise<ResultsPage> {
+  const sheet = job.outputFileKey ? agentResultsSheet(await fetchAgentWorkbook(job)) : undefined;
+  let rows = sheet ? XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "" }) : [];
+  if (search) {
+    const term = search.toLowerCase();
+    rows = rows.filter((r) => String(r["Company Name"] ?? "").toLowerCase().includes(term));
+  }
+  const offset = (page - 1) * RESULTS_PAGE_SIZE;
+  return {
+    rows: rows.slice(offset, offset + RESULTS_PAGE_SIZE),
+    total: rows.length,
+    pages: Math.ceil(rows.length / RESULTS_PAGE_SIZE),
+  };
+}
+
+/**
+ * Full results file for download. "csv" is the main entity's CSV, or with csvOptions.zip a ZIP
+ * with one CSV per entity (csvExporter.ts);
+ * "jsonl" and "parquet" are ZIPs of typed tables for warehouses (analyticsExport.ts).
+ */
+export async function buildResultsFile(
+  job: EnrichmentJob,
+  format: ResultsFormat,
+  forceRegenerate = false,
+  csvOptions: CsvExportOptions = {},
+): Promise<ResultsFile> {
+  // Agent jobs (AI Custom extraction): results are stored in S3, not in enrichedFirms
+  if (job.sectionsJson && job.outputFileKey) {
+    const buffer = await fetchAgentWorkbook(job);
+    const base = { firmCount: job.processedCount ?? 0, teamMemberCount: 0 };
+    if (format === "xlsx") {
+      return { ...base, buffer, fileName: `agent-results-${job.id}.xlsx`, contentType: XLSX_CONTENT_TYPE };
+    }
+    const sections = (JSON.parse(job.sectionsJson) as AgentSection[]).map(sanitizeSectionType);
+    const workbook = XLSX.read(buffer, { type: "buffer" });
+    const { buffer: exported, filename } = format === "csv"
+      ? createAgentCSVExport(workbook, sections, `agent-results-${job.id}`, csvOptions)
+      : createAnalyticsExport(buildAgentAnalyticsDataset(workbook, sections, job.id), format, `agent-results-${job.id}`);
+    return { ...base, buffer: exported, fileName: filename, contentType: filename.endsWith(".csv") ? CSV_CONTENT_TYPE : ZIP_CONTENT_TYPE };
+  }
+
+  if (job.status !== "completed" && job.processedCount === 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Job has not processed any firms yet" });
+  }
+
+  if (format === "xlsx") {
+    // Standard jobs: generate from enrichedFirms table
+    const result = await generateResultsFile({ jobId: job.id, forceRegenerate });
+    return {
+      buffer: result.fileBuffer,
+      fileName: result.fileName,
+      contentType: XLSX_CONTENT_TYPE,
+      firmCount: result.firmCount,
+      teamMemberCount: result.teamMemberCount,
+    };
+  }
+
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database connection failed" });
+
+  // Fetch all enriched data from database
+  const firms = await db.select().from(enrichedFirms).where(eq(enrichedFirms.jobId, job.id));
+  const members = await db.select().from(teamMembers).where(eq(teamMembers.jobId, job.id));
+  const portfolio = await db.select().from(portfolioCompanies).where(eq(portfolioCompanies.jobId, job.id));
+  const thesis = await db.select().from(investmentThesis).where(eq(investmentThesis.jobId, job.id));
+
+  if (firms.length === 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "No enriched firms found for this job" });
+  }
+
+  const { buffer, filename } = format === "csv"
+    ? createCSVExport(
+      { firms, teamMembers: members, portfolioCompanies: portfolio, investmentThesis: thesis },
+      job.template ?? "vc",
+      `vc-enrichment-export-${job.id}`,
+      csvOptions,
+    )
+    : createAnalyticsExport(
+      buildVcAnalyticsDataset({ firms, teamMembers: members, portfolioCompanies: portfolio, investmentThesis: thesis }),
+      format,
+      `vc-enrichment-export-${job.id}`,
+    );
+  return { buffer, fileName: filename, contentType: filename.endsWith(".csv") ? CSV_CONTENT_TYPE : ZIP_CONTENT_TYPE, firmCount: firms.length, teamMemberCount: members.length };
+}
+
+/**
+ * The job's input file — every original row and column — with the enriched columns and an
+ * "Enrichment Status" column appended. "csv" is a single CSV file here, not a ZIP.
+ */
+export async function buildInPlaceResultsFile(
+  job: EnrichmentJob,
+  format: "xlsx" | "csv",
+  csvOptions: CsvExportOptions = {},
+): Promise<ResultsFile> {
+  let table;
+  try {
+    table = await createInPlaceTable(job);
+  } catch (err) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Could not rebuild the original file layout: ${err instanceof Error ? err.message : String(err)}`,
+    });
+  }
+  const base = { firmCount: table.enrichedCount, teamMemberCount: 0 };
+
+  if (format === "csv") {
+    const content = (csvOptions.bom ? "\uFEFF" : "") + rowsToCSV(table.rows);
+    return { ...base, buffer: Buffer.from(content, "utf-8"), fileName: `enriched-in-place-${job.id}.csv`, contentType: CSV_CONTENT_TYPE };
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(table.rows), "Enriched");
+  const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx", compression: true });
+  return { ...base, buffer, fileName: `enriched-in-place-${job.id}.xlsx`, contentType: XLSX_CONTENT_TYPE };
+}
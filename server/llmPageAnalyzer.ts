@@ -161,6 +161,7 @@ export async function analyzePageWithLLM(
   
   try {
     const response = await queuedLLMCall({
+      task: "profile_extraction",
       messages: [{ role: "user", content: prompt }],
       response_format: {
         type: "json_schema",
@@ -644,6 +645,7 @@ Return a JSON object with these fields. Use empty string "" for missing text fie
 
   try {
     const response = await queuedLLMCall({
+      task: "team_extraction",
       messages: [{ role: "user", content: prompt }],
       response_format: {
         type: "json_schema",
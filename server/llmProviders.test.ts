@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { buildAnthropicPayload, calculateLLMCost, getModelPricing, parseAnthropicResponse, parsePricingOverrides } from "./_core/llmProviders";
+import { parseRouteSpec, parseRoutingTable } from "./_core/llmRouting";
+
+describe("LLM routing table", () => {
+  it("should parse provider:model and provider-only specs", () => {
+    expect(parseRouteSpec("gemini:gemini-2.5-flash-lite")).toEqual({ provider: "gemini", model: "gemini-2.5-flash-lite" });
+    expect(parseRouteSpec("local:qwen2.5:7b")).toEqual({ provider: "local", model: "qwen2.5:7b" });
+    expect(parseRouteSpec("Anthropic")?.provider).toBe("anthropic");
+    expect(parseRouteSpec("mistral:large")).toBeNull();
+  });
+
+  it("should keep valid task routes and drop unknown tasks or providers", () => {
+    const table = parseRoutingTable(JSON.stringify({
+      page_classification: "openai:gpt-4.1-nano",
+      team_extraction: "nope:model",
+      summarise: "openai",
+    }));
+    expect(table).toEqual({ page_classification: { provider: "openai", model: "gpt-4.1-nano" } });
+    expect(parseRoutingTable("{not json")).toEqual({});
+  });
+});
+
+describe("LLM pricing", () => {
+  it("should price versioned model names by their longest known prefix", () => {
+    expect(getModelPricing("openai", "gpt-4o-mini-2024-07-18")).toEqual({ inputPer1M: 0.15, outputPer1M: 0.60 });
+    expect(getModelPricing("openai", "gpt-4o-2024-08-06")).toEqual({ inputPer1M: 2.50, outputPer1M: 10.00 });
+    expect(getModelPricing("anthropic", "claude-3-5-haiku-latest")).toEqual({ inputPer1M: 0.80, outputPer1M: 4.00 });
+  });
+
+  it("should treat local models as free and compute call cost", () => {
+    expect(calculateLLMCost("local", "llama3.1", 1_000_000, 1_000_000)).toBe(0);
+    expect(calculateLLMCost("gemini", "gemini-2.5-flash", 1_000_000, 1_000_000)).toBeCloseTo(2.80);
+  });
+
+  it("should price unknown models at the provider's most expensive entry", () => {
+    expect(getModelPricing("anthropic", "claude-next-preview")).toEqual({ inputPer1M: 15.00, outputPer1M: 75.00 });
+    expect(getModelPricing("openai", "o9-ultra")).toEqual({ inputPer1M: 2.50, outputPer1M: 10.00 });
+    expect(getModelPricing("openai", "gpt-5-2025-08-07")).toEqual({ inputPer1M: 1.25, outputPer1M: 10.00 });
+    expect(getModelPricing("gemini", "gemini-2.5-flash-lite").outputPer1M).toBeLessThan(getModelPricing("gemini", "gemini-2.5-flash").outputPer1M);
+  });
+
+  it("should read price overrides", () => {
+    expect(parsePricingOverrides('{"openai:ft-model":{"input":1,"output":2},"bad":{}}'))
+      .toEqual({ "openai:ft-model": { inputPer1M: 1, outputPer1M: 2 } });
+  });
+});
+
+describe("Anthropic adapter", () => {
+  it("should move system prompts and JSON schemas into the system field", () => {
+    const payload = buildAnthropicPayload("claude-3-5-haiku-latest", {
+      messages: [
+        { role: "system", content: "Be precise." },
+        { role: "user", content: "Page A" },
+        { role: "user", content: [{ type: "text", text: "Page B" }] },
+      ],
+      temperature: 0,
+      response_format: { type: "json_schema", json_schema: { name: "x", schema: { type: "object" } } },
+    });
+    expect(payload.messages).toEqual([{ role: "user", content: "Page A\n\nPage B" }]);
+    expect(payload.system).toContain("Be precise.");
+    expect(payload.system).toContain('{"type":"object"}');
+    expect(payload.max_tokens).toBe(4096);
+    expect(payload.temperature).toBe(0);
+  });
+
+  it("should convert responses to the chat completion shape", () => {
+    const result = parseAnthropicResponse({
+      id: "msg_1",
+      model: "claude-3-5-haiku-20241022",
+      stop_reason: "tool_use",
+      content: [
+        { type: "text", text: "{\"a\":1}" },
+        { type: "tool_use", id: "tu_1", name: "lookup", input: { q: "acme" } },
+      ],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    }, "claude-3-5-haiku-latest");
+    expect(result.choices[0].message.content).toBe("{\"a\":1}");
+    expect(result.choices[0].message.tool_calls).toEqual([
+      { id: "tu_1", type: "function", function: { name: "lookup", arguments: "{\"q\":\"acme\"}" } },
+    ]);
+    expect(result.choices[0].finish_reason).toBe("tool_calls");
+    expect(result.usage).toEqual({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+  });
+});
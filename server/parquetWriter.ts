@@ -0,0 +1,420 @@
+/**
+ * Minimal Parquet Writer
+ *
+ * Just enough of the format for analytics exports (analyticsExport.ts): one row group,
+ * one uncompressed PLAIN-encoded data page per column, flat optional columns plus lists
+ * of strings. Readers (pyarrow, DuckDB, Spark, BigQuery) load the result with its types.
+ *
+ * Column types: string (UTF8), int (INT32), double, boolean, timestamp (INT64 millis, UTC),
+ * date (INT32 days since epoch) and string[] (3-level LIST of required UTF8 elements).
+ *
+ * File metadata is Thrift compact protocol; see
+ * https://github.com/apache/parquet-format/blob/master/src/main/thrift/parquet.thrift
+ */
+
+export type ParquetColumnType = "string" | "int" | "double" | "boolean" | "timestamp" | "date" | "string[]";
+
+export interface ParquetColumn {
+  name: string;
+  type: ParquetColumnType;
+}
+
+export type ParquetValue = string | number | boolean | Date | string[] | null | undefined;
+
+const MAGIC = Buffer.from("PAR1", "ascii");
+const CREATED_BY = "smart-ai-scraper parquetWriter";
+
+// parquet.thrift enums
+const PhysicalType = { BOOLEAN: 0, INT32: 1, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 } as const;
+const ConvertedType = { UTF8: 0, LIST: 3, DATE: 6, TIMESTAMP_MILLIS: 9 } as const;
+const Repetition = { REQUIRED: 0, OPTIONAL: 1, REPEATED: 2 } as const;
+const Encoding = { PLAIN: 0, RLE: 3 } as const;
+
+const MS_PER_DAY = 86_400_000;
+
+// ---------------------------------------------------------------------------
+// Thrift compact protocol
+// ---------------------------------------------------------------------------
+
+const CT = { TRUE: 1, FALSE: 2, I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 } as const;
+
+type ThriftValue =
+  | { t: "i32"; v: number }
+  | { t: "i64"; v: number }
+  | { t: "bool"; v: boolean }
+  | { t: "string"; v: string }
+  | { t: "struct"; v: ThriftStruct }
+  | { t: "list"; elem: "i32" | "string" | "struct"; v: Array<number | string | ThriftStruct> };
+
+/** Field id → value; undefined fields are skipped (Thrift "optional") */
+type ThriftStruct = Record<number, ThriftValue | undefined>;
+
+class CompactWriter {
+  private bytes: number[] = [];
+
+  // Arithmetic rather than bit operations so values above 2^31 (i64 offsets) stay exact
+  varint(n: number): void {
+    let v = n;
+    while (v >= 0x80) {
+      this.bytes.push((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    this.bytes.push(v);
+  }
+
+  zigzag(n: number): void {
+    this.varint(n >= 0 ? n * 2 : -n * 2 - 1);
+  }
+
+  raw(buf: Buffer): void {
+    for (let i = 0; i < buf.length; i++) this.bytes.push(buf[i]);
+  }
+
+  binary(s: string): void {
+    const buf = Buffer.from(s, "utf-8");
+    this.varint(buf.length);
+    this.raw(buf);
+  }
+
+  struct(fields: ThriftStruct): void {
+    let lastId = 0;
+    const ids = Object.keys(fields).map(Number).sort((a, b) => a - b);
+    for (const id of ids) {
+      const field = fields[id];
+      if (field === undefined) continue;
+      const type = field.t === "bool" ? (field.v ? CT.TRUE : CT.FALSE) : this.compactType(field.t);
+      const delta = id - lastId;
+      if (delta > 0 && delta <= 15) {
+        this.bytes.push((delta << 4) | type);
+      } else {
+        this.bytes.push(type);
+        this.zigzag(id);
+      }
+      lastId = id;
+      if (field.t !== "bool") this.value(field);
+    }
+    this.bytes.push(0); // STOP
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+
+  private compactType(t: ThriftValue["t"]): number {
+    switch (t) {
+      case "i32": return CT.I32;
+      case "i64": return CT.I64;
+      case "string": return CT.BINARY;
+      case "list": return CT.LIST;
+      case "struct": return CT.STRUCT;
+      default: return CT.TRUE;
+    }
+  }
+
+  private value(field: ThriftValue): void {
+    switch (field.t) {
+      case "i32":
+      case "i64":
+        this.zigzag(field.v);
+        return;
+      case "string":
+        this.binary(field.v);
+        return;
+      case "struct":
+        this.struct(field.v);
+        return;
+      case "list": {
+        const elemType = this.compactType(field.elem);
+        const size = field.v.length;
+        if (size < 15) {
+          this.bytes.push((size << 4) | elemType);
+        } else {
+          this.bytes.push(0xf0 | elemType);
+          this.varint(size);
+        }
+        for (const item of field.v) {
+          if (field.elem === "struct") this.struct(item as ThriftStruct);
+          else if (field.elem === "string") this.binary(item as string);
+          else this.zigzag(item as number);
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  }
+}
+
+function thrift(fields: ThriftStruct): Buffer {
+  const writer = new CompactWriter();
+  writer.struct(fields);
+  return writer.toBuffer();
+}
+
+const i32 = (v: number): ThriftValue => ({ t: "i32", v });
+const i64 = (v: number): ThriftValue => ({ t: "i64", v });
+const str = (v: string): ThriftValue => ({ t: "string", v });
+
+// ---------------------------------------------------------------------------
+// Column encoding
+// ---------------------------------------------------------------------------
+
+/**
+ * RLE/bit-packed hybrid encoding of levels, written as RLE runs only and prefixed with
+ * its byte length (data page v1)
+ */
+function encodeLevels(levels: number[], maxLevel: number): Buffer {
+  const bitWidth = Math.ceil(Math.log2(maxLevel + 1));
+  const valueBytes = Math.ceil(bitWidth / 8);
+  const writer = new CompactWriter();
+  let i = 0;
+  while (i < levels.length) {
+    let j = i;
+    while (j < levels.length && levels[j] === levels[i]) j++;
+    writer.varint((j - i) * 2);
+    const value = Buffer.alloc(valueBytes);
+    value.writeUIntLE(levels[i], 0, valueBytes);
+    writer.raw(value);
+    i = j;
+  }
+  const body = writer.toBuffer();
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(body.length, 0);
+  return Buffer.concat([length, body]);
+}
+
+function physicalType(type: ParquetColumnType): number {
+  switch (type) {
+    case "int":
+    case "date":
+      return PhysicalType.INT32;
+    case "timestamp":
+      return PhysicalType.INT64;
+    case "double":
+      return PhysicalType.DOUBLE;
+    case "boolean":
+      return PhysicalType.BOOLEAN;
+    default:
+      return PhysicalType.BYTE_ARRAY;
+  }
+}
+
+function toTime(value: ParquetValue): number | null {
+  const time = value instanceof Date ? value.getTime() : new Date(String(value)).getTime();
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * PLAIN-encode the non-null values of a column
+ */
+function encodePlain(type: ParquetColumnType, values: Array<string | number | boolean>): Buffer {
+  switch (type) {
+    case "int":
+    case "date": {
+      const buf = Buffer.alloc(values.length * 4);
+      values.forEach((v, i) => buf.writeInt32LE(v as number, i * 4));
+      return buf;
+    }
+    case "timestamp": {
+      const buf = Buffer.alloc(values.length * 8);
+      values.forEach((v, i) => buf.writeBigInt64LE(BigInt(v as number), i * 8));
+      return buf;
+    }
+    case "double": {
+      const buf = Buffer.alloc(values.length * 8);
+      values.forEach((v, i) => buf.writeDoubleLE(v as number, i * 8));
+      return buf;
+    }
+    case "boolean": {
+      const buf = Buffer.alloc(Math.ceil(values.length / 8));
+      values.forEach((v, i) => {
+        if (v) buf[i >> 3] |= 1 << (i & 7);
+      });
+      return buf;
+    }
+    default:
+      return Buffer.concat(values.map((v) => {
+        const bytes = Buffer.from(String(v), "utf-8");
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(bytes.length, 0);
+        return Buffer.concat([length, bytes]);
+      }));
+  }
+}
+
+/**
+ * Non-null value for a flat column, or null when the cell is empty / not of the column's type
+ */
+function flatValue(type: ParquetColumnType, value: ParquetValue): string | number | boolean | null {
+  if (value === null || value === undefined || value === "") return null;
+  switch (type) {
+    case "int": {
+      const n = typeof value === "number" ? value : Number(value);
+      return Number.isInteger(n) && Math.abs(n) <= 0x7fffffff ? n : null;
+    }
+    case "double": {
+      const n = typeof value === "number" ? value : Number(value);
+      return Number.isFinite(n) ? n : null;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? value : null;
+    case "timestamp":
+      return toTime(value);
+    case "date": {
+      const time = toTime(value);
+      return time === null ? null : Math.floor(time / MS_PER_DAY);
+    }
+    default:
+      return Array.isArray(value) ? value.join("; ") : value instanceof Date ? value.toISOString() : String(value);
+  }
+}
+
+interface ColumnData {
+  page: Buffer;
+  numValues: number;
+}
+
+/**
+ * Data page (header + levels + values) for one column
+ */
+function encodeColumn(column: ParquetColumn, rows: Record<string, ParquetValue>[]): ColumnData {
+  const isList = column.type === "string[]";
+  const repetitionLevels: number[] = [];
+  const definitionLevels: number[] = [];
+  const values: Array<string | number | boolean> = [];
+
+  for (const row of rows) {
+    const value = row[column.name];
+    if (isList) {
+      // Levels: 0 = null list, 1 = empty list, 2 = element present
+      if (!Array.isArray(value)) {
+        repetitionLevels.push(0);
+        definitionLevels.push(0);
+        continue;
+      }
+      if (value.length === 0) {
+        repetitionLevels.push(0);
+        definitionLevels.push(1);
+        continue;
+      }
+      value.forEach((item, i) => {
+        repetitionLevels.push(i === 0 ? 0 : 1);
+        definitionLevels.push(2);
+        values.push(String(item));
+      });
+      continue;
+    }
+    const flat = flatValue(column.type, value);
+    definitionLevels.push(flat === null ? 0 : 1);
+    if (flat !== null) values.push(flat);
+  }
+
+  const body = Buffer.concat([
+    ...(isList ? [encodeLevels(repetitionLevels, 1)] : []),
+    encodeLevels(definitionLevels, isList ? 2 : 1),
+    encodePlain(isList ? "string" : column.type, values),
+  ]);
+
+  const header = thrift({
+    1: i32(0), // DATA_PAGE
+    2: i32(body.length),
+    3: i32(body.length),
+    5: {
+      t: "struct",
+      v: {
+        1: i32(definitionLevels.length),
+        2: i32(Encoding.PLAIN),
+        3: i32(Encoding.RLE),
+        4: i32(Encoding.RLE),
+      },
+    },
+  });
+
+  return { page: Buffer.concat([header, body]), numValues: definitionLevels.length };
+}
+
+/**
+ * Schema elements (depth-first) for the file metadata
+ */
+function schemaElements(columns: ParquetColumn[]): ThriftStruct[] {
+  const elements: ThriftStruct[] = [{ 4: str("schema"), 5: i32(columns.length) }];
+  for (const column of columns) {
+    if (column.type === "string[]") {
+      elements.push(
+        { 3: i32(Repetition.OPTIONAL), 4: str(column.name), 5: i32(1), 6: i32(ConvertedType.LIST) },
+        { 3: i32(Repetition.REPEATED), 4: str("list"), 5: i32(1) },
+        { 1: i32(PhysicalType.BYTE_ARRAY), 3: i32(Repetition.REQUIRED), 4: str("element"), 6: i32(ConvertedType.UTF8) },
+      );
+      continue;
+    }
+    const converted =
+      column.type === "string" ? ConvertedType.UTF8
+        : column.type === "date" ? ConvertedType.DATE
+          : column.type === "timestamp" ? ConvertedType.TIMESTAMP_MILLIS
+            : undefined;
+    elements.push({
+      1: i32(physicalType(column.type)),
+      3: i32(Repetition.OPTIONAL),
+      4: str(column.name),
+      6: converted === undefined ? undefined : i32(converted),
+    });
+  }
+  return elements;
+}
+
+/**
+ * Write rows as a Parquet file. Every column is nullable; values that don't fit a column's
+ * type (e.g. "n/a" in an int column) are written as null.
+ */
+export function writeParquet(
+  columns: ParquetColumn[],
+  rows: Record<string, ParquetValue>[],
+  metadata: Record<string, string> = {},
+): Buffer {
+  const chunks: Buffer[] = [MAGIC];
+  let offset = MAGIC.length;
+  const columnChunks: ThriftStruct[] = [];
+  let totalSize = 0;
+
+  for (const column of columns) {
+    const { page, numValues } = encodeColumn(column, rows);
+    const path = column.type === "string[]" ? [column.name, "list", "element"] : [column.name];
+    columnChunks.push({
+      2: i64(offset),
+      3: {
+        t: "struct",
+        v: {
+          1: i32(physicalType(column.type)),
+          2: { t: "list", elem: "i32", v: [Encoding.PLAIN, Encoding.RLE] },
+          3: { t: "list", elem: "string", v: path },
+          4: i32(0), // UNCOMPRESSED
+          5: i64(numValues),
+          6: i64(page.length),
+          7: i64(page.length),
+          9: i64(offset),
+        },
+      },
+    });
+    chunks.push(page);
+    offset += page.length;
+    totalSize += page.length;
+  }
+
+  const keyValues = Object.entries(metadata).map(([key, value]): ThriftStruct => ({ 1: str(key), 2: str(value) }));
+  const footer = thrift({
+    1: i32(1),
+    2: { t: "list", elem: "struct", v: schemaElements(columns) },
+    3: i64(rows.length),
+    4: {
+      t: "list",
+      elem: "struct",
+      v: [{ 1: { t: "list", elem: "struct", v: columnChunks }, 2: i64(totalSize), 3: i64(rows.length) }],
+    },
+    5: keyValues.length > 0 ? { t: "list", elem: "struct", v: keyValues } : undefined,
+    6: str(CREATED_BY),
+  });
+
+  const footerLength = Buffer.alloc(4);
+  footerLength.writeUInt32LE(footer.length, 0);
+  return Buffer.concat([...chunks, footer, footerLength, MAGIC]);
+}
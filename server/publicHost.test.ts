@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("dns", () => ({
+  lookup: vi.fn(),
+}));
+
+import { lookup } from "dns";
+import { assertPublicHost, assertPublicUrl, isBlockedAddress, isPublicUrl, NonPublicHostError } from "./publicHost";
+
+const mockLookup = vi.mocked(lookup);
+
+/** Make every hostname resolve to these addresses */
+function resolveTo(...addresses: string[]) {
+  mockLookup.mockImplementation(((_hostname: string, _options: object, callback: (err: Error | null, addresses: unknown) => void) => {
+    callback(null, addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 })));
+  }) as unknown as typeof lookup);
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  mockLookup.mockReset();
+});
+
+describe("isBlockedAddress", () => {
+  it("should block private, loopback and metadata addresses only", () => {
+    expect(isBlockedAddress("::ffff:192.168.1.10")).toBe(true);
+    expect(isBlockedAddress("fd00:ec2::254")).toBe(true);
+    expect(isBlockedAddress("169.254.169.254")).toBe(true);
+    expect(isBlockedAddress("172.32.0.1")).toBe(false);
+    expect(isBlockedAddress("2606:4700::1111")).toBe(false);
+    expect(isBlockedAddress("example.com")).toBe(false);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  it("should refuse localhost and private IP literals without a lookup", async () => {
+    for (const url of ["http://localhost:3000/hook", "https://api.localhost/", "http://127.0.0.1/", "http://[::1]:8080/", "http://169.254.169.254/latest/"]) {
+      await expect(assertPublicUrl(url), url).rejects.toThrow(NonPublicHostError);
+    }
+    expect(() => assertPublicHost("[fe80::1]")).toThrow(/not a public host/);
+    expect(mockLookup).not.toHaveBeenCalled();
+  });
+
+  it("should refuse hosts that resolve to a private address", async () => {
+    resolveTo("93.184.216.34", "10.0.0.5");
+    await expect(assertPublicUrl("https://hooks.example.com/in")).rejects.toThrow(/resolves to a non-public address \(10\.0\.0\.5\)/);
+
+    resolveTo("93.184.216.34");
+    await expect(assertPublicUrl("https://hooks.example.com/in")).resolves.toBeUndefined();
+  });
+
+  it("should let private hosts through with OUTBOUND_ALLOW_PRIVATE_HOSTS", async () => {
+    vi.stubEnv("OUTBOUND_ALLOW_PRIVATE_HOSTS", "true");
+    await expect(assertPublicUrl("http://127.0.0.1:4010")).resolves.toBeUndefined();
+  });
+
+  it("should only fail saving a URL for a non-public host, not for DNS errors", async () => {
+    mockLookup.mockImplementation(((_hostname: string, _options: object, callback: (err: Error | null) => void) => {
+      callback(Object.assign(new Error("getaddrinfo ENOTFOUND"), { code: "ENOTFOUND" }));
+    }) as unknown as typeof lookup);
+    expect(await isPublicUrl("https://not-yet-live.example.com/hook")).toBe(true);
+    expect(await isPublicUrl("http://10.1.2.3/hook")).toBe(false);
+  });
+});
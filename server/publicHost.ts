@@ -0,0 +1,94 @@
+/**
+ * Public Host Guard
+ *
+ * URLs users give us that the server then requests — shared spreadsheets (sheetSource.ts),
+ * webhook endpoints (webhooks.ts) and CRM base URLs (crmPush.ts) — must not reach loopback,
+ * private, link-local (incl. the 169.254.169.254 cloud metadata service) or reserved addresses:
+ * - assertPublicHost refuses a hostname that is localhost or such an address
+ * - publicOnlyLookup is a DNS lookup (axios `lookup`) that refuses hosts resolving to one
+ * - assertPublicUrl does both for a URL, for fetch() callers, which can't pass a lookup; it
+ *   runs when the URL is saved and again right before each request
+ *
+ * OUTBOUND_ALLOW_PRIVATE_HOSTS=true lifts the check for webhook and CRM URLs (assertPublicUrl),
+ * e.g. to push to the mock CRM (crmMockServer.ts) on localhost.
+ */
+
+import { lookup as dnsLookup, type LookupAddress } from "dns";
+import { BlockList, isIP } from "net";
+
+export class NonPublicHostError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonPublicHostError";
+  }
+}
+
+/**
+ * Whether webhook and CRM URLs may point at private hosts (local testing only)
+ */
+export function privateHostsAllowed(): boolean {
+  return process.env.OUTBOUND_ALLOW_PRIVATE_HOSTS === "true";
+}
+
+/** Loopback, private, carrier-grade NAT, link-local (incl. 169.254.169.254 metadata), multicast and reserved ranges */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 127], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is one outbound requests must not reach
+ */
+export function isBlockedAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isBlockedAddress(mapped[1]);
+  const family = isIP(address);
+  return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Throw NonPublicHostError for localhost and blocked IP literals ("[::1]" as in URL.hostname is fine)
+ */
+export function assertPublicHost(hostname: string): void {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || isBlockedAddress(host)) {
+    throw new NonPublicHostError(`${host} is not a public host`);
+  }
+}
+
+/** DNS lookup that refuses hosts resolving to a blocked address, so redirects and rebinding can't reach them either */
+export function publicOnlyLookup(hostname: string, options: object): Promise<LookupAddress[]> {
+  return new Promise((resolve, reject) => {
+    dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) return reject(err);
+      const blocked = addresses.find((a) => isBlockedAddress(a.address));
+      if (blocked) return reject(new NonPublicHostError(`${hostname} resolves to a non-public address (${blocked.address})`));
+      resolve(addresses);
+    });
+  });
+}
+
+/**
+ * Throw NonPublicHostError unless the URL's host is public and resolves to public addresses only.
+ * DNS failures are thrown as they are.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  if (privateHostsAllowed()) return;
+  const { hostname } = new URL(url);
+  assertPublicHost(hostname);
+  await publicOnlyLookup(hostname.replace(/^\[|\]$/g, ""), {});
+}
+
+/**
+ * For validating a URL when it is saved: false only when it is known to point at a non-public
+ * host (a host that doesn't resolve yet fails at request time instead)
+ */
+export async function isPublicUrl(url: string): Promise<boolean> {
+  return assertPublicUrl(url).then(() => true, (err) => !(err instanceof NonPublicHostError));
+}
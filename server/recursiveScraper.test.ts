@@ -1,8 +1,11 @@
 /**
  * Tests for the LLM-driven Recursive Scraper
+ *
+ * Pages come from mockFetch and the LLM is mocked; an empty replay session refuses anything
+ * else (robots.txt, stray HTTP) so the suite never touches the network.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock the LLM queue before importing the modules
 vi.mock('./_core/llmQueue', () => ({
@@ -11,12 +14,18 @@ vi.mock('./_core/llmQueue', () => ({
 
 import { scrapeRecursively } from './recursiveScraper';
 import { queuedLLMCall } from './_core/llmQueue';
+import { startReplaySession, stopReplaySession } from './_core/replay';
 
 const mockQueuedLLMCall = vi.mocked(queuedLLMCall);
 
 describe('RecursiveScraper', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    startReplaySession('replay');
+  });
+
+  afterEach(() => {
+    stopReplaySession();
   });
 
   describe('scrapeRecursively', () => {
@@ -38,6 +38,11 @@ export interface RecursiveScrapingConfig {
   onProgress?: (message: string, stats: ScrapingStats) => void;
   /** Scraping profile — controls terminology and what to extract (default: VC_PROFILE) */
   profile?: ScrapeProfile;
+  /**
+   * Team members already known from the site's structured data (structuredData.ts). They seed the
+   * results, and profile pages of those already complete (title + LinkedIn or email) are skipped.
+   */
+  prefilledTeamMembers?: ExtractedTeamMember[];
 }
 
 export interface ScrapingStats {
@@ -122,6 +127,14 @@ export async function scrapeRecursively(
     errors: []
   };
   
+  // Structured data goes first so its values win the dedup merge
+  result.teamMembers.push(...(cfg.prefilledTeamMembers ?? []));
+  const completeMembers = new Set(
+    (cfg.prefilledTeamMembers ?? [])
+      .filter(m => m.title && (m.linkedinUrl || m.email))
+      .map(m => normalizeString(m.name))
+  );
+
   // URL queue with priority (high priority first)
   const urlQueue: Array<{ url: string; depth: number; priority: 'high' | 'medium' | 'low'; expectedContent: string }> = [];
   const visitedUrls = new Set<string>();
@@ -264,8 +277,9 @@ export async function scrapeRecursively(
           // Add to results
           result.teamMembers.push(member);
           
-          // Queue profile page for deep scraping if enabled
-          if (cfg.enableDeepProfiles && member.profileUrl && !visitedUrls.has(member.profileUrl)) {
+          // Queue profile page for deep scraping if enabled (and not already complete)
+          if (cfg.enableDeepProfiles && member.profileUrl && !visitedUrls.has(member.profileUrl)
+            && !completeMembers.has(normalizeString(member.name))) {
             profileUrlQueue.push({
               url: member.profileUrl,
               personName: member.name
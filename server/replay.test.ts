@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it } from "vitest";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import axios from "axios";
+import { fetchKey, llmCallKey, replayFetch, replayLLMCall, startReplaySession, stopReplaySession } from "./_core/replay";
+import { diffGolden, loadScenario, replayScenario, saveScenario } from "./replayScenarios";
+
+const SCENARIO_DIR = fileURLToPath(new URL("./__fixtures__/replay/", import.meta.url));
+const scenarioFiles = fs.readdirSync(SCENARIO_DIR).filter((f) => f.endsWith(".json"));
+
+afterEach(() => {
+  stopReplaySession();
+});
+
+describe("replay scenarios", () => {
+  it.each(scenarioFiles)("%s should reproduce its golden output offline", async (file) => {
+    const scenario = loadScenario(path.join(SCENARIO_DIR, file));
+    const { output, misses, diff } = await replayScenario(scenario);
+
+    if (process.env.UPDATE_GOLDEN) {
+      saveScenario(path.join(SCENARIO_DIR, file), { ...scenario, golden: output });
+      return;
+    }
+    expect(misses).toEqual([]);
+    expect(diff).toEqual([]);
+  }, 60000);
+
+  // Hand-written scenarios only exercise control flow — each pipeline needs a live recording too
+  it("should include a recorded scenario for each pipeline", () => {
+    const recorded = scenarioFiles
+      .map((file) => loadScenario(path.join(SCENARIO_DIR, file)))
+      .filter((scenario) => scenario.source === "recorded")
+      .map((scenario) => scenario.input.pipeline);
+    expect(Array.from(new Set(recorded)).sort()).toEqual(["enrichVCFirm", "scrapeUrl"]);
+  });
+});
+
+describe("replay session", () => {
+  it("should key LLM calls by their params regardless of key order", () => {
+    const a = llmCallKey({ task: "page_classification", messages: [{ role: "user", content: "hi" }], temperature: 0 });
+    const b = llmCallKey({ temperature: 0, messages: [{ content: "hi", role: "user" }], task: "page_classification" });
+    expect(a).toBe(b);
+    expect(a).toMatch(/^llm page_classification [0-9a-f]{24}$/);
+    expect(llmCallKey({ task: "page_classification", messages: [{ role: "user", content: "hi!" }], temperature: 0 })).not.toBe(a);
+  });
+
+  it("should record live results and serve them back without calling live again", async () => {
+    startReplaySession("record");
+    expect(await replayFetch("jina", "https://a.example/", async () => ({ content: "A" }))).toEqual({ content: "A" });
+    const recorded = stopReplaySession()!;
+    expect(recorded.fetches).toEqual([{ key: fetchKey("jina", "https://a.example/"), kind: "jina", url: "https://a.example/", result: { content: "A" } }]);
+
+    const session = startReplaySession("replay", recorded);
+    const live = async () => { throw new Error("should not run"); };
+    expect(await replayFetch("jina", "https://a.example/", live)).toEqual({ content: "A" });
+    await expect(replayLLMCall({ messages: [{ role: "user", content: "x" }] }, live)).rejects.toThrow("No recorded response");
+    expect(session.hits).toBe(1);
+    expect(session.misses).toHaveLength(1);
+  });
+
+  it("should replay recorded HTTP statuses and refuse unrecorded requests", async () => {
+    startReplaySession("replay", {
+      llm: [],
+      fetches: [{
+        key: fetchKey("http", "GET https://a.example/robots.txt"),
+        kind: "http",
+        url: "GET https://a.example/robots.txt",
+        result: { status: 404, statusText: "Not Found", contentType: "text/plain", data: "" },
+      }],
+    });
+    const response = await axios.get("https://a.example/robots.txt", { validateStatus: () => true });
+    expect(response.status).toBe(404);
+    await expect(axios.get("https://a.example/robots.txt")).rejects.toThrow("status code 404");
+    await expect(axios.get("https://b.example/")).rejects.toThrow("No recorded response");
+    await expect(fetch("https://b.example/")).rejects.toThrow("No recorded response");
+  });
+});
+
+describe("diffGolden", () => {
+  it("should list each differing path", () => {
+    const expected = { data: { location: "Austin, Texas", partners: "A; B" }, stats: { emptyFields: [] } };
+    const actual = { data: { location: "Austin", partners: "A; B", extra: "x" }, stats: { emptyFields: ["focus"] } };
+    expect(diffGolden(expected, actual)).toEqual([
+      `$.data.extra: unexpected "x"`,
+      `$.data.location: expected "Austin, Texas", got "Austin"`,
+      `$.stats.emptyFields: expected 0 items, got 1`,
+    ]);
+    expect(diffGolden(expected, JSON.parse(JSON.stringify(expected)))).toEqual([]);
+  });
+});
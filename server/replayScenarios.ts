@@ -0,0 +1,134 @@
+/**
+ * Replay Scenarios — offline regression tests for the scraping pipelines
+ *
+ * A scenario is one pipeline run saved as JSON in server/__fixtures__/replay/: its input, every
+ * LLM call and page fetch it made (recorded through _core/replay.ts) and the output it produced,
+ * the golden output. replay.test.ts re-runs each scenario from its recordings and diffs the
+ * result against the golden output, so no site or model is contacted.
+ *
+ * Recording a scenario needs the live API keys:
+ *   npx tsx record-replay-scenario.ts <name> scrapeUrl <url> "<objective>" '<sections JSON>'
+ *   npx tsx record-replay-scenario.ts <name> enrichVCFirm "<firm>" <url> "<description>"
+ *   npx tsx record-replay-scenario.ts <name>      re-record an existing scenario's input
+ * After an intended behaviour change, refresh the golden outputs from the recordings:
+ *   UPDATE_GOLDEN=1 pnpm test server/replay.test.ts
+ *
+ * Scenarios written by hand (source: "hand-written") only exercise the replay harness and the
+ * pipeline's control flow against made-up pages and answers; they say nothing about how the
+ * pipeline does on a real site. replay.test.ts requires a recorded scenario for each pipeline.
+ */
+
+import fs from "fs";
+import { scrapeUrl, type AgentSection } from "./agentScraper";
+import { VCEnrichmentService } from "./vcEnrichment";
+import { startReplaySession, stopReplaySession, type ReplayFixture } from "./_core/replay";
+
+type EnrichOptions = Parameters<VCEnrichmentService["enrichVCFirm"]>[4];
+
+export type ScenarioInput =
+  | {
+      pipeline: "scrapeUrl";
+      url: string;
+      objective: string;
+      sections: AgentSection[];
+      systemPrompt: string;
+      maxHops?: number;
+    }
+  | {
+      pipeline: "enrichVCFirm";
+      companyName: string;
+      websiteUrl: string;
+      description: string;
+      options?: EnrichOptions;
+    };
+
+export interface ReplayScenario extends ReplayFixture {
+  name: string;
+  input: ScenarioInput;
+  /** "recorded" from a live run (record-replay-scenario.ts), or "hand-written" */
+  source: "recorded" | "hand-written";
+  /** When the live run was recorded; null for a hand-written scenario */
+  recordedAt: string | null;
+  golden: unknown;
+}
+
+export interface ScenarioReplay {
+  output: unknown;
+  /** Calls the recordings don't cover — the scenario needs re-recording */
+  misses: string[];
+  /** Differences from the golden output, one line per path */
+  diff: string[];
+}
+
+/**
+ * Run a scenario's pipeline; the output is returned as plain JSON (a thrown error becomes { error })
+ */
+export async function runScenarioPipeline(input: ScenarioInput): Promise<unknown> {
+  try {
+    const output = input.pipeline === "scrapeUrl"
+      ? await scrapeUrl(input.url, input.objective, input.sections, input.systemPrompt, input.maxHops)
+      : await new VCEnrichmentService().enrichVCFirm(input.companyName, input.websiteUrl, input.description, undefined, input.options);
+    return JSON.parse(JSON.stringify(output));
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Run the pipeline live and capture everything it fetched and asked the LLM
+ */
+export async function recordScenario(name: string, input: ScenarioInput): Promise<ReplayScenario> {
+  startReplaySession("record");
+  const output = await runScenarioPipeline(input);
+  const recordings = stopReplaySession()!;
+  return { name, input, source: "recorded", recordedAt: new Date().toISOString(), ...recordings, golden: output };
+}
+
+/**
+ * Run the pipeline from the scenario's recordings only and diff the result with its golden output
+ */
+export async function replayScenario(scenario: ReplayScenario): Promise<ScenarioReplay> {
+  const session = startReplaySession("replay", scenario);
+  const output = await runScenarioPipeline(scenario.input);
+  stopReplaySession();
+  return { output, misses: Array.from(new Set(session.misses)), diff: diffGolden(scenario.golden, output) };
+}
+
+/**
+ * Structural diff: "$.data.location: expected "Austin, TX", got "Austin"" per differing path
+ */
+export function diffGolden(expected: unknown, actual: unknown, path = "$"): string[] {
+  const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null;
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const diffs: string[] = [];
+    if (expected.length !== actual.length) {
+      diffs.push(`${path}: expected ${expected.length} items, got ${actual.length}`);
+    }
+    for (let i = 0; i < Math.min(expected.length, actual.length); i++) {
+      diffs.push(...diffGolden(expected[i], actual[i], `${path}[${i}]`));
+    }
+    return diffs;
+  }
+
+  if (isObject(expected) && isObject(actual) && !Array.isArray(expected) && !Array.isArray(actual)) {
+    const keys = Array.from(new Set(Object.keys(expected).concat(Object.keys(actual)))).sort();
+    return keys.flatMap((key) => {
+      if (!(key in actual)) return [`${path}.${key}: missing`];
+      if (!(key in expected)) return [`${path}.${key}: unexpected ${JSON.stringify(actual[key])}`];
+      return diffGolden(expected[key], actual[key], `${path}.${key}`);
+    });
+  }
+
+  return JSON.stringify(expected) === JSON.stringify(actual)
+    ? []
+    : [`${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+}
+
+export function loadScenario(file: string): ReplayScenario {
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+export function saveScenario(file: string, scenario: ReplayScenario): void {
+  fs.writeFileSync(file, JSON.stringify(scenario, null, 2) + "\n");
+}
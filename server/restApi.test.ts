@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { TRPCError } from "@trpc/server";
+import { extractApiKey, generateApiKey, hashApiKey } from "./apiKeys";
+import { createJobSchema, resolveJobSections, urlListToCsv } from "./restApi";
+
+describe("API keys", () => {
+  it("should generate distinct prefixed keys with stable hashes", () => {
+    const a = generateApiKey();
+    const b = generateApiKey();
+    expect(a).toMatch(/^sk_live_[0-9a-f]{48}$/);
+    expect(a).not.toBe(b);
+    expect(hashApiKey(a)).toBe(hashApiKey(a));
+    expect(hashApiKey(a)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashApiKey(a)).not.toBe(hashApiKey(b));
+  });
+
+  it("should read the key from Authorization: Bearer or X-API-Key", () => {
+    expect(extractApiKey({ authorization: "Bearer sk_live_abc" })).toBe("sk_live_abc");
+    expect(extractApiKey({ authorization: "bearer  sk_live_abc " })).toBe("sk_live_abc");
+    expect(extractApiKey({ "x-api-key": "sk_live_xyz" })).toBe("sk_live_xyz");
+    expect(extractApiKey({ authorization: "Basic Zm9vOmJhcg==" })).toBeNull();
+    expect(extractApiKey({})).toBeNull();
+  });
+});
+
+describe("REST job submission", () => {
+  it("should require exactly one of urls or fileData+fileName", () => {
+    expect(createJobSchema.safeParse({ urls: ["https://a.com"] }).success).toBe(true);
+    expect(createJobSchema.safeParse({ fileData: "AAAA", fileName: "firms.csv" }).success).toBe(true);
+    expect(createJobSchema.safeParse({}).success).toBe(false);
+    expect(createJobSchema.safeParse({ fileData: "AAAA" }).success).toBe(false);
+    expect(createJobSchema.safeParse({ urls: ["https://a.com"], fileData: "AAAA", fileName: "x.csv" }).success).toBe(false);
+  });
+
+  it("should build a CSV the input parser can read back", () => {
+    const csv = urlListToCsv([
+      "https://acme.com",
+      { websiteUrl: "https://beta.io", companyName: 'Beta "B" Corp', description: "Seed fund, NYC" },
+    ]);
+    const rows = XLSX.utils.sheet_to_json<Record<string, string>>(
+      XLSX.read(csv, { type: "string" }).Sheets.Sheet1,
+      { defval: "" },
+    );
+    expect(rows).toEqual([
+      { "Company Name": "", "Website URL": "https://acme.com", "Description": "" },
+      { "Company Name": 'Beta "B" Corp', "Website URL": "https://beta.io", "Description": "Seed fund, NYC" },
+    ]);
+  });
+
+  it("should run the VC pipeline when no sections are given", () => {
+    expect(resolveJobSections({ template: "vc" })).toEqual({});
+  });
+
+  it("should resolve named templates and accept sections as a string or array", () => {
+    const b2b = resolveJobSections({ template: "b2b" });
+    expect(JSON.parse(b2b.sectionsJson!).length).toBeGreaterThan(0);
+    expect(b2b.systemPrompt).toContain("B2B");
+
+    const sections = [{ key: "aum", label: "AUM", desc: "Assets under management", type: "number", unit: "USD" }];
+    const fromArray = resolveJobSections({ template: "custom", sectionsJson: sections, systemPrompt: "Extract." });
+    const fromString = resolveJobSections({ template: "custom", sectionsJson: JSON.stringify(sections), systemPrompt: "Extract." });
+    expect(fromArray).toEqual(fromString);
+    expect(JSON.parse(fromArray.sectionsJson!)).toEqual(sections);
+  });
+
+  it("should reject unknown templates and malformed sections", () => {
+    expect(() => resolveJobSections({ template: "nope" })).toThrow(TRPCError);
+    expect(() => resolveJobSections({ template: "custom", sectionsJson: "{not json" })).toThrow(/not valid JSON/);
+    expect(() => resolveJobSections({ template: "custom", sectionsJson: [] })).toThrow(/Invalid sectionsJson/);
+  });
+});
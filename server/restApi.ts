@@ -0,0 +1,417 @@
+/**
+ * Public REST API (/api/v1)
+ *
+ * A small surface for scripts that can't hold a browser session. Authenticated with
+ * API keys (see apiKeys.ts) instead of the session cookie used by tRPC.
+ *
+ *   POST /api/v1/jobs                      submit a URL list, file (base64) or shared sheet URL with a template or custom sections
+ *   GET  /api/v1/jobs                      list your jobs
+ *   GET  /api/v1/jobs/:id                  job status and progress
+ *   GET  /api/v1/jobs/:id/results          paginated results (?tab=firms|team|portfolio&page=1&search=)
+ *   GET  /api/v1/jobs/:id/download         results file (?format=xlsx|csv|jsonl|parquet; csv = a ZIP of per-entity CSVs for
+ *                                          firm enrichment jobs (firms, team, portfolio…) and the results CSV for
+ *                                          custom-extraction jobs, &zip=false / &zip=true to choose, &bom=true for Excel;
+ *                                          jsonl / parquet = ZIP of typed tables + schema.json, see ANALYTICS_EXPORT.md;
+ *                                          &layout=inPlace with xlsx / csv = your input file with the results appended)
+ *   POST /api/v1/jobs/:id/cancel           cancel a pending, processing or paused job
+ *   POST /api/v1/jobs/:id/pause            pause a pending or processing job (finished work is kept)
+ *   POST /api/v1/jobs/:id/resume           resume a paused job, optionally raising caps (body: { budgetUSD?, monthlyBudgetUSD? })
+ *
+ * Errors use the same shape as the global API error handler: { error: { message, code } }.
+ * Jobs are queued exactly like confirmAndStart — the worker picks them up.
+ */
+
+import { Router, type Express, type NextFunction, type Request, type Response } from "express";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { and, eq, or } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import { enrichmentJobs, type EnrichmentJob, type User } from "../drizzle/schema";
+import { authenticateApiKey, extractApiKey } from "./apiKeys";
+import { estimateEnrichmentCost } from "./costEstimation";
+import { getDb } from "./db";
+import { createEnrichmentJob, getEnrichmentJob, getUserEnrichmentJobs } from "./enrichmentDb";
+import { parseInputExcel } from "./excelProcessor";
+import { buildInPlaceResultsFile, buildResultsFile, getAgentResultsPage, getVcResultsPage } from "./jobResults";
+import { resumePausedJob } from "./budgets";
+import { countReusableFirms } from "./resultReuse";
+import { pauseJob } from "./resumeJob";
+import { sanitizeSectionType } from "./sectionTypes";
+import { snapshotSheet, SheetSourceError } from "./sheetSource";
+import { writeBackAvailability } from "./sheetWriteBack";
+import { storagePut } from "./storage";
+import { snapshotTierRules } from "./tierRules";
+import { emitJobEvent } from "./webhooks";
+import type { AgentSection } from "./agentScraper";
+// Template sections/prompts are plain data shared with the Dashboard
+import { TEMPLATE_SECTIONS, TEMPLATE_SYSTEM_PROMPTS } from "../shared/templates";
+
+const MAX_FIRMS_PER_JOB = 10000;
+
+const columnMappingSchema = z.object({
+  companyNameColumn: z.string().optional(),
+  websiteUrlColumn: z.string(),
+  descriptionColumn: z.string().optional(),
+});
+
+const sectionSchema = z.object({
+  key: z.string().min(1).max(40),
+  label: z.string().min(1),
+  desc: z.string(),
+  type: z.string().optional(),
+  unit: z.string().optional(),
+  options: z.array(z.string()).optional(),
+});
+
+const urlEntrySchema = z.union([
+  z.string().min(1),
+  z.object({
+    websiteUrl: z.string().min(1),
+    companyName: z.string().optional(),
+    description: z.string().optional(),
+  }),
+]);
+export type UrlEntry = z.infer<typeof urlEntrySchema>;
+
+export const createJobSchema = z.object({
+  urls: z.array(urlEntrySchema).min(1).max(MAX_FIRMS_PER_JOB).optional(),
+  fileData: z.string().optional(), // base64 encoded .xlsx / .csv
+  fileName: z.string().optional(),
+  // Shared Google Sheets / XLSX / CSV link (see sheetSource.ts); sheetWriteBack adds the results as a new tab
+  sheetUrl: z.string().url().optional(),
+  sheetWriteBack: z.boolean().default(false),
+  columnMapping: columnMappingSchema.optional(),
+  template: z.string().default("vc"),
+  // Custom sections: a JSON string (as stored on the job) or the array itself
+  sectionsJson: z.union([z.string(), z.array(sectionSchema)]).optional(),
+  systemPrompt: z.string().optional(),
+  objective: z.string().optional(),
+  tierFilter: z.enum(["tier1", "tier1-2", "all"]).default("all"),
+  deepTeamProfileScraping: z.boolean().default(true),
+  maxTeamProfiles: z.number().int().min(1).max(1000).default(200),
+  // VC template: enrich every firm instead of copying fresh results from earlier jobs
+  forceRefresh: z.boolean().default(false),
+  budgetUSD: z.number().positive().optional(),
+}).refine((b) => [!!b.urls, !!(b.fileData && b.fileName), !!b.sheetUrl].filter(Boolean).length === 1, {
+  message: "Provide one of urls, fileData+fileName or sheetUrl",
+});
+export type CreateJobBody = z.infer<typeof createJobSchema>;
+
+const resultsQuerySchema = z.object({
+  tab: z.enum(["firms", "team", "portfolio"]).default("firms"),
+  page: z.coerce.number().int().min(1).default(1),
+  search: z.string().optional(),
+});
+
+const downloadQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx", "jsonl", "parquet"]).default("xlsx"),
+  bom: z.enum(["true", "false"]).optional(),
+  zip: z.enum(["true", "false"]).optional(),
+  layout: z.enum(["standard", "inPlace"]).default("standard"),
+}).refine((q) => q.layout === "standard" || q.format === "xlsx" || q.format === "csv", {
+  message: "layout=inPlace is only available for xlsx and csv",
+});
+
+const resumeBodySchema = z.object({
+  budgetUSD: z.number().positive().nullable().optional(),
+  monthlyBudgetUSD: z.number().positive().nullable().optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Request helpers
+// ---------------------------------------------------------------------------
+
+function csvCell(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Turn a submitted URL list into the same CSV layout the upload flow produces
+ */
+export function urlListToCsv(entries: UrlEntry[]): string {
+  const lines = ["Company Name,Website URL,Description"];
+  for (const entry of entries) {
+    const e = typeof entry === "string" ? { websiteUrl: entry } : entry;
+    lines.push([e.companyName ?? "", e.websiteUrl, e.description ?? ""].map((v) => csvCell(v.trim())).join(","));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Resolve the extraction config: explicit sections win, otherwise a named agent template.
+ * "vc" (no sections) runs the built-in VC enrichment.
+ */
+export function resolveJobSections(body: Pick<CreateJobBody, "template" | "sectionsJson" | "systemPrompt" | "objective">): {
+  sectionsJson?: string;
+  systemPrompt?: string;
+  objective?: string;
+} {
+  let sections: AgentSection[] | undefined;
+  if (body.sectionsJson !== undefined) {
+    let raw: unknown = body.sectionsJson;
+    if (typeof raw === "string") {
+      try {
+        raw = JSON.parse(raw);
+      } catch {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "sectionsJson is not valid JSON" });
+      }
+    }
+    const parsed = z.array(sectionSchema).min(1).safeParse(raw);
+    if (!parsed.success) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: `Invalid sectionsJson: ${parsed.error.issues[0]?.message}` });
+    }
+    sections = parsed.data as AgentSection[];
+  } else if (body.template !== "vc") {
+    sections = TEMPLATE_SECTIONS[body.template];
+    if (!sections) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: `Unknown template "${body.template}" — provide sectionsJson` });
+    }
+  }
+
+  if (!sections) return {};
+  return {
+    sectionsJson: JSON.stringify(sections.map(sanitizeSectionType)),
+    systemPrompt: body.systemPrompt ?? TEMPLATE_SYSTEM_PROMPTS[body.template],
+    objective: body.objective,
+  };
+}
+
+function serializeJob(job: EnrichmentJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    template: job.template,
+    mode: job.sectionsJson ? "agent" : "vc",
+    firmCount: job.firmCount ?? 0,
+    processedCount: job.processedCount ?? 0,
+    currentFirmName: job.currentFirmName,
+    estimatedCostUSD: job.estimatedCostUSD,
+    forceRefresh: job.forceRefresh,
+    totalCostUSD: job.totalCostUSD,
+    budgetUSD: job.budgetUSD,
+    pausedReason: job.pausedReason,
+    errorMessage: job.errorMessage,
+    sourceSheetUrl: job.sourceSheetUrl,
+    sheetWriteBackStatus: job.sheetWriteBackStatus,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+  };
+}
+
+function sendError(res: Response, status: number, code: string, message: string) {
+  res.status(status).json({ error: { message, code } });
+}
+
+/**
+ * Wrap a handler so thrown TRPCErrors / validation errors become JSON error responses
+ */
+function handle(fn: (req: Request, res: Response, user: User) => Promise<void>) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await fn(req, res, res.locals.apiUser as User);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        const issue = err.issues[0];
+        sendError(res, 400, "BAD_REQUEST", issue ? `${issue.path.join(".") || "body"}: ${issue.message}` : "Invalid request");
+      } else if (err instanceof TRPCError) {
+        sendError(res, getHTTPStatusCodeFromError(err), err.code, err.message);
+      } else {
+        next(err);
+      }
+    }
+  };
+}
+
+async function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  const key = extractApiKey(req.headers);
+  if (!key) {
+    sendError(res, 401, "UNAUTHORIZED", "Missing API key — send `Authorization: Bearer <key>` or `X-API-Key: <key>`");
+    return;
+  }
+  try {
+    const user = await authenticateApiKey(key);
+    if (!user) {
+      sendError(res, 401, "UNAUTHORIZED", "Invalid or revoked API key");
+      return;
+    }
+    res.locals.apiUser = user;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+async function getOwnedJob(req: Request, user: User): Promise<EnrichmentJob> {
+  const jobId = Number(req.params.id);
+  const job = Number.isInteger(jobId) ? await getEnrichmentJob(jobId) : undefined;
+  if (!job || job.userId !== user.id) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+  }
+  return job;
+}
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+export function registerRestApi(app: Express) {
+  const api = Router();
+  api.use(requireApiKey);
+
+  api.post("/jobs", handle(async (req, res, user) => {
+    const body = createJobSchema.parse(req.body ?? {});
+    const extraction = resolveJobSections(body);
+
+    if (body.sheetWriteBack) {
+      const writeBack = body.sheetUrl ? writeBackAvailability(body.sheetUrl) : { available: false, reason: "sheetWriteBack needs sheetUrl" };
+      if (!writeBack.available) throw new TRPCError({ code: "BAD_REQUEST", message: `Can't write results back: ${writeBack.reason}` });
+    }
+
+    let fileUrl: string;
+    let fileKey: string;
+    if (body.sheetUrl) {
+      try {
+        ({ fileUrl, fileKey } = await snapshotSheet(user.id, body.sheetUrl));
+      } catch (err) {
+        if (err instanceof SheetSourceError) throw new TRPCError({ code: "BAD_REQUEST", message: err.message });
+        throw err;
+      }
+    } else {
+      let buffer: Buffer;
+      let fileName: string;
+      if (body.urls) {
+        buffer = Buffer.from(urlListToCsv(body.urls), "utf-8");
+        fileName = "api-urls.csv";
+      } else {
+        buffer = Buffer.from(body.fileData!, "base64");
+        fileName = body.fileName!;
+      }
+
+      fileKey = `enrichment/${user.id}/${nanoid()}-${fileName}`;
+      const mimeType = fileName.toLowerCase().endsWith(".csv")
+        ? "text/csv"
+        : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+      ({ url: fileUrl } = await storagePut(fileKey, buffer, mimeType));
+    }
+
+    let firms;
+    try {
+      firms = await parseInputExcel(fileUrl, body.columnMapping);
+    } catch (err) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: err instanceof Error ? err.message : "Could not parse input — check columnMapping",
+      });
+    }
+    if (firms.length === 0) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "No rows with a website URL found in the input" });
+    }
+    if (firms.length > MAX_FIRMS_PER_JOB) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Too many firms (${firms.length}). Maximum: ${MAX_FIRMS_PER_JOB}. Split into smaller batches.`,
+      });
+    }
+
+    const avgDescLength = firms.reduce((sum, f) => sum + (f.description?.length ?? 0), 0) / firms.length;
+    const reusedFirmCount = body.forceRefresh || extraction.sectionsJson
+      ? 0
+      : (await countReusableFirms(user.id, firms, body.deepTeamProfileScraping))[body.tierFilter];
+    const estimate = estimateEnrichmentCost(firms.length, avgDescLength, reusedFirmCount);
+
+    const jobId = await createEnrichmentJob({
+      userId: user.id,
+      status: "pending",
+      inputFileUrl: fileUrl,
+      inputFileKey: fileKey,
+      firmCount: firms.length,
+      tierFilter: body.tierFilter,
+      deepTeamProfileScraping: body.deepTeamProfileScraping,
+      maxTeamProfiles: body.maxTeamProfiles,
+      forceRefresh: body.forceRefresh,
+      template: body.template,
+      tierRulesJson: await snapshotTierRules(user.id, body.template),
+      estimatedCostUSD: String(estimate.totalCost),
+      budgetUSD: body.budgetUSD?.toFixed(4),
+      ...extraction,
+      columnMappingJson: body.columnMapping ? JSON.stringify(body.columnMapping) : undefined,
+      sourceSheetUrl: body.sheetUrl,
+      sheetWriteBack: body.sheetWriteBack,
+    });
+    console.log(`[restApi] Job ${jobId} queued by user ${user.id} (${firms.length} firms)`);
+
+    const job = await getEnrichmentJob(jobId);
+    res.status(201).json({ job: job ? serializeJob(job) : { id: jobId, status: "pending" } });
+  }));
+
+  api.get("/jobs", handle(async (_req, res, user) => {
+    const jobs = await getUserEnrichmentJobs(user.id);
+    res.json({ jobs: jobs.map(serializeJob) });
+  }));
+
+  api.get("/jobs/:id", handle(async (req, res, user) => {
+    const job = await getOwnedJob(req, user);
+    res.json({ job: serializeJob(job) });
+  }));
+
+  api.get("/jobs/:id/results", handle(async (req, res, user) => {
+    const job = await getOwnedJob(req, user);
+    const query = resultsQuerySchema.parse(req.query);
+    const page = job.sectionsJson
+      ? await getAgentResultsPage(job, query.page, query.search)
+      : await getVcResultsPage(job.id, query.tab, query.page, query.search);
+    res.json({ jobId: job.id, status: job.status, page: query.page, ...page });
+  }));
+
+  api.get("/jobs/:id/download", handle(async (req, res, user) => {
+    const job = await getOwnedJob(req, user);
+    const { format, bom, zip, layout } = downloadQuerySchema.parse(req.query);
+    const file = layout === "inPlace" && (format === "xlsx" || format === "csv")
+      ? await buildInPlaceResultsFile(job, format, { bom: bom === "true" })
+      // CSV downloads of enrichment jobs stay complete by default: every entity, not just the firms
+      : await buildResultsFile(job, format, false, { bom: bom === "true", zip: zip === undefined ? !job.sectionsJson : zip === "true" });
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.fileName.replace(/"/g, "")}"`);
+    res.send(file.buffer);
+  }));
+
+  api.post("/jobs/:id/cancel", handle(async (req, res, user) => {
+    const job = await getOwnedJob(req, user);
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database connection failed" });
+
+    const result = await db.update(enrichmentJobs)
+      .set({ status: "cancelled", completedAt: new Date() })
+      .where(and(
+        eq(enrichmentJobs.id, job.id),
+        or(eq(enrichmentJobs.status, "pending"), eq(enrichmentJobs.status, "processing"), eq(enrichmentJobs.status, "paused")),
+      ));
+    if (((result as any)[0]?.affectedRows ?? 0) === 0) {
+      throw new TRPCError({ code: "CONFLICT", message: `Job is already ${job.status}` });
+    }
+    emitJobEvent(job, "job.cancelled");
+    res.json({ success: true });
+  }));
+
+  api.post("/jobs/:id/pause", handle(async (req, res, user) => {
+    const job = await getOwnedJob(req, user);
+    if (!(await pauseJob(job))) {
+      throw new TRPCError({ code: "CONFLICT", message: `Job is already ${job.status}` });
+    }
+    const updated = await getEnrichmentJob(job.id);
+    res.json({ job: serializeJob(updated ?? job) });
+  }));
+
+  api.post("/jobs/:id/resume", handle(async (req, res, user) => {
+    const job = await getOwnedJob(req, user);
+    await resumePausedJob(job, resumeBodySchema.parse(req.body ?? {}));
+    const updated = await getEnrichmentJob(job.id);
+    res.json({ job: serializeJob(updated ?? job) });
+  }));
+
+  api.use((_req, res) => sendError(res, 404, "NOT_FOUND", "Unknown API route"));
+
+  app.use("/api/v1", api);
+}
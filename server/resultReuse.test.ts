@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import type { EnrichedFirm, PortfolioCompany, TeamMember } from "../drizzle/schema";
+import { estimateEnrichmentCost } from "./costEstimation";
+import { pickReusableFirms, savedFirmToResult, settingsCover, type ReuseCandidate } from "./resultReuse";
+
+function candidate(firmRowId: number, domain: string, extra: Partial<ReuseCandidate> = {}): ReuseCandidate {
+  return {
+    firmRowId, jobId: 1, userId: 7, domain, createdAt: new Date("2026-10-01T00:00:00Z"),
+    tierFilter: "all", deepTeamProfileScraping: true, ...extra,
+  };
+}
+
+describe("settingsCover", () => {
+  it("should need team coverage at least as wide and deep scraping when asked for", () => {
+    expect(settingsCover({ tierFilter: "all", deepTeamProfileScraping: true }, { tierFilter: "tier1", deepTeamProfileScraping: false })).toBe(true);
+    expect(settingsCover({ tierFilter: "tier1-2", deepTeamProfileScraping: true }, { tierFilter: "all", deepTeamProfileScraping: true })).toBe(false);
+    expect(settingsCover({ tierFilter: "all", deepTeamProfileScraping: false }, { tierFilter: "all", deepTeamProfileScraping: true })).toBe(false);
+  });
+});
+
+describe("pickReusableFirms", () => {
+  const firms = [
+    { companyName: "Acme Ventures", websiteUrl: "https://www.acme.vc/", description: "" },
+    { companyName: "Beta Capital", websiteUrl: "beta.com", description: "" },
+    { companyName: "New Fund", websiteUrl: "https://newfund.io", description: "" },
+  ];
+
+  it("should take the newest candidate whose settings cover the job, matched by domain", () => {
+    const candidates = [
+      candidate(30, "acme.vc", { tierFilter: "tier1" }),
+      candidate(20, "acme.vc"),
+      candidate(10, "acme.vc"),
+      candidate(5, "beta.com", { deepTeamProfileScraping: false }),
+    ];
+    const target = { userId: 7, tierFilter: "all" as const, deepTeamProfileScraping: true };
+    expect(Array.from(pickReusableFirms(firms, candidates, target))).toEqual([[0, 20]]);
+    expect(Array.from(pickReusableFirms(firms, candidates, { userId: 7, tierFilter: "tier1", deepTeamProfileScraping: false }))).toEqual([[0, 30], [1, 5]]);
+  });
+
+  it("should never reuse a firm from another user's job", () => {
+    const candidates = [candidate(40, "acme.vc", { userId: 8, jobId: 2 }), candidate(20, "acme.vc"), candidate(5, "beta.com", { userId: 8, jobId: 2 })];
+    const target = { userId: 7, tierFilter: "all" as const, deepTeamProfileScraping: false };
+    expect(Array.from(pickReusableFirms(firms, candidates, target))).toEqual([[0, 20]]);
+    expect(pickReusableFirms(firms, candidates, { ...target, userId: 9 }).size).toBe(0);
+  });
+});
+
+describe("savedFirmToResult", () => {
+  const firm = {
+    id: 7, jobId: 1, companyName: "Acme (old name)", websiteUrl: "https://acme.vc", description: "old",
+    websiteVerified: "Yes", verificationMessage: "ok", investorType: "Venture Capital, Corporate VC", investorTypeConfidence: 90,
+    investorTypeSourceUrl: "https://acme.vc/about", investmentStages: "Seed", investmentStagesConfidence: 60,
+    investmentStagesSourceUrl: null, investmentNiches: null, nichesConfidence: null, nichesSourceUrl: null,
+    investmentThesis: null, aum: "$500M", sectorFocus: '["Fintech"]', geographicFocus: null, foundedYear: "2015",
+    headquarters: null, firmEntityId: 3, reusedFromFirmId: null, createdAt: new Date(),
+  } as EnrichedFirm;
+  const member = { id: 1, name: "Jane Doe", title: "Partner", confidenceScore: 80, linkedinUrl: null } as TeamMember;
+  const company = { id: 1, portfolioCompany: "Widgets", investmentNiche: "SaaS, AI", confidenceScore: null, investmentDate: "2024" } as PortfolioCompany;
+
+  it("should rebuild the result under the new job's name with lists split back out", () => {
+    const result = savedFirmToResult(firm, [member], [company], { companyName: "Acme Ventures", websiteUrl: "acme.vc", description: "new" });
+    expect(result).toMatchObject({
+      companyName: "Acme Ventures",
+      websiteUrl: "https://acme.vc",
+      description: "new",
+      websiteVerified: true,
+      investorType: ["Venture Capital", "Corporate VC"],
+      investorTypeConfidence: "High",
+      investmentStagesConfidence: "Medium",
+      investmentNiches: [],
+      firmData: { aum: "$500M", sectorFocus: ["Fintech"], foundedYear: "2015" },
+    });
+    expect(result.nichesConfidence).toBeUndefined();
+    expect(result.teamMembers[0]).toMatchObject({ name: "Jane Doe", title: "Partner", confidenceScore: 80, linkedinUrl: "" });
+    expect(result.portfolioCompanies[0]).toMatchObject({ companyName: "Widgets", investmentNiche: ["SaaS", "AI"], investmentDate: "2024" });
+  });
+});
+
+describe("estimateEnrichmentCost with reuse", () => {
+  it("should only bill firms that are not reused", () => {
+    const full = estimateEnrichmentCost(10);
+    const partial = estimateEnrichmentCost(10, 200, 4);
+    expect(partial.reusedFirmCount).toBe(4);
+    expect(partial.totalCost).toBeCloseTo(full.perFirmCost * 6, 1);
+    expect(estimateEnrichmentCost(10, 200, 25).totalCost).toBe(0);
+  });
+});
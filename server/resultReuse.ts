@@ -0,0 +1,252 @@
+/**
+ * Fresh Result Reuse
+ *
+ * A VC firm another job enriched recently is copied into the new job instead of being scraped
+ * and paid for again:
+ * - Matched by website domain through the entity store (enrichedFirms.firmEntityId)
+ * - Only from the same user's jobs — results (emails, LinkedIn URLs) are never shared across users
+ * - Fresh = saved within REUSE_FRESHNESS_DAYS (default 30; 0 turns reuse off)
+ * - Only verified, originally enriched rows (never a copy of a copy, so freshness can't roll over),
+ *   from jobs whose settings cover the new job's — team coverage at least as wide, deep profile
+ *   scraping if the new job asks for it
+ * - job.forceRefresh enriches everything; scheduled runs always set it since they exist to detect changes
+ *
+ * The copy goes through saveFirmImmediately like a fresh result (tier filter, lease, entity
+ * linking) and records the source row in enrichedFirms.reusedFromFirmId.
+ */
+
+import { and, eq, gte, inArray, isNull, ne } from "drizzle-orm";
+import {
+  enrichedFirms,
+  enrichmentJobs,
+  firmEntities,
+  portfolioCompanies,
+  teamMembers,
+  type EnrichedFirm,
+  type EnrichmentJob,
+  type PortfolioCompany,
+  type TeamMember,
+} from "../drizzle/schema";
+import { getDb } from "./db";
+import { normalizeDomain } from "./crawlPolicy";
+import type { VCFirmInput } from "./excelProcessor";
+import type { EnrichmentResult } from "./vcEnrichment";
+import type { EmailPattern, EmailVerification } from "./emailInference";
+
+export const REUSE_FRESHNESS_DAYS = Number(process.env.REUSE_FRESHNESS_DAYS ?? "30");
+
+export type TierFilter = EnrichmentJob["tierFilter"];
+
+export const TIER_FILTERS: TierFilter[] = ["tier1", "tier1-2", "all"];
+
+/** Wider team coverage saves a superset of the team members */
+const TIER_COVERAGE: Record<TierFilter, number> = { tier1: 1, "tier1-2": 2, all: 3 };
+
+export interface ReuseSettings {
+  tierFilter: TierFilter;
+  deepTeamProfileScraping: boolean;
+}
+
+/** The job results would be copied into */
+export interface ReuseTarget extends ReuseSettings {
+  userId: number;
+}
+
+export interface ReuseCandidate extends ReuseSettings {
+  firmRowId: number;
+  jobId: number;
+  /** Owner of the job the row was saved by */
+  userId: number;
+  domain: string;
+  createdAt: Date;
+}
+
+/**
+ * Whether results saved with `source` settings hold everything a job with `target` settings would save
+ */
+export function settingsCover(source: ReuseSettings, target: ReuseSettings): boolean {
+  return TIER_COVERAGE[source.tierFilter] >= TIER_COVERAGE[target.tierFilter]
+    && (source.deepTeamProfileScraping || !target.deepTeamProfileScraping);
+}
+
+/**
+ * Input firm index → enrichedFirms row to copy. Candidates are newest first; the first one whose
+ * settings cover the target wins.
+ */
+export function pickReusableFirms(firms: VCFirmInput[], candidates: ReuseCandidate[], target: ReuseTarget): Map<number, number> {
+  const byDomain = new Map<string, number>();
+  for (const candidate of candidates) {
+    if (candidate.userId !== target.userId) continue;
+    if (!byDomain.has(candidate.domain) && settingsCover(candidate, target)) byDomain.set(candidate.domain, candidate.firmRowId);
+  }
+
+  const picks = new Map<number, number>();
+  firms.forEach((firm, index) => {
+    const domain = normalizeDomain(firm.websiteUrl);
+    const firmRowId = domain ? byDomain.get(domain) : undefined;
+    if (firmRowId !== undefined) picks.set(index, firmRowId);
+  });
+  return picks;
+}
+
+/**
+ * Fresh reusable rows of the user's jobs for the firms' domains, newest first
+ */
+export async function findReuseCandidates(
+  userId: number,
+  firms: VCFirmInput[],
+  options: { excludeJobId?: number; freshnessDays?: number } = {},
+): Promise<ReuseCandidate[]> {
+  const freshnessDays = options.freshnessDays ?? REUSE_FRESHNESS_DAYS;
+  const domains = Array.from(new Set(firms.map((f) => normalizeDomain(f.websiteUrl)).filter((d): d is string => !!d)));
+  if (freshnessDays <= 0 || domains.length === 0) return [];
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const cutoff = new Date(Date.now() - freshnessDays * 24 * 60 * 60 * 1000);
+  const candidates: ReuseCandidate[] = [];
+  const CHUNK = 1000;
+  for (let i = 0; i < domains.length; i += CHUNK) {
+    const rows = await db.select({
+      firmRowId: enrichedFirms.id,
+      jobId: enrichedFirms.jobId,
+      userId: enrichmentJobs.userId,
+      domain: firmEntities.domain,
+      createdAt: enrichedFirms.createdAt,
+      tierFilter: enrichmentJobs.tierFilter,
+      deepTeamProfileScraping: enrichmentJobs.deepTeamProfileScraping,
+    })
+      .from(enrichedFirms)
+      .innerJoin(firmEntities, eq(enrichedFirms.firmEntityId, firmEntities.id))
+      .innerJoin(enrichmentJobs, eq(enrichedFirms.jobId, enrichmentJobs.id))
+      .where(and(
+        eq(enrichmentJobs.userId, userId),
+        inArray(firmEntities.domain, domains.slice(i, i + CHUNK)),
+        gte(enrichedFirms.createdAt, cutoff),
+        eq(enrichedFirms.websiteVerified, "Yes"),
+        isNull(enrichedFirms.reusedFromFirmId),
+        options.excludeJobId === undefined ? undefined : ne(enrichedFirms.jobId, options.excludeJobId),
+      ));
+    candidates.push(...rows);
+  }
+  return candidates.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.firmRowId - a.firmRowId);
+}
+
+/**
+ * How many of the firms a new job of the user would reuse, per team coverage setting (for the upload preview)
+ */
+export async function countReusableFirms(userId: number, firms: VCFirmInput[], deepTeamProfileScraping = true): Promise<Record<TierFilter, number>> {
+  const candidates = await findReuseCandidates(userId, firms);
+  const counts = {} as Record<TierFilter, number>;
+  for (const tierFilter of TIER_FILTERS) {
+    counts[tierFilter] = pickReusableFirms(firms, candidates, { userId, tierFilter, deepTeamProfileScraping }).size;
+  }
+  return counts;
+}
+
+/**
+ * Firms of a VC job to copy instead of enrich (empty for forced refreshes and agent jobs)
+ */
+export async function planJobReuse(job: EnrichmentJob, firms: VCFirmInput[]): Promise<Map<number, number>> {
+  if (job.forceRefresh || job.sectionsJson) return new Map();
+  const candidates = await findReuseCandidates(job.userId, firms, { excludeJobId: job.id });
+  return pickReusableFirms(firms, candidates, { userId: job.userId, tierFilter: job.tierFilter, deepTeamProfileScraping: job.deepTeamProfileScraping });
+}
+
+// saveFirmImmediately turns "High" / "Medium" / "Low" back into 90 / 60 / 30 and keeps member and
+// company scores only when numeric — a missing score goes in as undefined so it stays null
+const confidenceLabel = (score: number | null) =>
+  score === null ? undefined : score >= 90 ? "High" : score >= 60 ? "Medium" : "Low";
+
+const splitList = (value: string | null) => (value ? value.split(",").map((v) => v.trim()).filter(Boolean) : []);
+
+function parseJsonList(value: string | null): string[] | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Rebuild the enrichment result a saved firm was created from, under the new job's name and description
+ */
+export function savedFirmToResult(
+  firm: EnrichedFirm,
+  members: TeamMember[],
+  companies: PortfolioCompany[],
+  input: VCFirmInput,
+): EnrichmentResult {
+  return {
+    companyName: input.companyName,
+    websiteUrl: firm.websiteUrl ?? input.websiteUrl,
+    description: input.description,
+    websiteVerified: firm.websiteVerified === "Yes",
+    verificationMessage: firm.verificationMessage ?? "",
+    investorType: splitList(firm.investorType),
+    investorTypeConfidence: confidenceLabel(firm.investorTypeConfidence),
+    investorTypeSourceUrl: firm.investorTypeSourceUrl ?? "",
+    investmentStages: splitList(firm.investmentStages),
+    investmentStagesConfidence: confidenceLabel(firm.investmentStagesConfidence),
+    investmentStagesSourceUrl: firm.investmentStagesSourceUrl ?? "",
+    investmentNiches: splitList(firm.investmentNiches),
+    nichesConfidence: confidenceLabel(firm.nichesConfidence),
+    nichesSourceUrl: firm.nichesSourceUrl ?? "",
+    teamMembers: members.map((m) => ({
+      name: m.name,
+      title: m.title ?? "",
+      jobFunction: m.jobFunction ?? "",
+      specialization: m.specialization ?? "",
+      linkedinUrl: m.linkedinUrl ?? "",
+      email: m.email ?? "",
+      emailPattern: m.emailPattern as EmailPattern | null,
+      emailConfidence: m.emailConfidence ?? undefined,
+      emailVerification: (m.emailVerification ?? undefined) as EmailVerification | undefined,
+      portfolioCompanies: m.portfolioCompanies ?? "",
+      investmentFocus: m.investmentFocus ?? "",
+      stagePreference: m.stagePreference ?? "",
+      checkSizeRange: m.checkSizeRange ?? "",
+      geographicFocus: m.geographicFocus ?? "",
+      investmentThesis: m.investmentThesis ?? "",
+      notableInvestments: m.notableInvestments ?? "",
+      yearsExperience: m.yearsExperience ?? "",
+      background: m.background ?? "",
+      dataSourceUrl: m.dataSourceUrl ?? "",
+      confidenceScore: m.confidenceScore,
+    })),
+    portfolioCompanies: companies.map((c) => ({
+      companyName: c.portfolioCompany,
+      investmentDate: c.investmentDate ?? "",
+      websiteUrl: c.websiteUrl ?? "",
+      investmentNiche: splitList(c.investmentNiche),
+      dataSourceUrl: c.dataSourceUrl ?? "",
+      confidenceScore: c.confidenceScore,
+    })),
+    firmData: {
+      investmentThesis: firm.investmentThesis ?? undefined,
+      aum: firm.aum ?? undefined,
+      sectorFocus: parseJsonList(firm.sectorFocus),
+      geographicFocus: parseJsonList(firm.geographicFocus),
+      foundedYear: firm.foundedYear ?? undefined,
+      headquarters: firm.headquarters ?? undefined,
+    },
+  };
+}
+
+/**
+ * Load a saved firm with its team and portfolio as an enrichment result for another job.
+ * Null if the row is gone.
+ */
+export async function loadReusableResult(firmRowId: number, input: VCFirmInput): Promise<EnrichmentResult | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [firm] = await db.select().from(enrichedFirms).where(eq(enrichedFirms.id, firmRowId)).limit(1);
+  if (!firm) return null;
+  const members = await db.select().from(teamMembers).where(eq(teamMembers.firmId, firm.id)).orderBy(teamMembers.id);
+  const companies = await db.select().from(portfolioCompanies).where(eq(portfolioCompanies.firmId, firm.id)).orderBy(portfolioCompanies.id);
+  return savedFirmToResult(firm, members, companies, input);
+}
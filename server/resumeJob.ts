@@ -1,9 +1,16 @@
 /**
  * Job Resumption Helper
- * Allows restarting failed jobs from where they left off
+ * Allows pausing jobs and restarting failed / paused jobs from where they left off
+ * (VC jobs skip completed firm work items, agent jobs skip stored URLs — see agentResults.ts)
  */
 
+import { and, eq, or } from "drizzle-orm";
+import { enrichmentJobs, type EnrichmentJob } from "../drizzle/schema";
+import { getDb } from "./db";
 import { getEnrichmentJob, updateEnrichmentJob } from "./enrichmentDb";
+import { emitJobEvent } from "./webhooks";
+
+export const USER_PAUSE_REASON = "Paused by user";
 
 /**
  * Check if a job can be resumed
@@ -43,10 +50,21 @@ export async function canResumeJob(jobId: number): Promise<{
     };
   }
   
+  if (job.status === "paused") {
+    return {
+      canResume: false,
+      reason: job.pausedReason || "Job is paused",
+      processedCount: job.processedCount || 0,
+      totalCount: job.firmCount || 0,
+    };
+  }
+
   const processedCount = job.processedCount || 0;
   const totalCount = job.firmCount || 0;
   
-  if (processedCount >= totalCount) {
+  // Agent jobs grow past firmCount when directory pages are expanded; resuming one that
+  // stopped after its last URL just rebuilds the output from the stored rows
+  if (!job.sectionsJson && processedCount >= totalCount) {
     return {
       canResume: false,
       reason: "All firms already processed",
@@ -72,6 +90,26 @@ export async function prepareJobForResume(jobId: number): Promise<void> {
   });
 }
 
+/**
+ * Pause a pending or processing job. The worker notices within seconds (see worker.ts)
+ * and stops; finished work is kept. Returns false if the job was in another state.
+ */
+export async function pauseJob(job: EnrichmentJob): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.update(enrichmentJobs)
+    .set({ status: "paused", pausedReason: USER_PAUSE_REASON })
+    .where(and(
+      eq(enrichmentJobs.id, job.id),
+      or(eq(enrichmentJobs.status, "pending"), eq(enrichmentJobs.status, "processing")),
+    ));
+  if (((result as any)[0]?.affectedRows ?? 0) === 0) return false;
+
+  emitJobEvent(job, "job.paused", { reason: USER_PAUSE_REASON });
+  return true;
+}
+
 /**
  * Get resume progress information
  */
@@ -1,31 +1,68 @@
 import { COOKIE_NAME } from "../shared/const.js";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router, protectedProcedure } from "./_core/trpc";
+import { adminProcedure, publicProcedure, router, protectedProcedure } from "./_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { storagePut, storageGet } from "./storage";
+import { storageGet, storagePut } from "./storage";
 import { estimateEnrichmentCost } from "./costEstimation";
 import { createEnrichmentJob, getEnrichmentJob, getUserEnrichmentJobs, getAllEnrichmentJobs, updateEnrichmentJob, insertJobLog, getJobLogs } from "./enrichmentDb";
 import { getDb } from "./db";
-import { enrichedFirms, teamMembers, portfolioCompanies, investmentThesis, enrichmentJobs } from "../drizzle/schema";
-import { eq, and, like, count, or, inArray } from "drizzle-orm";
+import { enrichedFirms, investmentThesis, enrichmentJobs, type EnrichmentJob } from "../drizzle/schema";
+import { eq, and, or, inArray } from "drizzle-orm";
 import { isJobCancelled } from "./_core/jobCancellation";
-import { parseInputExcel, parseInputHeaders, createOutputExcel, createAgentOutputExcel, type EnrichedVCData, type TeamMemberData, type PortfolioCompanyData, type ProcessingSummaryData, type FileHeaders } from "./excelProcessor";
-import { scrapeUrl, type AgentSection, type DirectoryEntry as AgentDirectoryEntry, type ScrapeStats } from "./agentScraper";
+import { parseInputExcel, parseInputHeaders, readInputTable, createOutputExcel, createAgentOutputExcel, type VCFirmInput, type FileHeaders } from "./excelProcessor";
+import { analyzeInput, applyPreflightFixes, effectiveColumnMapping, inputTableToCsv, type PreflightFixSummary } from "./inputPreflight";
+import { createWebsiteResolutionJob, parseWebsiteResolutionState } from "./websiteResolutionJob";
+import { scrapeUrl, type AgentSection, type ScrapeStats } from "./agentScraper";
 import { generateInvestmentThesisSummaries } from "./investmentThesisAnalyzer";
-import { generateResultsFile } from "./generateResultsService";
-import { createCSVExport } from "./csvExporter";
 import { updateJobProgressSafely, incrementJobProcessedCountSafely } from "./batchProcessor";
 import { ConnectionKeepAlive } from "./dbConnectionManager";
 import { VCEnrichmentService } from "./vcEnrichment";
-import { getOpenAIStats } from "./_core/openaiLLM";
-import { classifyDecisionMakerTier } from './decisionMakerTiers';
-import { calculateRecencyScore } from './portfolioIntelligence';
-import { canResumeJob, prepareJobForResume, getResumeProgress } from "./resumeJob";
+import { canResumeJob, prepareJobForResume, getResumeProgress, pauseJob } from "./resumeJob";
 import { extractDirectory } from "./directoryExtractor";
 import { nanoid } from "nanoid";
-import { saveFirmImmediately, getProcessedFirms } from "./incrementalSave";
+import { saveFirmImmediately, loadSavedFirmData } from "./incrementalSave";
+import { buildAgentOutput, directoryQueueItems, getAgentResults, planAgentQueue, saveAgentResult, type AgentResultInput } from "./agentResults";
+import { seedFirmWorkItems, leaseNextFirm, finishFirmLease, releaseFirmLease, getFirmWorkSummary, nextCoordinatorStep } from "./firmLeasing";
+import { evaluateBudget, flushJobUsage, getUserBudget, resumePausedJob, setUserMonthlyBudget } from "./budgets";
+import { runWithUserContext } from "./_core/usageContext";
+import { addBlockedDomain, checkCrawlPolicy, CrawlDisallowedError, CRAWL_DISALLOWED_REASON, getCrawlBlocklist, normalizeDomain, removeBlockedDomain } from "./crawlPolicy";
+import { SECTION_TYPES, sanitizeSectionType, normalizeSectionValues } from "./sectionTypes";
+import { detectAgentJobChanges, detectVcJobChanges, getJobChanges, type ChangeRecord } from "./changeDetection";
+import { emitJobEvent, WEBHOOK_EVENTS, createWebhookEndpoint, getUserWebhookEndpoints, getWebhookEndpoint, updateWebhookEndpoint, deleteWebhookEndpoint, getWebhookDeliveries, generateWebhookSecret, sendTestWebhook } from "./webhooks";
+import { buildInPlaceResultsFile, buildResultsFile, getVcResultsPage } from "./jobResults";
+import { createApiKey, getUserApiKeys, revokeApiKey } from "./apiKeys";
+import { CRM_PROVIDERS, CrmApiError, createCrmConnection, deleteCrmConnection, getCrmConnection, getUserCrmConnections, pushJobToCrm, resolveFieldMapping, updateCrmConnection, validateFieldMapping, type CrmProvider } from "./crmPush";
+import { countReusableFirms, loadReusableResult, planJobReuse, REUSE_FRESHNESS_DAYS } from "./resultReuse";
+import { getEntityHistory, getFirmEntity, getFirmEntityPeople, searchFirmEntities } from "./entityStore";
+import { builtInTierRules, createTierRuleSet, deleteTierRuleSet, getTierRuleSet, getUserTierRuleSets, parseTierRuleSet, previewTierRules, resolveTierRules, snapshotTierRules, tierRulesSchema, updateTierRuleSet } from "./tierRules";
+import { snapshotSheet, SheetSourceError } from "./sheetSource";
+import { isPublicUrl } from "./publicHost";
+import { writeBackAvailability } from "./sheetWriteBack";
+import { createScheduleFromJob, deleteJobSchedule, enqueueScheduledRun, getJobSchedule, getUserJobSchedules, nextCronRun, parseCron, updateJobSchedule } from "./schedules";
+
+const cronExpressionSchema = z.string().min(1).max(100).refine(
+  (expr) => { try { parseCron(expr); return true; } catch { return false; } },
+  { message: 'Invalid cron expression (expected 5 fields, e.g. "0 6 1 * *" for 06:00 UTC on the 1st)' },
+);
+
+/** http(s) URL the server will request, on a public host (publicHost.ts) */
+function publicHttpUrlSchema(label: string) {
+  return z.string().url().max(2000)
+    .refine((url) => /^https?:\/\//i.test(url), { message: `${label} must start with http:// or https://` })
+    .refine(isPublicUrl, { message: `${label} must point to a public host, not a private or local address` });
+}
+
+const webhookUrlSchema = publicHttpUrlSchema("Webhook URL");
+
+const crmBaseUrlSchema = publicHttpUrlSchema("CRM base URL");
+
+// Per-template overrides: { [templateId]: { companies?: { crmProperty: resultColumn }, contacts?: {...} } }
+const crmFieldMappingsSchema = z.record(z.string(), z.object({
+  companies: z.record(z.string(), z.string()).optional(),
+  contacts: z.record(z.string(), z.string()).optional(),
+}));
 
 export const appRouter = router({
     // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -50,21 +87,53 @@ export const appRouter = router({
           fileName: z.string().optional(),
           fileUrl: z.string().optional(),   // provided on re-submit with mapping
           fileKey: z.string().optional(),   // provided on re-submit with mapping
+          sheetUrl: z.string().url().optional(), // shared Google Sheets / XLSX / CSV link, snapshotted on first submit (sheetSource.ts)
           columnMapping: z.object({
             companyNameColumn: z.string().optional(),
             websiteUrlColumn: z.string(),
             descriptionColumn: z.string().optional(),
           }).optional(),
+          // Accepted pre-flight fixes (inputPreflight.ts) — the cleaned file replaces fileUrl/fileKey.
+          // Website lookups are queued as a background job (status "resolving"), see websiteResolutionJob.ts
+          fixes: z.object({
+            normalizeUrls: z.boolean().optional(),
+            mergeDuplicates: z.boolean().optional(),
+            clearInvalidUrls: z.boolean().optional(),
+            resolveMissingWebsites: z.boolean().optional(),
+          }).optional(),
+          // Continue with the cleaned file of a completed website resolution job
+          resolutionJobId: z.number().optional(),
         }),
       )
       .mutation(async ({ ctx, input }) => {
         let fileUrl: string;
         let fileKey: string;
+        let fixesApplied: PreflightFixSummary | undefined;
 
-        if (input.fileUrl && input.fileKey) {
+        if (input.resolutionJobId) {
+          // Website lookups finished in the background — pick up their cleaned file
+          const job = await getEnrichmentJob(input.resolutionJobId);
+          if (!job || job.userId !== ctx.user.id || job.kind !== "website_resolution") {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Website lookup not found" });
+          }
+          if (job.status !== "completed" || !job.outputFileKey) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: `Website lookup is ${job.status}` });
+          }
+          fileKey = job.outputFileKey;
+          ({ url: fileUrl } = await storageGet(fileKey));
+          fixesApplied = parseWebsiteResolutionState(job).summary;
+        } else if (input.fileUrl && input.fileKey) {
           // Re-submit with column mapping — file already uploaded
           fileUrl = input.fileUrl;
           fileKey = input.fileKey;
+        } else if (input.sheetUrl) {
+          // Shared spreadsheet — store a snapshot so the job always reads the same rows
+          try {
+            ({ fileUrl, fileKey } = await snapshotSheet(ctx.user.id, input.sheetUrl));
+          } catch (err) {
+            if (err instanceof SheetSourceError) throw new TRPCError({ code: "BAD_REQUEST", message: err.message });
+            throw err;
+          }
         } else if (input.fileData && input.fileName) {
           // First upload — decode and store
           const buffer = Buffer.from(input.fileData, "base64");
@@ -75,11 +144,31 @@ export const appRouter = router({
           const result = await storagePut(fileKey, buffer, mimeType);
           fileUrl = result.url;
         } else {
-          throw new TRPCError({ code: "BAD_REQUEST", message: "Provide either fileData+fileName or fileUrl+fileKey" });
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Provide fileData+fileName, sheetUrl or fileUrl+fileKey" });
         }
 
         // Always get headers for the edit column mapping link
-        const headers = await parseInputHeaders(fileUrl);
+        let headers = await parseInputHeaders(fileUrl);
+
+        // Shared-sheet source and whether results can be written back to it
+        const sheet = input.sheetUrl ? { url: input.sheetUrl, writeBack: writeBackAvailability(input.sheetUrl) } : undefined;
+
+        // Accepted pre-flight fixes: store a cleaned copy of the file (same columns) and continue with it
+        if (input.fixes) {
+          const mapping = effectiveColumnMapping(input.columnMapping, headers.autoDetected);
+          if (!mapping) throw new TRPCError({ code: "BAD_REQUEST", message: "Map the website column before applying fixes" });
+          if (input.fixes.resolveMissingWebsites) {
+            // Lookups fetch pages and call the LLM per row — the worker runs them as a job the client polls
+            const resolutionJobId = await createWebsiteResolutionJob(ctx.user.id, { fileUrl, fileKey, columnMapping: mapping, fixes: input.fixes });
+            return { status: "resolving" as const, resolutionJobId, fileUrl, fileKey, headers, sheet };
+          }
+          // No lookups on this path: websites are only ever resolved by a website resolution job
+          const { table, summary } = await applyPreflightFixes(await readInputTable(fileUrl), mapping, input.fixes, async () => null);
+          fileKey = `enrichment/${ctx.user.id}/${nanoid()}-cleaned.csv`;
+          ({ url: fileUrl } = await storagePut(fileKey, inputTableToCsv(table), "text/csv"));
+          headers = await parseInputHeaders(fileUrl);
+          fixesApplied = summary;
+        }
 
         // Try parsing — with explicit mapping or auto-detect
         try {
@@ -96,7 +185,17 @@ export const appRouter = router({
           const avgDescLength = firms.length > 0
             ? firms.reduce((sum, f) => sum + (f.description?.length ?? 0), 0) / firms.length
             : 200;
-          const costEstimate = estimateEnrichmentCost(firms.length, avgDescLength);
+
+          // Firms with fresh results from earlier jobs, per team coverage (reuse needs results at least as wide)
+          const reusableFirms = await countReusableFirms(ctx.user.id, firms).catch((err) => {
+            console.error("[uploadAndPreview] Could not count reusable firms:", err);
+            return { tier1: 0, "tier1-2": 0, all: 0 };
+          });
+          // Estimated at the default settings: full team, reuse on (VC template)
+          const costEstimate = estimateEnrichmentCost(firms.length, avgDescLength, reusableFirms.all);
+
+          // Duplicate domains, social links, malformed or missing URLs — fixed on request (see fixes)
+          const preflight = analyzeInput(await readInputTable(fileUrl), effectiveColumnMapping(input.columnMapping, headers.autoDetected));
 
           return {
             status: "ready" as const,
@@ -109,8 +208,13 @@ export const appRouter = router({
               totalCostLow: costEstimate.totalCostLow,
               totalCostHigh: costEstimate.totalCostHigh,
               perFirmCost: costEstimate.perFirmCost,
+              reusedFirmCount: costEstimate.reusedFirmCount,
               estimatedDuration: costEstimate.estimatedDuration,
             },
+            reuse: { freshnessDays: REUSE_FRESHNESS_DAYS, reusableFirms },
+            sheet,
+            preflight,
+            fixesApplied,
             preview: firms.slice(0, 5).map((f) => ({
               companyName: f.companyName,
               websiteUrl: f.websiteUrl,
@@ -126,6 +230,7 @@ export const appRouter = router({
             fileUrl,
             fileKey,
             headers,
+            sheet,
             mappingError: input.columnMapping ? mappingError : undefined,
           };
         }
@@ -188,6 +293,25 @@ export const appRouter = router({
         };
       }),
 
+    // Re-estimate once template, team coverage and force refresh are chosen (reusedFirmCount from uploadAndPreview's reuse)
+    estimateCost: protectedProcedure
+      .input(z.object({
+        firmCount: z.number().int().min(0),
+        avgDescriptionLength: z.number().optional().default(200),
+        reusedFirmCount: z.number().int().min(0).optional().default(0),
+      }))
+      .query(({ input }) => {
+        const estimate = estimateEnrichmentCost(input.firmCount, input.avgDescriptionLength, input.reusedFirmCount);
+        return {
+          totalCost: estimate.totalCost,
+          totalCostLow: estimate.totalCostLow,
+          totalCostHigh: estimate.totalCostHigh,
+          perFirmCost: estimate.perFirmCost,
+          reusedFirmCount: estimate.reusedFirmCount,
+          estimatedDuration: estimate.estimatedDuration,
+        };
+      }),
+
     // Confirm and start enrichment
     confirmAndStart: protectedProcedure
       .input(
@@ -200,6 +324,15 @@ export const appRouter = router({
           maxTeamProfiles: z.number().optional().default(200),
           template: z.string().optional().default("vc"),
           avgDescriptionLength: z.number().optional().default(200),
+          // VC template: enrich every firm instead of copying fresh results from earlier jobs (resultReuse.ts)
+          forceRefresh: z.boolean().optional().default(false),
+          // Firms expected to be reused, from uploadAndPreview — only affects the stored estimate
+          reusedFirmCount: z.number().int().min(0).optional().default(0),
+          // Spend cap for this job — it is paused when reached (see budgets.ts)
+          budgetUSD: z.number().positive().optional(),
+          // Shared sheet the file was snapshotted from; sheetWriteBack adds the results to it as a new tab
+          sourceSheetUrl: z.string().url().optional(),
+          sheetWriteBack: z.boolean().optional().default(false),
           // Agentic extraction fields
           sectionsJson: z.string().optional(),
           systemPrompt: z.string().optional(),
@@ -213,9 +346,15 @@ export const appRouter = router({
         }),
       )
       .mutation(async ({ ctx, input }) => {
+        if (input.sheetWriteBack) {
+          const writeBack = input.sourceSheetUrl ? writeBackAvailability(input.sourceSheetUrl) : { available: false, reason: "No source sheet" };
+          if (!writeBack.available) throw new TRPCError({ code: "BAD_REQUEST", message: `Can't write results back: ${writeBack.reason}` });
+        }
+
         // Compute cost estimate (using description length for accuracy)
         const avgDescLen = input.avgDescriptionLength ?? 200;
-        const estimate = estimateEnrichmentCost(input.firmCount, avgDescLen);
+        const reusesResults = !input.forceRefresh && !input.sectionsJson;
+        const estimate = estimateEnrichmentCost(input.firmCount, avgDescLen, reusesResults ? input.reusedFirmCount : 0);
 
         // Create job
         const jobId = await createEnrichmentJob({
@@ -229,10 +368,15 @@ export const appRouter = router({
           maxTeamProfiles: input.maxTeamProfiles || 200,
           template: input.template || "vc",
           estimatedCostUSD: String(estimate.totalCost),
+          budgetUSD: input.budgetUSD?.toFixed(4),
+          forceRefresh: input.forceRefresh,
+          tierRulesJson: await snapshotTierRules(ctx.user.id, input.template),
           sectionsJson: input.sectionsJson,
           systemPrompt: input.systemPrompt,
           objective: input.objective,
           columnMappingJson: input.columnMapping ? JSON.stringify(input.columnMapping) : undefined,
+          sourceSheetUrl: input.sourceSheetUrl,
+          sheetWriteBack: input.sheetWriteBack,
         });
 
         // Job will be picked up by worker.ts via polling (within 5 seconds)
@@ -257,11 +401,16 @@ Rules for sections:
 - Each section key: snake_case, max 40 chars
 - Each section label: 2-4 words, suitable as a CSV column header
 - Each section desc: 1-2 sentence research instruction
+- Each section type: one of text, number, date, enum, list, url, email, boolean
+  - number: counts or amounts (set unit, e.g. "USD" or "employees"); date: founding dates, deadlines
+  - enum: a fixed set of categories (list them in options); list: multiple items (e.g. sectors)
+  - url/email: a single link or address; boolean: yes/no questions; text: anything else
+- unit is "" unless type is number; options is [] unless type is enum
 
 Return ONLY valid JSON (no markdown, no code fences):
 {
   "objective": "one concise sentence describing what to find",
-  "sections": [{"key":"snake_case_key","label":"Display Name","desc":"Research instruction"}],
+  "sections": [{"key":"snake_case_key","label":"Display Name","desc":"Research instruction","type":"text","unit":"","options":[]}],
   "systemPrompt": "Complete extraction prompt. Start with 'You are a [role]. Extract the following fields from the provided page content:' followed by numbered **Bold** sections with instructions. Include {companyName} and {websiteUrl} as placeholders."
 }`;
 
@@ -288,8 +437,11 @@ Return ONLY valid JSON (no markdown, no code fences):
                           key: { type: "string" },
                           label: { type: "string" },
                           desc: { type: "string" },
+                          type: { type: "string", enum: [...SECTION_TYPES] },
+                          unit: { type: "string" },
+                          options: { type: "array", items: { type: "string" } },
                         },
-                        required: ["key", "label", "desc"],
+                        required: ["key", "label", "desc", "type", "unit", "options"],
                         additionalProperties: false,
                       },
                     },
@@ -308,13 +460,16 @@ Return ONLY valid JSON (no markdown, no code fences):
           // Validate + clean sections
           const sections: AgentSection[] = (parsed.sections ?? [])
             .slice(0, 15)
-            .map((s: any) => ({
+            .map((s: any) => sanitizeSectionType({
               key: String(s.key ?? "")
                 .toLowerCase()
                 .replace(/[^a-z0-9_]/g, "_")
                 .slice(0, 40),
               label: String(s.label ?? "Section"),
               desc: String(s.desc ?? ""),
+              type: s.type,
+              unit: typeof s.unit === "string" ? s.unit : undefined,
+              options: Array.isArray(s.options) ? s.options : undefined,
             }))
             .filter((s: AgentSection) => s.key && s.label);
 
@@ -370,7 +525,16 @@ Return ONLY valid JSON (no markdown, no code fences):
         return await getJobLogs(input.jobId);
       }),
 
-    // Resume a failed job
+    // Changes vs the previous run (scheduled jobs only)
+    getJobChanges: protectedProcedure
+      .input(z.object({ jobId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const job = await getEnrichmentJob(input.jobId);
+        if (!job || job.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND" });
+        return await getJobChanges(input.jobId);
+      }),
+
+    // Resume a failed, cancelled or paused job — the worker continues where it stopped
     resumeJob: protectedProcedure
       .input(z.object({ jobId: z.number() }))
       .mutation(async ({ ctx, input }) => {
@@ -379,6 +543,11 @@ Return ONLY valid JSON (no markdown, no code fences):
           throw new Error("Job not found");
         }
 
+        if (job.status === "paused") {
+          await resumePausedJob(job, {});
+          return { message: "Job resumed successfully", ...(await getResumeProgress(input.jobId)) };
+        }
+
         const resumeCheck = await canResumeJob(input.jobId);
         if (!resumeCheck.canResume) {
           throw new TRPCError({
@@ -387,14 +556,10 @@ Return ONLY valid JSON (no markdown, no code fences):
           });
         }
 
-        // Prepare job for resume
+        // Back to pending — worker.ts picks it up and routes it to the VC or agent processor,
+        // which skip the firms / URLs already stored
         await prepareJobForResume(input.jobId);
 
-        // Restart processing
-        processEnrichmentJob(input.jobId).catch((error) => {
-          console.error(`Error resuming job ${input.jobId}:`, error);
-        });
-
         const progress = await getResumeProgress(input.jobId);
         return {
           message: "Job resumed successfully",
@@ -402,11 +567,12 @@ Return ONLY valid JSON (no markdown, no code fences):
         };
       }),
 
-    // Generate results file on-demand
+    // Generate results file on-demand (layout "inPlace": the input file with results appended)
     generateResults: protectedProcedure
       .input(z.object({ 
         jobId: z.number(),
         forceRegenerate: z.boolean().optional().default(false),
+        layout: z.enum(["standard", "inPlace"]).optional().default("standard"),
       }))
       .mutation(async ({ ctx, input }) => {
         const job = await getEnrichmentJob(input.jobId);
@@ -417,40 +583,14 @@ Return ONLY valid JSON (no markdown, no code fences):
           });
         }
 
-        // Agent jobs (AI Custom extraction): results are stored in S3, not in enrichedFirms
-        if (job.sectionsJson && job.outputFileKey) {
-          const { url } = await storageGet(job.outputFileKey);
-          const response = await fetch(url);
-          if (!response.ok) {
-            throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Results file not available in storage" });
-          }
-          const buffer = Buffer.from(await response.arrayBuffer());
-          return {
-            success: true,
-            fileData: buffer.toString("base64"),
-            fileName: `agent-results-${input.jobId}.xlsx`,
-            firmCount: job.processedCount ?? 0,
-            teamMemberCount: 0,
-          };
-        }
-
-        if (job.status !== "completed" && job.processedCount === 0) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Job has not processed any firms yet",
-          });
-        }
-
-        // Standard jobs: generate from enrichedFirms table
-        const result = await generateResultsFile({
-          jobId: input.jobId,
-          forceRegenerate: input.forceRegenerate,
-        });
+        const result = input.layout === "inPlace"
+          ? await buildInPlaceResultsFile(job, "xlsx")
+          : await buildResultsFile(job, "xlsx", input.forceRegenerate);
 
         // Return file as base64 for download
         return {
-          success: result.success,
-          fileData: result.fileBuffer.toString('base64'),
+          success: true,
+          fileData: result.buffer.toString("base64"),
           fileName: result.fileName,
           firmCount: result.firmCount,
           teamMemberCount: result.teamMemberCount,
@@ -471,89 +611,78 @@ Return ONLY valid JSON (no markdown, no code fences):
           throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
         }
 
-        const db = await getDb();
-        if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database connection failed" });
+        return await getVcResultsPage(input.jobId, input.tab, input.page, input.search);
+      }),
 
-        const PAGE_SIZE = 50;
-        const offset = (input.page - 1) * PAGE_SIZE;
-        const searchTerm = input.search ? `%${input.search}%` : null;
-
-        if (input.tab === "firms") {
-          const whereClause = searchTerm
-            ? and(eq(enrichedFirms.jobId, input.jobId), like(enrichedFirms.companyName, searchTerm))
-            : eq(enrichedFirms.jobId, input.jobId);
-          const [rows, totalRows] = await Promise.all([
-            db.select().from(enrichedFirms).where(whereClause).limit(PAGE_SIZE).offset(offset),
-            db.select({ total: count() }).from(enrichedFirms).where(whereClause),
-          ]);
-          return { rows, total: totalRows[0]?.total ?? 0, pages: Math.ceil((totalRows[0]?.total ?? 0) / PAGE_SIZE) };
+    // Export job results as the main entity's CSV, with zip a ZIP of per-entity CSVs (bom: prefix
+    // each file for Excel), or with layout "inPlace" as one CSV in the input file's layout
+    exportCSV: protectedProcedure
+      .input(z.object({ jobId: z.number(), bom: z.boolean().optional(), zip: z.boolean().optional(), layout: z.enum(["standard", "inPlace"]).optional().default("standard") }))
+      .mutation(async ({ ctx, input }) => {
+        const job = await getEnrichmentJob(input.jobId);
+        if (!job || job.userId !== ctx.user.id) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
         }
 
-        if (input.tab === "team") {
-          const whereClause = searchTerm
-            ? and(eq(teamMembers.jobId, input.jobId), like(teamMembers.name, searchTerm))
-            : eq(teamMembers.jobId, input.jobId);
-          const [rows, totalRows] = await Promise.all([
-            db.select().from(teamMembers).where(whereClause).limit(PAGE_SIZE).offset(offset),
-            db.select({ total: count() }).from(teamMembers).where(whereClause),
-          ]);
-          return { rows, total: totalRows[0]?.total ?? 0, pages: Math.ceil((totalRows[0]?.total ?? 0) / PAGE_SIZE) };
-        }
+        const result = input.layout === "inPlace"
+          ? await buildInPlaceResultsFile(job, "csv", { bom: input.bom })
+          : await buildResultsFile(job, "csv", false, { bom: input.bom, zip: input.zip });
 
-        // portfolio tab
-        const whereClause = searchTerm
-          ? and(eq(portfolioCompanies.jobId, input.jobId), like(portfolioCompanies.portfolioCompany, searchTerm))
-          : eq(portfolioCompanies.jobId, input.jobId);
-        const [rows, totalRows] = await Promise.all([
-          db.select().from(portfolioCompanies).where(whereClause).limit(PAGE_SIZE).offset(offset),
-          db.select({ total: count() }).from(portfolioCompanies).where(whereClause),
-        ]);
-        return { rows, total: totalRows[0]?.total ?? 0, pages: Math.ceil((totalRows[0]?.total ?? 0) / PAGE_SIZE) };
+        return {
+          success: true,
+          fileData: result.buffer.toString("base64"),
+          fileName: result.fileName,
+          firmCount: result.firmCount,
+          teamMemberCount: result.teamMemberCount,
+        };
       }),
 
-    // Export job results as CSV
-    exportCSV: protectedProcedure
-      .input(z.object({ jobId: z.number() }))
+    // Typed JSON Lines / Parquet tables for warehouse loads (see ANALYTICS_EXPORT.md)
+    exportAnalytics: protectedProcedure
+      .input(z.object({ jobId: z.number(), format: z.enum(["jsonl", "parquet"]) }))
       .mutation(async ({ ctx, input }) => {
         const job = await getEnrichmentJob(input.jobId);
         if (!job || job.userId !== ctx.user.id) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
         }
 
-        if (job.status !== "completed" && job.processedCount === 0) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Job has not processed any firms yet",
-          });
-        }
+        const result = await buildResultsFile(job, input.format);
 
-        const db = await getDb();
-        if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database connection failed" });
+        return {
+          success: true,
+          fileData: result.buffer.toString("base64"),
+          fileName: result.fileName,
+          firmCount: result.firmCount,
+          teamMemberCount: result.teamMemberCount,
+        };
+      }),
 
-        // Fetch all enriched data from database
-        const firms = await db.select().from(enrichedFirms).where(eq(enrichedFirms.jobId, input.jobId));
-        const members = await db.select().from(teamMembers).where(eq(teamMembers.jobId, input.jobId));
-        const portfolio = await db.select().from(portfolioCompanies).where(eq(portfolioCompanies.jobId, input.jobId));
-        const thesis = await db.select().from(investmentThesis).where(eq(investmentThesis.jobId, input.jobId));
+    // Stop a job without losing progress; resume with resumeJob / resumePausedJob
+    pauseJob: protectedProcedure
+      .input(z.object({ jobId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const job = await getEnrichmentJob(input.jobId);
+        if (!job || job.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
 
-        if (firms.length === 0) {
-          throw new TRPCError({ code: "BAD_REQUEST", message: "No enriched firms found for this job" });
+        if (!(await pauseJob(job))) {
+          throw new TRPCError({ code: "CONFLICT", message: `Job is already ${job.status}` });
         }
+        return { success: true };
+      }),
 
-        const { buffer, filename } = await createCSVExport(
-          firms as any,
-          members as any,
-          portfolio as any,
-          thesis as any,
-        );
+    // Resume a job paused over budget, raising the job and/or monthly cap first (null removes a cap)
+    resumePausedJob: protectedProcedure
+      .input(z.object({
+        jobId: z.number(),
+        budgetUSD: z.number().positive().nullable().optional(),
+        monthlyBudgetUSD: z.number().positive().nullable().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const job = await getEnrichmentJob(input.jobId);
+        if (!job || job.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
 
-        return {
-          success: true,
-          fileData: buffer.toString("base64"),
-          fileName: filename,
-          firmCount: firms.length,
-          teamMemberCount: members.length,
-        };
+        await resumePausedJob(job, { budgetUSD: input.budgetUSD, monthlyBudgetUSD: input.monthlyBudgetUSD });
+        return { success: true };
       }),
 
     cancelJob: protectedProcedure
@@ -570,6 +699,7 @@ Return ONLY valid JSON (no markdown, no code fences):
             or(
               eq(enrichmentJobs.status, "pending"),
               eq(enrichmentJobs.status, "processing"),
+              eq(enrichmentJobs.status, "paused"),
             ),
           ));
 
@@ -578,242 +708,449 @@ Return ONLY valid JSON (no markdown, no code fences):
           throw new TRPCError({ code: "NOT_FOUND", message: "Job not found or already completed" });
         }
 
+        // Emitted here rather than from the processors: pending jobs never reach a processor
+        emitJobEvent({ id: input.jobId, userId: ctx.user.id }, "job.cancelled");
+
         return { success: true };
       }),
   }),
-});
 
-// Background job processor
-export async function processEnrichmentJob(jobId: number) {
-  // Start database keep-alive for long-running job
-  const keepAlive = new ConnectionKeepAlive();
-  keepAlive.start();
-  
-  try {
-    await updateEnrichmentJob(jobId, { status: "processing" });
+  // Monthly spend cap across all of the user's jobs
+  budget: router({
+    get: protectedProcedure.query(async ({ ctx }) => {
+      return await getUserBudget(ctx.user.id);
+    }),
 
-    const job = await getEnrichmentJob(jobId);
-    if (!job) throw new Error("Job not found");
+    setMonthly: protectedProcedure
+      .input(z.object({ monthlyBudgetUSD: z.number().positive().nullable() }))
+      .mutation(async ({ ctx, input }) => {
+        await setUserMonthlyBudget(ctx.user.id, input.monthlyBudgetUSD);
+        return { success: true };
+      }),
+  }),
 
-    // Parse input file (with column mapping if user overrode defaults)
-    const columnMapping = job.columnMappingJson ? JSON.parse(job.columnMappingJson) : undefined;
-    const allFirms = await parseInputExcel(job.inputFileUrl, columnMapping);
-    
-    // Get list of already-processed firms from processedFirms table
-    const processedFirmNames = await getProcessedFirms(jobId);
-    console.log(`[Job ${jobId}] Found ${processedFirmNames.length} already-processed firms in database`);
-    
-    // Filter out already-processed firms to enable true resumption
-    const firms = allFirms.filter(firm => !processedFirmNames.includes(firm.companyName));
-    
-    if (processedFirmNames.length > 0) {
-      console.log(`[Job ${jobId}] Resuming job: ${processedFirmNames.length} firms already completed, ${firms.length} remaining`);
-    } else {
-      console.log(`[Job ${jobId}] Starting fresh with ${allFirms.length} firms`);
-    }
+  // Domains that are never crawled, for every job (robots.txt is honoured separately). The list
+  // applies to all users, so only admins change it
+  crawlBlocklist: router({
+    list: protectedProcedure.query(async () => {
+      return await getCrawlBlocklist();
+    }),
 
-    // Initialize enrichment service
-    const enricher = new VCEnrichmentService();
+    add: adminProcedure
+      .input(z.object({ domain: z.string().trim().min(1).max(255), reason: z.string().trim().max(500).optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const domain = normalizeDomain(input.domain);
+        if (!domain) throw new TRPCError({ code: "BAD_REQUEST", message: `"${input.domain}" is not a valid domain` });
+        await addBlockedDomain(ctx.user.id, domain, input.reason || null);
+        return { domain };
+      }),
 
-    const enrichedFirmsData: EnrichedVCData[] = [];
-    const allTeamMembers: TeamMemberData[] = [];
-    const allPortfolioCompanies: PortfolioCompanyData[] = [];
+    remove: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        const removed = await removeBlockedDomain(input.id);
+        if (!removed) throw new TRPCError({ code: "NOT_FOUND", message: "Domain not on the blocklist" });
+        return { success: true };
+      }),
+  }),
 
-    // Concurrent worker queue — processes up to CONCURRENCY firms simultaneously.
-    // Node.js is single-threaded so queue.shift() and Set mutations are race-free.
-    const CONCURRENCY = 50;
-    const firmQueue = [...firms];
-    const activeFirms = new Set<string>();
-    let parallelProcessedCount = 0;
-
-    const processFirm = async (firm: typeof firms[number]) => {
-      const result = await enricher.enrichVCFirm(
-        firm.companyName,
-        firm.websiteUrl,
-        firm.description,
-        undefined,
-        {
-          deepTeamProfileScraping: job.deepTeamProfileScraping !== false,
-          maxTeamProfiles: job.maxTeamProfiles || 200,
-        }
-      );
-
-      // INCREMENTAL SAVE: persist to DB immediately
-      console.log(`[Job ${jobId}] 💾 Saving "${result.companyName}"...`);
-      const firmId = await saveFirmImmediately(jobId, result, job.tierFilter || "all");
-      if (!firmId) {
-        console.error(`[Job ${jobId}] ❌ Failed to save "${result.companyName}"`);
-        return;
-      }
-      console.log(`[Job ${jobId}] ✅ Saved "${result.companyName}" (ID: ${firmId}) with ${result.teamMembers.length} members`);
-
-      // Keep in-memory copies for investment thesis generation
-      if (!enrichedFirmsData.find(f => f.companyName === result.companyName)) {
-        enrichedFirmsData.push({
-          companyName: result.companyName,
-          websiteUrl: result.websiteUrl,
-          description: result.description,
-          websiteVerified: result.websiteVerified ? "Yes" : "No",
-          verificationMessage: result.verificationMessage,
-          investorType: result.investorType.join(", "),
-          investorTypeConfidence: result.investorTypeConfidence,
-          investorTypeSourceUrl: result.investorTypeSourceUrl,
-          investmentStages: result.investmentStages.join(", "),
-          investmentStagesConfidence: result.investmentStagesConfidence,
-          investmentStagesSourceUrl: result.investmentStagesSourceUrl,
-          investmentNiches: result.investmentNiches.join(", "),
-          nichesConfidence: result.nichesConfidence,
-          nichesSourceUrl: result.nichesSourceUrl,
+  // Cross-job entity store (entityStore.ts) — it links people from every user's jobs, so only admins browse it
+  entities: router({
+    searchFirms: adminProcedure
+      .input(z.object({ search: z.string().trim().max(255).default(""), limit: z.number().int().min(1).max(200).default(50) }))
+      .query(async ({ input }) => {
+        return await searchFirmEntities(input.search, input.limit);
+      }),
+
+    // Everyone we know at a firm across all jobs; firm by entity ID or by domain/URL
+    firmPeople: adminProcedure
+      .input(z.object({ firmEntityId: z.number().optional(), domain: z.string().trim().min(1).max(255).optional() }))
+      .query(async ({ input }) => {
+        const key = input.firmEntityId ?? input.domain;
+        if (key === undefined) throw new TRPCError({ code: "BAD_REQUEST", message: "firmEntityId or domain is required" });
+        const firm = await getFirmEntity(key);
+        if (!firm) throw new TRPCError({ code: "NOT_FOUND", message: "Firm not found" });
+        return { firm, people: await getFirmEntityPeople(firm.id) };
+      }),
+
+    history: adminProcedure
+      .input(z.object({ entityType: z.enum(["firm", "person"]), entityId: z.number() }))
+      .query(async ({ input }) => {
+        return await getEntityHistory(input.entityType, input.entityId);
+      }),
+  }),
+
+  // API keys for the REST API (/api/v1)
+  apiKeys: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return await getUserApiKeys(ctx.user.id);
+    }),
+
+    // The plaintext key is only returned here — it can't be recovered later
+    create: protectedProcedure
+      .input(z.object({ name: z.string().trim().min(1).max(100) }))
+      .mutation(async ({ ctx, input }) => {
+        return await createApiKey(ctx.user.id, input.name);
+      }),
+
+    revoke: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const revoked = await revokeApiKey(ctx.user.id, input.id);
+        if (!revoked) throw new TRPCError({ code: "NOT_FOUND", message: "API key not found or already revoked" });
+        return { success: true };
+      }),
+  }),
+
+  // Outbound webhooks for job lifecycle events
+  webhooks: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const endpoints = await getUserWebhookEndpoints(ctx.user.id);
+      // The signing secret is only shown in full on create / rotate
+      return endpoints.map((e) => ({ ...e, secret: `${e.secret.slice(0, 10)}…` }));
+    }),
+
+    create: protectedProcedure
+      .input(z.object({
+        url: webhookUrlSchema,
+        events: z.array(z.enum(WEBHOOK_EVENTS)).optional(), // omitted = every event
+        description: z.string().max(255).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        return await createWebhookEndpoint(ctx.user.id, input.url, input.events, input.description);
+      }),
+
+    update: protectedProcedure
+      .input(z.object({
+        endpointId: z.number(),
+        url: webhookUrlSchema.optional(),
+        events: z.array(z.enum(WEBHOOK_EVENTS)).nullable().optional(),
+        description: z.string().max(255).optional(),
+        enabled: z.boolean().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const endpoint = await getWebhookEndpoint(input.endpointId);
+        if (!endpoint || endpoint.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Webhook not found" });
+
+        await updateWebhookEndpoint(endpoint, {
+          ...(input.url !== undefined && { url: input.url }),
+          ...(input.events !== undefined && { events: input.events?.length ? JSON.stringify(input.events) : null }),
+          ...(input.description !== undefined && { description: input.description }),
+          ...(input.enabled !== undefined && { enabled: input.enabled }),
         });
-      }
+        return { success: true };
+      }),
 
-      const tierFilter = job.tierFilter || "all";
-      for (const member of result.teamMembers) {
-        const tierClassification = classifyDecisionMakerTier(member.title);
-        const include =
-          (tierFilter === "tier1" && tierClassification.tier === "Tier 1") ||
-          (tierFilter === "tier1-2" && ["Tier 1", "Tier 2", "Tier 3"].includes(tierClassification.tier)) ||
-          tierFilter === "all";
-        if (include) {
-          allTeamMembers.push({
-            vcFirm: result.companyName,
-            name: member.name,
-            title: member.title,
-            jobFunction: member.jobFunction,
-            specialization: member.specialization,
-            linkedinUrl: member.linkedinUrl,
-            email: member.email || "",
-            portfolioCompanies: member.portfolioCompanies || "",
-            investmentFocus: member.investmentFocus || "",
-            stagePreference: member.stagePreference || "",
-            checkSizeRange: member.checkSizeRange || "",
-            geographicFocus: member.geographicFocus || "",
-            investmentThesis: member.investmentThesis || "",
-            notableInvestments: member.notableInvestments || "",
-            yearsExperience: member.yearsExperience || "",
-            background: member.background || "",
-            dataSourceUrl: member.dataSourceUrl,
-            confidenceScore: member.confidenceScore,
-            decisionMakerTier: tierClassification.tier,
-            tierPriority: tierClassification.priority,
-          });
-        }
-      }
+    delete: protectedProcedure
+      .input(z.object({ endpointId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const endpoint = await getWebhookEndpoint(input.endpointId);
+        if (!endpoint || endpoint.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Webhook not found" });
+        await deleteWebhookEndpoint(endpoint);
+        return { success: true };
+      }),
+
+    rotateSecret: protectedProcedure
+      .input(z.object({ endpointId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const endpoint = await getWebhookEndpoint(input.endpointId);
+        if (!endpoint || endpoint.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Webhook not found" });
+        const secret = generateWebhookSecret();
+        await updateWebhookEndpoint(endpoint, { secret });
+        return { secret };
+      }),
 
-      for (const company of result.portfolioCompanies) {
-        const { score, category } = calculateRecencyScore(company.investmentDate);
-        allPortfolioCompanies.push({
-          vcFirm: result.companyName,
-          portfolioCompany: company.companyName,
-          investmentDate: company.investmentDate,
-          websiteUrl: company.websiteUrl,
-          investmentNiche: company.investmentNiche.join(", "),
-          dataSourceUrl: company.dataSourceUrl,
-          confidenceScore: company.confidenceScore,
-          recencyScore: score,
-          recencyCategory: category,
+    // Send a signed "ping" event and return the delivery outcome
+    test: protectedProcedure
+      .input(z.object({ endpointId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const endpoint = await getWebhookEndpoint(input.endpointId);
+        if (!endpoint || endpoint.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Webhook not found" });
+        return await sendTestWebhook(endpoint);
+      }),
+
+    deliveries: protectedProcedure
+      .input(z.object({ endpointId: z.number(), limit: z.number().min(1).max(500).optional() }))
+      .query(async ({ ctx, input }) => {
+        const endpoint = await getWebhookEndpoint(input.endpointId);
+        if (!endpoint || endpoint.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Webhook not found" });
+        return await getWebhookDeliveries(endpoint.id, input.limit);
+      }),
+  }),
+
+  // Push VC job results into HubSpot / Salesforce (or a mock CRM) as companies + contacts
+  crm: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const connections = await getUserCrmConnections(ctx.user.id);
+      // Tokens are never sent back to the browser
+      return connections.map(({ accessToken, ...c }) => ({ ...c, accessToken: `${accessToken.slice(0, 4)}…` }));
+    }),
+
+    // Mapping a push would use for a template: provider defaults + the connection's overrides
+    fieldMapping: protectedProcedure
+      .input(z.object({ connectionId: z.number(), template: z.string() }))
+      .query(async ({ ctx, input }) => {
+        const connection = await getCrmConnection(input.connectionId);
+        if (!connection || connection.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "CRM connection not found" });
+        return resolveFieldMapping(connection.provider as CrmProvider, connection.fieldMappings, input.template);
+      }),
+
+    create: protectedProcedure
+      .input(z.object({
+        name: z.string().min(1).max(100),
+        provider: z.enum(CRM_PROVIDERS),
+        baseUrl: crmBaseUrlSchema,
+        accessToken: z.string().min(1),
+        fieldMappings: crmFieldMappingsSchema.optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { accessToken, ...connection } = await createCrmConnection(ctx.user.id, input);
+        return connection;
+      }),
+
+    update: protectedProcedure
+      .input(z.object({
+        connectionId: z.number(),
+        name: z.string().min(1).max(100).optional(),
+        baseUrl: crmBaseUrlSchema.optional(),
+        accessToken: z.string().min(1).optional(),
+        fieldMappings: crmFieldMappingsSchema.nullable().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const connection = await getCrmConnection(input.connectionId);
+        if (!connection || connection.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "CRM connection not found" });
+
+        await updateCrmConnection(connection, {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.baseUrl !== undefined && { baseUrl: input.baseUrl }),
+          ...(input.accessToken !== undefined && { accessToken: input.accessToken }),
+          ...(input.fieldMappings !== undefined && { fieldMappings: input.fieldMappings ? JSON.stringify(input.fieldMappings) : null }),
         });
-      }
-    };
+        return { success: true };
+      }),
 
-    const runWorker = async (): Promise<void> => {
-      while (true) {
-        const firm = firmQueue.shift();
-        if (!firm) break;
+    delete: protectedProcedure
+      .input(z.object({ connectionId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const connection = await getCrmConnection(input.connectionId);
+        if (!connection || connection.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "CRM connection not found" });
+        await deleteCrmConnection(connection);
+        return { success: true };
+      }),
 
-        if (isJobCancelled(jobId)) {
-          console.log(`[processEnrichmentJob] Job ${jobId} cancelled — stopping`);
-          firmQueue.length = 0;
-          break;
+    // Upsert a job's firms (companies) and team members (contacts); dryRun reports creates vs updates without writing
+    push: protectedProcedure
+      .input(z.object({ connectionId: z.number(), jobId: z.number(), dryRun: z.boolean().default(false) }))
+      .mutation(async ({ ctx, input }) => {
+        const connection = await getCrmConnection(input.connectionId);
+        if (!connection || connection.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "CRM connection not found" });
+        const job = await getEnrichmentJob(input.jobId);
+        if (!job || job.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+        if (job.sectionsJson) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "CRM push needs firm and team results; AI Custom jobs have neither" });
         }
 
-        activeFirms.add(firm.companyName);
+        const mappingError = validateFieldMapping(resolveFieldMapping(connection.provider as CrmProvider, connection.fieldMappings, job.template ?? "vc"));
+        if (mappingError) throw new TRPCError({ code: "BAD_REQUEST", message: mappingError });
+
         try {
-          await processFirm(firm);
-          parallelProcessedCount++;
-        } catch (err) {
-          parallelProcessedCount++;
-          console.error(`[Job ${jobId}] Error enriching "${firm.companyName}":`, err);
-        } finally {
-          activeFirms.delete(firm.companyName);
-          const activeFirmsList = [...activeFirms];
-          const currentStats = getOpenAIStats();
-          await incrementJobProcessedCountSafely(jobId);
-          await updateJobProgressSafely(jobId, {
-            currentFirmName: activeFirmsList[0] ?? null,
-            currentTeamMemberCount: null,
-            activeFirmsJson: activeFirmsList.length > 0 ? JSON.stringify(activeFirmsList) : null,
-            totalCostUSD:       Math.round((currentStats.totalCost - costBaseline) * 10000) / 10000,
-            totalInputTokens:   currentStats.totalInputTokens  - inputBaseline,
-            totalOutputTokens:  currentStats.totalOutputTokens - outputBaseline,
-          });
-          console.log(`[Job ${jobId}] Progress: ${parallelProcessedCount}/${allFirms.length} (${activeFirms.size} active)`);
+          return await pushJobToCrm(connection, job, { dryRun: input.dryRun });
+        } catch (error) {
+          if (error instanceof CrmApiError) {
+            throw new TRPCError({ code: "BAD_GATEWAY", message: `CRM rejected the push: ${error.message}` });
+          }
+          throw error;
         }
-      }
-    };
+      }),
+  }),
 
-    // Snapshot LLM stats before processing so we can compute job-specific cost delta
-    const statsBaseline = getOpenAIStats();
-    const costBaseline   = statsBaseline.totalCost;
-    const inputBaseline  = statsBaseline.totalInputTokens;
-    const outputBaseline = statsBaseline.totalOutputTokens;
+  // Decision-maker tier rules: user rule sets, each the default for some templates (see tierRules.ts)
+  tierRules: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return (await getUserTierRuleSets(ctx.user.id)).map((row) => parseTierRuleSet(row));
+    }),
 
-    console.log(`[Job ${jobId}] Starting parallel enrichment: ${firms.length} firms, ${CONCURRENCY} concurrent`);
-    await Promise.allSettled(
-      Array.from({ length: Math.min(CONCURRENCY, firms.length) }, runWorker)
-    );
+    // Built-in rules for a template — the starting point for a new rule set
+    builtIn: protectedProcedure
+      .input(z.object({ template: z.string().max(50) }))
+      .query(({ input }) => builtInTierRules(input.template)),
 
-    // Generate investment thesis summaries
-    const investmentThesisSummaries = generateInvestmentThesisSummaries(
-      enrichedFirmsData,
-      allTeamMembers,
-      allPortfolioCompanies
-    );
+    // Rules a new job with this template would use
+    resolve: protectedProcedure
+      .input(z.object({ template: z.string().max(50) }))
+      .query(async ({ ctx, input }) => resolveTierRules(ctx.user.id, input.template)),
+
+    create: protectedProcedure
+      .input(z.object({
+        name: z.string().min(1).max(100),
+        rules: tierRulesSchema,
+        defaultTemplates: z.array(z.string().max(50)).max(20).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        return parseTierRuleSet(await createTierRuleSet(ctx.user.id, input));
+      }),
+
+    update: protectedProcedure
+      .input(z.object({
+        ruleSetId: z.number(),
+        name: z.string().min(1).max(100).optional(),
+        rules: tierRulesSchema.optional(),
+        defaultTemplates: z.array(z.string().max(50)).max(20).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const ruleSet = await getTierRuleSet(input.ruleSetId);
+        if (!ruleSet || ruleSet.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Tier rule set not found" });
+        const { ruleSetId, ...updates } = input;
+        await updateTierRuleSet(ruleSet, updates);
+        return { success: true };
+      }),
 
-    // Generate processing summary
-    const processingSummaryData: ProcessingSummaryData[] = enrichedFirmsData.map(firm => {
-      const firmTeamMembers = allTeamMembers.filter(m => m.vcFirm === firm.companyName);
-      const tier1Count = firmTeamMembers.filter(m => m.decisionMakerTier === "Tier 1").length;
-      const tier2Count = firmTeamMembers.filter(m => m.decisionMakerTier === "Tier 2").length;
-      const tier3Count = firmTeamMembers.filter(m => m.decisionMakerTier === "Tier 3").length;
-      const portfolioCount = allPortfolioCompanies.filter(p => p.vcFirm === firm.companyName).length;
-      
-      // Determine status and error message
-      let status = "Success";
-      let errorMessage = "";
-      let dataCompleteness = "Complete";
-      
-      if (firm.websiteVerified === "No") {
-        status = "Warning";
-        errorMessage = firm.verificationMessage || "Website verification failed";
-        dataCompleteness = "Partial - Website not accessible";
-      } else if (firmTeamMembers.length === 0 && portfolioCount === 0) {
-        status = "Warning";
-        errorMessage = "No team members or portfolio companies found";
-        dataCompleteness = "Minimal";
-      } else if (firmTeamMembers.length === 0) {
-        status = "Warning";
-        errorMessage = "No team members found";
-        dataCompleteness = "Partial - Missing team data";
-      } else if (portfolioCount === 0) {
-        status = "Warning";
-        errorMessage = "No portfolio companies found";
-        dataCompleteness = "Partial - Missing portfolio data";
+    delete: protectedProcedure
+      .input(z.object({ ruleSetId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const ruleSet = await getTierRuleSet(input.ruleSetId);
+        if (!ruleSet || ruleSet.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Tier rule set not found" });
+        await deleteTierRuleSet(ruleSet);
+        return { success: true };
+      }),
+
+    // Classify sample titles with unsaved rules; useLlm sends unmatched titles to the LLM fallback
+    preview: protectedProcedure
+      .input(z.object({
+        rules: tierRulesSchema,
+        titles: z.array(z.string().max(200)).min(1).max(50),
+        template: z.string().max(50).optional(),
+        useLlm: z.boolean().default(false),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.useLlm) {
+          // LLM answers are charged to the user's monthly spend, so they stop at the monthly cap too
+          const { monthlyBudgetUSD, monthSpendUSD } = await getUserBudget(ctx.user.id);
+          const overBudget = evaluateBudget({ jobSpendUSD: 0, jobBudgetUSD: null, monthSpendUSD, monthlyBudgetUSD });
+          if (overBudget) throw new TRPCError({ code: "BAD_REQUEST", message: `${overBudget} — preview without the LLM or raise the cap` });
+        }
+        return runWithUserContext(ctx.user.id, () =>
+          previewTierRules(input.rules, input.titles, { useLlm: input.useLlm, template: input.template }));
+      }),
+  }),
+
+  // Recurring re-enrichment of a saved input file (run by worker.ts)
+  schedules: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return await getUserJobSchedules(ctx.user.id);
+    }),
+
+    // Re-run an existing job's input file + template / sections on a cron schedule
+    createFromJob: protectedProcedure
+      .input(z.object({
+        jobId: z.number(),
+        cronExpression: cronExpressionSchema,
+        name: z.string().max(255).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const job = await getEnrichmentJob(input.jobId);
+        if (!job || job.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+
+        const scheduleId = await createScheduleFromJob(job, input.cronExpression, input.name);
+        return { scheduleId, nextRunAt: nextCronRun(input.cronExpression) };
+      }),
+
+    update: protectedProcedure
+      .input(z.object({
+        scheduleId: z.number(),
+        cronExpression: cronExpressionSchema.optional(),
+        name: z.string().min(1).max(255).optional(),
+        enabled: z.boolean().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const schedule = await getJobSchedule(input.scheduleId);
+        if (!schedule || schedule.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Schedule not found" });
+
+        const cronExpression = input.cronExpression ?? schedule.cronExpression;
+        const enabled = input.enabled ?? schedule.enabled;
+        await updateJobSchedule(schedule.id, {
+          ...(input.name !== undefined && { name: input.name }),
+          cronExpression,
+          enabled,
+          // Recompute on any change so re-enabling never fires a backlog of missed runs
+          nextRunAt: enabled ? nextCronRun(cronExpression) : schedule.nextRunAt,
+        });
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ scheduleId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const schedule = await getJobSchedule(input.scheduleId);
+        if (!schedule || schedule.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Schedule not found" });
+        await deleteJobSchedule(schedule.id);
+        return { success: true };
+      }),
+
+    // Queue a run immediately without changing the regular cadence
+    runNow: protectedProcedure
+      .input(z.object({ scheduleId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const schedule = await getJobSchedule(input.scheduleId);
+        if (!schedule || schedule.userId !== ctx.user.id) throw new TRPCError({ code: "NOT_FOUND", message: "Schedule not found" });
+
+        if (schedule.lastJobId) {
+          const last = await getEnrichmentJob(schedule.lastJobId);
+          if (last && (last.status === "pending" || last.status === "processing")) {
+            throw new TRPCError({ code: "CONFLICT", message: `Job ${last.id} from this schedule is still ${last.status}` });
+          }
+        }
+        const jobId = await enqueueScheduledRun(schedule);
+        return { jobId };
+      }),
+  }),
+});
+
+// Background job processor. The worker that claims the job coordinates it: it seeds the
+// firm-level work items, leases firms alongside any helper workers (assistEnrichmentJob),
+// and writes the job-level results once every firm is done.
+export async function processEnrichmentJob(jobId: number) {
+  // Start database keep-alive for long-running job
+  const keepAlive = new ConnectionKeepAlive();
+  keepAlive.start();
+  
+  try {
+    await updateEnrichmentJob(jobId, { status: "processing" });
+
+    const job = await getEnrichmentJob(jobId);
+    if (!job) throw new Error("Job not found");
+    emitJobEvent(job, "job.processing", { template: job.template, firmCount: job.firmCount, processedCount: job.processedCount });
+
+    // Parse input file (with column mapping if user overrode defaults)
+    const columnMapping = job.columnMappingJson ? JSON.parse(job.columnMappingJson) : undefined;
+    const allFirms = await parseInputExcel(job.inputFileUrl, columnMapping);
+
+    // One work item per firm; completed firms from earlier runs are kept, so this also resumes
+    await seedFirmWorkItems(jobId, allFirms);
+
+    // Lease firms until none are left. While other workers still hold leases, wait:
+    // if one of them dies its firms become leasable again and are picked up here.
+    while (!isJobCancelled(jobId)) {
+      const summary = await getFirmWorkSummary(jobId);
+      const step = nextCoordinatorStep(summary);
+      if (step === "finalize") break;
+      if (step === "lease") {
+        console.log(`[Job ${jobId}] ${summary.pending + summary.expired} firms to lease, ${summary.completed} completed`);
+        await runFirmLeaseLoop(job, allFirms);
+      } else {
+        console.log(`[Job ${jobId}] Waiting for ${summary.leased} firms leased by other workers`);
+        await new Promise(resolve => setTimeout(resolve, 5000));
       }
-      
-      return {
-        firmName: firm.companyName,
-        website: firm.websiteUrl,
-        status,
-        errorMessage,
-        teamMembersFound: firmTeamMembers.length,
-        tier1Count,
-        tier2Count,
-        tier3Count,
-        portfolioCompaniesFound: portfolioCount,
-        dataCompleteness,
-      };
-    });
+    }
+
+    // Generate investment thesis summaries from everything saved for the job
+    // (firms enriched by every worker, including earlier runs before a resume)
+    const saved = await loadSavedFirmData(jobId);
+    const investmentThesisSummaries = generateInvestmentThesisSummaries(
+      saved.firms,
+      saved.teamMembers,
+      saved.portfolioCompanies
+    );
 
     // All firms/team members/portfolio companies were already saved incrementally
     // by saveFirmImmediately() during processing. Only save investment thesis here,
@@ -873,44 +1210,180 @@ export async function processEnrichmentJob(jobId: number) {
     }
 
     console.log(`[processEnrichmentJob] ✅ Investment thesis saved. Job complete.`);
+
+    // Scheduled runs: diff against the previous completed run (shown as a "Changes" sheet on download)
+    if (job.previousJobId && !isJobCancelled(jobId)) {
+      try {
+        await detectVcJobChanges(jobId, job.previousJobId);
+      } catch (err) {
+        console.error(`[processEnrichmentJob] Change detection failed for job ${jobId}:`, err);
+      }
+    }
     
     // Mark job as completed (file generation happens on-demand when user clicks download)
-    console.log(`[processEnrichmentJob] Job ${jobId} completed. Processed ${enrichedFirmsData.length} firms with ${allTeamMembers.length} team members.`);
+    console.log(`[processEnrichmentJob] Job ${jobId} completed. Processed ${saved.firms.length} firms with ${saved.teamMembers.length} team members.`);
     console.log(`[processEnrichmentJob] File will be generated on-demand when user requests download.`);
     
     if (isJobCancelled(jobId)) {
       console.log(`[processEnrichmentJob] Job ${jobId} was cancelled — skipping completed update`);
       return;
     }
-    const finalStats = getOpenAIStats();
+    await flushJobUsage(jobId);
     await updateEnrichmentJob(jobId, {
       status: "completed",
       completedAt: new Date(),
-      totalCostUSD:       String(Math.round((finalStats.totalCost - costBaseline) * 10000) / 10000),
-      totalInputTokens:   finalStats.totalInputTokens  - inputBaseline,
-      totalOutputTokens:  finalStats.totalOutputTokens - outputBaseline,
     });
+    const totalCostUSD = (await getEnrichmentJob(jobId))?.totalCostUSD ?? null;
+    emitJobEvent(job, "job.completed", { template: job.template, firmCount: allFirms.length, totalCostUSD });
   } catch (error) {
     if (isJobCancelled(jobId)) {
       console.log(`[processEnrichmentJob] Job ${jobId} cancelled (caught during shutdown)`);
       return;
     }
     console.error(`Error processing job ${jobId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
     await updateEnrichmentJob(jobId, {
       status: "failed",
-      errorMessage: error instanceof Error ? error.message : String(error),
+      errorMessage,
     });
+    emitJobEvent(jobId, "job.failed", { errorMessage });
   } finally {
     // Stop keep-alive when job completes or fails
     keepAlive.stop();
   }
 }
 
+/**
+ * Help with a VC job another worker is coordinating: lease and enrich firms until none
+ * are left. Job status, thesis and completion stay with the coordinator.
+ */
+export async function assistEnrichmentJob(jobId: number) {
+  const keepAlive = new ConnectionKeepAlive();
+  keepAlive.start();
+
+  try {
+    const job = await getEnrichmentJob(jobId);
+    if (!job || job.status !== "processing") return;
+
+    const columnMapping = job.columnMappingJson ? JSON.parse(job.columnMappingJson) : undefined;
+    const allFirms = await parseInputExcel(job.inputFileUrl, columnMapping);
+    console.log(`[assistEnrichmentJob] Helping with job ${jobId} (${allFirms.length} firms)`);
+    await runFirmLeaseLoop(job, allFirms);
+  } finally {
+    keepAlive.stop();
+  }
+}
+
+/**
+ * Lease firms of a VC job one at a time (up to CONCURRENCY in flight), enrich and save them.
+ * Returns when nothing is leasable or the job is cancelled.
+ */
+async function runFirmLeaseLoop(job: EnrichmentJob, allFirms: VCFirmInput[]) {
+  const jobId = job.id;
+  const enricher = new VCEnrichmentService();
+
+  // Firms enriched recently by another job are copied instead of re-enriched (resultReuse.ts)
+  const reusable = await planJobReuse(job, allFirms).catch((err) => {
+    console.error(`[Job ${jobId}] Could not look up reusable results, enriching every firm:`, err);
+    return new Map<number, number>();
+  });
+  if (reusable.size > 0) console.log(`[Job ${jobId}] ${reusable.size} firms have fresh results from earlier jobs and will be reused`);
+
+  const CONCURRENCY = 50;
+  const activeFirms = new Set<string>();
+  let leasedCount = 0;
+
+  /** Returns false if the job was stopped mid-firm and the firm was handed back unfinished */
+  const processFirm = async (firm: VCFirmInput, firmIndex: number, leaseId: string): Promise<boolean> => {
+    const reusedFromFirmId = reusable.get(firmIndex);
+    const reused = reusedFromFirmId === undefined ? null : await loadReusableResult(reusedFromFirmId, firm);
+    const result = reused ?? await enricher.enrichVCFirm(
+      firm.companyName,
+      firm.websiteUrl,
+      firm.description,
+      undefined,
+      {
+        deepTeamProfileScraping: job.deepTeamProfileScraping !== false,
+        maxTeamProfiles: job.maxTeamProfiles || 200,
+      }
+    );
+
+    // Cancelled or paused over budget: LLM calls were refused part-way, so don't save a partial firm
+    if (isJobCancelled(jobId)) {
+      await releaseFirmLease(leaseId);
+      return false;
+    }
+
+    // INCREMENTAL SAVE: persist to DB immediately (also completes the lease)
+    console.log(`[Job ${jobId}] 💾 Saving "${result.companyName}"${reused ? ` (reused from firm ${reusedFromFirmId})` : ""}...`);
+    const firmId = await saveFirmImmediately(jobId, result, job.tierFilter || "all", leaseId, reused ? reusedFromFirmId : undefined);
+    if (!firmId) {
+      console.error(`[Job ${jobId}] ❌ Failed to save "${result.companyName}"`);
+      return true;
+    }
+    console.log(`[Job ${jobId}] ✅ Saved "${result.companyName}" (ID: ${firmId}) with ${result.teamMembers.length} members`);
+    emitJobEvent(job, "job.firm_completed", {
+      companyName: result.companyName,
+      websiteUrl: result.websiteUrl,
+      teamMembers: result.teamMembers.length,
+      portfolioCompanies: result.portfolioCompanies.length,
+    });
+    return true;
+  };
+
+  const runWorker = async (): Promise<void> => {
+    while (!isJobCancelled(jobId)) {
+      const lease = await leaseNextFirm(jobId);
+      if (!lease) break;
+
+      const firmIndex = lease.item.firmIndex ?? -1;
+      const firm = allFirms[firmIndex];
+      if (!firm) {
+        await finishFirmLease(lease.leaseId, { status: "failed", errorMessage: "Firm not found in input file" });
+        continue;
+      }
+
+      leasedCount++;
+      activeFirms.add(firm.companyName);
+      let finished = true;
+      try {
+        finished = await processFirm(firm, firmIndex, lease.leaseId);
+      } catch (err) {
+        if (isJobCancelled(jobId)) {
+          finished = false;
+          await releaseFirmLease(lease.leaseId).catch(() => {});
+        } else {
+          console.error(`[Job ${jobId}] Error enriching "${firm.companyName}":`, err);
+          await finishFirmLease(lease.leaseId, {
+            status: "failed",
+            errorMessage: err instanceof Error ? err.message : String(err),
+          }).catch(() => {});
+        }
+      } finally {
+        activeFirms.delete(firm.companyName);
+        const activeFirmsList = Array.from(activeFirms);
+        if (finished) await incrementJobProcessedCountSafely(jobId);
+        await updateJobProgressSafely(jobId, {
+          currentFirmName: activeFirmsList[0] ?? null,
+          currentTeamMemberCount: null,
+          activeFirmsJson: activeFirmsList.length > 0 ? JSON.stringify(activeFirmsList) : null,
+        });
+        console.log(`[Job ${jobId}] Leased ${leasedCount} firms in this worker (${activeFirms.size} active)`);
+      }
+    }
+    if (isJobCancelled(jobId)) console.log(`[runFirmLeaseLoop] Job ${jobId} stopped (cancelled or paused)`);
+  };
+
+  console.log(`[Job ${jobId}] Starting parallel enrichment: up to ${CONCURRENCY} firms in flight`);
+  await Promise.allSettled(Array.from({ length: CONCURRENCY }, runWorker));
+}
+
 // ---------------------------------------------------------------------------
 // Error classifier for job logs
 // ---------------------------------------------------------------------------
 
 function classifyAgentError(err: unknown): string {
+  if (err instanceof CrawlDisallowedError) return CRAWL_DISALLOWED_REASON;
   const msg = err instanceof Error ? err.message : String(err);
   const lower = msg.toLowerCase();
   if (lower.includes("403") || lower.includes("blocked") || lower.includes("rate limit") || lower.includes("429")) return "scraper_blocked";
@@ -934,8 +1407,9 @@ export async function processAgentJob(jobId: number) {
     if (!job) throw new Error(`Job ${jobId} not found`);
 
     await updateEnrichmentJob(jobId, { status: "processing", startedAt: new Date() });
+    emitJobEvent(job, "job.processing", { template: job.template, firmCount: job.firmCount, processedCount: job.processedCount });
 
-    const sections: AgentSection[] = JSON.parse(job.sectionsJson ?? "[]");
+    const sections: AgentSection[] = (JSON.parse(job.sectionsJson ?? "[]") as AgentSection[]).map(sanitizeSectionType);
     const systemPrompt = job.systemPrompt ?? "";
     const objective = job.objective ?? "";
 
@@ -943,12 +1417,25 @@ export async function processAgentJob(jobId: number) {
     const firms = await parseInputExcel(job.inputFileUrl, columnMapping);
     console.log(`[processAgentJob] Job ${jobId}: ${firms.length} URLs, ${sections.length} sections`);
 
-    const profileResults: Array<Record<string, string>> = [];
-    const collectedUrls: AgentDirectoryEntry[] = [];
-    let processed = 0;
+    // Every finished URL is stored (agentResults.ts) — on resume, skip those and re-queue
+    // entries of directory pages found by earlier runs
+    const plan = planAgentQueue(firms, await getAgentResults(jobId));
+    if (plan.finishedCount > 0) {
+      console.log(`[processAgentJob] Job ${jobId}: resuming — ${plan.finishedCount} URLs already done, ${plan.queue.length} queued`);
+    }
+    let processed = plan.finishedCount;
+    await updateEnrichmentJob(jobId, { processedCount: processed });
 
     const CONCURRENCY = 50;
-    const firmQueue = [...firms];
+    const firmQueue = plan.queue;
+
+    // Results are persisted per URL. Failed writes are retried once the queue is drained.
+    const unsaved: AgentResultInput[] = [];
+    const persist = (result: AgentResultInput) =>
+      saveAgentResult(jobId, result).catch((err) => {
+        console.error(`[processAgentJob] Failed to store result for ${result.url}:`, err);
+        unsaved.push(result);
+      });
 
     const runWorker = async () => {
       while (firmQueue.length > 0) {
@@ -956,7 +1443,7 @@ export async function processAgentJob(jobId: number) {
         if (!firm) break;
 
         if (isJobCancelled(jobId)) {
-          console.log(`[processAgentJob] Job ${jobId} cancelled — stopping`);
+          console.log(`[processAgentJob] Job ${jobId} stopped (cancelled or paused)`);
           firmQueue.length = 0;
           break;
         }
@@ -971,6 +1458,10 @@ export async function processAgentJob(jobId: number) {
           .replace(/\{websiteUrl\}/g, firm.websiteUrl);
 
         try {
+          // robots.txt / blocklist — skipped URLs get an empty row and are checked again on resume
+          const policy = await checkCrawlPolicy(firm.websiteUrl);
+          if (!policy.allowed) throw new CrawlDisallowedError(firm.websiteUrl, policy.detail);
+
           const result = await scrapeUrl(
             firm.websiteUrl,
             rowObjective,
@@ -981,27 +1472,30 @@ export async function processAgentJob(jobId: number) {
           );
 
           if (result.type === "directory") {
-            collectedUrls.push(...result.entries);
+            const entries = result.entries.map((entry) => ({ ...entry, objective: rowObjective }));
+            await persist({ kind: "directory", url: firm.websiteUrl, companyName: firm.companyName, entries });
             // Queue each discovered directory entry for individual profile scraping.
             // Without this, entries only appear on a "Collected URLs" sheet and are never
             // enriched with the user's custom sections.
-            for (const entry of result.entries) {
-              const scrapeTarget = entry.nativeUrl || entry.directoryUrl;
-              if (scrapeTarget && scrapeTarget !== firm.websiteUrl) {
-                firmQueue.push({
-                  companyName: entry.name || scrapeTarget,
-                  websiteUrl: scrapeTarget,
-                  description: rowObjective,
-                });
-              }
+            let queued = 0;
+            for (const item of directoryQueueItems(firm.websiteUrl, entries)) {
+              if (plan.known.has(item.websiteUrl)) continue;
+              plan.known.add(item.websiteUrl);
+              firmQueue.push(item);
+              queued++;
             }
-            console.log(`[processAgentJob] Directory expanded: ${result.entries.length} entries queued for scraping`);
+            console.log(`[processAgentJob] Directory expanded: ${queued} of ${result.entries.length} entries queued for scraping`);
             insertJobLog({ jobId, url: firm.websiteUrl, companyName: firm.companyName, status: "success", fieldsTotal: 0, fieldsFilled: 0, durationMs: Date.now() - startMs }).catch(() => {});
+            emitJobEvent(job, "job.firm_completed", { companyName: firm.companyName, websiteUrl: firm.websiteUrl, type: "directory", entriesQueued: result.entries.length });
           } else {
-            profileResults.push({
-              "Company Name": firm.companyName,
-              "Website": firm.websiteUrl,
-              ...result.data,
+            // Coerce typed sections into canonical values; anything that won't coerce is flagged
+            const { data, invalid } = normalizeSectionValues(sections, result.data);
+            await persist({
+              kind: "profile",
+              url: firm.websiteUrl,
+              companyName: firm.companyName,
+              row: { "Company Name": firm.companyName, "Website": firm.websiteUrl, ...data },
+              sources: result.sources,
             });
             const stats: ScrapeStats = result.stats;
             const logStatus = stats.fieldsFilled === 0 ? "failed" : stats.fieldsFilled < stats.fieldsTotal ? "partial" : "success";
@@ -1013,31 +1507,54 @@ export async function processAgentJob(jobId: number) {
               fieldsTotal: stats.fieldsTotal,
               fieldsFilled: stats.fieldsFilled,
               emptyFields: JSON.stringify(stats.emptyFields),
+              ...(invalid.length > 0 && { errorReason: "invalid_values", invalidFields: JSON.stringify(invalid) }),
+              sourcesJson: JSON.stringify(result.sources),
               durationMs: Date.now() - startMs,
             }).catch(() => {});
+            emitJobEvent(job, "job.firm_completed", {
+              companyName: firm.companyName,
+              websiteUrl: firm.websiteUrl,
+              type: "profile",
+              status: logStatus,
+              fieldsFilled: stats.fieldsFilled,
+              fieldsTotal: stats.fieldsTotal,
+              data,
+            });
           }
         } catch (err) {
-          if (err instanceof Error && err.message === 'JOB_CANCELLED') {
+          // Stopped mid-URL (cancelled / paused): nothing is stored, so it is scraped again on resume
+          if (isJobCancelled(jobId) || (err instanceof Error && err.message === 'JOB_CANCELLED')) {
             firmQueue.length = 0;
             break;
           }
-          console.error(`[processAgentJob] Error processing ${firm.websiteUrl}:`, err);
+          const skipped = err instanceof CrawlDisallowedError;
+          if (skipped) {
+            console.log(`[processAgentJob] Skipping ${firm.websiteUrl}: ${err.message}`);
+          } else {
+            console.error(`[processAgentJob] Error processing ${firm.websiteUrl}:`, err);
+          }
           insertJobLog({
             jobId,
             url: firm.websiteUrl,
             companyName: firm.companyName,
-            status: "failed",
+            status: skipped ? "skipped" : "failed",
             errorReason: classifyAgentError(err),
             errorDetail: err instanceof Error ? err.message.slice(0, 500) : String(err).slice(0, 500),
             durationMs: Date.now() - startMs,
           }).catch(() => {});
-          // Add empty row on error so we don't lose the firm from the output
+          emitJobEvent(job, "job.firm_completed", {
+            companyName: firm.companyName,
+            websiteUrl: firm.websiteUrl,
+            status: skipped ? "skipped" : "failed",
+            errorReason: classifyAgentError(err),
+          });
+          // Add empty row on error so we don't lose the firm from the output (retried on resume)
           const emptyRow: Record<string, string> = {
             "Company Name": firm.companyName,
             "Website": firm.websiteUrl,
           };
           for (const s of sections) emptyRow[s.key] = "";
-          profileResults.push(emptyRow);
+          await persist({ kind: "failed", url: firm.websiteUrl, companyName: firm.companyName, row: emptyRow });
         }
 
         processed++;
@@ -1050,11 +1567,33 @@ export async function processAgentJob(jobId: number) {
     };
 
     await Promise.allSettled(
-      Array.from({ length: Math.min(CONCURRENCY, firms.length) }, runWorker),
+      Array.from({ length: Math.min(CONCURRENCY, firmQueue.length) }, runWorker),
     );
 
+    // Paused or cancelled: the stored rows are the partial results — the output is built on completion
+    if (isJobCancelled(jobId)) {
+      console.log(`[processAgentJob] Job ${jobId} stopped — ${processed} URLs stored for resume`);
+      return;
+    }
+
+    for (const result of unsaved) await saveAgentResult(jobId, result);
+
+    // Build the output from every stored row, including rows from runs before a resume
+    const { profileResults, profileSources, collectedUrls } = buildAgentOutput(await getAgentResults(jobId));
+
     // Generate output Excel and upload to S3
-    const excelBuffer = createAgentOutputExcel(sections, profileResults, collectedUrls);
+    // Scheduled runs: diff against the previous completed run
+    let changes: ChangeRecord[] | undefined;
+    if (job.previousJobId) {
+      try {
+        const previousJob = await getEnrichmentJob(job.previousJobId);
+        if (previousJob) changes = await detectAgentJobChanges(jobId, previousJob, sections, profileResults);
+      } catch (err) {
+        console.error(`[processAgentJob] Change detection failed for job ${jobId}:`, err);
+      }
+    }
+
+    const excelBuffer = createAgentOutputExcel(sections, profileResults, collectedUrls, profileSources, changes);
     const outputKey = `enrichment/${job.userId}/${jobId}-results.xlsx`;
     const { url: outputUrl } = await storagePut(
       outputKey,
@@ -1066,6 +1605,7 @@ export async function processAgentJob(jobId: number) {
       console.log(`[processAgentJob] Job ${jobId} was cancelled — skipping completed update`);
       return;
     }
+    await flushJobUsage(jobId);
     await updateEnrichmentJob(jobId, {
       status: "completed",
       outputFileUrl: outputUrl,
@@ -1073,6 +1613,14 @@ export async function processAgentJob(jobId: number) {
       processedCount: processed,
       completedAt: new Date(),
     });
+    emitJobEvent(job, "job.completed", {
+      template: job.template,
+      processedCount: processed,
+      profiles: profileResults.length,
+      directoryEntries: collectedUrls.length,
+      outputFileUrl: outputUrl,
+      ...(changes && { changes: changes.length }),
+    });
 
     console.log(
       `[processAgentJob] ✅ Job ${jobId} complete. ${profileResults.length} profiles + ${collectedUrls.length} directory entries.`,
@@ -1083,10 +1631,12 @@ export async function processAgentJob(jobId: number) {
       return;
     }
     console.error(`[processAgentJob] Job ${jobId} failed:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
     await updateEnrichmentJob(jobId, {
       status: "failed",
-      errorMessage: error instanceof Error ? error.message : String(error),
+      errorMessage,
     });
+    emitJobEvent(jobId, "job.failed", { errorMessage });
   } finally {
     keepAlive.stop();
   }
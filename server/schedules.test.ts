@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { nextCronRun, parseCron } from "./schedules";
+
+const at = (iso: string) => new Date(iso);
+
+describe("nextCronRun", () => {
+  it("should find the next monthly run in UTC", () => {
+    expect(nextCronRun("0 6 1 * *", at("2026-03-15T10:00:00Z")).toISOString()).toBe("2026-04-01T06:00:00.000Z");
+    // Strictly after `from`, even when `from` is exactly a firing time
+    expect(nextCronRun("0 6 1 * *", at("2026-04-01T06:00:00Z")).toISOString()).toBe("2026-05-01T06:00:00.000Z");
+  });
+
+  it("should support steps, ranges and lists", () => {
+    expect(nextCronRun("*/15 * * * *", at("2026-03-15T10:07:30Z")).toISOString()).toBe("2026-03-15T10:15:00.000Z");
+    // Weekdays at 09:30 — Friday evening rolls over to Monday
+    expect(nextCronRun("30 9 * * 1-5", at("2026-03-13T18:00:00Z")).toISOString()).toBe("2026-03-16T09:30:00.000Z");
+    expect(nextCronRun("0 0 1,15 * *", at("2026-03-02T00:00:00Z")).toISOString()).toBe("2026-03-15T00:00:00.000Z");
+  });
+
+  it("should fire when either day field matches if both are restricted", () => {
+    // 1st of the month OR any Sunday; 2026-03-08 is a Sunday
+    expect(nextCronRun("0 0 1 * 0", at("2026-03-02T12:00:00Z")).toISOString()).toBe("2026-03-08T00:00:00.000Z");
+  });
+
+  it("should accept aliases and reject malformed expressions", () => {
+    expect(nextCronRun("@weekly", at("2026-03-11T00:00:00Z")).toISOString()).toBe("2026-03-15T00:00:00.000Z");
+    expect(() => parseCron("0 6 1 *")).toThrow(/5 fields/);
+    expect(() => parseCron("61 * * * *")).toThrow(/minute/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/step/);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Recurring Re-enrichment Schedules
+ *
+ * A schedule stores a job configuration (input file + template / custom sections)
+ * and a 5-field cron expression. worker.ts calls enqueueDueSchedules() on every poll;
+ * each due schedule gets a new pending enrichmentJobs row carrying scheduleId and
+ * previousJobId (the last completed run) so the processors can produce a diff.
+ *
+ * Cron expressions are evaluated in UTC:
+ *   ┌ minute (0-59)  ┌ hour (0-23)  ┌ day of month (1-31)  ┌ month (1-12)  ┌ day of week (0-6, Sun=0)
+ *   "0 6 1 * *" = 06:00 UTC on the 1st of every month
+ * Supports *, lists (1,15), ranges (1-5), steps (0-59/15) and @hourly/@daily/@weekly/@monthly.
+ */
+
+import { and, desc, eq, isNotNull, lte } from "drizzle-orm";
+import { enrichmentJobs, jobSchedules, type EnrichmentJob, type InsertJobSchedule, type JobSchedule } from "../drizzle/schema";
+import { getDb } from "./db";
+import { createEnrichmentJob, getEnrichmentJob } from "./enrichmentDb";
+import { parseInputExcel } from "./excelProcessor";
+import { snapshotSheet } from "./sheetSource";
+import { storageGet } from "./storage";
+import { snapshotTierRules } from "./tierRules";
+
+// ---------------------------------------------------------------------------
+// Cron parsing
+// ---------------------------------------------------------------------------
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Standard cron: when both day fields are restricted, either may match */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const CRON_ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+function parseCronField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepStr] = part.split("/");
+    const step = stepStr === undefined ? 1 : Number(stepStr);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in cron ${name}: "${part}"`);
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [a, b] = range.split("-");
+      start = Number(a);
+      end = b === undefined ? (stepStr === undefined ? start : max) : Number(b);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron ${name}: "${part}" (allowed ${min}-${max})`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression. Throws with a readable message when invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const expr = CRON_ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = expr.split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Cron expression must have 5 fields, got ${fields.length}: "${expression}"`);
+
+  const daysOfWeek = parseCronField(fields[4], 0, 7, "day of week");
+  if (daysOfWeek.has(7)) { daysOfWeek.delete(7); daysOfWeek.add(0); } // 7 is also Sunday
+
+  return {
+    minutes: parseCronField(fields[0], 0, 59, "minute"),
+    hours: parseCronField(fields[1], 0, 23, "hour"),
+    daysOfMonth: parseCronField(fields[2], 1, 31, "day of month"),
+    months: parseCronField(fields[3], 1, 12, "month"),
+    daysOfWeek,
+    domRestricted: fields[2] !== "*",
+    dowRestricted: fields[4] !== "*",
+  };
+}
+
+function dayMatches(cron: CronSchedule, d: Date): boolean {
+  const dom = cron.daysOfMonth.has(d.getUTCDate());
+  const dow = cron.daysOfWeek.has(d.getUTCDay());
+  if (cron.domRestricted && cron.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * Next time (strictly after `from`) the cron expression fires, in UTC
+ */
+export function nextCronRun(expression: string, from: Date = new Date()): Date {
+  const cron = parseCron(expression);
+  const d = new Date(from.getTime());
+  d.setUTCSeconds(0, 0);
+  d.setUTCMinutes(d.getUTCMinutes() + 1);
+
+  // Skip whole months/days/hours at a time; 5 years covers e.g. "0 0 29 2 *"
+  const limit = from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (d.getTime() <= limit) {
+    if (!cron.months.has(d.getUTCMonth() + 1)) {
+      d.setUTCMonth(d.getUTCMonth() + 1, 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(cron, d)) {
+      d.setUTCDate(d.getUTCDate() + 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(d.getUTCHours())) {
+      d.setUTCHours(d.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(d.getUTCMinutes())) {
+      d.setUTCMinutes(d.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+  throw new Error(`Cron expression never fires: "${expression}"`);
+}
+
+// ---------------------------------------------------------------------------
+// Schedule CRUD
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a schedule that re-runs an existing job's configuration.
+ * If the source job completed, it becomes the baseline the first scheduled run is diffed against.
+ */
+export async function createScheduleFromJob(
+  job: EnrichmentJob,
+  cronExpression: string,
+  name?: string,
+): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const schedule: InsertJobSchedule = {
+    userId: job.userId,
+    name: name?.trim() || `Re-run of job #${job.id}`,
+    cronExpression: cronExpression.trim(),
+    inputFileUrl: job.inputFileUrl,
+    inputFileKey: job.inputFileKey,
+    firmCount: job.firmCount,
+    columnMappingJson: job.columnMappingJson,
+    sourceSheetUrl: job.sourceSheetUrl,
+    sheetWriteBack: job.sheetWriteBack,
+    template: job.template,
+    tierFilter: job.tierFilter,
+    deepTeamProfileScraping: job.deepTeamProfileScraping,
+    maxTeamProfiles: job.maxTeamProfiles,
+    estimatedCostUSD: job.estimatedCostUSD,
+    sectionsJson: job.sectionsJson,
+    systemPrompt: job.systemPrompt,
+    objective: job.objective,
+    baselineJobId: job.status === "completed" ? job.id : null,
+    nextRunAt: nextCronRun(cronExpression),
+  };
+  const result = await db.insert(jobSchedules).values(schedule);
+  return Number(result[0].insertId);
+}
+
+export async function getJobSchedule(id: number): Promise<JobSchedule | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(jobSchedules).where(eq(jobSchedules.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getUserJobSchedules(userId: number): Promise<JobSchedule[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(jobSchedules).where(eq(jobSchedules.userId, userId)).orderBy(desc(jobSchedules.createdAt));
+}
+
+export async function updateJobSchedule(id: number, updates: Partial<JobSchedule>): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(jobSchedules).set(updates).where(eq(jobSchedules.id, id));
+}
+
+export async function deleteJobSchedule(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(jobSchedules).where(eq(jobSchedules.id, id));
+}
+
+// ---------------------------------------------------------------------------
+// Running schedules
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the pending job for one run of a schedule. The worker picks it up like any other job.
+ * Schedules of shared-sheet jobs run on a fresh snapshot of the sheet; if it can't be read,
+ * the run uses the schedule's stored input file. The stored file's URL is signed again for every
+ * run — the one saved with the schedule expires after 7 days.
+ */
+export async function enqueueScheduledRun(schedule: JobSchedule): Promise<number> {
+  let input: { inputFileUrl: string; inputFileKey: string; firmCount: number | null } | undefined;
+  if (schedule.sourceSheetUrl) {
+    try {
+      const snapshot = await snapshotSheet(schedule.userId, schedule.sourceSheetUrl);
+      const columnMapping = schedule.columnMappingJson ? JSON.parse(schedule.columnMappingJson) : undefined;
+      const firms = await parseInputExcel(snapshot.fileUrl, columnMapping);
+      input = { inputFileUrl: snapshot.fileUrl, inputFileKey: snapshot.fileKey, firmCount: firms.length };
+    } catch (err) {
+      console.error(`[Schedules] Schedule ${schedule.id}: could not re-read ${schedule.sourceSheetUrl}, using the stored input:`, err instanceof Error ? err.message : err);
+    }
+  }
+  if (!input) {
+    const { url } = await storageGet(schedule.inputFileKey);
+    input = { inputFileUrl: url, inputFileKey: schedule.inputFileKey, firmCount: schedule.firmCount };
+  }
+
+  const jobId = await createEnrichmentJob({
+    userId: schedule.userId,
+    status: "pending",
+    ...input,
+    columnMappingJson: schedule.columnMappingJson,
+    sourceSheetUrl: schedule.sourceSheetUrl,
+    sheetWriteBack: schedule.sheetWriteBack,
+    template: schedule.template,
+    tierRulesJson: await snapshotTierRules(schedule.userId, schedule.template),
+    tierFilter: schedule.tierFilter,
+    deepTeamProfileScraping: schedule.deepTeamProfileScraping,
+    maxTeamProfiles: schedule.maxTeamProfiles,
+    // Runs exist to detect changes, so never copy earlier results (resultReuse.ts)
+    forceRefresh: true,
+    estimatedCostUSD: schedule.estimatedCostUSD,
+    sectionsJson: schedule.sectionsJson,
+    systemPrompt: schedule.systemPrompt,
+    objective: schedule.objective,
+    scheduleId: schedule.id,
+    previousJobId: schedule.baselineJobId,
+  });
+  await updateJobSchedule(schedule.id, { lastJobId: jobId, lastRunAt: new Date() });
+  return jobId;
+}
+
+/**
+ * Enqueue a job for every enabled schedule whose nextRunAt has passed.
+ *
+ * Safe to call from several processes: a schedule is claimed by atomically moving
+ * nextRunAt forward (same pattern as claimJob in worker.ts). A run is skipped — not
+ * queued behind — when the schedule's previous run is still pending or processing.
+ */
+export async function enqueueDueSchedules(now: Date = new Date()): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const due = await db.select().from(jobSchedules)
+    .where(and(
+      eq(jobSchedules.enabled, true),
+      isNotNull(jobSchedules.nextRunAt),
+      lte(jobSchedules.nextRunAt, now),
+    ));
+
+  const queued: number[] = [];
+  for (const schedule of due) {
+    let nextRunAt: Date;
+    try {
+      nextRunAt = nextCronRun(schedule.cronExpression, now);
+    } catch (err) {
+      console.error(`[Schedules] Disabling schedule ${schedule.id}: ${err instanceof Error ? err.message : err}`);
+      await updateJobSchedule(schedule.id, { enabled: false });
+      continue;
+    }
+
+    const result = await db.update(jobSchedules)
+      .set({ nextRunAt })
+      .where(and(eq(jobSchedules.id, schedule.id), eq(jobSchedules.nextRunAt, schedule.nextRunAt!)));
+    const affectedRows = (result as any)[0]?.affectedRows ?? 0;
+    if (affectedRows === 0) continue; // another process claimed this run
+
+    if (schedule.lastJobId) {
+      const previous = await getEnrichmentJob(schedule.lastJobId);
+      if (previous && (previous.status === "pending" || previous.status === "processing")) {
+        console.log(`[Schedules] Schedule ${schedule.id}: job ${previous.id} still ${previous.status} — skipping this run`);
+        continue;
+      }
+    }
+
+    const jobId = await enqueueScheduledRun(schedule);
+    console.log(`[Schedules] Schedule ${schedule.id} ("${schedule.name}") queued job ${jobId}, next run ${nextRunAt.toISOString()}`);
+    queued.push(jobId);
+  }
+  return queued;
+}
+
+/**
+ * After a scheduled job finishes, make it the baseline for the next run if it completed.
+ */
+export async function recordScheduledRunFinished(jobId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  const [job] = await db.select({ scheduleId: enrichmentJobs.scheduleId, status: enrichmentJobs.status })
+    .from(enrichmentJobs)
+    .where(eq(enrichmentJobs.id, jobId))
+    .limit(1);
+  if (!job?.scheduleId || job.status !== "completed") return;
+
+  await updateJobSchedule(job.scheduleId, { baselineJobId: jobId });
+}
@@ -1,65 +1,128 @@
 /**
- * Cache Layer - In-memory caching with TTL
+ * Cache Layer - Two-tier caching with TTL
+ *
+ * L1: bounded in-process LRU map (fast, per-process)
+ * L2: persistent store shared by web server + worker (survives restarts)
+ *
+ * Keys are hashed (SHA-256) before reaching the persistent store.
  */
 
-import { CacheEntry } from "./types";
+import { createHash } from "crypto";
+import { CacheEntry, PersistentCacheStore } from "./types";
+import { MySqlCacheStore } from "./PersistentCacheStore";
+
+const DEFAULT_MEMORY_ENTRIES = 500;
+const DEFAULT_PERSISTENT_MAX_MB = 512;
+
+export interface CacheLayerOptions {
+  /** Max entries kept in the in-process LRU (default: PAGE_CACHE_MEMORY_ENTRIES or 500) */
+  maxMemoryEntries?: number;
+  /** Size cap for the persistent store in bytes (default: PAGE_CACHE_MAX_MB or 512 MB) */
+  maxPersistentBytes?: number;
+}
 
 export class CacheLayer {
   private cache: Map<string, CacheEntry<any>> = new Map();
   private cleanupInterval: NodeJS.Timeout | null = null;
-
-  constructor() {
+  private maxMemoryEntries: number;
+  private maxPersistentBytes: number;
+  private persistentHits = 0;
+  private memoryHits = 0;
+  private misses = 0;
+
+  constructor(
+    private store: PersistentCacheStore | null = null,
+    options: CacheLayerOptions = {},
+  ) {
+    this.maxMemoryEntries = options.maxMemoryEntries
+      ?? (Number(process.env.PAGE_CACHE_MEMORY_ENTRIES) || DEFAULT_MEMORY_ENTRIES);
+    this.maxPersistentBytes = options.maxPersistentBytes
+      ?? (Number(process.env.PAGE_CACHE_MAX_MB) || DEFAULT_PERSISTENT_MAX_MB) * 1024 * 1024;
     this.startCleanupTask();
   }
 
   /**
-   * Get cached value
+   * Hash a logical cache key into the form stored persistently
    */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
+  static hashKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+  }
 
-    const now = Date.now();
-    const age = (now - entry.timestamp) / 1000; // seconds
+  /**
+   * Get cached value (memory first, then persistent store)
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.cache.get(key);
+    if (entry) {
+      if (this.isExpired(entry)) {
+        this.cache.delete(key);
+      } else {
+        // Re-insert to mark as most recently used
+        this.cache.delete(key);
+        this.cache.set(key, entry);
+        this.memoryHits++;
+        return entry.data as T;
+      }
+    }
 
-    if (age > entry.ttl) {
-      // Expired
-      this.cache.delete(key);
-      return null;
+    if (this.store) {
+      try {
+        const stored = await this.store.get(CacheLayer.hashKey(key));
+        if (stored && !this.isExpired(stored)) {
+          this.remember({ ...stored, key });
+          this.persistentHits++;
+          return stored.data as T;
+        }
+      } catch (error) {
+        console.warn(`[CacheLayer] Persistent read failed for ${key}:`, error instanceof Error ? error.message : error);
+      }
     }
 
-    return entry.data as T;
+    this.misses++;
+    return null;
   }
 
   /**
-   * Set cached value
+   * Set cached value in memory and the persistent store
    */
-  set<T>(key: string, data: T, ttl: number): void {
+  async set<T>(key: string, data: T, ttl: number, url?: string): Promise<void> {
     const entry: CacheEntry<T> = {
       key,
       data,
       timestamp: Date.now(),
       ttl,
     };
-    this.cache.set(key, entry);
+    this.remember(entry);
+
+    if (this.store) {
+      try {
+        await this.store.set(CacheLayer.hashKey(key), entry, url);
+      } catch (error) {
+        console.warn(`[CacheLayer] Persistent write failed for ${key}:`, error instanceof Error ? error.message : error);
+      }
+    }
   }
 
   /**
    * Check if key exists and is not expired
    */
-  has(key: string): boolean {
-    return this.get(key) !== null;
+  async has(key: string): Promise<boolean> {
+    return (await this.get(key)) !== null;
   }
 
   /**
-   * Delete cached value
+   * Delete cached value from both tiers
    */
-  delete(key: string): boolean {
-    return this.cache.delete(key);
+  async delete(key: string): Promise<boolean> {
+    const existed = this.cache.delete(key);
+    if (this.store) {
+      await this.store.delete(CacheLayer.hashKey(key)).catch(() => {});
+    }
+    return existed;
   }
 
   /**
-   * Clear all cache
+   * Clear the in-memory tier (the persistent store is shared and left intact)
    */
   clear(): void {
     this.cache.clear();
@@ -78,9 +141,30 @@ export class CacheLayer {
       active: this.cache.size - expired,
       expired,
       memoryUsage: this.estimateMemoryUsage(),
+      memoryHits: this.memoryHits,
+      persistentHits: this.persistentHits,
+      misses: this.misses,
+      persistent: this.store !== null,
     };
   }
 
+  private isExpired(entry: CacheEntry<unknown>): boolean {
+    return (Date.now() - entry.timestamp) / 1000 > entry.ttl;
+  }
+
+  /**
+   * Insert into the in-memory LRU, evicting the least recently used entry when full
+   */
+  private remember(entry: CacheEntry<any>): void {
+    this.cache.delete(entry.key);
+    this.cache.set(entry.key, entry);
+    while (this.cache.size > this.maxMemoryEntries) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.cache.delete(oldestKey);
+    }
+  }
+
   /**
    * Estimate memory usage (rough approximation)
    */
@@ -94,15 +178,13 @@ export class CacheLayer {
   }
 
   /**
-   * Cleanup expired entries
+   * Cleanup expired entries and keep the persistent store under its size cap
    */
-  private cleanup(): void {
-    const now = Date.now();
+  private async cleanup(): Promise<void> {
     let removed = 0;
 
     for (const [key, entry] of Array.from(this.cache.entries())) {
-      const age = (now - entry.timestamp) / 1000;
-      if (age > entry.ttl) {
+      if (this.isExpired(entry)) {
         this.cache.delete(key);
         removed++;
       }
@@ -111,6 +193,17 @@ export class CacheLayer {
     if (removed > 0) {
       console.log(`[CacheLayer] Cleaned up ${removed} expired entries`);
     }
+
+    if (this.store) {
+      try {
+        const evicted = await this.store.evict(this.maxPersistentBytes);
+        if (evicted > 0) {
+          console.log(`[CacheLayer] Evicted ${evicted} persistent entries`);
+        }
+      } catch (error) {
+        console.warn(`[CacheLayer] Persistent eviction failed:`, error instanceof Error ? error.message : error);
+      }
+    }
   }
 
   /**
@@ -139,7 +232,7 @@ let cacheLayer: CacheLayer | null = null;
 
 export function getCacheLayer(): CacheLayer {
   if (!cacheLayer) {
-    cacheLayer = new CacheLayer();
+    cacheLayer = new CacheLayer(new MySqlCacheStore());
   }
   return cacheLayer;
 }
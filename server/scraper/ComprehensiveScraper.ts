@@ -8,6 +8,7 @@ import * as cheerio from "cheerio";
 import { getBrowserPool } from "./BrowserPool";
 import { getRequestManager } from "./RequestManager";
 import { getCacheLayer } from "./CacheLayer";
+import { acquireCrawlPermit } from "../crawlPolicy";
 import {
   ScrapingOptions,
   ScrapingResult,
@@ -28,10 +29,21 @@ export class ComprehensiveScraper {
     const startTime = Date.now();
     const domain = new URL(options.url).hostname;
 
+    // robots.txt, Crawl-delay and the domain blocklist (crawlPolicy.ts)
+    if (!(await acquireCrawlPermit(options.url))) {
+      return {
+        success: false,
+        strategy: ScrapingStrategy.STATIC_HTML,
+        duration: Date.now() - startTime,
+        cached: false,
+        error: "Disallowed by crawl policy",
+      };
+    }
+
     // Check cache first
     if (options.cache !== false) {
       const cacheKey = this.getCacheKey(options);
-      const cached = this.cache.get<ScrapingResult>(cacheKey);
+      const cached = await this.cache.get<ScrapingResult>(cacheKey);
       if (cached) {
         console.log(`[Scraper] Cache hit for ${options.url}`);
         return { ...cached, cached: true };
@@ -70,7 +82,7 @@ export class ComprehensiveScraper {
         if (result.success && options.cache !== false) {
           const cacheKey = this.getCacheKey(options);
           const ttl = options.cacheTTL || 30 * 24 * 60 * 60; // 30 days default
-          this.cache.set(cacheKey, result, ttl);
+          await this.cache.set(cacheKey, result, ttl, options.url);
         }
 
         // Record metrics
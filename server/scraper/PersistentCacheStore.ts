@@ -0,0 +1,110 @@
+/**
+ * Persistent Cache Store - MySQL-backed storage for CacheLayer
+ *
+ * Lives in the shared database so the web server and worker.ts see the same pages,
+ * and survives restarts so resumed / re-run jobs skip Jina and Puppeteer fetches.
+ */
+
+import { eq, lt, asc, inArray, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import { pageCache } from "../../drizzle/schema";
+import type { CacheEntry, PersistentCacheStore } from "./types";
+
+const EVICTION_BATCH = 1000;
+
+export class MySqlCacheStore implements PersistentCacheStore {
+  async get(hashedKey: string): Promise<CacheEntry<unknown> | null> {
+    const db = await getDb();
+    if (!db) return null;
+
+    const rows = await db.select().from(pageCache).where(eq(pageCache.cacheKey, hashedKey)).limit(1);
+    const row = rows[0];
+    if (!row) return null;
+
+    if (row.expiresAt.getTime() <= Date.now()) {
+      await db.delete(pageCache).where(eq(pageCache.id, row.id));
+      return null;
+    }
+
+    // Touch for LRU ordering — not awaited, a stale timestamp only affects eviction order
+    db.update(pageCache)
+      .set({ lastAccessedAt: new Date() })
+      .where(eq(pageCache.id, row.id))
+      .catch(() => {});
+
+    const timestamp = row.createdAt.getTime();
+    return {
+      key: hashedKey,
+      data: JSON.parse(row.data),
+      timestamp,
+      ttl: Math.max(0, (row.expiresAt.getTime() - timestamp) / 1000),
+    };
+  }
+
+  async set(hashedKey: string, entry: CacheEntry<unknown>, url?: string): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+
+    const data = JSON.stringify(entry.data);
+    const now = new Date(entry.timestamp);
+    const values = {
+      cacheKey: hashedKey,
+      url: url ?? null,
+      data,
+      sizeBytes: Buffer.byteLength(data, "utf-8"),
+      expiresAt: new Date(entry.timestamp + entry.ttl * 1000),
+      lastAccessedAt: now,
+      createdAt: now,
+    };
+
+    await db.insert(pageCache).values(values).onDuplicateKeyUpdate({
+      set: {
+        url: values.url,
+        data: values.data,
+        sizeBytes: values.sizeBytes,
+        expiresAt: values.expiresAt,
+        lastAccessedAt: values.lastAccessedAt,
+        createdAt: values.createdAt,
+      },
+    });
+  }
+
+  async delete(hashedKey: string): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+    await db.delete(pageCache).where(eq(pageCache.cacheKey, hashedKey));
+  }
+
+  async evict(maxBytes: number): Promise<number> {
+    const db = await getDb();
+    if (!db) return 0;
+
+    const expired = await db.delete(pageCache).where(lt(pageCache.expiresAt, new Date()));
+    let removed = (expired as any)[0]?.affectedRows ?? 0;
+
+    const [{ totalBytes }] = await db
+      .select({ totalBytes: sql<number>`COALESCE(SUM(${pageCache.sizeBytes}), 0)` })
+      .from(pageCache);
+    let excess = Number(totalBytes) - maxBytes;
+
+    while (excess > 0) {
+      const oldest = await db
+        .select({ id: pageCache.id, sizeBytes: pageCache.sizeBytes })
+        .from(pageCache)
+        .orderBy(asc(pageCache.lastAccessedAt))
+        .limit(EVICTION_BATCH);
+      if (oldest.length === 0) break;
+
+      const ids: number[] = [];
+      for (const row of oldest) {
+        if (excess <= 0) break;
+        ids.push(row.id);
+        excess -= row.sizeBytes;
+      }
+      await db.delete(pageCache).where(inArray(pageCache.id, ids));
+      removed += ids.length;
+    }
+
+    return removed;
+  }
+}
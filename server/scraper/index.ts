@@ -21,17 +21,19 @@ export { ComprehensiveScraper, getScraper } from "./ComprehensiveScraper";
 export { BrowserPool, getBrowserPool, destroyBrowserPool } from "./BrowserPool";
 export { RequestManager, getRequestManager } from "./RequestManager";
 export { CacheLayer, getCacheLayer, destroyCacheLayer } from "./CacheLayer";
+export { MySqlCacheStore } from "./PersistentCacheStore";
 export * from "./types";
 
 import { getScraper } from "./ComprehensiveScraper";
 import type { ScrapingOptions, ScrapingResult } from "./types";
+import { replayFetch } from "../_core/replay";
 
 /**
  * Convenience function to scrape a website
  */
 export async function scrapeWebsite(options: ScrapingOptions): Promise<ScrapingResult> {
   const scraper = getScraper();
-  return scraper.scrape(options);
+  return replayFetch("scrape", options.url, () => scraper.scrape(options));
 }
 
 /**
@@ -85,6 +85,18 @@ export interface CacheEntry<T> {
   key: string;
 }
 
+/**
+ * Durable backing store for CacheLayer (shared across processes).
+ * Keys passed in are already hashed by CacheLayer.
+ */
+export interface PersistentCacheStore {
+  get(hashedKey: string): Promise<CacheEntry<unknown> | null>;
+  set(hashedKey: string, entry: CacheEntry<unknown>, url?: string): Promise<void>;
+  delete(hashedKey: string): Promise<void>;
+  /** Drop expired rows, then least-recently-used rows until total size <= maxBytes */
+  evict(maxBytes: number): Promise<number>;
+}
+
 export interface CircuitBreakerState {
   failures: number;
   lastFailureTime: number;
@@ -0,0 +1,113 @@
+/**
+ * Tests for typed custom sections: LLM schema, normalization and validation
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  normalizeSectionValue,
+  normalizeSectionValues,
+  sanitizeSectionType,
+  sectionValueSchema,
+  stringifyFieldValue,
+  type SectionType,
+} from "./sectionTypes";
+import type { AgentSection } from "./agentScraper";
+import { createAgentOutputExcel } from "./excelProcessor";
+import * as XLSX from "xlsx";
+
+const section = (type: AgentSection["type"], extra: Partial<AgentSection> = {}): AgentSection => ({
+  key: "field",
+  label: "Field",
+  desc: "",
+  type,
+  ...extra,
+});
+
+describe("normalizeSectionValue", () => {
+  it("should parse numbers with currency, magnitude words and separators", () => {
+    const aum = section("number", { unit: "USD" });
+    expect(normalizeSectionValue(aum, "approx. $50M")).toEqual({ value: "50000000" });
+    expect(normalizeSectionValue(aum, "$1.2 billion")).toEqual({ value: "1200000000" });
+    expect(normalizeSectionValue(aum, "12,500 employees")).toEqual({ value: "12500" });
+    expect(normalizeSectionValue(aum, "10–49").error).toMatch(/range/);
+    expect(normalizeSectionValue(aum, "undisclosed").error).toBeDefined();
+  });
+
+  it("should convert dates to ISO precision matching the input", () => {
+    const founded = section("date");
+    expect(normalizeSectionValue(founded, "2012").value).toBe("2012");
+    expect(normalizeSectionValue(founded, "Founded in 2012").value).toBe("2012");
+    expect(normalizeSectionValue(founded, "March 2021").value).toBe("2021-03");
+    expect(normalizeSectionValue(founded, "March 5, 2021").value).toBe("2021-03-05");
+    expect(normalizeSectionValue(founded, "a while ago").error).toBeDefined();
+  });
+
+  it("should match enum options case-insensitively and flag anything else", () => {
+    const stage = section("enum", { options: ["Seed", "Series A", "Growth"] });
+    expect(normalizeSectionValue(stage, "series a")).toEqual({ value: "Series A" });
+    expect(normalizeSectionValue(stage, "Pre-seed")).toEqual({ value: "Pre-seed", error: "Not one of: Seed, Series A, Growth" });
+  });
+
+  it("should normalize lists, URLs, emails and booleans", () => {
+    expect(normalizeSectionValue(section("list"), "Fintech, SaaS, fintech").value).toBe("Fintech; SaaS");
+    expect(normalizeSectionValue(section("list"), "- AI\n- Climate").value).toBe("AI; Climate");
+    expect(normalizeSectionValue(section("url"), "linkedin.com/in/jane").value).toBe("https://linkedin.com/in/jane");
+    expect(normalizeSectionValue(section("url"), "not a url").error).toBeDefined();
+    expect(normalizeSectionValue(section("email"), "mailto:Jane@Acme.VC").value).toBe("jane@acme.vc");
+    expect(normalizeSectionValue(section("email"), "contact form only").error).toBeDefined();
+    expect(normalizeSectionValue(section("boolean"), "TRUE").value).toBe("Yes");
+    expect(normalizeSectionValue(section("boolean"), "maybe").error).toBeDefined();
+  });
+
+  it("should treat empty values as valid for every type", () => {
+    for (const type of ["number", "date", "enum", "list", "url", "email", "boolean"] as const) {
+      expect(normalizeSectionValue(section(type, { options: ["A"] }), "  ")).toEqual({ value: "" });
+    }
+  });
+});
+
+describe("normalizeSectionValues", () => {
+  it("should return the normalized row and the fields that failed validation", () => {
+    const sections = [section("number", { key: "aum" }), section("email", { key: "email" }), section(undefined, { key: "notes" })];
+    const { data, invalid } = normalizeSectionValues(sections, { aum: "$50M", email: "n/a", notes: " hi " });
+
+    expect(data).toEqual({ aum: "50000000", email: "n/a", notes: "hi" });
+    expect(invalid).toEqual([{ key: "email", value: "n/a", error: "Not a valid email address" }]);
+  });
+});
+
+describe("section schema helpers", () => {
+  it("should build a typed JSON schema for the LLM value", () => {
+    expect(sectionValueSchema(section("number")).type).toEqual(["number", "null"]);
+    expect(sectionValueSchema(section("enum", { options: ["Seed", "Growth"] })).enum).toEqual(["Seed", "Growth", ""]);
+    expect(sectionValueSchema(section("list"))).toMatchObject({ type: "array", items: { type: "string" } });
+    expect(sectionValueSchema(section(undefined))).toEqual({ type: "string" });
+  });
+
+  it("should flatten typed LLM values into cell strings", () => {
+    expect(stringifyFieldValue(["AI", "Climate"])).toBe("AI; Climate");
+    expect(stringifyFieldValue(50000000)).toBe("50000000");
+    expect(stringifyFieldValue(false)).toBe("No");
+    expect(stringifyFieldValue(null)).toBe("");
+  });
+
+  it("should drop unknown types and enums without options", () => {
+    // A type the LLM planner or an old saved config might produce, but no SectionType allows
+    const unknownType = "currency" as unknown as SectionType;
+    expect(sanitizeSectionType({ key: "a", label: "A", desc: "", type: unknownType })).toEqual({ key: "a", label: "A", desc: "" });
+    expect(sanitizeSectionType(section("enum", { options: [" "] })).type).toBeUndefined();
+    expect(sanitizeSectionType(section("text", { unit: "USD" })).unit).toBeUndefined();
+    expect(sanitizeSectionType(section("date", { structured: "founded" })).structured).toBe("founded");
+    expect(sanitizeSectionType(section("text", { structured: "ceo" as unknown as AgentSection["structured"] })).structured).toBeUndefined();
+  });
+
+  it("should put the unit in the Excel column header for number sections", () => {
+    const buffer = createAgentOutputExcel(
+      [{ key: "aum", label: "AUM", desc: "", type: "number", unit: "USD" }],
+      [{ "Company Name": "Acme", "Website": "https://acme.vc", aum: "50000000" }],
+      [],
+    );
+    const rows = XLSX.utils.sheet_to_json<Record<string, string>>(XLSX.read(buffer, { type: "buffer" }).Sheets["Results"]);
+    expect(rows[0]["AUM (USD)"]).toBe("50000000");
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Typed Custom Sections
+ *
+ * Agent sections can declare a value type so a column holds one consistent shape
+ * ("50000000" rather than a mix of "approx. $50M" and "50000000").
+ *
+ * - sectionValueSchema(): JSON schema for the LLM's "value" field per type
+ * - stringifyFieldValue(): flattens typed LLM output back into a cell string
+ * - normalizeSectionValue(): canonicalizes + validates a value before it is written
+ */
+
+import type { AgentSection } from "./agentScraper";
+import { STRUCTURED_FIELDS, type StructuredField } from "./structuredData";
+
+export const SECTION_TYPES = ["text", "number", "date", "enum", "list", "url", "email", "boolean"] as const;
+export type SectionType = (typeof SECTION_TYPES)[number];
+
+export interface NormalizedValue {
+  value: string;
+  /** Set when the value could not be coerced into the declared type */
+  error?: string;
+}
+
+export interface InvalidField {
+  key: string;
+  value: string;
+  error: string;
+}
+
+/**
+ * Column header for a section — numbers carry their unit, e.g. "AUM (USD)"
+ */
+export function sectionColumnLabel(section: AgentSection): string {
+  return section.type === "number" && section.unit ? `${section.label} (${section.unit})` : section.label;
+}
+
+// ---------------------------------------------------------------------------
+// LLM schema
+// ---------------------------------------------------------------------------
+
+/**
+ * JSON schema for the extracted value of a section (strict-mode compatible)
+ */
+export function sectionValueSchema(section: AgentSection): Record<string, unknown> {
+  switch (section.type) {
+    case "number":
+      return {
+        type: ["number", "null"],
+        description: `A single number${section.unit ? ` in ${section.unit}` : ""} with no currency symbols or words (e.g. 50000000 for "$50M"); null if unknown`,
+      };
+    case "date":
+      return { type: "string", description: 'ISO 8601 date: "YYYY-MM-DD", "YYYY-MM" or "YYYY"; "" if unknown' };
+    case "enum":
+      return { type: "string", enum: [...(section.options ?? []), ""] };
+    case "list":
+      return { type: "array", items: { type: "string" }, description: "One entry per item; [] if none" };
+    case "url":
+      return { type: "string", description: 'Absolute URL starting with https://; "" if unknown' };
+    case "email":
+      return { type: "string", description: 'A single email address; "" if unknown' };
+    case "boolean":
+      return { type: ["boolean", "null"], description: "true/false; null if the page does not say" };
+    default:
+      return { type: "string" };
+  }
+}
+
+/**
+ * Convert a typed LLM value (number, array, boolean, null) into the cell string
+ */
+export function stringifyFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(Boolean).join("; ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+// ---------------------------------------------------------------------------
+// Normalization + validation
+// ---------------------------------------------------------------------------
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mm: 1e6, mn: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+  t: 1e12, tn: 1e12, trillion: 1e12,
+};
+
+function normalizeNumber(raw: string): NormalizedValue {
+  const text = raw.replace(/(\d),(\d{3})/g, "$1$2");
+  if (/\d\s*(?:-|–|—|to)\s*[$€£]?\d/i.test(text)) {
+    return { value: raw, error: "Expected a single number, got a range" };
+  }
+  const match = text.match(/(-?\d+(?:\.\d+)?)\s*(thousand|million|billion|trillion|mm|mn|bn|tn|k|m|b|t)?\b/i);
+  if (!match) return { value: raw, error: "Not a number" };
+
+  const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] ?? 1 : 1;
+  const num = parseFloat(match[1]) * multiplier;
+  // Round away floating-point noise (e.g. 1.1 * 1e6)
+  return { value: String(Number(num.toPrecision(12))) };
+}
+
+const MONTH_YEAR = /^([A-Za-z]+)\.?\s+(\d{4})$/;
+
+function normalizeDate(raw: string): NormalizedValue {
+  const text = raw.trim();
+  if (/^\d{4}(-\d{2}){0,2}$/.test(text)) return { value: text };
+
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const monthYear = text.match(MONTH_YEAR);
+  if (monthYear) {
+    const parsed = new Date(`${monthYear[1]} 1, ${monthYear[2]}`);
+    if (!isNaN(parsed.getTime())) return { value: `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}` };
+  }
+
+  // Full dates only when a day is present — Date() happily turns "in 2012" into Jan 1st
+  const parsed = new Date(text);
+  if (!isNaN(parsed.getTime()) && /\b\d{1,2}\b\D+\d{4}|\d{4}\D+\d{1,2}\D+\d{1,2}/.test(text)) {
+    return { value: `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}` };
+  }
+
+  // "Founded in 2012" — keep just the year
+  const year = text.match(/\b(1[6-9]\d\d|20\d\d)\b/);
+  if (year) return { value: year[1] };
+
+  return { value: raw, error: "Not a recognizable date" };
+}
+
+function normalizeEnum(raw: string, options: string[]): NormalizedValue {
+  const wanted = raw.trim().toLowerCase();
+  const match = options.find(o => o.toLowerCase() === wanted);
+  return match ? { value: match } : { value: raw, error: `Not one of: ${options.join(", ")}` };
+}
+
+function normalizeList(raw: string): NormalizedValue {
+  const separator = /[;\n•]/.test(raw) ? /[;\n•]/ : /,/;
+  const seen = new Set<string>();
+  const items: string[] = [];
+  for (const part of raw.split(separator)) {
+    const item = part.replace(/^[-*\s]+/, "").trim();
+    if (item && !seen.has(item.toLowerCase())) {
+      seen.add(item.toLowerCase());
+      items.push(item);
+    }
+  }
+  return { value: items.join("; ") };
+}
+
+function normalizeUrl(raw: string): NormalizedValue {
+  const text = raw.trim();
+  const withScheme = /^https?:\/\//i.test(text) ? text : `https://${text.replace(/^\/\//, "")}`;
+  try {
+    const url = new URL(withScheme);
+    if (!url.hostname.includes(".") || /\s/.test(text)) throw new Error("bad host");
+    return { value: url.toString() };
+  } catch {
+    return { value: raw, error: "Not a valid URL" };
+  }
+}
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+
+function normalizeEmail(raw: string): NormalizedValue {
+  const match = raw.replace(/^mailto:/i, "").match(EMAIL_PATTERN);
+  return match ? { value: match[0].toLowerCase() } : { value: raw, error: "Not a valid email address" };
+}
+
+function normalizeBoolean(raw: string): NormalizedValue {
+  const text = raw.trim().toLowerCase();
+  if (["yes", "y", "true", "1"].includes(text)) return { value: "Yes" };
+  if (["no", "n", "false", "0"].includes(text)) return { value: "No" };
+  return { value: raw, error: "Expected yes or no" };
+}
+
+/**
+ * Canonicalize a value for its section type. Empty values are always valid;
+ * invalid values are returned unchanged alongside an error so nothing is lost.
+ */
+export function normalizeSectionValue(section: AgentSection, raw: string): NormalizedValue {
+  const text = (raw ?? "").trim();
+  if (!text) return { value: "" };
+
+  switch (section.type) {
+    case "number":  return normalizeNumber(text);
+    case "date":    return normalizeDate(text);
+    case "enum":    return section.options?.length ? normalizeEnum(text, section.options) : { value: text };
+    case "list":    return normalizeList(text);
+    case "url":     return normalizeUrl(text);
+    case "email":   return normalizeEmail(text);
+    case "boolean": return normalizeBoolean(text);
+    default:        return { value: text };
+  }
+}
+
+/**
+ * Normalize every section value in an extracted row, collecting validation failures
+ */
+export function normalizeSectionValues(
+  sections: AgentSection[],
+  data: Record<string, string>,
+): { data: Record<string, string>; invalid: InvalidField[] } {
+  const normalized: Record<string, string> = { ...data };
+  const invalid: InvalidField[] = [];
+  for (const s of sections) {
+    const result = normalizeSectionValue(s, data[s.key] ?? "");
+    normalized[s.key] = result.value;
+    if (result.error) invalid.push({ key: s.key, value: result.value, error: result.error });
+  }
+  return { data: normalized, invalid };
+}
+
+/**
+ * Coerce a loosely-typed section definition (LLM plan, client JSON) into a valid one
+ */
+export function sanitizeSectionType(section: AgentSection): AgentSection {
+  const type = SECTION_TYPES.includes(section.type as SectionType) ? section.type : "text";
+  const cleaned: AgentSection = { key: section.key, label: section.label, desc: section.desc };
+  if (type && type !== "text") cleaned.type = type;
+  if (type === "number" && section.unit?.trim()) cleaned.unit = section.unit.trim();
+  if (STRUCTURED_FIELDS.includes(section.structured as StructuredField)) cleaned.structured = section.structured;
+  if (type === "enum") {
+    const options = (section.options ?? []).map(o => String(o).trim()).filter(Boolean);
+    if (options.length === 0) delete cleaned.type; // an enum without options is just text
+    else cleaned.options = options;
+  }
+  return cleaned;
+}
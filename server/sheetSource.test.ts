@@ -0,0 +1,159 @@
+/**
+ * Tests for shared-sheet input (sheetSource.ts) and result write-back (sheetWriteBack.ts),
+ * using file:// workbooks as the local stand-in for a shared sheet
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { generateKeyPairSync } from "crypto";
+import { mkdtemp, rm, writeFile, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import * as XLSX from "xlsx";
+import { detectSheetFormat, parseSheetUrl, SheetSourceError } from "./sheetSource";
+import { GoogleSheetsWriter, LocalWorkbookWriter, uniqueTabTitle, writeBackAvailability } from "./sheetWriteBack";
+import { parseInputExcel, parseInputHeaders } from "./excelProcessor";
+
+// file:// sheets are off unless the server opts in
+beforeEach(() => {
+  vi.stubEnv("SHEET_ALLOW_LOCAL_FILES", "true");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("parseSheetUrl", () => {
+  it("should read Google Sheets links through the CSV export of their tab", () => {
+    expect(parseSheetUrl("https://docs.google.com/spreadsheets/d/abc_123-X/edit#gid=42")).toMatchObject({
+      kind: "google",
+      spreadsheetId: "abc_123-X",
+      gid: "42",
+      fetchUrl: "https://docs.google.com/spreadsheets/d/abc_123-X/export?format=csv&gid=42",
+    });
+    expect(parseSheetUrl("https://docs.google.com/spreadsheets/d/abc/view").fetchUrl).toContain("gid=0");
+
+    const published = parseSheetUrl("https://docs.google.com/spreadsheets/d/e/2PACX-pub/pubhtml?gid=7");
+    expect(published.fetchUrl).toBe("https://docs.google.com/spreadsheets/d/e/2PACX-pub/pub?output=csv&gid=7");
+    expect(published.spreadsheetId).toBeUndefined();
+  });
+
+  it("should download other links as-is and reject non-URLs", () => {
+    expect(parseSheetUrl("https://example.com/firms.xlsx")).toMatchObject({ kind: "url", fetchUrl: "https://example.com/firms.xlsx" });
+    expect(parseSheetUrl("file:///tmp/firms.xlsx")).toMatchObject({ kind: "file", filePath: "/tmp/firms.xlsx" });
+    expect(() => parseSheetUrl("firms.xlsx")).toThrow(SheetSourceError);
+    expect(() => parseSheetUrl("ftp://example.com/firms.csv")).toThrow(SheetSourceError);
+  });
+
+  it("should refuse file:// unless enabled and hosts that aren't public", () => {
+    vi.stubEnv("SHEET_ALLOW_LOCAL_FILES", "");
+    expect(() => parseSheetUrl("file:///etc/passwd")).toThrow(/disabled/);
+
+    for (const url of ["http://127.0.0.1/firms.csv", "http://169.254.169.254/latest/meta-data/", "http://[::1]:3000/", "http://localhost:8080/x.csv", "https://10.1.2.3/x.xlsx"]) {
+      expect(() => parseSheetUrl(url), url).toThrow(/public host/);
+    }
+  });
+});
+
+describe("detectSheetFormat", () => {
+  it("should tell workbooks from CSV and refuse sign-in pages", () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["a"]]), "Sheet1");
+    expect(detectSheetFormat(XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }))).toBe("xlsx");
+    expect(detectSheetFormat(Buffer.from("Company Name,Website\nAcme,https://acme.vc\n"))).toBe("csv");
+    expect(() => detectSheetFormat(Buffer.from("\n<!DOCTYPE html><html><body>Sign in</body></html>"))).toThrow(/shared|publish/);
+  });
+});
+
+describe("local sheet stand-in", () => {
+  let dir: string;
+  let workbookPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "sheet-source-"));
+    workbookPath = path.join(dir, "firms.xlsx");
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ["Firm", "Website", "Owner"],
+      ["Acme Ventures", "https://acme.vc", "Dana"],
+      ["Northwind", "https://northwind.vc", "Lee"],
+    ]), "Input");
+    await writeFile(workbookPath, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should parse rows straight from a file:// sheet URL", async () => {
+    const url = pathToFileURL(workbookPath).href;
+    expect((await parseInputHeaders(url)).autoDetected.websiteUrl).toBe("Website");
+    const firms = await parseInputExcel(url, { companyNameColumn: "Firm", websiteUrlColumn: "Website" });
+    expect(firms.map((f) => f.websiteUrl)).toEqual(["https://acme.vc", "https://northwind.vc"]);
+  });
+
+  it("should add results as new, uniquely named tabs and keep the input tab", async () => {
+    const writer = new LocalWorkbookWriter(workbookPath);
+    const rows = [["Company Name", "Investor Type"], ["Acme Ventures", "VC"]];
+    expect(await writer.addTab("Enriched 2026-10-18 #7", rows)).toBe("Enriched 2026-10-18 #7");
+    expect(await writer.addTab("Enriched 2026-10-18 #7", rows)).toBe("Enriched 2026-10-18 #7 (2)");
+
+    const workbook = XLSX.read(await readFile(workbookPath), { type: "buffer" });
+    expect(workbook.SheetNames).toEqual(["Input", "Enriched 2026-10-18 #7", "Enriched 2026-10-18 #7 (2)"]);
+    expect(XLSX.utils.sheet_to_json(workbook.Sheets["Enriched 2026-10-18 #7"], { header: 1 })).toEqual(rows);
+  });
+
+  it("should only offer write-back where a tab can be added", () => {
+    const previous = process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+    delete process.env.GOOGLE_SERVICE_ACCOUNT_JSON;
+    try {
+      expect(writeBackAvailability(pathToFileURL(workbookPath).href)).toEqual({ available: true });
+      expect(writeBackAvailability(pathToFileURL(path.join(dir, "firms.csv")).href).available).toBe(false);
+      expect(writeBackAvailability("https://example.com/firms.xlsx").available).toBe(false);
+      expect(writeBackAvailability("https://docs.google.com/spreadsheets/d/abc/edit").reason).toMatch(/GOOGLE_SERVICE_ACCOUNT_JSON/);
+      expect(writeBackAvailability("https://docs.google.com/spreadsheets/d/e/2PACX/pubhtml").reason).toMatch(/edit link/);
+    } finally {
+      if (previous !== undefined) process.env.GOOGLE_SERVICE_ACCOUNT_JSON = previous;
+    }
+  });
+});
+
+describe("GoogleSheetsWriter", () => {
+  it("should authenticate as the service account, then add and fill a new tab", async () => {
+    const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const calls: { url: string; method: string; body?: string }[] = [];
+    const fakeFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input);
+      calls.push({ url, method: init?.method ?? "GET", body: init?.body as string | undefined });
+      const reply = url.startsWith("https://oauth2.test/")
+        ? { access_token: "token-1", expires_in: 3600 }
+        : url.endsWith("?fields=sheets.properties.title")
+          ? { sheets: [{ properties: { title: "Sheet1" } }, { properties: { title: "Results" } }] }
+          : {};
+      return new Response(JSON.stringify(reply), { status: 200, headers: { "Content-Type": "application/json" } });
+    }) as typeof fetch;
+
+    const writer = new GoogleSheetsWriter(
+      "sheet-id",
+      { client_email: "writer@project.iam.gserviceaccount.com", private_key: privateKey.export({ type: "pkcs8", format: "pem" }).toString(), token_uri: "https://oauth2.test/token" },
+      fakeFetch,
+      "https://sheets.test/v4/spreadsheets",
+    );
+    expect(await writer.addTab("Results", [["Company Name"], ["Acme"]])).toBe("Results (2)");
+
+    expect(calls.map((c) => `${c.method} ${c.url}`)).toEqual([
+      "POST https://oauth2.test/token",
+      "GET https://sheets.test/v4/spreadsheets/sheet-id?fields=sheets.properties.title",
+      "POST https://sheets.test/v4/spreadsheets/sheet-id:batchUpdate",
+      `PUT https://sheets.test/v4/spreadsheets/sheet-id/values/${encodeURIComponent("'Results (2)'!A1")}?valueInputOption=RAW`,
+    ]);
+    expect(new URLSearchParams(calls[0].body).get("grant_type")).toBe("urn:ietf:params:oauth:grant-type:jwt-bearer");
+    expect(JSON.parse(calls[2].body!)).toEqual({ requests: [{ addSheet: { properties: { title: "Results (2)" } } }] });
+    expect(JSON.parse(calls[3].body!)).toEqual({ values: [["Company Name"], ["Acme"]] });
+  });
+
+  it("should keep tab titles valid", () => {
+    expect(uniqueTabTitle("Q3: leads/new?", [])).toBe("Q3- leads-new-");
+    expect(uniqueTabTitle("A".repeat(40), ["a".repeat(31)], 31)).toBe(`${"A".repeat(27)} (2)`);
+  });
+});
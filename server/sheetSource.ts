@@ -0,0 +1,181 @@
+/**
+ * Spreadsheet Sources
+ *
+ * Jobs can start from a shared spreadsheet URL instead of an uploaded file:
+ * - Google Sheets links (…/spreadsheets/d/<id>/edit#gid=<gid>, or published …/d/e/<id>/pubhtml)
+ *   are read through their CSV export — the sheet must be viewable by anyone with the link
+ * - any other http(s) URL is downloaded as XLSX or CSV, whichever the content is
+ * - file:// URLs are the local stand-in (tests, self-hosted setups); they read the server's own
+ *   disk, so they are refused unless SHEET_ALLOW_LOCAL_FILES=true
+ *
+ * Downloads only go to public addresses: hosts that resolve (or redirect) to loopback, private,
+ * link-local or cloud metadata addresses are refused (publicHost.ts).
+ *
+ * The sheet is snapshotted into storage when the job is created (snapshotSheet), so processing
+ * and resumes always read the same rows; enrichmentJobs.sourceSheetUrl remembers the source for
+ * scheduled re-runs and write-back (sheetWriteBack.ts).
+ */
+
+import axios from "axios";
+import { nanoid } from "nanoid";
+import { fileURLToPath } from "url";
+import { assertPublicHost, publicOnlyLookup } from "./publicHost";
+import { storagePut } from "./storage";
+
+export type SheetSourceKind = "google" | "url" | "file";
+export type SheetFormat = "csv" | "xlsx";
+
+export interface SheetSource {
+  kind: SheetSourceKind;
+  /** The URL as given */
+  url: string;
+  /** What is actually downloaded (the CSV export for Google Sheets) */
+  fetchUrl: string;
+  /** Google Sheets: the spreadsheet id of an edit / view link (published links have none) */
+  spreadsheetId?: string;
+  /** Google Sheets: the tab, 0 for the first one */
+  gid?: string;
+  /** file:// sources */
+  filePath?: string;
+}
+
+export class SheetSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SheetSourceError";
+  }
+}
+
+const MAX_SHEET_BYTES = 50 * 1024 * 1024;
+
+const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Whether file:// sheet URLs are accepted (tests and single-user self-hosted setups)
+ */
+export function localSheetFilesAllowed(): boolean {
+  return process.env.SHEET_ALLOW_LOCAL_FILES === "true";
+}
+
+function assertPublicSheetHost(hostname: string): void {
+  try {
+    assertPublicHost(hostname);
+  } catch (err) {
+    throw new SheetSourceError(`Spreadsheet URLs must point to a public host — ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Work out where to download a spreadsheet URL from
+ */
+export function parseSheetUrl(url: string): SheetSource {
+  const trimmed = url.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    throw new SheetSourceError(`Not a valid spreadsheet URL: ${trimmed}`);
+  }
+
+  if (parsed.protocol === "file:") {
+    if (!localSheetFilesAllowed()) {
+      throw new SheetSourceError("file:// spreadsheet URLs are disabled on this server — share a Google Sheets or https link instead");
+    }
+    return { kind: "file", url: trimmed, fetchUrl: trimmed, filePath: fileURLToPath(parsed) };
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new SheetSourceError(`Unsupported spreadsheet URL scheme: ${parsed.protocol}`);
+  }
+
+  if (parsed.hostname === "docs.google.com" && parsed.pathname.startsWith("/spreadsheets/")) {
+    // The tab is in the query (?gid=) or, for edit links, the fragment (#gid=)
+    const gid = parsed.searchParams.get("gid") ?? new URLSearchParams(parsed.hash.slice(1)).get("gid") ?? "0";
+    const published = parsed.pathname.match(/^\/spreadsheets\/d\/e\/([\w-]+)/);
+    if (published) {
+      return { kind: "google", url: trimmed, gid, fetchUrl: `https://docs.google.com/spreadsheets/d/e/${published[1]}/pub?output=csv&gid=${gid}` };
+    }
+    const id = parsed.pathname.match(/^\/spreadsheets\/d\/([\w-]+)/);
+    if (!id) throw new SheetSourceError(`Not a Google Sheets document link: ${trimmed}`);
+    return {
+      kind: "google",
+      url: trimmed,
+      spreadsheetId: id[1],
+      gid,
+      fetchUrl: `https://docs.google.com/spreadsheets/d/${id[1]}/export?format=csv&gid=${gid}`,
+    };
+  }
+
+  assertPublicSheetHost(parsed.hostname);
+  return { kind: "url", url: trimmed, fetchUrl: trimmed };
+}
+
+/**
+ * Links readFileToRows should treat as a shared spreadsheet rather than a stored upload
+ */
+export function isSheetSourceUrl(url: string): boolean {
+  return url.startsWith("file://") || /^https?:\/\/docs\.google\.com\/spreadsheets\//.test(url);
+}
+
+/**
+ * XLSX / XLS by magic bytes, otherwise CSV. A web page means the link isn't shared publicly
+ * (Google answers with its sign-in page).
+ */
+export function detectSheetFormat(buffer: Buffer): SheetFormat {
+  if (buffer.length >= 4 && buffer[0] === 0x50 && buffer[1] === 0x4b && buffer[2] === 0x03 && buffer[3] === 0x04) return "xlsx";
+  if (buffer.length >= 4 && buffer[0] === 0xd0 && buffer[1] === 0xcf && buffer[2] === 0x11 && buffer[3] === 0xe0) return "xlsx";
+
+  const head = buffer.subarray(0, 512).toString("utf-8").trimStart().toLowerCase();
+  if (head.startsWith("<!doctype html") || head.startsWith("<html")) {
+    throw new SheetSourceError(
+      "The link returned a web page instead of a spreadsheet — share the sheet as \"Anyone with the link can view\" or publish it to the web",
+    );
+  }
+  return "csv";
+}
+
+/**
+ * Download a shared spreadsheet
+ */
+export async function fetchSheet(url: string): Promise<{ buffer: Buffer; format: SheetFormat; source: SheetSource }> {
+  const source = parseSheetUrl(url);
+
+  let buffer: Buffer;
+  if (source.kind === "file") {
+    const fs = await import("fs/promises");
+    try {
+      buffer = await fs.readFile(source.filePath!);
+    } catch (err) {
+      throw new SheetSourceError(`Could not read ${source.filePath}: ${err instanceof Error ? err.message : err}`);
+    }
+  } else {
+    try {
+      const response = await axios.get(source.fetchUrl, {
+        responseType: "arraybuffer",
+        timeout: 30000,
+        maxContentLength: MAX_SHEET_BYTES,
+        lookup: publicOnlyLookup,
+        beforeRedirect: (options) => assertPublicHost(String(options.hostname ?? "")),
+      });
+      buffer = Buffer.from(response.data);
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      if (status === 401 || status === 403 || status === 404) {
+        throw new SheetSourceError(`The spreadsheet isn't accessible (HTTP ${status}) — check the link is shared publicly`);
+      }
+      throw new SheetSourceError(`Could not download the spreadsheet: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  if (buffer.length === 0) throw new SheetSourceError("The spreadsheet is empty");
+  return { buffer, format: detectSheetFormat(buffer), source };
+}
+
+/**
+ * Copy the sheet's current contents into storage as the job's input file
+ */
+export async function snapshotSheet(userId: number, url: string): Promise<{ fileUrl: string; fileKey: string; source: SheetSource }> {
+  const { buffer, format, source } = await fetchSheet(url);
+  const fileKey = `enrichment/${userId}/${nanoid()}-sheet.${format}`;
+  const { url: fileUrl } = await storagePut(fileKey, buffer, format === "csv" ? "text/csv" : XLSX_MIME);
+  return { fileUrl, fileKey, source };
+}
@@ -0,0 +1,257 @@
+/**
+ * Sheet Write-Back
+ *
+ * When a job started from a shared spreadsheet (sheetSource.ts) has sheetWriteBack on, its
+ * firm-level results — the first sheet of the results workbook ("VC Firms" / "Results") —
+ * are written to a new tab of the source when the job completes:
+ * - Google Sheets through the Sheets API, as the service account in GOOGLE_SERVICE_ACCOUNT_JSON
+ *   (the sheet must be shared with that account as an editor)
+ * - file:// workbooks (.xlsx) by adding a sheet to the file — the local stand-in used in tests,
+ *   only reachable when SHEET_ALLOW_LOCAL_FILES=true (parseSheetUrl refuses file:// otherwise)
+ *
+ * The outcome is recorded in enrichmentJobs.sheetWriteBackStatus; a failed write-back never
+ * fails the job, whose results stay downloadable as usual.
+ */
+
+import { createSign } from "crypto";
+import * as XLSX from "xlsx";
+import type { EnrichmentJob } from "../drizzle/schema";
+import { getEnrichmentJob, updateEnrichmentJob } from "./enrichmentDb";
+import { buildResultsFile } from "./jobResults";
+import { parseSheetUrl, SheetSourceError, type SheetSource } from "./sheetSource";
+
+type FetchFn = typeof fetch;
+
+export interface SheetTabWriter {
+  /** Add a tab holding `rows` (header first); returns the title used, made unique if taken */
+  addTab(title: string, rows: string[][]): Promise<string>;
+}
+
+export interface GoogleServiceAccount {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+}
+
+const SHEETS_API = "https://sheets.googleapis.com/v4/spreadsheets";
+const SHEETS_SCOPE = "https://www.googleapis.com/auth/spreadsheets";
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+
+/**
+ * Tab titles: at most 100 characters (31 for XLSX) without the characters XLSX forbids,
+ * with " (2)", " (3)"… appended when the title is taken
+ */
+export function uniqueTabTitle(title: string, existing: string[], maxLength = 100): string {
+  const clean = title.replace(/[\[\]:*?/\\]/g, "-").trim().slice(0, maxLength) || "Results";
+  const taken = new Set(existing.map((t) => t.toLowerCase()));
+  if (!taken.has(clean.toLowerCase())) return clean;
+  for (let n = 2; ; n++) {
+    const suffix = ` (${n})`;
+    const candidate = clean.slice(0, maxLength - suffix.length) + suffix;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Writers
+// ---------------------------------------------------------------------------
+
+/**
+ * Local stand-in: adds a sheet to an .xlsx file on disk
+ */
+export class LocalWorkbookWriter implements SheetTabWriter {
+  constructor(private filePath: string) {}
+
+  async addTab(title: string, rows: string[][]): Promise<string> {
+    const fs = await import("fs/promises");
+    const workbook = XLSX.read(await fs.readFile(this.filePath), { type: "buffer" });
+    const tab = uniqueTabTitle(title, workbook.SheetNames, 31);
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), tab);
+    await fs.writeFile(this.filePath, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+    return tab;
+  }
+}
+
+/**
+ * Google Sheets API v4, authenticated as a service account (JWT bearer grant)
+ */
+export class GoogleSheetsWriter implements SheetTabWriter {
+  private accessToken: { token: string; expiresAt: number } | null = null;
+
+  constructor(
+    private spreadsheetId: string,
+    private account: GoogleServiceAccount,
+    private fetchFn: FetchFn = fetch,
+    private apiBase = SHEETS_API,
+  ) {}
+
+  private async token(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60_000) return this.accessToken.token;
+
+    const tokenUri = this.account.token_uri || DEFAULT_TOKEN_URI;
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+      iss: this.account.client_email,
+      scope: SHEETS_SCOPE,
+      aud: tokenUri,
+      iat: now,
+      exp: now + 3600,
+    })}`;
+    const signature = createSign("RSA-SHA256").update(unsigned).sign(this.account.private_key).toString("base64url");
+
+    const response = await this.fetchFn(tokenUri, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: `${unsigned}.${signature}`,
+      }).toString(),
+    });
+    const body = await response.json().catch(() => ({})) as { access_token?: string; expires_in?: number; error_description?: string };
+    if (!response.ok || !body.access_token) {
+      throw new Error(`Google token request failed (${response.status}): ${body.error_description ?? "no access token"}`);
+    }
+    this.accessToken = { token: body.access_token, expiresAt: Date.now() + (body.expires_in ?? 3600) * 1000 };
+    return body.access_token;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.fetchFn(`${this.apiBase}/${this.spreadsheetId}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${await this.token()}`, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const json = await response.json().catch(() => ({})) as T & { error?: { message?: string } };
+    if (!response.ok) {
+      const hint = response.status === 403 ? ` — share the sheet with ${this.account.client_email} as an editor` : "";
+      throw new Error(`Google Sheets API ${method} failed (${response.status}): ${json.error?.message ?? "unknown error"}${hint}`);
+    }
+    return json;
+  }
+
+  async addTab(title: string, rows: string[][]): Promise<string> {
+    const spreadsheet = await this.request<{ sheets?: { properties: { title: string } }[] }>("GET", "?fields=sheets.properties.title");
+    const tab = uniqueTabTitle(title, (spreadsheet.sheets ?? []).map((s) => s.properties.title));
+
+    await this.request("POST", ":batchUpdate", { requests: [{ addSheet: { properties: { title: tab } } }] });
+    const range = encodeURIComponent(`'${tab.replace(/'/g, "''")}'!A1`);
+    await this.request("PUT", `/values/${range}?valueInputOption=RAW`, { values: rows });
+    return tab;
+  }
+}
+
+/**
+ * GOOGLE_SERVICE_ACCOUNT_JSON holds the service account key itself or a path to the key file
+ */
+export async function loadGoogleServiceAccount(): Promise<GoogleServiceAccount | null> {
+  const value = process.env.GOOGLE_SERVICE_ACCOUNT_JSON?.trim();
+  if (!value) return null;
+  let raw = value;
+  if (!value.startsWith("{")) {
+    const fs = await import("fs/promises");
+    raw = await fs.readFile(value, "utf-8");
+  }
+  const account = JSON.parse(raw) as GoogleServiceAccount;
+  if (!account.client_email || !account.private_key) {
+    throw new Error("GOOGLE_SERVICE_ACCOUNT_JSON needs client_email and private_key");
+  }
+  return account;
+}
+
+// ---------------------------------------------------------------------------
+// Availability
+// ---------------------------------------------------------------------------
+
+export interface WriteBackAvailability {
+  available: boolean;
+  /** Why not, when unavailable */
+  reason?: string;
+}
+
+function sourceAvailability(source: SheetSource): WriteBackAvailability {
+  if (source.kind === "file") {
+    return /\.xlsx$/i.test(source.filePath ?? "")
+      ? { available: true }
+      : { available: false, reason: "Only local .xlsx workbooks can take a new tab" };
+  }
+  if (source.kind === "url") {
+    return { available: false, reason: "Only Google Sheets links support write-back" };
+  }
+  if (!source.spreadsheetId) {
+    return { available: false, reason: "Published (pub) links are read-only — use the sheet's edit link" };
+  }
+  if (!process.env.GOOGLE_SERVICE_ACCOUNT_JSON?.trim()) {
+    return { available: false, reason: "Write-back to Google Sheets needs GOOGLE_SERVICE_ACCOUNT_JSON on the server" };
+  }
+  return { available: true };
+}
+
+/**
+ * Whether results can be written back to a sheet URL (and why not)
+ */
+export function writeBackAvailability(sheetUrl: string): WriteBackAvailability {
+  try {
+    return sourceAvailability(parseSheetUrl(sheetUrl));
+  } catch (err) {
+    return { available: false, reason: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Writer for a sheet URL; throws SheetSourceError when write-back isn't available
+ */
+export async function createSheetWriter(sheetUrl: string, fetchFn: FetchFn = fetch): Promise<SheetTabWriter> {
+  const source = parseSheetUrl(sheetUrl);
+  const availability = sourceAvailability(source);
+  if (!availability.available) throw new SheetSourceError(availability.reason!);
+
+  if (source.kind === "file") return new LocalWorkbookWriter(source.filePath!);
+  const account = await loadGoogleServiceAccount();
+  return new GoogleSheetsWriter(source.spreadsheetId!, account!, fetchFn);
+}
+
+// ---------------------------------------------------------------------------
+// Job write-back
+// ---------------------------------------------------------------------------
+
+/**
+ * The job's firm-level results as rows of cells, header first
+ */
+export async function jobResultsTable(job: EnrichmentJob): Promise<string[][]> {
+  const { buffer } = await buildResultsFile(job, "xlsx");
+  const workbook = XLSX.read(buffer, { type: "buffer" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "", raw: false })
+    .map((row) => row.map((cell) => String(cell ?? "")));
+}
+
+export function writeBackTabTitle(job: Pick<EnrichmentJob, "id">, now = new Date()): string {
+  return `Enriched ${now.toISOString().slice(0, 10)} #${job.id}`;
+}
+
+/**
+ * Write a completed job's results back to its source sheet, if it asked for that and hasn't
+ * been written yet. Called by the worker after each job; never throws — the outcome is stored on the job.
+ */
+export async function writeBackJobResults(jobId: number): Promise<void> {
+  const job = await getEnrichmentJob(jobId).catch(() => undefined);
+  if (!job?.sheetWriteBack || !job.sourceSheetUrl || job.status !== "completed") return;
+  if (job.sheetWriteBackStatus?.startsWith("Wrote")) return;
+
+  let status: string;
+  try {
+    const writer = await createSheetWriter(job.sourceSheetUrl);
+    const rows = await jobResultsTable(job);
+    const tab = await writer.addTab(writeBackTabTitle(job), rows);
+    status = `Wrote ${Math.max(rows.length - 1, 0)} rows to tab "${tab}"`;
+    console.log(`[sheetWriteBack] Job ${jobId}: ${status}`);
+  } catch (err) {
+    status = `Failed: ${err instanceof Error ? err.message : String(err)}`;
+    console.error(`[sheetWriteBack] Job ${jobId} write-back failed:`, err);
+  }
+  await updateEnrichmentJob(jobId, { sheetWriteBackStatus: status }).catch((err) => {
+    console.error(`[sheetWriteBack] Could not record write-back status for job ${jobId}:`, err);
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * SMTP Stub Server
+ *
+ * Minimal mail server for testing emailInference.ts verification without reaching real MX hosts.
+ * Speaks just enough SMTP for a mailbox check:
+ *
+ *   220 greeting
+ *   EHLO / HELO      250
+ *   MAIL FROM        250
+ *   RCPT TO          250 for a known mailbox (any mailbox when catchAll), 550 otherwise
+ *   QUIT             221, then closes
+ *   anything else    502
+ */
+
+import net from "net";
+import type { AddressInfo } from "net";
+
+export interface SmtpStub {
+  host: string;
+  port: number;
+  /** Every command received, as sent */
+  transcript: string[];
+  close(): Promise<void>;
+}
+
+export interface SmtpStubOptions {
+  /** Addresses that exist (case-insensitive) */
+  mailboxes: string[];
+  /** Accept every recipient */
+  catchAll?: boolean;
+  port?: number;
+}
+
+export async function startSmtpStubServer(options: SmtpStubOptions): Promise<SmtpStub> {
+  const mailboxes = new Set(options.mailboxes.map((m) => m.toLowerCase()));
+  const transcript: string[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("error", () => socket.destroy());
+    socket.setEncoding("utf8");
+    socket.write("220 stub.local ESMTP ready\r\n");
+
+    let buffer = "";
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        transcript.push(line);
+
+        const verb = line.split(/[\s:]/)[0].toUpperCase();
+        if (verb === "EHLO") socket.write("250-stub.local\r\n250 8BITMIME\r\n");
+        else if (verb === "HELO" || verb === "MAIL") socket.write("250 OK\r\n");
+        else if (verb === "RCPT") {
+          const recipient = (line.match(/<([^>]*)>/)?.[1] ?? "").toLowerCase();
+          socket.write(options.catchAll || mailboxes.has(recipient) ? "250 OK\r\n" : "550 No such user\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else socket.write("502 Command not implemented\r\n");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    host: "127.0.0.1",
+    port,
+    transcript,
+    close: () => new Promise<void>((resolve, reject) => {
+      Array.from(sockets).forEach((s) => s.destroy());
+      server.close((err) => (err ? reject(err) : resolve()));
+    }),
+  };
+}
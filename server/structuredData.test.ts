@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { extractStructuredData, formatAddress, formatLocation, organizationPeople, prefillSections, primaryOrganization } from "./structuredData";
+import type { AgentSection } from "./agentScraper";
+
+const html = `<!doctype html><html><head>
+<meta property="og:site_name" content="Acme Ventures">
+<meta property="og:description" content="Seed-stage fund for industrial software.">
+<script type="application/ld+json">
+{
+  "@context": "https://schema.org",
+  "@graph": [
+    {
+      "@type": ["Organization", "FinancialService"],
+      "name": "Acme Ventures",
+      "url": "https://www.acme.vc/",
+      "foundingDate": "2015-03-01",
+      "email": "mailto:hello@acme.vc",
+      "address": { "@type": "PostalAddress", "streetAddress": "1 Main St", "addressLocality": "Austin", "addressRegion": "TX", "postalCode": "78701", "addressCountry": "US" },
+      "sameAs": ["https://www.linkedin.com/company/acme-ventures", "https://twitter.com/acmevc"],
+      "founder": { "@type": "Person", "name": "Jane Doe", "jobTitle": "Managing Partner", "sameAs": "https://www.linkedin.com/in/jane-doe" }
+    },
+    { "@type": "BlogPosting", "headline": "Why we invested", "author": { "@type": "Person", "name": "Guest Writer" } }
+  ]
+}
+</script>
+<script type="application/ld+json">{ "broken": true, }</script>
+</head><body>
+<div itemscope itemtype="https://schema.org/Person">
+  <span itemprop="name">John Roe</span>
+  <span itemprop="jobTitle">Principal</span>
+  <a itemprop="email" href="mailto:john@acme.vc">email</a>
+  <div itemprop="worksFor" itemscope itemtype="https://schema.org/Organization"><span itemprop="name">Acme Ventures</span></div>
+</div>
+<div itemscope itemtype="https://schema.org/Person"><span itemprop="name">Sam Poe</span><span itemprop="worksFor">Other Corp</span></div>
+</body></html>`;
+
+describe("extractStructuredData", () => {
+  const data = extractStructuredData(html, "https://www.acme.vc/");
+
+  it("should read JSON-LD organizations with their people and skip article authors", () => {
+    const org = primaryOrganization(data)!;
+    expect(org).toMatchObject({ type: "Organization", name: "Acme Ventures", foundingDate: "2015-03-01", email: "hello@acme.vc" });
+    expect(formatLocation(org.address)).toBe("Austin, TX, US");
+    expect(formatAddress(org.address)).toBe("1 Main St, Austin, TX 78701, US");
+    expect(data.people.find((p) => p.name === "Jane Doe")).toMatchObject({
+      jobTitle: "Managing Partner", linkedinUrl: "https://www.linkedin.com/in/jane-doe", founder: true, worksFor: "Acme Ventures", source: "json-ld",
+    });
+    expect(data.people.some((p) => p.name === "Guest Writer")).toBe(false);
+  });
+
+  it("should read microdata people and OpenGraph tags", () => {
+    expect(data.people.find((p) => p.name === "John Roe")).toMatchObject({ jobTitle: "Principal", email: "john@acme.vc", worksFor: "Acme Ventures", source: "microdata" });
+    expect(data.openGraph).toEqual({ site_name: "Acme Ventures", description: "Seed-stage fund for industrial software." });
+  });
+
+  it("should keep only people who work for the organization", () => {
+    expect(organizationPeople(data).map((p) => p.name)).toEqual(["Jane Doe", "John Roe"]);
+  });
+});
+
+describe("prefillSections", () => {
+  const data = extractStructuredData(html, "https://www.acme.vc/");
+  const sections: AgentSection[] = [
+    { key: "founded_year", label: "Founded", desc: "Year founded", type: "number", structured: "founded" },
+    { key: "hq", label: "Headquarters", desc: "HQ city", structured: "headquarters" },
+    { key: "contact_email", label: "Contact email", desc: "", type: "email", structured: "email" },
+    { key: "linkedin", label: "LinkedIn page", desc: "", type: "url", structured: "linkedin" },
+    { key: "partners", label: "Partners", desc: "Investing partners", type: "list", structured: "partners" },
+    { key: "fund_size", label: "Latest fund size", desc: "", type: "number" },
+    { key: "stage", label: "Stage focus", desc: "", type: "enum", options: ["Seed", "Growth"] },
+  ];
+
+  it("should fill declared sections with a structured-data source and leave the rest to the LLM", () => {
+    const prefilled = prefillSections(sections, data);
+    expect(prefilled.data).toEqual({
+      founded_year: "2015",
+      hq: "Austin, TX, US",
+      contact_email: "hello@acme.vc",
+      linkedin: "https://www.linkedin.com/company/acme-ventures",
+      partners: "Jane Doe",
+    });
+    expect(prefilled.sources.founded_year).toEqual([{ url: "https://www.acme.vc/", snippet: "Organization.foundingDate: 2015" }]);
+    expect(sections.filter((s) => !prefilled.filled.has(s.key)).map((s) => s.key)).toEqual(["fund_size", "stage"]);
+  });
+
+  it("should not guess from a section's key or label", () => {
+    // A person's location or LinkedIn profile is not the organization's address or company page
+    const prefilled = prefillSections([
+      { key: "location", label: "Location", desc: "City and country they are based in" },
+      { key: "linkedin_url", label: "LinkedIn URL", desc: "LinkedIn profile URL", type: "url" },
+      { key: "founded_year", label: "Founded Year", desc: "Year the company was founded" },
+    ], data);
+    expect(prefilled.filled.size).toBe(0);
+  });
+
+  it("should fill nothing from a page without structured data", () => {
+    const prefilled = prefillSections(sections, extractStructuredData("<html><body>Hi</body></html>", "https://x.com/"));
+    expect(prefilled.filled.size).toBe(0);
+  });
+});
@@ -0,0 +1,443 @@
+/**
+ * Structured Data Extraction (JSON-LD, microdata, OpenGraph)
+ *
+ * Many sites already publish their name, address, founding date and people as schema.org
+ * objects. Reading those costs no LLM tokens and is more reliable than extraction, so both
+ * pipelines run this pass first:
+ * - agentScraper: sections that declare the structured value they take (AgentSection.structured,
+ *   e.g. "founded" or "headquarters") are pre-filled and left out of the LLM extraction prompt
+ *   (prefillSections). Nothing is guessed from a section's key or label.
+ * - VCEnrichmentService: Person objects become team members (High confidence) and seed the
+ *   recursive scraper, which skips profile pages for people already complete; the Organization
+ *   fills founded year / headquarters
+ *
+ * Jina returns markdown, which drops <script> and <meta> tags, so the entry page's raw HTML is
+ * fetched separately (fetchStructuredData — cached and replayed like page fetches). Pages that
+ * come back as HTML anyway are parsed directly.
+ */
+
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { getCacheLayer } from "./scraper/CacheLayer";
+import { acquireCrawlPermit } from "./crawlPolicy";
+import { replayFetch } from "./_core/replay";
+import type { AgentSection, FieldSources } from "./agentScraper";
+
+export type StructuredSource = "json-ld" | "microdata" | "opengraph";
+
+export interface StructuredOrganization {
+  /** schema.org type, e.g. "Organization", "LocalBusiness", "FinancialService" */
+  type: string;
+  name?: string;
+  legalName?: string;
+  description?: string;
+  url?: string;
+  logo?: string;
+  foundingDate?: string;
+  email?: string;
+  telephone?: string;
+  address?: StructuredAddress;
+  /** Social / directory profiles (LinkedIn, Twitter, Crunchbase, ...) */
+  sameAs: string[];
+  source: StructuredSource;
+}
+
+export interface StructuredAddress {
+  streetAddress?: string;
+  addressLocality?: string;
+  addressRegion?: string;
+  postalCode?: string;
+  addressCountry?: string;
+}
+
+export interface StructuredPerson {
+  name: string;
+  jobTitle?: string;
+  email?: string;
+  telephone?: string;
+  url?: string;
+  image?: string;
+  linkedinUrl?: string;
+  /** Organization name the person works for, when given */
+  worksFor?: string;
+  /** Listed as a founder of the organization */
+  founder?: boolean;
+  source: StructuredSource;
+}
+
+export interface StructuredData {
+  organizations: StructuredOrganization[];
+  people: StructuredPerson[];
+  /** og:title, og:description, og:site_name, ... without the "og:" prefix */
+  openGraph: Record<string, string>;
+  /** Page the data was read from */
+  url: string;
+}
+
+/** Structured data is reused from the persistent cache for a week, like pages */
+const STRUCTURED_CACHE_TTL = 7 * 24 * 60 * 60;
+
+const ORG_TYPE = /Organization|Corporation|Business|FinancialService|ProfessionalService|LocalBusiness|NGO|Company/;
+
+// Properties of an Organization that hold its people
+const ORG_PEOPLE_KEYS = ["employee", "employees", "founder", "founders", "member", "members", "alumni"];
+
+export function emptyStructuredData(url: string): StructuredData {
+  return { organizations: [], people: [], openGraph: {}, url };
+}
+
+/**
+ * Quick check for raw HTML (as opposed to Jina markdown)
+ */
+export function looksLikeHtml(content: string): boolean {
+  return /<(html|head|body|script|meta)[\s>]/i.test(content.slice(0, 20000));
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** "http://schema.org/Person", "schema:Person", ["Person"] → "Person" */
+function schemaType(node: any): string {
+  const raw = Array.isArray(node?.["@type"]) ? node["@type"][0] : node?.["@type"];
+  return typeof raw === "string" ? raw.split(/[/:#]/).pop() ?? "" : "";
+}
+
+function textValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) return textValue(value[0]);
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    return textValue(obj.name ?? obj["@value"] ?? obj.url ?? obj["@id"]);
+  }
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const text = String(value).replace(/\s+/g, " ").trim();
+  return text || undefined;
+}
+
+function listValue(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return items.map(textValue).filter((v): v is string => !!v);
+}
+
+function addressValue(value: unknown): StructuredAddress | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw === "string") return raw.trim() ? { streetAddress: raw.trim() } : undefined;
+  if (!raw || typeof raw !== "object") return undefined;
+  const node = raw as Record<string, unknown>;
+  const address: StructuredAddress = {
+    streetAddress: textValue(node.streetAddress),
+    addressLocality: textValue(node.addressLocality),
+    addressRegion: textValue(node.addressRegion),
+    postalCode: textValue(node.postalCode),
+    addressCountry: textValue(node.addressCountry),
+  };
+  return Object.values(address).some(Boolean) ? address : undefined;
+}
+
+const linkedIn = (urls: string[]) => urls.find((u) => /linkedin\.com\/in\//i.test(u));
+
+function toOrganization(node: any, source: StructuredSource): StructuredOrganization {
+  return {
+    type: schemaType(node),
+    name: textValue(node.name),
+    legalName: textValue(node.legalName),
+    description: textValue(node.description),
+    url: textValue(node.url),
+    logo: textValue(node.logo),
+    foundingDate: textValue(node.foundingDate),
+    email: textValue(node.email)?.replace(/^mailto:/i, ""),
+    telephone: textValue(node.telephone),
+    address: addressValue(node.address ?? node.location?.address),
+    sameAs: listValue(node.sameAs),
+    source,
+  };
+}
+
+function toPerson(node: any, source: StructuredSource, founder = false): StructuredPerson | null {
+  const name = textValue(node.name)
+    ?? ([textValue(node.givenName), textValue(node.familyName)].filter(Boolean).join(" ") || undefined);
+  if (!name) return null;
+  const sameAs = listValue(node.sameAs);
+  return {
+    name,
+    jobTitle: textValue(node.jobTitle),
+    email: textValue(node.email)?.replace(/^mailto:/i, ""),
+    telephone: textValue(node.telephone),
+    url: textValue(node.url),
+    image: textValue(node.image),
+    linkedinUrl: linkedIn(sameAs) ?? linkedIn(listValue(node.url)),
+    worksFor: textValue(node.worksFor),
+    founder: founder || undefined,
+    source,
+  };
+}
+
+/**
+ * Collect Organizations and Persons from a JSON-LD / microdata node tree. People only count at
+ * the top level or as an organization's employees / founders / members — an article's author
+ * or a review's reviewer is not a team member.
+ */
+function collectNodes(node: any, source: StructuredSource, out: StructuredData): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectNodes(item, source, out);
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+  if (node["@graph"]) collectNodes(node["@graph"], source, out);
+
+  const type = schemaType(node);
+  if (type === "Person") {
+    const person = toPerson(node, source);
+    if (person) out.people.push(person);
+  } else if (ORG_TYPE.test(type)) {
+    out.organizations.push(toOrganization(node, source));
+    for (const key of ORG_PEOPLE_KEYS) {
+      for (const member of Array.isArray(node[key]) ? node[key] : node[key] ? [node[key]] : []) {
+        if (schemaType(member) !== "Person" && typeof member?.name !== "string") continue;
+        const person = toPerson(member, source, key.startsWith("founder"));
+        if (person) out.people.push({ ...person, worksFor: person.worksFor ?? textValue(node.name) });
+      }
+    }
+  } else if (type === "WebPage" || type === "AboutPage" || type === "ProfilePage" || type === "ItemList") {
+    if (node.mainEntity) collectNodes(node.mainEntity, source, out);
+    const items = Array.isArray(node.itemListElement) ? node.itemListElement : [];
+    collectNodes(items.map((e: any) => e?.item ?? e), source, out);
+  }
+}
+
+/**
+ * Turn a microdata itemscope into a JSON-LD-like node ({ "@type", prop: value | node })
+ */
+function microdataNode($: cheerio.CheerioAPI, scope: any): Record<string, unknown> {
+  const node: Record<string, unknown> = { "@type": $(scope).attr("itemtype") ?? "" };
+  $(scope).find("[itemprop]").each((_, el) => {
+    // Properties of a nested itemscope belong to it, not to this one
+    if ($(el).parent().closest("[itemscope]").get(0) !== scope) return;
+    const prop = $(el).attr("itemprop")!.trim().split(/\s+/)[0];
+    const value = $(el).is("[itemscope]")
+      ? microdataNode($, el)
+      : $(el).attr("content") ?? $(el).attr("href") ?? $(el).attr("src") ?? $(el).attr("datetime") ?? $(el).text();
+    const existing = node[prop];
+    node[prop] = existing === undefined ? value : ([] as unknown[]).concat(existing, value);
+  });
+  return node;
+}
+
+/**
+ * Every schema.org object and OpenGraph tag in a page's HTML
+ */
+export function extractStructuredData(html: string, pageUrl: string): StructuredData {
+  const out = emptyStructuredData(pageUrl);
+  const $ = cheerio.load(html);
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    const raw = $(el).contents().text().replace(/^\s*<!\[CDATA\[|\]\]>\s*$/g, "").trim();
+    if (!raw) return;
+    try {
+      collectNodes(JSON.parse(raw), "json-ld", out);
+    } catch {
+      // Broken JSON-LD is common (trailing commas, unescaped quotes) — skip the block
+    }
+  });
+
+  // Top-level microdata items; nested ones are reached through their parent
+  $("[itemscope][itemtype]").each((_, el) => {
+    if ($(el).parent().closest("[itemscope]").length > 0) return;
+    collectNodes(microdataNode($, el), "microdata", out);
+  });
+
+  $('meta[property^="og:"]').each((_, el) => {
+    const property = $(el).attr("property")!.slice(3);
+    const content = $(el).attr("content")?.trim();
+    if (content && !(property in out.openGraph)) out.openGraph[property] = content;
+  });
+
+  // The same person is often published twice (JSON-LD and microdata)
+  const seen = new Set<string>();
+  out.people = out.people.filter((p) => {
+    const key = p.name.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return out;
+}
+
+/**
+ * Combine the structured data of several pages (first page wins per person)
+ */
+export function mergeStructuredData(pages: StructuredData[]): StructuredData {
+  const merged = emptyStructuredData(pages[0]?.url ?? "");
+  const seen = new Set<string>();
+  for (const page of pages) {
+    merged.organizations.push(...page.organizations);
+    for (const person of page.people) {
+      if (seen.has(person.name.toLowerCase())) continue;
+      seen.add(person.name.toLowerCase());
+      merged.people.push(person);
+    }
+    merged.openGraph = { ...page.openGraph, ...merged.openGraph };
+  }
+  return merged;
+}
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+/**
+ * Structured data of a page, read from its raw HTML. Null if the page can't be fetched.
+ */
+export async function fetchStructuredData(url: string): Promise<StructuredData | null> {
+  return replayFetch("structured", url, () => fetchStructuredDataLive(url));
+}
+
+async function fetchStructuredDataLive(url: string): Promise<StructuredData | null> {
+  const cacheKey = `structured:${url}`;
+  const cached = await getCacheLayer().get<StructuredData>(cacheKey);
+  if (cached) return cached;
+
+  if (!(await acquireCrawlPermit(url))) return null;
+  try {
+    const response = await axios.get(url, {
+      timeout: 15000,
+      responseType: "text",
+      maxContentLength: 5 * 1024 * 1024,
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+        Accept: "text/html",
+      },
+    });
+    const data = extractStructuredData(String(response.data ?? ""), url);
+    await getCacheLayer().set(cacheKey, data, STRUCTURED_CACHE_TTL, url);
+    console.log(`[StructuredData] ${url}: ${data.organizations.length} organization(s), ${data.people.length} people`);
+    return data;
+  } catch (error) {
+    console.log(`[StructuredData] Could not fetch ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Interpreting
+// ---------------------------------------------------------------------------
+
+const hostOf = (url: string | undefined) => {
+  try {
+    return url ? new URL(url).hostname.replace(/^www\./, "").toLowerCase() : "";
+  } catch {
+    return "";
+  }
+};
+
+/**
+ * The organization the site is about: the one whose url is on the site's domain, else the first
+ */
+export function primaryOrganization(data: StructuredData): StructuredOrganization | null {
+  const host = hostOf(data.url);
+  return data.organizations.find((o) => host && hostOf(o.url) === host) ?? data.organizations[0] ?? null;
+}
+
+/**
+ * "Austin, TX, US" — locality, region and country
+ */
+export function formatLocation(address: StructuredAddress | undefined): string {
+  if (!address) return "";
+  const parts = [address.addressLocality, address.addressRegion, address.addressCountry].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : address.streetAddress ?? "";
+}
+
+/**
+ * "1 Main St, Austin, TX 78701, US"
+ */
+export function formatAddress(address: StructuredAddress | undefined): string {
+  if (!address) return "";
+  const regionLine = [address.addressRegion, address.postalCode].filter(Boolean).join(" ");
+  return [address.streetAddress, address.addressLocality, regionLine, address.addressCountry].filter(Boolean).join(", ");
+}
+
+/** The 4-digit year of a foundingDate ("2015-03-01" → "2015") */
+export function foundingYear(date: string | undefined): string {
+  return date?.match(/\b(1[89]\d\d|20\d\d)\b/)?.[1] ?? "";
+}
+
+/**
+ * People who belong to the organization — anyone without a worksFor, or whose worksFor names it
+ */
+export function organizationPeople(data: StructuredData, organizationName?: string): StructuredPerson[] {
+  const org = (organizationName ?? primaryOrganization(data)?.name ?? "").toLowerCase();
+  return data.people.filter((p) => !p.worksFor || !org || p.worksFor.toLowerCase().includes(org) || org.includes(p.worksFor.toLowerCase()));
+}
+
+/**
+ * Structured values a section can declare it takes (AgentSection.structured)
+ */
+export const STRUCTURED_FIELDS = [
+  "name", "legalName", "description", "founded", "headquarters", "address", "email", "telephone",
+  "website", "logo", "linkedin", "founders", "partners", "team",
+] as const;
+export type StructuredField = (typeof STRUCTURED_FIELDS)[number];
+
+type StructuredValue = (org: StructuredOrganization | null, data: StructuredData, section: AgentSection) => { value: string; property: string } | null;
+
+const orgValue = (property: string, value: string | undefined) => (value ? { value, property: `Organization.${property}` } : null);
+
+const peopleValue = (people: StructuredPerson[], section: AgentSection) => {
+  if (people.length === 0) return null;
+  const entries = people.map((p) => (section.type === "list" || !p.jobTitle ? p.name : `${p.name} (${p.jobTitle})`));
+  return { value: entries.join("; "), property: "Person.name" };
+};
+
+const STRUCTURED_VALUES: Record<StructuredField, StructuredValue> = {
+  name: (org) => orgValue("name", org?.name),
+  legalName: (org) => orgValue("legalName", org?.legalName),
+  description: (org, data) => orgValue("description", org?.description ?? data.openGraph.description),
+  founded: (org, _d, s) => orgValue("foundingDate", s.type === "date" ? org?.foundingDate : foundingYear(org?.foundingDate) || org?.foundingDate),
+  headquarters: (org) => orgValue("address", formatLocation(org?.address)),
+  address: (org) => orgValue("address", formatAddress(org?.address)),
+  email: (org) => orgValue("email", org?.email),
+  telephone: (org) => orgValue("telephone", org?.telephone),
+  website: (org) => orgValue("url", org?.url),
+  logo: (org) => orgValue("logo", org?.logo),
+  linkedin: (org) => orgValue("sameAs", org?.sameAs.find((u) => /linkedin\.com\/(company|school)\//i.test(u))),
+  founders: (org, data, s) => peopleValue(organizationPeople(data, org?.name).filter((p) => p.founder || /founder/i.test(p.jobTitle ?? "")), s),
+  partners: (org, data, s) => peopleValue(organizationPeople(data, org?.name).filter((p) => /partner/i.test(p.jobTitle ?? "")), s),
+  team: (org, data, s) => peopleValue(organizationPeople(data, org?.name), s),
+};
+
+// Structured values are text; these section types only take them when the text fits
+const TYPE_CHECKS: Partial<Record<NonNullable<AgentSection["type"]>, (value: string) => boolean>> = {
+  number: (v) => /^\d+$/.test(v),
+  date: (v) => /^\d{4}(-\d{2}(-\d{2})?)?/.test(v),
+  email: (v) => /^[^@\s]+@[^@\s]+$/.test(v),
+  url: (v) => /^https?:\/\//.test(v),
+  enum: () => false,
+  boolean: () => false,
+};
+
+/**
+ * Fill the sections that declare a structured value (section.structured) the data has. Returns
+ * the values, the sources (citing the structured property) and the keys filled — those are left
+ * out of the LLM extraction.
+ */
+export function prefillSections(
+  sections: AgentSection[],
+  data: StructuredData,
+): { data: Record<string, string>; sources: FieldSources; filled: Set<string> } {
+  const org = primaryOrganization(data);
+  const result = { data: {} as Record<string, string>, sources: {} as FieldSources, filled: new Set<string>() };
+
+  for (const section of sections) {
+    const found = section.structured ? STRUCTURED_VALUES[section.structured]?.(org, data, section) : null;
+    if (!found) continue;
+    const value = section.type === "date" ? found.value.slice(0, 10) : found.value;
+    const check = TYPE_CHECKS[section.type ?? "text"];
+    if (check && !check(value)) continue;
+
+    result.data[section.key] = value;
+    result.sources[section.key] = [{ url: data.url, snippet: `${found.property}: ${value}`.slice(0, 300) }];
+    result.filled.add(section.key);
+  }
+  return result;
+}
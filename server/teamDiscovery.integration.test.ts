@@ -1,32 +1,35 @@
 /**
  * Integration test for team member discovery
  * Tests the full pipeline: website scraping → LLM extraction → tier classification → filtering
+ *
+ * The pipeline runs offline from a recorded session of a16z.com (see replayScenarios.ts). Record it with
+ *   npx tsx record-replay-scenario.ts enrich-vc-firm-a16z enrichVCFirm "Andreessen Horowitz" https://a16z.com "Venture capital firm investing in bold entrepreneurs building the future"
+ * and commit the JSON — the test fails until the recording is there.
  */
 
+import fs from "fs";
+import { fileURLToPath } from "url";
 import { describe, it, expect } from "vitest";
-import { VCEnrichmentService } from "./vcEnrichment";
+import type { EnrichmentResult } from "./vcEnrichment";
 import { classifyDecisionMakerTier } from "./decisionMakerTiers";
+import { loadScenario, replayScenario } from "./replayScenarios";
+
+const A16Z_SCENARIO = fileURLToPath(new URL("./__fixtures__/replay/enrich-vc-firm-a16z.json", import.meta.url));
 
 describe("Team Member Discovery Integration", () => {
-  // Use a longer timeout for real website scraping
+  // Use a longer timeout for the full pipeline
   const TIMEOUT = 60000;
 
   it("should extract team members from a real VC website", async () => {
-    const enricher = new VCEnrichmentService();
-    
-    // Test with a16z (Andreessen Horowitz) - well-known VC with public team page
-    const companyName = "Andreessen Horowitz";
-    const websiteUrl = "https://a16z.com";
-    const description = "Venture capital firm investing in bold entrepreneurs building the future";
-    
-    console.log(`\n[Integration Test] Testing team extraction for ${companyName}...`);
-    
-    const result = await enricher.enrichVCFirm(
-      companyName,
-      websiteUrl,
-      description,
-      (msg) => console.log(`[Integration Test] ${msg}`)
-    );
+    if (!fs.existsSync(A16Z_SCENARIO)) {
+      throw new Error(`Missing ${A16Z_SCENARIO} — record it with record-replay-scenario.ts (see the header of this file)`);
+    }
+    const scenario = loadScenario(A16Z_SCENARIO);
+    expect(scenario.source).toBe("recorded");
+
+    const { output, misses } = await replayScenario(scenario);
+    expect(misses).toEqual([]);
+    const result = output as EnrichmentResult;
     
     console.log(`\n[Integration Test] Results:`);
     console.log(`- Website verified: ${result.websiteVerified}`);
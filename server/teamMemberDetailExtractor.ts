@@ -55,6 +55,7 @@ Return as JSON array. If no profile links found, return empty array.`;
 
     try {
       const response = await queuedLLMCall({
+        task: "team_extraction",
         messages: [{ role: "user", content: prompt }],
         response_format: {
           type: "json_schema",
@@ -309,6 +310,7 @@ Return as JSON:
 
   try {
     const response = await queuedLLMCall({
+      task: "team_extraction",
       messages: [{ role: "user", content: prompt }],
       response_format: {
         type: "json_schema",
@@ -62,6 +62,7 @@ If you cannot determine specialization, return: {"niches": []}`;
 
   try {
     const response = await queuedLLMCall({
+      task: "team_extraction",
       messages: [{ role: "user", content: prompt }],
       response_format: {
         type: "json_schema",
@@ -146,6 +147,7 @@ If you cannot determine specialization, return: {"niches": []}`;
 
   try {
     const response = await queuedLLMCall({
+      task: "team_extraction",
       messages: [{ role: "user", content: prompt }],
       response_format: {
         type: "json_schema",
@@ -227,6 +229,7 @@ If you cannot determine specialization, return: {"niches": []}`;
 
   try {
     const response = await queuedLLMCall({
+      task: "team_extraction",
       messages: [{ role: "user", content: prompt }],
       response_format: {
         type: "json_schema",
@@ -0,0 +1,137 @@
+/**
+ * Tests for user-configurable decision-maker tier rules
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./_core/llmQueue", () => ({
+  queuedLLMCall: vi.fn(),
+}));
+
+import { queuedLLMCall } from "./_core/llmQueue";
+import type { InvokeResult } from "./_core/llm";
+import { VC_TIER_RULES, classifyTitle, sortByDecisionMakingPriority, type TierRules } from "./decisionMakerTiers";
+import { GENERIC_TIER_RULES, builtInTierRules, createTierClassifier, parseTierRuleSet, previewTierRules, tierRulesSchema } from "./tierRules";
+
+const mockLLM = vi.mocked(queuedLLMCall);
+
+const llmReply = (payload: unknown): InvokeResult => ({
+  id: "x",
+  created: 0,
+  model: "test",
+  choices: [{ index: 0, message: { role: "assistant" as const, content: JSON.stringify(payload) }, finish_reason: "stop" }],
+});
+
+const customRules: TierRules = {
+  ...GENERIC_TIER_RULES,
+  departments: [{ pattern: "buying team", tier: "Tier 2" }],
+  exclusions: ["assistant"],
+  patterns: [
+    { pattern: "head of procurement", tier: "Tier 1" },
+    { pattern: "head", tier: "Tier 3" },
+    { pattern: "buyer", tier: "Tier 2" },
+  ],
+  fallbackKeywords: ["purchasing"],
+  keywordTier: "Tier 3",
+  defaultTier: "Exclude",
+};
+
+describe("classifyTitle", () => {
+  it("should apply departments, exclusions and ordered patterns", () => {
+    expect(classifyTitle("Buying Team", customRules)).toMatchObject({ tier: "Tier 2", matchedBy: "department" });
+    expect(classifyTitle("Assistant Buyer", customRules)).toMatchObject({ tier: "Exclude", matchedBy: "exclusion", matched: "assistant" });
+    // First matching pattern wins
+    expect(classifyTitle("Head of Procurement", customRules)).toMatchObject({ tier: "Tier 1", priority: 1, matched: "head of procurement" });
+    expect(classifyTitle("Head of Design", customRules)).toMatchObject({ tier: "Tier 3", matched: "head" });
+  });
+
+  it("should use the keyword and default tiers for unmatched titles", () => {
+    expect(classifyTitle("Purchasing Clerk", customRules)).toMatchObject({ tier: "Tier 3", matchedBy: "keyword" });
+    expect(classifyTitle("Software Engineer", customRules)).toMatchObject({ tier: "Exclude", priority: 999, matchedBy: "default" });
+    expect(classifyTitle("  ", customRules)).toMatchObject({ tier: "Tier 3", matchedBy: "empty" });
+  });
+
+  it("should sort by a rule set's priorities", () => {
+    const sorted = sortByDecisionMakingPriority([{ title: "Head of Design" }, { title: "Buyer" }, { title: "Head of Procurement" }], customRules);
+    expect(sorted.map(m => m.title)).toEqual(["Head of Procurement", "Buyer", "Head of Design"]);
+  });
+});
+
+describe("builtInTierRules", () => {
+  it("should keep the VC rules for the vc template and seniority rules for the others", () => {
+    expect(builtInTierRules("vc")).toBe(VC_TIER_RULES);
+    expect(builtInTierRules(null)).toBe(VC_TIER_RULES);
+    expect(classifyTitle("CFO", builtInTierRules("vc")).tier).toBe("Exclude");
+    expect(classifyTitle("CFO", builtInTierRules("b2b")).tier).toBe("Tier 1");
+    expect(classifyTitle("Software Engineer", builtInTierRules("b2b")).tier).toBe("Tier 3");
+    expect(classifyTitle("Medical Director", builtInTierRules("healthcare")).tier).toBe("Tier 1");
+    expect(classifyTitle("Realtor", builtInTierRules("realestate")).tier).toBe("Tier 3");
+  });
+
+  it("should not let a Tier 1 word inside a more specific title win", () => {
+    const rules = builtInTierRules("b2b");
+    expect(classifyTitle("Senior Vice President", rules)).toMatchObject({ tier: "Tier 2", matched: "vice president" });
+    expect(classifyTitle("Vice President of Sales", rules)).toMatchObject({ tier: "Tier 2", matched: "vice president" });
+    expect(classifyTitle("Vice Chair", rules)).toMatchObject({ tier: "Tier 2", matched: "vice chair" });
+    expect(classifyTitle("Chief of Staff", rules)).toMatchObject({ tier: "Tier 2", matched: "chief of staff" });
+    expect(classifyTitle("President", rules).tier).toBe("Tier 1");
+    expect(classifyTitle("Chief Revenue Officer", rules).tier).toBe("Tier 1");
+  });
+
+  it("should validate against the rules schema", () => {
+    expect(tierRulesSchema.safeParse(VC_TIER_RULES).success).toBe(true);
+    expect(tierRulesSchema.safeParse({ ...customRules, patterns: [{ pattern: "ceo", tier: "Tier 9" }] }).success).toBe(false);
+  });
+});
+
+describe("parseTierRuleSet", () => {
+  const row = (rules: string, defaultTemplates: string[]) => ({
+    id: 5, userId: 1, name: "Custom", rules, defaultTemplates: JSON.stringify(defaultTemplates), createdAt: new Date(), updatedAt: new Date(),
+  });
+
+  it("should fall back to the built-ins of the set's template when the stored rules are invalid", () => {
+    const broken = row(JSON.stringify({ ...customRules, patterns: [{ pattern: "ceo", tier: "Tier 9" }] }), ["healthcare", "b2b"]);
+    expect(parseTierRuleSet(broken).rules).toEqual(builtInTierRules("healthcare"));
+    expect(parseTierRuleSet(broken, "b2b").rules).toEqual(builtInTierRules("b2b"));
+    expect(parseTierRuleSet(row("not json", [])).rules).toBe(VC_TIER_RULES);
+    expect(parseTierRuleSet(row(JSON.stringify(customRules), ["b2b"])).rules).toEqual(customRules);
+  });
+});
+
+describe("LLM fallback", () => {
+  beforeEach(() => {
+    mockLLM.mockReset();
+  });
+
+  it("should ask the LLM only about unmatched titles and cache its answers", async () => {
+    mockLLM.mockResolvedValue(llmReply({ tier: "Tier 2", reasoning: "Runs the purchasing budget" }));
+    const classify = createTierClassifier({ ...customRules, llmFallback: true }, "ecommerce");
+
+    expect(await classify("Buyer")).toMatchObject({ tier: "Tier 2", matchedBy: "pattern" });
+    expect(mockLLM).not.toHaveBeenCalled();
+
+    expect(await classify("Category Owner")).toMatchObject({ tier: "Tier 2", matchedBy: "llm" });
+    expect(await classify("category owner")).toMatchObject({ tier: "Tier 2", matchedBy: "llm" });
+    expect(mockLLM).toHaveBeenCalledTimes(1);
+    expect(mockLLM.mock.calls[0][0].messages[0].content).toContain('Job title: "Category Owner"');
+  });
+
+  it("should fall back to the default tier when the LLM fails", async () => {
+    mockLLM.mockRejectedValue(new Error("rate limited"));
+    const classify = createTierClassifier({ ...customRules, llmFallback: true, fallbackKeywords: ["ops"] });
+    expect(await classify("Head Gardener Emeritus Ops")).toMatchObject({ tier: "Tier 3", matchedBy: "pattern" });
+    expect(await classify("Growth Hacker")).toMatchObject({ tier: "Exclude", matchedBy: "default" });
+  });
+
+  it("should preview without the LLM unless asked", async () => {
+    mockLLM.mockResolvedValue(llmReply({ tier: "Tier 1", reasoning: "Owns the P&L" }));
+    const rules = { ...customRules, llmFallback: true, patterns: [...customRules.patterns, { pattern: "gm", tier: "Tier 1" as const }] };
+
+    const rows = await previewTierRules(rules, ["Buyer", "Country Lead"]);
+    expect(rows.map(r => [r.title, r.tier, r.matchedBy])).toEqual([["Buyer", "Tier 2", "pattern"], ["Country Lead", "Exclude", "default"]]);
+    expect(mockLLM).not.toHaveBeenCalled();
+
+    const withLlm = await previewTierRules(rules, ["Country Lead"], { useLlm: true });
+    expect(withLlm[0]).toMatchObject({ tier: "Tier 1", matchedBy: "llm" });
+  });
+});
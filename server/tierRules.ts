@@ -0,0 +1,400 @@
+/**
+ * Decision-Maker Tier Rules
+ *
+ * Which rules classify a job's team members (decisionMakerTiers.ts has the engine):
+ * - the user's rule set marked as the default for the job's template, else
+ * - the built-in rules: VC_TIER_RULES for "vc", seniority-based rules for every other template.
+ *
+ * Rule sets with llmFallback on ask the LLM about titles none of their rules match, instead of
+ * using the keyword / default tier. Answers are cached per rule set and title.
+ */
+
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { tierRuleSets, type TierRuleSet } from "../drizzle/schema";
+import { getDb } from "./db";
+import { getEnrichmentJob } from "./enrichmentDb";
+import { queuedLLMCall } from "./_core/llmQueue";
+import {
+  DECISION_MAKER_TIERS,
+  TIER_PRIORITY,
+  VC_TIER_RULES,
+  classifyTitle,
+  type DecisionMakerTier,
+  type TierClassification,
+  type TierPattern,
+  type TierRules,
+} from "./decisionMakerTiers";
+
+const tierSchema = z.enum(DECISION_MAKER_TIERS as [DecisionMakerTier, ...DecisionMakerTier[]]);
+const patternText = z.string().trim().min(1).max(100);
+const tierPatternSchema = z.object({ pattern: patternText, tier: tierSchema });
+
+export const tierRulesSchema = z.object({
+  tierDescriptions: z.object({
+    "Tier 1": z.string().max(200),
+    "Tier 2": z.string().max(200),
+    "Tier 3": z.string().max(200),
+    Exclude: z.string().max(200),
+  }),
+  emptyTitleTier: tierSchema,
+  departments: z.array(tierPatternSchema).max(200),
+  exclusions: z.array(patternText).max(200),
+  patterns: z.array(tierPatternSchema).max(500),
+  fallbackKeywords: z.array(patternText).max(200),
+  keywordTier: tierSchema,
+  defaultTier: tierSchema,
+  llmFallback: z.boolean(),
+});
+
+// ---------------------------------------------------------------------------
+// Built-in rules
+// ---------------------------------------------------------------------------
+
+const tierPatterns = (patterns: string[], tier: DecisionMakerTier): TierPattern[] => patterns.map(pattern => ({ pattern, tier }));
+
+/** Seniority-based rules for non-VC templates: unknown titles are kept (Tier 3), not excluded */
+export const GENERIC_TIER_RULES: TierRules = {
+  tierDescriptions: {
+    "Tier 1": "Owner / Executive - Signs off on decisions and budgets",
+    "Tier 2": "Senior Leader - Runs a function or team",
+    "Tier 3": "Manager / Specialist - Evaluates and influences decisions",
+    Exclude: "Support, junior or former role",
+  },
+  emptyTitleTier: "Tier 3",
+  departments: [],
+  exclusions: ["assistant", "intern", "receptionist", "student", "volunteer", "former", "retired", "board observer"],
+  // First match wins, so titles that contain a Tier 1 word ("Vice President", "Chief of Staff") come first
+  patterns: [
+    ...tierPatterns(["vice president", "vice chairman", "vice chairwoman", "vice chair", "chief of staff"], "Tier 2"),
+    ...tierPatterns([
+      "owner", "co-owner", "founder", "co-founder", "cofounder", "proprietor",
+      "ceo", "chief executive officer", "president", "chairman", "chairwoman", "chair",
+      "chief", "cfo", "coo", "cto", "cmo", "cio", "managing director", "managing partner",
+      "general manager", "partner", "principal",
+    ], "Tier 1"),
+    ...tierPatterns(["svp", "evp", "vp", "director", "head"], "Tier 2"),
+    ...tierPatterns(["manager", "lead", "supervisor", "senior", "specialist", "consultant", "advisor"], "Tier 3"),
+    ...tierPatterns(["coordinator", "administrator", "clerk", "support", "customer service"], "Exclude"),
+  ],
+  fallbackKeywords: [],
+  keywordTier: "Tier 3",
+  defaultTier: "Tier 3",
+  llmFallback: false,
+};
+
+/** Template-specific patterns checked before the generic ones */
+const TEMPLATE_PATTERNS: Record<string, TierPattern[]> = {
+  healthcare: [
+    ...tierPatterns(["practice owner", "medical director", "chief medical officer", "administrator"], "Tier 1"),
+    ...tierPatterns(["practice manager", "office manager", "nurse manager", "department chair"], "Tier 2"),
+    ...tierPatterns(["physician", "surgeon", "dentist", "doctor", "md", "nurse practitioner", "physician assistant"], "Tier 3"),
+    ...tierPatterns(["medical assistant", "scheduler", "billing"], "Exclude"),
+  ],
+  realestate: [
+    ...tierPatterns(["principal broker", "managing broker", "broker of record", "broker owner", "team leader"], "Tier 1"),
+    ...tierPatterns(["broker", "sales manager"], "Tier 2"),
+    ...tierPatterns(["realtor", "agent", "salesperson", "associate broker"], "Tier 3"),
+    ...tierPatterns(["transaction coordinator", "showing assistant"], "Exclude"),
+  ],
+};
+
+/**
+ * Built-in rules for a template
+ */
+export function builtInTierRules(template: string | null | undefined): TierRules {
+  if (!template || template === "vc") return VC_TIER_RULES;
+  const extra = TEMPLATE_PATTERNS[template];
+  return extra ? { ...GENERIC_TIER_RULES, patterns: [...extra, ...GENERIC_TIER_RULES.patterns] } : GENERIC_TIER_RULES;
+}
+
+// ---------------------------------------------------------------------------
+// Rule set CRUD
+// ---------------------------------------------------------------------------
+
+export interface ParsedTierRuleSet {
+  id: number;
+  name: string;
+  rules: TierRules;
+  defaultTemplates: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Parse a stored rule set. Stored rules that no longer validate fall back to the built-ins of
+ * `template` (by default the first template the set is the default for) rather than failing
+ * every job that uses them.
+ */
+export function parseTierRuleSet(row: TierRuleSet, template?: string | null): ParsedTierRuleSet {
+  let defaultTemplates: string[] = [];
+  try {
+    defaultTemplates = row.defaultTemplates ? JSON.parse(row.defaultTemplates) : [];
+  } catch {
+    // Treated as the default for nothing
+  }
+  let rules: TierRules;
+  try {
+    rules = tierRulesSchema.parse(JSON.parse(row.rules));
+  } catch (err) {
+    console.warn(`[tierRules] Rule set ${row.id} has invalid rules:`, err instanceof Error ? err.message : err);
+    rules = builtInTierRules(template ?? defaultTemplates[0]);
+  }
+  return { id: row.id, name: row.name, rules, defaultTemplates, createdAt: row.createdAt, updatedAt: row.updatedAt };
+}
+
+export async function createTierRuleSet(
+  userId: number,
+  values: { name: string; rules: TierRules; defaultTemplates?: string[] },
+): Promise<TierRuleSet> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(tierRuleSets).values({
+    userId,
+    name: values.name,
+    rules: JSON.stringify(values.rules),
+    defaultTemplates: JSON.stringify(values.defaultTemplates ?? []),
+  });
+  const created = (await getTierRuleSet(Number(result[0].insertId)))!;
+  if (values.defaultTemplates?.length) await releaseDefaultTemplates(created, values.defaultTemplates);
+  jobClassifiers.clear();
+  return created;
+}
+
+export async function getTierRuleSet(id: number): Promise<TierRuleSet | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(tierRuleSets).where(eq(tierRuleSets.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getUserTierRuleSets(userId: number): Promise<TierRuleSet[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(tierRuleSets).where(eq(tierRuleSets.userId, userId)).orderBy(tierRuleSets.createdAt);
+}
+
+export async function updateTierRuleSet(
+  ruleSet: TierRuleSet,
+  updates: { name?: string; rules?: TierRules; defaultTemplates?: string[] },
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(tierRuleSets).set({
+    ...(updates.name !== undefined ? { name: updates.name } : {}),
+    ...(updates.rules ? { rules: JSON.stringify(updates.rules) } : {}),
+    ...(updates.defaultTemplates ? { defaultTemplates: JSON.stringify(updates.defaultTemplates) } : {}),
+  }).where(eq(tierRuleSets.id, ruleSet.id));
+  if (updates.defaultTemplates?.length) await releaseDefaultTemplates(ruleSet, updates.defaultTemplates);
+  jobClassifiers.clear();
+}
+
+export async function deleteTierRuleSet(ruleSet: TierRuleSet): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(tierRuleSets).where(eq(tierRuleSets.id, ruleSet.id));
+  jobClassifiers.clear();
+}
+
+/**
+ * A template has at most one default rule set per user — remove the templates `ruleSet`
+ * just claimed from the user's other sets
+ */
+async function releaseDefaultTemplates(ruleSet: TierRuleSet, templates: string[]): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  for (const other of await getUserTierRuleSets(ruleSet.userId)) {
+    if (other.id === ruleSet.id) continue;
+    const current = parseTierRuleSet(other).defaultTemplates;
+    const remaining = current.filter(t => !templates.includes(t));
+    if (remaining.length === current.length) continue;
+    await db.update(tierRuleSets)
+      .set({ defaultTemplates: JSON.stringify(remaining) })
+      .where(and(eq(tierRuleSets.id, other.id), eq(tierRuleSets.userId, ruleSet.userId)));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+export interface ResolvedTierRules {
+  rules: TierRules;
+  /** Rule set id, or null for the built-in rules */
+  ruleSetId: number | null;
+  name: string;
+}
+
+/**
+ * The rules for a user's jobs with `template`
+ */
+export async function resolveTierRules(userId: number, template: string | null | undefined): Promise<ResolvedTierRules> {
+  const templateId = template || "vc";
+  const sets = (await getUserTierRuleSets(userId)).map((row) => parseTierRuleSet(row, templateId));
+  const set = sets.find(s => s.defaultTemplates.includes(templateId));
+  return set
+    ? { rules: set.rules, ruleSetId: set.id, name: set.name }
+    : { rules: builtInTierRules(templateId), ruleSetId: null, name: `Built-in (${templateId})` };
+}
+
+/**
+ * The resolved rules for a new job, stored on it (enrichmentJobs.tierRulesJson) so editing a
+ * rule set doesn't reclassify a job that is already running
+ */
+export async function snapshotTierRules(userId: number, template: string | null | undefined): Promise<string> {
+  return JSON.stringify(await resolveTierRules(userId, template));
+}
+
+function parseTierRulesSnapshot(jobId: number, json: string | null): TierRules | null {
+  if (!json) return null;
+  try {
+    return tierRulesSchema.parse(JSON.parse(json).rules);
+  } catch (err) {
+    console.warn(`[tierRules] Job ${jobId} has an invalid tier rules snapshot:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Classification with LLM fallback
+// ---------------------------------------------------------------------------
+
+export type TierClassifier = (title: string) => Promise<TierClassification>;
+
+/** LLM answers per rule set (JSON) and lower-cased title */
+const llmTierCache = new Map<string, Map<string, TierClassification>>();
+const LLM_TIER_CACHE_MAX_TITLES = 5000;
+
+async function classifyWithLlm(title: string, rules: TierRules, template: string): Promise<TierClassification | null> {
+  const tierList = DECISION_MAKER_TIERS.map(t => `- ${t}: ${rules.tierDescriptions[t]}`).join("\n");
+  const examples = rules.patterns.slice(0, 40).map(p => `"${p.pattern}" → ${p.tier}`).join(", ");
+  try {
+    const response = await queuedLLMCall({
+      task: "default",
+      messages: [{
+        role: "user",
+        content: `Classify this job title for a "${template}" prospecting list into one decision-maker tier.\n\nTiers:\n${tierList}\n\nExample rules: ${examples || "none"}\n\nJob title: "${title}"`,
+      }],
+      temperature: 0,
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "tier_classification",
+          strict: true,
+          schema: {
+            type: "object",
+            properties: {
+              tier: { type: "string", enum: DECISION_MAKER_TIERS },
+              reasoning: { type: "string" },
+            },
+            required: ["tier", "reasoning"],
+            additionalProperties: false,
+          },
+        },
+      },
+    });
+    const raw = response.choices[0]?.message?.content ?? "{}";
+    const parsed = JSON.parse(typeof raw === "string" ? raw : "{}");
+    const tier = tierSchema.safeParse(parsed.tier);
+    if (!tier.success) return null;
+    return {
+      tier: tier.data,
+      priority: TIER_PRIORITY[tier.data],
+      description: `${rules.tierDescriptions[tier.data]} (llm: ${String(parsed.reasoning ?? "").slice(0, 200)})`,
+      matchedBy: "llm",
+    };
+  } catch (err) {
+    console.warn(`[tierRules] LLM tier fallback failed for "${title}":`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/**
+ * Classifier for a rule set. Titles no rule matches go to the LLM when the set has
+ * llmFallback on; if the LLM fails they get the keyword / default tier.
+ */
+export function createTierClassifier(rules: TierRules, template = "vc"): TierClassifier {
+  const cacheKey = JSON.stringify(rules);
+  return async (title) => {
+    const classification = classifyTitle(title, rules);
+    if (!rules.llmFallback || (classification.matchedBy !== "keyword" && classification.matchedBy !== "default")) {
+      return classification;
+    }
+
+    let cache = llmTierCache.get(cacheKey);
+    if (!cache) {
+      cache = new Map();
+      llmTierCache.set(cacheKey, cache);
+    }
+    const titleKey = title.toLowerCase().trim();
+    const cached = cache.get(titleKey);
+    if (cached) return cached;
+
+    const answer = await classifyWithLlm(title, rules, template);
+    if (!answer) return classification;
+    if (cache.size >= LLM_TIER_CACHE_MAX_TITLES) cache.clear();
+    cache.set(titleKey, answer);
+    return answer;
+  };
+}
+
+const JOB_CLASSIFIER_TTL_MS = 60_000;
+const jobClassifiers = new Map<number, { classifier: TierClassifier; expiresAt: number }>();
+
+/**
+ * Classifier for a job's team members: the rules snapshotted when it was created, or for
+ * jobs created before snapshots its owner's current rules for its template. Cached for a
+ * minute (or until a rule set changes) so saving each firm doesn't reload the job; falls back to the
+ * built-ins of the job's template (VC when the job itself can't be read) when the database fails.
+ */
+export async function getJobTierClassifier(jobId: number): Promise<TierClassifier> {
+  const cached = jobClassifiers.get(jobId);
+  if (cached && cached.expiresAt > Date.now()) return cached.classifier;
+
+  let classifier: TierClassifier;
+  let template = "vc";
+  try {
+    const job = await getEnrichmentJob(jobId);
+    template = job?.template || "vc";
+    const rules = job
+      ? parseTierRulesSnapshot(jobId, job.tierRulesJson) ?? (await resolveTierRules(job.userId, template)).rules
+      : VC_TIER_RULES;
+    classifier = createTierClassifier(rules, template);
+  } catch (err) {
+    console.warn(`[tierRules] Could not load tier rules for job ${jobId}, using the built-in ${template} rules:`, err instanceof Error ? err.message : err);
+    classifier = createTierClassifier(builtInTierRules(template), template);
+  }
+  jobClassifiers.set(jobId, { classifier, expiresAt: Date.now() + JOB_CLASSIFIER_TTL_MS });
+  return classifier;
+}
+
+// ---------------------------------------------------------------------------
+// Preview
+// ---------------------------------------------------------------------------
+
+export interface TierPreviewRow extends TierClassification {
+  title: string;
+}
+
+/**
+ * Classify sample titles with (unsaved) rules — the Dashboard's "test rules" box.
+ * Without useLlm, unmatched titles show the keyword / default tier instead of calling the LLM.
+ */
+export async function previewTierRules(
+  rules: TierRules,
+  titles: string[],
+  options: { useLlm?: boolean; template?: string } = {},
+): Promise<TierPreviewRow[]> {
+  const classify = createTierClassifier({ ...rules, llmFallback: rules.llmFallback && !!options.useLlm }, options.template);
+  const rows: TierPreviewRow[] = [];
+  for (const title of titles) {
+    rows.push({ title, ...(await classify(title)) });
+  }
+  return rows;
+}
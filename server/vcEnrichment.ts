@@ -15,9 +15,23 @@ import { findPersonByName } from './nameNormalization';
 import axios from "axios";
 import * as cheerio from "cheerio";
 import { fetchViaJina, fetchWebsiteContentHybrid, fetchStats } from "./jinaFetcher";
+import { getCacheLayer } from "./scraper/CacheLayer";
+import { acquireCrawlPermit, isCrawlAllowed } from "./crawlPolicy";
 import { scrapeComprehensively, getTeamSpecificContent, getPortfolioSpecificContent, aggregateAllContent, type ComprehensiveScrapingResult } from "./comprehensiveMultiPageScraper";
 import { scrapeRecursively, type RecursiveScrapingResult } from "./recursiveScraper";
 import { type ScrapeProfile, VC_PROFILE } from "./scrapeProfile";
+import { extractEmails, inferTeamEmails, type EmailPattern, type EmailVerification } from "./emailInference";
+import {
+  extractStructuredData,
+  fetchStructuredData,
+  formatLocation,
+  foundingYear,
+  looksLikeHtml,
+  mergeStructuredData,
+  organizationPeople,
+  primaryOrganization,
+  type StructuredData,
+} from "./structuredData";
 
 /**
  * Extract emails from HTML and try to match them to team member names
@@ -92,6 +106,12 @@ function extractEmailsFromHTML(html: string, memberNames: string[]): Map<string,
   return emailMap;
 }
 
+/**
+ * "High" / "Medium" / "Low" from extraction; a results row rebuilt from saved rows (resultReuse.ts)
+ * carries the stored numeric score, or null when none was saved
+ */
+export type ConfidenceScore = string | number | null;
+
 interface TeamMember {
   name: string;
   title: string;
@@ -110,7 +130,11 @@ interface TeamMember {
   yearsExperience: string;
   background: string;
   dataSourceUrl: string;
-  confidenceScore: string;
+  confidenceScore: ConfidenceScore;
+  // Set by email inference (emailInference.ts)
+  emailPattern?: EmailPattern | null;
+  emailConfidence?: number;
+  emailVerification?: EmailVerification;
 }
 
 interface PortfolioCompany {
@@ -119,7 +143,7 @@ interface PortfolioCompany {
   websiteUrl: string;
   investmentNiche: string[];
   dataSourceUrl: string;
-  confidenceScore: string;
+  confidenceScore: ConfidenceScore;
   investmentStage?: string;
   sector?: string;
   extractionMethod?: string;
@@ -132,13 +156,14 @@ export interface EnrichmentResult {
   websiteVerified: boolean;
   verificationMessage: string;
   investorType: string[];
-  investorTypeConfidence: string;
+  // "High" / "Medium" / "Low"; undefined when rebuilt from a saved firm without a score
+  investorTypeConfidence: string | undefined;
   investorTypeSourceUrl: string;
   investmentStages: string[];
-  investmentStagesConfidence: string;
+  investmentStagesConfidence: string | undefined;
   investmentStagesSourceUrl: string;
   investmentNiches: string[];
-  nichesConfidence: string;
+  nichesConfidence: string | undefined;
   nichesSourceUrl: string;
   teamMembers: TeamMember[];
   portfolioCompanies: PortfolioCompany[];
@@ -212,6 +237,9 @@ async function retryWithBackoff<T>(
   throw lastError || new Error('Max retry attempts reached');
 }
 
+/** fetchWebpage's signature; the extract* helpers take one so enrichVCFirm can pass collectingFetch */
+type PageFetcher = (url: string, useBrowser?: boolean) => Promise<string | null>;
+
 export class VCEnrichmentService {
   private profile: ScrapeProfile;
 
@@ -219,7 +247,116 @@ export class VCEnrichmentService {
     this.profile = profile ?? VC_PROFILE;
   }
 
+  /**
+   * fetchWebpage that also collects every email address on the fetched pages (for email pattern
+   * inference) and the structured data of pages that come back as HTML
+   */
+  private collectingFetch(emails: Set<string>, structuredPages: StructuredData[]): PageFetcher {
+    return async (url, useBrowser = false) => {
+      const html = await this.fetchWebpage(url, useBrowser);
+      if (html) {
+        extractEmails(html).forEach((email) => emails.add(email));
+        if (looksLikeHtml(html)) structuredPages.push(extractStructuredData(html, url));
+      }
+      return html;
+    };
+  }
+
+  /**
+   * Fill founded year / headquarters and team members from schema.org data the site publishes.
+   * Structured values are authoritative: they fill gaps, and people found there are High confidence.
+   * enrichVCFirm runs it on the homepage before any LLM extraction, and again on the HTML pages
+   * the crawl came back with.
+   */
+  private applyStructuredData(result: EnrichmentResult, structuredPages: StructuredData[]): void {
+    if (structuredPages.length === 0) return;
+    const structured = mergeStructuredData(structuredPages);
+    const org = primaryOrganization(structured);
+
+    const foundedYear = foundingYear(org?.foundingDate);
+    const headquarters = formatLocation(org?.address);
+    if (foundedYear || headquarters) {
+      result.firmData = {
+        ...result.firmData,
+        foundedYear: result.firmData?.foundedYear || foundedYear || undefined,
+        headquarters: result.firmData?.headquarters || headquarters || undefined,
+      };
+    }
+
+    let added = 0;
+    for (const person of organizationPeople(structured, org?.name ?? result.companyName)) {
+      const existing = findPersonByName(result.teamMembers, person.name);
+      if (existing) {
+        existing.title = existing.title || person.jobTitle || "";
+        existing.linkedinUrl = existing.linkedinUrl || person.linkedinUrl || "";
+        existing.email = existing.email || person.email || "";
+        existing.confidenceScore = "High";
+        continue;
+      }
+      result.teamMembers.push({
+        name: person.name,
+        title: person.jobTitle ?? "",
+        jobFunction: "",
+        specialization: "",
+        linkedinUrl: person.linkedinUrl ?? "",
+        email: person.email ?? "",
+        portfolioCompanies: "",
+        investmentFocus: "",
+        stagePreference: "",
+        checkSizeRange: "",
+        geographicFocus: "",
+        investmentThesis: "",
+        notableInvestments: "",
+        yearsExperience: "",
+        background: "",
+        dataSourceUrl: person.url || structured.url,
+        confidenceScore: "High",
+      });
+      added++;
+    }
+    console.log(`[enrichVCFirm] 🏷️ Structured data: ${structured.people.length} people (${added} new), founded=${foundedYear || "N/A"}, HQ=${headquarters || "N/A"}`);
+  }
+
+  /**
+   * Add LLM-extracted team members to the ones already known (structured data): known people keep
+   * their values and only get empty fields filled
+   */
+  private mergeTeamMembers(result: EnrichmentResult, extracted: TeamMember[]): void {
+    for (const member of extracted) {
+      const existing = findPersonByName(result.teamMembers, member.name);
+      if (!existing) {
+        result.teamMembers.push(member);
+        continue;
+      }
+      for (const key of Object.keys(member) as Array<keyof TeamMember>) {
+        if (!existing[key] && member[key]) Object.assign(existing, { [key]: member[key] });
+      }
+    }
+  }
+
+  /**
+   * Learn the firm's email pattern and fill in / verify team member emails. Never fails the enrichment.
+   */
+  private async applyEmailInference(result: EnrichmentResult, crawlEmails: Set<string>): Promise<void> {
+    if (result.teamMembers.length === 0) return;
+    try {
+      const inferred = await inferTeamEmails(result.teamMembers, result.websiteUrl, Array.from(crawlEmails));
+      inferred.forEach((email, index) => {
+        const member = result.teamMembers[index];
+        member.email = email.email;
+        member.emailPattern = email.pattern;
+        member.emailConfidence = email.confidence;
+        member.emailVerification = email.verification;
+      });
+      console.log(`[enrichVCFirm] 📧 Email inference: ${inferred.size}/${result.teamMembers.length} members have an email`);
+    } catch (error) {
+      console.warn(`[enrichVCFirm] Email inference failed for ${result.companyName}:`, error);
+    }
+  }
+
   private async fetchWebpage(url: string, useBrowser = false): Promise<string | null> {
+    if (!(await isCrawlAllowed(url))) return null;
+
     // Hybrid approach: Try Jina first (fast), fallback to Puppeteer (reliable)
     const isTeamPage = url.includes('/team') || url.includes('/people') || url.includes('/about');
     const puppeteerTimeout = isTeamPage ? 20000 : 45000;
@@ -251,7 +388,7 @@ export class VCEnrichmentService {
     // Use hybrid approach if useBrowser is true or it's a team/people/about page
     if (useBrowser || isTeamPage) {
       console.log(`[Fetch] Using Jina + Puppeteer hybrid for: ${url}`);
-      const result = await fetchWebsiteContentHybrid(url, puppeteerFallback);
+      const result = await fetchWebsiteContentHybrid(url, puppeteerFallback, { cacheTTL: 7 * 24 * 60 * 60 });
       
       if (result.success && result.content) {
         if (result.source === 'jina') {
@@ -262,12 +399,19 @@ export class VCEnrichmentService {
       return null;
     }
     
-    // For other pages, try Jina first, then axios
+    // For other pages, try the page cache, then Jina, then axios
+    const cacheKey = `page:${url}`;
+    const cached = await getCacheLayer().get<string>(cacheKey);
+    if (cached) {
+      console.log(`[Fetch] Cache hit for ${url}`);
+      return cached;
+    }
     try {
       console.log(`[Fetch] Trying Jina for: ${url}`);
       const jinaResult = await fetchViaJina(url);
       if (jinaResult?.success && jinaResult.content) {
         fetchStats.recordJinaSuccess(jinaResult.duration);
+        await getCacheLayer().set(cacheKey, jinaResult.content, 7 * 24 * 60 * 60, url);
         return jinaResult.content;
       }
       fetchStats.recordJinaFailure();
@@ -278,6 +422,7 @@ export class VCEnrichmentService {
     
     // Fallback to axios
     try {
+      if (!(await acquireCrawlPermit(url))) return null;
       console.log(`[Fetch] Falling back to axios for: ${url}`);
       const response = await axios.get(url, {
         timeout: 30000,
@@ -286,6 +431,9 @@ export class VCEnrichmentService {
             "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
         },
       });
+      if (typeof response.data === "string" && response.data) {
+        await getCacheLayer().set(cacheKey, response.data, 7 * 24 * 60 * 60, url);
+      }
       return response.data;
     } catch (error) {
       console.log(`[Fetch] All fetch methods failed for ${url}`);
@@ -304,6 +452,10 @@ export class VCEnrichmentService {
     for (const tryUrl of urlVariants) {
       try {
         console.log(`[FetchForVerification] Trying URL: ${tryUrl}`);
+        if (!(await isCrawlAllowed(tryUrl))) {
+          lastError = new Error(`Disallowed by crawl policy: ${tryUrl}`);
+          continue;
+        }
         
         // Try scraper first for JS-rendered sites
         const { scrapeWebsite } = await import('./scraper');
@@ -559,8 +711,9 @@ Respond with ONLY "YES" or "NO" followed by a brief explanation (one sentence).`
   async extractInvestmentNiches(
     url: string,
     companyName: string,
+    fetchPage: PageFetcher = (pageUrl, useBrowser) => this.fetchWebpage(pageUrl, useBrowser),
   ): Promise<{ niches: string[]; sourceUrl: string; confidence: string }> {
-    const html = await this.fetchWebpage(url);
+    const html = await fetchPage(url);
     if (!html) {
       return { niches: [], sourceUrl: url, confidence: "Low" };
     }
@@ -588,6 +741,7 @@ If you cannot determine the investment focus, return: {"niches": []}`;
 
     try {
       const response = await invokeLLM({
+        task: "profile_extraction",
         messages: [{ role: "user", content: prompt }],
         response_format: {
           type: "json_schema",
@@ -625,8 +779,9 @@ If you cannot determine the investment focus, return: {"niches": []}`;
     url: string,
     companyName: string,
     description: string,
+    fetchPage: PageFetcher = (pageUrl, useBrowser) => this.fetchWebpage(pageUrl, useBrowser),
   ): Promise<{ types: string[]; sourceUrl: string; confidence: string }> {
-    const html = await this.fetchWebpage(url);
+    const html = await fetchPage(url);
     if (!html) {
       return { types: [], sourceUrl: url, confidence: "Low" };
     }
@@ -654,6 +809,7 @@ If you cannot determine the investor type, return: {"types": []}`;
 
     try {
       const response = await invokeLLM({
+        task: "profile_extraction",
         messages: [{ role: "user", content: prompt }],
         response_format: {
           type: "json_schema",
@@ -691,8 +847,9 @@ If you cannot determine the investor type, return: {"types": []}`;
     url: string,
     companyName: string,
     description: string,
+    fetchPage: PageFetcher = (pageUrl, useBrowser) => this.fetchWebpage(pageUrl, useBrowser),
   ): Promise<{ stages: string[]; sourceUrl: string; confidence: string }> {
-    const html = await this.fetchWebpage(url);
+    const html = await fetchPage(url);
     if (!html) {
       return { stages: [], sourceUrl: url, confidence: "Low" };
     }
@@ -720,6 +877,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
 
     try {
       const response = await invokeLLM({
+        task: "profile_extraction",
         messages: [{ role: "user", content: prompt }],
         response_format: {
           type: "json_schema",
@@ -760,9 +918,18 @@ If you cannot determine the investment stages, return: {"stages": []}`;
     options: {
       deepProfileScraping?: boolean;
       maxProfiles?: number;
+      /** Page fetcher, e.g. collectingFetch (defaults to fetchWebpage) */
+      fetchPage?: PageFetcher;
+      /** People already complete (structured data) — deep scraping skips their profile pages */
+      knownMembers?: TeamMember[];
     } = {}
   ): Promise<TeamMember[]> {
-    const { deepProfileScraping = false, maxProfiles = 200 } = options;
+    const {
+      deepProfileScraping = false,
+      maxProfiles = 200,
+      fetchPage = (pageUrl: string, useBrowser?: boolean) => this.fetchWebpage(pageUrl, useBrowser),
+      knownMembers = [],
+    } = options;
     
     console.log(`\n========================================`);
     console.log(`[extractTeamMembers] Starting for: ${companyName}`);
@@ -790,11 +957,12 @@ If you cannot determine the investment stages, return: {"stages": []}`;
         const deepResult = await deepScrapeTeamMembers(
           html,
           url,
-          this.fetchWebpage.bind(this),
+          fetchPage,
           {
             maxProfiles,
             delayBetweenProfiles: 1500,
             enabled: true,
+            skipPeople: knownMembers,
           }
         );
         
@@ -815,7 +983,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       if (url.includes("accel.com")) {
         const accelGlobalUrl = `${url}/team#global`.replace(/\/+/g, "/").replace(":/", "://");
         console.log(`[extractTeamMembers] Accel detected, using global view: ${accelGlobalUrl}`);
-        html = await this.fetchWebpage(accelGlobalUrl, true);
+        html = await fetchPage(accelGlobalUrl, true);
         if (html && html.length > 1000) {
           console.log(`[extractTeamMembers] Accel global page loaded successfully`);
           teamUrl = accelGlobalUrl;
@@ -841,7 +1009,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
 
       for (const tryUrl of teamUrls) {
         console.log(`[extractTeamMembers] Trying URL: ${tryUrl}`);
-        html = await this.fetchWebpage(tryUrl, true);
+        html = await fetchPage(tryUrl, true);
         if (html) {
           console.log(`[extractTeamMembers] Fetched ${html.length} chars from ${tryUrl}`);
           teamUrl = tryUrl;
@@ -898,7 +1066,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
         console.log(`[Team Extraction] Found ${additionalPages.length} additional team pages`);
         
         for (const pageUrl of additionalPages) {
-          const pageHtml = await this.fetchWebpage(pageUrl, true);
+          const pageHtml = await fetchPage(pageUrl, true);
           if (pageHtml) {
             const pageMembers = await extractTeamMembersComprehensive(
               pageHtml,
@@ -930,7 +1098,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
         
         for (const variantUrl of variantUrls) {
           console.log(`[Team Extraction] Fetching variant: ${variantUrl}`);
-          const variantHtml = await this.fetchWebpage(variantUrl, true);
+          const variantHtml = await fetchPage(variantUrl, true);
           
           if (variantHtml) {
             // Add to HTML pages for profile link detection
@@ -1010,7 +1178,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
         const { normalizeName: normalizeNameForBatch } = await import('./nameNormalization');
         await Promise.all(batch.map(async ([memberName, profileUrl]) => {
           try {
-            const profileHtml = await this.fetchWebpage(profileUrl, true);
+            const profileHtml = await fetchPage(profileUrl, true);
             if (profileHtml) {
               const details = await extractTeamMemberDetails(profileHtml, memberName, profileUrl);
               if (details) {
@@ -1138,7 +1306,8 @@ If you cannot determine the investment stages, return: {"stages": []}`;
   async extractPortfolioCompanies(
     url: string,
     companyName: string,
-    multiPageResult?: ComprehensiveScrapingResult
+    multiPageResult?: ComprehensiveScrapingResult,
+    fetchPage: PageFetcher = (pageUrl, useBrowser) => this.fetchWebpage(pageUrl, useBrowser),
   ): Promise<PortfolioCompany[]> {
     const { 
       getPortfolioUrlPatterns, 
@@ -1170,7 +1339,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       // Try each portfolio URL pattern
       for (const tryUrl of portfolioUrls) {
         console.log(`[extractPortfolioCompanies] Trying URL: ${tryUrl}`);
-        html = await this.fetchWebpage(tryUrl, true); // Use browser for JS-rendered content
+        html = await fetchPage(tryUrl, true); // Use browser for JS-rendered content
         if (
           html &&
           (html.toLowerCase().includes("portfolio") || 
@@ -1276,6 +1445,14 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       console.log(`${'='.repeat(80)}\n`);
       onProgress?.(`Starting enrichment for ${companyName}`);
 
+      const crawlEmails = new Set<string>();
+      // Structured data of the HTML pages the crawl comes back with, applied once it's done
+      const structuredPages: StructuredData[] = [];
+      const fetchPage = this.collectingFetch(crawlEmails, structuredPages);
+
+      // Jina markdown drops JSON-LD, so the homepage's raw HTML is read separately
+      const homepageStructured = await fetchStructuredData(websiteUrl).catch(() => null);
+
       const result: EnrichmentResult = {
       companyName,
       websiteUrl,
@@ -1295,6 +1472,11 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       portfolioCompanies: [],
     };
 
+    // Structured data pass first: its people seed the team, and the LLM steps below skip what it
+    // already answers (people with a title and a LinkedIn URL or email aren't extracted again)
+    if (homepageStructured) this.applyStructuredData(result, [homepageStructured]);
+    const knownMembers = result.teamMembers.filter(m => m.title && (m.linkedinUrl || m.email));
+
     // Step 1: Choose extraction strategy
     if (useIterativeExtraction) {
       // Use new iterative LLM-guided extraction
@@ -1308,6 +1490,8 @@ If you cannot determine the investment stages, return: {"stages": []}`;
         {
           maxIterations,
           onProgress,
+          fetchPage,
+          knownTeamMembers: result.teamMembers.map(m => ({ name: m.name, title: m.title, linkedinUrl: m.linkedinUrl || undefined })),
         }
       );
       
@@ -1324,7 +1508,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       result.investmentStagesConfidence = iterativeResult.investmentStages.length > 0 ? "High" : "Low";
       result.investmentNiches = iterativeResult.investmentNiches;
       result.nichesConfidence = iterativeResult.investmentNiches.length > 0 ? "High" : "Low";
-      result.teamMembers = iterativeResult.teamMembers.map((m: any) => ({
+      this.mergeTeamMembers(result, iterativeResult.teamMembers.map((m: any) => ({
         name: m.name,
         title: m.title || "",
         jobFunction: "",
@@ -1342,7 +1526,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
         background: m.background || "",
         dataSourceUrl: websiteUrl,
         confidenceScore: m.linkedinUrl ? "High" : "Low",
-      }));
+      })));
       result.portfolioCompanies = iterativeResult.portfolioCompanies.map((p: any) => ({
         companyName: p.companyName,
         investmentDate: "",
@@ -1361,6 +1545,8 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       onProgress?.(`Completed iterative extraction for ${companyName}`);
       console.log(`[enrichVCFirm] ✅ Iterative extraction completed for ${companyName}\n`);
       
+      this.applyStructuredData(result, structuredPages);
+      await this.applyEmailInference(result, crawlEmails);
       return result;
     }
     
@@ -1372,7 +1558,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       const recursiveResult = await scrapeRecursively(
         companyName,
         websiteUrl,
-        this.fetchWebpage.bind(this),
+        fetchPage,
         {
           maxDepth: maxRecursiveDepth,
           maxPages: maxRecursivePages,
@@ -1381,6 +1567,17 @@ If you cannot determine the investment stages, return: {"stages": []}`;
           goal: 'all',
           enableDeepProfiles: deepTeamProfileScraping,
           profile: this.profile,
+          prefilledTeamMembers: homepageStructured
+            ? organizationPeople(homepageStructured, primaryOrganization(homepageStructured)?.name ?? companyName).map(p => ({
+              name: p.name,
+              title: p.jobTitle ?? '',
+              jobFunction: '',
+              specialization: '',
+              email: p.email,
+              linkedinUrl: p.linkedinUrl,
+              profileUrl: p.url,
+            }))
+            : [],
           onProgress: (msg, stats) => {
             onProgress?.(`${msg} (${stats.teamMembersFound} team, ${stats.portfolioCompaniesFound} portfolio)`);
           }
@@ -1406,9 +1603,9 @@ If you cannot determine the investment stages, return: {"stages": []}`;
         onProgress?.(`Analyzing firm characteristics for ${companyName}`);
         // Run 3 independent extractions in parallel — all need only website content, no shared state
         const [investorTypeData, stagesData, nichesData] = await Promise.all([
-          this.extractInvestorType(websiteUrl, companyName, recursiveResult.firmDescription),
-          this.extractInvestmentStages(websiteUrl, companyName, recursiveResult.firmDescription),
-          this.extractInvestmentNiches(websiteUrl, companyName),
+          this.extractInvestorType(websiteUrl, companyName, recursiveResult.firmDescription, fetchPage),
+          this.extractInvestmentStages(websiteUrl, companyName, recursiveResult.firmDescription, fetchPage),
+          this.extractInvestmentNiches(websiteUrl, companyName, fetchPage),
         ]);
         result.investorType = investorTypeData.types;
         result.investorTypeConfidence = investorTypeData.confidence;
@@ -1422,7 +1619,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       }
       
       // Map recursive results to enrichment result format
-      result.teamMembers = recursiveResult.teamMembers.map(m => ({
+      this.mergeTeamMembers(result, recursiveResult.teamMembers.map(m => ({
         name: m.name,
         title: m.title || '',
         jobFunction: m.jobFunction || '',
@@ -1440,7 +1637,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
         background: m.background || '',
         dataSourceUrl: m.profileUrl || websiteUrl,
         confidenceScore: m.linkedinUrl ? 'High' : (m.email ? 'Medium' : 'Low'),
-      }));
+      })));
       
       result.portfolioCompanies = recursiveResult.portfolioCompanies.map(p => ({
         companyName: p.name,
@@ -1460,6 +1657,8 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       onProgress?.(`Completed recursive scraping for ${companyName}`);
       console.log(`[enrichVCFirm] ✅ Recursive scraping completed for ${companyName}\n`);
       
+      this.applyStructuredData(result, structuredPages);
+      await this.applyEmailInference(result, crawlEmails);
       return result;
     }
     
@@ -1470,7 +1669,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
     const multiPageResult = await scrapeComprehensively(
       companyName,
       websiteUrl,
-      this.fetchWebpage.bind(this),
+      fetchPage,
       {
         maxTeamPages: 5,
         maxPortfolioPages: 3,
@@ -1500,21 +1699,21 @@ If you cannot determine the investment stages, return: {"stages": []}`;
 
     // Step 2: Extract investor type
     onProgress?.(`Identifying investor type for ${companyName}`);
-    const investorTypeData = await this.extractInvestorType(websiteUrl, companyName, description);
+    const investorTypeData = await this.extractInvestorType(websiteUrl, companyName, description, fetchPage);
     result.investorType = investorTypeData.types;
     result.investorTypeConfidence = investorTypeData.confidence;
     result.investorTypeSourceUrl = investorTypeData.sourceUrl;
 
     // Step 3: Extract investment stages
     onProgress?.(`Identifying investment stages for ${companyName}`);
-    const investmentStagesData = await this.extractInvestmentStages(websiteUrl, companyName, description);
+    const investmentStagesData = await this.extractInvestmentStages(websiteUrl, companyName, description, fetchPage);
     result.investmentStages = investmentStagesData.stages;
     result.investmentStagesConfidence = investmentStagesData.confidence;
     result.investmentStagesSourceUrl = investmentStagesData.sourceUrl;
 
     // Step 4: Extract investment niches
     onProgress?.(`Extracting investment niches for ${companyName}`);
-    const niches = await this.extractInvestmentNiches(websiteUrl, companyName);
+    const niches = await this.extractInvestmentNiches(websiteUrl, companyName, fetchPage);
     result.investmentNiches = niches.niches;
     result.nichesConfidence = niches.confidence;
     result.nichesSourceUrl = niches.sourceUrl;
@@ -1526,7 +1725,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       const waterfallData = await waterfallFetchMultiple(websiteUrl, 2, onProgress);
       
       if (waterfallData.combinedText) {
-        const retryTypeData = await this.extractInvestorType(websiteUrl, companyName, waterfallData.combinedText);
+        const retryTypeData = await this.extractInvestorType(websiteUrl, companyName, waterfallData.combinedText, fetchPage);
         if (retryTypeData.confidence === "High" && retryTypeData.types.length > 0) {
           result.investorType = retryTypeData.types;
           result.investorTypeConfidence = "Medium (Waterfall)";
@@ -1543,7 +1742,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       const waterfallData = await waterfallFetchMultiple(websiteUrl, 2, onProgress);
       
       if (waterfallData.combinedText) {
-        const retryStagesData = await this.extractInvestmentStages(websiteUrl, companyName, waterfallData.combinedText);
+        const retryStagesData = await this.extractInvestmentStages(websiteUrl, companyName, waterfallData.combinedText, fetchPage);
         if (retryStagesData.confidence === "High" && retryStagesData.stages.length > 0) {
           result.investmentStages = retryStagesData.stages;
           result.investmentStagesConfidence = "Medium (Waterfall)";
@@ -1560,7 +1759,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
       const waterfallData = await waterfallFetchMultiple(websiteUrl, 2, onProgress);
       
       if (waterfallData.combinedText) {
-        const retryNichesData = await this.extractInvestmentNiches(websiteUrl, companyName);
+        const retryNichesData = await this.extractInvestmentNiches(websiteUrl, companyName, fetchPage);
         if (retryNichesData.confidence === "High" && retryNichesData.niches.length > 0) {
           result.investmentNiches = retryNichesData.niches;
           result.nichesConfidence = "Medium (Waterfall)";
@@ -1575,15 +1774,17 @@ If you cannot determine the investment stages, return: {"stages": []}`;
     if (deepTeamProfileScraping) {
       onProgress?.(`Deep scraping enabled: Following individual profile links (may take longer)`);
     }
-    result.teamMembers = await this.extractTeamMembers(
+    this.mergeTeamMembers(result, await this.extractTeamMembers(
       websiteUrl,
       companyName,
       multiPageResult,
       {
         deepProfileScraping: deepTeamProfileScraping,
         maxProfiles: maxTeamProfiles,
+        fetchPage,
+        knownMembers,
       }
-    );
+    ));
     console.log(`[enrichVCFirm] 👥 Extracted ${result.teamMembers.length} team members`);
     if (deepTeamProfileScraping) {
       console.log(`[enrichVCFirm] 🔍 Deep profile scraping was enabled`);
@@ -1591,7 +1792,7 @@ If you cannot determine the investment stages, return: {"stages": []}`;
 
     // Step 6: Extract portfolio companies (using multi-page content)
     onProgress?.(`Extracting portfolio companies for ${companyName}`);
-    result.portfolioCompanies = await this.extractPortfolioCompanies(websiteUrl, companyName, multiPageResult);
+    result.portfolioCompanies = await this.extractPortfolioCompanies(websiteUrl, companyName, multiPageResult, fetchPage);
     console.log(`[enrichVCFirm] 💼 Extracted ${result.portfolioCompanies.length} portfolio companies`);
 
     // Step 7: Waterfall enrichment for team member specialization
@@ -1630,6 +1831,8 @@ If you cannot determine the investment stages, return: {"stages": []}`;
     onProgress?.(`Completed enrichment for ${companyName}`);
     console.log(`[enrichVCFirm] ✅ Enrichment completed for ${companyName}\n`);
 
+    this.applyStructuredData(result, structuredPages);
+    await this.applyEmailInference(result, crawlEmails);
     return result;
   } catch (error) {
       // CRITICAL: Never throw - always return a result object
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+
+vi.mock("dns", () => ({
+  lookup: vi.fn(),
+}));
+
+import { lookup } from "dns";
+import {
+  endpointWantsEvent,
+  generateWebhookSecret,
+  nextRetryDelay,
+  sendWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./webhooks";
+
+describe("webhook signatures", () => {
+  const secret = generateWebhookSecret();
+  const body = JSON.stringify({ event: "job.completed", jobId: 42 });
+  const now = 1_760_000_000;
+
+  it("should verify a signature produced for the same body and secret", () => {
+    const header = signWebhookPayload(secret, now, body);
+    expect(header).toMatch(/^t=1760000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(secret, header, body, 300, now + 10)).toBe(true);
+  });
+
+  it("should reject tampered bodies, wrong secrets and stale timestamps", () => {
+    const header = signWebhookPayload(secret, now, body);
+    expect(verifyWebhookSignature(secret, header, body.replace("42", "43"), 300, now)).toBe(false);
+    expect(verifyWebhookSignature(generateWebhookSecret(), header, body, 300, now)).toBe(false);
+    expect(verifyWebhookSignature(secret, header, body, 300, now + 301)).toBe(false);
+    expect(verifyWebhookSignature(secret, "garbage", body, 300, now)).toBe(false);
+  });
+});
+
+describe("delivery policy", () => {
+  it("should back off between retries and give up after the last one", () => {
+    expect(nextRetryDelay(1)).toBe(30_000);
+    expect(nextRetryDelay(2)).toBe(120_000);
+    expect(nextRetryDelay(5)).toBe(6 * 60 * 60_000);
+    expect(nextRetryDelay(6)).toBeNull();
+  });
+
+  it("should filter events by the endpoint subscription", () => {
+    const all = { enabled: true, events: null };
+    const some = { enabled: true, events: JSON.stringify(["job.completed", "job.failed"]) };
+    expect(endpointWantsEvent(all, "job.firm_completed")).toBe(true);
+    expect(endpointWantsEvent(some, "job.completed")).toBe(true);
+    expect(endpointWantsEvent(some, "job.firm_completed")).toBe(false);
+    expect(endpointWantsEvent(some, "ping")).toBe(true);
+    expect(endpointWantsEvent({ ...all, enabled: false }, "job.completed")).toBe(false);
+  });
+});
+
+describe("sendWebhook", () => {
+  let resolvedAddress = "93.184.216.34";
+
+  beforeEach(() => {
+    resolvedAddress = "93.184.216.34";
+    vi.mocked(lookup).mockImplementation(((_hostname: string, _options: object, callback: (err: Error | null, addresses: unknown) => void) => {
+      callback(null, [{ address: resolvedAddress, family: 4 }]);
+    }) as unknown as typeof lookup);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should POST the body with event, delivery id and a verifiable signature", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const body = JSON.stringify({ event: "job.failed" });
+    const result = await sendWebhook("https://crm.example.com/hooks", "whsec_test", "dlv_1", "job.failed", body);
+
+    expect(result).toEqual({ ok: true, status: 204 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://crm.example.com/hooks");
+    expect(init.body).toBe(body);
+    expect(init.headers["X-Webhook-Event"]).toBe("job.failed");
+    expect(init.headers["X-Webhook-Delivery"]).toBe("dlv_1");
+    expect(verifyWebhookSignature("whsec_test", init.headers["X-Webhook-Signature"], body)).toBe(true);
+  });
+
+  it("should report non-2xx responses and network errors as failures", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("nope", { status: 500 })));
+    expect(await sendWebhook("https://crm.example.com", "s", "d", "job.completed", "{}")).toEqual({ ok: false, status: 500, error: "HTTP 500" });
+
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("ECONNREFUSED")));
+    expect(await sendWebhook("https://crm.example.com", "s", "d", "job.completed", "{}")).toEqual({ ok: false, error: "ECONNREFUSED" });
+  });
+
+  it("should refuse to deliver to a host that now resolves to a private address", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    vi.stubGlobal("fetch", fetchMock);
+    resolvedAddress = "169.254.169.254";
+
+    const result = await sendWebhook("https://crm.example.com/hooks", "s", "d", "job.completed", "{}");
+    expect(result.ok).toBe(false);
+    expect(result.error).toMatch(/non-public address/);
+    expect(await sendWebhook("http://127.0.0.1:9000/hooks", "s", "d", "job.completed", "{}")).toMatchObject({ ok: false, error: "127.0.0.1 is not a public host" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
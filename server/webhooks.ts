@@ -0,0 +1,347 @@
+/**
+ * Outbound Webhooks
+ *
+ * Users register endpoints that receive a signed JSON POST on job lifecycle events,
+ * so CRM syncs don't have to poll enrichment.getJob.
+ *
+ * Every request carries:
+ *   X-Webhook-Event:     e.g. "job.completed"
+ *   X-Webhook-Delivery:  unique delivery id (same across retries — use it to dedupe)
+ *   X-Webhook-Signature: "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}` with the endpoint secret>"
+ *
+ * Deliveries are logged in webhookDeliveries. The first attempt is made immediately;
+ * failures are retried with backoff by worker.ts (retryDueWebhookDeliveries).
+ *
+ * Endpoints must be public hosts (publicHost.ts) — checked when the URL is saved and before
+ * every delivery.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { and, desc, eq, lte } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { webhookDeliveries, webhookEndpoints, type WebhookDelivery, type WebhookEndpoint } from "../drizzle/schema";
+import { getDb } from "./db";
+import { getEnrichmentJob } from "./enrichmentDb";
+import { assertPublicUrl } from "./publicHost";
+
+export const WEBHOOK_EVENTS = [
+  "job.processing",
+  "job.firm_completed",
+  "job.completed",
+  "job.failed",
+  "job.cancelled",
+  "job.paused",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number] | "ping";
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  occurredAt: string;
+  jobId: number | null;
+  data: Record<string, unknown>;
+}
+
+/** Delay before retry N (1-based); deliveries give up after the last one */
+const RETRY_DELAYS_MS = [30_000, 2 * 60_000, 10 * 60_000, 60 * 60_000, 6 * 60 * 60_000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** Endpoint lookups are cached briefly — per-firm events would otherwise hit the DB for every firm */
+const ENDPOINT_CACHE_TTL_MS = 30_000;
+const endpointCache = new Map<number, { loadedAt: number; endpoints: WebhookEndpoint[] }>();
+
+// ---------------------------------------------------------------------------
+// Signing
+// ---------------------------------------------------------------------------
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Reference check for receivers: valid signature and timestamp within the tolerance window
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceSeconds = 300,
+  now: number = Math.floor(Date.now() / 1000),
+): boolean {
+  const parts = Object.fromEntries(header.split(",").map((p) => p.split("=") as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1 || Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split("v1=")[1], "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function nextRetryDelay(attempts: number): number | null {
+  return attempts < MAX_ATTEMPTS ? RETRY_DELAYS_MS[attempts - 1] : null;
+}
+
+export function endpointWantsEvent(endpoint: Pick<WebhookEndpoint, "events" | "enabled">, event: WebhookEvent): boolean {
+  if (!endpoint.enabled) return false;
+  if (event === "ping" || !endpoint.events) return true;
+  try {
+    return (JSON.parse(endpoint.events) as string[]).includes(event);
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+export interface SendResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * POST one signed payload. Any 2xx counts as delivered.
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  deliveryId: string,
+  event: WebhookEvent,
+  body: string,
+): Promise<SendResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+  try {
+    // Checked again on every attempt: the host may have been re-pointed since the URL was saved
+    await assertPublicUrl(url);
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "VC-Enrichment-Webhooks/1.0",
+        "X-Webhook-Event": event,
+        "X-Webhook-Delivery": deliveryId,
+        "X-Webhook-Signature": signWebhookPayload(secret, Math.floor(Date.now() / 1000), body),
+      },
+      body,
+      signal: controller.signal,
+      redirect: "manual",
+    });
+    if (response.ok) return { ok: true, status: response.status };
+    return { ok: false, status: response.status, error: `HTTP ${response.status}` };
+  } catch (err) {
+    const message = controller.signal.aborted ? `Timed out after ${DELIVERY_TIMEOUT_MS}ms` : err instanceof Error ? err.message : String(err);
+    return { ok: false, error: message.slice(0, 500) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Make one attempt for a logged delivery and record the outcome / next retry
+ */
+async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const attempts = delivery.attempts + 1;
+  const result = await sendWebhook(endpoint.url, endpoint.secret, delivery.deliveryId, delivery.event as WebhookEvent, delivery.payload);
+
+  if (result.ok) {
+    await db.update(webhookDeliveries)
+      .set({ status: "success", attempts, responseStatus: result.status, lastError: null, nextAttemptAt: null, deliveredAt: new Date() })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    return true;
+  }
+
+  const delay = nextRetryDelay(attempts);
+  await db.update(webhookDeliveries)
+    .set({
+      status: delay === null ? "failed" : "pending",
+      attempts,
+      responseStatus: result.status ?? null,
+      lastError: result.error ?? null,
+      nextAttemptAt: delay === null ? null : new Date(Date.now() + delay),
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+  if (delay === null) {
+    console.warn(`[Webhooks] Delivery ${delivery.deliveryId} to ${endpoint.url} failed after ${attempts} attempts: ${result.error}`);
+  }
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Emitting
+// ---------------------------------------------------------------------------
+
+async function getActiveEndpoints(userId: number): Promise<WebhookEndpoint[]> {
+  const cached = endpointCache.get(userId);
+  if (cached && Date.now() - cached.loadedAt < ENDPOINT_CACHE_TTL_MS) return cached.endpoints;
+
+  const db = await getDb();
+  if (!db) return [];
+  const endpoints = await db.select().from(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.userId, userId), eq(webhookEndpoints.enabled, true)));
+  endpointCache.set(userId, { loadedAt: Date.now(), endpoints });
+  return endpoints;
+}
+
+async function deliverToEndpoint(endpoint: WebhookEndpoint, event: WebhookEvent, jobId: number | null, data: Record<string, unknown>): Promise<WebhookDelivery | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const payload: WebhookPayload = { id: nanoid(), event, occurredAt: new Date().toISOString(), jobId, data };
+  const body = JSON.stringify(payload);
+  const result = await db.insert(webhookDeliveries).values({
+    deliveryId: payload.id,
+    endpointId: endpoint.id,
+    jobId,
+    event,
+    payload: body,
+    // No retry time until the first attempt has failed, so retryDueWebhookDeliveries can't pick
+    // the delivery up while that attempt is still in flight
+    nextAttemptAt: null,
+  });
+  const [delivery] = await db.select().from(webhookDeliveries)
+    .where(eq(webhookDeliveries.id, Number(result[0].insertId)))
+    .limit(1);
+  await attemptDelivery(delivery, endpoint);
+  return delivery;
+}
+
+/**
+ * Notify the job owner's endpoints of a lifecycle event.
+ * Never throws — callers fire and forget, like insertJobLog.
+ */
+export async function emitJobEvent(
+  jobOrId: { id: number; userId: number } | number,
+  event: WebhookEvent,
+  data: Record<string, unknown> = {},
+): Promise<void> {
+  const jobId = typeof jobOrId === "number" ? jobOrId : jobOrId.id;
+  try {
+    const job = typeof jobOrId === "number" ? await getEnrichmentJob(jobOrId) : jobOrId;
+    if (!job) return;
+    const endpoints = (await getActiveEndpoints(job.userId)).filter((e) => endpointWantsEvent(e, event));
+    await Promise.all(endpoints.map((e) => deliverToEndpoint(e, event, job.id, data)));
+  } catch (err) {
+    console.error(`[Webhooks] Failed to emit ${event} for job ${jobId}:`, err);
+  }
+}
+
+/**
+ * Send a "ping" to one endpoint (used by the Test button)
+ */
+export async function sendTestWebhook(endpoint: WebhookEndpoint): Promise<WebhookDelivery | null> {
+  const delivery = await deliverToEndpoint(endpoint, "ping", null, { message: "Webhook endpoint configured correctly" });
+  if (!delivery) return null;
+  return (await getWebhookDeliveries(endpoint.id, 1))[0] ?? null;
+}
+
+/**
+ * Retry pending deliveries whose backoff has elapsed. Called from the worker poll loop.
+ * Each retry is claimed by bumping nextAttemptAt first so parallel workers don't double-send.
+ */
+export async function retryDueWebhookDeliveries(limit = 50): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const now = new Date();
+  const due = await db.select().from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+    .limit(limit);
+
+  let delivered = 0;
+  for (const delivery of due) {
+    const claim = await db.update(webhookDeliveries)
+      .set({ nextAttemptAt: new Date(now.getTime() + DELIVERY_TIMEOUT_MS * 3) })
+      .where(and(
+        eq(webhookDeliveries.id, delivery.id),
+        eq(webhookDeliveries.status, "pending"),
+        eq(webhookDeliveries.attempts, delivery.attempts),
+      ));
+    if (((claim as any)[0]?.affectedRows ?? 0) === 0) continue;
+
+    const [endpoint] = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, delivery.endpointId)).limit(1);
+    if (!endpoint || !endpoint.enabled) {
+      await db.update(webhookDeliveries)
+        .set({ status: "failed", lastError: "Endpoint deleted or disabled", nextAttemptAt: null })
+        .where(eq(webhookDeliveries.id, delivery.id));
+      continue;
+    }
+    if (await attemptDelivery(delivery, endpoint)) delivered++;
+  }
+  return delivered;
+}
+
+// ---------------------------------------------------------------------------
+// Endpoint CRUD
+// ---------------------------------------------------------------------------
+
+export async function createWebhookEndpoint(
+  userId: number,
+  url: string,
+  events?: WebhookEvent[],
+  description?: string,
+): Promise<WebhookEndpoint> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(webhookEndpoints).values({
+    userId,
+    url,
+    secret: generateWebhookSecret(),
+    events: events && events.length > 0 ? JSON.stringify(events) : null,
+    description: description ?? null,
+  });
+  endpointCache.delete(userId);
+  return (await getWebhookEndpoint(Number(result[0].insertId)))!;
+}
+
+export async function getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getUserWebhookEndpoints(userId: number): Promise<WebhookEndpoint[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.userId, userId)).orderBy(webhookEndpoints.createdAt);
+}
+
+export async function updateWebhookEndpoint(endpoint: WebhookEndpoint, updates: Partial<WebhookEndpoint>): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(webhookEndpoints).set(updates).where(eq(webhookEndpoints.id, endpoint.id));
+  endpointCache.delete(endpoint.userId);
+}
+
+export async function deleteWebhookEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, endpoint.id));
+  endpointCache.delete(endpoint.userId);
+}
+
+export async function getWebhookDeliveries(endpointId: number, limit = 100): Promise<WebhookDelivery[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(webhookDeliveries)
+    .where(eq(webhookDeliveries.endpointId, endpointId))
+    .orderBy(desc(webhookDeliveries.id))
+    .limit(limit);
+}
@@ -0,0 +1,95 @@
+/**
+ * Website Resolution Jobs
+ *
+ * Looking up a website fetches a handful of pages and makes LLM calls for each row, so pre-flight
+ * fixes that resolve missing websites don't run inside uploadAndPreview. They are queued as an
+ * enrichmentJobs row of kind "website_resolution", which the worker runs like any other job:
+ * - the accepted fixes (inputPreflight.ts) are applied to the input file, with websites looked up
+ *   by websiteResolver.ts; processedCount / firmCount count the lookups for progress
+ * - the cleaned CSV becomes the job's output file and the fix summary goes into preflightJson
+ *
+ * Running as a job attributes the lookups' LLM and fetch usage to it (_core/usageContext.ts), so
+ * they count towards the user's monthly budget and can be paused or cancelled (budgets.ts). The
+ * Dashboard polls the job, then re-submits uploadAndPreview with its id to continue with the
+ * cleaned file. Resolution jobs aren't listed with the enrichment jobs.
+ */
+
+import { nanoid } from "nanoid";
+import type { EnrichmentJob } from "../drizzle/schema";
+import { createEnrichmentJob, getEnrichmentJob, updateEnrichmentJob } from "./enrichmentDb";
+import { readInputTable, type ColumnMapping } from "./excelProcessor";
+import { applyPreflightFixes, inputTableToCsv, type PreflightFixes, type PreflightFixSummary, type WebsiteResolver } from "./inputPreflight";
+import { storageGet, storagePut } from "./storage";
+import { preflightWebsiteResolver } from "./websiteResolver";
+import { isJobCancelled } from "./_core/jobCancellation";
+
+export interface WebsiteResolutionState {
+  fixes: PreflightFixes;
+  /** Set once the job completed */
+  summary?: PreflightFixSummary;
+}
+
+/**
+ * Queue the fixes for the worker. Returns the job id.
+ */
+export async function createWebsiteResolutionJob(
+  userId: number,
+  input: { fileUrl: string; fileKey: string; columnMapping: ColumnMapping; fixes: PreflightFixes },
+): Promise<number> {
+  const state: WebsiteResolutionState = { fixes: input.fixes };
+  return createEnrichmentJob({
+    userId,
+    kind: "website_resolution",
+    status: "pending",
+    inputFileUrl: input.fileUrl,
+    inputFileKey: input.fileKey,
+    columnMappingJson: JSON.stringify(input.columnMapping),
+    preflightJson: JSON.stringify(state),
+  });
+}
+
+export function parseWebsiteResolutionState(job: Pick<EnrichmentJob, "preflightJson">): WebsiteResolutionState {
+  return job.preflightJson ? JSON.parse(job.preflightJson) : { fixes: {} };
+}
+
+/**
+ * Apply the job's fixes and store the cleaned file. Run by the worker inside the job's usage context.
+ */
+export async function processWebsiteResolutionJob(jobId: number): Promise<void> {
+  const job = await getEnrichmentJob(jobId);
+  if (!job) throw new Error(`Job ${jobId} not found`);
+  if (!job.columnMappingJson) throw new Error("Website resolution job has no column mapping");
+
+  const columnMapping: ColumnMapping = JSON.parse(job.columnMappingJson);
+  const state = parseWebsiteResolutionState(job);
+  const { url } = await storageGet(job.inputFileKey);
+
+  // Rows left once the job is stopped are counted as not found rather than fetched
+  const lookup = preflightWebsiteResolver(columnMapping);
+  const resolveWebsite: WebsiteResolver = async (companyName, row) => (isJobCancelled(jobId) ? null : lookup(companyName, row));
+
+  const { table, summary } = await applyPreflightFixes(
+    await readInputTable(url),
+    columnMapping,
+    state.fixes,
+    resolveWebsite,
+    ({ done, total, companyName }) => {
+      updateEnrichmentJob(jobId, { processedCount: done, firmCount: total, currentFirmName: companyName }).catch((err) => {
+        console.warn(`[WebsiteResolution] Could not update progress of job ${jobId}:`, err instanceof Error ? err.message : err);
+      });
+    },
+  );
+  if (isJobCancelled(jobId)) return;
+
+  const outputFileKey = `enrichment/${job.userId}/${nanoid()}-cleaned.csv`;
+  const { url: outputFileUrl } = await storagePut(outputFileKey, inputTableToCsv(table), "text/csv");
+  await updateEnrichmentJob(jobId, {
+    status: "completed",
+    outputFileUrl,
+    outputFileKey,
+    preflightJson: JSON.stringify({ ...state, summary }),
+    currentFirmName: null,
+    completedAt: new Date(),
+  });
+  console.log(`[WebsiteResolution] Job ${jobId} completed: ${summary.resolved} websites found, ${summary.unresolved} not found`);
+}
@@ -0,0 +1,138 @@
+/**
+ * Tests for company website discovery from a name (search stub, domain guessing, homepage
+ * scoring and verification, all offline)
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  guessDomains,
+  preflightWebsiteResolver,
+  readHomepage,
+  resolveCompanyWebsite,
+  scoreCandidate,
+  StubSearchProvider,
+  type HomepageFetcher,
+} from "./websiteResolver";
+import { applyPreflightFixes } from "./inputPreflight";
+
+const page = (title: string, description = "") =>
+  `<html><head><title>${title}</title><meta name="description" content="${description}"></head><body></body></html>`;
+
+/** Homepages by origin; anything else doesn't answer */
+function fakeSites(sites: Record<string, string>): HomepageFetcher {
+  return async (url) => (sites[url] ? { url, html: sites[url] } : null);
+}
+
+const search = new StubSearchProvider({
+  "acme ventures": [
+    { url: "https://www.linkedin.com/company/acme-ventures", title: "Acme Ventures | LinkedIn", snippet: "" },
+    { url: "https://www.acme.vc/team", title: "Acme Ventures — Seed fund", snippet: "Seed-stage fund in Berlin" },
+    { url: "https://acme-anvils.com", title: "Acme Anvils", snippet: "Anvils since 1949" },
+  ],
+});
+
+describe("guessDomains", () => {
+  it("should try the full and the core name under common and country TLDs", () => {
+    expect(guessDomains("Acme Ventures LLC")).toEqual([
+      "acmeventures.com", "acme.com", "acme-ventures.com", "acmeventures.vc", "acme.vc", "acme-ventures.vc", "acmeventures.io", "acme.io",
+    ]);
+    expect(guessDomains("Zürich Capital AG", "Zurich, Switzerland", 4)).toEqual([
+      "zurichcapital.com", "zurich.com", "zurich-capital.com", "zurichcapital.ch",
+    ]);
+    expect(guessDomains("Q")).toEqual([]);
+  });
+});
+
+describe("homepage scoring", () => {
+  it("should read the title, site name and description", () => {
+    const html = '<title> Home\n| Acme </title><meta property="og:site_name" content="Acme Ventures"><meta property="og:description" content="Seed fund">';
+    expect(readHomepage(html)).toEqual({ title: "Home | Acme", siteName: "Acme Ventures", description: "Seed fund" });
+  });
+
+  it("should reward the name on the homepage, a matching domain and a top search rank", () => {
+    const query = { companyName: "Acme Ventures", location: "Berlin" };
+    expect(scoreCandidate(query, { domain: "acme.vc", reachable: true, searchRank: 1, title: "Acme Ventures", description: "A Berlin seed fund" })).toBe(85);
+    expect(scoreCandidate(query, { domain: "acmeholdings.com", reachable: true, title: "Welcome", description: "Acme" })).toBe(30);
+    expect(scoreCandidate(query, { domain: "acme.vc", reachable: false, searchRank: 1 })).toBe(0);
+  });
+});
+
+describe("resolveCompanyWebsite", () => {
+  it("should pick the verified search hit and list every candidate considered", async () => {
+    const verify = vi.fn(async (url: string) =>
+      url === "https://www.acme.vc" ? { verified: true, message: "YES - seed fund" } : { verified: false, message: "NO - anvil maker" });
+    const result = await resolveCompanyWebsite(
+      { companyName: "Acme Ventures", location: "Berlin", description: "Seed-stage VC" },
+      {
+        searchProvider: search,
+        fetchHomepage: fakeSites({
+          "https://www.acme.vc": page("Acme Ventures", "Seed-stage fund based in Berlin"),
+          "https://acme-anvils.com": page("Acme Anvils", "Anvils since 1949"),
+          "https://acme.com": page("ACME Corporation"),
+        }),
+        verify,
+      },
+    );
+
+    expect(result).toMatchObject({ url: "https://www.acme.vc", domain: "acme.vc", confidence: 100 });
+    expect(result.candidates[0]).toMatchObject({ domain: "acme.vc", sources: ["search", "guess"], searchRank: 1, verified: true });
+    expect(result.candidates.map((c) => c.domain)).not.toContain("linkedin.com");
+    expect(result.candidates.find((c) => c.domain === "acme-anvils.com")).toMatchObject({ searchRank: 2, verified: false });
+    expect(result.candidates.find((c) => c.domain === "acmeventures.com")).toMatchObject({ reachable: false, score: 0 });
+    expect(verify).toHaveBeenCalledWith("https://www.acme.vc", "Acme Ventures", "Seed-stage VC");
+    expect(verify).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return no website when the best candidate is rejected or nothing answers", async () => {
+    const rejected = await resolveCompanyWebsite(
+      { companyName: "Apple Capital" },
+      {
+        searchProvider: null,
+        fetchHomepage: fakeSites({ "https://apple.com": page("Apple") }),
+        verify: async () => ({ verified: false, message: "NO - this is the consumer electronics company" }),
+      },
+    );
+    expect(rejected).toMatchObject({ url: null, domain: null, confidence: 25 });
+
+    const parked = await resolveCompanyWebsite(
+      { companyName: "Northwind Partners" },
+      { searchProvider: null, fetchHomepage: fakeSites({ "https://northwind.com": page("northwind.com is for sale", "Buy this domain") }), verify: vi.fn() },
+    );
+    expect(parked).toMatchObject({ url: null, confidence: 0 });
+  });
+
+  it("should follow redirects to another domain and skip those to profile pages", async () => {
+    const fetchHomepage: HomepageFetcher = async (url) => {
+      if (url === "https://globex.com") return { url: "https://www.globexgroup.com/en", html: page("Globex") };
+      if (url === "https://globex.vc") return { url: "https://www.linkedin.com/company/globex", html: page("Globex | LinkedIn") };
+      return null;
+    };
+    const result = await resolveCompanyWebsite(
+      { companyName: "Globex" },
+      { searchProvider: null, fetchHomepage, verify: async () => ({ verified: true, message: "YES" }) },
+    );
+    expect(result).toMatchObject({ url: "https://www.globexgroup.com", domain: "globexgroup.com" });
+    expect(result.candidates.find((c) => c.url.includes("globex.vc"))).toMatchObject({ reachable: false });
+  });
+});
+
+describe("name-only input", () => {
+  it("should add the website column and fill it from the resolver", async () => {
+    const table = {
+      columns: ["Firm", "City"],
+      rows: [{ Firm: "Acme Ventures", City: "Berlin" }, { Firm: "Nobody Inc", City: "" }],
+    };
+    const mapping = { companyNameColumn: "Firm", websiteUrlColumn: "Website" };
+    const fetchHomepage = vi.fn(fakeSites({ "https://www.acme.vc": page("Acme Ventures", "Berlin seed fund") }));
+    const resolver = preflightWebsiteResolver(mapping, { searchProvider: search, fetchHomepage, verify: async () => ({ verified: true, message: "YES" }) });
+
+    const { table: fixed, summary } = await applyPreflightFixes(table, mapping, { resolveMissingWebsites: true }, resolver);
+
+    expect(fixed.columns).toEqual(["Firm", "City", "Website"]);
+    expect(fixed.rows).toEqual([
+      { Firm: "Acme Ventures", City: "Berlin", Website: "https://www.acme.vc" },
+      { Firm: "Nobody Inc", City: "" }, // written out as an empty cell
+    ]);
+    expect(summary).toMatchObject({ resolved: 1, unresolved: 1 });
+  });
+});
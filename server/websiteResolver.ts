@@ -0,0 +1,435 @@
+/**
+ * Company Website Resolver
+ *
+ * Finds the most likely official website of a company known only by its name (plus, when the
+ * list has them, a location and a description), for name-only input files:
+ * 1. Candidates — the top hits of a web search (WEBSITE_SEARCH_PROVIDER) and domains guessed from
+ *    the name ("Acme Ventures LLC" → acmeventures.com, acme.vc, …). Social / directory sites are
+ *    never candidates.
+ * 2. Homepage check — each candidate's homepage is fetched and its title, og:site_name and meta
+ *    description are matched against the name and location.
+ * 3. Verification — the best-scoring candidates go through VCEnrichmentService.verifyWebsite,
+ *    the same LLM check enriched firms get.
+ *
+ * The result carries a 0-100 confidence and every candidate considered with its score. Below
+ * MIN_CONFIDENCE no website is returned.
+ *
+ * Lookups only run inside website resolution jobs (websiteResolutionJob.ts), so their search,
+ * fetch and LLM usage is attributed to a job and counted towards the user's monthly budget.
+ *
+ * Search providers:
+ *   jina  — Jina's search endpoint (s.jina.ai) with JINA_API_KEY; the default when the key is set
+ *   stub  — canned results from the JSON file at WEBSITE_SEARCH_STUB_FILE
+ *           ({"acme ventures": [{"url": "...", "title": "...", "snippet": "..."}]}), for local runs
+ *   none  — domain guessing only
+ */
+
+import { readFileSync } from "fs";
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { acquireCrawlPermit, normalizeDomain } from "./crawlPolicy";
+import { canonicalizeWebsite, socialOrDirectoryDomain, type WebsiteResolver } from "./inputPreflight";
+import type { ColumnMapping } from "./excelProcessor";
+
+export interface SearchResult {
+  url: string;
+  title: string;
+  snippet: string;
+}
+
+export interface WebsiteSearchProvider {
+  id: string;
+  search(query: string, limit: number): Promise<SearchResult[]>;
+}
+
+export interface WebsiteQuery {
+  companyName: string;
+  location?: string;
+  description?: string;
+}
+
+export type CandidateSource = "search" | "guess";
+
+export interface WebsiteCandidate {
+  url: string;
+  domain: string;
+  sources: CandidateSource[];
+  /** 1-based position among the search hits */
+  searchRank?: number;
+  reachable: boolean;
+  title?: string;
+  description?: string;
+  /** 0-100, see scoreCandidate */
+  score: number;
+  /** Set once the candidate went through verifyWebsite */
+  verified?: boolean;
+  verificationMessage?: string;
+}
+
+export interface WebsiteResolution {
+  companyName: string;
+  /** Best candidate's homepage, null when no candidate reached MIN_CONFIDENCE */
+  url: string | null;
+  domain: string | null;
+  /** Score of the best candidate, 0-100 */
+  confidence: number;
+  /** Every candidate considered, best first */
+  candidates: WebsiteCandidate[];
+}
+
+export interface Homepage {
+  /** Where the request ended up after redirects */
+  url: string;
+  html: string;
+}
+
+export type HomepageFetcher = (url: string) => Promise<Homepage | null>;
+export type WebsiteVerifier = (url: string, companyName: string, description: string) => Promise<{ verified: boolean; message: string }>;
+
+export interface ResolveOptions {
+  /** Defaults to the configured provider (getSearchProvider); null for guessing only */
+  searchProvider?: WebsiteSearchProvider | null;
+  fetchHomepage?: HomepageFetcher;
+  verify?: WebsiteVerifier;
+  /** Candidates verified with the LLM, best first. Default: VERIFY_TOP */
+  verifyTop?: number;
+}
+
+export const MIN_CONFIDENCE = 50;
+const SEARCH_RESULTS = 5;
+const MAX_GUESSES = 8;
+const VERIFY_TOP = 2;
+/** Candidates below this score aren't worth an LLM call */
+const VERIFY_MIN_SCORE = 30;
+const FETCH_CONCURRENCY = 4;
+/** Parked / for-sale domains carry the name in their title but aren't the company */
+const PARKED_PAGE = /\b(domain (is )?for sale|buy this domain|domain (is )?parked|parked free|hugedomains|sedo)\b/i;
+
+const LEGAL_SUFFIXES = new Set(["inc", "llc", "ltd", "limited", "gmbh", "corp", "corporation", "co", "plc", "lp", "llp", "sa", "ag", "bv", "sarl", "pte"]);
+/** Words companies often leave out of their domain */
+const GENERIC_WORDS = new Set(["the", "and", "ventures", "venture", "capital", "partners", "group", "holdings", "management", "fund", "investments", "technologies", "labs"]);
+const GUESS_TLDS = ["com", "vc", "io", "co", "ai", "net"];
+/** Country-code domains tried first when the location names the country */
+const COUNTRY_TLDS: Record<string, string> = {
+  "united kingdom": "co.uk", uk: "co.uk", london: "co.uk", germany: "de", berlin: "de", munich: "de",
+  france: "fr", paris: "fr", netherlands: "nl", amsterdam: "nl", switzerland: "ch", zurich: "ch",
+  sweden: "se", stockholm: "se", spain: "es", italy: "it", israel: "co.il", "tel aviv": "co.il",
+  india: "in", singapore: "sg", australia: "com.au", canada: "ca", japan: "jp", brazil: "com.br",
+};
+
+function nameTokens(companyName: string): string[] {
+  return companyName
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t && !LEGAL_SUFFIXES.has(t));
+}
+
+/** Name tokens that carry the company's identity ("acme" of "Acme Ventures"); all tokens if every word is generic */
+function coreTokens(companyName: string): string[] {
+  const tokens = nameTokens(companyName);
+  const core = tokens.filter((t) => !GENERIC_WORDS.has(t));
+  return core.length > 0 ? core : tokens;
+}
+
+/**
+ * Domains the company plausibly lives at, most likely first: "Acme Ventures LLC" in London →
+ * acmeventures.com, acme.com, acmeventures.co.uk, acme.co.uk, acmeventures.vc, …
+ */
+export function guessDomains(companyName: string, location?: string, limit = MAX_GUESSES): string[] {
+  const tokens = nameTokens(companyName).filter((t) => t !== "the" && t !== "and");
+  const core = coreTokens(companyName);
+  const slugs = Array.from(new Set([tokens.join(""), core.join(""), tokens.join("-")])).filter((s) => s.length >= 3);
+
+  const place = (location ?? "").toLowerCase();
+  const countryTld = Object.keys(COUNTRY_TLDS).find((key) => new RegExp(`\\b${key}\\b`).test(place));
+  const tlds = countryTld ? ["com", COUNTRY_TLDS[countryTld], ...GUESS_TLDS.slice(1)] : GUESS_TLDS;
+
+  const domains: string[] = [];
+  for (const tld of tlds) {
+    for (const slug of slugs) domains.push(`${slug}.${tld}`);
+  }
+  return Array.from(new Set(domains)).slice(0, limit);
+}
+
+/**
+ * Title, og:site_name and meta description of a homepage
+ */
+export function readHomepage(html: string): { title: string; siteName: string; description: string } {
+  const $ = cheerio.load(html);
+  const meta = (selector: string) => ($(selector).attr("content") ?? "").trim();
+  return {
+    title: $("title").first().text().replace(/\s+/g, " ").trim(),
+    siteName: meta('meta[property="og:site_name"]'),
+    description: meta('meta[name="description"]') || meta('meta[property="og:description"]'),
+  };
+}
+
+/**
+ * 0-100 before verification:
+ * - up to 40 for the name's core words in the homepage title / site name (20 if only in the description)
+ * - 20 when the domain is the name's slug, 10 when it contains it
+ * - 20 / 15 / 10 for the first / second / later search hit
+ * - 5 when the location appears on the homepage or in the search snippet
+ * Unreachable candidates score 0.
+ */
+export function scoreCandidate(
+  query: WebsiteQuery,
+  candidate: Pick<WebsiteCandidate, "domain" | "reachable" | "searchRank" | "title" | "description">,
+  snippet = "",
+): number {
+  if (!candidate.reachable) return 0;
+  const core = coreTokens(query.companyName);
+  if (core.length === 0) return 0;
+
+  const heading = (candidate.title ?? "").toLowerCase();
+  const body = `${candidate.description ?? ""} ${snippet}`.toLowerCase();
+  const inHeading = core.filter((t) => new RegExp(`\\b${t}\\b`).test(heading)).length / core.length;
+  const inBody = core.filter((t) => new RegExp(`\\b${t}\\b`).test(body)).length / core.length;
+  let score = Math.max(40 * inHeading, 20 * inBody);
+
+  const label = candidate.domain.split(".")[0].replace(/-/g, "");
+  const slug = core.join("");
+  if (label === slug || label === nameTokens(query.companyName).join("")) score += 20;
+  else if (label.includes(slug)) score += 10;
+
+  if (candidate.searchRank) score += candidate.searchRank === 1 ? 20 : candidate.searchRank === 2 ? 15 : 10;
+
+  const place = (query.location ?? "").toLowerCase().split(",")[0].trim();
+  if (place && `${heading} ${body}`.includes(place)) score += 5;
+
+  return Math.min(100, Math.round(score));
+}
+
+/**
+ * Find the company's official website (see the module comment)
+ */
+export async function resolveCompanyWebsite(query: WebsiteQuery, options: ResolveOptions = {}): Promise<WebsiteResolution> {
+  const searchProvider = options.searchProvider === undefined ? getSearchProvider() : options.searchProvider;
+  const fetchHomepage = options.fetchHomepage ?? fetchHomepageLive;
+  const verify = options.verify ?? verifyWithEnrichmentService;
+  const companyName = query.companyName.trim();
+
+  // Candidates by domain — a domain found by search and by guessing is one candidate
+  const byDomain = new Map<string, WebsiteCandidate & { snippet: string }>();
+  const addCandidate = (url: string, source: CandidateSource, hit?: SearchResult, rank?: number) => {
+    const canonical = canonicalizeWebsite(url);
+    const domain = canonical ? normalizeDomain(canonical) : null;
+    if (!canonical || !domain || socialOrDirectoryDomain(canonical)) return;
+    const existing = byDomain.get(domain);
+    if (existing) {
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+      if (rank && !existing.searchRank) existing.searchRank = rank;
+      return;
+    }
+    byDomain.set(domain, {
+      url: `${new URL(canonical).protocol}//${new URL(canonical).host}`,
+      domain,
+      sources: [source],
+      searchRank: rank,
+      reachable: false,
+      score: 0,
+      snippet: hit ? `${hit.title} ${hit.snippet}` : "",
+    });
+  };
+
+  if (searchProvider) {
+    const searchQuery = [companyName, query.location, "official website"].filter(Boolean).join(" ");
+    const hits = await searchProvider.search(searchQuery, SEARCH_RESULTS).catch((error) => {
+      console.warn(`[WebsiteResolver] ${searchProvider.id} search failed for "${companyName}":`, error instanceof Error ? error.message : error);
+      return [] as SearchResult[];
+    });
+    let rank = 0;
+    for (const hit of hits) {
+      if (socialOrDirectoryDomain(hit.url)) continue;
+      addCandidate(hit.url, "search", hit, ++rank);
+    }
+  }
+  for (const domain of guessDomains(companyName, query.location)) addCandidate(`https://${domain}`, "guess");
+
+  // Homepage check
+  const candidates = Array.from(byDomain.values());
+  const queue = candidates.slice();
+  const worker = async () => {
+    for (let candidate = queue.shift(); candidate; candidate = queue.shift()) {
+      const page = await fetchHomepage(candidate.url).catch(() => null);
+      if (!page) continue;
+      const landed = normalizeDomain(page.url);
+      if (landed && landed !== candidate.domain) {
+        // Redirects to another candidate (acme.io → acme.com) are checked as that one; a redirect
+        // to a profile page isn't the company's site
+        if (byDomain.has(landed) || socialOrDirectoryDomain(page.url)) continue;
+        candidate.url = new URL(page.url).origin;
+        candidate.domain = landed;
+      }
+      const { title, siteName, description } = readHomepage(page.html);
+      if (PARKED_PAGE.test(`${title} ${description}`)) continue;
+      candidate.reachable = true;
+      candidate.title = [siteName, title].filter(Boolean).join(" | ") || undefined;
+      candidate.description = description || undefined;
+      candidate.score = scoreCandidate(query, candidate, candidate.snippet);
+    }
+  };
+  await Promise.all(Array.from({ length: FETCH_CONCURRENCY }, worker));
+
+  const sortCandidates = () => candidates.sort((a, b) => b.score - a.score || (a.searchRank ?? 99) - (b.searchRank ?? 99));
+  sortCandidates();
+
+  // LLM verification of the front-runners: a "YES" adds 25, a "NO" caps the candidate at 25
+  const toVerify = candidates.filter((c) => c.score >= VERIFY_MIN_SCORE).slice(0, options.verifyTop ?? VERIFY_TOP);
+  for (const candidate of toVerify) {
+    const { verified, message } = await verify(candidate.url, companyName, query.description ?? "");
+    candidate.verified = verified;
+    candidate.verificationMessage = message;
+    if (verified) candidate.score = Math.min(100, candidate.score + 25);
+    else if (/^no\b/i.test(message.trim())) candidate.score = Math.min(candidate.score, 25);
+  }
+  sortCandidates();
+
+  const best = candidates[0];
+  const found = best && best.score >= MIN_CONFIDENCE ? best : undefined;
+  return {
+    companyName,
+    url: found?.url ?? null,
+    domain: found?.domain ?? null,
+    confidence: best?.score ?? 0,
+    candidates: candidates.map(({ snippet, ...candidate }) => candidate),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Fetching and verification
+// ---------------------------------------------------------------------------
+
+async function fetchHomepageLive(url: string): Promise<Homepage | null> {
+  if (!(await acquireCrawlPermit(url))) return null;
+  try {
+    const response = await axios.get(url, {
+      timeout: 8000,
+      maxRedirects: 5,
+      responseType: "text",
+      maxContentLength: 2 * 1024 * 1024,
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+        Accept: "text/html",
+      },
+    });
+    const landed: string | undefined = response.request?.res?.responseUrl;
+    return { url: landed ?? url, html: String(response.data ?? "") };
+  } catch {
+    return null;
+  }
+}
+
+async function verifyWithEnrichmentService(url: string, companyName: string, description: string) {
+  // Loaded on first use — the enrichment service pulls in the whole scraping stack
+  const { VCEnrichmentService } = await import("./vcEnrichment");
+  return new VCEnrichmentService().verifyWebsite(url, companyName, description);
+}
+
+// ---------------------------------------------------------------------------
+// Search providers
+// ---------------------------------------------------------------------------
+
+/**
+ * Canned results keyed by company name (lower case): a query gets the results of the longest key
+ * it contains
+ */
+export class StubSearchProvider implements WebsiteSearchProvider {
+  readonly id = "stub";
+  private readonly entries: [string, SearchResult[]][];
+
+  constructor(results: Record<string, SearchResult[]>) {
+    this.entries = Object.entries(results)
+      .map(([key, hits]): [string, SearchResult[]] => [key.toLowerCase(), hits])
+      .sort((a, b) => b[0].length - a[0].length);
+  }
+
+  static fromFile(path: string): StubSearchProvider {
+    return new StubSearchProvider(JSON.parse(readFileSync(path, "utf-8")));
+  }
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    const text = query.toLowerCase();
+    return (this.entries.find(([key]) => text.includes(key))?.[1] ?? []).slice(0, limit);
+  }
+}
+
+/**
+ * Jina's search endpoint: s.jina.ai with a JSON response, without page contents
+ */
+export class JinaSearchProvider implements WebsiteSearchProvider {
+  readonly id = "jina";
+
+  constructor(private readonly apiKey: string) {}
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    const response = await axios.get(`https://s.jina.ai/?q=${encodeURIComponent(query)}`, {
+      timeout: 20000,
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        Accept: "application/json",
+        "X-Respond-With": "no-content",
+      },
+    });
+    const data: { url?: string; title?: string; description?: string }[] = response.data?.data ?? [];
+    return data
+      .filter((d) => d.url)
+      .slice(0, limit)
+      .map((d) => ({ url: d.url!, title: d.title ?? "", snippet: d.description ?? "" }));
+  }
+}
+
+/**
+ * The provider WEBSITE_SEARCH_PROVIDER names; by default the stub when WEBSITE_SEARCH_STUB_FILE is
+ * set, else Jina when JINA_API_KEY is set, else none
+ */
+export function getSearchProvider(): WebsiteSearchProvider | null {
+  const stubFile = process.env.WEBSITE_SEARCH_STUB_FILE?.trim();
+  const jinaKey = process.env.JINA_API_KEY?.trim();
+  const choice = process.env.WEBSITE_SEARCH_PROVIDER?.trim().toLowerCase() || (stubFile ? "stub" : jinaKey ? "jina" : "none");
+
+  if (choice === "stub") {
+    if (!stubFile) {
+      console.warn("[WebsiteResolver] WEBSITE_SEARCH_PROVIDER=stub needs WEBSITE_SEARCH_STUB_FILE; searching is off");
+      return null;
+    }
+    return StubSearchProvider.fromFile(stubFile);
+  }
+  if (choice === "jina") {
+    if (!jinaKey) {
+      console.warn("[WebsiteResolver] WEBSITE_SEARCH_PROVIDER=jina needs JINA_API_KEY; searching is off");
+      return null;
+    }
+    return new JinaSearchProvider(jinaKey);
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Pre-flight fixes
+// ---------------------------------------------------------------------------
+
+const LOCATION_COLUMN = /^(location|city|country|hq|headquarters|head office|region)$/i;
+
+/**
+ * Resolver for applyPreflightFixes: the row's description and location columns go into the query
+ */
+export function preflightWebsiteResolver(columnMapping: ColumnMapping, options: ResolveOptions = {}): WebsiteResolver {
+  const searchProvider = options.searchProvider === undefined ? getSearchProvider() : options.searchProvider;
+  return async (companyName, row) => {
+    const locationColumn = Object.keys(row).find((column) => LOCATION_COLUMN.test(column.trim()));
+    const resolution = await resolveCompanyWebsite(
+      {
+        companyName,
+        location: locationColumn ? row[locationColumn]?.trim() || undefined : undefined,
+        description: columnMapping.descriptionColumn ? row[columnMapping.descriptionColumn]?.trim() || undefined : undefined,
+      },
+      { ...options, searchProvider },
+    );
+    return resolution.url;
+  };
+}
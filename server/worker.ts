@@ -3,27 +3,43 @@
  * 
  * This worker:
  * - Polls the database for pending jobs
- * - Processes one job at a time
+ * - Processes one job at a time; VC jobs are split into firm-level leases (see firmLeasing.ts),
+ *   so when nothing is pending it helps with another worker's VC job instead of idling
  * - Sends heartbeats to detect crashes
  * - Automatically recovers stale jobs
  * - Resumes from last checkpoint on restart
+ * - Enqueues runs for recurring schedules (see schedules.ts)
+ * - Retries failed webhook deliveries (see webhooks.ts)
+ * - Pauses jobs that run over their spend budget (see budgets.ts)
+ * - Writes results back to the shared sheet a job was started from (see sheetWriteBack.ts)
+ * - Looks up missing websites for pre-flight fixes (see websiteResolutionJob.ts)
  * - Runs continuously until stopped
  */
 
 import { drizzle } from 'drizzle-orm/mysql2';
 import mysql from 'mysql2/promise';
 import { enrichmentJobs } from '../drizzle/schema';
-import { eq, and, or, lt, isNull } from 'drizzle-orm';
-import { processEnrichmentJob, processAgentJob } from './routers';
+import { eq, and, or, lt, isNull, ne } from 'drizzle-orm';
+import { processEnrichmentJob, processAgentJob, assistEnrichmentJob } from './routers';
 import { markJobCancelled, clearJobCancelled, isJobCancelled } from './_core/jobCancellation';
+import { enqueueDueSchedules, recordScheduledRunFinished } from './schedules';
+import { writeBackJobResults } from './sheetWriteBack';
+import { emitJobEvent, retryDueWebhookDeliveries } from './webhooks';
+import { findJobNeedingHelp, releaseActiveFirmLeases, WORKER_ID } from './firmLeasing';
+import { enforceJobBudget, flushJobUsage } from './budgets';
+import { runWithJobContext } from './_core/usageContext';
+import { describeLLMRoutes } from './_core/llmRouting';
+import { processWebsiteResolutionJob } from './websiteResolutionJob';
 
 const POLL_INTERVAL = 5000; // Check for new jobs every 5 seconds
 const HEARTBEAT_INTERVAL = 30000; // Send heartbeat every 30 seconds
 const STALE_THRESHOLD = 5 * 60 * 1000; // 5 minutes without heartbeat = stale
+const WEBHOOK_RETRY_INTERVAL = 30000; // Retry due webhook deliveries every 30 seconds
 
 let currentJobId: number | null = null;
 let heartbeatTimer: NodeJS.Timeout | null = null;
 let cancellationTimer: NodeJS.Timeout | null = null;
+let webhookRetryTimer: NodeJS.Timeout | null = null;
 let isShuttingDown = false;
 
 /**
@@ -154,8 +170,8 @@ async function sendHeartbeat(jobId: number) {
       .where(eq(enrichmentJobs.id, jobId))
       .limit(1);
 
-    if (rows[0]?.status === 'cancelled') {
-      console.log(`[Worker] Job ${jobId} has been cancelled — setting cancellation flag`);
+    if (rows[0]?.status === 'cancelled' || rows[0]?.status === 'paused') {
+      console.log(`[Worker] Job ${jobId} has been ${rows[0].status} — setting cancellation flag`);
       markJobCancelled(jobId);
     }
   } catch (error) {
@@ -174,7 +190,7 @@ async function checkForCancellation(jobId: number) {
       .from(enrichmentJobs)
       .where(eq(enrichmentJobs.id, jobId))
       .limit(1);
-    if (rows[0]?.status === 'cancelled') {
+    if (rows[0]?.status === 'cancelled' || rows[0]?.status === 'paused') {
       markJobCancelled(jobId);
     }
   } catch { /* ignore transient errors */ }
@@ -242,15 +258,22 @@ async function processJob(job: any) {
   startCancellationCheck(job.id);
 
   try {
-    // Route to correct processor: agent jobs have sectionsJson, VC jobs do not
-    if (job.sectionsJson) {
-      await processAgentJob(job.id);
-    } else {
-      await processEnrichmentJob(job.id);
+    // The month's budget may already be spent — don't start work that would be paused right away
+    const overBudget = await enforceJobBudget(job.id);
+    if (overBudget) {
+      console.log(`\n[Worker] ⏸️ Job ${job.id} paused before starting: ${overBudget}`);
+      return;
     }
 
+    // Route to correct processor: website lookups for pre-flight fixes, agent jobs have sectionsJson, VC jobs do not.
+    // All LLM / scraping usage inside is attributed to this job.
+    const processor = job.kind === 'website_resolution'
+      ? processWebsiteResolutionJob
+      : job.sectionsJson ? processAgentJob : processEnrichmentJob;
+    await runWithJobContext(job.id, () => processor(job.id));
+
     if (isJobCancelled(job.id)) {
-      console.log(`\n[Worker] 🛑 Job ${job.id} was cancelled — preserving partial results`);
+      console.log(`\n[Worker] 🛑 Job ${job.id} was cancelled or paused — preserving partial results`);
     } else {
       console.log(`\n[Worker] ✅ Job ${job.id} completed successfully!`);
     }
@@ -263,37 +286,109 @@ async function processJob(job: any) {
       console.error(`\n[Worker] ❌ Job ${job.id} failed:`, error);
 
       // Update job status to failed
+      const errorMessage = error instanceof Error ? error.message : String(error);
       const db = await getDb();
       await db.update(enrichmentJobs)
         .set({
           status: "failed",
-          errorMessage: error instanceof Error ? error.message : String(error),
+          errorMessage,
           completedAt: new Date(),
         })
         .where(eq(enrichmentJobs.id, job.id));
+      await emitJobEvent(job, "job.failed", { errorMessage });
     }
   } finally {
+    await flushJobUsage(job.id).catch(() => []);
     clearJobCancelled(job.id);
     stopHeartbeat();
     stopCancellationCheck();
+    await releaseJobClaim(job.id);
     currentJobId = null;
   }
 }
 
+/**
+ * Clear our workerPid / heartbeat from a job we stopped working on (paused, cancelled, finished),
+ * which is what lets a paused job be resumed (budgets.ts resumePausedJob)
+ */
+async function releaseJobClaim(jobId: number) {
+  try {
+    const db = await getDb();
+    await db.update(enrichmentJobs)
+      .set({ workerPid: null, heartbeatAt: null })
+      .where(and(
+        eq(enrichmentJobs.id, jobId),
+        eq(enrichmentJobs.workerPid, process.pid),
+        ne(enrichmentJobs.status, "processing"),
+      ));
+  } catch (error) {
+    console.error(`[Worker] Failed to release job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Help with a VC job another worker is coordinating. Only firm leases are taken —
+ * no heartbeat (that is the coordinator's liveness signal) and no job status changes.
+ */
+async function assistJob(job: any) {
+  console.log(`[Worker] Helping with job ${job.id} (${job.processedCount}/${job.firmCount} firms processed)`);
+
+  clearJobCancelled(job.id);
+  startCancellationCheck(job.id);
+
+  try {
+    await runWithJobContext(job.id, () => assistEnrichmentJob(job.id));
+    console.log(`[Worker] No more firms to lease for job ${job.id}`);
+  } catch (error) {
+    // The coordinator decides whether the job failed; unfinished leases expire and are retried
+    console.error(`[Worker] Error while helping with job ${job.id}:`, error);
+  } finally {
+    await flushJobUsage(job.id).catch(() => []);
+    clearJobCancelled(job.id);
+    stopCancellationCheck();
+  }
+}
+
+/**
+ * Retry webhook deliveries on their own timer — the poll loop is blocked while a job runs
+ */
+function startWebhookRetries() {
+  let running = false;
+  webhookRetryTimer = setInterval(async () => {
+    if (isShuttingDown || running) return;
+    running = true;
+    try {
+      await retryDueWebhookDeliveries();
+    } catch (error) {
+      console.error('[Worker] Failed to retry webhook deliveries:', error);
+    } finally {
+      running = false;
+    }
+  }, WEBHOOK_RETRY_INTERVAL);
+}
+
 /**
  * Main worker loop
  */
 async function workerLoop() {
   console.log(`\n${'='.repeat(60)}`);
   console.log(`[Worker] VC Enrichment Background Worker Started`);
-  console.log(`[Worker] PID: ${process.pid}`);
+  console.log(`[Worker] PID: ${process.pid} (lease owner ${WORKER_ID})`);
   console.log(`[Worker] Poll interval: ${POLL_INTERVAL}ms`);
   console.log(`[Worker] Heartbeat interval: ${HEARTBEAT_INTERVAL}ms`);
   console.log(`[Worker] Stale threshold: ${STALE_THRESHOLD}ms`);
+  for (const route of describeLLMRoutes()) {
+    console.log(`[Worker] LLM ${route.task}: ${route.provider}:${route.model}`);
+  }
   console.log(`${'='.repeat(60)}\n`);
   
   while (!isShuttingDown) {
     try {
+      // Turn due schedules into pending jobs before looking for work
+      await enqueueDueSchedules().catch((error) => {
+        console.error('[Worker] Failed to enqueue scheduled runs:', error);
+      });
+
       // Find next job
       console.log('[Worker] Polling for jobs...');
       const job = await findNextJob();
@@ -306,10 +401,24 @@ async function workerLoop() {
         if (claimed) {
           // Process the job
           await processJob(job);
+          // Jobs started from a shared sheet can write their results to a new tab of it
+          await writeBackJobResults(job.id);
+          if (job.scheduleId) {
+            await recordScheduledRunFinished(job.id).catch((error) => {
+              console.error(`[Worker] Failed to update schedule for job ${job.id}:`, error);
+            });
+          }
         } else {
           console.log(`[Worker] Failed to claim job ${job.id}, skipping`);
         }
       } else {
+        // Nothing to claim — lease firms of a job another worker is running, if any
+        const helpJob = await findJobNeedingHelp(STALE_THRESHOLD);
+        if (helpJob) {
+          await assistJob(helpJob);
+          continue;
+        }
+
         // No jobs available, wait before checking again
         console.log(`[Worker] No jobs found, waiting ${POLL_INTERVAL}ms...`);
         await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
@@ -334,8 +443,13 @@ function setupShutdownHandlers() {
     
     // Stop heartbeat
     stopHeartbeat();
+    if (webhookRetryTimer) clearInterval(webhookRetryTimer);
     
-    // If processing a job, mark it as pending so it can be resumed
+    // Hand in-flight firms back so other workers don't wait for the leases to expire
+    const released = await releaseActiveFirmLeases().catch(() => 0);
+    if (released > 0) console.log(`[Worker] Released ${released} firm leases`);
+
+    // If processing a job, mark it as pending so it can be resumed (a paused job stays paused)
     if (currentJobId) {
       console.log(`[Worker] Releasing job ${currentJobId} for resume`);
       const db = await getDb();
@@ -345,7 +459,8 @@ function setupShutdownHandlers() {
           workerPid: null,
           heartbeatAt: null,
         })
-        .where(eq(enrichmentJobs.id, currentJobId));
+        .where(and(eq(enrichmentJobs.id, currentJobId), eq(enrichmentJobs.status, "processing")));
+      await releaseJobClaim(currentJobId);
     }
     
     console.log('[Worker] Shutdown complete');
@@ -361,6 +476,7 @@ function setupShutdownHandlers() {
  */
 async function main() {
   setupShutdownHandlers();
+  startWebhookRetries();
   
   try {
     await workerLoop();
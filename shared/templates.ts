@@ -391,7 +391,26 @@ export function getTemplate(id: string): Template {
 
 // ─── Agent-pipeline section definitions for non-VC templates ─────────────────
 
-export interface AgentSection { key: string; label: string; desc: string; }
+export type SectionType = "text" | "number" | "date" | "enum" | "list" | "url" | "email" | "boolean";
+
+/** Structured-data (schema.org) values a section can be pre-filled from — see server/structuredData.ts */
+export type StructuredField =
+  | "name" | "legalName" | "description" | "founded" | "headquarters" | "address" | "email" | "telephone"
+  | "website" | "logo" | "linkedin" | "founders" | "partners" | "team";
+
+export interface AgentSection {
+  key: string;
+  label: string;
+  desc: string;
+  /** Value type — drives the extraction schema and output validation (default "text") */
+  type?: SectionType;
+  /** Unit for number sections (shown in the column header) */
+  unit?: string;
+  /** Allowed values for enum sections */
+  options?: string[];
+  /** Structured-data value that answers this section without the LLM */
+  structured?: StructuredField;
+}
 
 export const TEMPLATE_SECTIONS: Record<string, AgentSection[]> = {
   b2b: [
@@ -404,8 +423,8 @@ export const TEMPLATE_SECTIONS: Record<string, AgentSection[]> = {
     { key: "value_proposition",    label: "Value Proposition",       desc: "What is their core value prop or primary differentiator from competitors?" },
     { key: "notable_clients",      label: "Notable Clients",         desc: "Well-known customers or brands featured in case studies, logos, or testimonials" },
     { key: "funding_investors",    label: "Funding & Investors",     desc: "Funding stage, total raised, and notable investors if disclosed" },
-    { key: "hq_location",          label: "HQ Location",             desc: "Headquarters city and country" },
-    { key: "founded_year",         label: "Founded Year",            desc: "Year the company was founded" },
+    { key: "hq_location",          label: "HQ Location",             desc: "Headquarters city and country", structured: "headquarters" },
+    { key: "founded_year",         label: "Founded Year",            desc: "Year the company was founded", type: "date", structured: "founded" },
   ],
   people: [
     { key: "current_title",        label: "Current Title",           desc: "Person's current job title (e.g. VP of Engineering, Founder, Partner)" },
@@ -413,14 +432,14 @@ export const TEMPLATE_SECTIONS: Record<string, AgentSection[]> = {
     { key: "career_background",    label: "Career Background",       desc: "Key past employers, roles held, and total years of professional experience" },
     { key: "skills_expertise",     label: "Skills & Expertise",      desc: "Domain expertise, technical skills, or key areas of professional focus" },
     { key: "education",            label: "Education",               desc: "Highest degree, institution, and field of study if visible" },
-    { key: "linkedin_url",         label: "LinkedIn URL",            desc: "LinkedIn profile URL if findable on the page or linked" },
+    { key: "linkedin_url",         label: "LinkedIn URL",            desc: "LinkedIn profile URL if findable on the page or linked", type: "url" },
     { key: "contact_info",         label: "Contact Info",            desc: "Email address or other publicly listed contact details" },
     { key: "location",             label: "Location",                desc: "City and country they are based in" },
     { key: "notable_work",         label: "Notable Accomplishments", desc: "Major achievements, publications, awards, or well-known projects" },
   ],
   healthcare: [
     { key: "facility_type",        label: "Facility Type",           desc: "Type of healthcare facility: hospital, outpatient clinic, private practice, surgery center, telehealth, etc." },
-    { key: "specialties",          label: "Medical Specialties",     desc: "All clinical specialties or departments offered (e.g. Cardiology, Orthopedics, Pediatrics)" },
+    { key: "specialties",          label: "Medical Specialties",     desc: "All clinical specialties or departments offered (e.g. Cardiology, Orthopedics, Pediatrics)", type: "list" },
     { key: "staff_size",           label: "Staff / Physician Count", desc: "Number of physicians, practitioners, or overall headcount if stated" },
     { key: "services_offered",     label: "Services Offered",        desc: "Specific treatments, procedures, diagnostics, or programs available" },
     { key: "insurance_accepted",   label: "Insurance Accepted",      desc: "Insurance plans, payers, or networks accepted; note if self-pay is available" },
@@ -444,7 +463,7 @@ export const TEMPLATE_SECTIONS: Record<string, AgentSection[]> = {
     { key: "service_areas",        label: "Service Areas",           desc: "Cities, neighborhoods, counties, or regions the agency actively covers" },
     { key: "property_specialties", label: "Property Specialties",    desc: "Types of properties handled: single-family, condos, multi-family, office, retail, industrial, etc." },
     { key: "price_range",          label: "Listing Price Range",     desc: "Typical or advertised listing price range (e.g. $200K–$800K)" },
-    { key: "agent_count",          label: "Number of Agents",        desc: "Total number of agents or team size listed on the website" },
+    { key: "agent_count",          label: "Number of Agents",        desc: "Total number of agents or team size listed on the website", type: "number", unit: "agents" },
     { key: "top_agents",           label: "Top / Featured Agents",   desc: "Names and specializations of featured or top-producing agents" },
     { key: "recent_sales",         label: "Recent Sales / Volume",   desc: "Recent closed deals, transaction volume, or sales stats highlighted on the site" },
     { key: "differentiators",      label: "Differentiators",         desc: "Awards, certifications, unique services (e.g. virtual tours, off-market listings), or brand claims" },
@@ -459,13 +478,13 @@ export const TEMPLATE_SECTIONS: Record<string, AgentSection[]> = {
     { key: "contact_location",     label: "Contact & Location",      desc: "Street address, phone, email, and any booking or reservation links" },
   ],
   directory: [
-    { key: "company_name",         label: "Company Name",            desc: "Full legal or trading name of the company (from their own website)" },
-    { key: "website",              label: "Website",                 desc: "The company's own website URL (not the directory URL)" },
-    { key: "description",          label: "Description",             desc: "What the company does — their core offering or value proposition" },
+    { key: "company_name",         label: "Company Name",            desc: "Full legal or trading name of the company (from their own website)", structured: "name" },
+    { key: "website",              label: "Website",                 desc: "The company's own website URL (not the directory URL)", type: "url", structured: "website" },
+    { key: "description",          label: "Description",             desc: "What the company does — their core offering or value proposition", structured: "description" },
     { key: "services",             label: "Services / Products",     desc: "Specific services or products they offer" },
     { key: "team_size",            label: "Team Size",               desc: "Number of employees or size indicator (e.g. '10–49', '~200 staff')" },
-    { key: "location",             label: "Location",                desc: "Headquarters city, country, or region" },
-    { key: "founded",              label: "Founded",                 desc: "Year the company was founded, if available" },
+    { key: "location",             label: "Location",                desc: "Headquarters city, country, or region", structured: "headquarters" },
+    { key: "founded",              label: "Founded",                 desc: "Year the company was founded, if available", type: "date", structured: "founded" },
     { key: "key_contact",          label: "Key Contact",             desc: "Name and title of the primary contact or decision maker listed on the site" },
   ],
 };